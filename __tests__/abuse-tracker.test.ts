@@ -0,0 +1,299 @@
+/**
+ * Abuse Tracker Tests
+ *
+ * Covers the client mute/block methods against the simulated network,
+ * escalation from repeated harassment to per-pet mutes and global
+ * exclusions, excluded authors dropping out of engagement and triage,
+ * and the admin endpoint listing and undoing actions.
+ *
+ * @module abuse-tracker-tests
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+
+vi.hoisted(() => {
+  process.env.ENABLE_BLUESKY_AGENT = 'true'
+  process.env.API_KEY = 'test-admin-key'
+})
+
+import { setServiceSupabaseOverride } from '../lib/api/service-supabase'
+import { InMemorySupabase } from '../lib/simulation/in-memory-supabase'
+import { InMemoryBlueskyNetwork } from '../lib/simulation/in-memory-bluesky'
+import { FakeWorkflowContext } from '../lib/simulation/fake-workflow-context'
+import { ScriptedLLM } from '../lib/simulation/scripted-llm'
+import { BlueskyAgentWorkflow } from '../lib/workflows/bluesky-agent-workflow'
+import { ABUSE_CONFIG } from '../lib/config/abuse.config'
+import { preFilterCandidates } from '../lib/workflows/modules/engagement-filter'
+import { loadAuthorHistory } from '../lib/workflows/modules/reply-triage'
+import {
+  blockAuthor,
+  excludeAuthor,
+  loadExcludedDids,
+  muteAuthor,
+  recordAbuseEvent,
+  undoAbuseAction,
+} from '../lib/services/abuse-tracker'
+import { GET, POST } from '../app/api/v1/craft/agent/bluesky/abuse/route'
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+
+const HARASSER = 'did:sim:troll'
+const PETS = ['alpha', 'beta', 'gamma']
+
+let db: InMemorySupabase
+let network: InMemoryBlueskyNetwork
+
+function client(petId: string) {
+  return network.createClient({ handle: `${petId}.sim.test`, appPassword: 'simulated' })
+}
+
+function harass(petId: string, n: number) {
+  return recordAbuseEvent({
+    petId,
+    authorDid: HARASSER,
+    category: 'harassment',
+    source: 'keyword',
+    postUri: `at://${HARASSER}/app.bsky.feed.post/${petId}-${n}`,
+  })
+}
+
+function adminRequest(method: 'GET' | 'POST', body?: unknown, query = '') {
+  return new Request(`http://localhost/api/v1/craft/agent/bluesky/abuse${query}`, {
+    method,
+    headers: { 'x-api-key': 'test-admin-key', 'content-type': 'application/json' },
+    body: body ? JSON.stringify(body) : undefined,
+  })
+}
+
+beforeEach(() => {
+  db = new InMemorySupabase()
+  setServiceSupabaseOverride(db as never)
+  network = new InMemoryBlueskyNetwork()
+  network.registerAccount({ did: HARASSER, handle: 'troll.sim.test', isBot: false })
+  for (const petId of PETS) {
+    network.registerAccount({ did: `did:sim:${petId}.sim.test`, handle: `${petId}.sim.test`, isBot: true })
+    db.seed('pet', [{ id: petId, name: petId.toUpperCase(), meme: {} }])
+    db.seed('bluesky_bot_config', [{
+      id: `config-${petId}`,
+      pet_id: petId,
+      handle: `${petId}.sim.test`,
+      did: `did:sim:${petId}.sim.test`,
+      app_password: 'simulated',
+      is_active: true,
+      publish_mode: 'auto',
+    }])
+  }
+})
+
+afterEach(() => {
+  setServiceSupabaseOverride(null)
+})
+
+// ---------------------------------------------------------------------------
+// Client moderation
+// ---------------------------------------------------------------------------
+
+describe('client moderation', () => {
+  it('mutes, blocks and mutes lists on the pet account', async () => {
+    const alpha = await client('alpha')
+
+    await alpha.mute(HARASSER)
+    expect(network.isMuted('did:sim:alpha.sim.test', HARASSER)).toBe(true)
+    await alpha.unmute(HARASSER)
+    expect(network.isMuted('did:sim:alpha.sim.test', HARASSER)).toBe(false)
+
+    const blockUri = await alpha.block(HARASSER)
+    expect(network.isBlocked('did:sim:alpha.sim.test', HARASSER)).toBe(true)
+    await alpha.unblock(blockUri)
+    expect(network.isBlocked('did:sim:alpha.sim.test', HARASSER)).toBe(false)
+
+    const listUri = await alpha.createModList('trolls')
+    await alpha.addToList(listUri, HARASSER)
+    await alpha.muteList(listUri)
+    expect(network.isMuted('did:sim:alpha.sim.test', HARASSER)).toBe(true)
+    await alpha.unmuteList(listUri)
+    expect(network.isMuted('did:sim:alpha.sim.test', HARASSER)).toBe(false)
+  })
+})
+
+// ---------------------------------------------------------------------------
+// Escalation
+// ---------------------------------------------------------------------------
+
+describe('recordAbuseEvent', () => {
+  it(`asks for a mute after ${ABUSE_CONFIG.AUTO_MUTE_AFTER} events, once`, async () => {
+    expect(await harass('alpha', 1)).toEqual({ muteForPet: false, excludeGlobally: false })
+    expect(await harass('alpha', 1)).toEqual({ muteForPet: false, excludeGlobally: false })
+    expect((await harass('alpha', 2)).muteForPet).toBe(true)
+
+    await muteAuthor(await client('alpha'), { petId: 'alpha', authorDid: HARASSER, reason: 'test', createdBy: 'auto' })
+    expect((await harass('alpha', 3)).muteForPet).toBe(false)
+  })
+
+  it(`excludes an author who harassed ${ABUSE_CONFIG.GLOBAL_AFTER_PETS} pets`, async () => {
+    expect((await harass('alpha', 1)).excludeGlobally).toBe(false)
+    expect((await harass('beta', 1)).excludeGlobally).toBe(false)
+    expect((await harass('gamma', 1)).excludeGlobally).toBe(true)
+
+    await excludeAuthor({ authorDid: HARASSER, reason: 'test', createdBy: 'auto' })
+    expect(await loadExcludedDids('beta')).toEqual(new Set([HARASSER]))
+  })
+
+  it('only counts events after an admin undo', async () => {
+    await harass('alpha', 1)
+    await harass('alpha', 2)
+    await harass('beta', 1)
+    const mute = await muteAuthor(await client('alpha'), { petId: 'alpha', authorDid: HARASSER, reason: 'test', createdBy: 'auto' })
+    const exclusion = await excludeAuthor({ authorDid: HARASSER, reason: 'test', createdBy: 'auto' })
+    await undoAbuseAction(mute.id, { undoneBy: 'admin:api', createBotClient: config => network.createClient(config) })
+    await undoAbuseAction(exclusion.id, { undoneBy: 'admin:api' })
+
+    const later = (petId: string, n: number, minutes: number) => recordAbuseEvent({
+      petId,
+      authorDid: HARASSER,
+      category: 'harassment',
+      source: 'keyword',
+      postUri: `at://${HARASSER}/app.bsky.feed.post/${petId}-later-${n}`,
+    }, new Date(Date.now() + minutes * 60 * 1000))
+
+    expect(await later('gamma', 1, 1)).toEqual({ muteForPet: false, excludeGlobally: false })
+    expect(await later('alpha', 1, 2)).toEqual({ muteForPet: false, excludeGlobally: false })
+    expect((await later('alpha', 2, 3)).muteForPet).toBe(true)
+  })
+
+  it('drops events older than the window', async () => {
+    db.seed('bluesky_abuse_event', [{
+      pet_id: 'alpha',
+      author_did: HARASSER,
+      category: 'harassment',
+      source: 'keyword',
+      post_uri: 'at://old',
+      created_at: new Date(Date.now() - (ABUSE_CONFIG.WINDOW_DAYS + 1) * 24 * 60 * 60 * 1000).toISOString(),
+    }])
+    expect((await harass('alpha', 1)).muteForPet).toBe(false)
+  })
+})
+
+// ---------------------------------------------------------------------------
+// Exclusions
+// ---------------------------------------------------------------------------
+
+describe('excluded authors', () => {
+  it('are dropped from engagement candidates and ignored by triage', async () => {
+    await blockAuthor(await client('alpha'), { petId: 'alpha', authorDid: HARASSER, reason: 'test', createdBy: 'admin:api' })
+    const excluded = await loadExcludedDids('alpha')
+
+    const [filtered] = preFilterCandidates([{
+      postUri: 'at://troll/1',
+      postCid: 'cid',
+      authorHandle: 'troll.sim.test',
+      authorDid: HARASSER,
+      text: 'a perfectly normal looking post about cats',
+    }], 'did:sim:alpha.sim.test', new Set(), undefined, excluded)
+    expect(filtered).toMatchObject({ filtered: true, filterReason: 'abusive_author' })
+
+    expect((await loadAuthorHistory('alpha', HARASSER)).excluded).toBe(true)
+    expect((await loadAuthorHistory('beta', HARASSER)).excluded).toBe(false)
+  })
+})
+
+// ---------------------------------------------------------------------------
+// Workflow
+// ---------------------------------------------------------------------------
+
+describe('reactive replies from a harasser', () => {
+  let llm: ScriptedLLM
+
+  async function mention(text: string) {
+    const post = network.publish({ authorDid: HARASSER, text })
+    await new BlueskyAgentWorkflow(
+      new FakeWorkflowContext({
+        mode: 'reactive',
+        petId: 'alpha',
+        notification: {
+          uri: post.uri,
+          cid: post.cid,
+          authorHandle: 'troll.sim.test',
+          authorDid: HARASSER,
+          text,
+          reason: 'mention',
+        },
+      }, 'test-run').asWorkflowContext(),
+      { createBotClient: config => network.createClient(config) }
+    ).execute()
+  }
+
+  beforeEach(() => {
+    llm = new ScriptedLLM()
+    llm.install()
+  })
+
+  afterEach(() => {
+    llm.uninstall()
+  })
+
+  it('mutes the author on Bluesky after repeated harassment', async () => {
+    await mention('@alpha.sim.test shut up, stupid bot')
+    expect(network.isMuted('did:sim:alpha.sim.test', HARASSER)).toBe(false)
+
+    await mention('@alpha.sim.test you are a loser')
+    expect(network.isMuted('did:sim:alpha.sim.test', HARASSER)).toBe(true)
+    expect(db.table('bluesky_abuse_action')).toEqual([
+      expect.objectContaining({ pet_id: 'alpha', author_did: HARASSER, action: 'mute', created_by: 'auto', status: 'active' }),
+    ])
+    expect(db.table('bluesky_post_log').at(-1)!.metadata).toMatchObject({ reason: 'triage_ignore', triageCategory: 'harassment', abuseMuted: true })
+  })
+})
+
+// ---------------------------------------------------------------------------
+// Admin endpoint
+// ---------------------------------------------------------------------------
+
+describe('abuse admin endpoint', () => {
+  it('rejects requests without the API key', async () => {
+    const response = await GET(new Request('http://localhost/api/v1/craft/agent/bluesky/abuse'))
+    expect(response.status).toBe(401)
+  })
+
+  it('excludes, lists and undoes actions', async () => {
+    const created = await POST(adminRequest('POST', { action: 'exclude', authorDid: HARASSER, reason: 'raid' }))
+    expect(created.status).toBe(200)
+    expect(await loadExcludedDids('gamma')).toEqual(new Set([HARASSER]))
+
+    const listed = await (await GET(adminRequest('GET', undefined, `?authorDid=${HARASSER}`))).json()
+    expect(listed.actions).toEqual([
+      expect.objectContaining({ scope: 'global', action: 'exclude', reason: 'raid', createdBy: 'admin:api' }),
+    ])
+
+    const undone = await POST(adminRequest('POST', { action: 'undo', id: listed.actions[0].id }))
+    expect((await undone.json()).action).toMatchObject({ status: 'undone', undoneBy: 'admin:api' })
+    expect(await loadExcludedDids('gamma')).toEqual(new Set())
+
+    expect((await POST(adminRequest('POST', { action: 'undo', id: listed.actions[0].id }))).status).toBe(409)
+    expect((await POST(adminRequest('POST', { action: 'undo', id: 'missing' }))).status).toBe(404)
+  })
+
+  it('does not report a failed lookup as a missing action', async () => {
+    db.seed('bluesky_abuse_action', [
+      { id: 'dup', author_did: HARASSER, scope: 'global', action: 'exclude', status: 'active', created_by: 'auto' },
+      { id: 'dup', author_did: HARASSER, scope: 'global', action: 'exclude', status: 'active', created_by: 'auto' },
+    ])
+    expect((await POST(adminRequest('POST', { action: 'undo', id: 'dup' }))).status).toBe(500)
+  })
+
+  it('unblocks on Bluesky when a block is undone', async () => {
+    const block = await blockAuthor(await client('beta'), { petId: 'beta', authorDid: HARASSER, reason: 'test', createdBy: 'admin:api' })
+    expect(network.isBlocked('did:sim:beta.sim.test', HARASSER)).toBe(true)
+
+    await undoAbuseAction(block.id, { undoneBy: 'admin:api', createBotClient: config => network.createClient(config) })
+    expect(network.isBlocked('did:sim:beta.sim.test', HARASSER)).toBe(false)
+  })
+
+  it('validates the payload', async () => {
+    expect((await POST(adminRequest('POST', { action: 'ban', authorDid: HARASSER }))).status).toBe(400)
+    expect((await POST(adminRequest('POST', { action: 'exclude', authorDid: 'troll' }))).status).toBe(400)
+    expect((await POST(adminRequest('POST', { action: 'mute', authorDid: HARASSER }))).status).toBe(400)
+  })
+})
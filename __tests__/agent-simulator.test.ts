@@ -0,0 +1,185 @@
+/**
+ * Agent Simulator Tests
+ *
+ * Runs the real workflow against the in-memory network, database and
+ * scripted LLM on a virtual clock, and checks the society actually
+ * does something — reproducibly.
+ *
+ * @module agent-simulator-tests
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+
+vi.hoisted(() => {
+  process.env.ENABLE_BLUESKY_AGENT = 'true'
+})
+
+import { runSimulation, formatTimeline, type SimulatedPet, type SimulationOptions } from '../lib/simulation/agent-simulator'
+import { InMemorySupabase } from '../lib/simulation/in-memory-supabase'
+import { InMemoryBlueskyNetwork } from '../lib/simulation/in-memory-bluesky'
+import { VirtualClock } from '../lib/simulation/virtual-clock'
+import { PoliticalContentBlockedError } from '../lib/services/bluesky-client'
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+
+function pet(id: string, name: string, archetype: string): SimulatedPet {
+  return {
+    id,
+    name,
+    handle: `${id}.sim.test`,
+    frequency: 'high',
+    meme: {
+      memePersonality: {
+        archetype,
+        humorStyle: 'absurdist',
+        topicsOfInterest: ['snacks', 'naps'],
+        interactionPreferences: { friendliness: 70, sassiness: 60, chaosLevel: 50 },
+      },
+    },
+  }
+}
+
+const OPTIONS: SimulationOptions = {
+  pets: [pet('alpha', 'Alpha', 'chaotic-gremlin'), pet('beta', 'Beta', 'wise-elder'), pet('gamma', 'Gamma', 'dramatic-diva')],
+  start: '2026-03-02T14:00:00Z',
+  durationHours: 12,
+  seed: 7,
+  interactionChance: 0.6,
+  humanPosts: [
+    { atHour: 1, handle: 'human.sim.test', text: 'my cat stole my sandwich' },
+    { atHour: 3, handle: 'human.sim.test', text: '@alpha.sim.test are you awake' },
+  ],
+}
+
+// ---------------------------------------------------------------------------
+// Simulation
+// ---------------------------------------------------------------------------
+
+describe('runSimulation', () => {
+  it('produces posts, replies and interactions without errors', async () => {
+    const result = await runSimulation(OPTIONS)
+
+    expect(result.stats.errors).toBe(0)
+    expect(result.stats.ticks).toBe(24)
+    expect(result.stats.activity.proactive_post ?? 0).toBeGreaterThan(0)
+    expect(result.stats.activity.interaction_initiate ?? 0).toBeGreaterThan(0)
+    expect(result.stats.activity.reactive_reply ?? 0).toBeGreaterThan(0)
+    expect(result.stats.llmCalls.post ?? 0).toBeGreaterThan(0)
+  })
+
+  it('replies to the human who mentioned a pet', async () => {
+    const result = await runSimulation(OPTIONS)
+    const reply = result.timeline.find(e =>
+      e.petId === 'alpha' && e.kind === 'reactive_reply' && e.metadata?.inReplyToAuthor === 'human.sim.test'
+    )
+    expect(reply).toBeDefined()
+  })
+
+  it('tracks mood trajectories and relationship changes', async () => {
+    const result = await runSimulation(OPTIONS)
+
+    const withMood = Object.values(result.moodTrajectories).filter(points => points.length > 0)
+    expect(withMood.length).toBeGreaterThan(0)
+    expect(result.relationships.length).toBeGreaterThan(0)
+    for (const point of result.relationships) {
+      expect(point.score).toBeGreaterThanOrEqual(-1)
+      expect(point.score).toBeLessThanOrEqual(1)
+    }
+  })
+
+  it('is deterministic for a given seed', async () => {
+    const first = await runSimulation(OPTIONS)
+    const second = await runSimulation(OPTIONS)
+    expect(formatTimeline(second)).toBe(formatTimeline(first))
+
+    const other = await runSimulation({ ...OPTIONS, seed: 8 })
+    expect(formatTimeline(other)).not.toBe(formatTimeline(first))
+  })
+
+  it('stamps events with virtual time and restores the real clock', async () => {
+    const result = await runSimulation(OPTIONS)
+    const times = result.timeline.map(e => Date.parse(e.at))
+    expect(Math.min(...times)).toBeGreaterThanOrEqual(Date.parse(OPTIONS.start as string))
+    expect(Math.max(...times)).toBeLessThan(Date.parse(OPTIONS.start as string) + 12 * 60 * 60 * 1000)
+    expect(Date.now()).toBeGreaterThan(Date.parse('2026-10-01T00:00:00Z'))
+  })
+
+  it('honors scripted responses per task', async () => {
+    const result = await runSimulation({
+      ...OPTIONS,
+      durationHours: 4,
+      scripts: {
+        reply: () => ({ text: 'scripted reply', tone: 'friendly', shouldEngage: false }),
+      },
+    })
+    expect(result.stats.activity.reactive_reply ?? 0).toBe(0)
+  })
+})
+
+// ---------------------------------------------------------------------------
+// Fakes
+// ---------------------------------------------------------------------------
+
+describe('InMemorySupabase', () => {
+  it('supports filters, JSON paths, ordering and single rows', async () => {
+    const db = new InMemorySupabase()
+    db.seed('log', [
+      { pet_id: 'a', n: 1, metadata: { threadUri: 'x' } },
+      { pet_id: 'a', n: 3, metadata: { threadUri: 'y' } },
+      { pet_id: 'b', n: 2, metadata: null },
+    ])
+
+    const { data } = await db.from('log').select('n').eq('pet_id', 'a').order('n', { ascending: false })
+    expect(data).toEqual([{ n: 3 }, { n: 1 }])
+
+    const { count } = await db.from('log').select('id', { count: 'exact', head: true }).eq('metadata->>threadUri', 'x')
+    expect(count).toBe(1)
+
+    const { data: one } = await db.from('log').select('*').or('n.eq.2,n.eq.9').maybeSingle()
+    expect((one as { pet_id: string }).pet_id).toBe('b')
+
+    await db.from('log').upsert({ pet_id: 'b', n: 5 }, { onConflict: 'pet_id' })
+    expect(db.table('log').find(r => r.pet_id === 'b')?.n).toBe(5)
+  })
+})
+
+describe('InMemoryBlueskyNetwork', () => {
+  it('notifies mentioned and replied-to accounts', async () => {
+    const network = new InMemoryBlueskyNetwork()
+    network.registerAccount({ did: 'did:sim:a', handle: 'a.test', isBot: true })
+    network.registerAccount({ did: 'did:sim:b', handle: 'b.test', isBot: true })
+
+    const root = network.publish({ authorDid: 'did:sim:a', text: 'hi @b.test' })
+    const ref = { root: { uri: root.uri, cid: root.cid }, parent: { uri: root.uri, cid: root.cid } }
+    network.publish({ authorDid: 'did:sim:b', text: 'hello back', reply: ref })
+
+    expect(network.takeUnreadNotifications('did:sim:b').map(n => n.reason)).toEqual(['mention'])
+    expect(network.takeUnreadNotifications('did:sim:a').map(n => n.reason)).toEqual(['reply'])
+    expect(network.takeUnreadNotifications('did:sim:a')).toEqual([])
+  })
+
+  it('keeps the political guardrail in the client double', async () => {
+    const network = new InMemoryBlueskyNetwork()
+    network.registerAccount({ did: 'did:sim:a', handle: 'a.test', isBot: true })
+    const client = network.createClient({ petId: 'a', handle: 'a.test', appPassword: 'x' })
+    await client.authenticate()
+    await expect(client.post('vote for trump')).rejects.toBeInstanceOf(PoliticalContentBlockedError)
+  })
+})
+
+describe('VirtualClock', () => {
+  it('pins Date to virtual time while installed', () => {
+    const clock = new VirtualClock('2030-01-01T00:00:00Z')
+    clock.install()
+    try {
+      clock.advance(60_000)
+      expect(new Date().toISOString()).toBe('2030-01-01T00:01:00.000Z')
+      expect(Date.now()).toBe(Date.parse('2030-01-01T00:01:00Z'))
+    } finally {
+      clock.uninstall()
+    }
+    expect(new Date().getFullYear()).toBeLessThan(2030)
+  })
+})
@@ -0,0 +1,299 @@
+/**
+ * Content Bandit Tests
+ *
+ * Covers attributing post performance (reward, time of day, topic,
+ * intent, image, format), learning per-pet arms from metric snapshots,
+ * the epsilon-greedy topic/intent choice with its exploration floor,
+ * the image probability multiplier, and the proactive workflow leaning
+ * its prompt toward what performs.
+ *
+ * @module content-bandit-tests
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+
+vi.hoisted(() => {
+  process.env.ENABLE_BLUESKY_AGENT = 'true'
+})
+
+import { setServiceSupabaseOverride } from '../lib/api/service-supabase'
+import { InMemorySupabase } from '../lib/simulation/in-memory-supabase'
+import { InMemoryBlueskyNetwork } from '../lib/simulation/in-memory-bluesky'
+import { FakeWorkflowContext } from '../lib/simulation/fake-workflow-context'
+import { ScriptedLLM } from '../lib/simulation/scripted-llm'
+import { BlueskyAgentWorkflow } from '../lib/workflows/bluesky-agent-workflow'
+import { PERFORMANCE_CONFIG } from '../lib/config/performance.config'
+import {
+  chooseContentBias,
+  computeContentArms,
+  imageProbabilityMultiplier,
+  type ContentArm,
+} from '../lib/agent/content-bandit'
+import {
+  attributePost,
+  collectPostMetrics,
+  engagementReward,
+  timeOfDay,
+} from '../lib/services/post-metrics'
+import type { PostCounts } from '../lib/services/feed-engagement'
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+
+const NOW = new Date('2026-03-10T12:00:00Z')
+const HOUR = 60 * 60 * 1000
+
+const CANDIDATES = { topics: ['naps', 'snacks'], intents: ['thought', 'hot-take'] }
+const EXPLOIT = () => 0.99
+const EXPLORE = () => 0
+
+function arm(dimension: ContentArm['dimension'], name: string, lift: number, posts = 5): ContentArm {
+  return { dimension, arm: name, posts, meanReward: lift * 4, lift }
+}
+
+function counts(likeCount: number, replyCount = 0, repostCount = 0, quoteCount = 0): PostCounts {
+  return { likeCount, replyCount, repostCount, quoteCount }
+}
+
+let db: InMemorySupabase
+
+beforeEach(() => {
+  db = new InMemorySupabase()
+  setServiceSupabaseOverride(db as never)
+})
+
+afterEach(() => {
+  setServiceSupabaseOverride(null)
+  vi.restoreAllMocks()
+})
+
+// ---------------------------------------------------------------------------
+// Attribution
+// ---------------------------------------------------------------------------
+
+describe('attributePost', () => {
+  it('weights conversation above likes', () => {
+    expect(engagementReward(counts(2, 1, 1, 1))).toBe(2 + 3 + 2 + 3)
+  })
+
+  it('buckets UTC hours into times of day', () => {
+    expect(['03', '06', '13', '23'].map(h => timeOfDay(new Date(`2026-03-10T${h}:00:00Z`))))
+      .toEqual(['night', 'morning', 'afternoon', 'evening'])
+  })
+
+  it('attributes a post to topic, intent, image, time of day and format', () => {
+    expect(attributePost({
+      activity_type: 'proactive_post',
+      created_at: '2026-03-10T20:00:00Z',
+      metadata: { topicTag: '#Nap Time', intentType: 'hot-take', hasImage: true },
+    })).toEqual([
+      { dimension: 'format', arm: 'single' },
+      { dimension: 'image', arm: 'image' },
+      { dimension: 'time_of_day', arm: 'evening' },
+      { dimension: 'topic', arm: 'nap-time' },
+      { dimension: 'intent', arm: 'hot-take' },
+    ])
+    expect(attributePost({ activity_type: 'proactive_thread', created_at: '2026-03-10T08:00:00Z', metadata: { topicTag: 'naps' } }))
+      .toContainEqual({ dimension: 'format', arm: 'thread' })
+  })
+})
+
+// ---------------------------------------------------------------------------
+// Bandit
+// ---------------------------------------------------------------------------
+
+describe('computeContentArms', () => {
+  it('scores arms against the pet average, shrunk toward 1 for few posts', () => {
+    const topic = (name: string) => [{ dimension: 'topic' as const, arm: name }]
+    const arms = computeContentArms([
+      { attributes: topic('naps'), reward: 10 },
+      { attributes: topic('naps'), reward: 10 },
+      { attributes: topic('snacks'), reward: 0 },
+      { attributes: topic('snacks'), reward: 0 },
+    ])
+
+    const naps = arms.find(a => a.arm === 'naps')!
+    expect(naps).toMatchObject({ posts: 2, meanReward: 10 })
+    // (20 + 3 × 5) / (2 + 3) / 5
+    expect(naps.lift).toBeCloseTo(1.4)
+    expect(arms.find(a => a.arm === 'snacks')!.lift).toBeCloseTo(0.6)
+    expect(computeContentArms([{ attributes: topic('naps'), reward: 0 }])[0].lift).toBe(1)
+  })
+})
+
+describe('chooseContentBias', () => {
+  const arms = [
+    arm('topic', 'naps', 1.4),
+    arm('topic', 'crypto', 2),
+    arm('topic', 'snacks', 0.8),
+    arm('intent', 'hot-take', 1.2),
+    arm('intent', 'thought', 1.5, 1),
+  ]
+
+  it('leans toward the best arm above average, skipping avoided topics', () => {
+    expect(chooseContentBias(arms, { ...CANDIDATES, avoid: ['Crypto'] }, EXPLOIT))
+      .toEqual({ topic: 'naps', intentType: 'hot-take', explored: false })
+  })
+
+  it('explores a random candidate EXPLORATION of the time', () => {
+    const rolls = [0, 0.99, 0.5]
+    const bias = chooseContentBias(arms, { ...CANDIDATES, avoid: ['crypto'] }, () => rolls.shift() ?? 0.99)
+    expect(bias).toMatchObject({ topic: expect.any(String), explored: true })
+    expect(['naps', 'snacks']).toContain(bias!.topic)
+  })
+
+  it('has no opinion before anything was measured or when nothing beats average', () => {
+    expect(chooseContentBias([], CANDIDATES, EXPLORE)).toBeNull()
+    expect(chooseContentBias([arm('topic', 'naps', 0.9)], CANDIDATES, EXPLOIT)).toBeNull()
+  })
+})
+
+describe('imageProbabilityMultiplier', () => {
+  it('scales images by their lift over text-only posts, within bounds', () => {
+    expect(imageProbabilityMultiplier([])).toBe(1)
+    expect(imageProbabilityMultiplier([arm('image', 'image', 1.2), arm('image', 'text', 1)])).toBeCloseTo(1.2)
+    expect(imageProbabilityMultiplier([arm('image', 'image', 5), arm('image', 'text', 1)])).toBe(PERFORMANCE_CONFIG.IMAGE.MAX_MULTIPLIER)
+    expect(imageProbabilityMultiplier([arm('image', 'image', 0.1), arm('image', 'text', 1)])).toBe(PERFORMANCE_CONFIG.IMAGE.MIN_MULTIPLIER)
+  })
+})
+
+// ---------------------------------------------------------------------------
+// Collection
+// ---------------------------------------------------------------------------
+
+describe('collectPostMetrics', () => {
+  function logPost(uri: string, hoursAgo: number, metadata: Record<string, unknown>, activityType = 'proactive_post') {
+    db.seed('bluesky_post_log', [{
+      pet_id: 'alpha',
+      activity_type: activityType,
+      post_uri: uri,
+      content: uri,
+      metadata,
+      created_at: new Date(NOW.getTime() - hoursAgo * HOUR).toISOString(),
+    }])
+  }
+
+  beforeEach(() => {
+    logPost('at://alpha/naps', 48, { topicTag: 'naps', intentType: 'hot-take', hasImage: true })
+    logPost('at://alpha/snacks', 30, { topicTag: 'snacks', intentType: 'thought', hasImage: false })
+    logPost('at://alpha/fresh', 2, { topicTag: 'snacks', intentType: 'thought' })
+    logPost('at://alpha/reply', 30, {}, 'reactive_reply')
+    logPost('at://someone/liked', 30, {}, 'reactive_like')
+  })
+
+  it('snapshots every published post and learns arms from settled proactive posts', async () => {
+    const fetched: string[][] = []
+    const result = await collectPostMetrics({
+      now: NOW,
+      fetchCounts: async uris => {
+        fetched.push(uris)
+        return new Map([
+          ['at://alpha/naps', counts(10, 2)],
+          ['at://alpha/snacks', counts(1)],
+          ['at://alpha/fresh', counts(50)],
+          ['at://alpha/reply', counts(3)],
+        ])
+      },
+    })
+
+    expect(fetched[0].sort()).toEqual(['at://alpha/fresh', 'at://alpha/naps', 'at://alpha/reply', 'at://alpha/snacks'])
+    expect(result).toEqual({ postsSnapshotted: 4, countsFetched: 4, petsLearned: 1, errors: [] })
+    expect(db.table('bluesky_post_metric')).toHaveLength(4)
+
+    const arms = db.table('bluesky_content_arm')
+    const lift = (dimension: string, name: string) => arms.find(a => a.dimension === dimension && a.arm === name)?.lift as number
+    // The fresh post is still collecting engagement and doesn't train yet
+    expect(arms.filter(a => a.dimension === 'topic').map(a => [a.arm, a.posts]).sort()).toEqual([['naps', 1], ['snacks', 1]])
+    expect(lift('topic', 'naps')).toBeGreaterThan(1)
+    expect(lift('intent', 'thought')).toBeLessThan(1)
+    expect(lift('image', 'image')).toBeGreaterThan(lift('image', 'text'))
+  })
+
+  it('relearns from earlier snapshots when the AppView is down, dropping aged-out arms', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    await collectPostMetrics({ now: NOW, fetchCounts: async () => new Map([['at://alpha/naps', counts(4)], ['at://alpha/snacks', counts(2)]]) })
+
+    const later = new Date(NOW.getTime() + (PERFORMANCE_CONFIG.LEARNING.WINDOW_DAYS * 24 - 40) * HOUR)
+    const result = await collectPostMetrics({ now: later, fetchCounts: async () => { throw new Error('appview down') } })
+
+    expect(result.errors).toEqual(['counts: appview down'])
+    expect(result.petsLearned).toBe(1)
+    expect(db.table('bluesky_content_arm').filter(a => a.dimension === 'topic').map(a => a.arm)).toEqual(['snacks'])
+  })
+
+  it('learns from the latest snapshot per post and prunes history past retention', async () => {
+    await collectPostMetrics({ now: NOW, fetchCounts: async () => new Map([['at://alpha/naps', counts(1)]]) })
+    const later = new Date(NOW.getTime() + HOUR)
+    await collectPostMetrics({ now: later, fetchCounts: async () => new Map([['at://alpha/naps', counts(9)]]) })
+
+    expect(db.table('bluesky_post_metric')).toHaveLength(2)
+    expect(db.table('bluesky_post_metric_latest')).toEqual([expect.objectContaining({ post_uri: 'at://alpha/naps', like_count: 9 })])
+    expect(db.table('bluesky_content_arm').find(a => a.dimension === 'topic')?.mean_reward).toBe(9)
+
+    const pastRetention = new Date(later.getTime() + (PERFORMANCE_CONFIG.COLLECT.RETENTION_DAYS * 24 + 1) * HOUR)
+    await collectPostMetrics({ now: pastRetention, fetchCounts: async () => new Map() })
+    expect(db.table('bluesky_post_metric')).toHaveLength(0)
+    expect(db.table('bluesky_post_metric_latest')).toHaveLength(0)
+  })
+})
+
+// ---------------------------------------------------------------------------
+// Workflow
+// ---------------------------------------------------------------------------
+
+describe('proactive posting with the content bandit', () => {
+  let network: InMemoryBlueskyNetwork
+  let llm: ScriptedLLM
+  let postPrompts: string[]
+
+  beforeEach(() => {
+    // No thread, image, self-reply, callback or exploration rolls
+    vi.spyOn(Math, 'random').mockReturnValue(0.99)
+    network = new InMemoryBlueskyNetwork()
+    postPrompts = []
+    llm = new ScriptedLLM({
+      scripts: {
+        post: request => {
+          postPrompts.push(request.prompt)
+          return undefined
+        },
+      },
+    })
+    llm.install()
+
+    network.registerAccount({ did: 'did:sim:alpha.sim.test', handle: 'alpha.sim.test', isBot: true })
+    db.seed('pet', [{ id: 'alpha', name: 'ALPHA', meme: {} }])
+    db.seed('bluesky_bot_config', [{
+      id: 'config-alpha',
+      pet_id: 'alpha',
+      handle: 'alpha.sim.test',
+      did: 'did:sim:alpha.sim.test',
+      app_password: 'simulated',
+      is_active: true,
+      publish_mode: 'auto',
+    }])
+  })
+
+  afterEach(() => {
+    llm.uninstall()
+  })
+
+  it('nudges the post toward the best-performing topic and intent', async () => {
+    db.seed('bluesky_content_arm', [
+      { pet_id: 'alpha', dimension: 'topic', arm: 'naps', posts: 6, mean_reward: 12, lift: 1.6 },
+      { pet_id: 'alpha', dimension: 'intent', arm: 'hot-take', posts: 4, mean_reward: 9, lift: 1.3 },
+      { pet_id: 'beta', dimension: 'topic', arm: 'snacks', posts: 9, mean_reward: 30, lift: 3 },
+    ])
+
+    await new BlueskyAgentWorkflow(
+      new FakeWorkflowContext({ mode: 'proactive', petId: 'alpha' }, 'test-run').asWorkflowContext(),
+      { createBotClient: config => network.createClient(config) }
+    ).execute()
+
+    expect(postPrompts[0]).toContain('YOUR AUDIENCE HAS BEEN RESPONDING TO: posts about "naps", hot-take posts')
+    expect(db.table('bluesky_post_log').find(row => row.activity_type === 'proactive_post')!.metadata).toMatchObject({
+      contentBias: { topic: 'naps', intentType: 'hot-take', explored: false },
+    })
+  })
+})
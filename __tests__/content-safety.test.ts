@@ -0,0 +1,254 @@
+/**
+ * Content Safety Tests
+ *
+ * Covers the keyword pre-pass, LLM verdicts against per-category
+ * thresholds, verdict caching, fail-open/fail-closed on classifier
+ * errors, and the workflow recording safety category + score when it
+ * skips generated content.
+ *
+ * @module content-safety-tests
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+
+vi.hoisted(() => {
+  process.env.ENABLE_BLUESKY_AGENT = 'true'
+})
+
+import { setServiceSupabaseOverride } from '../lib/api/service-supabase'
+import { InMemorySupabase } from '../lib/simulation/in-memory-supabase'
+import { InMemoryBlueskyNetwork } from '../lib/simulation/in-memory-bluesky'
+import { FakeWorkflowContext } from '../lib/simulation/fake-workflow-context'
+import { SAFETY_CATEGORIES, type SafetyCategory } from '../lib/config/safety.config'
+import { ScriptedLLM, type ScriptHandler } from '../lib/simulation/scripted-llm'
+import { BlueskyAgentWorkflow } from '../lib/workflows/bluesky-agent-workflow'
+import { resolvePublishMode } from '../lib/services/review-queue'
+import {
+  classifyContent,
+  classifyPost,
+  keywordPrePass,
+  verdictFromScores,
+  safetyBlockReason,
+  safetyMetadata,
+  clearSafetyCache,
+} from '../lib/workflows/modules/content-safety'
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+
+let llm: ScriptedLLM | null = null
+
+function installSafety(handler: ScriptHandler) {
+  llm = new ScriptedLLM({ scripts: { safety: handler } })
+  llm.install()
+  return llm
+}
+
+/** Full schema-valid score object; unspecified categories score 0 */
+function scores(partial: Partial<Record<SafetyCategory, number>>) {
+  return { scores: Object.fromEntries(SAFETY_CATEGORIES.map(c => [c, partial[c] ?? 0])) }
+}
+
+beforeEach(() => {
+  clearSafetyCache()
+})
+
+afterEach(() => {
+  llm?.uninstall()
+  llm = null
+  vi.unstubAllEnvs()
+})
+
+// ---------------------------------------------------------------------------
+// Keyword pre-pass
+// ---------------------------------------------------------------------------
+
+describe('keywordPrePass', () => {
+  it('maps keyword hits to categories', () => {
+    expect(keywordPrePass('vote trump 2028')?.category).toBe('politics')
+    expect(keywordPrePass('thinking about suicide')?.category).toBe('self_harm')
+    expect(keywordPrePass('another mass shooting today')?.category).toBe('tragedy')
+  })
+
+  it('returns null for clean text', () => {
+    expect(keywordPrePass('my cat ate a whole croissant')).toBeNull()
+    expect(keywordPrePass('my favorite snack')).toBeNull()
+  })
+
+  it('short-circuits before the LLM', async () => {
+    const scripted = installSafety(() => scores({}))
+    const verdict = await classifyContent('biden said what', { useLlm: true })
+
+    expect(verdict).toMatchObject({ allowed: false, category: 'politics', score: 1, source: 'keyword' })
+    expect(scripted.countByTask().safety ?? 0).toBe(0)
+  })
+})
+
+// ---------------------------------------------------------------------------
+// LLM classifier
+// ---------------------------------------------------------------------------
+
+describe('classifyContent with the LLM', () => {
+  it('runs the model by default', async () => {
+    const scripted = installSafety(() => scores({ harassment: 0.9 }))
+    expect((await classifyContent('you absolute clown')).allowed).toBe(false)
+    expect(scripted.countByTask().safety).toBe(1)
+  })
+
+  it('skips the model when opted out', async () => {
+    vi.stubEnv('ENABLE_LLM_SAFETY', 'false')
+    vi.resetModules()
+    const safety = await import('../lib/workflows/modules/content-safety')
+    const { ScriptedLLM: FreshScriptedLLM } = await import('../lib/simulation/scripted-llm')
+    const fresh = new FreshScriptedLLM({ scripts: { safety: () => scores({ harassment: 0.9 }) } })
+    fresh.install()
+    try {
+      expect((await safety.classifyContent('you absolute clown')).allowed).toBe(true)
+      expect(fresh.countByTask().safety ?? 0).toBe(0)
+    } finally {
+      fresh.uninstall()
+    }
+  })
+
+  it('blocks paraphrases the keywords miss', async () => {
+    installSafety(() => scores({ politics: 0.1, harassment: 0.2, medical_advice: 0.85 }))
+    const verdict = await classifyContent('take 3x the usual dose, trust me', { useLlm: true })
+
+    expect(verdict).toMatchObject({ allowed: false, category: 'medical_advice', score: 0.85, source: 'llm' })
+    expect(safetyBlockReason(verdict, 'generated_post')).toBe('unsafe_generated_post')
+    expect(safetyMetadata(verdict)).toEqual({ safetyCategory: 'medical_advice', safetyScore: 0.85, safetySource: 'llm' })
+  })
+
+  it('includes embedded text in classifyPost', async () => {
+    const scripted = installSafety(request => scores({ sexual: request.prompt.includes('spicy link') ? 0.9 : 0 }))
+    const embed = { $type: 'app.bsky.embed.external#view', external: { title: 'spicy link', description: '' } }
+
+    expect((await classifyPost('look', embed, { useLlm: true })).category).toBe('sexual')
+    expect(scripted.countByTask().safety).toBe(1)
+  })
+
+  it('caches verdicts by normalized text', async () => {
+    const scripted = installSafety(() => scores({ financial_advice: 0.2 }))
+
+    await classifyContent('Buy   the dip', { useLlm: true })
+    await classifyContent('buy the dip', { useLlm: true })
+
+    expect(scripted.countByTask().safety).toBe(1)
+  })
+
+  it('fails open on classifier errors by default', async () => {
+    installSafety(() => { throw new Error('provider down') })
+    const verdict = await classifyContent('hello there', { useLlm: true })
+    expect(verdict).toMatchObject({ allowed: true, source: 'error' })
+  })
+
+  it('fails closed when configured', async () => {
+    vi.stubEnv('LLM_SAFETY_FAIL_CLOSED', 'true')
+    vi.resetModules()
+    const safety = await import('../lib/workflows/modules/content-safety')
+    const { ScriptedLLM: FreshScriptedLLM } = await import('../lib/simulation/scripted-llm')
+    const fresh = new FreshScriptedLLM({ scripts: { safety: () => { throw new Error('provider down') } } })
+    fresh.install()
+    try {
+      expect(await safety.classifyContent('hello there', { useLlm: true })).toMatchObject({ allowed: false, source: 'error' })
+    } finally {
+      fresh.uninstall()
+    }
+  })
+})
+
+describe('verdictFromScores', () => {
+  it('applies per-category thresholds and picks the highest blocking score', () => {
+    expect(verdictFromScores({ self_harm: 0.45 }).category).toBe('self_harm')
+    expect(verdictFromScores({ medical_advice: 0.65 }).allowed).toBe(true)
+    expect(verdictFromScores({ harassment: 0.7, sexual: 0.95 }).category).toBe('sexual')
+  })
+})
+
+// ---------------------------------------------------------------------------
+// Workflow integration
+// ---------------------------------------------------------------------------
+
+describe('workflow safety blocks', () => {
+  let db: InMemorySupabase
+  let network: InMemoryBlueskyNetwork
+
+  beforeEach(() => {
+    db = new InMemorySupabase()
+    network = new InMemoryBlueskyNetwork()
+    setServiceSupabaseOverride(db as never)
+    network.registerAccount({ did: 'did:sim:alpha.sim.test', handle: 'alpha.sim.test', isBot: true })
+    network.registerAccount({ did: 'did:sim:human', handle: 'human.sim.test', isBot: false })
+    db.seed('pet', [{ id: 'alpha', name: 'ALPHA', meme: {} }])
+    db.seed('bluesky_bot_config', [{
+      id: 'config-alpha',
+      pet_id: 'alpha',
+      handle: 'alpha.sim.test',
+      did: 'did:sim:alpha.sim.test',
+      app_password: 'simulated',
+      is_active: true,
+      publish_mode: 'auto',
+    }])
+  })
+
+  afterEach(() => {
+    setServiceSupabaseOverride(null)
+  })
+
+  async function runMention(text: string, root?: { uri: string; cid: string }) {
+    const mention = network.publish({
+      authorDid: 'did:sim:human',
+      text,
+      reply: root ? { root, parent: root } : undefined,
+    })
+    const context = new FakeWorkflowContext({
+      mode: 'reactive',
+      petId: 'alpha',
+      notification: {
+        uri: mention.uri,
+        cid: mention.cid,
+        rootUri: root?.uri,
+        rootCid: root?.cid,
+        authorHandle: 'human.sim.test',
+        authorDid: 'did:sim:human',
+        text: mention.text,
+        reason: root ? 'reply' : 'mention',
+      },
+    }, 'test-run')
+    await new BlueskyAgentWorkflow(context.asWorkflowContext(), {
+      createBotClient: config => network.createClient(config),
+      triggerWorkflow: async () => ({ workflowRunId: 'queued' }),
+    }).execute()
+  }
+
+  it('records category and score when the thread root is unsafe', async () => {
+    installSafety(() => undefined)
+    const root = network.publish({ authorDid: 'did:sim:human', text: 'thoughts on the mass shooting coverage' })
+
+    await runMention('@alpha.sim.test what do you think?', { uri: root.uri, cid: root.cid })
+
+    expect(network.allPosts()).toHaveLength(2)
+    const skipped = db.table('bluesky_post_log').find(r => r.activity_type === 'reply_skipped')
+    expect(skipped?.metadata).toMatchObject({
+      reason: 'unsafe_thread_root',
+      safetyCategory: 'tragedy',
+      safetyScore: 1,
+      safetySource: 'keyword',
+    })
+  })
+
+  it('counts an unsafe generated reply as a filter trip', async () => {
+    llm = new ScriptedLLM({
+      scripts: { reply: () => ({ text: 'lol self-harm jokes are my thing', tone: 'sarcastic', shouldEngage: true }) },
+    })
+    llm.install()
+
+    await runMention('@alpha.sim.test tell me a joke')
+
+    expect(network.allPosts()).toHaveLength(1)
+    const skipped = db.table('bluesky_post_log').find(r => r.activity_type === 'reply_skipped')
+    expect(skipped?.metadata).toMatchObject({ reason: 'unsafe_generated_reply', safetyCategory: 'self_harm' })
+    expect(await resolvePublishMode('alpha', 'auto')).toBe('review')
+  })
+})
@@ -0,0 +1,234 @@
+/**
+ * Conversation Engine Tests
+ *
+ * Covers arc planning from relationship sentiment and a full bot-to-bot
+ * conversation through the workflow: the interaction opens on the setup
+ * beat, replies alternate through the arc, the resolution beat closes
+ * the thread, and further replies are skipped.
+ *
+ * @module conversation-engine-tests
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+
+vi.hoisted(() => {
+  process.env.ENABLE_BLUESKY_AGENT = 'true'
+})
+
+import { setServiceSupabaseOverride } from '../lib/api/service-supabase'
+import { InMemorySupabase } from '../lib/simulation/in-memory-supabase'
+import { InMemoryBlueskyNetwork } from '../lib/simulation/in-memory-bluesky'
+import { FakeWorkflowContext } from '../lib/simulation/fake-workflow-context'
+import { ScriptedLLM } from '../lib/simulation/scripted-llm'
+import { BlueskyAgentWorkflow, type BlueskyAgentWorkflowRequest } from '../lib/workflows/bluesky-agent-workflow'
+import { CONVERSATION_CONFIG } from '../lib/config/conversation.config'
+import {
+  loadConversation,
+  nextDirection,
+  planArc,
+  type ConversationState,
+} from '../lib/agent/conversation/conversation-engine'
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+
+let db: InMemorySupabase
+let network: InMemoryBlueskyNetwork
+let llm: ScriptedLLM
+let replyPrompts: string[]
+let interactionPrompts: string[]
+let replyEngages: boolean
+
+const did = (id: string) => `did:sim:${id}.sim.test`
+
+function seedPet(id: string) {
+  const handle = `${id}.sim.test`
+  network.registerAccount({ did: did(id), handle, isBot: true })
+  db.seed('pet', [{ id, name: id.toUpperCase(), meme: {} }])
+  db.seed('bluesky_bot_config', [{
+    id: `config-${id}`,
+    pet_id: id,
+    handle,
+    did: did(id),
+    app_password: 'simulated',
+    is_active: true,
+    publish_mode: 'auto',
+  }])
+}
+
+let runCounter = 0
+
+async function runWorkflow(request: BlueskyAgentWorkflowRequest) {
+  // Run IDs are unique per run, as in Upstash; writes are keyed by them
+  runCounter++
+  const context = new FakeWorkflowContext(request, `test-run-${runCounter}`)
+  await new BlueskyAgentWorkflow(context.asWorkflowContext(), {
+    createBotClient: config => network.createClient(config),
+    triggerWorkflow: async () => ({ workflowRunId: 'queued' }),
+  }).execute()
+}
+
+/** Deliver every unread notification for the pet; returns how many were handled */
+async function deliverNotifications(petId: string): Promise<number> {
+  const notifications = network.takeUnreadNotifications(did(petId))
+  for (const n of notifications) {
+    await runWorkflow({
+      mode: 'reactive',
+      petId,
+      notification: {
+        uri: n.uri,
+        cid: n.cid,
+        authorHandle: n.authorHandle,
+        authorDid: n.authorDid,
+        text: n.text,
+        reason: n.reason as 'mention' | 'reply',
+        rootUri: n.rootUri,
+        rootCid: n.rootCid,
+      },
+    })
+  }
+  return notifications.length
+}
+
+function activity(type: string) {
+  return db.table('bluesky_post_log').filter(row => row.activity_type === type)
+}
+
+beforeEach(() => {
+  db = new InMemorySupabase()
+  network = new InMemoryBlueskyNetwork()
+  replyPrompts = []
+  interactionPrompts = []
+  replyEngages = true
+  llm = new ScriptedLLM({
+    scripts: {
+      post: request => {
+        if (!request.prompt.includes('deciding whether to start something')) return undefined
+        interactionPrompts.push(request.prompt)
+        return { shouldInteract: true, interactionType: 'beef', openingMessage: 'you call that a meme?', reasoning: 'rivals' }
+      },
+      reply: request => {
+        replyPrompts.push(request.prompt)
+        return { text: `reply ${replyPrompts.length}`, tone: 'competitive', shouldEngage: replyEngages }
+      },
+    },
+  })
+  setServiceSupabaseOverride(db as never)
+  llm.install()
+  seedPet('alpha')
+  seedPet('beta')
+  db.seed('pet_relationship', [{
+    pet_id_a: 'alpha',
+    pet_id_b: 'beta',
+    sentiment: 'rival',
+    sentiment_score: -0.6,
+    interaction_count: 4,
+  }])
+})
+
+afterEach(() => {
+  llm.uninstall()
+  setServiceSupabaseOverride(null)
+})
+
+// ---------------------------------------------------------------------------
+// Planning
+// ---------------------------------------------------------------------------
+
+describe('planArc', () => {
+  it('opens with setup, ends with resolution and escalates in between', () => {
+    const arc = planArc('nemesis', () => 0.99)
+    expect(arc.beats).toEqual(['setup', 'escalation', 'escalation', 'escalation', 'escalation', 'escalation', 'resolution'])
+    expect(arc.sceneGoal).toBe(CONVERSATION_CONFIG.ARCS.nemesis.sceneGoal)
+  })
+
+  it('uses the shortest length at the bottom of the range and defaults unknown pairs', () => {
+    const arc = planArc(null, () => 0)
+    expect(arc.sentiment).toBe('acquaintance')
+    expect(arc.beats).toEqual(['setup', 'escalation', 'resolution'])
+  })
+
+  it('stops directing once the resolution beat is taken', () => {
+    const state: ConversationState = {
+      ...planArc('hater', () => 0),
+      rootUri: 'at://root',
+      initiatorPetId: 'alpha',
+      responderPetId: 'beta',
+      turn: 2,
+      status: 'active',
+      closeReason: null,
+    }
+    expect(nextDirection(state)).toMatchObject({ beat: 'resolution', turn: 3, isClosing: true })
+    expect(nextDirection({ ...state, turn: 3 })).toBeNull()
+    expect(nextDirection({ ...state, status: 'closed' })).toBeNull()
+  })
+})
+
+// ---------------------------------------------------------------------------
+// Workflow
+// ---------------------------------------------------------------------------
+
+describe('bot-to-bot conversation', () => {
+  it('runs the planned arc and ends on a closing line', async () => {
+    await runWorkflow({ mode: 'interaction', petId: 'alpha', targetPetId: 'beta' })
+
+    expect(interactionPrompts[0]).toContain(CONVERSATION_CONFIG.ARCS.rival.sceneGoal)
+    expect(interactionPrompts[0]).toContain('Beat: SETUP')
+
+    const rootUri = activity('interaction_initiate')[0].post_uri as string
+    const planned = await loadConversation(rootUri)
+    expect(planned).toMatchObject({ turn: 1, status: 'active', sentiment: 'rival' })
+    const totalTurns = planned!.beats.length
+
+    // Alternate until nobody has anything left to answer
+    for (let round = 0; round < 10; round++) {
+      const handled = await deliverNotifications('beta') + await deliverNotifications('alpha')
+      if (handled === 0) break
+    }
+
+    const replies = activity('reactive_reply')
+    expect(replies).toHaveLength(totalTurns - 1)
+    expect(replyPrompts.at(-1)).toContain('Beat: RESOLUTION')
+    expect(replyPrompts.slice(0, -1).every(p => p.includes('Beat: ESCALATION'))).toBe(true)
+    expect(replies.at(-1)?.metadata).toMatchObject({ conversationBeat: 'resolution', conversationTurn: totalTurns })
+
+    expect(await loadConversation(rootUri)).toMatchObject({ turn: totalTurns, status: 'closed', closeReason: 'resolved' })
+    expect(activity('reply_skipped').map(row => (row.metadata as Record<string, unknown>).reason))
+      .toEqual(['conversation_closed'])
+  })
+
+  it('closes the scene when a pet declines to continue', async () => {
+    await runWorkflow({ mode: 'interaction', petId: 'alpha', targetPetId: 'beta' })
+    const rootUri = activity('interaction_initiate')[0].post_uri as string
+
+    replyEngages = false
+    await deliverNotifications('beta')
+
+    expect(await loadConversation(rootUri)).toMatchObject({ turn: 1, status: 'closed', closeReason: 'disengaged' })
+  })
+
+  it('plans an arc lazily for pet replies in threads it did not start', async () => {
+    const root = network.publish({ authorDid: did('alpha'), text: 'hot take: naps are a sport' })
+    await runWorkflow({
+      mode: 'reactive',
+      petId: 'beta',
+      notification: {
+        uri: root.uri,
+        cid: root.cid,
+        authorHandle: 'alpha.sim.test',
+        authorDid: did('alpha'),
+        text: root.text,
+        reason: 'mention',
+      },
+    })
+
+    expect(await loadConversation(root.uri)).toMatchObject({
+      initiatorPetId: 'alpha',
+      responderPetId: 'beta',
+      turn: 2,
+      sentiment: 'rival',
+    })
+    expect(replyPrompts[0]).toContain('Beat: ESCALATION')
+  })
+})
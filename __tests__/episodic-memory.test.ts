@@ -0,0 +1,280 @@
+/**
+ * Episodic Memory Tests
+ *
+ * Covers the offline hashing embedder, the explicit v1 → v2 bot memory
+ * migration and backfill, recall ranking (topic similarity, partner
+ * boost, recency window), and the workflow recording a reply and
+ * recalling it into the next prompt with the same author.
+ *
+ * @module episodic-memory-tests
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+
+vi.hoisted(() => {
+  process.env.ENABLE_BLUESKY_AGENT = 'true'
+})
+
+import { setServiceSupabaseOverride } from '../lib/api/service-supabase'
+import { InMemorySupabase } from '../lib/simulation/in-memory-supabase'
+import { InMemoryBlueskyNetwork } from '../lib/simulation/in-memory-bluesky'
+import { FakeWorkflowContext } from '../lib/simulation/fake-workflow-context'
+import { ScriptedLLM } from '../lib/simulation/scripted-llm'
+import { BlueskyAgentWorkflow } from '../lib/workflows/bluesky-agent-workflow'
+import { loadBotMemory, migrateBotMemory } from '../lib/agent/memory/bot-memory-service'
+import { buildMemoryContext } from '../lib/agent/memory/memory-prompt-builder'
+import { MEMORY_CONFIG } from '../lib/config/memory.config'
+import {
+  HashingEmbedder,
+  cosineSimilarity,
+  resolveEmbedderName,
+  setEmbedderOverride,
+} from '../lib/agent/memory/embedder'
+import {
+  backfillEpisodesFromMemory,
+  recallEpisodes,
+  recordEpisode,
+  recordEpisodes,
+} from '../lib/agent/memory/episodic-memory'
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+
+const NOW = new Date('2026-03-01T12:00:00Z')
+const DAY = 24 * 60 * 60 * 1000
+
+const daysAgo = (days: number) => new Date(NOW.getTime() - days * DAY).toISOString()
+
+const V1_MEMORY = {
+  version: 1,
+  updatedAt: daysAgo(1),
+  recentPosts: [
+    { postedAt: daysAgo(3), gist: 'declared war on the vacuum cleaner', mood: 'chaotic', topic: 'vacuum', intentType: 'shitpost' },
+  ],
+  topicCooldowns: { vacuum: daysAgo(3) },
+  runningThemes: [],
+  relationships: [
+    {
+      name: 'Beta',
+      petId: 'beta',
+      sentiment: 'rival',
+      lastInteraction: 'argued about who owns the sunbeam',
+      lastInteractedAt: daysAgo(5),
+      interactionCount: 3,
+    },
+  ],
+  narrativeArc: 'a cat plotting against household appliances',
+  currentMood: 'chaotic',
+  avoidList: [],
+}
+
+let db: InMemorySupabase
+
+beforeEach(() => {
+  db = new InMemorySupabase()
+  setServiceSupabaseOverride(db as never)
+  setEmbedderOverride(new HashingEmbedder())
+})
+
+afterEach(() => {
+  setServiceSupabaseOverride(null)
+  setEmbedderOverride(null)
+})
+
+// ---------------------------------------------------------------------------
+// Embedder
+// ---------------------------------------------------------------------------
+
+describe('HashingEmbedder', () => {
+  it('scores texts with shared vocabulary above unrelated ones', async () => {
+    const [query, related, unrelated] = await new HashingEmbedder().embed([
+      'the vacuum cleaner is back',
+      'I declared war on the vacuum cleaner',
+      'pizza toppings ranked by vibes',
+    ])
+
+    expect(cosineSimilarity(query, related)).toBeGreaterThan(0.3)
+    expect(cosineSimilarity(query, related)).toBeGreaterThan(cosineSimilarity(query, unrelated))
+  })
+
+  it('falls back to hashing offline and when the LLM is mocked', () => {
+    expect(resolveEmbedderName({})).toBe('hashing')
+    expect(resolveEmbedderName({ OPENAI_API_KEY: 'sk', LLM_PROVIDER: 'mock' })).toBe('hashing')
+    expect(resolveEmbedderName({ OPENAI_API_KEY: 'sk' })).toBe('openai')
+    expect(resolveEmbedderName({ MEMORY_EMBEDDER: 'hashing', OPENAI_API_KEY: 'sk' })).toBe('hashing')
+  })
+})
+
+// ---------------------------------------------------------------------------
+// Migration
+// ---------------------------------------------------------------------------
+
+describe('bot memory migration', () => {
+  it('upgrades v1 memory instead of discarding it', async () => {
+    db.seed('bot_memory', [{ pet_id: 'alpha', memory: V1_MEMORY, revision: 0 }])
+
+    const memory = await loadBotMemory('alpha')
+
+    expect(memory.version).toBe(2)
+    expect(memory.episodesBackfilledAt).toBeNull()
+    expect(memory.narrativeArc).toBe(V1_MEMORY.narrativeArc)
+    expect(memory.relationships).toHaveLength(1)
+  })
+
+  it('rejects unknown versions', () => {
+    expect(migrateBotMemory({ ...V1_MEMORY, version: 99 })).toBeNull()
+    expect(migrateBotMemory(null)).toBeNull()
+  })
+
+  it('copies the v1 window into the episodic store once', async () => {
+    const migrated = migrateBotMemory(V1_MEMORY)!
+    const backfilled = await backfillEpisodesFromMemory('alpha', migrated)
+
+    expect(backfilled.episodesBackfilledAt).not.toBeNull()
+    expect(db.table('bluesky_memory_episode').map(row => row.kind).sort()).toEqual(['interaction', 'post'])
+
+    await backfillEpisodesFromMemory('alpha', backfilled)
+    expect(db.table('bluesky_memory_episode')).toHaveLength(2)
+  })
+})
+
+// ---------------------------------------------------------------------------
+// Recall
+// ---------------------------------------------------------------------------
+
+describe('recallEpisodes', () => {
+  beforeEach(async () => {
+    await recordEpisodes('alpha', [
+      { kind: 'post', content: 'declared war on the vacuum cleaner again', topic: 'vacuum', occurredAt: daysAgo(20) },
+      { kind: 'post', content: 'ranked pizza toppings by how loud they are', topic: 'food', occurredAt: daysAgo(10) },
+      {
+        kind: 'reply',
+        content: '@beta.test said "nice sunbeam" and I replied "mine forever"',
+        partnerPetId: 'beta',
+        partnerHandle: '@beta.test',
+        occurredAt: daysAgo(40),
+      },
+      { kind: 'post', content: 'the vacuum cleaner stared at me today', topic: 'vacuum', occurredAt: new Date(NOW.getTime() - 60_000).toISOString() },
+    ])
+  })
+
+  it('returns the episodes closest to the topic', async () => {
+    const recalled = await recallEpisodes('alpha', { query: 'vacuum cleaner rematch', now: NOW })
+
+    expect(recalled[0].content).toBe('declared war on the vacuum cleaner again')
+    expect(recalled.some(e => e.topic === 'food')).toBe(false)
+  })
+
+  it('finds a close match older than the newest candidate rows', async () => {
+    await recordEpisodes('alpha', Array.from({ length: MEMORY_CONFIG.RECALL.CANDIDATE_ROWS }, (_, i) => ({
+      kind: 'post' as const,
+      content: `nap report number ${i}: sunbeam acquired`,
+      occurredAt: daysAgo(1 + i / 1000),
+    })))
+
+    const recalled = await recallEpisodes('alpha', { query: 'vacuum cleaner rematch', now: NOW })
+
+    expect(recalled[0].content).toBe('declared war on the vacuum cleaner again')
+  })
+
+  it('skips episodes still in the rolling window', async () => {
+    const recalled = await recallEpisodes('alpha', { query: 'vacuum cleaner stared', now: NOW })
+    expect(recalled.map(e => e.content)).not.toContain('the vacuum cleaner stared at me today')
+  })
+
+  it('brings back old moments with the conversation partner', async () => {
+    const recalled = await recallEpisodes('alpha', { query: 'hello there', partnerPetId: 'beta', now: NOW })
+
+    expect(recalled).toHaveLength(1)
+    expect(recalled[0]).toMatchObject({ kind: 'reply', withPartner: true, partnerHandle: '@beta.test' })
+    expect(buildMemoryContext(migrateBotMemory(V1_MEMORY)!, recalled))
+      .toMatch(/- \[reply with @beta\.test, \d+d ago\] @beta\.test said "nice sunbeam"/)
+  })
+
+  it('only compares vectors from the same embedder', async () => {
+    setEmbedderOverride(new HashingEmbedder(64))
+    expect(await recallEpisodes('alpha', { query: 'vacuum cleaner', now: NOW })).toEqual([])
+  })
+
+  it('updates rather than duplicates an episode for the same post', async () => {
+    await recordEpisode('alpha', { kind: 'post', content: 'first draft', postUri: 'at://alpha/post/1' })
+    await recordEpisode('alpha', { kind: 'post', content: 'first draft', postUri: 'at://alpha/post/1' })
+    expect(db.table('bluesky_memory_episode').filter(row => row.post_uri === 'at://alpha/post/1')).toHaveLength(1)
+  })
+})
+
+// ---------------------------------------------------------------------------
+// Workflow
+// ---------------------------------------------------------------------------
+
+describe('workflow memory', () => {
+  let network: InMemoryBlueskyNetwork
+  let llm: ScriptedLLM
+  let replyPrompts: string[]
+
+  beforeEach(() => {
+    network = new InMemoryBlueskyNetwork()
+    replyPrompts = []
+    llm = new ScriptedLLM({
+      scripts: {
+        reply: request => {
+          replyPrompts.push(request.prompt)
+          return { text: `reply ${replyPrompts.length}`, tone: 'friendly', shouldEngage: true }
+        },
+      },
+    })
+    llm.install()
+
+    network.registerAccount({ did: 'did:sim:alpha.sim.test', handle: 'alpha.sim.test', isBot: true })
+    network.registerAccount({ did: 'did:sim:human', handle: 'human.test', isBot: false })
+    db.seed('pet', [{ id: 'alpha', name: 'ALPHA', meme: {} }])
+    db.seed('bluesky_bot_config', [{
+      id: 'config-alpha',
+      pet_id: 'alpha',
+      handle: 'alpha.sim.test',
+      did: 'did:sim:alpha.sim.test',
+      app_password: 'simulated',
+      is_active: true,
+      publish_mode: 'auto',
+    }])
+  })
+
+  afterEach(() => {
+    llm.uninstall()
+  })
+
+  async function replyTo(text: string) {
+    const post = network.publish({ authorDid: 'did:sim:human', text })
+    const context = new FakeWorkflowContext({
+      mode: 'reactive',
+      petId: 'alpha',
+      notification: {
+        uri: post.uri,
+        cid: post.cid,
+        authorHandle: 'human.test',
+        authorDid: 'did:sim:human',
+        text,
+        reason: 'mention',
+      },
+    }, 'test-run')
+    await new BlueskyAgentWorkflow(context.asWorkflowContext(), {
+      createBotClient: config => network.createClient(config),
+      triggerWorkflow: async () => ({ workflowRunId: 'queued' }),
+    }).execute()
+  }
+
+  it('records replies and recalls them in later conversations with the same author', async () => {
+    await replyTo('what is your opinion on cardboard boxes')
+
+    const [episode] = db.table('bluesky_memory_episode')
+    expect(episode).toMatchObject({ pet_id: 'alpha', kind: 'reply', partner_did: 'did:sim:human' })
+
+    // Age the episode out of the rolling window
+    episode.created_at = new Date(Date.now() - 2 * DAY).toISOString()
+
+    await replyTo('remember me? still into boxes?')
+    expect(replyPrompts[1]).toContain('THINGS YOU REMEMBER')
+    expect(replyPrompts[1]).toContain('what is your opinion on cardboard boxes')
+  })
+})
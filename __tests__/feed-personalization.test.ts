@@ -0,0 +1,300 @@
+/**
+ * Feed Personalization Tests
+ *
+ * Covers service JWT verification against locally generated keys, and
+ * viewer-specific skeletons: boosting pets the viewer follows or talks
+ * to, pinning threads a pet mentioned the viewer in, and falling back to
+ * the anonymous feed.
+ *
+ * @module feed-personalization-tests
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { setServiceSupabaseOverride } from '../lib/api/service-supabase'
+import { FEED_CONFIG } from '../lib/config/feed.config'
+import { InMemorySupabase } from '../lib/simulation/in-memory-supabase'
+import { LocalKeyResolver } from '../lib/simulation/local-service-auth'
+import { feedUri, resolveFeed, serviceDid } from '../lib/services/feed-generator'
+import { getPersonalizedFeedSkeleton, type FollowSource } from '../lib/services/feed-personalization'
+import {
+  DidDocumentKeyResolver,
+  KeyResolutionError,
+  ServiceAuthError,
+  setKeyResolverOverride,
+  verifyServiceJwt,
+} from '../lib/services/service-auth'
+import { GET as getFeedSkeletonRoute } from '../app/xrpc/app.bsky.feed.getFeedSkeleton/route'
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+
+const VIEWER = 'did:plc:viewer'
+const LXM = 'app.bsky.feed.getFeedSkeleton'
+
+let db: InMemorySupabase
+let keys: LocalKeyResolver
+let clock: number
+
+function log(petId: string, activityType: string, metadata: Record<string, unknown> = {}): string {
+  clock -= 60_000
+  const uri = `at://did:sim:${petId}/app.bsky.feed.post/${petId}-${clock}`
+  db.seed('bluesky_post_log', [{
+    pet_id: petId,
+    activity_type: activityType,
+    post_uri: uri,
+    metadata,
+    created_at: new Date(clock).toISOString(),
+  }])
+  return uri
+}
+
+const noFollows: FollowSource = async () => new Set()
+
+async function drama(options: { limit?: number; cursor?: string | null; viewerDid?: string | null; fetchFollows?: FollowSource } = {}) {
+  const feed = await resolveFeed('memepet-drama')
+  return getPersonalizedFeedSkeleton(feed!, {
+    limit: options.limit ?? 30,
+    cursor: options.cursor ?? null,
+    viewerDid: options.viewerDid === undefined ? VIEWER : options.viewerDid,
+    fetchFollows: options.fetchFollows ?? noFollows,
+  })
+}
+
+beforeEach(() => {
+  db = new InMemorySupabase()
+  keys = new LocalKeyResolver()
+  keys.register(VIEWER)
+  clock = Date.now()
+  setServiceSupabaseOverride(db as never)
+  setKeyResolverOverride(keys)
+  db.seed('bluesky_bot_config', [
+    { pet_id: 'alpha', handle: 'alpha.memepet.0.space', did: 'did:sim:alpha', is_active: true },
+    { pet_id: 'beta', handle: 'beta.memepet.0.space', did: 'did:sim:beta', is_active: true },
+    { pet_id: 'gamma', handle: 'gamma.memepet.0.space', did: 'did:sim:gamma', is_active: true },
+  ])
+})
+
+afterEach(() => {
+  setServiceSupabaseOverride(null)
+  setKeyResolverOverride(null)
+  vi.restoreAllMocks()
+  vi.useRealTimers()
+})
+
+// ---------------------------------------------------------------------------
+// Service JWT
+// ---------------------------------------------------------------------------
+
+describe('verifyServiceJwt', () => {
+  const verifyOptions = { audience: serviceDid(), lxm: LXM }
+
+  it('returns the issuer DID for a valid token', async () => {
+    const jwt = keys.mintJwt(VIEWER, { aud: serviceDid(), lxm: LXM })
+    expect(await verifyServiceJwt(`Bearer ${jwt}`, verifyOptions)).toBe(VIEWER)
+  })
+
+  it('treats a missing header as anonymous', async () => {
+    expect(await verifyServiceJwt(null, verifyOptions)).toBeNull()
+  })
+
+  it('rejects wrong audience, wrong or missing method and expired tokens', async () => {
+    const wrongAud = keys.mintJwt(VIEWER, { aud: 'did:web:elsewhere.example', lxm: LXM })
+    const wrongLxm = keys.mintJwt(VIEWER, { aud: serviceDid(), lxm: 'app.bsky.feed.getTimeline' })
+    const noLxm = keys.mintJwt(VIEWER, { aud: serviceDid() })
+    const expired = keys.mintJwt(VIEWER, { aud: serviceDid(), lxm: LXM, iat: Math.floor(Date.now() / 1000) - 600 })
+
+    for (const jwt of [wrongAud, wrongLxm, noLxm, expired]) {
+      await expect(verifyServiceJwt(`Bearer ${jwt}`, verifyOptions)).rejects.toThrow(ServiceAuthError)
+    }
+  })
+
+  it('rejects a token signed by a key the DID no longer has', async () => {
+    const stale = keys.mintJwt(VIEWER, { aud: serviceDid(), lxm: LXM })
+    keys.register(VIEWER)
+    await expect(verifyServiceJwt(`Bearer ${stale}`, verifyOptions)).rejects.toThrow('signature')
+  })
+
+  it('retries with a refreshed key after a rotation', async () => {
+    const staleKey = await keys.resolveSigningKey(VIEWER)
+    keys.register(VIEWER)
+    const rotated = keys.mintJwt(VIEWER, { aud: serviceDid(), lxm: LXM })
+    const cachingResolver = {
+      resolveSigningKey: async (did: string, forceRefresh?: boolean) =>
+        forceRefresh ? keys.resolveSigningKey(did) : staleKey,
+    }
+
+    expect(await verifyServiceJwt(`Bearer ${rotated}`, { ...verifyOptions, resolver: cachingResolver })).toBe(VIEWER)
+  })
+
+  it('reports a failed key lookup separately from a bad token', async () => {
+    const jwt = keys.mintJwt(VIEWER, { aud: serviceDid(), lxm: LXM })
+    const unreachable = { resolveSigningKey: async () => { throw new Error('The operation was aborted due to timeout') } }
+
+    const result = verifyServiceJwt(`Bearer ${jwt}`, { ...verifyOptions, resolver: unreachable })
+    await expect(result).rejects.toBeInstanceOf(KeyResolutionError)
+    await expect(result).rejects.not.toBeInstanceOf(ServiceAuthError)
+  })
+})
+
+describe('DidDocumentKeyResolver', () => {
+  function didDocument(didKey: string): Response {
+    return new Response(JSON.stringify({
+      verificationMethod: [{ id: `${VIEWER}#atproto`, publicKeyMultibase: didKey.slice('did:key:'.length) }],
+    }))
+  }
+
+  it('throttles forced refreshes per DID', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    const didKey = keys.register(VIEWER)
+    const fetchMock = vi.spyOn(globalThis, 'fetch').mockImplementation(async () => didDocument(didKey))
+    const resolver = new DidDocumentKeyResolver()
+
+    for (let i = 0; i < 5; i++) expect(await resolver.resolveSigningKey(VIEWER, true)).toBe(didKey)
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+
+    vi.advanceTimersByTime(FEED_CONFIG.AUTH.FORCE_REFRESH_INTERVAL_MS)
+    await resolver.resolveSigningKey(VIEWER, true)
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+  })
+
+  it('treats unknown DIDs as bad tokens and directory outages as lookup failures', async () => {
+    const resolver = new DidDocumentKeyResolver()
+    vi.spyOn(globalThis, 'fetch')
+      .mockResolvedValueOnce(new Response('not found', { status: 404 }))
+      .mockResolvedValueOnce(new Response('unavailable', { status: 503 }))
+      .mockRejectedValueOnce(new TypeError('fetch failed'))
+
+    await expect(resolver.resolveSigningKey(VIEWER)).rejects.toBeInstanceOf(ServiceAuthError)
+    await expect(resolver.resolveSigningKey('did:plc:other')).rejects.toBeInstanceOf(KeyResolutionError)
+    await expect(resolver.resolveSigningKey('did:plc:other')).rejects.toBeInstanceOf(KeyResolutionError)
+  })
+
+  it('remembers unknown DIDs for a while', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    const didKey = keys.register(VIEWER)
+    const fetchMock = vi.spyOn(globalThis, 'fetch')
+      .mockResolvedValueOnce(new Response('not found', { status: 404 }))
+      .mockResolvedValueOnce(didDocument(didKey))
+    const resolver = new DidDocumentKeyResolver()
+
+    for (let i = 0; i < 3; i++) await expect(resolver.resolveSigningKey(VIEWER, true)).rejects.toThrow('Unknown DID')
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+
+    vi.advanceTimersByTime(FEED_CONFIG.AUTH.UNKNOWN_DID_TTL_MS)
+    expect(await resolver.resolveSigningKey(VIEWER)).toBe(didKey)
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+  })
+})
+
+// ---------------------------------------------------------------------------
+// Personalized skeletons
+// ---------------------------------------------------------------------------
+
+describe('personalized skeleton', () => {
+  it('moves pets the viewer replied to or was engaged by to the front', async () => {
+    const gammaPost = log('gamma', 'proactive_post')
+    const betaPost = log('beta', 'proactive_post')
+    const alphaPost = log('alpha', 'proactive_post')
+    log('beta', 'engagement_like', { engagedAuthorDid: VIEWER })
+
+    const result = await drama()
+    expect(result.feed).toEqual([{ post: betaPost }, { post: gammaPost }, { post: alphaPost }])
+  })
+
+  it('boosts pets the viewer follows', async () => {
+    const gammaPost = log('gamma', 'proactive_post')
+    const alphaPost = log('alpha', 'proactive_post')
+    const follows: FollowSource = async (_viewer, petDids) =>
+      new Set(petDids.filter(did => did === 'did:sim:gamma'))
+
+    expect((await drama({ fetchFollows: follows })).feed).toEqual([{ post: gammaPost }, { post: alphaPost }])
+  })
+
+  it('pins threads a pet mentioned the viewer in to the top of the first page only', async () => {
+    const newer = Array.from({ length: 4 }, (_, i) => log(i % 2 ? 'beta' : 'gamma', 'proactive_post'))
+    const mentionReply = log('alpha', 'reactive_reply', {
+      inReplyToAuthorDid: VIEWER,
+      threadUri: 'at://did:plc:viewer/app.bsky.feed.post/root',
+      mentionedDids: [VIEWER],
+    })
+
+    const first = await drama({ limit: 3 })
+    expect(first.feed[0]).toEqual({ post: mentionReply })
+    expect(first.feed).toHaveLength(3)
+
+    const seen = [...first.feed.map(f => f.post)]
+    let cursor = first.cursor ?? null
+    while (cursor) {
+      const page = await drama({ limit: 3, cursor })
+      seen.push(...page.feed.map(f => f.post))
+      cursor = page.cursor ?? null
+    }
+
+    expect(seen.filter(uri => uri === mentionReply)).toHaveLength(1)
+    expect(new Set(seen)).toEqual(new Set([mentionReply, ...newer]))
+  })
+
+  it('pins the latest pet post of a thread that opened by mentioning the viewer', async () => {
+    const other = log('gamma', 'proactive_post')
+    const comeback = log('beta', 'reactive_reply')
+    const callout = log('alpha', 'interaction_initiate', { mentionedDids: [VIEWER, 'did:sim:beta'] })
+    db.table('bluesky_post_log').find(r => r.post_uri === comeback)!.metadata = { threadUri: callout }
+
+    expect((await drama()).feed).toEqual([{ post: comeback }, { post: other }, { post: callout }])
+  })
+
+  it("doesn't pin threads where the viewer mentioned a pet but no pet mentioned them", async () => {
+    const newer = log('gamma', 'proactive_post')
+    const answer = log('alpha', 'reactive_reply', {
+      notificationReason: 'mention',
+      threadUri: 'at://did:plc:viewer/app.bsky.feed.post/root',
+    })
+    const older = log('beta', 'proactive_post')
+
+    expect((await drama()).feed).toEqual([{ post: newer }, { post: answer }, { post: older }])
+  })
+
+  it('ignores follow lookup failures and serves anonymous feeds unchanged', async () => {
+    const newer = log('gamma', 'proactive_post')
+    const older = log('alpha', 'proactive_post')
+    const failing: FollowSource = async () => { throw new Error('appview down') }
+
+    expect((await drama({ fetchFollows: failing })).feed).toEqual([{ post: newer }, { post: older }])
+    expect((await drama({ viewerDid: null })).feed).toEqual([{ post: newer }, { post: older }])
+  })
+})
+
+// ---------------------------------------------------------------------------
+// Route
+// ---------------------------------------------------------------------------
+
+describe('getFeedSkeleton route', () => {
+  const url = `http://localhost/xrpc/app.bsky.feed.getFeedSkeleton?feed=${encodeURIComponent(feedUri('memepet-threads'))}`
+
+  it('accepts a valid service JWT', async () => {
+    const thread = log('alpha', 'proactive_thread')
+    const jwt = keys.mintJwt(VIEWER, { aud: serviceDid(), lxm: LXM })
+    const response = await getFeedSkeletonRoute(new Request(url, { headers: { authorization: `Bearer ${jwt}` } }) as never)
+
+    expect(response.status).toBe(200)
+    expect((await response.json()).feed).toEqual([{ post: thread }])
+  })
+
+  it('401s an invalid service JWT', async () => {
+    const response = await getFeedSkeletonRoute(new Request(url, { headers: { authorization: 'Bearer not.a.jwt' } }) as never)
+    expect(response.status).toBe(401)
+  })
+
+  it('serves the unpersonalized feed when the signing key lookup fails', async () => {
+    const thread = log('alpha', 'proactive_thread')
+    const jwt = keys.mintJwt(VIEWER, { aud: serviceDid(), lxm: LXM })
+    setKeyResolverOverride({ resolveSigningKey: async () => { throw new TypeError('fetch failed') } })
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+
+    const response = await getFeedSkeletonRoute(new Request(url, { headers: { authorization: `Bearer ${jwt}` } }) as never)
+
+    expect(response.status).toBe(200)
+    expect((await response.json()).feed).toEqual([{ post: thread }])
+  })
+})
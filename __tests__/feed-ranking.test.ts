@@ -0,0 +1,196 @@
+/**
+ * Hot Feed Ranking Tests
+ *
+ * Covers the hot score (engagement, decay, conversation depth), bot-to-bot
+ * chain depth, the background refresh writing cache rows + snapshots, and
+ * snapshot cursors staying stable while the feed is re-ranked.
+ *
+ * @module feed-ranking-tests
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { setServiceSupabaseOverride } from '../lib/api/service-supabase'
+import { InMemorySupabase } from '../lib/simulation/in-memory-supabase'
+import { getFeedSkeleton, resolveFeed } from '../lib/services/feed-generator'
+import {
+  computeConversationDepths,
+  hotScore,
+  refreshFeedEngagement,
+  type PostCounts,
+} from '../lib/services/feed-engagement'
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+
+const HOUR = 60 * 60 * 1000
+const NONE: PostCounts = { likeCount: 0, replyCount: 0, repostCount: 0, quoteCount: 0 }
+
+let db: InMemorySupabase
+let counts: Map<string, PostCounts>
+
+function log(
+  petId: string,
+  hoursAgo: number,
+  options: { activityType?: string; metadata?: Record<string, unknown> } = {}
+): string {
+  const uri = `at://did:sim:${petId}/app.bsky.feed.post/${petId}-${hoursAgo}`
+  db.seed('bluesky_post_log', [{
+    pet_id: petId,
+    activity_type: options.activityType ?? 'proactive_post',
+    post_uri: uri,
+    metadata: options.metadata ?? {},
+    created_at: new Date(Date.now() - hoursAgo * HOUR).toISOString(),
+  }])
+  return uri
+}
+
+const fetchCounts = async (uris: string[]) =>
+  new Map(uris.filter(uri => counts.has(uri)).map(uri => [uri, counts.get(uri)!]))
+
+async function hotPage(limit: number, cursor: string | null = null) {
+  const feed = await resolveFeed('memepet-hot')
+  return getFeedSkeleton(feed!, { limit, cursor })
+}
+
+beforeEach(() => {
+  db = new InMemorySupabase()
+  counts = new Map()
+  setServiceSupabaseOverride(db as never)
+})
+
+afterEach(() => {
+  setServiceSupabaseOverride(null)
+  vi.restoreAllMocks()
+})
+
+// ---------------------------------------------------------------------------
+// Scoring
+// ---------------------------------------------------------------------------
+
+describe('hotScore', () => {
+  it('rewards engagement and decays with age', () => {
+    const liked = { ...NONE, likeCount: 10 }
+    expect(hotScore(liked, 1, 1)).toBeGreaterThan(hotScore(NONE, 1, 1))
+    expect(hotScore(liked, 1, 1)).toBeGreaterThan(hotScore(liked, 1, 24))
+  })
+
+  it('weights quotes over likes and rewards conversation depth', () => {
+    expect(hotScore({ ...NONE, quoteCount: 1 }, 1, 1)).toBeGreaterThan(hotScore({ ...NONE, likeCount: 1 }, 1, 1))
+    expect(hotScore(NONE, 4, 1)).toBeGreaterThan(hotScore(NONE, 1, 1))
+  })
+})
+
+describe('computeConversationDepths', () => {
+  it('gives every post in a bot-to-bot thread the longest chain length', () => {
+    const root = 'at://a/post/root'
+    const depths = computeConversationDepths([
+      { post_uri: root, pet_id: 'alpha', created_at: '', metadata: {} },
+      { post_uri: 'at://b/post/1', pet_id: 'beta', created_at: '', metadata: { inReplyTo: root, threadUri: root } },
+      { post_uri: 'at://a/post/2', pet_id: 'alpha', created_at: '', metadata: { inReplyTo: 'at://b/post/1', threadUri: root } },
+      { post_uri: 'at://a/post/solo', pet_id: 'alpha', created_at: '', metadata: {} },
+      // Reply to a human post: the parent isn't ours, so the chain is just this post
+      { post_uri: 'at://a/post/3', pet_id: 'alpha', created_at: '', metadata: { inReplyTo: 'at://human/post/x', threadUri: 'at://human/post/x' } },
+    ])
+
+    expect(depths.get(root)).toBe(3)
+    expect(depths.get('at://a/post/2')).toBe(3)
+    expect(depths.get('at://a/post/solo')).toBe(1)
+    expect(depths.get('at://a/post/3')).toBe(1)
+  })
+})
+
+// ---------------------------------------------------------------------------
+// Refresh job + serving
+// ---------------------------------------------------------------------------
+
+describe('hot feed', () => {
+  it('is chronological until the first snapshot exists', async () => {
+    const older = log('alpha', 5)
+    const newer = log('beta', 1)
+    expect((await hotPage(10)).feed).toEqual([{ post: newer }, { post: older }])
+  })
+
+  it('serves the refreshed ranking from a snapshot', async () => {
+    const older = log('alpha', 5)
+    const newer = log('beta', 1)
+    counts.set(older, { ...NONE, likeCount: 40, quoteCount: 5 })
+    counts.set(newer, NONE)
+
+    const result = await refreshFeedEngagement({ fetchCounts })
+
+    expect(result.errors).toEqual([])
+    expect(result.snapshots).toEqual([{ feed: 'memepet-hot', size: 2 }])
+    expect(db.table('bluesky_post_engagement').find(r => r.post_uri === older)?.like_count).toBe(40)
+    expect((await hotPage(10)).feed).toEqual([{ post: older }, { post: newer }])
+  })
+
+  it('keeps paging on the same snapshot after a re-rank', async () => {
+    const uris = [log('alpha', 1), log('beta', 2), log('gamma', 3), log('delta', 4)]
+    await refreshFeedEngagement({ fetchCounts })
+
+    const first = await hotPage(2)
+    expect(first.feed.map(f => f.post)).toEqual(uris.slice(0, 2))
+
+    // The oldest post goes viral and the next snapshot reorders everything
+    counts.set(uris[3], { ...NONE, likeCount: 500 })
+    await refreshFeedEngagement({ fetchCounts, now: new Date(Date.now() + 60_000) })
+    expect((await hotPage(1)).feed[0].post).toBe(uris[3])
+
+    const second = await hotPage(2, first.cursor!)
+    expect(second.feed.map(f => f.post)).toEqual(uris.slice(2, 4))
+    expect(second.cursor).toBeUndefined()
+  })
+
+  it('still writes snapshots when the AppView is unavailable', async () => {
+    log('alpha', 1)
+    const result = await refreshFeedEngagement({ fetchCounts: async () => { throw new Error('appview down') } })
+
+    expect(result.errors).toEqual(['counts: appview down'])
+    expect(result.snapshots).toEqual([{ feed: 'memepet-hot', size: 1 }])
+  })
+
+  it('reports a failed snapshot write', async () => {
+    log('alpha', 1)
+    const from = db.from.bind(db)
+    vi.spyOn(db, 'from').mockImplementation(table => {
+      const query = from(table)
+      if (table === 'bluesky_feed_snapshot') {
+        vi.spyOn(query, 'insert').mockReturnValue(Promise.resolve({ data: null, error: { message: 'disk full' }, count: null }) as never)
+      }
+      return query
+    })
+
+    const result = await refreshFeedEngagement({ fetchCounts })
+
+    expect(result.snapshots).toEqual([])
+    expect(result.errors).toEqual(['memepet-hot: snapshot insert failed: {"message":"disk full"}'])
+  })
+
+  it('keeps the previous snapshots when cached engagement cannot be read', async () => {
+    log('alpha', 1)
+    await refreshFeedEngagement({ fetchCounts })
+    const from = db.from.bind(db)
+    vi.spyOn(db, 'from').mockImplementation(table => {
+      const query = from(table)
+      if (table === 'bluesky_post_engagement') {
+        vi.spyOn(query, 'select').mockReturnValue({ gte: async () => ({ data: null, error: { message: 'timeout' } }) } as never)
+      }
+      return query
+    })
+
+    const result = await refreshFeedEngagement({ fetchCounts, now: new Date(Date.now() + 60_000) })
+
+    expect(result.snapshots).toEqual([])
+    expect(result.errors).toEqual(['engagement: {"message":"timeout"}'])
+    expect(db.table('bluesky_feed_snapshot')).toHaveLength(1)
+  })
+
+  it('prunes snapshots past retention', async () => {
+    log('alpha', 1)
+    await refreshFeedEngagement({ fetchCounts })
+    await refreshFeedEngagement({ fetchCounts, now: new Date(Date.now() + 7 * HOUR) })
+
+    expect(db.table('bluesky_feed_snapshot')).toHaveLength(1)
+  })
+})
@@ -0,0 +1,201 @@
+/**
+ * Feed Registry Tests
+ *
+ * Exercises the declarative feed registry end to end against the
+ * in-memory Supabase: per-pet, beef-only, image and thread feeds,
+ * advertisement via describeFeedGenerator, and cursor paging through
+ * feeds that filter in memory.
+ *
+ * @module feed-registry-tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { setServiceSupabaseOverride } from '../lib/api/service-supabase'
+import { InMemorySupabase } from '../lib/simulation/in-memory-supabase'
+import { feedUri, getFeedSkeleton, petFeedRkey, resolveFeed } from '../lib/services/feed-generator'
+import { FEED_CONFIG } from '../lib/config/feed.config'
+import { GET as describeFeedGenerator } from '../app/xrpc/app.bsky.feed.describeFeedGenerator/route'
+import { GET as getFeedSkeletonRoute } from '../app/xrpc/app.bsky.feed.getFeedSkeleton/route'
+import { GET as getFeedByName } from '../app/api/v1/feeds/[feed]/route'
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+
+let db: InMemorySupabase
+let clock = Date.parse('2026-03-01T12:00:00Z')
+
+function log(petId: string, activityType: string, metadata: Record<string, unknown> = {}) {
+  clock -= 60_000
+  const id = `${petId}-${activityType}-${clock}`
+  db.seed('bluesky_post_log', [{
+    pet_id: petId,
+    activity_type: activityType,
+    post_uri: `at://did:sim:${petId}/app.bsky.feed.post/${id}`,
+    metadata,
+    created_at: new Date(clock).toISOString(),
+  }])
+  return `at://did:sim:${petId}/app.bsky.feed.post/${id}`
+}
+
+async function skeleton(rkey: string, limit = 30, cursor: string | null = null) {
+  const feed = await resolveFeed(rkey)
+  if (!feed) throw new Error(`no feed ${rkey}`)
+  return getFeedSkeleton(feed, { limit, cursor })
+}
+
+beforeEach(() => {
+  db = new InMemorySupabase()
+  clock = Date.parse('2026-03-01T12:00:00Z')
+  setServiceSupabaseOverride(db as never)
+  db.seed('bluesky_bot_config', [
+    { pet_id: 'alpha', handle: 'alpha.memepet.0.space', did: 'did:sim:alpha', is_active: true },
+    { pet_id: 'beta', handle: 'beta.memepet.0.space', did: 'did:sim:beta', is_active: true },
+    { pet_id: 'gamma', handle: 'gamma.memepet.0.space', did: 'did:sim:gamma', is_active: false },
+  ])
+  db.seed('pet_relationship', [
+    { pet_id_a: 'alpha', pet_id_b: 'beta', sentiment: 'nemesis' },
+    { pet_id_a: 'alpha', pet_id_b: 'gamma', sentiment: 'friend' },
+  ])
+})
+
+afterEach(() => {
+  setServiceSupabaseOverride(null)
+})
+
+// ---------------------------------------------------------------------------
+// Registry
+// ---------------------------------------------------------------------------
+
+describe('feed registry', () => {
+  it('advertises static feeds plus one per active pet', async () => {
+    const body = await (await describeFeedGenerator()).json()
+    const uris = body.feeds.map((f: { uri: string }) => f.uri)
+
+    expect(uris).toEqual([
+      feedUri('memepet-drama'),
+      feedUri('memepet-hot'),
+      feedUri('memepet-beef'),
+      feedUri('memepet-images'),
+      feedUri('memepet-threads'),
+      feedUri(petFeedRkey('alpha.memepet.0.space', 'did:sim:alpha')),
+      feedUri(petFeedRkey('beta.memepet.0.space', 'did:sim:beta')),
+    ])
+  })
+
+  it('keeps pet feed rkeys short and apart for look-alike handles', () => {
+    const rkeys = [
+      petFeedRkey('alphabetical-overlord.memepet.0.space', 'did:sim:one'),
+      petFeedRkey('alphabetical-overlord.other.host', 'did:sim:two'),
+      petFeedRkey('al.memepet.0.space', 'did:sim:three'),
+    ]
+
+    expect(rkeys.every(rkey => rkey.length <= FEED_CONFIG.PET_FEED.RKEY_MAX_LENGTH)).toBe(true)
+    expect(rkeys[0]).toMatch(/^pet-alph-[0-9a-f]{6}$/)
+    expect(new Set(rkeys).size).toBe(3)
+  })
+
+  it('still advertises static feeds when the bot table is unreadable', async () => {
+    setServiceSupabaseOverride({ from: () => { throw new Error('down') } } as never)
+    const body = await (await describeFeedGenerator()).json()
+    expect(body.feeds).toHaveLength(5)
+  })
+
+  it('does not resolve feeds for inactive or unknown pets', async () => {
+    expect(await resolveFeed(petFeedRkey('gamma.memepet.0.space', 'did:sim:gamma'))).toBeNull()
+    expect(await resolveFeed('pet-nobody')).toBeNull()
+    expect(await resolveFeed('memepet-nope')).toBeNull()
+  })
+})
+
+// ---------------------------------------------------------------------------
+// Filters
+// ---------------------------------------------------------------------------
+
+describe('feed filters', () => {
+  it('per-pet feeds only include that pet', async () => {
+    const mine = log('alpha', 'proactive_post')
+    log('beta', 'proactive_post')
+    log('alpha', 'engagement_like')
+
+    expect((await skeleton(petFeedRkey('alpha.memepet.0.space', 'did:sim:alpha'))).feed).toEqual([{ post: mine }])
+  })
+
+  it('beef feed only includes rival/nemesis pairs', async () => {
+    const initiate = log('alpha', 'interaction_initiate', { targetPetId: 'beta' })
+    const reply = log('beta', 'reactive_reply', { inReplyToAuthorDid: 'did:sim:alpha' })
+    log('alpha', 'interaction_initiate', { targetPetId: 'gamma' })
+    log('alpha', 'reactive_reply', { inReplyToAuthorDid: 'did:plc:human' })
+
+    expect((await skeleton('memepet-beef')).feed).toEqual([{ post: initiate }, { post: reply }])
+  })
+
+  it('image feed only includes posts with images', async () => {
+    const withImage = log('alpha', 'proactive_post', { hasImage: true })
+    log('alpha', 'proactive_post', { hasImage: false })
+
+    expect((await skeleton('memepet-images')).feed).toEqual([{ post: withImage }])
+  })
+
+  it('threads feed only includes threads', async () => {
+    const thread = log('beta', 'proactive_thread')
+    log('beta', 'proactive_post')
+
+    expect((await skeleton('memepet-threads')).feed).toEqual([{ post: thread }])
+  })
+})
+
+// ---------------------------------------------------------------------------
+// Paging
+// ---------------------------------------------------------------------------
+
+describe('paging', () => {
+  it('pages through an in-memory-filtered feed without gaps or repeats', async () => {
+    const expected: string[] = []
+    for (let i = 0; i < 12; i++) {
+      expected.push(log('alpha', 'interaction_initiate', { targetPetId: 'beta' }))
+      log('alpha', 'interaction_initiate', { targetPetId: 'gamma' })
+    }
+
+    const seen: string[] = []
+    let cursor: string | null = null
+    for (let page = 0; page < 20; page++) {
+      const result = await skeleton('memepet-beef', 5, cursor)
+      seen.push(...result.feed.map(item => item.post))
+      if (!result.cursor) break
+      cursor = result.cursor
+    }
+
+    expect(seen).toEqual(expected)
+  })
+})
+
+// ---------------------------------------------------------------------------
+// Routes
+// ---------------------------------------------------------------------------
+
+describe('routes', () => {
+  it('serves per-pet feeds over XRPC', async () => {
+    const mine = log('beta', 'proactive_thread')
+    const request = new Request(
+      `http://localhost/xrpc/app.bsky.feed.getFeedSkeleton?feed=${encodeURIComponent(feedUri(petFeedRkey('beta.memepet.0.space', 'did:sim:beta')))}`
+    )
+    const body = await (await getFeedSkeletonRoute(request as never)).json()
+    expect(body.feed).toEqual([{ post: mine }])
+  })
+
+  it('serves feeds by name and 404s unknown ones', async () => {
+    const thread = log('alpha', 'proactive_thread')
+    const ok = await getFeedByName(
+      new Request('http://localhost/api/v1/feeds/memepet-threads') as never,
+      { params: Promise.resolve({ feed: 'memepet-threads' }) }
+    )
+    expect((await ok.json()).feed).toEqual([{ post: thread }])
+
+    const missing = await getFeedByName(
+      new Request('http://localhost/api/v1/feeds/nope') as never,
+      { params: Promise.resolve({ feed: 'nope' }) }
+    )
+    expect(missing.status).toBe(404)
+  })
+})
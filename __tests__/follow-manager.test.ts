@@ -0,0 +1,273 @@
+/**
+ * Follow Manager Tests
+ *
+ * Covers the follow safety checks, recording followers, and follow runs
+ * end to end against the in-memory network: follow-backs (recent
+ * followers only), engagement and relationship follows, unfollows of hostile, departed and stale
+ * accounts, hand-made follows left alone, the daily budget, and
+ * follows that stay single when a step is retried.
+ *
+ * @module follow-manager-tests
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+
+vi.hoisted(() => {
+  process.env.ENABLE_BLUESKY_AGENT = 'true'
+})
+
+import type { AppBskyActorDefs } from '@atproto/api'
+import { setServiceSupabaseOverride } from '../lib/api/service-supabase'
+import { InMemorySupabase } from '../lib/simulation/in-memory-supabase'
+import { InMemoryBlueskyNetwork } from '../lib/simulation/in-memory-bluesky'
+import { FakeWorkflowContext } from '../lib/simulation/fake-workflow-context'
+import { BlueskyAgentWorkflow } from '../lib/workflows/bluesky-agent-workflow'
+import { checkFollowSafety, recordFollowers } from '../lib/services/follow-manager'
+import { FOLLOW_CONFIG } from '../lib/config/follow.config'
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+
+const ALPHA = 'did:sim:alpha.sim.test'
+const BETA = 'did:sim:beta.sim.test'
+const DAY_MS = 24 * 60 * 60 * 1000
+
+let db: InMemorySupabase
+let network: InMemoryBlueskyNetwork
+
+/** A human account with a few posts, so it passes the safety checks */
+function human(name: string, options: { posts?: number; labels?: string[] } = {}): string {
+  const did = `did:sim:${name}.test`
+  network.registerAccount({ did, handle: `${name}.test`, isBot: false, labels: options.labels })
+  for (let i = 0; i < (options.posts ?? 3); i++) network.publish({ authorDid: did, text: `${name} post ${i}` })
+  return did
+}
+
+function seedPet(id: string, did: string) {
+  network.registerAccount({ did, handle: `${id}.sim.test`, isBot: true })
+  db.seed('pet', [{ id, name: id.toUpperCase(), meme: {} }])
+  db.seed('bluesky_bot_config', [{
+    id: `config-${id}`,
+    pet_id: id,
+    handle: `${id}.sim.test`,
+    did,
+    app_password: 'simulated',
+    is_active: true,
+    publish_mode: 'auto',
+  }])
+}
+
+function conversations(did: string, count: number, daysAgo = 1) {
+  db.seed('bluesky_post_log', Array.from({ length: count }, () => ({
+    pet_id: 'alpha',
+    activity_type: 'reactive_reply',
+    content: 'hi',
+    metadata: { inReplyToAuthorDid: did },
+    created_at: new Date(Date.now() - daysAgo * DAY_MS).toISOString(),
+  })))
+}
+
+/** A follow the manager made earlier */
+function managedFollow(did: string, reason: string) {
+  const followUri = network.follow(ALPHA, did)
+  db.seed('bluesky_follow', [{
+    pet_id: 'alpha',
+    subject_did: did,
+    subject_handle: network.account(did)?.handle,
+    follow_uri: followUri,
+    follow_reason: reason,
+    followed_at: new Date(Date.now() - 60 * DAY_MS).toISOString(),
+  }])
+  return followUri
+}
+
+function run(runId = 'run-1', context = new FakeWorkflowContext({ mode: 'follow' as const, petId: 'alpha' }, runId)) {
+  return new BlueskyAgentWorkflow(
+    context.asWorkflowContext(),
+    { createBotClient: config => network.createClient(config) }
+  ).execute()
+}
+
+function logged(activityType: string) {
+  return db.table('bluesky_post_log').filter(row => row.activity_type === activityType)
+}
+
+beforeEach(() => {
+  db = new InMemorySupabase()
+  setServiceSupabaseOverride(db as never)
+  network = new InMemoryBlueskyNetwork()
+  seedPet('alpha', ALPHA)
+})
+
+afterEach(() => {
+  setServiceSupabaseOverride(null)
+  vi.restoreAllMocks()
+})
+
+// ---------------------------------------------------------------------------
+// Safety checks
+// ---------------------------------------------------------------------------
+
+describe('checkFollowSafety', () => {
+  const profile = (overrides: Partial<AppBskyActorDefs.ProfileViewDetailed> = {}) => ({
+    did: 'did:x',
+    handle: 'x.test',
+    postsCount: 40,
+    followersCount: 100,
+    followsCount: 150,
+    ...overrides,
+  })
+
+  it('passes an ordinary account', () => {
+    expect(checkFollowSafety(profile())).toBeNull()
+  })
+
+  it('turns down labeled, empty and follow-farming accounts', () => {
+    expect(checkFollowSafety(profile({ labels: [{ src: 'did:mod', uri: 'at://x', val: 'spam', cts: '' }] }))).toBe('labeled:spam')
+    expect(checkFollowSafety(profile({ postsCount: 0 }))).toBe('too_few_posts')
+    expect(checkFollowSafety(profile({ followsCount: FOLLOW_CONFIG.SAFETY.MAX_FOLLOWS + 1, followersCount: 10_000 }))).toBe('follows_too_many')
+    expect(checkFollowSafety(profile({ followsCount: 2000, followersCount: 12 }))).toBe('follow_ratio')
+  })
+
+  it('ignores negated labels', () => {
+    expect(checkFollowSafety(profile({ labels: [{ src: 'did:mod', uri: 'at://x', val: 'spam', neg: true, cts: '' }] }))).toBeNull()
+  })
+})
+
+// ---------------------------------------------------------------------------
+// Followers
+// ---------------------------------------------------------------------------
+
+describe('recordFollowers', () => {
+  it('keeps the first time a follower was seen', async () => {
+    await recordFollowers('alpha', [{ did: 'did:x', handle: 'x.test', followedAt: '2026-03-01T00:00:00.000Z' }])
+    await recordFollowers('alpha', [{ did: 'did:x', handle: 'x.test', followedAt: '2026-03-05T00:00:00.000Z' }])
+
+    expect(db.table('bluesky_follow')).toEqual([
+      expect.objectContaining({ pet_id: 'alpha', subject_did: 'did:x', follows_pet_since: '2026-03-01T00:00:00.000Z' }),
+    ])
+  })
+})
+
+// ---------------------------------------------------------------------------
+// Follow runs
+// ---------------------------------------------------------------------------
+
+describe('follow runs', () => {
+  it('follows back safe followers, conversation partners and friends', async () => {
+    const fan = human('fan')
+    const spammer = human('spammer', { labels: ['spam'] })
+    const lurker = human('lurker', { posts: 0 })
+    const chatty = human('chatty')
+    const oneOff = human('oneoff')
+    seedPet('beta', BETA)
+    for (const did of [fan, spammer, lurker]) network.follow(did, ALPHA)
+    conversations(chatty, FOLLOW_CONFIG.ENGAGEMENT.MIN_INTERACTIONS)
+    conversations(oneOff, 1)
+    db.seed('pet_relationship', [{ pet_id_a: 'alpha', pet_id_b: 'beta', sentiment: 'crush', sentiment_score: 0.5 }])
+
+    await run()
+
+    for (const did of [fan, chatty, BETA]) expect(network.followUri(ALPHA, did)).toBeDefined()
+    for (const did of [spammer, lurker, oneOff]) expect(network.followUri(ALPHA, did)).toBeUndefined()
+
+    expect(logged('follow').map(row => [row.metadata, row.content])).toEqual(expect.arrayContaining([
+      [expect.objectContaining({ subjectDid: BETA, reason: 'relationship' }), expect.stringContaining('crush')],
+      [expect.objectContaining({ subjectDid: fan, reason: 'follow_back' }), 'Followed @fan.test (follow_back: followed the pet)'],
+      [expect.objectContaining({ subjectDid: chatty, reason: 'engagement' }), expect.stringContaining('3 conversations')],
+    ]))
+    expect(logged('follow')).toHaveLength(3)
+    expect(db.table('bluesky_follow').find(row => row.subject_did === fan)).toMatchObject({
+      follow_reason: 'follow_back',
+      follow_uri: network.followUri(ALPHA, fan),
+    })
+  })
+
+  it('does not follow back long-standing followers', async () => {
+    const oldFan = human('oldfan')
+    const newFan = human('newfan')
+    const longAgo = new Date(Date.now() - (FOLLOW_CONFIG.FOLLOW_BACK.WINDOW_DAYS + 30) * DAY_MS).toISOString()
+    network.follow(oldFan, ALPHA, undefined, longAgo)
+    network.follow(newFan, ALPHA)
+
+    await run()
+
+    expect(network.followUri(ALPHA, oldFan)).toBeUndefined()
+    expect(network.followUri(ALPHA, newFan)).toBeDefined()
+    expect(db.table('bluesky_follow').find(row => row.subject_did === oldFan)).toMatchObject({ follows_pet_since: longAgo })
+  })
+
+  it('leaves excluded and abusive accounts and rivals alone', async () => {
+    const troll = human('troll')
+    const muted = human('muted')
+    seedPet('beta', BETA)
+    network.follow(troll, ALPHA)
+    conversations(muted, 5)
+    db.seed('bluesky_abuse_event', [{ pet_id: 'alpha', author_did: troll, category: 'harassment', source: 'keyword', post_uri: 'at://t/1' }])
+    db.seed('bluesky_abuse_action', [{ pet_id: 'alpha', author_did: muted, scope: 'pet', action: 'mute', status: 'active' }])
+    db.seed('pet_relationship', [{ pet_id_a: 'alpha', pet_id_b: 'beta', sentiment: 'nemesis', sentiment_score: -0.9 }])
+
+    await run()
+
+    expect(logged('follow')).toHaveLength(0)
+  })
+
+  it('unfollows hostile, departed and stale accounts it followed, and nothing else', async () => {
+    const troll = human('troll')
+    const leaver = human('leaver')
+    const quiet = human('quiet')
+    const stillChatty = human('stillchatty')
+    const handPicked = human('handpicked')
+    managedFollow(troll, 'engagement')
+    managedFollow(leaver, 'follow_back')
+    managedFollow(quiet, 'engagement')
+    managedFollow(stillChatty, 'engagement')
+    const handPickedUri = network.follow(ALPHA, handPicked)
+    conversations(troll, 3)
+    conversations(quiet, 3, FOLLOW_CONFIG.STALE_AFTER_DAYS + 1)
+    conversations(stillChatty, 1, 2)
+    db.seed('bluesky_abuse_event', [{ pet_id: 'alpha', author_did: troll, category: 'harassment', source: 'safety', post_uri: 'at://t/1' }])
+
+    await run()
+
+    expect(logged('unfollow').map(row => (row.metadata as Record<string, unknown>).reason)).toEqual(['hostile', 'unfollowed_pet', 'stale'])
+    for (const did of [troll, leaver, quiet]) expect(network.followUri(ALPHA, did)).toBeUndefined()
+    expect(network.followUri(ALPHA, stillChatty)).toBeDefined()
+    expect(network.followUri(ALPHA, handPicked)).toBe(handPickedUri)
+    expect(db.table('bluesky_follow').find(row => row.subject_did === leaver)).toMatchObject({ follow_uri: null, follow_reason: null })
+  })
+
+  it('stops at the daily follow budget', async () => {
+    const fans = [human('fan1'), human('fan2')]
+    for (const did of fans) network.follow(did, ALPHA)
+    db.seed('bluesky_post_log', Array.from({ length: FOLLOW_CONFIG.MAX_FOLLOWS_PER_DAY - 1 }, (_, i) => ({
+      pet_id: 'alpha',
+      activity_type: 'follow',
+      content: `Followed someone ${i}`,
+      created_at: new Date(Date.now() - 60 * 60 * 1000).toISOString(),
+    })))
+
+    await run()
+
+    expect(fans.filter(did => network.followUri(ALPHA, did))).toHaveLength(1)
+    expect(logged('follow')).toHaveLength(FOLLOW_CONFIG.MAX_FOLLOWS_PER_DAY)
+  })
+
+  it('follows once when a follow step is retried', async () => {
+    const fan = human('fan')
+    network.follow(fan, ALPHA)
+
+    /** Runs the first follow step twice, as Upstash does after a timeout */
+    class RetryingContext extends FakeWorkflowContext<{ mode: 'follow'; petId: string }> {
+      async run<R>(stepName: string, fn: () => Promise<R> | R): Promise<R> {
+        if (stepName === 'follow-change-0') await fn()
+        return super.run(stepName, fn)
+      }
+    }
+    await run('run-1', new RetryingContext({ mode: 'follow', petId: 'alpha' }, 'run-1'))
+
+    expect(network.followersOf(fan)).toEqual([ALPHA])
+    expect(logged('follow').map(row => (row.metadata as Record<string, unknown>).followUri)).toEqual([network.followUri(ALPHA, fan)])
+  })
+})
@@ -0,0 +1,247 @@
+/**
+ * Jetstream Ingestion Tests
+ *
+ * Replays a recorded Jetstream capture (fixtures/jetstream-events.jsonl)
+ * through the matcher and ingestion loop. Covers reply/quote/mention
+ * detection, self-post suppression, dedup, cursor persistence, and
+ * re-dispatching a post whose run already exists.
+ *
+ * @module jetstream-ingestion-tests
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+import path from 'path'
+import { readFileSync } from 'node:fs'
+import { RecordedJetstreamSource, type JetstreamEvent } from '../lib/ingestion/jetstream-source'
+import { InMemoryCursorStore } from '../lib/ingestion/jetstream-cursor'
+import { matchPostEvent, didFromAtUri, type InboundPostMatch } from '../lib/ingestion/post-event-matcher'
+import {
+  runJetstreamIngestion,
+  buildReactiveRunId,
+  dispatchReactiveWorkflow,
+  type IngestionDeps,
+} from '../lib/ingestion/jetstream-ingestor'
+
+const { triggerWorkflow } = vi.hoisted(() => ({ triggerWorkflow: vi.fn() }))
+vi.mock('../lib/workflows/workflow-client', () => ({ triggerWorkflow }))
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+
+const FIXTURE_PATH = path.resolve(__dirname, 'fixtures/jetstream-events.jsonl')
+
+const ALPHA_DID = 'did:plc:petalpha'
+const BETA_DID = 'did:plc:petbeta'
+
+const BOT_DIDS = new Map([
+  [ALPHA_DID, 'pet-alpha'],
+  [BETA_DID, 'pet-beta'],
+])
+
+function loadEvents(): JetstreamEvent[] {
+  return readFileSync(FIXTURE_PATH, 'utf-8')
+    .split('\n')
+    .filter(Boolean)
+    .map(line => JSON.parse(line) as JetstreamEvent)
+}
+
+function makeDeps(overrides: Partial<IngestionDeps> = {}): IngestionDeps & {
+  dispatched: Array<{ match: InboundPostMatch; handle: string }>
+} {
+  const dispatched: Array<{ match: InboundPostMatch; handle: string }> = []
+  return {
+    source: RecordedJetstreamSource.fromFile(FIXTURE_PATH),
+    cursorStore: new InMemoryCursorStore(),
+    loadBotDids: async () => new Map(BOT_DIDS),
+    isProcessed: async () => false,
+    resolveHandle: async (did: string) => `${did.split(':').pop()}.test`,
+    dispatch: async (match, handle) => {
+      dispatched.push({ match, handle })
+      return `run-${dispatched.length}`
+    },
+    dispatched,
+    ...overrides,
+  }
+}
+
+// ---------------------------------------------------------------------------
+// 1. matchPostEvent
+// ---------------------------------------------------------------------------
+
+describe('matchPostEvent', () => {
+  const events = loadEvents()
+  const byTime = (t: number) => events.find(e => e.time_us === t) as JetstreamEvent
+
+  it('matches a human reply to a pet post', () => {
+    const matches = matchPostEvent(byTime(1000), BOT_DIDS)
+    expect(matches).toHaveLength(1)
+    expect(matches[0]).toMatchObject({
+      petId: 'pet-alpha',
+      reason: 'reply',
+      uri: 'at://did:plc:human1/app.bsky.feed.post/h1',
+      cid: 'cid-h1',
+      authorDid: 'did:plc:human1',
+      rootUri: 'at://did:plc:petalpha/app.bsky.feed.post/alpha1',
+      rootCid: 'cid-alpha1',
+    })
+  })
+
+  it('matches a quote of a pet post', () => {
+    const matches = matchPostEvent(byTime(2000), BOT_DIDS)
+    expect(matches).toHaveLength(1)
+    expect(matches[0].petId).toBe('pet-beta')
+    expect(matches[0].reason).toBe('quote')
+  })
+
+  it('matches a mention inside a reply chain that is not a direct reply to the pet', () => {
+    const matches = matchPostEvent(byTime(3000), BOT_DIDS)
+    expect(matches).toHaveLength(1)
+    expect(matches[0].petId).toBe('pet-alpha')
+    expect(matches[0].reason).toBe('mention')
+  })
+
+  it('ignores a pet replying to its own post', () => {
+    expect(matchPostEvent(byTime(4000), BOT_DIDS)).toEqual([])
+  })
+
+  it('ignores unrelated posts, deletes, and other collections', () => {
+    expect(matchPostEvent(byTime(5000), BOT_DIDS)).toEqual([])
+    expect(matchPostEvent(byTime(6000), BOT_DIDS)).toEqual([])
+    expect(matchPostEvent(byTime(7000), BOT_DIDS)).toEqual([])
+  })
+
+  it('matches bot-to-bot replies for the addressed pet', () => {
+    const matches = matchPostEvent(byTime(8000), BOT_DIDS)
+    expect(matches).toHaveLength(1)
+    expect(matches[0].petId).toBe('pet-alpha')
+    expect(matches[0].authorDid).toBe(BETA_DID)
+  })
+
+  it('yields one match per pet when several pets are mentioned', () => {
+    const matches = matchPostEvent(byTime(9000), BOT_DIDS)
+    expect(matches.map(m => m.petId).sort()).toEqual(['pet-alpha', 'pet-beta'])
+    expect(matches.every(m => m.reason === 'mention')).toBe(true)
+  })
+
+  it('prefers reply over mention when both address the same pet', () => {
+    const event: JetstreamEvent = {
+      ...byTime(1000),
+      commit: {
+        ...byTime(1000).commit!,
+        record: {
+          ...byTime(1000).commit!.record,
+          facets: [{ features: [{ $type: 'app.bsky.richtext.facet#mention', did: ALPHA_DID }] }],
+        },
+      },
+    }
+    const matches = matchPostEvent(event, BOT_DIDS)
+    expect(matches).toHaveLength(1)
+    expect(matches[0].reason).toBe('reply')
+  })
+})
+
+describe('didFromAtUri', () => {
+  it('extracts the repo DID', () => {
+    expect(didFromAtUri('at://did:plc:abc/app.bsky.feed.post/123')).toBe('did:plc:abc')
+  })
+
+  it('returns null for non-AT URIs', () => {
+    expect(didFromAtUri('https://bsky.app')).toBeNull()
+    expect(didFromAtUri(undefined)).toBeNull()
+  })
+})
+
+// ---------------------------------------------------------------------------
+// 2. runJetstreamIngestion
+// ---------------------------------------------------------------------------
+
+describe('runJetstreamIngestion', () => {
+  it('dispatches every match once and persists the last cursor', async () => {
+    const deps = makeDeps()
+    const result = await runJetstreamIngestion(deps, { durationMs: 5_000, cursorRewindUs: 0 })
+
+    expect(result.eventsSeen).toBe(10)
+    // reply(1000) + quote(2000) + mention(3000) + bot reply(8000) + 2 mentions(9000)
+    expect(deps.dispatched).toHaveLength(6)
+    // The replayed event at 10000 repeats 1000's URI
+    expect(result.duplicates).toBe(1)
+    expect(result.endCursor).toBe(10000)
+    expect(await deps.cursorStore.load()).toBe(10000)
+    expect(result.errors).toEqual([])
+  })
+
+  it('passes the resolved author handle to dispatch', async () => {
+    const deps = makeDeps()
+    await runJetstreamIngestion(deps, { durationMs: 5_000 })
+    expect(deps.dispatched[0].handle).toBe('human1.test')
+  })
+
+  it('resumes from the stored cursor minus the rewind window', async () => {
+    const deps = makeDeps({ cursorStore: new InMemoryCursorStore(8500) })
+    const result = await runJetstreamIngestion(deps, { durationMs: 5_000, cursorRewindUs: 500 })
+
+    expect(result.startCursor).toBe(8000)
+    expect(result.eventsSeen).toBe(3)
+    expect(deps.dispatched.map(d => d.match.timeUs)).toEqual([8000, 9000, 9000, 10000])
+  })
+
+  it('skips matches the pet already handled', async () => {
+    const deps = makeDeps({
+      isProcessed: async (_petId, uri) => uri.endsWith('/h1'),
+    })
+    await runJetstreamIngestion(deps, { durationMs: 5_000 })
+    expect(deps.dispatched.some(d => d.match.uri.endsWith('/h1'))).toBe(false)
+  })
+
+  it('stops advancing the cursor after a failed dispatch', async () => {
+    const deps = makeDeps({
+      dispatch: vi.fn(async (match: InboundPostMatch) => {
+        if (match.timeUs === 3000) throw new Error('qstash down')
+        return 'ok'
+      }),
+    })
+    const result = await runJetstreamIngestion(deps, { durationMs: 5_000 })
+
+    expect(result.errors).toHaveLength(1)
+    expect(result.errors[0]).toContain('qstash down')
+    expect(result.endCursor).toBe(2000)
+  })
+
+  it('does nothing when no bots are active', async () => {
+    const deps = makeDeps({ loadBotDids: async () => new Map() })
+    const result = await runJetstreamIngestion(deps, { durationMs: 5_000 })
+    expect(result.eventsSeen).toBe(0)
+    expect(deps.dispatched).toEqual([])
+  })
+})
+
+describe('buildReactiveRunId', () => {
+  it('is deterministic per pet + post', () => {
+    const uri = 'at://did:plc:human1/app.bsky.feed.post/h1'
+    expect(buildReactiveRunId('pet-alpha', uri)).toBe(buildReactiveRunId('pet-alpha', uri))
+    expect(buildReactiveRunId('pet-alpha', uri)).not.toBe(buildReactiveRunId('pet-beta', uri))
+  })
+})
+
+describe('dispatchReactiveWorkflow', () => {
+  const match: InboundPostMatch = {
+    petId: 'pet-alpha',
+    reason: 'reply',
+    uri: 'at://did:plc:human1/app.bsky.feed.post/h1',
+    cid: 'cid-h1',
+    authorDid: 'did:plc:human1',
+    text: 'hi alpha',
+    timeUs: 1,
+  }
+
+  it('counts a run that already exists as dispatched', async () => {
+    triggerWorkflow.mockRejectedValueOnce(new Error('Workflow run already exists'))
+    expect(await dispatchReactiveWorkflow(match, 'human1.test')).toBe(buildReactiveRunId('pet-alpha', match.uri))
+  })
+
+  it('rethrows other trigger failures', async () => {
+    triggerWorkflow.mockRejectedValueOnce(new Error('QStash unavailable'))
+    await expect(dispatchReactiveWorkflow(match, 'human1.test')).rejects.toThrow('QStash unavailable')
+  })
+})
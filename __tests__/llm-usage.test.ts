@@ -0,0 +1,207 @@
+/**
+ * LLM Usage & Budget Tests
+ *
+ * Covers cost estimates, recording model calls with the pet and mode of
+ * the surrounding scope, summing today's spend into budget levels, the
+ * order extras are shed in, and workflow runs and the rhythm engine
+ * backing off when the budget runs low.
+ *
+ * @module llm-usage-tests
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+
+vi.hoisted(() => {
+  process.env.ENABLE_BLUESKY_AGENT = 'true'
+})
+
+import { generateObject } from 'ai'
+import { z } from 'zod'
+import { setServiceSupabaseOverride } from '../lib/api/service-supabase'
+import { InMemorySupabase } from '../lib/simulation/in-memory-supabase'
+import { InMemoryBlueskyNetwork } from '../lib/simulation/in-memory-bluesky'
+import { FakeWorkflowContext } from '../lib/simulation/fake-workflow-context'
+import { ScriptedLLM } from '../lib/simulation/scripted-llm'
+import { BlueskyAgentWorkflow, type BlueskyAgentWorkflowRequest } from '../lib/workflows/bluesky-agent-workflow'
+import { withModelFailover } from '../lib/services/model-registry'
+import { evaluatePostingDecision, emptyScheduleState } from '../lib/agent/posting-rhythm'
+import { buildPersonalityFromRow } from '../lib/agent/pet-personality-builder'
+import { BUDGET_CONFIG } from '../lib/config/budget.config'
+import {
+  budgetAllows,
+  budgetStatus,
+  estimateCost,
+  loadBudgetStatuses,
+  withUsageScope,
+} from '../lib/services/llm-usage'
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+
+const NOW = new Date('2026-03-10T15:00:00Z')
+const PET_BUDGET = BUDGET_CONFIG.PET_DAILY_USD
+
+let db: InMemorySupabase
+let llm: ScriptedLLM
+
+function spend(petId: string | null, costUsd: number, createdAt = NOW.toISOString()) {
+  db.seed('llm_usage', [{ pet_id: petId, mode: 'proactive', task: 'post', provider: 'openai', model: 'gpt-4o-mini', cost_usd: costUsd, created_at: createdAt }])
+}
+
+beforeEach(() => {
+  db = new InMemorySupabase()
+  setServiceSupabaseOverride(db as never)
+  llm = new ScriptedLLM()
+  llm.install()
+})
+
+afterEach(() => {
+  llm.uninstall()
+  setServiceSupabaseOverride(null)
+})
+
+// ---------------------------------------------------------------------------
+// Costs & recording
+// ---------------------------------------------------------------------------
+
+describe('estimateCost', () => {
+  it('prices tokens and images from the pricing table', () => {
+    expect(estimateCost({ provider: 'openai', modelId: 'gpt-4o-mini' }, 1_000_000, 1_000_000)).toBeCloseTo(0.75, 6)
+    expect(estimateCost({ provider: 'google', modelId: 'gemini-2.0-flash-exp-image-generation' }, 1000, 0, 1)).toBeCloseTo(0.0391, 6)
+  })
+
+  it('costs unknown models high and mock models nothing', () => {
+    expect(estimateCost({ provider: 'openai', modelId: 'gpt-next' }, 1_000_000, 0)).toBe(2.5)
+    expect(estimateCost({ provider: 'mock', modelId: 'mock-post' }, 1_000_000, 1_000_000)).toBe(0)
+  })
+})
+
+describe('recording model calls', () => {
+  it('bills calls to the pet and mode of the surrounding scope', async () => {
+    const schema = z.object({ text: z.string() })
+    await withUsageScope({ petId: 'alpha', mode: 'reactive' }, () =>
+      withModelFailover('reply', undefined, model => generateObject({ model, schema, prompt: 'say hi' }))
+    )
+    await withModelFailover('reflection', undefined, model => generateObject({ model, schema, prompt: 'think' }))
+
+    const rows = db.table('llm_usage')
+    expect(rows).toEqual([
+      expect.objectContaining({ pet_id: 'alpha', mode: 'reactive', task: 'reply', provider: 'mock', model: 'mock-reply', cost_usd: 0 }),
+      expect.objectContaining({ pet_id: null, mode: null, task: 'reflection' }),
+    ])
+    expect(rows[0].input_tokens).toBeGreaterThan(0)
+    expect(rows[0].output_tokens).toBeGreaterThan(0)
+    expect(typeof rows[0].latency_ms).toBe('number')
+  })
+})
+
+// ---------------------------------------------------------------------------
+// Budgets
+// ---------------------------------------------------------------------------
+
+describe('budget levels', () => {
+  it('sheds images, then threads, then engagement, then everything', () => {
+    const levelAt = (share: number) => budgetStatus(PET_BUDGET * share, 0).level
+    expect([0.5, 0.75, 0.9, 0.97, 1].map(levelAt)).toEqual(['full', 'no_images', 'no_threads', 'no_engagement', 'exhausted'])
+
+    expect(budgetAllows('no_images', 'images')).toBe(false)
+    expect(budgetAllows('no_images', 'threads')).toBe(true)
+    expect(budgetAllows('no_threads', 'engagement')).toBe(true)
+    expect(budgetAllows('no_engagement', 'engagement')).toBe(false)
+    expect(budgetAllows(undefined, 'images')).toBe(true)
+  })
+
+  it("sums today's spend per pet and across all pets", async () => {
+    spend('alpha', PET_BUDGET * 0.8)
+    spend('alpha', PET_BUDGET, '2026-03-09T23:59:00Z') // yesterday
+    spend('beta', 0.01)
+    // Spend outside any pet still counts globally, over several pages
+    db.seed('llm_usage', Array.from({ length: BUDGET_CONFIG.SUM_PAGE_SIZE + 5 }, () => ({
+      pet_id: null, cost_usd: String(BUDGET_CONFIG.GLOBAL_DAILY_USD / 1000), created_at: NOW.toISOString(),
+    })))
+
+    const budgets = await loadBudgetStatuses(['alpha', 'beta', 'gamma'], NOW)
+
+    expect(budgets.get('alpha')).toMatchObject({ level: 'exhausted', petSpentUsd: PET_BUDGET * 0.8 })
+    expect(budgets.get('beta')!.level).toBe('exhausted')
+    expect(budgets.get('gamma')!.globalSpentUsd).toBeGreaterThan(BUDGET_CONFIG.GLOBAL_DAILY_USD)
+  })
+
+  it('stops proactive posts once the budget is spent', () => {
+    const decide = (budgetLevel: 'no_engagement' | 'exhausted') => evaluatePostingDecision({
+      now: new Date('2026-03-10T18:00:00Z'),
+      state: { ...emptyScheduleState(), postsToday: 100, postCountDate: '2026-03-10', moodDate: '2026-03-10' },
+      frequency: 'high',
+      chronotype: 'normal',
+      personality: buildPersonalityFromRow({ personality_type: null, psyche: null, meme: null }),
+      utcOffsetHours: 0,
+      budgetLevel,
+    })
+    expect(decide('exhausted').reason).toBe('LLM budget exhausted')
+    expect(decide('no_engagement').reason).toMatch(/daily cap/)
+  })
+})
+
+// ---------------------------------------------------------------------------
+// Workflow
+// ---------------------------------------------------------------------------
+
+describe('workflow budget checks', () => {
+  let network: InMemoryBlueskyNetwork
+
+  const run = (request: BlueskyAgentWorkflowRequest) => new BlueskyAgentWorkflow(
+    new FakeWorkflowContext(request, 'test-run').asWorkflowContext(),
+    { createBotClient: config => network.createClient(config) }
+  ).execute()
+
+  function activity(type: string) {
+    return db.table('bluesky_post_log').filter(row => row.activity_type === type)
+  }
+
+  beforeEach(() => {
+    network = new InMemoryBlueskyNetwork()
+    network.registerAccount({ did: 'did:sim:alpha.sim.test', handle: 'alpha.sim.test', isBot: true })
+    db.seed('pet', [{ id: 'alpha', name: 'ALPHA', meme: {} }])
+    db.seed('bluesky_bot_config', [{
+      id: 'config-alpha',
+      pet_id: 'alpha',
+      handle: 'alpha.sim.test',
+      did: 'did:sim:alpha.sim.test',
+      app_password: 'simulated',
+      is_active: true,
+      publish_mode: 'auto',
+    }])
+  })
+
+  it('skips a run without calling a model when the budget is spent', async () => {
+    spend('alpha', PET_BUDGET, new Date().toISOString())
+
+    await run({ mode: 'proactive', petId: 'alpha' })
+
+    expect(llm.calls).toEqual([])
+    expect(activity('proactive_post_skipped')).toEqual([
+      expect.objectContaining({ metadata: expect.objectContaining({ reason: 'budget_exhausted' }) }),
+    ])
+  })
+
+  it('drops engagement when the budget is nearly spent', async () => {
+    spend('alpha', PET_BUDGET * 0.96, new Date().toISOString())
+
+    await run({ mode: 'engagement', petId: 'alpha' })
+
+    expect(llm.calls).toEqual([])
+    expect(activity('engagement_skipped')).toEqual([
+      expect.objectContaining({ metadata: { reason: 'budget_low', budgetLevel: 'no_engagement' } }),
+    ])
+  })
+
+  it('bills the calls of a run to the pet and mode', async () => {
+    await run({ mode: 'proactive', petId: 'alpha' })
+
+    const rows = db.table('llm_usage')
+    expect(rows.length).toBeGreaterThan(0)
+    expect(rows.every(row => row.pet_id === 'alpha' && row.mode === 'proactive')).toBe(true)
+    expect(activity('proactive_post').length + activity('proactive_thread').length).toBe(1)
+  })
+})
@@ -0,0 +1,181 @@
+/**
+ * Matchmaking Tests
+ *
+ * Covers pair scoring signals (storylines, cooldown, topics, social
+ * drive, fresh posts), non-overlapping multi-pair selection, and
+ * loading candidates from the in-memory database.
+ *
+ * @module matchmaking-tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { setServiceSupabaseOverride } from '../lib/api/service-supabase'
+import { InMemorySupabase } from '../lib/simulation/in-memory-supabase'
+import { buildPersonalityFromRow } from '../lib/agent/pet-personality-builder'
+import type { RelationshipData } from '../lib/agent/memory/relationship-memory-service'
+import {
+  explainPair,
+  planInteractions,
+  scorePair,
+  selectInteractionPairs,
+  type MatchCandidate,
+} from '../lib/agent/matchmaking'
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+
+const NOW = new Date('2026-03-01T12:00:00Z')
+const HOUR = 60 * 60 * 1000
+
+function meme(options: { topics?: string[]; chaos?: number; friendliness?: number } = {}) {
+  return {
+    memePersonality: {
+      topicsOfInterest: options.topics ?? [],
+      interactionPreferences: { friendliness: options.friendliness ?? 50, sassiness: 50, chaosLevel: options.chaos ?? 50 },
+    },
+  }
+}
+
+function candidate(petId: string, options: Parameters<typeof meme>[0] & { lastOwnPostAt?: string } = {}): MatchCandidate {
+  return {
+    petId,
+    personality: buildPersonalityFromRow({ personality_type: null, psyche: null, meme: meme(options) }),
+    lastOwnPostAt: options.lastOwnPostAt ?? null,
+  }
+}
+
+function relationship(a: string, b: string, data: Partial<RelationshipData>): RelationshipData {
+  return {
+    petIdA: a < b ? a : b,
+    petIdB: a < b ? b : a,
+    sentiment: 'acquaintance',
+    sentimentScore: 0,
+    interactionCount: 1,
+    lastInteractionAt: new Date(NOW.getTime() - 24 * HOUR).toISOString(),
+    ...data,
+  }
+}
+
+const score = (...args: Parameters<typeof scorePair>) => scorePair(...args)?.score ?? 0
+
+// ---------------------------------------------------------------------------
+// Scoring
+// ---------------------------------------------------------------------------
+
+describe('scorePair', () => {
+  const alpha = candidate('alpha')
+  const beta = candidate('beta')
+
+  it('favors unresolved beef and growing crushes over lukewarm pairs', () => {
+    const lukewarm = score(alpha, beta, relationship('alpha', 'beta', {}), NOW)
+    const beef = score(alpha, beta, relationship('alpha', 'beta', { sentiment: 'nemesis', sentimentScore: -0.9 }), NOW)
+    const crush = score(alpha, beta, relationship('alpha', 'beta', { sentiment: 'crush', lastInteractionType: 'flirt' }), NOW)
+
+    expect(beef).toBeGreaterThan(lukewarm)
+    expect(crush).toBeGreaterThan(lukewarm)
+  })
+
+  it('revives dormant friendships but not fresh ones', () => {
+    const fresh = scorePair(alpha, beta, relationship('alpha', 'beta', { sentiment: 'friend' }), NOW)!
+    const dormant = scorePair(alpha, beta, relationship('alpha', 'beta', {
+      sentiment: 'friend',
+      lastInteractionAt: new Date(NOW.getTime() - 5 * 24 * HOUR).toISOString(),
+    }), NOW)!
+
+    expect(dormant.score).toBeGreaterThan(fresh.score)
+    expect(dormant.reasons.some(r => r.startsWith('dormant friendship'))).toBe(true)
+  })
+
+  it('skips pairs inside the interaction cooldown', () => {
+    const justTalked = relationship('alpha', 'beta', { lastInteractionAt: new Date(NOW.getTime() - 10 * 60 * 1000).toISOString() })
+    expect(scorePair(alpha, beta, justTalked, NOW)).toBeNull()
+  })
+
+  it('rewards topic overlap, dramatic initiators and fresh target posts', () => {
+    const base = score(alpha, beta, null, NOW)
+
+    expect(score(candidate('alpha', { topics: ['memes', 'food'] }), candidate('beta', { topics: ['Memes'] }), null, NOW))
+      .toBeGreaterThan(base)
+    expect(score(candidate('alpha', { chaos: 100 }), beta, null, NOW)).toBeGreaterThan(base)
+    expect(score(alpha, candidate('beta', { lastOwnPostAt: new Date(NOW.getTime() - HOUR).toISOString() }), null, NOW))
+      .toBeGreaterThan(base)
+  })
+})
+
+// ---------------------------------------------------------------------------
+// Selection
+// ---------------------------------------------------------------------------
+
+describe('selectInteractionPairs', () => {
+  it('schedules several pairs with no pet in two of them', () => {
+    const pets = ['a', 'b', 'c', 'd', 'e', 'f'].map(id => candidate(id))
+    const pairs = selectInteractionPairs(pets, [], { now: NOW, maxPairs: 3, random: () => 0.5 })
+
+    expect(pairs).toHaveLength(3)
+    const involved = pairs.flatMap(p => [p.initiatorPetId, p.targetPetId])
+    expect(new Set(involved).size).toBe(6)
+  })
+
+  it('picks the heavily weighted pair when the roll lands on it', () => {
+    const pets = ['alpha', 'beta', 'gamma'].map(id => candidate(id))
+    const rels = [
+      relationship('alpha', 'beta', { sentiment: 'nemesis', sentimentScore: -1 }),
+      relationship('alpha', 'gamma', {}),
+      relationship('beta', 'gamma', {}),
+    ]
+    const [pair] = selectInteractionPairs(pets, rels, { now: NOW, maxPairs: 1, random: () => 0 })
+
+    expect([pair.initiatorPetId, pair.targetPetId].sort()).toEqual(['alpha', 'beta'])
+    expect(explainPair(pair)).toContain('unresolved beef (nemesis, -1.00)')
+  })
+})
+
+// ---------------------------------------------------------------------------
+// Loading
+// ---------------------------------------------------------------------------
+
+describe('planInteractions', () => {
+  let db: InMemorySupabase
+
+  beforeEach(() => {
+    db = new InMemorySupabase()
+    setServiceSupabaseOverride(db as never)
+  })
+
+  afterEach(() => {
+    setServiceSupabaseOverride(null)
+  })
+
+  it('explains picks using stored relationships and recent posts', async () => {
+    db.seed('pet', [
+      { id: 'alpha', meme: meme({ topics: ['snacks'] }) },
+      { id: 'beta', meme: meme({ topics: ['snacks'] }) },
+    ])
+    db.seed('pet_relationship', [{
+      pet_id_a: 'alpha',
+      pet_id_b: 'beta',
+      sentiment: 'rival',
+      sentiment_score: -0.7,
+      interaction_count: 3,
+      last_interaction_at: new Date(NOW.getTime() - 30 * HOUR).toISOString(),
+    }])
+    db.seed('bluesky_post_log', [
+      { pet_id: 'beta', activity_type: 'proactive_post', created_at: new Date(NOW.getTime() - 2 * HOUR).toISOString() },
+      { pet_id: 'alpha', activity_type: 'proactive_post', created_at: new Date(NOW.getTime() - 2 * HOUR).toISOString() },
+    ])
+
+    const [pair] = await planInteractions(['alpha', 'beta'], { now: NOW })
+
+    expect(pair.reasons).toEqual(expect.arrayContaining([
+      'last interacted 30h ago',
+      'unresolved beef (rival, -0.70)',
+      'shared topics: snacks',
+      'target posted 2h ago',
+    ]))
+  })
+
+  it('returns nothing with fewer than two pets', async () => {
+    expect(await planInteractions(['alpha'])).toEqual([])
+  })
+})
@@ -0,0 +1,197 @@
+/**
+ * Memory Merge & Concurrency Tests
+ *
+ * Covers the per-field merge functions and saveBotMemory's revision
+ * check: overlapping runs that load the same revision both keep their
+ * updates, scalar changes survive the merge, `onConflict: 'reject'`
+ * surfaces the race instead, and a failed read never passes for an
+ * empty row.
+ *
+ * @module memory-merge-tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { setServiceSupabaseOverride } from '../lib/api/service-supabase'
+import { InMemorySupabase } from '../lib/simulation/in-memory-supabase'
+import {
+  BotMemoryConflictError,
+  appendPostToMemory,
+  loadBotMemory,
+  saveBotMemory,
+} from '../lib/agent/memory/bot-memory-service'
+import {
+  mergeBotMemory,
+  mergeMoodState,
+  mergeReflections,
+  mergeRunningThemes,
+  mergeTopicCooldowns,
+} from '../lib/agent/memory/memory-merge'
+import type { BotMemory, RecentPostDigest, ReflectionInsight, RunningTheme } from '../lib/agent/types/bot-memory'
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+
+function digest(gist: string, postedAt: string): RecentPostDigest {
+  return { postedAt, gist, mood: 'smug', topic: gist.split(' ')[0], intentType: 'shitpost' }
+}
+
+function reflection(insight: string, createdAt: string): ReflectionInsight {
+  return { insight, category: 'self', confidence: 0.8, createdAt, basedOnPosts: 3 }
+}
+
+function theme(description: string, overrides: Partial<RunningTheme> = {}): RunningTheme {
+  return { description, startedAt: '2026-02-20T00:00:00Z', mentionCount: 2, status: 'active', ...overrides }
+}
+
+const mood = (lastUpdated: string, currentEmotion: string) =>
+  ({ pleasure: 0, arousal: 0, dominance: 0, currentEmotion, lastUpdated })
+
+let db: InMemorySupabase
+
+beforeEach(() => {
+  db = new InMemorySupabase()
+  setServiceSupabaseOverride(db as never)
+})
+
+afterEach(() => {
+  setServiceSupabaseOverride(null)
+})
+
+// ---------------------------------------------------------------------------
+// Field merges
+// ---------------------------------------------------------------------------
+
+describe('field merges', () => {
+  it('keeps the latest cooldown per topic', () => {
+    expect(mergeTopicCooldowns(
+      { naps: '2026-03-01T10:00:00Z', snacks: '2026-03-01T08:00:00Z' },
+      { naps: '2026-03-01T09:00:00Z', snacks: '2026-03-01T11:00:00Z', zoomies: '2026-03-01T07:00:00Z' },
+    )).toEqual({
+      naps: '2026-03-01T10:00:00Z',
+      snacks: '2026-03-01T11:00:00Z',
+      zoomies: '2026-03-01T07:00:00Z',
+    })
+  })
+
+  it('keeps a cooldown one side cleared and the latest one both set', () => {
+    const base = { naps: '2026-03-01T08:00:00Z', snacks: '2026-03-01T08:00:00Z' }
+    expect(mergeTopicCooldowns(
+      { snacks: '2026-03-01T08:00:00Z' },
+      { naps: '2026-03-01T09:00:00Z', snacks: '2026-03-01T08:00:00Z', zoomies: '2026-03-01T07:00:00Z' },
+      base,
+    )).toEqual({ naps: '2026-03-01T09:00:00Z', snacks: '2026-03-01T08:00:00Z', zoomies: '2026-03-01T07:00:00Z' })
+
+    expect(mergeTopicCooldowns({ snacks: '2026-03-01T08:00:00Z' }, base, base)).toEqual({ snacks: '2026-03-01T08:00:00Z' })
+  })
+
+  it('keeps theme removals and status changes made by either side', () => {
+    const base = [theme('vacuum feud'), theme('pirate era'), theme('sock heist')]
+    const ours = [
+      theme('vacuum feud', { status: 'retired', statusChangedAt: '2026-03-01T10:00:00Z' }),
+      theme('pirate era'),
+    ]
+    const theirs = [
+      theme('vacuum feud', { mentionCount: 3, lastMentionedAt: '2026-03-01T09:00:00Z' }),
+      theme('pirate era'),
+      theme('sock heist'),
+      theme('new bit', { mentionCount: 1 }),
+    ]
+
+    expect(mergeRunningThemes(ours, theirs, base)).toEqual([
+      theme('vacuum feud', {
+        status: 'retired',
+        statusChangedAt: '2026-03-01T10:00:00Z',
+        mentionCount: 3,
+        lastMentionedAt: '2026-03-01T09:00:00Z',
+      }),
+      theme('pirate era'),
+      theme('new bit', { mentionCount: 1 }),
+    ])
+  })
+
+  it('unions reflections newest first without duplicates', () => {
+    const shared = reflection('I peak at night', '2026-03-01T01:00:00Z')
+    const merged = mergeReflections(
+      [reflection('rivals drive engagement', '2026-03-01T03:00:00Z'), shared],
+      [shared, reflection('nobody likes my puns', '2026-03-01T02:00:00Z')],
+    )
+    expect(merged?.map(r => r.insight)).toEqual(['rivals drive engagement', 'nobody likes my puns', 'I peak at night'])
+  })
+
+  it('takes the most recently updated mood', () => {
+    const older = mood('2026-03-01T10:00:00Z', 'bored')
+    const newer = mood('2026-03-01T11:00:00Z', 'giddy')
+    expect(mergeMoodState(older, newer)).toBe(newer)
+    expect(mergeMoodState(undefined, older)).toBe(older)
+  })
+})
+
+// ---------------------------------------------------------------------------
+// Whole memory
+// ---------------------------------------------------------------------------
+
+describe('mergeBotMemory', () => {
+  it('keeps scalar changes from whichever side made them', async () => {
+    const base = await loadBotMemory('alpha')
+    const ours: BotMemory = { ...base, narrativeArc: 'became a pirate' }
+    const theirs: BotMemory = { ...base, currentMood: 'furious' }
+
+    const merged = mergeBotMemory(ours, theirs, base)
+    expect(merged).toMatchObject({ narrativeArc: 'became a pirate', currentMood: 'furious' })
+  })
+})
+
+// ---------------------------------------------------------------------------
+// saveBotMemory revisions
+// ---------------------------------------------------------------------------
+
+describe('saveBotMemory concurrency', () => {
+  it('merges overlapping runs instead of dropping the first write', async () => {
+    const seeded = await saveBotMemory('alpha', await loadBotMemory('alpha'))
+    expect(seeded.revision).toBe(1)
+
+    // Both runs start from revision 1
+    const proactive = await loadBotMemory('alpha')
+    const reactive = await loadBotMemory('alpha')
+
+    await saveBotMemory('alpha', {
+      ...appendPostToMemory(proactive, digest('naps are a sport', '2026-03-01T10:00:00Z')),
+      moodState: mood('2026-03-01T10:00:00Z', 'smug'),
+    }, { base: proactive })
+    const saved = await saveBotMemory(
+      'alpha',
+      appendPostToMemory(reactive, digest('self-reply: and I am the champion', '2026-03-01T10:05:00Z')),
+      { base: reactive },
+    )
+
+    expect(saved.revision).toBe(3)
+    const stored = await loadBotMemory('alpha')
+    expect(stored.recentPosts.map(p => p.gist)).toEqual(['self-reply: and I am the champion', 'naps are a sport'])
+    expect(stored.moodState?.currentEmotion).toBe('smug')
+    expect(Object.keys(stored.topicCooldowns).sort()).toEqual(['naps', 'self-reply:'])
+    expect(db.table('bot_memory')).toHaveLength(1)
+  })
+
+  it('rejects a stale write when asked to', async () => {
+    await saveBotMemory('alpha', await loadBotMemory('alpha'))
+    const stale = await loadBotMemory('alpha')
+    await saveBotMemory('alpha', { ...stale, narrativeArc: 'first' }, { base: stale })
+
+    await expect(saveBotMemory('alpha', { ...stale, narrativeArc: 'second' }, { base: stale, onConflict: 'reject' }))
+      .rejects.toMatchObject({ name: 'BotMemoryConflictError', expectedRevision: 1, actualRevision: 2 })
+    await expect(saveBotMemory('alpha', stale, { base: stale, onConflict: 'reject' }))
+      .rejects.toBeInstanceOf(BotMemoryConflictError)
+    expect((await loadBotMemory('alpha')).narrativeArc).toBe('first')
+  })
+
+  it('throws on a failed read instead of starting fresh at revision 0', async () => {
+    // maybeSingle errors on a duplicate row, like any other failed query
+    db.seed('bot_memory', [
+      { pet_id: 'alpha', memory: { narrativeArc: 'real' }, revision: 4 },
+      { pet_id: 'alpha', memory: { narrativeArc: 'real' }, revision: 4 },
+    ])
+
+    await expect(loadBotMemory('alpha')).rejects.toThrow(/Failed to load memory for alpha/)
+  })
+})
@@ -0,0 +1,119 @@
+/**
+ * Memory Migration Tests
+ *
+ * Covers the migration chain (completeness, v1 upgrade, error reports
+ * for malformed and future blobs) and the backup snapshot saveBotMemory
+ * writes before replacing an old or unreadable blob.
+ *
+ * @module memory-migrations-tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { setServiceSupabaseOverride } from '../lib/api/service-supabase'
+import { InMemorySupabase } from '../lib/simulation/in-memory-supabase'
+import { loadBotMemory, saveBotMemory } from '../lib/agent/memory/bot-memory-service'
+import {
+  CURRENT_MEMORY_VERSION,
+  MIGRATIONS,
+  runMemoryMigrations,
+} from '../lib/agent/memory/memory-migrations'
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+
+const V1_MEMORY = {
+  version: 1,
+  updatedAt: '2026-02-01T00:00:00Z',
+  recentPosts: [
+    { postedAt: '2026-02-01T00:00:00Z', gist: 'ate the homework', mood: 'smug', topic: 'school', intentType: 'shitpost' },
+  ],
+  topicCooldowns: {},
+  runningThemes: [],
+  relationships: [],
+  narrativeArc: 'a dog with no regrets',
+  currentMood: 'smug',
+  avoidList: [],
+}
+
+let db: InMemorySupabase
+
+beforeEach(() => {
+  db = new InMemorySupabase()
+  setServiceSupabaseOverride(db as never)
+})
+
+afterEach(() => {
+  setServiceSupabaseOverride(null)
+})
+
+// ---------------------------------------------------------------------------
+// Chain
+// ---------------------------------------------------------------------------
+
+describe('runMemoryMigrations', () => {
+  it('has a step from every version below the current one', () => {
+    for (let version = 1; version < CURRENT_MEMORY_VERSION; version++) {
+      expect(MIGRATIONS[version], `missing migration from v${version}`).toBeDefined()
+    }
+  })
+
+  it('upgrades v1 to the current version and lists the steps applied', () => {
+    const result = runMemoryMigrations(V1_MEMORY)
+
+    expect(result).toMatchObject({ ok: true, fromVersion: 1, applied: [1] })
+    if (result.ok) {
+      expect(result.memory.version).toBe(CURRENT_MEMORY_VERSION)
+      expect(result.memory.narrativeArc).toBe('a dog with no regrets')
+    }
+  })
+
+  it('reports the version and field of a malformed blob', () => {
+    const result = runMemoryMigrations({ ...V1_MEMORY, narrativeArc: 42 })
+    expect(result).toEqual({ ok: false, fromVersion: 1, error: expect.stringContaining('invalid v1 memory: narrativeArc') })
+  })
+
+  it('refuses blobs without a version or from a newer schema', () => {
+    expect(runMemoryMigrations({ recentPosts: [] })).toMatchObject({ ok: false, fromVersion: null })
+    expect(runMemoryMigrations({ ...V1_MEMORY, version: CURRENT_MEMORY_VERSION + 1 }))
+      .toMatchObject({ ok: false, error: expect.stringContaining('newer than supported') })
+  })
+})
+
+// ---------------------------------------------------------------------------
+// Backups
+// ---------------------------------------------------------------------------
+
+describe('saveBotMemory backups', () => {
+  it('snapshots the old blob before writing the upgrade, once', async () => {
+    db.seed('bot_memory', [{ pet_id: 'alpha', memory: V1_MEMORY, revision: 0 }])
+
+    const memory = await loadBotMemory('alpha')
+    await saveBotMemory('alpha', memory)
+    await saveBotMemory('alpha', memory)
+
+    const backups = db.table('bot_memory_backup')
+    expect(backups).toHaveLength(1)
+    expect(backups[0]).toMatchObject({ pet_id: 'alpha', version: 1, reason: 'upgrade', memory: V1_MEMORY })
+    expect((db.table('bot_memory')[0].memory as { version: number }).version).toBe(CURRENT_MEMORY_VERSION)
+  })
+
+  it('keeps an unreadable blob before replacing it with fresh memory', async () => {
+    const broken = { ...V1_MEMORY, version: CURRENT_MEMORY_VERSION, recentPosts: 'oops' }
+    db.seed('bot_memory', [{ pet_id: 'alpha', memory: broken, revision: 0 }])
+
+    const memory = await loadBotMemory('alpha')
+    expect(memory.recentPosts).toEqual([])
+    await saveBotMemory('alpha', memory)
+
+    expect(db.table('bot_memory_backup')).toEqual([
+      expect.objectContaining({ pet_id: 'alpha', reason: 'invalid', memory: broken }),
+    ])
+  })
+
+  it('writes no backup for current memory', async () => {
+    await saveBotMemory('alpha', await loadBotMemory('alpha'))
+    await saveBotMemory('alpha', await loadBotMemory('alpha'))
+    expect(db.table('bot_memory_backup')).toEqual([])
+  })
+})
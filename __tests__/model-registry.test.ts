@@ -0,0 +1,234 @@
+/**
+ * Model Registry Tests
+ *
+ * Covers route resolution precedence (defaults → env → per-pet),
+ * failover across the chain, and the offline mock provider driving
+ * the real generators end to end without API keys.
+ *
+ * @module model-registry-tests
+ */
+
+import { describe, it, expect, afterEach, beforeEach } from 'vitest'
+import { generateObject, generateText } from 'ai'
+import { z } from 'zod'
+import {
+  resolveModelRoutes,
+  withModelFailover,
+  parseModelSelection,
+  ModelFailoverError,
+} from '../lib/services/model-registry'
+import { setMockResponder, synthesizeFromSchema } from '../lib/services/mock-language-model'
+import {
+  generateReply,
+  generateAutonomousPost,
+  evaluateEngagementCandidates,
+  type MemePetPersonalityData,
+} from '../lib/workflows/modules/bluesky-post-generator'
+import { generateReflections } from '../lib/agent/memory/reflection-service'
+import { generateMemeImage } from '../lib/services/image-generator'
+import type { BotMemory } from '../lib/agent/types/bot-memory'
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+
+const PERSONALITY: MemePetPersonalityData = {
+  personalityType: 'chaotic-gremlin',
+  traits: { playfulness: 0.8, independence: 0.2, curiosity: 0.7, expressiveness: 0.9 },
+  dominantEmotion: 'excited',
+  innerMonologue: '',
+  memeVoice: {
+    humorStyle: 'absurdist',
+    catchphrase: 'chaos reigns',
+    reactionPatterns: ['screams'],
+    postingStyle: 'lowercase',
+  },
+  postingConfig: { frequency: 'medium', topicAffinity: ['snacks'], engagementStyle: 'slang' },
+  socialStyle: { approachability: 0.5, competitiveness: 0.2, dramaTendency: 0.6, loyaltyDepth: 0.5 },
+}
+
+const MEMORY: BotMemory = {
+  version: 2,
+  updatedAt: '2026-01-01T00:00:00Z',
+  recentPosts: [],
+  topicCooldowns: {},
+  runningThemes: [],
+  relationships: [],
+  narrativeArc: '',
+  currentMood: 'neutral',
+  avoidList: [],
+  episodesBackfilledAt: null,
+}
+
+const ENV_KEYS = ['LLM_PROVIDER', 'LLM_MODEL_POST', 'LLM_MODEL_REPLY', 'LLM_MODEL_IMAGE'] as const
+let savedEnv: Record<string, string | undefined> = {}
+
+beforeEach(() => {
+  savedEnv = Object.fromEntries(ENV_KEYS.map(k => [k, process.env[k]]))
+  for (const key of ENV_KEYS) delete process.env[key]
+})
+
+afterEach(() => {
+  for (const key of ENV_KEYS) {
+    if (savedEnv[key] === undefined) delete process.env[key]
+    else process.env[key] = savedEnv[key]
+  }
+  setMockResponder(null)
+})
+
+// ---------------------------------------------------------------------------
+// 1. resolveModelRoutes
+// ---------------------------------------------------------------------------
+
+describe('resolveModelRoutes', () => {
+  it('uses config defaults with failover', () => {
+    expect(resolveModelRoutes('post', undefined, {})).toEqual([
+      { provider: 'openai', modelId: 'gpt-4o-mini' },
+      { provider: 'google', modelId: 'gemini-2.0-flash-001' },
+    ])
+    expect(resolveModelRoutes('reflection', undefined, {})[0].provider).toBe('google')
+  })
+
+  it('LLM_PROVIDER=mock routes every task offline with no real fallback', () => {
+    for (const task of ['post', 'reply', 'reflection', 'safety', 'image'] as const) {
+      const routes = resolveModelRoutes(task, undefined, { LLM_PROVIDER: 'mock' })
+      expect(routes.every(r => r.provider === 'mock')).toBe(true)
+    }
+  })
+
+  it('env task override becomes the primary route', () => {
+    const routes = resolveModelRoutes('reply', undefined, { LLM_MODEL_REPLY: 'google:gemini-2.5-flash' })
+    expect(routes[0]).toEqual({ provider: 'google', modelId: 'gemini-2.5-flash' })
+    expect(routes).toHaveLength(3)
+  })
+
+  it('ignores malformed env overrides', () => {
+    const routes = resolveModelRoutes('post', undefined, { LLM_PROVIDER: 'anthropic', LLM_MODEL_POST: 'nope' })
+    expect(routes[0]).toEqual({ provider: 'openai', modelId: 'gpt-4o-mini' })
+  })
+
+  it('per-pet selection beats env', () => {
+    const selection = parseModelSelection({
+      provider: 'google',
+      tasks: { reply: { provider: 'openai', modelId: 'gpt-4.1-mini' } },
+    })
+    const env = { LLM_MODEL_POST: 'openai:gpt-4.1' }
+
+    expect(resolveModelRoutes('post', selection, env)[0]).toEqual({ provider: 'google', modelId: 'gemini-2.0-flash-001' })
+    expect(resolveModelRoutes('reply', selection, env)[0]).toEqual({ provider: 'openai', modelId: 'gpt-4.1-mini' })
+  })
+
+  it('keeps the image route when the selected provider cannot produce images', () => {
+    const routes = resolveModelRoutes('image', { provider: 'openai' }, {})
+    expect(routes).toEqual([{ provider: 'google', modelId: 'gemini-2.0-flash-exp-image-generation' }])
+  })
+})
+
+describe('parseModelSelection', () => {
+  it('returns undefined for null or invalid config', () => {
+    expect(parseModelSelection(null)).toBeUndefined()
+    expect(parseModelSelection({ provider: 'anthropic' })).toBeUndefined()
+  })
+})
+
+// ---------------------------------------------------------------------------
+// 2. withModelFailover
+// ---------------------------------------------------------------------------
+
+describe('withModelFailover', () => {
+  it('falls through to the next route when the primary fails', async () => {
+    const tried: string[] = []
+    const result = await withModelFailover('post', undefined, async (_model, route) => {
+      tried.push(route.provider)
+      if (route.provider === 'openai') throw new Error('rate limited')
+      return 'ok'
+    })
+    expect(result).toBe('ok')
+    expect(tried).toEqual(['openai', 'google'])
+  })
+
+  it('reports every attempt when all routes fail', async () => {
+    const error = await withModelFailover('post', undefined, async () => {
+      throw new Error('down')
+    }).catch(e => e)
+    expect(error).toBeInstanceOf(ModelFailoverError)
+    expect(error.attempts).toHaveLength(2)
+    expect(error.message).toContain('openai:gpt-4o-mini (down)')
+  })
+})
+
+// ---------------------------------------------------------------------------
+// 3. Mock provider
+// ---------------------------------------------------------------------------
+
+describe('mock provider', () => {
+  beforeEach(() => {
+    process.env.LLM_PROVIDER = 'mock'
+  })
+
+  it('synthesizes schema-valid objects deterministically', async () => {
+    const schema = z.object({
+      label: z.enum(['a', 'b', 'c']),
+      score: z.number().min(0).max(10),
+      items: z.array(z.string().max(5)).min(2),
+      flag: z.boolean(),
+    })
+    const run = () => withModelFailover('post', undefined, model =>
+      generateObject({ model, schema, prompt: 'same prompt' })
+    )
+    const first = await run()
+    const second = await run()
+
+    expect(schema.safeParse(first.object).success).toBe(true)
+    expect(first.object).toEqual(second.object)
+    expect(first.object.score).toBe(5)
+    expect(first.object.items).toHaveLength(2)
+  })
+
+  it('drives the real generators without API keys', async () => {
+    const reply = await generateReply(PERSONALITY, 'Gremlin', 'hi there', 'human.test')
+    expect(reply.text.length).toBeGreaterThan(0)
+
+    const post = await generateAutonomousPost(PERSONALITY, MEMORY, 'Gremlin')
+    expect(post.text.length).toBeLessThanOrEqual(300)
+
+    const batch = await evaluateEngagementCandidates(PERSONALITY, 'Gremlin', [], new Set())
+    expect(Array.isArray(batch.engagements)).toBe(true)
+  })
+
+  it('returns insights from the reflection model', async () => {
+    const insights = await generateReflections({
+      recentPosts: [{ postedAt: '2026-01-01T00:00:00Z', gist: 'ate a sock', mood: 'proud', topic: 'socks', intentType: 'thought' }],
+      relationships: [],
+      petName: 'Gremlin',
+      personalityType: 'chaotic-gremlin',
+    })
+    expect(insights.length).toBeGreaterThanOrEqual(2)
+  })
+
+  it('returns a PNG for the image task', async () => {
+    const image = await generateMemeImage({ imagePrompt: 'a frog', imageAlt: 'frog', petName: 'Gremlin' })
+    expect(image?.mimeType).toBe('image/png')
+    expect(image?.imageBlob.length).toBeGreaterThan(0)
+  })
+
+  it('uses scripted responses when a responder is set', async () => {
+    setMockResponder(request => (request.task === 'reply' && request.schema
+      ? { text: 'scripted!', tone: 'excited', shouldEngage: false }
+      : undefined))
+
+    const reply = await generateReply(PERSONALITY, 'Gremlin', 'yo', 'human.test')
+    expect(reply).toEqual({ text: 'scripted!', tone: 'excited', shouldEngage: false })
+
+    const { text } = await withModelFailover('post', undefined, model => generateText({ model, prompt: 'hi' }))
+    expect(text).toMatch(/^mock response/)
+  })
+})
+
+describe('synthesizeFromSchema', () => {
+  it('respects const, bounds and string length', () => {
+    expect(synthesizeFromSchema({ const: true }, 'seed', 'x')).toBe(true)
+    expect(synthesizeFromSchema({ type: 'integer', minimum: 1, maximum: 4 }, 'seed', 'x')).toBe(3)
+    expect((synthesizeFromSchema({ type: 'string', maxLength: 4 }, 'seed', 'x') as string).length).toBe(4)
+  })
+})
@@ -0,0 +1,205 @@
+/**
+ * Mood Event Tests
+ *
+ * Covers replaying the mood event log onto a snapshot (ordering, decay
+ * between events, events already folded in), once-per-source logging,
+ * judging own posts as ignored or landed, and a reactive run logging
+ * the reply it received and putting the replayed mood into the prompt.
+ *
+ * @module mood-events-tests
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+
+vi.hoisted(() => {
+  process.env.ENABLE_BLUESKY_AGENT = 'true'
+})
+
+import { setServiceSupabaseOverride } from '../lib/api/service-supabase'
+import { InMemorySupabase } from '../lib/simulation/in-memory-supabase'
+import { InMemoryBlueskyNetwork } from '../lib/simulation/in-memory-bluesky'
+import { FakeWorkflowContext } from '../lib/simulation/fake-workflow-context'
+import { ScriptedLLM } from '../lib/simulation/scripted-llm'
+import { BlueskyAgentWorkflow } from '../lib/workflows/bluesky-agent-workflow'
+import { applyEvent, getDefaultMood, replayMood, type MoodState } from '../lib/agent/mood/emotion-engine'
+import {
+  postOutcomeEvents,
+  recordMoodEvent,
+  recordMoodEvents,
+  resolveCurrentMood,
+} from '../lib/agent/mood/mood-event-log'
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+
+const NOW = new Date('2026-03-01T12:00:00Z')
+const HOUR = 60 * 60 * 1000
+
+const hoursAgo = (hours: number) => new Date(NOW.getTime() - hours * HOUR).toISOString()
+
+const NEUTRAL: MoodState = { pleasure: 0, arousal: 0, dominance: 0, currentEmotion: 'neutral', lastUpdated: hoursAgo(24) }
+
+let db: InMemorySupabase
+
+beforeEach(() => {
+  db = new InMemorySupabase()
+  setServiceSupabaseOverride(db as never)
+})
+
+afterEach(() => {
+  setServiceSupabaseOverride(null)
+})
+
+// ---------------------------------------------------------------------------
+// Replay
+// ---------------------------------------------------------------------------
+
+describe('replayMood', () => {
+  it('applies events oldest first regardless of input order', () => {
+    const replayed = replayMood(NEUTRAL, NEUTRAL, [
+      { type: 'hype_received', timestamp: hoursAgo(1) },
+      { type: 'got_reply', timestamp: hoursAgo(2) },
+    ])
+    expect(replayed.lastUpdated).toBe(hoursAgo(1))
+    expect(replayed.pleasure).toBeGreaterThan(0.15)
+  })
+
+  it('decays older events more than recent ones', () => {
+    const old = replayMood(NEUTRAL, NEUTRAL, [{ type: 'beef_interaction', timestamp: hoursAgo(12) }], NOW)
+    const fresh = replayMood(NEUTRAL, NEUTRAL, [{ type: 'beef_interaction', timestamp: hoursAgo(1) }], NOW)
+
+    // Six-hour half-life: twelve hours leaves a quarter of the bump
+    expect(old.arousal).toBeCloseTo(0.15 / 4, 5)
+    expect(fresh.arousal).toBeGreaterThan(old.arousal)
+    expect(old.lastUpdated).toBe(NOW.toISOString())
+  })
+
+  it('skips events already folded into the snapshot', () => {
+    const snapshot = applyEvent(NEUTRAL, { type: 'post_liked', timestamp: hoursAgo(3) })
+    const replayed = replayMood(snapshot, NEUTRAL, [
+      { type: 'post_liked', timestamp: hoursAgo(3) },
+      { type: 'post_liked', timestamp: hoursAgo(5) },
+    ])
+    expect(replayed).toEqual(snapshot)
+  })
+})
+
+// ---------------------------------------------------------------------------
+// Event log
+// ---------------------------------------------------------------------------
+
+describe('mood event log', () => {
+  it('logs an event with a source once', async () => {
+    const like = { type: 'post_liked' as const, sourceUri: 'at://did:plc:fan/app.bsky.feed.like/1' }
+    expect(await recordMoodEvent('alpha', like)).toBe(true)
+    expect(await recordMoodEvent('alpha', like)).toBe(false)
+    expect(await recordMoodEvents('alpha', [{ type: 'morning' }, { type: 'morning' }])).toBe(2)
+    expect(db.table('pet_mood_event')).toHaveLength(3)
+  })
+
+  it('replays the whole log onto the baseline when there is no snapshot', async () => {
+    await recordMoodEvents('alpha', [
+      { type: 'hype_received', timestamp: hoursAgo(1), sourceUri: 'at://post/1' },
+      { type: 'got_reply', timestamp: hoursAgo(1), sourceUri: 'at://post/2' },
+    ])
+    const baseline = getDefaultMood('sage')
+
+    const mood = await resolveCurrentMood('alpha', 'sage', undefined, NOW)
+    expect(mood.pleasure).toBeGreaterThan(baseline.pleasure)
+
+    // A snapshot taken after the events already includes them
+    const later = await resolveCurrentMood('alpha', 'sage', { ...baseline, lastUpdated: NOW.toISOString() }, NOW)
+    expect(later.pleasure).toBeCloseTo(baseline.pleasure, 5)
+  })
+})
+
+// ---------------------------------------------------------------------------
+// Post outcomes
+// ---------------------------------------------------------------------------
+
+describe('postOutcomeEvents', () => {
+  it('marks old unnoticed posts as ignored and popular ones as landed', () => {
+    const events = postOutcomeEvents([
+      { uri: 'at://post/silent', createdAt: hoursAgo(5), engagement: 0 },
+      { uri: 'at://post/hit', createdAt: hoursAgo(5), engagement: 12 },
+      { uri: 'at://post/meh', createdAt: hoursAgo(5), engagement: 2 },
+      { uri: 'at://post/too-new', createdAt: hoursAgo(1), engagement: 0 },
+      { uri: 'at://post/too-old', createdAt: hoursAgo(72), engagement: 0 },
+    ], NOW)
+
+    expect(events.map(e => [e.type, e.sourceUri])).toEqual([
+      ['ignored', 'at://post/silent'],
+      ['post_landed', 'at://post/hit'],
+    ])
+  })
+})
+
+// ---------------------------------------------------------------------------
+// Workflow
+// ---------------------------------------------------------------------------
+
+describe('reactive mood', () => {
+  let network: InMemoryBlueskyNetwork
+  let llm: ScriptedLLM
+  let replyPrompts: string[]
+
+  beforeEach(() => {
+    network = new InMemoryBlueskyNetwork()
+    replyPrompts = []
+    llm = new ScriptedLLM({
+      scripts: {
+        reply: request => {
+          replyPrompts.push(request.prompt)
+          return { text: 'ok fine you win', tone: 'friendly', shouldEngage: true }
+        },
+      },
+    })
+    llm.install()
+
+    network.registerAccount({ did: 'did:sim:alpha.sim.test', handle: 'alpha.sim.test', isBot: true })
+    network.registerAccount({ did: 'did:sim:human', handle: 'human.test', isBot: false })
+    db.seed('pet', [{ id: 'alpha', name: 'ALPHA', meme: {} }])
+    db.seed('bluesky_bot_config', [{
+      id: 'config-alpha',
+      pet_id: 'alpha',
+      handle: 'alpha.sim.test',
+      did: 'did:sim:alpha.sim.test',
+      app_password: 'simulated',
+      is_active: true,
+      publish_mode: 'auto',
+    }])
+  })
+
+  afterEach(() => {
+    llm.uninstall()
+  })
+
+  it('logs the reply it received and answers in the replayed mood', async () => {
+    const post = network.publish({ authorDid: 'did:sim:human', text: 'your posts are elite honestly' })
+    const run = () => new BlueskyAgentWorkflow(new FakeWorkflowContext({
+      mode: 'reactive',
+      petId: 'alpha',
+      notification: {
+        uri: post.uri,
+        cid: post.cid,
+        authorHandle: 'human.test',
+        authorDid: 'did:sim:human',
+        text: 'your posts are elite honestly',
+        reason: 'reply',
+      },
+    }, 'test-run').asWorkflowContext(), {
+      createBotClient: config => network.createClient(config),
+      triggerWorkflow: async () => ({ workflowRunId: 'queued' }),
+    }).execute()
+
+    await run()
+    await run()
+
+    expect(db.table('pet_mood_event')).toEqual([
+      expect.objectContaining({ pet_id: 'alpha', event_type: 'got_reply', source_uri: post.uri }),
+    ])
+    expect(replyPrompts[0]).toContain('CURRENT MOOD')
+    expect(replyPrompts[0]).toMatch(/You're feeling \w+/)
+  })
+})
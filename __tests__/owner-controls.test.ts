@@ -0,0 +1,317 @@
+/**
+ * Owner Controls Tests
+ *
+ * Covers the owner steering endpoint (nudges, suggestions, blocked
+ * topics, pauses), safety screening and the per-owner rate limit, how
+ * the controls fold into topicAffinity and the avoid list, the rhythm
+ * engine honouring a pause, and a proactive run that works in the
+ * owner's suggestion, respects blocked topics and then clears it.
+ *
+ * @module owner-controls-tests
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+
+vi.hoisted(() => {
+  process.env.ENABLE_BLUESKY_AGENT = 'true'
+})
+
+import { NextRequest } from 'next/server'
+import { setServiceSupabaseOverride } from '../lib/api/service-supabase'
+import { setUserTokenVerifierOverride } from '../lib/api/pet-owner-auth'
+import { InMemorySupabase } from '../lib/simulation/in-memory-supabase'
+import { InMemoryBlueskyNetwork } from '../lib/simulation/in-memory-bluesky'
+import { FakeWorkflowContext } from '../lib/simulation/fake-workflow-context'
+import { ScriptedLLM } from '../lib/simulation/scripted-llm'
+import { BlueskyAgentWorkflow } from '../lib/workflows/bluesky-agent-workflow'
+import { evaluatePostingDecision, emptyScheduleState } from '../lib/agent/posting-rhythm'
+import { buildPersonalityFromRow } from '../lib/agent/pet-personality-builder'
+import { OWNER_CONTROLS_CONFIG } from '../lib/config/owner-controls.config'
+import type { BotMemory } from '../lib/agent/types/bot-memory'
+import {
+  applyBlockedTopics,
+  applyOwnerTopics,
+  type OwnerControls,
+} from '../lib/services/owner-controls'
+import { GET, POST } from '../app/api/v1/pets/[petId]/controls/route'
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+
+const HOUR = 60 * 60 * 1000
+const hoursFromNow = (hours: number) => new Date(Date.now() + hours * HOUR).toISOString()
+
+const TOKENS: Record<string, string> = { 'token-ana': 'user-ana', 'token-bo': 'user-bo' }
+
+let db: InMemorySupabase
+
+function control(petId: string, body: unknown, token = 'token-ana') {
+  const req = new NextRequest(`http://localhost/api/v1/pets/${petId}/controls`, {
+    method: 'POST',
+    headers: { authorization: `Bearer ${token}`, 'content-type': 'application/json' },
+    body: JSON.stringify(body),
+  })
+  return POST(req, { params: Promise.resolve({ petId }) })
+}
+
+function controls(petId: string, token = 'token-ana') {
+  const req = new NextRequest(`http://localhost/api/v1/pets/${petId}/controls`, {
+    headers: { authorization: `Bearer ${token}` },
+  })
+  return GET(req, { params: Promise.resolve({ petId }) })
+}
+
+beforeEach(() => {
+  db = new InMemorySupabase()
+  setServiceSupabaseOverride(db as never)
+  setUserTokenVerifierOverride(async token => TOKENS[token] ?? null)
+
+  db.seed('pet', [
+    {
+      id: 'alpha',
+      user_id: 'user-ana',
+      name: 'ALPHA',
+      meme: { memePersonality: { archetype: 'sunshine', topicsOfInterest: ['naps', 'crypto', 'snacks'] } },
+    },
+    { id: 'beta', user_id: 'user-bo', name: 'BETA', meme: {} },
+  ])
+})
+
+afterEach(() => {
+  setServiceSupabaseOverride(null)
+  setUserTokenVerifierOverride(null)
+})
+
+// ---------------------------------------------------------------------------
+// Endpoint
+// ---------------------------------------------------------------------------
+
+describe('owner control endpoint', () => {
+  it('adds nudges, a suggestion, blocked topics and a pause', async () => {
+    await control('alpha', { action: 'nudge', topic: 'Halloween costumes', hours: 12 })
+    await control('alpha', { action: 'suggest', text: 'my new hat' })
+    await control('alpha', { action: 'block_topic', topic: 'crypto' })
+    const until = hoursFromNow(6)
+    const response = await control('alpha', { action: 'pause', until })
+
+    expect(response.status).toBe(200)
+    const { controls: saved } = await (await controls('alpha')).json()
+    expect(saved).toMatchObject({
+      topicNudges: [expect.objectContaining({ topic: 'Halloween costumes' })],
+      suggestion: expect.objectContaining({ text: 'my new hat' }),
+      blockedTopics: ['crypto'],
+      pausedUntil: until,
+    })
+
+    await control('alpha', { action: 'resume' })
+    await control('alpha', { action: 'remove_nudge', topic: 'halloween COSTUMES' })
+    const { controls: cleared } = await (await controls('alpha')).json()
+    expect(cleared.pausedUntil).toBeNull()
+    expect(cleared.topicNudges).toEqual([])
+  })
+
+  it("rejects bad input and someone else's pet", async () => {
+    expect((await control('beta', { action: 'resume' })).status).toBe(404)
+    expect((await control('alpha', { action: 'shout' })).status).toBe(400)
+    expect((await control('alpha', { action: 'nudge', topic: ' ' })).status).toBe(400)
+    expect((await control('alpha', { action: 'pause', until: hoursFromNow(-1) })).status).toBe(400)
+    expect((await control('alpha', { action: 'pause', until: hoursFromNow(24 * 60) })).status).toBe(400)
+  })
+
+  it('runs owner input through the safety filters and logs the rejection', async () => {
+    const response = await control('alpha', { action: 'suggest', text: 'a hot take on what Trump said' })
+
+    expect(response.status).toBe(422)
+    expect(db.table('pet_owner_control')).toEqual([])
+    expect(db.table('pet_owner_control_log')).toEqual([
+      expect.objectContaining({ user_id: 'user-ana', action: 'suggest', accepted: false, reason: 'political_owner_suggest' }),
+    ])
+  })
+
+  it('lets owners block topics the safety filters would turn down', async () => {
+    const response = await control('alpha', { action: 'block_topic', topic: 'MAGA merch' })
+
+    expect(response.status).toBe(200)
+    expect((await response.json()).controls.blockedTopics).toEqual(['MAGA merch'])
+    expect((await control('alpha', { action: 'nudge', topic: 'MAGA merch' })).status).toBe(422)
+  })
+
+  it('keeps both of two concurrent changes', async () => {
+    db.seed('pet_owner_control', [{
+      pet_id: 'alpha',
+      topic_nudges: [],
+      suggestion: null,
+      blocked_topics: [],
+      paused_until: null,
+      revision: 0,
+    }])
+
+    const responses = await Promise.all([
+      control('alpha', { action: 'nudge', topic: 'rain' }),
+      control('alpha', { action: 'block_topic', topic: 'crypto' }),
+    ])
+
+    expect(responses.map(response => response.status)).toEqual([200, 200])
+    expect(db.table('pet_owner_control')).toEqual([
+      expect.objectContaining({ blocked_topics: ['crypto'], topic_nudges: [expect.objectContaining({ topic: 'rain' })], revision: 2 }),
+    ])
+  })
+
+  it('answers 409 when the controls keep changing underneath a request', async () => {
+    db.seed('pet_owner_control', [{ pet_id: 'alpha', topic_nudges: [], suggestion: null, blocked_topics: [], paused_until: null, revision: 0 }])
+    // Another request saves between every read and write
+    const from = db.from.bind(db)
+    vi.spyOn(db, 'from').mockImplementation(table => {
+      if (table === 'pet_owner_control') db.table('pet_owner_control')[0].revision = Number(db.table('pet_owner_control')[0].revision) + 1
+      return from(table)
+    })
+
+    expect((await control('alpha', { action: 'resume' })).status).toBe(409)
+  })
+
+  it('rate-limits each owner, rejected requests included', async () => {
+    const { MAX_REQUESTS } = OWNER_CONTROLS_CONFIG.RATE_LIMIT
+    for (let i = 0; i < MAX_REQUESTS; i++) {
+      await control('alpha', { action: 'nudge', topic: i % 2 ? `topic ${i}` : 'MAGA merch' })
+    }
+
+    const limited = await control('alpha', { action: 'resume' })
+    expect(limited.status).toBe(429)
+    expect(Number(limited.headers.get('Retry-After'))).toBeGreaterThan(0)
+
+    // Other owners have their own budget
+    await control('beta', { action: 'resume' }, 'token-bo')
+    expect(db.table('pet_owner_control_log').filter(row => row.user_id === 'user-bo')).toHaveLength(1)
+  })
+})
+
+// ---------------------------------------------------------------------------
+// Prompt merging & rhythm
+// ---------------------------------------------------------------------------
+
+describe('applying owner controls', () => {
+  const steering: OwnerControls = {
+    topicNudges: [{ topic: 'Snacks', createdAt: hoursFromNow(-1), expiresAt: hoursFromNow(1) }, { topic: 'rain', createdAt: hoursFromNow(-1), expiresAt: hoursFromNow(1) }],
+    suggestion: null,
+    blockedTopics: ['crypto'],
+    pausedUntil: null,
+  }
+
+  it('puts nudges first and drops blocked topics from topicAffinity', () => {
+    expect(applyOwnerTopics(['naps', 'crypto', 'snacks'], steering)).toEqual(['Snacks', 'rain', 'naps'])
+  })
+
+  it('adds blocked topics to the avoid list without duplicates', () => {
+    const memory: BotMemory = {
+      version: 2,
+      updatedAt: hoursFromNow(-1),
+      recentPosts: [],
+      topicCooldowns: {},
+      runningThemes: [],
+      relationships: [],
+      narrativeArc: '',
+      currentMood: 'sunny',
+      avoidList: ['mondays'],
+    }
+    expect(applyBlockedTopics(memory, steering).avoidList).toEqual(['mondays', 'crypto'])
+    expect(applyBlockedTopics({ ...memory, avoidList: ['Crypto'] }, steering).avoidList).toEqual(['Crypto'])
+  })
+
+  it('keeps a paused pet from posting', () => {
+    const decision = evaluatePostingDecision({
+      now: new Date('2026-03-01T18:00:00Z'),
+      state: emptyScheduleState(),
+      frequency: 'high',
+      chronotype: 'normal',
+      personality: buildPersonalityFromRow({ personality_type: null, psyche: null, meme: null }),
+      utcOffsetHours: 0,
+      pausedUntil: '2026-03-02T00:00:00Z',
+    })
+    expect(decision.shouldPost).toBe(false)
+    expect(decision.reason).toBe('paused until 2026-03-02T00:00:00Z')
+  })
+})
+
+// ---------------------------------------------------------------------------
+// Workflow
+// ---------------------------------------------------------------------------
+
+describe('proactive posting with owner controls', () => {
+  let network: InMemoryBlueskyNetwork
+  let llm: ScriptedLLM
+  let postPrompts: string[]
+
+  const run = () => new BlueskyAgentWorkflow(
+    new FakeWorkflowContext({ mode: 'proactive', petId: 'alpha' }, 'test-run').asWorkflowContext(),
+    { createBotClient: config => network.createClient(config) }
+  ).execute()
+
+  beforeEach(() => {
+    network = new InMemoryBlueskyNetwork()
+    postPrompts = []
+    llm = new ScriptedLLM({
+      scripts: {
+        post: request => {
+          postPrompts.push(request.prompt)
+          return undefined
+        },
+      },
+    })
+    llm.install()
+
+    network.registerAccount({ did: 'did:sim:alpha.sim.test', handle: 'alpha.sim.test', isBot: true })
+    db.seed('bluesky_bot_config', [{
+      id: 'config-alpha',
+      pet_id: 'alpha',
+      handle: 'alpha.sim.test',
+      did: 'did:sim:alpha.sim.test',
+      app_password: 'simulated',
+      is_active: true,
+      publish_mode: 'auto',
+    }])
+  })
+
+  afterEach(() => {
+    llm.uninstall()
+  })
+
+  it('works in the suggestion, avoids blocked topics and clears the suggestion', async () => {
+    const suggestion = { text: 'my new hat', createdAt: hoursFromNow(-1), expiresAt: hoursFromNow(47) }
+    db.seed('pet_owner_control', [{
+      pet_id: 'alpha',
+      topic_nudges: [{ topic: 'rain', createdAt: hoursFromNow(-1), expiresAt: hoursFromNow(5) }],
+      suggestion,
+      blocked_topics: ['crypto'],
+      paused_until: null,
+      revision: 0,
+    }])
+
+    await run()
+
+    const prompt = postPrompts.find(p => p.includes('Generate a fresh post'))!
+    expect(prompt).toContain('YOUR OWNER ASKED YOU TO POST ABOUT: my new hat')
+    expect(prompt).toMatch(/^TOPICS: rain, naps, snacks$/m)
+    expect(prompt).toContain('DO NOT TALK ABOUT: crypto')
+    expect(db.table('bluesky_post_log').filter(row => row.activity_type === 'proactive_post')).toHaveLength(1)
+    expect(db.table('pet_owner_control')[0].suggestion).toBeNull()
+    // The block stays out of the saved memory
+    expect((db.table('bot_memory')[0].memory as { avoidList: string[] }).avoidList).toEqual([])
+  })
+
+  it('stays quiet while paused', async () => {
+    db.seed('pet_owner_control', [{
+      pet_id: 'alpha',
+      topic_nudges: [],
+      suggestion: null,
+      blocked_topics: [],
+      paused_until: hoursFromNow(3),
+      revision: 0,
+    }])
+
+    await run()
+
+    expect(postPrompts).toEqual([])
+    expect(db.table('bluesky_post_log')).toEqual([])
+  })
+})
@@ -0,0 +1,170 @@
+/**
+ * Pet Timeline API Tests
+ *
+ * Covers the owner-only pet endpoints for the iOS app: bearer token and
+ * ownership checks (someone else's pet looks missing), the current mood
+ * with its label, the mood time series replayed from the event log,
+ * relationships with labels and names, and recent reflections.
+ *
+ * @module pet-timeline-tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { NextRequest } from 'next/server'
+import { setServiceSupabaseOverride } from '../lib/api/service-supabase'
+import { setUserTokenVerifierOverride } from '../lib/api/pet-owner-auth'
+import { InMemorySupabase } from '../lib/simulation/in-memory-supabase'
+import { getMoodHistory } from '../lib/services/pet-timeline'
+import { GET as getMood } from '../app/api/v1/pets/[petId]/mood/route'
+import { GET as getMoodHistoryRoute } from '../app/api/v1/pets/[petId]/mood/history/route'
+import { GET as getRelationships } from '../app/api/v1/pets/[petId]/relationships/route'
+import { GET as getReflections } from '../app/api/v1/pets/[petId]/reflections/route'
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+
+const NOW = new Date('2026-03-08T12:00:00Z')
+const HOUR = 60 * 60 * 1000
+const hoursAgo = (hours: number) => new Date(NOW.getTime() - hours * HOUR).toISOString()
+
+const TOKENS: Record<string, string> = { 'token-ana': 'user-ana', 'token-bo': 'user-bo' }
+
+let db: InMemorySupabase
+
+function call(
+  handler: (req: NextRequest, ctx: { params: Promise<{ petId: string }> }) => Promise<Response>,
+  path: string,
+  petId: string,
+  token: string | null = 'token-ana'
+) {
+  const req = new NextRequest(`http://localhost/api/v1/pets/${petId}/${path}`, {
+    headers: token ? { authorization: `Bearer ${token}` } : {},
+  })
+  return handler(req, { params: Promise.resolve({ petId }) })
+}
+
+beforeEach(() => {
+  db = new InMemorySupabase()
+  setServiceSupabaseOverride(db as never)
+  setUserTokenVerifierOverride(async token => TOKENS[token] ?? null)
+
+  db.seed('pet', [
+    { id: 'alpha', user_id: 'user-ana', name: 'ALPHA', meme: { memePersonality: { archetype: 'sunshine' } } },
+    { id: 'beta', user_id: 'user-bo', name: 'BETA', meme: {} },
+    { id: 'gamma', user_id: 'user-bo', name: 'GAMMA', meme: {} },
+  ])
+  db.seed('pet_relationship', [
+    { pet_id_a: 'alpha', pet_id_b: 'beta', sentiment: 'nemesis', sentiment_score: -0.9, interaction_count: 12, last_interaction_type: 'beef', last_interaction_at: hoursAgo(2) },
+    { pet_id_a: 'alpha', pet_id_b: 'gamma', sentiment: 'friend', sentiment_score: 0.7, interaction_count: 3, last_interaction_type: 'hype', last_interaction_at: hoursAgo(30) },
+    { pet_id_a: 'beta', pet_id_b: 'gamma', sentiment: 'rival', sentiment_score: -0.6, interaction_count: 5, last_interaction_type: 'debate', last_interaction_at: hoursAgo(5) },
+  ])
+})
+
+afterEach(() => {
+  setServiceSupabaseOverride(null)
+  setUserTokenVerifierOverride(null)
+})
+
+// ---------------------------------------------------------------------------
+// Authorization
+// ---------------------------------------------------------------------------
+
+describe('owner authorization', () => {
+  it('requires a valid bearer token', async () => {
+    expect((await call(getMood, 'mood', 'alpha', null)).status).toBe(401)
+    expect((await call(getMood, 'mood', 'alpha', 'token-stolen')).status).toBe(401)
+  })
+
+  it("answers 404 for someone else's pet, same as a missing one", async () => {
+    const others = await call(getRelationships, 'relationships', 'beta')
+    const missing = await call(getRelationships, 'relationships', 'nope')
+    expect(others.status).toBe(404)
+    expect(missing.status).toBe(404)
+    expect(await others.json()).toEqual({ success: false, error: 'Pet beta not found' })
+  })
+})
+
+// ---------------------------------------------------------------------------
+// Mood
+// ---------------------------------------------------------------------------
+
+describe('mood endpoints', () => {
+  it('returns the current mood with its emotion label', async () => {
+    db.seed('pet_mood_event', [
+      { pet_id: 'alpha', event_type: 'hype_received', source_uri: 'at://1', metadata: {}, occurred_at: new Date(Date.now() - 60_000).toISOString() },
+    ])
+
+    const response = await call(getMood, 'mood', 'alpha')
+    const { mood } = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(mood.pleasure).toBeGreaterThan(0.7) // sunshine baseline plus the hype
+    expect(mood.emotion).toBe(mood.currentEmotion)
+    expect(mood.emotion).toMatch(/content|excited|euphoric/)
+  })
+
+  it('samples the mood over the window from the event log', async () => {
+    db.seed('pet_mood_event', [
+      { pet_id: 'alpha', event_type: 'beef_interaction', source_uri: 'at://old', metadata: {}, occurred_at: hoursAgo(30) },
+      { pet_id: 'alpha', event_type: 'beef_interaction', source_uri: 'at://a', metadata: {}, occurred_at: hoursAgo(6) },
+      { pet_id: 'alpha', event_type: 'beef_interaction', source_uri: 'at://b', metadata: {}, occurred_at: hoursAgo(6) },
+      { pet_id: 'beta', event_type: 'ignored', source_uri: null, metadata: {}, occurred_at: hoursAgo(3) },
+    ])
+
+    const history = await getMoodHistory('alpha', { days: 1, stepHours: 3, now: NOW })
+
+    expect(history.samples).toHaveLength(9)
+    expect(history.events.map(e => e.at)).toEqual([hoursAgo(6), hoursAgo(6)])
+    const arousalAt = (hours: number) => history.samples.find(s => s.at === hoursAgo(hours))!.arousal
+    // Sunshine arousal baseline is 0.3; the beef spikes it, then it decays back.
+    // The warm-up event 30h ago leaves 1/16 of its 0.15 bump at the spike.
+    expect(arousalAt(9)).toBeCloseTo(0.3, 1)
+    expect(arousalAt(6)).toBeCloseTo(0.6 + 0.15 / 16, 5)
+    expect(arousalAt(0)).toBeCloseTo(0.3 + (0.3 + 0.15 / 16) / 2, 5)
+  })
+
+  it('clamps the history window', async () => {
+    const response = await call(getMoodHistoryRoute, 'mood/history?days=365&stepHours=24', 'alpha')
+    const { history } = await response.json()
+    expect(history.samples).toHaveLength(31)
+  })
+})
+
+// ---------------------------------------------------------------------------
+// Relationships & reflections
+// ---------------------------------------------------------------------------
+
+describe('relationship and reflection endpoints', () => {
+  it("lists only this pet's relationships with labels and names", async () => {
+    const { relationships } = await (await call(getRelationships, 'relationships', 'alpha')).json()
+
+    expect(relationships).toEqual([
+      expect.objectContaining({ petId: 'beta', petName: 'BETA', sentiment: 'nemesis', sentimentLabel: 'Sworn enemies', interactionCount: 12 }),
+      expect.objectContaining({ petId: 'gamma', petName: 'GAMMA', sentiment: 'friend', sentimentLabel: 'Friends', lastInteractionType: 'hype' }),
+    ])
+  })
+
+  it('returns recent reflections newest first', async () => {
+    const memory = {
+      version: 2,
+      updatedAt: hoursAgo(1),
+      recentPosts: [],
+      topicCooldowns: {},
+      runningThemes: [],
+      relationships: [],
+      narrativeArc: '',
+      currentMood: 'sunny',
+      avoidList: [],
+      episodesBackfilledAt: hoursAgo(100),
+      reflections: [
+        { insight: 'beef posts get the most replies', category: 'self', confidence: 0.8, createdAt: hoursAgo(50), basedOnPosts: 6 },
+        { insight: 'BETA is my nemesis now', category: 'relationship', confidence: 0.9, createdAt: hoursAgo(2), basedOnPosts: 4 },
+      ],
+    }
+    db.seed('bot_memory', [{ pet_id: 'alpha', memory, revision: 3 }])
+
+    const { reflections } = await (await call(getReflections, 'reflections?limit=1', 'alpha')).json()
+    expect(reflections.map((r: { insight: string }) => r.insight)).toEqual(['BETA is my nemesis now'])
+  })
+})
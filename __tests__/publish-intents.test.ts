@@ -0,0 +1,239 @@
+/**
+ * Publish Intent Tests
+ *
+ * Covers TID record keys, idempotent writes through the bot client
+ * (a repeated key returns the first record, a retry after a lost
+ * acknowledgement finds the record in the repo, a retry after a failed
+ * write reuses the recorded key and isn't charged twice), and a retried
+ * publish step posting once.
+ *
+ * @module publish-intents-tests
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+
+vi.hoisted(() => {
+  process.env.ENABLE_BLUESKY_AGENT = 'true'
+})
+
+import { setServiceSupabaseOverride } from '../lib/api/service-supabase'
+import { InMemorySupabase } from '../lib/simulation/in-memory-supabase'
+import { InMemoryBlueskyNetwork } from '../lib/simulation/in-memory-bluesky'
+import { FakeWorkflowContext } from '../lib/simulation/fake-workflow-context'
+import { ScriptedLLM } from '../lib/simulation/scripted-llm'
+import { BlueskyAgentWorkflow } from '../lib/workflows/bluesky-agent-workflow'
+import { createTid } from '../lib/services/publish-intents'
+import { RateLimitExceededError } from '../lib/services/rate-limit-ledger'
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+
+const ALPHA = {
+  petId: 'alpha',
+  handle: 'alpha.sim.test',
+  did: 'did:sim:alpha.sim.test',
+  appPassword: 'simulated',
+}
+
+let db: InMemorySupabase
+let network: InMemoryBlueskyNetwork
+
+beforeEach(() => {
+  db = new InMemorySupabase()
+  setServiceSupabaseOverride(db as never)
+  network = new InMemoryBlueskyNetwork()
+  network.registerAccount({ did: ALPHA.did, handle: ALPHA.handle, isBot: true })
+})
+
+afterEach(() => {
+  setServiceSupabaseOverride(null)
+  vi.restoreAllMocks()
+})
+
+async function client() {
+  const bot = network.createClient(ALPHA)
+  await bot.authenticate()
+  return bot
+}
+
+/** Runs one step twice, as Upstash does when the first attempt times out after its write landed */
+class RetryingContext<T> extends FakeWorkflowContext<T> {
+  constructor(payload: T, runId: string, private readonly retriedStep: string) {
+    super(payload, runId)
+  }
+
+  async run<R>(stepName: string, fn: () => Promise<R> | R): Promise<R> {
+    if (stepName === this.retriedStep) await fn()
+    return super.run(stepName, fn)
+  }
+}
+
+/** Wins the self-reply roll, which the fixtures otherwise always lose */
+class SelfReplyingContext<T> extends RetryingContext<T> {
+  async run<R>(stepName: string, fn: () => Promise<R> | R): Promise<R> {
+    if (stepName === 'maybe-self-reply') vi.mocked(Math.random).mockReturnValueOnce(0.1)
+    return super.run(stepName, fn)
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Record keys
+// ---------------------------------------------------------------------------
+
+describe('createTid', () => {
+  it('mints 13-character base32-sortable keys that increase', () => {
+    const now = Date.parse('2026-03-10T12:00:00Z')
+    const tids = [createTid(now, 7), createTid(now, 7), createTid(now + 1, 0)]
+
+    for (const tid of tids) expect(tid).toMatch(/^[234567a-z]{13}$/)
+    expect(new Set(tids).size).toBe(3)
+    expect([...tids].sort()).toEqual(tids)
+  })
+})
+
+// ---------------------------------------------------------------------------
+// Bot client
+// ---------------------------------------------------------------------------
+
+describe('idempotent writes', () => {
+  it('returns the first record for a repeated key', async () => {
+    const bot = await client()
+
+    const first = await bot.post('gm', undefined, undefined, { idempotencyKey: 'run-1:publish-post' })
+    const retry = await bot.post('gm (regenerated)', undefined, undefined, { idempotencyKey: 'run-1:publish-post' })
+    const other = await bot.post('gm again', undefined, undefined, { idempotencyKey: 'run-2:publish-post' })
+
+    expect(retry).toEqual(first)
+    expect(other.uri).not.toBe(first.uri)
+    expect(network.allPosts().map(p => p.text)).toEqual(['gm', 'gm again'])
+    expect(db.table('bluesky_publish_intent').find(r => r.idempotency_key === 'run-1:publish-post')).toMatchObject({
+      pet_id: 'alpha',
+      collection: 'app.bsky.feed.post',
+      record_uri: first.uri,
+      record_cid: first.cid,
+    })
+  })
+
+  it('finds a record that landed before its acknowledgement was lost', async () => {
+    const bot = await client()
+    const first = await bot.reply('me too', {
+      root: { uri: 'at://x/app.bsky.feed.post/1', cid: 'c1' },
+      parent: { uri: 'at://x/app.bsky.feed.post/1', cid: 'c1' },
+    }, { idempotencyKey: 'run-1:publish-reply' })
+
+    // The step timed out after the PDS accepted the write
+    const intent = db.table('bluesky_publish_intent')[0]
+    intent.record_uri = null
+    intent.record_cid = null
+    expect(first.uri).toContain(intent.rkey as string)
+    const charge = vi.spyOn(network.rateLimits, 'charge')
+
+    const retry = await bot.reply('me too', {
+      root: { uri: 'at://x/app.bsky.feed.post/1', cid: 'c1' },
+      parent: { uri: 'at://x/app.bsky.feed.post/1', cid: 'c1' },
+    }, { idempotencyKey: 'run-1:publish-reply' })
+
+    expect(retry).toEqual(first)
+    expect(network.allPosts()).toHaveLength(1)
+    expect(charge).not.toHaveBeenCalled()
+    expect(intent.record_uri).toBe(first.uri)
+  })
+
+  it('writes under the recorded key when the first attempt failed', async () => {
+    const bot = await client()
+    const spendable = network.rateLimits.remaining('alpha').hourRemaining
+    await network.rateLimits.charge('alpha', spendable)
+
+    await expect(bot.quotePost('lol', 'at://x/app.bsky.feed.post/1', 'c1', { idempotencyKey: 'run-1:engage-0:quote' }))
+      .rejects.toBeInstanceOf(RateLimitExceededError)
+    const { rkey } = db.table('bluesky_publish_intent')[0]
+    expect(network.allPosts()).toHaveLength(0)
+
+    vi.spyOn(network.rateLimits, 'charge').mockResolvedValue({ allowed: true, hourRemaining: 0, dayRemaining: 0, retryAfterSeconds: 0 })
+    const retry = await bot.quotePost('lol', 'at://x/app.bsky.feed.post/1', 'c1', { idempotencyKey: 'run-1:engage-0:quote' })
+
+    expect(retry.uri).toBe(`at://${ALPHA.did}/app.bsky.feed.post/${rkey}`)
+    expect(network.allPosts()).toHaveLength(1)
+  })
+
+  it("doesn't charge again when a charged write is retried", async () => {
+    const bot = await client()
+    const charge = vi.spyOn(network.rateLimits, 'charge')
+    vi.spyOn(network, 'publish').mockImplementationOnce(() => {
+      throw new Error('PDS timeout')
+    })
+
+    await expect(bot.post('gm', undefined, undefined, { idempotencyKey: 'run-1:publish-post' })).rejects.toThrow('PDS timeout')
+    expect(charge).toHaveBeenCalledTimes(1)
+
+    await bot.post('gm', undefined, undefined, { idempotencyKey: 'run-1:publish-post' })
+
+    expect(network.allPosts()).toHaveLength(1)
+    expect(charge).toHaveBeenCalledTimes(1)
+  })
+
+  it('leaves writes without a key alone', async () => {
+    const bot = await client()
+    await bot.post('one')
+    await bot.post('one')
+
+    expect(network.allPosts()).toHaveLength(2)
+    expect(db.table('bluesky_publish_intent')).toHaveLength(0)
+  })
+})
+
+// ---------------------------------------------------------------------------
+// Workflow
+// ---------------------------------------------------------------------------
+
+describe('retried proactive runs', () => {
+  let llm: ScriptedLLM
+
+  beforeEach(() => {
+    // No thread, image, self-reply or callback rolls
+    vi.spyOn(Math, 'random').mockReturnValue(0.99)
+    llm = new ScriptedLLM()
+    llm.install()
+    db.seed('pet', [{ id: 'alpha', name: 'ALPHA', meme: {} }])
+    db.seed('bluesky_bot_config', [{
+      id: 'config-alpha',
+      pet_id: 'alpha',
+      handle: ALPHA.handle,
+      did: ALPHA.did,
+      app_password: 'simulated',
+      is_active: true,
+      publish_mode: 'auto',
+    }])
+  })
+
+  afterEach(() => {
+    llm.uninstall()
+  })
+
+  it('publishes once when the publish step is retried', async () => {
+    await new BlueskyAgentWorkflow(
+      new RetryingContext({ mode: 'proactive' as const, petId: 'alpha' }, 'run-1', 'publish-post').asWorkflowContext(),
+      { createBotClient: config => network.createClient(config) }
+    ).execute()
+
+    expect(network.allPosts()).toHaveLength(1)
+    const logged = db.table('bluesky_post_log').filter(r => r.activity_type === 'proactive_post')
+    expect(logged.map(r => r.post_uri)).toEqual([network.allPosts()[0].uri])
+    expect(db.table('bluesky_publish_intent')).toEqual([
+      expect.objectContaining({ idempotency_key: 'run-1:publish-post', record_uri: network.allPosts()[0].uri }),
+    ])
+  })
+
+  it('publishes the memoized self-reply once when its publish step is retried', async () => {
+    await new BlueskyAgentWorkflow(
+      new SelfReplyingContext({ mode: 'proactive' as const, petId: 'alpha' }, 'run-1', 'publish-self-reply').asWorkflowContext(),
+      { createBotClient: config => network.createClient(config) }
+    ).execute()
+
+    const [post, selfReply] = network.allPosts()
+    expect(network.allPosts()).toHaveLength(2)
+    expect(selfReply.reply?.parent.uri).toBe(post.uri)
+    expect(db.table('bluesky_post_log').filter(r => r.activity_type === 'proactive_self_reply')).toHaveLength(1)
+  })
+})
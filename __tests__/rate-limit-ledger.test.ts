@@ -0,0 +1,294 @@
+/**
+ * Rate Limit Ledger Tests
+ *
+ * Covers the shared token buckets (hourly and daily budgets, refill,
+ * refusals that take nothing), reservations for multi-post writes,
+ * per-operation point costs charged by the bot client across clients
+ * of the same account, the separate login bucket, the in-process
+ * fallback when the ledger is down, and threads reserving their points
+ * up front.
+ *
+ * @module rate-limit-ledger-tests
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+
+vi.hoisted(() => {
+  process.env.ENABLE_BLUESKY_AGENT = 'true'
+})
+
+import { setServiceSupabaseOverride } from '../lib/api/service-supabase'
+import { InMemorySupabase } from '../lib/simulation/in-memory-supabase'
+import { InMemoryBlueskyNetwork } from '../lib/simulation/in-memory-bluesky'
+import { InMemoryRateLimitLedger } from '../lib/simulation/in-memory-rate-limit-ledger'
+import { FakeWorkflowContext } from '../lib/simulation/fake-workflow-context'
+import { ScriptedLLM } from '../lib/simulation/scripted-llm'
+import { BlueskyAgentWorkflow } from '../lib/workflows/bluesky-agent-workflow'
+import { AT_PROTO_RATE_LIMITS } from '../lib/config/bluesky.config'
+import {
+  FallbackRateLimiter,
+  RateLimitExceededError,
+  setFallbackRateLimiterOverride,
+} from '../lib/services/rate-limit-ledger'
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+
+const { POINTS_PER_HOUR, POINTS_PER_DAY } = AT_PROTO_RATE_LIMITS
+const ALPHA = {
+  petId: 'alpha',
+  handle: 'alpha.sim.test',
+  did: 'did:sim:alpha.sim.test',
+  appPassword: 'simulated',
+}
+
+function clock(start = Date.parse('2026-03-10T12:00:00Z')) {
+  let now = start
+  return {
+    now: () => now,
+    advance: (seconds: number) => { now += seconds * 1000 },
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Ledger
+// ---------------------------------------------------------------------------
+
+describe('InMemoryRateLimitLedger', () => {
+  it('refuses a charge the hourly bucket cannot cover, without taking anything', async () => {
+    const time = clock()
+    const ledger = new InMemoryRateLimitLedger(time.now)
+
+    expect(await ledger.charge('alpha', POINTS_PER_HOUR - 2)).toMatchObject({ allowed: true, hourRemaining: 2 })
+    const refused = await ledger.charge('alpha', 3)
+    expect(refused).toMatchObject({ allowed: false, hourRemaining: 2 })
+    // One point refills every 0.72s
+    expect(refused.retryAfterSeconds).toBe(1)
+
+    expect(await ledger.charge('alpha', 2)).toMatchObject({ allowed: true, hourRemaining: 0 })
+    expect(await ledger.charge('beta', 3)).toMatchObject({ allowed: true })
+  })
+
+  it('refills continuously until the daily budget runs out', async () => {
+    const time = clock()
+    const ledger = new InMemoryRateLimitLedger(time.now)
+
+    // A full hourly budget every hour outruns the daily refill within a day
+    let hours = 0
+    let charge = await ledger.charge('alpha', POINTS_PER_HOUR)
+    while (charge.allowed) {
+      hours++
+      time.advance(3600)
+      charge = await ledger.charge('alpha', POINTS_PER_HOUR)
+    }
+
+    expect(hours).toBeGreaterThan(POINTS_PER_DAY / POINTS_PER_HOUR)
+    expect(hours).toBeLessThan(24)
+    expect(charge).toMatchObject({ allowed: false, hourRemaining: POINTS_PER_HOUR })
+    expect(charge.dayRemaining).toBeLessThan(POINTS_PER_HOUR)
+    expect(charge.retryAfterSeconds).toBeGreaterThan(0)
+  })
+
+  it('never overspends under concurrent charges', async () => {
+    const ledger = new InMemoryRateLimitLedger(clock().now)
+    const charges = await Promise.all(Array.from({ length: 2000 }, () => ledger.charge('alpha', 3)))
+    expect(charges.filter(c => c.allowed)).toHaveLength(Math.floor(POINTS_PER_HOUR / 3))
+  })
+
+  it('charges writes against a reservation and refunds what is left', async () => {
+    const ledger = new InMemoryRateLimitLedger(clock().now)
+
+    const reservation = await ledger.reserve('alpha', 12)
+    expect(reservation).toMatchObject({ allowed: true, hourRemaining: POINTS_PER_HOUR - 12 })
+
+    await ledger.charge('alpha', 3, reservation.reservationId!)
+    await ledger.charge('alpha', 3, reservation.reservationId!)
+    expect(ledger.remaining('alpha').hourRemaining).toBe(POINTS_PER_HOUR - 12)
+
+    // Another pet can't spend it
+    await ledger.charge('beta', 3, reservation.reservationId!)
+    expect(ledger.remaining('beta').hourRemaining).toBe(POINTS_PER_HOUR - 3)
+
+    expect(await ledger.release(reservation.reservationId!)).toBe(6)
+    expect(ledger.remaining('alpha').hourRemaining).toBe(POINTS_PER_HOUR - 6)
+    expect(await ledger.release(reservation.reservationId!)).toBe(0)
+  })
+
+  it('turns down reservations the budget cannot cover and forgets expired ones', async () => {
+    const time = clock()
+    const ledger = new InMemoryRateLimitLedger(time.now)
+
+    expect(await ledger.reserve('alpha', POINTS_PER_DAY)).toMatchObject({ allowed: false, reservationId: null })
+
+    const reservation = await ledger.reserve('alpha', 9, 60)
+    time.advance(61)
+    // Lapsed: the write is charged to the buckets, and nothing comes back
+    expect(await ledger.charge('alpha', 3, reservation.reservationId!)).toMatchObject({ allowed: true })
+    expect(await ledger.release(reservation.reservationId!)).toBe(0)
+  })
+})
+
+// ---------------------------------------------------------------------------
+// Bot client
+// ---------------------------------------------------------------------------
+
+describe('bot client point charges', () => {
+  let network: InMemoryBlueskyNetwork
+
+  beforeEach(() => {
+    network = new InMemoryBlueskyNetwork()
+    network.registerAccount({ did: ALPHA.did, handle: ALPHA.handle, isBot: true })
+  })
+
+  afterEach(() => {
+    setFallbackRateLimiterOverride(null)
+    vi.restoreAllMocks()
+  })
+
+  it('charges each operation its cost to the account, shared across clients', async () => {
+    const first = network.createClient(ALPHA)
+    await first.authenticate()
+    const second = network.createClient(ALPHA)
+    await second.authenticate()
+
+    const post = await first.post('gm', new Uint8Array([1]))
+    await second.like(post.uri)
+    await second.searchPosts({ query: 'gm' })
+
+    const { POINTS_PER_POST, POINTS_PER_BLOB_UPLOAD, POINTS_PER_LIKE, POINTS_PER_SEARCH } = AT_PROTO_RATE_LIMITS
+    const spent = POINTS_PER_POST + POINTS_PER_BLOB_UPLOAD + POINTS_PER_LIKE + POINTS_PER_SEARCH
+    expect(network.rateLimits.remaining('alpha').hourRemaining).toBe(POINTS_PER_HOUR - spent)
+    // The second client resumed the session: one login, from its own bucket
+    expect(network.rateLimits.loginsRemaining('alpha').hourRemaining).toBe(AT_PROTO_RATE_LIMITS.LOGINS_PER_HOUR - 1)
+  })
+
+  it('refuses logins once the login bucket is empty, leaving the points alone', async () => {
+    for (let i = 0; i < AT_PROTO_RATE_LIMITS.LOGINS_PER_HOUR; i++) await network.rateLimits.chargeLogin('alpha')
+
+    await expect(network.createClient(ALPHA).authenticate()).rejects.toBeInstanceOf(RateLimitExceededError)
+    expect(network.rateLimits.remaining('alpha').hourRemaining).toBe(POINTS_PER_HOUR)
+  })
+
+  it('falls back to conservative in-process caps when the ledger is down', async () => {
+    setFallbackRateLimiterOverride(new FallbackRateLimiter())
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    vi.spyOn(network.rateLimits, 'charge').mockRejectedValue(new Error('connection reset'))
+    const client = network.createClient(ALPHA)
+    await client.authenticate()
+
+    const postsAllowed = Math.floor(AT_PROTO_RATE_LIMITS.FALLBACK_POINTS_PER_HOUR / AT_PROTO_RATE_LIMITS.POINTS_PER_POST)
+    for (let i = 0; i < postsAllowed; i++) await client.post(`post ${i}`)
+    await expect(client.post('one too many')).rejects.toBeInstanceOf(RateLimitExceededError)
+    expect(network.allPosts()).toHaveLength(postsAllowed)
+  })
+
+  it('throws RateLimitExceededError once the budget is spent', async () => {
+    const client = network.createClient(ALPHA)
+    await client.authenticate()
+    await network.rateLimits.charge('alpha', network.rateLimits.remaining('alpha').hourRemaining - 1)
+
+    const error = await client.post('one too many').catch(e => e)
+    expect(error).toBeInstanceOf(RateLimitExceededError)
+    expect(error.retryAfterSeconds).toBeGreaterThan(0)
+    expect(network.allPosts()).toHaveLength(0)
+  })
+
+  it('reserves points for several writes up front', async () => {
+    const client = network.createClient(ALPHA)
+    await client.authenticate()
+
+    const reservationId = await client.reservePoints('post', 3)
+    const writer = network.createClient(ALPHA)
+    await writer.authenticate()
+    writer.useReservation(reservationId)
+    await writer.post('1/2')
+    await writer.post('2/2')
+    expect(await client.releaseReservation(reservationId!)).toBe(AT_PROTO_RATE_LIMITS.POINTS_PER_POST)
+
+    await network.rateLimits.charge('alpha', network.rateLimits.remaining('alpha').hourRemaining)
+    await expect(client.reservePoints('post', 2)).rejects.toBeInstanceOf(RateLimitExceededError)
+  })
+})
+
+// ---------------------------------------------------------------------------
+// Workflow
+// ---------------------------------------------------------------------------
+
+describe('proactive threads', () => {
+  let db: InMemorySupabase
+  let network: InMemoryBlueskyNetwork
+  let llm: ScriptedLLM
+
+  beforeEach(() => {
+    // Low enough to roll a thread, above the callback probability
+    vi.spyOn(Math, 'random').mockReturnValue(0.1)
+    db = new InMemorySupabase()
+    setServiceSupabaseOverride(db as never)
+    network = new InMemoryBlueskyNetwork()
+    llm = new ScriptedLLM({
+      scripts: {
+        post: request => request.prompt.includes('posting a THREAD')
+          ? {
+              isThread: true,
+              posts: [1, 2, 3].map(n => ({ text: `nap thoughts ${n}/3`, sequenceNumber: n })),
+              overallMood: 'sleepy',
+              threadTheme: 'naps',
+              topicTag: 'naps',
+              threadDigest: 'a thread about naps',
+            }
+          : undefined,
+      },
+    })
+    llm.install()
+
+    network.registerAccount({ did: ALPHA.did, handle: ALPHA.handle, isBot: true })
+    db.seed('pet', [{ id: 'alpha', name: 'ALPHA', meme: {} }])
+    db.seed('bluesky_bot_config', [{
+      id: 'config-alpha',
+      pet_id: 'alpha',
+      handle: ALPHA.handle,
+      did: ALPHA.did,
+      app_password: 'simulated',
+      is_active: true,
+      publish_mode: 'auto',
+    }])
+  })
+
+  afterEach(() => {
+    llm.uninstall()
+    setServiceSupabaseOverride(null)
+    vi.restoreAllMocks()
+  })
+
+  function run() {
+    return new BlueskyAgentWorkflow(
+      new FakeWorkflowContext({ mode: 'proactive', petId: 'alpha' }, 'test-run').asWorkflowContext(),
+      { createBotClient: config => network.createClient(config) }
+    ).execute()
+  }
+
+  it('posts every thread post against one reservation', async () => {
+    const charge = vi.spyOn(network.rateLimits, 'charge')
+    const release = vi.spyOn(network.rateLimits, 'release')
+
+    await run()
+
+    expect(network.allPosts().map(p => p.text)).toEqual(['nap thoughts 1/3', 'nap thoughts 2/3', 'nap thoughts 3/3'])
+    const postCharges = charge.mock.calls.filter(([, points, reservationId]) => points === AT_PROTO_RATE_LIMITS.POINTS_PER_POST && reservationId)
+    expect(postCharges.map(([, , reservationId]) => reservationId)).toEqual(['reservation-1', 'reservation-1', 'reservation-1'])
+    expect(release).toHaveBeenCalledWith('reservation-1')
+    expect(await release.mock.results[0].value).toBe(0)
+  })
+
+  it('skips a thread the remaining points cannot cover', async () => {
+    await network.createClient(ALPHA).authenticate()
+    await network.rateLimits.charge('alpha', network.rateLimits.remaining('alpha').hourRemaining - 5)
+
+    await run()
+
+    expect(network.allPosts()).toHaveLength(0)
+    const skip = db.table('bluesky_post_log').find(row => row.activity_type === 'proactive_post_skipped')
+    expect(skip?.metadata).toMatchObject({ reason: 'rate_limited', threadLength: 3 })
+  })
+})
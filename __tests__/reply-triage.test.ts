@@ -0,0 +1,278 @@
+/**
+ * Reply Triage Tests
+ *
+ * Covers classifying inbound notifications, scoring them against the
+ * pet's approachability, author history (snoozes, cross-pet reply quota,
+ * bot loops) and the reactive workflow liking, ignoring or snoozing
+ * instead of generating a reply.
+ *
+ * @module reply-triage-tests
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+
+vi.hoisted(() => {
+  process.env.ENABLE_BLUESKY_AGENT = 'true'
+})
+
+import { setServiceSupabaseOverride } from '../lib/api/service-supabase'
+import { InMemorySupabase } from '../lib/simulation/in-memory-supabase'
+import { InMemoryBlueskyNetwork } from '../lib/simulation/in-memory-bluesky'
+import { FakeWorkflowContext } from '../lib/simulation/fake-workflow-context'
+import { ScriptedLLM } from '../lib/simulation/scripted-llm'
+import { BlueskyAgentWorkflow } from '../lib/workflows/bluesky-agent-workflow'
+import { TRIAGE_CONFIG } from '../lib/config/triage.config'
+import type { SafetyVerdict } from '../lib/workflows/modules/content-safety'
+import {
+  classifyNotification,
+  isLowEffort,
+  loadAuthorHistory,
+  triageNotification,
+  type AuthorHistory,
+  type TriageInput,
+} from '../lib/workflows/modules/reply-triage'
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+
+const NOW = new Date('2026-03-10T15:00:00Z')
+const HOUR = 60 * 60 * 1000
+
+const SAFE: SafetyVerdict = { allowed: true, category: null, score: 0, source: 'keyword', scores: {} }
+const HARASSMENT: SafetyVerdict = { allowed: false, category: 'harassment', score: 0.9, source: 'llm', scores: { harassment: 0.9 } }
+const NEW_AUTHOR: AuthorHistory = { snoozedByPet: false, excluded: false, repliesAllPets: 0, recentNotifications: 0 }
+
+function input(text: string, overrides: Partial<TriageInput> = {}): TriageInput {
+  return {
+    text,
+    fromOtherPet: false,
+    safety: SAFE,
+    socialStyle: { approachability: 0.5, competitiveness: 0.5, dramaTendency: 0.5, loyaltyDepth: 0.5 },
+    history: NEW_AUTHOR,
+    ...overrides,
+  }
+}
+
+let db: InMemorySupabase
+
+beforeEach(() => {
+  db = new InMemorySupabase()
+  setServiceSupabaseOverride(db as never)
+})
+
+afterEach(() => {
+  setServiceSupabaseOverride(null)
+  vi.restoreAllMocks()
+})
+
+// ---------------------------------------------------------------------------
+// Classification & scoring
+// ---------------------------------------------------------------------------
+
+describe('classifyNotification', () => {
+  it('tells questions, compliments, spam, insults and pets apart', () => {
+    expect(classifyNotification(input('@alpha what is your favorite snack?'))).toBe('question')
+    expect(classifyNotification(input('@alpha your posts are elite honestly'))).toBe('compliment')
+    expect(classifyNotification(input('free crypto airdrop, click here'))).toBe('spam')
+    expect(classifyNotification(input('shut up stupid bot'))).toBe('harassment')
+    expect(classifyNotification(input('just saw a dog'))).toBe('other')
+    expect(classifyNotification(input('shut up, loser', { fromOtherPet: true }))).toBe('other_pet')
+    expect(classifyNotification(input('you are a menace', { fromOtherPet: true, safety: HARASSMENT }))).toBe('harassment')
+  })
+
+  it('spots an author pinging pets in a loop', () => {
+    const history = { ...NEW_AUTHOR, recentNotifications: TRIAGE_CONFIG.BOT_LOOP.MAX_NOTIFICATIONS }
+    expect(triageNotification(input('beep boop reply to me', { history }))).toMatchObject({ category: 'bot_loop', action: 'ignore' })
+  })
+})
+
+describe('triageNotification', () => {
+  it('treats one-word replies as low effort', () => {
+    expect(isLowEffort('@alpha.sim.test lol')).toBe(true)
+    expect(isLowEffort('😂😂')).toBe(true)
+    expect(isLowEffort('lol that is so true')).toBe(false)
+  })
+
+  it("lets the pet's approachability decide what low-effort replies get", () => {
+    const actionFor = (approachability: number) => triageNotification(input('lol', {
+      socialStyle: { approachability, competitiveness: 0, dramaTendency: 0, loyaltyDepth: 0 },
+    })).action
+    expect([0, 0.5, 1].map(actionFor)).toEqual(['ignore', 'like', 'reply'])
+    expect(triageNotification(input('what are you up to today?'))).toMatchObject({ action: 'reply', category: 'question' })
+  })
+
+  it('snoozes harassment and spam from people, not from pets', () => {
+    expect(triageNotification(input('kys', { safety: SAFE }))).toMatchObject({ action: 'snooze', reason: 'harassment' })
+    expect(triageNotification(input('dm me for a promo code'))).toMatchObject({ action: 'snooze', reason: 'spam' })
+    expect(triageNotification(input('you are a menace', { fromOtherPet: true, safety: HARASSMENT }))).toMatchObject({ action: 'ignore' })
+  })
+
+  it('likes instead of replying once the author used up their quota', () => {
+    const history = { ...NEW_AUTHOR, repliesAllPets: TRIAGE_CONFIG.AUTHOR_QUOTA.MAX_REPLIES }
+    expect(triageNotification(input('what do you think about naps?', { history }))).toMatchObject({ action: 'like', reason: 'author_quota' })
+    expect(triageNotification(input('hey, how are you?', { fromOtherPet: true, history }))).toMatchObject({ action: 'reply' })
+  })
+
+  it('ignores snoozed authors', () => {
+    expect(triageNotification(input('sorry, are we cool now?', { history: { ...NEW_AUTHOR, snoozedByPet: true } })))
+      .toMatchObject({ action: 'ignore', reason: 'author_snoozed' })
+  })
+})
+
+// ---------------------------------------------------------------------------
+// Author history
+// ---------------------------------------------------------------------------
+
+describe('loadAuthorHistory', () => {
+  function triaged(petId: string, action: string, hoursAgo: number, authorDid = 'did:sim:human') {
+    db.seed('bluesky_reply_triage', [{
+      pet_id: petId,
+      author_did: authorDid,
+      notification_uri: `at://n/${db.table('bluesky_reply_triage').length + 1}`,
+      category: 'other',
+      action,
+      created_at: new Date(NOW.getTime() - hoursAgo * HOUR).toISOString(),
+    }])
+  }
+
+  function replied(petId: string, hoursAgo: number, authorDid = 'did:sim:human', activityType = 'reactive_reply') {
+    db.seed('bluesky_post_log', [{
+      pet_id: petId,
+      activity_type: activityType,
+      metadata: { inReplyToAuthorDid: authorDid },
+      created_at: new Date(NOW.getTime() - hoursAgo * HOUR).toISOString(),
+    }])
+  }
+
+  it('counts sent replies across all pets, recent pings and this pet’s snoozes', async () => {
+    replied('alpha', 2)
+    replied('beta', 5)
+    replied('beta', TRIAGE_CONFIG.AUTHOR_QUOTA.WINDOW_HOURS + 1)
+    replied('alpha', 0.1, 'did:sim:someone-else')
+    triaged('gamma', 'snooze', 0.1)
+    triaged('alpha', 'reply', 0.1, 'did:sim:someone-else')
+
+    expect(await loadAuthorHistory('alpha', 'did:sim:human', NOW)).toEqual({
+      snoozedByPet: false,
+      excluded: false,
+      repliesAllPets: 2,
+      recentNotifications: 1,
+    })
+    expect((await loadAuthorHistory('gamma', 'did:sim:human', NOW)).snoozedByPet).toBe(true)
+  })
+
+  it('does not count reply decisions whose reply was skipped', async () => {
+    triaged('alpha', 'reply', 1)
+    triaged('beta', 'reply', 1)
+    replied('alpha', 1, 'did:sim:human', 'reply_skipped')
+    replied('beta', 1, 'did:sim:human', 'review_queued')
+
+    expect((await loadAuthorHistory('alpha', 'did:sim:human', NOW)).repliesAllPets).toBe(0)
+  })
+
+  it('keeps an excluded author excluded when the history query fails', async () => {
+    db.seed('bluesky_abuse_action', [{ pet_id: 'beta', author_did: 'did:sim:human', scope: 'global', action: 'exclude', status: 'active' }])
+    const from = db.from.bind(db)
+    vi.spyOn(db, 'from').mockImplementation(table => {
+      if (table === 'bluesky_reply_triage') throw new Error('connection reset')
+      return from(table)
+    })
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+
+    expect(await loadAuthorHistory('alpha', 'did:sim:human', NOW)).toMatchObject({ excluded: true, repliesAllPets: 0 })
+  })
+})
+
+// ---------------------------------------------------------------------------
+// Workflow
+// ---------------------------------------------------------------------------
+
+describe('reactive replies with triage', () => {
+  let network: InMemoryBlueskyNetwork
+  let llm: ScriptedLLM
+
+  async function mention(text: string) {
+    const post = network.publish({ authorDid: 'did:sim:human', text })
+    await new BlueskyAgentWorkflow(
+      new FakeWorkflowContext({
+        mode: 'reactive',
+        petId: 'alpha',
+        notification: {
+          uri: post.uri,
+          cid: post.cid,
+          authorHandle: 'human.sim.test',
+          authorDid: 'did:sim:human',
+          text,
+          reason: 'mention',
+        },
+      }, 'test-run').asWorkflowContext(),
+      { createBotClient: config => network.createClient(config) }
+    ).execute()
+    return post
+  }
+
+  function activity(type: string) {
+    return db.table('bluesky_post_log').filter(row => row.activity_type === type)
+  }
+
+  beforeEach(() => {
+    network = new InMemoryBlueskyNetwork()
+    network.registerAccount({ did: 'did:sim:alpha.sim.test', handle: 'alpha.sim.test', isBot: true })
+    network.registerAccount({ did: 'did:sim:human', handle: 'human.sim.test', isBot: false })
+    db.seed('pet', [{ id: 'alpha', name: 'ALPHA', meme: {} }])
+    db.seed('bluesky_bot_config', [{
+      id: 'config-alpha',
+      pet_id: 'alpha',
+      handle: 'alpha.sim.test',
+      did: 'did:sim:alpha.sim.test',
+      app_password: 'simulated',
+      is_active: true,
+      publish_mode: 'auto',
+    }])
+    llm = new ScriptedLLM()
+    llm.install()
+  })
+
+  afterEach(() => {
+    llm.uninstall()
+  })
+
+  it('replies to a question', async () => {
+    await mention('@alpha.sim.test what did you have for breakfast?')
+
+    expect(activity('reactive_reply')).toHaveLength(1)
+    expect(db.table('bluesky_reply_triage')).toEqual([
+      expect.objectContaining({ pet_id: 'alpha', author_did: 'did:sim:human', category: 'question', action: 'reply' }),
+    ])
+  })
+
+  it('snoozes a harasser without generating a reply, then ignores them', async () => {
+    await mention('@alpha.sim.test shut up, stupid bot')
+    await mention('@alpha.sim.test ok fine what is your favorite meme?')
+
+    expect(llm.countByTask().reply).toBeUndefined()
+    expect(network.allPosts()).toHaveLength(2)
+    expect(activity('reply_skipped').map(row => row.metadata)).toEqual([
+      expect.objectContaining({ reason: 'triage_snooze', triageCategory: 'harassment', inReplyToAuthorDid: 'did:sim:human' }),
+      expect.objectContaining({ reason: 'triage_ignore', triageReason: 'author_snoozed' }),
+    ])
+  })
+
+  it('likes a quota-capped author instead of replying', async () => {
+    db.seed('bluesky_post_log', Array.from({ length: TRIAGE_CONFIG.AUTHOR_QUOTA.MAX_REPLIES }, () => ({
+      pet_id: 'beta',
+      activity_type: 'reactive_reply',
+      metadata: { inReplyToAuthorDid: 'did:sim:human' },
+      created_at: new Date(Date.now() - HOUR).toISOString(),
+    })))
+
+    const post = await mention('@alpha.sim.test do you like rainy days?')
+
+    expect(network.getPost(post.uri)!.likedBy.has('did:sim:alpha.sim.test')).toBe(true)
+    expect(activity('reactive_reply').filter(row => row.pet_id === 'alpha')).toEqual([])
+    expect(activity('reactive_like')).toEqual([
+      expect.objectContaining({ metadata: expect.objectContaining({ reason: 'triage_like', triageReason: 'author_quota' }) }),
+    ])
+  })
+})
@@ -0,0 +1,413 @@
+/**
+ * Review Queue Tests
+ *
+ * Covers publish-mode resolution (configured mode + recent filter trips),
+ * the workflow parking content instead of publishing, the reviewer
+ * actions (edit / approve / reject) against the in-memory fakes, and
+ * approval applying the pet's memory, mood and episode updates.
+ *
+ * @module review-queue-tests
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+
+vi.hoisted(() => {
+  process.env.ENABLE_BLUESKY_AGENT = 'true'
+})
+
+import { setServiceSupabaseOverride } from '../lib/api/service-supabase'
+import { InMemorySupabase } from '../lib/simulation/in-memory-supabase'
+import { InMemoryBlueskyNetwork } from '../lib/simulation/in-memory-bluesky'
+import { FakeWorkflowContext } from '../lib/simulation/fake-workflow-context'
+import { ScriptedLLM } from '../lib/simulation/scripted-llm'
+import { BlueskyAgentWorkflow, type BlueskyAgentWorkflowRequest } from '../lib/workflows/bluesky-agent-workflow'
+import { PoliticalContentBlockedError } from '../lib/services/bluesky-client'
+import { loadBotMemory } from '../lib/agent/memory/bot-memory-service'
+import {
+  resolvePublishMode,
+  enqueueReviewItem,
+  listReviewItems,
+  editReviewItem,
+  approveReviewItem,
+  rejectReviewItem,
+  ReviewItemStateError,
+} from '../lib/services/review-queue'
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+
+let db: InMemorySupabase
+let network: InMemoryBlueskyNetwork
+let llm: ScriptedLLM
+
+function seedPet(id: string, publishMode: 'auto' | 'review') {
+  const handle = `${id}.sim.test`
+  network.registerAccount({ did: `did:sim:${handle}`, handle, isBot: true })
+  db.seed('pet', [{ id, name: id.toUpperCase(), meme: {} }])
+  db.seed('bluesky_bot_config', [{
+    id: `config-${id}`,
+    pet_id: id,
+    handle,
+    did: `did:sim:${handle}`,
+    app_password: 'simulated',
+    is_active: true,
+    publish_mode: publishMode,
+  }])
+}
+
+async function runWorkflow(request: BlueskyAgentWorkflowRequest) {
+  const context = new FakeWorkflowContext(request, 'test-run')
+  await new BlueskyAgentWorkflow(context.asWorkflowContext(), {
+    createBotClient: config => network.createClient(config),
+    triggerWorkflow: async () => ({ workflowRunId: 'queued' }),
+  }).execute()
+}
+
+const createBotClient = (config: Parameters<InMemoryBlueskyNetwork['createClient']>[0]) =>
+  network.createClient(config)
+
+beforeEach(() => {
+  db = new InMemorySupabase()
+  network = new InMemoryBlueskyNetwork()
+  llm = new ScriptedLLM({
+    scripts: {
+      reply: () => ({ text: 'held for a human', tone: 'friendly', shouldEngage: true }),
+    },
+  })
+  setServiceSupabaseOverride(db as never)
+  llm.install()
+  seedPet('alpha', 'review')
+  seedPet('beta', 'auto')
+  network.registerAccount({ did: 'did:sim:human', handle: 'human.sim.test', isBot: false })
+})
+
+afterEach(() => {
+  llm.uninstall()
+  setServiceSupabaseOverride(null)
+  vi.restoreAllMocks()
+})
+
+// ---------------------------------------------------------------------------
+// Publish mode
+// ---------------------------------------------------------------------------
+
+describe('resolvePublishMode', () => {
+  it('honors the configured mode', async () => {
+    expect(await resolvePublishMode('alpha', 'review')).toBe('review')
+    expect(await resolvePublishMode('beta', 'auto')).toBe('auto')
+  })
+
+  it('forces review after a recent filter trip by the pet itself', async () => {
+    db.seed('bluesky_post_log', [{
+      pet_id: 'beta',
+      activity_type: 'reply_skipped',
+      metadata: { reason: 'political_generated_reply' },
+    }])
+    expect(await resolvePublishMode('beta', 'auto')).toBe('review')
+  })
+
+  it('ignores old trips and skips caused by other people\'s posts', async () => {
+    db.seed('bluesky_post_log', [
+      {
+        pet_id: 'beta',
+        activity_type: 'reply_skipped',
+        metadata: { reason: 'political_generated_reply' },
+        created_at: new Date(Date.now() - 10 * 24 * 60 * 60 * 1000).toISOString(),
+      },
+      { pet_id: 'beta', activity_type: 'reply_skipped', metadata: { reason: 'political_content' } },
+    ])
+    expect(await resolvePublishMode('beta', 'auto')).toBe('auto')
+  })
+})
+
+// ---------------------------------------------------------------------------
+// Workflow integration
+// ---------------------------------------------------------------------------
+
+describe('workflow in review mode', () => {
+  it('queues a reply instead of publishing it', async () => {
+    const mention = network.publish({ authorDid: 'did:sim:human', text: '@alpha.sim.test hello, how was your nap?' })
+
+    await runWorkflow({
+      mode: 'reactive',
+      petId: 'alpha',
+      notification: {
+        uri: mention.uri,
+        cid: mention.cid,
+        authorHandle: 'human.sim.test',
+        authorDid: 'did:sim:human',
+        text: mention.text,
+        reason: 'mention',
+      },
+    })
+
+    expect(network.allPosts()).toHaveLength(1)
+    const [item] = await listReviewItems({ petId: 'alpha' })
+    expect(item.kind).toBe('reply')
+    expect(item.activityType).toBe('reactive_reply')
+    expect(item.payload.text).toBe('held for a human')
+    expect(item.generationContext.notificationText).toBe('@alpha.sim.test hello, how was your nap?')
+
+    // review_queued keeps notification dedup working
+    const queuedLog = db.table('bluesky_post_log').find(r => r.activity_type === 'review_queued')
+    expect((queuedLog?.metadata as Record<string, unknown>).inReplyTo).toBe(mention.uri)
+  })
+
+  it('publishes directly in auto mode', async () => {
+    const mention = network.publish({ authorDid: 'did:sim:human', text: '@beta.sim.test hello, how was your nap?' })
+
+    await runWorkflow({
+      mode: 'reactive',
+      petId: 'beta',
+      notification: {
+        uri: mention.uri,
+        cid: mention.cid,
+        authorHandle: 'human.sim.test',
+        authorDid: 'did:sim:human',
+        text: mention.text,
+        reason: 'mention',
+      },
+    })
+
+    expect(network.allPosts()).toHaveLength(2)
+    expect(await listReviewItems()).toHaveLength(0)
+  })
+})
+
+// ---------------------------------------------------------------------------
+// Reviewer actions
+// ---------------------------------------------------------------------------
+
+describe('reviewer actions', () => {
+  it('edits, approves, publishes and logs', async () => {
+    const id = await enqueueReviewItem({
+      petId: 'alpha',
+      kind: 'post',
+      activityType: 'interaction_initiate',
+      payload: { text: 'draft' },
+      logMetadata: { targetPetId: 'beta', interactionType: 'roast' },
+      relationshipUpdate: { otherPetId: 'beta', interactionType: 'roast' },
+    })
+
+    const edited = await editReviewItem(id, { text: '  @beta.sim.test final version  ' })
+    expect(edited.payload.text).toBe('@beta.sim.test final version')
+    expect(edited.edited).toBe(true)
+
+    const published = await approveReviewItem(id, { note: 'lgtm', createBotClient })
+    expect(published.status).toBe('published')
+    expect(network.getPost(published.publishedUri!)?.text).toBe('@beta.sim.test final version')
+    expect(network.takeUnreadNotifications('did:sim:beta.sim.test')).toHaveLength(1)
+
+    const log = db.table('bluesky_post_log').find(r => r.activity_type === 'interaction_initiate')
+    expect(log?.post_uri).toBe(published.publishedUri)
+    expect(log?.metadata).toMatchObject({
+      targetPetId: 'beta',
+      reviewItemId: id,
+      reviewEdited: true,
+      mentionedDids: ['did:sim:beta.sim.test'],
+    })
+    expect(db.table('pet_relationship')).toHaveLength(1)
+
+    await expect(rejectReviewItem(id)).rejects.toBeInstanceOf(ReviewItemStateError)
+  })
+
+  it('publishes threads as a reply chain', async () => {
+    const id = await enqueueReviewItem({
+      petId: 'alpha',
+      kind: 'thread',
+      activityType: 'proactive_thread',
+      payload: { posts: ['one', 'two', 'three'] },
+    })
+
+    await approveReviewItem(id, { createBotClient })
+
+    const posts = network.allPosts()
+    expect(posts.map(p => p.text)).toEqual(['one', 'two', 'three'])
+    expect(posts[2].reply?.root.uri).toBe(posts[0].uri)
+    expect(posts[2].reply?.parent.uri).toBe(posts[1].uri)
+    const log = db.table('bluesky_post_log').find(r => r.activity_type === 'proactive_thread')
+    expect((log?.metadata as Record<string, unknown>).postUris).toEqual(posts.map(p => p.uri))
+  })
+
+  it('rejects without publishing', async () => {
+    const id = await enqueueReviewItem({ petId: 'alpha', kind: 'post', activityType: 'proactive_post', payload: { text: 'meh' } })
+    const rejected = await rejectReviewItem(id, 'off-brand')
+    expect(rejected.status).toBe('rejected')
+    expect(network.allPosts()).toHaveLength(0)
+    expect(await listReviewItems({ status: 'rejected' })).toHaveLength(1)
+  })
+
+  it('marks the item failed when the guardrail blocks an edited text', async () => {
+    const id = await enqueueReviewItem({ petId: 'alpha', kind: 'post', activityType: 'proactive_post', payload: { text: 'ok' } })
+    await editReviewItem(id, { text: 'vote for trump' })
+
+    await expect(approveReviewItem(id, { createBotClient })).rejects.toBeInstanceOf(PoliticalContentBlockedError)
+    expect((await listReviewItems({ status: 'failed' }))[0].error).toMatch(/Political content blocked/)
+    expect(db.table('bluesky_post_log')).toHaveLength(0)
+  })
+
+  it('publishes once when two reviewers approve at the same time', async () => {
+    const id = await enqueueReviewItem({ petId: 'alpha', kind: 'post', activityType: 'proactive_post', payload: { text: 'once' } })
+
+    const results = await Promise.allSettled([
+      approveReviewItem(id, { createBotClient }),
+      approveReviewItem(id, { createBotClient }),
+    ])
+
+    expect(results.filter(r => r.status === 'fulfilled')).toHaveLength(1)
+    const rejected = results.find(r => r.status === 'rejected') as PromiseRejectedResult
+    expect(rejected.reason).toBeInstanceOf(ReviewItemStateError)
+    expect(network.allPosts()).toHaveLength(1)
+    expect(db.table('bluesky_post_log')).toHaveLength(1)
+  })
+
+  it('lets a failed item be edited and approved again', async () => {
+    const id = await enqueueReviewItem({ petId: 'alpha', kind: 'post', activityType: 'proactive_post', payload: { text: 'ok' } })
+    await editReviewItem(id, { text: 'vote for trump' })
+    await expect(approveReviewItem(id, { createBotClient })).rejects.toBeInstanceOf(PoliticalContentBlockedError)
+
+    await editReviewItem(id, { text: 'second try' })
+    const published = await approveReviewItem(id, { createBotClient })
+
+    expect(published.status).toBe('published')
+    expect(network.allPosts().map(p => p.text)).toEqual(['second try'])
+    expect((await listReviewItems({ status: 'published' }))[0].error).toBeNull()
+  })
+
+  it('resumes a failed thread without reposting what went out', async () => {
+    const id = await enqueueReviewItem({ petId: 'alpha', kind: 'thread', activityType: 'proactive_thread', payload: { posts: ['one', 'two', 'three'] } })
+    const publish = network.publish.bind(network)
+    vi.spyOn(network, 'publish')
+      .mockImplementationOnce(publish)
+      .mockImplementationOnce(() => { throw new Error('PDS timeout') })
+
+    await expect(approveReviewItem(id, { createBotClient })).rejects.toThrow('PDS timeout')
+    expect(network.allPosts().map(p => p.text)).toEqual(['one'])
+
+    await approveReviewItem(id, { createBotClient })
+
+    const posts = network.allPosts()
+    expect(posts.map(p => p.text)).toEqual(['one', 'two', 'three'])
+    expect(posts[1].reply?.root.uri).toBe(posts[0].uri)
+  })
+
+  it('validates edits', async () => {
+    const id = await enqueueReviewItem({ petId: 'alpha', kind: 'thread', activityType: 'proactive_thread', payload: { posts: ['a'] } })
+    await expect(editReviewItem(id, { text: 'not a thread edit' })).rejects.toBeInstanceOf(RangeError)
+    await expect(editReviewItem(id, { posts: ['x'.repeat(400)] })).rejects.toBeInstanceOf(RangeError)
+  })
+
+  it('refuses to edit an item an approval is publishing', async () => {
+    const id = await enqueueReviewItem({ petId: 'alpha', kind: 'post', activityType: 'proactive_post', payload: { text: 'ok' } })
+    db.table('bluesky_review_queue')[0].status = 'publishing'
+    db.table('bluesky_review_queue')[0].claimed_at = new Date().toISOString()
+
+    await expect(editReviewItem(id, { text: 'sneaky' })).rejects.toBeInstanceOf(ReviewItemStateError)
+    await expect(approveReviewItem(id, { createBotClient })).rejects.toBeInstanceOf(ReviewItemStateError)
+  })
+
+  it('reclaims an approval that died while publishing', async () => {
+    const id = await enqueueReviewItem({ petId: 'alpha', kind: 'post', activityType: 'proactive_post', payload: { text: 'once' } })
+    vi.spyOn(network, 'publish').mockImplementationOnce(() => { throw new Error('PDS timeout') })
+    await expect(approveReviewItem(id, { createBotClient })).rejects.toThrow('PDS timeout')
+    // An approval that timed out never got to mark the item failed
+    db.table('bluesky_review_queue')[0].status = 'publishing'
+    db.table('bluesky_review_queue')[0].claimed_at = new Date(Date.now() - 30 * 60 * 1000).toISOString()
+
+    const published = await approveReviewItem(id, { createBotClient })
+
+    expect(published.status).toBe('published')
+    expect(network.allPosts()).toHaveLength(1)
+  })
+
+  it('ends published with the error kept when follow-up bookkeeping fails', async () => {
+    const id = await enqueueReviewItem({ petId: 'alpha', kind: 'post', activityType: 'proactive_post', payload: { text: 'out' } })
+    const from = db.from.bind(db)
+    vi.spyOn(db, 'from').mockImplementation(table => {
+      if (table === 'bluesky_post_log') throw new Error('connection reset')
+      return from(table)
+    })
+
+    await expect(approveReviewItem(id, { createBotClient })).rejects.toThrow('connection reset')
+
+    const [item] = await listReviewItems({ status: 'published' })
+    expect(item.publishedUri).toBe(network.allPosts()[0].uri)
+    expect(item.error).toMatch(/Published, but follow-up failed: connection reset/)
+  })
+})
+
+// ---------------------------------------------------------------------------
+// Pet state on approval
+// ---------------------------------------------------------------------------
+
+describe('approval updates the pet like a direct publish', () => {
+  it('saves memory, mood and an episode for a proactive post', async () => {
+    const moodState = { pleasure: 0.4, arousal: 0.2, dominance: 0, currentEmotion: 'smug', lastUpdated: new Date().toISOString() }
+    const id = await enqueueReviewItem({
+      petId: 'alpha',
+      kind: 'post',
+      activityType: 'proactive_post',
+      payload: { text: 'naps are a lifestyle' },
+      logMetadata: { mood: 'smug', intentType: 'hot_take', topicTag: 'naps' },
+      generationContext: { mode: 'proactive', moodState, postDigest: 'nap manifesto', narrativeUpdate: 'the nap era' },
+    })
+
+    const published = await approveReviewItem(id, { createBotClient })
+
+    const memory = await loadBotMemory('alpha')
+    expect(memory.recentPosts[0]).toMatchObject({ gist: 'nap manifesto', topic: 'naps', intentType: 'hot_take' })
+    expect(memory.topicCooldowns.naps).toBeDefined()
+    expect(memory.narrativeArc).toBe('the nap era')
+    expect(memory.moodState).toEqual(moodState)
+    expect(db.table('pet_mood_event')).toEqual([
+      expect.objectContaining({ pet_id: 'alpha', event_type: 'posted_successfully', source_uri: published.publishedUri }),
+    ])
+    expect(db.table('bluesky_memory_episode')).toEqual([
+      expect.objectContaining({ pet_id: 'alpha', kind: 'post', topic: 'naps', post_uri: published.publishedUri }),
+    ])
+  })
+
+  it('records a thread digest once for the whole thread', async () => {
+    const id = await enqueueReviewItem({
+      petId: 'alpha',
+      kind: 'thread',
+      activityType: 'proactive_thread',
+      payload: { posts: ['one', 'two'] },
+      logMetadata: { overallMood: 'chaotic', topicTag: 'vacuum' },
+      generationContext: { mode: 'proactive', threadDigest: 'vacuum saga', narrativeUpdate: 'war on the vacuum' },
+    })
+
+    await approveReviewItem(id, { createBotClient })
+
+    const memory = await loadBotMemory('alpha')
+    expect(memory.recentPosts).toHaveLength(1)
+    expect(memory.recentPosts[0]).toMatchObject({ gist: 'vacuum saga', intentType: 'thread' })
+    expect(memory.narrativeArc).toBe('war on the vacuum')
+    expect(db.table('bluesky_memory_episode')).toHaveLength(1)
+  })
+
+  it('records interaction mood on both pets', async () => {
+    const id = await enqueueReviewItem({
+      petId: 'alpha',
+      kind: 'post',
+      activityType: 'interaction_initiate',
+      payload: { text: '@beta.sim.test you are overrated' },
+      logMetadata: { targetPetId: 'beta', interactionType: 'beef' },
+      generationContext: { mode: 'interaction' },
+      relationshipUpdate: { otherPetId: 'beta', interactionType: 'beef' },
+    })
+
+    await approveReviewItem(id, { createBotClient })
+
+    expect(db.table('pet_mood_event').map(r => [r.pet_id, r.event_type])).toEqual([
+      ['alpha', 'beef_interaction'],
+      ['beta', 'beef_interaction'],
+    ])
+    expect(db.table('bluesky_memory_episode')[0]).toMatchObject({
+      kind: 'interaction',
+      partner_pet_id: 'beta',
+      partner_handle: '@beta.sim.test',
+    })
+  })
+})
@@ -0,0 +1,297 @@
+/**
+ * Running Themes Tests
+ *
+ * Covers starting and continuing running bits from published posts,
+ * the active → cooling-off → retired schedule, picking a retired bit
+ * for a callback, and the proactive workflow keeping runningThemes up
+ * to date and asking for the callback.
+ *
+ * @module running-themes-tests
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+
+vi.hoisted(() => {
+  process.env.ENABLE_BLUESKY_AGENT = 'true'
+})
+
+import { setServiceSupabaseOverride } from '../lib/api/service-supabase'
+import { InMemorySupabase } from '../lib/simulation/in-memory-supabase'
+import { InMemoryBlueskyNetwork } from '../lib/simulation/in-memory-bluesky'
+import { FakeWorkflowContext } from '../lib/simulation/fake-workflow-context'
+import { ScriptedLLM } from '../lib/simulation/scripted-llm'
+import { BlueskyAgentWorkflow } from '../lib/workflows/bluesky-agent-workflow'
+import { THEME_CONFIG } from '../lib/config/themes.config'
+import { appendPostToMemory } from '../lib/agent/memory/bot-memory-service'
+import { buildMemoryContext } from '../lib/agent/memory/memory-prompt-builder'
+import {
+  advanceThemeLifecycle,
+  findContinuedTheme,
+  pickCallbackTheme,
+  trackRunningThemes,
+} from '../lib/agent/memory/running-themes'
+import type { BotMemory, RecentPostDigest, RunningTheme } from '../lib/agent/types/bot-memory'
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+
+const NOW = new Date('2026-03-10T12:00:00Z')
+const DAY = 24 * 60 * 60 * 1000
+
+function daysAgo(days: number, from: Date = NOW): string {
+  return new Date(from.getTime() - days * DAY).toISOString()
+}
+
+function memoryWith(runningThemes: RunningTheme[], recentPosts: RecentPostDigest[] = []): BotMemory {
+  return {
+    version: 2,
+    updatedAt: daysAgo(1),
+    recentPosts,
+    topicCooldowns: {},
+    runningThemes,
+    relationships: [],
+    narrativeArc: '',
+    currentMood: 'neutral',
+    avoidList: [],
+    episodesBackfilledAt: daysAgo(30),
+  }
+}
+
+function theme(overrides: Partial<RunningTheme> = {}): RunningTheme {
+  return {
+    description: 'feud with the roomba',
+    topic: 'roomba',
+    startedAt: daysAgo(3),
+    lastMentionedAt: daysAgo(1),
+    statusChangedAt: daysAgo(3),
+    mentionCount: 2,
+    status: 'active',
+    ...overrides,
+  }
+}
+
+function post(overrides: Partial<RecentPostDigest> = {}): RecentPostDigest {
+  return { postedAt: NOW.toISOString(), gist: 'a thought', mood: 'smug', topic: 'misc', intentType: 'thought', ...overrides }
+}
+
+/** Append the post first, as the workflow does */
+function track(memory: BotMemory, digest: RecentPostDigest, callbackTo?: string) {
+  return trackRunningThemes(appendPostToMemory(memory, digest), digest, { callbackTo, now: NOW })
+}
+
+// ---------------------------------------------------------------------------
+// Tracking
+// ---------------------------------------------------------------------------
+
+describe('trackRunningThemes', () => {
+  it('continues a bit by topic tag or by gist', () => {
+    const themes = [theme()]
+    expect(findContinuedTheme(themes, post({ topic: '#Roomba' }))).toBe(themes[0])
+    expect(findContinuedTheme(themes, post({ gist: 'the roomba feud escalates' }))).toBe(themes[0])
+    expect(findContinuedTheme(themes, post({ gist: 'thinking about lunch' }))).toBeUndefined()
+
+    const [updated] = track(memoryWith(themes), post({ topic: 'roomba' })).runningThemes
+    expect(updated).toMatchObject({ mentionCount: 3, status: 'active', lastMentionedAt: NOW.toISOString() })
+  })
+
+  it('starts a bit for a running-bit post or a topic that keeps coming up', () => {
+    const bit = track(memoryWith([]), post({ intentType: 'running-bit', topic: 'Pigeon Union', gist: 'unionizing the pigeons' }))
+    expect(bit.runningThemes).toEqual([
+      expect.objectContaining({ description: 'unionizing the pigeons', topic: 'pigeon-union', mentionCount: 1, status: 'active' }),
+    ])
+
+    const earlier = [post({ topic: 'naps', postedAt: daysAgo(1) }), post({ topic: 'naps', postedAt: daysAgo(2) })]
+    expect(track(memoryWith([], earlier.slice(1)), post({ topic: 'naps' })).runningThemes).toEqual([])
+    expect(track(memoryWith([], earlier), post({ topic: 'naps', gist: 'nap number three' })).runningThemes).toEqual([
+      expect.objectContaining({ topic: 'naps', description: 'nap number three', mentionCount: THEME_CONFIG.START_AFTER_TOPIC_POSTS }),
+    ])
+  })
+
+  it('cools off an overused bit', () => {
+    const memory = memoryWith([theme({ mentionCount: THEME_CONFIG.COOL_OFF_AFTER_MENTIONS - 1 })])
+    expect(track(memory, post({ topic: 'roomba' })).runningThemes[0]).toMatchObject({
+      status: 'cooling-off',
+      statusChangedAt: NOW.toISOString(),
+    })
+  })
+
+  it('makes room by dropping the stalest retired bit, never an active one', () => {
+    const full = Array.from({ length: THEME_CONFIG.MAX_THEMES }, (_, i) => theme({
+      description: `bit ${i}`,
+      topic: `bit-${i}`,
+      status: i < 2 ? 'retired' : 'active',
+      lastMentionedAt: daysAgo(10 - i),
+    }))
+    const started = track(memoryWith(full), post({ intentType: 'running-bit', topic: 'new' })).runningThemes
+    expect(started.map(t => t.topic)).toEqual(['bit-1', 'bit-2', 'bit-3', 'bit-4', 'new'])
+
+    const allActive = full.map(t => ({ ...t, status: 'active' as const, lastMentionedAt: daysAgo(1) }))
+    expect(track(memoryWith(allActive), post({ intentType: 'running-bit', topic: 'new' })).runningThemes).toHaveLength(THEME_CONFIG.MAX_THEMES)
+  })
+})
+
+// ---------------------------------------------------------------------------
+// Lifecycle
+// ---------------------------------------------------------------------------
+
+describe('advanceThemeLifecycle', () => {
+  it('cools off quiet bits and retires them after the cool-off', () => {
+    const memory = memoryWith([
+      theme({ description: 'fresh', lastMentionedAt: daysAgo(1) }),
+      theme({ description: 'quiet', lastMentionedAt: daysAgo(THEME_CONFIG.ACTIVE_IDLE_DAYS) }),
+      theme({ description: 'rested', status: 'cooling-off', lastMentionedAt: daysAgo(10), statusChangedAt: daysAgo(THEME_CONFIG.COOLING_OFF_DAYS) }),
+      theme({ description: 'resting', status: 'cooling-off', lastMentionedAt: daysAgo(10), statusChangedAt: daysAgo(1) }),
+    ])
+
+    expect(advanceThemeLifecycle(memory, NOW).runningThemes.map(t => [t.description, t.status])).toEqual([
+      ['fresh', 'active'],
+      ['quiet', 'cooling-off'],
+      ['rested', 'retired'],
+      ['resting', 'cooling-off'],
+    ])
+    const settled = memoryWith([theme()])
+    expect(advanceThemeLifecycle(settled, NOW)).toBe(settled)
+  })
+
+  it('shows active bits to continue and cooling-off bits to rest', () => {
+    const context = buildMemoryContext(memoryWith([
+      theme({ description: 'roomba feud' }),
+      theme({ description: 'the cucumber incident', status: 'cooling-off' }),
+      theme({ description: 'ancient bit', status: 'retired' }),
+    ]))
+    expect(context).toContain('YOUR RUNNING BITS (you can continue these):\n- "roomba feud" (2 posts so far)')
+    expect(context).toContain('BITS YOU\'VE BEEN OVERDOING (give them a rest):\n- "the cucumber incident"')
+    expect(context).not.toContain('ancient bit')
+  })
+})
+
+// ---------------------------------------------------------------------------
+// Callbacks
+// ---------------------------------------------------------------------------
+
+describe('pickCallbackTheme', () => {
+  const retired = (description: string, retiredDaysAgo: number, lastCallbackAt?: string) => theme({
+    description,
+    status: 'retired',
+    lastMentionedAt: daysAgo(retiredDaysAgo + THEME_CONFIG.COOLING_OFF_DAYS),
+    statusChangedAt: daysAgo(retiredDaysAgo),
+    lastCallbackAt,
+  })
+
+  it('picks the longest-rested retired bit now and then', () => {
+    const memory = memoryWith([
+      theme(),
+      retired('too recent', THEME_CONFIG.CALLBACK.MIN_DAYS_RETIRED - 1),
+      retired('old', THEME_CONFIG.CALLBACK.MIN_DAYS_RETIRED + 5),
+      retired('older', THEME_CONFIG.CALLBACK.MIN_DAYS_RETIRED + 10),
+      retired('called back lately', 30, daysAgo(1)),
+    ])
+
+    expect(pickCallbackTheme(memory, NOW, () => 0)?.description).toBe('older')
+    expect(pickCallbackTheme(memory, NOW, () => THEME_CONFIG.CALLBACK.PROBABILITY)).toBeNull()
+    expect(pickCallbackTheme(memoryWith([theme()]), NOW, () => 0)).toBeNull()
+  })
+
+  it('keeps a called-back bit retired and spaces out the next callback', () => {
+    const bit = retired('the cucumber incident', 20)
+    const [after] = track(memoryWith([bit]), post({ intentType: 'callback', gist: 'cucumber returns' }), bit.description).runningThemes
+
+    expect(after).toMatchObject({ status: 'retired', mentionCount: 3, lastCallbackAt: NOW.toISOString() })
+    expect(pickCallbackTheme(memoryWith([after]), new Date(NOW.getTime() + DAY), () => 0)).toBeNull()
+  })
+})
+
+// ---------------------------------------------------------------------------
+// Workflow
+// ---------------------------------------------------------------------------
+
+describe('proactive posting keeps running bits', () => {
+  const NAP_POSTS = ['naps are a lifestyle', 'woke up to nap again', 'my third nap of the day hits different']
+  let db: InMemorySupabase
+  let network: InMemoryBlueskyNetwork
+  let llm: ScriptedLLM
+  let postPrompts: string[]
+
+  const run = () => new BlueskyAgentWorkflow(
+    new FakeWorkflowContext({ mode: 'proactive', petId: 'alpha' }, 'test-run').asWorkflowContext(),
+    { createBotClient: config => network.createClient(config) }
+  ).execute()
+
+  function storedThemes(): RunningTheme[] {
+    return (db.table('bot_memory')[0].memory as BotMemory).runningThemes
+  }
+
+  beforeEach(() => {
+    db = new InMemorySupabase()
+    setServiceSupabaseOverride(db as never)
+    network = new InMemoryBlueskyNetwork()
+    postPrompts = []
+    llm = new ScriptedLLM({
+      scripts: {
+        post: request => {
+          postPrompts.push(request.prompt)
+          const n = postPrompts.length
+          if (request.prompt.includes('BRING BACK AN OLD BIT')) {
+            return { text: 'remember the cucumber? it is back', mood: 'smug', intentType: 'callback', topicTag: 'cucumbers', postDigest: 'cucumber returns' }
+          }
+          return { text: NAP_POSTS[n - 1], mood: 'sleepy', intentType: 'thought', topicTag: 'naps', postDigest: `nap post ${n}` }
+        },
+      },
+    })
+    llm.install()
+
+    network.registerAccount({ did: 'did:sim:alpha.sim.test', handle: 'alpha.sim.test', isBot: true })
+    db.seed('pet', [{ id: 'alpha', name: 'ALPHA', meme: {} }])
+    db.seed('bluesky_bot_config', [{
+      id: 'config-alpha',
+      pet_id: 'alpha',
+      handle: 'alpha.sim.test',
+      did: 'did:sim:alpha.sim.test',
+      app_password: 'simulated',
+      is_active: true,
+      publish_mode: 'auto',
+    }])
+  })
+
+  afterEach(() => {
+    llm.uninstall()
+    setServiceSupabaseOverride(null)
+    vi.restoreAllMocks()
+  })
+
+  it('starts a bit once a topic keeps coming up', async () => {
+    // No thread, image, self-reply or callback rolls
+    vi.spyOn(Math, 'random').mockReturnValue(0.99)
+
+    await run()
+    await run()
+    expect(storedThemes()).toEqual([])
+
+    await run()
+    expect(storedThemes()).toEqual([
+      expect.objectContaining({ topic: 'naps', description: 'nap post 3', mentionCount: 3, status: 'active' }),
+    ])
+  })
+
+  it('asks for a callback to a retired bit and records it', async () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0)
+    const bit = theme({
+      description: 'the cucumber incident',
+      topic: 'cucumbers',
+      status: 'retired',
+      lastMentionedAt: daysAgo(30, new Date()),
+      statusChangedAt: daysAgo(20, new Date()),
+    })
+    db.seed('bot_memory', [{ pet_id: 'alpha', memory: memoryWith([bit]), revision: 1 }])
+
+    await run()
+
+    expect(postPrompts.at(-1)).toContain('BRING BACK AN OLD BIT: "the cucumber incident"')
+    expect(db.table('bluesky_post_log').find(row => row.activity_type === 'proactive_post')!.metadata)
+      .toMatchObject({ intentType: 'callback', callbackTo: 'the cucumber incident' })
+    expect(storedThemes()).toEqual([
+      expect.objectContaining({ description: 'the cucumber incident', status: 'retired', lastCallbackAt: expect.any(String) }),
+    ])
+  })
+})
@@ -0,0 +1,202 @@
+/**
+ * Similarity Guard Tests
+ *
+ * Covers shingle normalization, finding near-duplicates among every
+ * pet's recent posts, and proactive posts being regenerated with the
+ * clashing text as a negative example or skipped as `near_duplicate`.
+ *
+ * @module similarity-guard-tests
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+
+vi.hoisted(() => {
+  process.env.ENABLE_BLUESKY_AGENT = 'true'
+})
+
+import { setServiceSupabaseOverride } from '../lib/api/service-supabase'
+import { InMemorySupabase } from '../lib/simulation/in-memory-supabase'
+import { InMemoryBlueskyNetwork } from '../lib/simulation/in-memory-bluesky'
+import { FakeWorkflowContext } from '../lib/simulation/fake-workflow-context'
+import { ScriptedLLM } from '../lib/simulation/scripted-llm'
+import { BlueskyAgentWorkflow } from '../lib/workflows/bluesky-agent-workflow'
+import { DEDUP_CONFIG } from '../lib/config/dedup.config'
+import { findNearDuplicate, jaccardSimilarity, shingles } from '../lib/workflows/modules/similarity-guard'
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+
+const NOW = new Date('2026-03-10T15:00:00Z')
+const HOUR = 60 * 60 * 1000
+
+const TAKEN = 'mondays are just sundays that forgot to bring snacks #memes #MemePet'
+const FRESH = 'the cat next door has been staring at a wall for an hour and honestly respect #MemePet'
+
+let db: InMemorySupabase
+
+function logPost(petId: string, content: string, at: Date, activityType = 'proactive_post') {
+  db.seed('bluesky_post_log', [{
+    pet_id: petId,
+    activity_type: activityType,
+    content,
+    post_uri: `at://${petId}/post/${db.table('bluesky_post_log').length + 1}`,
+    created_at: at.toISOString(),
+  }])
+}
+
+beforeEach(() => {
+  db = new InMemorySupabase()
+  setServiceSupabaseOverride(db as never)
+})
+
+afterEach(() => {
+  setServiceSupabaseOverride(null)
+  vi.restoreAllMocks()
+})
+
+// ---------------------------------------------------------------------------
+// Shingles
+// ---------------------------------------------------------------------------
+
+describe('shingles', () => {
+  it('ignores case, punctuation, hashtags, mentions and links', () => {
+    const a = shingles('Mondays are just Sundays that forgot snacks! #MemePet')
+    const b = shingles('@beta.bsky.social mondays are just sundays that forgot snacks https://x.test/1')
+    expect(jaccardSimilarity(a, b)).toBe(1)
+    expect([...shingles('hello world')]).toEqual(['hello world'])
+  })
+
+  it('scores partial overlap between zero and one', () => {
+    const similarity = jaccardSimilarity(shingles(TAKEN), shingles('mondays are just sundays that forgot to call'))
+    expect(similarity).toBeGreaterThan(0.3)
+    expect(similarity).toBeLessThan(1)
+    expect(jaccardSimilarity(shingles(TAKEN), shingles(FRESH))).toBe(0)
+    expect(jaccardSimilarity(shingles(''), shingles(TAKEN))).toBe(0)
+  })
+})
+
+// ---------------------------------------------------------------------------
+// Guard
+// ---------------------------------------------------------------------------
+
+describe('findNearDuplicate', () => {
+  it("matches another pet's recent post", async () => {
+    logPost('beta', TAKEN, new Date(NOW.getTime() - HOUR))
+
+    const match = await findNearDuplicate('Mondays are just Sundays that forgot to bring snacks 🍪', { petId: 'alpha', now: NOW })
+
+    expect(match).toMatchObject({ petId: 'beta', ownPost: false, method: 'shingles', text: TAKEN })
+    expect(match!.similarity).toBeGreaterThanOrEqual(DEDUP_CONFIG.SHINGLES.THRESHOLD)
+  })
+
+  it('flags the pet repeating itself', async () => {
+    logPost('alpha', TAKEN, new Date(NOW.getTime() - HOUR), 'engagement_quote')
+
+    expect(await findNearDuplicate(TAKEN, { petId: 'alpha', now: NOW })).toMatchObject({ ownPost: true })
+  })
+
+  it('ignores old posts, skips and unrelated text', async () => {
+    logPost('beta', TAKEN, new Date(NOW.getTime() - (DEDUP_CONFIG.WINDOW_HOURS + 1) * HOUR))
+    logPost('beta', TAKEN, new Date(NOW.getTime() - HOUR), 'proactive_post_skipped')
+    logPost('gamma', FRESH, new Date(NOW.getTime() - HOUR))
+
+    expect(await findNearDuplicate(TAKEN, { petId: 'alpha', now: NOW })).toBeNull()
+  })
+
+  it('lets the post through when the index fails to load', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    setServiceSupabaseOverride({ from: () => { throw new Error('db down') } } as never)
+
+    expect(await findNearDuplicate(TAKEN, { petId: 'alpha', now: NOW })).toBeNull()
+  })
+})
+
+// ---------------------------------------------------------------------------
+// Workflow
+// ---------------------------------------------------------------------------
+
+describe('proactive posting with the similarity guard', () => {
+  let network: InMemoryBlueskyNetwork
+  let llm: ScriptedLLM
+  let postPrompts: string[]
+
+  const run = () => new BlueskyAgentWorkflow(
+    new FakeWorkflowContext({ mode: 'proactive', petId: 'alpha' }, 'test-run').asWorkflowContext(),
+    { createBotClient: config => network.createClient(config) }
+  ).execute()
+
+  function scriptPosts(texts: string[]) {
+    llm = new ScriptedLLM({
+      scripts: {
+        post: request => {
+          postPrompts.push(request.prompt)
+          const text = texts[Math.min(postPrompts.length, texts.length) - 1]
+          return { text, mood: 'smug', intentType: 'shitpost', topicTag: 'mondays', postDigest: 'monday joke' }
+        },
+      },
+    })
+    llm.install()
+  }
+
+  function activity(type: string) {
+    return db.table('bluesky_post_log').filter(row => row.pet_id === 'alpha' && row.activity_type === type)
+  }
+
+  beforeEach(() => {
+    // No thread, image or self-reply rolls
+    vi.spyOn(Math, 'random').mockReturnValue(0.99)
+    network = new InMemoryBlueskyNetwork()
+    postPrompts = []
+
+    network.registerAccount({ did: 'did:sim:alpha.sim.test', handle: 'alpha.sim.test', isBot: true })
+    db.seed('pet', [{ id: 'alpha', name: 'ALPHA', meme: {} }, { id: 'beta', name: 'BETA', meme: {} }])
+    db.seed('bluesky_bot_config', [{
+      id: 'config-alpha',
+      pet_id: 'alpha',
+      handle: 'alpha.sim.test',
+      did: 'did:sim:alpha.sim.test',
+      app_password: 'simulated',
+      is_active: true,
+      publish_mode: 'auto',
+    }])
+    logPost('beta', TAKEN, new Date(Date.now() - HOUR))
+  })
+
+  afterEach(() => {
+    llm.uninstall()
+  })
+
+  it('regenerates a near-duplicate with the clash as a negative example', async () => {
+    scriptPosts([TAKEN, FRESH])
+
+    await run()
+
+    expect(postPrompts).toHaveLength(2)
+    expect(postPrompts[0]).not.toContain('ALREADY POSTED TODAY')
+    expect(postPrompts[1]).toContain(`ALREADY POSTED TODAY (by you or another pet) — your post must NOT resemble these:\n- "${TAKEN}"`)
+    expect(activity('proactive_post')).toEqual([
+      expect.objectContaining({ content: FRESH, metadata: expect.objectContaining({ regenerations: 1 }) }),
+    ])
+  })
+
+  it('skips the post when every regeneration still clashes', async () => {
+    scriptPosts([TAKEN])
+
+    await run()
+
+    expect(postPrompts).toHaveLength(1 + DEDUP_CONFIG.MAX_REGENERATIONS)
+    expect(activity('proactive_post')).toEqual([])
+    expect(activity('proactive_post_skipped')).toEqual([
+      expect.objectContaining({
+        metadata: expect.objectContaining({
+          reason: 'near_duplicate',
+          method: 'shingles',
+          duplicateOfPetId: 'beta',
+          ownPost: false,
+          regenerations: DEDUP_CONFIG.MAX_REGENERATIONS,
+        }),
+      }),
+    ])
+  })
+})
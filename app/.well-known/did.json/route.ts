@@ -8,16 +8,15 @@
  */
 
 import { NextResponse } from 'next/server'
-
-const FEED_HOSTNAME = process.env.FEED_HOSTNAME ?? 'memepet.0.space'
+import { FEED_CONFIG } from '@/lib/config/feed.config'
+import { serviceDid } from '@/lib/services/feed-generator'
 
 export async function GET() {
-  const serviceDid = `did:web:${FEED_HOSTNAME}`
-  const serviceEndpoint = `https://${FEED_HOSTNAME}`
+  const serviceEndpoint = `https://${FEED_CONFIG.HOSTNAME}`
 
   return NextResponse.json({
     '@context': ['https://www.w3.org/ns/did/v1'],
-    id: serviceDid,
+    id: serviceDid(),
     service: [
       {
         id: '#bsky_fg',
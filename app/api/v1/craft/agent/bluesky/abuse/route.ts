@@ -0,0 +1,160 @@
+/**
+ * Bluesky Abuse Admin Endpoint
+ *
+ * Review and undo what abuse tracking did to hostile accounts.
+ *
+ * GET /api/v1/craft/agent/bluesky/abuse
+ * - List actions and recent harassment events
+ *   (?petId=&authorDid=&status=active&limit=)
+ *
+ * POST /api/v1/craft/agent/bluesky/abuse
+ * - { action: 'mute' | 'block', petId, authorDid, reason? }  From the pet's account
+ * - { action: 'exclude', authorDid, reason? }                For every pet
+ * - { action: 'undo', id }                                   Unmute / unblock / re-include
+ *
+ * Admins are identified by the optional `x-admin` header in the log.
+ */
+
+import { timingSafeEqual } from 'crypto'
+import { NextResponse } from 'next/server'
+import { createClientForPet } from '@/lib/services/bluesky-client'
+import {
+  blockAuthor,
+  excludeAuthor,
+  listAbuseActions,
+  listAbuseEvents,
+  muteAuthor,
+  undoAbuseAction,
+  AbuseActionNotFoundError,
+  AbuseActionStateError,
+  type AbuseActionStatus,
+} from '@/lib/services/abuse-tracker'
+
+function verifyApiKey(provided: string | null): boolean {
+  const expected = process.env.API_KEY
+  if (!provided || !expected) return false
+  try {
+    return timingSafeEqual(
+      Buffer.from(provided),
+      Buffer.from(expected)
+    )
+  } catch {
+    return false
+  }
+}
+
+export const maxDuration = 60
+
+const VALID_STATUSES: AbuseActionStatus[] = ['active', 'undone']
+const VALID_ACTIONS = ['mute', 'block', 'exclude', 'undo'] as const
+
+/**
+ * GET: List abuse actions (newest first) and the events behind them
+ */
+export async function GET(req: Request) {
+  try {
+    const apiKey = req.headers.get('x-api-key')
+    if (!verifyApiKey(apiKey)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const url = new URL(req.url)
+    const status = (url.searchParams.get('status') ?? 'active') as AbuseActionStatus
+    if (!VALID_STATUSES.includes(status)) {
+      return NextResponse.json(
+        { error: `Invalid status: ${status}. Must be one of: ${VALID_STATUSES.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const limitParam = url.searchParams.get('limit')
+    const filter = {
+      petId: url.searchParams.get('petId') ?? undefined,
+      authorDid: url.searchParams.get('authorDid') ?? undefined,
+      limit: limitParam ? Number(limitParam) || undefined : undefined,
+    }
+    const [actions, events] = await Promise.all([
+      listAbuseActions({ ...filter, status }),
+      listAbuseEvents(filter),
+    ])
+
+    return NextResponse.json({ success: true, actions, events })
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to list abuse actions'
+      },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST: Mute, block or exclude an author, or undo an action
+ */
+export async function POST(req: Request) {
+  try {
+    const apiKey = req.headers.get('x-api-key')
+    if (!verifyApiKey(apiKey)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await req.json() as {
+      action?: (typeof VALID_ACTIONS)[number]
+      id?: string
+      petId?: string
+      authorDid?: string
+      reason?: string
+    }
+    const admin = `admin:${req.headers.get('x-admin') ?? 'api'}`
+
+    if (!body.action || !VALID_ACTIONS.includes(body.action)) {
+      return NextResponse.json(
+        { error: `Invalid action: ${body.action}. Must be one of: ${VALID_ACTIONS.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    if (body.action === 'undo') {
+      if (!body.id) {
+        return NextResponse.json({ error: 'id is required' }, { status: 400 })
+      }
+      const action = await undoAbuseAction(body.id, { undoneBy: admin })
+      return NextResponse.json({ success: true, action })
+    }
+
+    if (!body.authorDid?.startsWith('did:')) {
+      return NextResponse.json({ error: 'authorDid must be a DID' }, { status: 400 })
+    }
+    const reason = body.reason ?? 'manual'
+
+    if (body.action === 'exclude') {
+      const action = await excludeAuthor({ authorDid: body.authorDid, reason, createdBy: admin })
+      return NextResponse.json({ success: true, action })
+    }
+
+    if (!body.petId) {
+      return NextResponse.json({ error: 'petId is required' }, { status: 400 })
+    }
+    const client = await createClientForPet(body.petId)
+    const params = { petId: body.petId, authorDid: body.authorDid, reason, createdBy: admin }
+    const action = body.action === 'mute'
+      ? await muteAuthor(client, params)
+      : await blockAuthor(client, params)
+
+    return NextResponse.json({ success: true, action })
+  } catch (error) {
+    const status = error instanceof AbuseActionNotFoundError ? 404
+      : error instanceof AbuseActionStateError ? 409
+      : 500
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to update abuse action'
+      },
+      { status }
+    )
+  }
+}
@@ -0,0 +1,134 @@
+/**
+ * Bluesky Moderation Review Endpoint
+ *
+ * Human-in-the-loop queue for pets in review mode.
+ *
+ * GET /api/v1/craft/agent/bluesky/review
+ * - List queued items (?petId=&status=pending&limit=)
+ *
+ * POST /api/v1/craft/agent/bluesky/review
+ * - { id, action: 'edit', text? | posts? }   Replace text of a pending or failed item
+ * - { id, action: 'approve', note? }         Publish and log to bluesky_post_log (failed items retry)
+ * - { id, action: 'reject', note? }         Discard
+ */
+
+import { timingSafeEqual } from 'crypto'
+import { NextResponse } from 'next/server'
+import { PoliticalContentBlockedError } from '@/lib/services/bluesky-client'
+import {
+  listReviewItems,
+  editReviewItem,
+  approveReviewItem,
+  rejectReviewItem,
+  ReviewItemNotFoundError,
+  ReviewItemStateError,
+  type ReviewItemStatus,
+} from '@/lib/services/review-queue'
+
+function verifyApiKey(provided: string | null): boolean {
+  const expected = process.env.API_KEY
+  if (!provided || !expected) return false
+  try {
+    return timingSafeEqual(
+      Buffer.from(provided),
+      Buffer.from(expected)
+    )
+  } catch {
+    return false
+  }
+}
+
+export const maxDuration = 60
+
+const VALID_STATUSES: ReviewItemStatus[] = ['pending', 'publishing', 'published', 'rejected', 'failed']
+const VALID_ACTIONS = ['edit', 'approve', 'reject'] as const
+
+/**
+ * GET: List review queue items (oldest first)
+ */
+export async function GET(req: Request) {
+  try {
+    const apiKey = req.headers.get('x-api-key')
+    if (!verifyApiKey(apiKey)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const url = new URL(req.url)
+    const status = (url.searchParams.get('status') ?? 'pending') as ReviewItemStatus
+    if (!VALID_STATUSES.includes(status)) {
+      return NextResponse.json(
+        { error: `Invalid status: ${status}. Must be one of: ${VALID_STATUSES.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const limitParam = url.searchParams.get('limit')
+    const items = await listReviewItems({
+      petId: url.searchParams.get('petId') ?? undefined,
+      status,
+      limit: limitParam ? Number(limitParam) || undefined : undefined,
+    })
+
+    return NextResponse.json({ success: true, items })
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to list review items'
+      },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST: Edit, approve or reject a pending or failed item
+ */
+export async function POST(req: Request) {
+  try {
+    const apiKey = req.headers.get('x-api-key')
+    if (!verifyApiKey(apiKey)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await req.json() as {
+      id?: string
+      action?: (typeof VALID_ACTIONS)[number]
+      text?: string
+      posts?: string[]
+      note?: string
+    }
+
+    if (!body.id) {
+      return NextResponse.json({ error: 'id is required' }, { status: 400 })
+    }
+    if (!body.action || !VALID_ACTIONS.includes(body.action)) {
+      return NextResponse.json(
+        { error: `Invalid action: ${body.action}. Must be one of: ${VALID_ACTIONS.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const item = body.action === 'edit'
+      ? await editReviewItem(body.id, { text: body.text, posts: body.posts })
+      : body.action === 'approve'
+        ? await approveReviewItem(body.id, { note: body.note })
+        : await rejectReviewItem(body.id, body.note)
+
+    return NextResponse.json({ success: true, item })
+  } catch (error) {
+    const status = error instanceof ReviewItemNotFoundError ? 404
+      : error instanceof ReviewItemStateError ? 409
+      : error instanceof RangeError ? 400
+      : error instanceof PoliticalContentBlockedError ? 422
+      : 500
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to update review item'
+      },
+      { status }
+    )
+  }
+}
@@ -0,0 +1,38 @@
+/**
+ * Feed Skeleton by Name
+ *
+ * Plain-HTTP mirror of getFeedSkeleton for any registered feed, keyed
+ * by rkey (e.g. /api/v1/feeds/memepet-drama). Shares the registry and
+ * skeleton builder with the XRPC endpoint.
+ *
+ * @module feed-by-name
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { FEED_CONFIG } from '@/lib/config/feed.config'
+import { BadCursorError, getFeedSkeleton, resolveFeed } from '@/lib/services/feed-generator'
+
+export const maxDuration = 30
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ feed: string }> }
+) {
+  const { feed: rkey } = await params
+  const url = new URL(req.url)
+  const limit = Math.min(Number(url.searchParams.get('limit')) || 50, FEED_CONFIG.MAX_LIMIT)
+  const cursor = url.searchParams.get('cursor')
+
+  try {
+    const feed = await resolveFeed(rkey)
+    if (!feed) {
+      return NextResponse.json({ error: `Unknown feed: ${rkey}` }, { status: 404 })
+    }
+    return NextResponse.json(await getFeedSkeleton(feed, { limit, cursor }))
+  } catch (error) {
+    if (error instanceof BadCursorError) {
+      return NextResponse.json({ error: 'Invalid cursor' }, { status: 400 })
+    }
+    return NextResponse.json({ error: 'Failed to fetch feed' }, { status: 500 })
+  }
+}
@@ -0,0 +1,90 @@
+/**
+ * Pet Owner Controls
+ *
+ * Authorization: Bearer <Supabase access token of the pet's owner>
+ *
+ * GET /api/v1/pets/:petId/controls
+ * - Active nudges, pending suggestion, blocked topics and pause
+ *
+ * POST /api/v1/pets/:petId/controls
+ * - { action: 'nudge', topic, hours? }     Post more about a topic for a while
+ * - { action: 'remove_nudge', topic }
+ * - { action: 'suggest', text }            "Say something about X", once
+ * - { action: 'clear_suggestion' }
+ * - { action: 'block_topic', topic }       Never post about a topic
+ * - { action: 'unblock_topic', topic }
+ * - { action: 'pause', until }             Go quiet until an ISO timestamp
+ * - { action: 'resume' }
+ *
+ * Nudged topics and suggestions must pass the content-safety filters
+ * (422); blocked topics don't need to. Each owner gets a limited number of
+ * requests per hour (429). A request that keeps losing races with other
+ * changes to the same pet answers 409.
+ *
+ * @module pet-controls-route
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { authorizePetOwner, petErrorResponse } from '@/lib/api/pet-owner-auth'
+import {
+  applyOwnerControl,
+  loadOwnerControls,
+  OWNER_CONTROL_ACTIONS,
+  OwnerControlConflictError,
+  OwnerControlInputError,
+  OwnerControlRejectedError,
+  OwnerRateLimitError,
+  type OwnerControlAction,
+} from '@/lib/services/owner-controls'
+
+export const maxDuration = 30
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ petId: string }> }
+) {
+  const { petId } = await params
+  try {
+    await authorizePetOwner(req.headers.get('authorization'), petId)
+    return NextResponse.json({ success: true, controls: await loadOwnerControls(petId) })
+  } catch (error) {
+    return petErrorResponse(error, 'Failed to load controls')
+  }
+}
+
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ petId: string }> }
+) {
+  const { petId } = await params
+  try {
+    const userId = await authorizePetOwner(req.headers.get('authorization'), petId)
+
+    const body = await req.json().catch(() => null) as OwnerControlAction | null
+    if (!body || !OWNER_CONTROL_ACTIONS.includes(body.action)) {
+      return NextResponse.json(
+        { success: false, error: `Invalid action: ${body?.action}. Must be one of: ${OWNER_CONTROL_ACTIONS.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({ success: true, controls: await applyOwnerControl(userId, petId, body) })
+  } catch (error) {
+    if (error instanceof OwnerRateLimitError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 429, headers: { 'Retry-After': String(error.retryAfterSeconds) } }
+      )
+    }
+    if (error instanceof OwnerControlInputError || error instanceof OwnerControlRejectedError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: error instanceof OwnerControlInputError ? 400 : 422 }
+      )
+    }
+    if (error instanceof OwnerControlConflictError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 409 })
+    }
+    return petErrorResponse(error, 'Failed to update controls')
+  }
+}
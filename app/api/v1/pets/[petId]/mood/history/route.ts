@@ -0,0 +1,34 @@
+/**
+ * Pet Mood History
+ *
+ * GET /api/v1/pets/:petId/mood/history?days=7&stepHours=1
+ * - Authorization: Bearer <Supabase access token of the pet's owner>
+ * - Returns mood samples every `stepHours` over the last `days` days
+ *   (max 30), replayed from the mood event log, plus the events themselves
+ *
+ * @module pet-mood-history-route
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { authorizePetOwner, petErrorResponse } from '@/lib/api/pet-owner-auth'
+import { getMoodHistory } from '@/lib/services/pet-timeline'
+
+export const maxDuration = 30
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ petId: string }> }
+) {
+  const { petId } = await params
+  const url = new URL(req.url)
+  try {
+    await authorizePetOwner(req.headers.get('authorization'), petId)
+    const history = await getMoodHistory(petId, {
+      days: Number(url.searchParams.get('days')) || undefined,
+      stepHours: Number(url.searchParams.get('stepHours')) || undefined,
+    })
+    return NextResponse.json({ success: true, history })
+  } catch (error) {
+    return petErrorResponse(error, 'Failed to load mood history')
+  }
+}
@@ -0,0 +1,28 @@
+/**
+ * Pet Mood
+ *
+ * GET /api/v1/pets/:petId/mood
+ * - Authorization: Bearer <Supabase access token of the pet's owner>
+ * - Returns the pet's current PAD mood with its emotion label
+ *
+ * @module pet-mood-route
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { authorizePetOwner, petErrorResponse } from '@/lib/api/pet-owner-auth'
+import { getPetMood } from '@/lib/services/pet-timeline'
+
+export const maxDuration = 30
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ petId: string }> }
+) {
+  const { petId } = await params
+  try {
+    await authorizePetOwner(req.headers.get('authorization'), petId)
+    return NextResponse.json({ success: true, mood: await getPetMood(petId) })
+  } catch (error) {
+    return petErrorResponse(error, 'Failed to load mood')
+  }
+}
@@ -0,0 +1,29 @@
+/**
+ * Pet Reflections
+ *
+ * GET /api/v1/pets/:petId/reflections?limit=10
+ * - Authorization: Bearer <Supabase access token of the pet's owner>
+ * - Returns the pet's most recent self-reflections, newest first
+ *
+ * @module pet-reflections-route
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { authorizePetOwner, petErrorResponse } from '@/lib/api/pet-owner-auth'
+import { getPetReflections } from '@/lib/services/pet-timeline'
+
+export const maxDuration = 30
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ petId: string }> }
+) {
+  const { petId } = await params
+  const limit = Math.min(Number(new URL(req.url).searchParams.get('limit')) || 10, 10)
+  try {
+    await authorizePetOwner(req.headers.get('authorization'), petId)
+    return NextResponse.json({ success: true, reflections: await getPetReflections(petId, limit) })
+  } catch (error) {
+    return petErrorResponse(error, 'Failed to load reflections')
+  }
+}
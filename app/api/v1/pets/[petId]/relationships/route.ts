@@ -0,0 +1,29 @@
+/**
+ * Pet Relationships
+ *
+ * GET /api/v1/pets/:petId/relationships
+ * - Authorization: Bearer <Supabase access token of the pet's owner>
+ * - Returns the pet's relationships with other pets (sentiment, label,
+ *   score, last interaction), most interactions first
+ *
+ * @module pet-relationships-route
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { authorizePetOwner, petErrorResponse } from '@/lib/api/pet-owner-auth'
+import { getPetRelationships } from '@/lib/services/pet-timeline'
+
+export const maxDuration = 30
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ petId: string }> }
+) {
+  const { petId } = await params
+  try {
+    await authorizePetOwner(req.headers.get('authorization'), petId)
+    return NextResponse.json({ success: true, relationships: await getPetRelationships(petId) })
+  } catch (error) {
+    return petErrorResponse(error, 'Failed to load relationships')
+  }
+}
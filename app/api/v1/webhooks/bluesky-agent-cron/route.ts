@@ -3,12 +3,20 @@
  *
  * QStash-triggered cron that:
  * 1. Proactive: Triggers autonomous posting for all active meme pets
- * 2. Reactive: Polls Bluesky notifications and triggers reply workflows
- * 3. Interaction: Schedules inter-pet interactions
+ * 2. Reactive: Polls Bluesky notifications and triggers reply workflows;
+ *    likes are logged as mood events and new followers are recorded for
+ *    follow-backs, both without a workflow run. With Jetstream ingestion
+ *    enabled (see bluesky-jetstream) replies come from Jetstream and the
+ *    poll only handles likes and follows.
+ * 3. Interaction: Schedules inter-pet interactions (pairs chosen by matchmaking)
+ * 4. Follows: Triggers a follow-management run per pet (see follow-manager)
+ *
+ * Pets their owner paused (see owner-controls) are left out of every mode.
  *
  * Cron schedule (configured via QStash dashboard):
  * - Reactive: every 5 minutes (star-slash-5 * * * *)
  * - Proactive: every 4 hours (0 star-slash-4 * * *)
+ * - Follows: every 6 hours (30 star-slash-6 * * *)
  *
  * This single endpoint handles both by checking the `mode` query param.
  */
@@ -24,6 +32,11 @@ import { evaluatePostingDecision, emptyScheduleState, type PetScheduleState, typ
 import { buildPersonalityFromRow } from '@/lib/agent/pet-personality-builder'
 import { decryptIfNeeded } from '@/lib/utils/encrypt'
 import { ensureVercelDomains } from '@/lib/utils/vercel-domain'
+import { planInteractions, explainPair } from '@/lib/agent/matchmaking'
+import { recordMoodEvents } from '@/lib/agent/mood/mood-event-log'
+import { loadPausedPetIds } from '@/lib/services/owner-controls'
+import { loadBudgetStatuses, budgetAllows } from '@/lib/services/llm-usage'
+import { recordFollowers } from '@/lib/services/follow-manager'
 
 export const maxDuration = 60
 
@@ -63,6 +76,7 @@ async function handleCron(req: Request) {
     reactive: [] as string[],
     interactions: [] as string[],
     engagements: [] as string[],
+    follows: [] as string[],
     errors: [] as string[]
   }
 
@@ -73,6 +87,9 @@ async function handleCron(req: Request) {
       return NextResponse.json({ message: 'No active Bluesky bots' })
     }
 
+    // Today's LLM spend per pet; low budgets stop posts and engagement here
+    const budgets = await loadBudgetStatuses(activeBots.map(bot => bot.petId))
+
     // Ensure Vercel domain aliases exist for all active bot handles
     // (fire-and-forget: failures are logged but don't block the cron)
     ensureVercelDomainsForBots(activeBots).catch((error) => {
@@ -93,6 +110,7 @@ async function handleCron(req: Request) {
           chronotype: bot.chronotype,
           personality,
           utcOffsetHours: bot.utcOffsetHours,
+          budgetLevel: budgets.get(bot.petId)?.level,
         })
 
         if (!decision.shouldPost) {
@@ -129,9 +147,13 @@ async function handleCron(req: Request) {
     }
 
     // ── Reactive (Notification Polling) ────────────
+    // Jetstream ingestion delivers mentions/replies in near real time, so
+    // with it enabled the poll only picks up likes and follows (Jetstream
+    // would have to carry every like on the network to see them).
     if (mode === 'reactive' || mode === 'both') {
+      const pollReplies = !BLUESKY_CONFIG.JETSTREAM.ENABLED
       const reactiveResults = await Promise.allSettled(activeBots.map(async (bot) => {
-        const notifications = await pollNotifications(bot)
+        const notifications = await pollNotifications(bot, { replies: pollReplies })
         const botResults: string[] = []
         for (const notif of notifications) {
           const { workflowRunId } = await triggerWorkflow(
@@ -145,7 +167,7 @@ async function handleCron(req: Request) {
                 authorHandle: notif.author.handle,
                 authorDid: notif.author.did,
                 text: extractNotificationText(notif),
-                reason: notif.reason as 'mention' | 'reply',
+                reason: notif.reason as 'mention' | 'reply' | 'quote',
                 rootUri: extractRootUri(notif),
                 rootCid: extractRootCid(notif)
               }
@@ -176,21 +198,21 @@ async function handleCron(req: Request) {
     // ── Inter-Pet Interactions ──────────────────────
     if ((mode === 'proactive' || mode === 'both') && activeBots.length >= 2) {
       try {
-        const interaction = selectInteractionPair(activeBots)
-        if (interaction) {
+        const pairs = await planInteractions(activeBots.map(bot => bot.petId))
+        const logger = logWorkflow('BLUESKY_AGENT', 'matchmaking')
+        for (const pair of pairs) {
+          logger.progress('pair-selected', { message: explainPair(pair) })
           const { workflowRunId } = await triggerWorkflow(
             '/api/v1/workflows/bluesky-agent',
             {
               mode: 'interaction' as const,
-              petId: interaction.initiatorPetId,
-              targetPetId: interaction.targetPetId
+              petId: pair.initiatorPetId,
+              targetPetId: pair.targetPetId
             },
             'BLUESKY_AGENT',
             { retries: 2 }
           )
-          results.interactions.push(
-            `${interaction.initiatorPetId}->${interaction.targetPetId} run:${workflowRunId}`
-          )
+          results.interactions.push(`${explainPair(pair)} run:${workflowRunId}`)
         }
       } catch (error) {
         results.errors.push(
@@ -202,6 +224,8 @@ async function handleCron(req: Request) {
     // ── Proactive Engagement ────────────────────────
     if (mode === 'engagement' || mode === 'both') {
       const engagementResults = await Promise.allSettled(activeBots.map(async (bot) => {
+        // Engagement is the last extra dropped before the budget runs out
+        if (!budgetAllows(budgets.get(bot.petId)?.level, 'engagement')) return null
         const shouldEngage = await shouldPetEngageNow(bot.petId)
         if (!shouldEngage) return null
 
@@ -227,6 +251,33 @@ async function handleCron(req: Request) {
       }
     }
 
+    // ── Follow Management ──────────────────────────
+    // Only on its own 6-hour tick: 'both' runs at the proactive cadence.
+    // No LLM calls, so it runs whatever the budgets say.
+    if (mode === 'follows') {
+      const followResults = await Promise.allSettled(activeBots.map(async (bot) => {
+        const { workflowRunId } = await triggerWorkflow(
+          '/api/v1/workflows/bluesky-agent',
+          { mode: 'follow' as const, petId: bot.petId },
+          'BLUESKY_AGENT',
+          { retries: 1 }
+        )
+        return `pet:${bot.petId} run:${workflowRunId}`
+      }))
+
+      for (let i = 0; i < followResults.length; i++) {
+        const result = followResults[i]
+        if (result.status === 'fulfilled') {
+          results.follows.push(result.value)
+        } else {
+          const error = result.reason
+          results.errors.push(
+            `follows pet:${activeBots[i].petId} error:${error instanceof Error ? error.message : String(error)}`
+          )
+        }
+      }
+    }
+
     return NextResponse.json({
       success: true,
       mode,
@@ -282,9 +333,11 @@ async function loadActiveBots(): Promise<ActiveBot[]> {
   if (error || !data) return []
 
   const excluded = new Set<string>(BLUESKY_CONFIG.EXCLUDED_HANDLES)
+  // Pets their owner paused sit out every mode until the pause ends
+  const paused = await loadPausedPetIds()
 
   return data
-    .filter(row => !excluded.has(row.handle))
+    .filter(row => !excluded.has(row.handle) && !paused.has(row.pet_id))
     .map(row => ({
       petId: row.pet_id,
       handle: row.handle,
@@ -299,7 +352,12 @@ async function loadActiveBots(): Promise<ActiveBot[]> {
 
 // ─── Notification Polling ──────────────────────────
 
-async function pollNotifications(bot: ActiveBot): Promise<Array<{
+/**
+ * Log likes, record new followers and return the unhandled mentions,
+ * replies and quotes. With `replies: false` (Jetstream handles those)
+ * nothing is returned.
+ */
+async function pollNotifications(bot: ActiveBot, options: { replies: boolean }): Promise<Array<{
   uri: string
   cid: string
   author: { handle: string; did: string }
@@ -318,10 +376,27 @@ async function pollNotifications(bot: ActiveBot): Promise<Array<{
 
     const notifications = await client.getUnreadNotifications(20)
 
-    // Filter to mentions and replies only
-    const relevant = notifications.filter(
-      n => n.reason === 'mention' || n.reason === 'reply'
-    )
+    // Mentions, replies and quotes get a reply workflow
+    const relevant = options.replies
+      ? notifications.filter(n => n.reason === 'mention' || n.reason === 'reply' || n.reason === 'quote')
+      : []
+
+    // Likes only move the pet's mood (the like URI keeps re-polls from double counting)
+    const likes = notifications.filter(n => n.reason === 'like')
+    await recordMoodEvents(bot.petId, likes.map(n => ({
+      type: 'post_liked' as const,
+      timestamp: n.indexedAt,
+      sourceUri: n.uri,
+      metadata: { likedBy: n.author.handle },
+    })))
+
+    // New followers wait for the next follow run to be followed back
+    const follows = notifications.filter(n => n.reason === 'follow')
+    await recordFollowers(bot.petId, follows.map(n => ({
+      did: n.author.did,
+      handle: n.author.handle,
+      followedAt: n.indexedAt,
+    })))
 
     // Check which ones we've already processed
     const supabase = getServiceSupabase()
@@ -339,7 +414,7 @@ async function pollNotifications(bot: ActiveBot): Promise<Array<{
     const unprocessed = relevant.filter(n => !processedUris.has(n.uri))
 
     // Mark as read
-    if (unprocessed.length > 0) {
+    if (unprocessed.length > 0 || likes.length > 0 || follows.length > 0) {
       await client.markNotificationsRead()
     }
 
@@ -468,21 +543,3 @@ async function ensureVercelDomainsForBots(bots: ReadonlyArray<ActiveBot>): Promi
     }
   }
 }
-
-// ─── Interaction Pair Selection ──────────────────────
-
-function selectInteractionPair(
-  bots: ActiveBot[]
-): { initiatorPetId: string; targetPetId: string } | null {
-  if (bots.length < 2) return null
-
-  // Random selection with slight bias toward different pairs
-  const initiatorIdx = Math.floor(Math.random() * bots.length)
-  let targetIdx = Math.floor(Math.random() * (bots.length - 1))
-  if (targetIdx >= initiatorIdx) targetIdx++
-
-  return {
-    initiatorPetId: bots[initiatorIdx].petId,
-    targetPetId: bots[targetIdx].petId
-  }
-}
@@ -0,0 +1,65 @@
+/**
+ * Feed Engagement Refresh Handler
+ *
+ * QStash-triggered endpoint that refreshes cached AppView engagement
+ * counts and conversation depths for recent pet posts, then writes new
+ * ranked snapshots for every `hot` feed. getFeedSkeleton only reads the
+ * snapshots, so feed requests stay fast.
+ *
+ * Cron schedule (configured via QStash dashboard):
+ * - Every 10 minutes (star/10 * * * *)
+ */
+
+import { NextResponse } from 'next/server'
+import { verifySignatureAppRouter } from '@upstash/qstash/nextjs'
+import { logWorkflow } from '@/lib/utils/workflow-logger'
+import { refreshFeedEngagement } from '@/lib/services/feed-engagement'
+
+export const maxDuration = 60
+
+// QStash signature verification: fail closed in production
+const isProduction = process.env.NODE_ENV === 'production'
+const hasSigningKeys = !!(process.env.QSTASH_CURRENT_SIGNING_KEY && process.env.QSTASH_NEXT_SIGNING_KEY)
+
+function getHandler() {
+  if (isProduction && !hasSigningKeys) {
+    return async () => {
+      return NextResponse.json(
+        { error: 'QStash signing keys missing. Set QSTASH_CURRENT_SIGNING_KEY and QSTASH_NEXT_SIGNING_KEY.' },
+        { status: 500 }
+      )
+    }
+  }
+  if (isProduction) {
+    return verifySignatureAppRouter(async () => handleRefresh())
+  }
+  return async () => handleRefresh()
+}
+
+export const POST = getHandler()
+
+async function handleRefresh() {
+  const logger = logWorkflow('BLUESKY_AGENT', 'feed-refresh')
+
+  try {
+    const result = await refreshFeedEngagement()
+
+    logger.progress('feed-refresh-complete', {
+      postsRefreshed: result.postsRefreshed,
+      countsFetched: result.countsFetched,
+      snapshots: result.snapshots.length,
+      errors: result.errors.length,
+    })
+
+    return NextResponse.json({ success: true, results: result })
+  } catch (error) {
+    logger.error(error, 'refreshFeedEngagement')
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Feed refresh failed'
+      },
+      { status: 500 }
+    )
+  }
+}
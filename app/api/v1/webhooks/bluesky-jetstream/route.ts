@@ -0,0 +1,93 @@
+/**
+ * Bluesky Jetstream Ingestion Handler
+ *
+ * QStash-triggered endpoint that subscribes to Jetstream for one bounded
+ * window, matches replies/quotes/mentions of active pets, and triggers
+ * `reactive` workflows directly. The persisted cursor lets consecutive
+ * invocations cover the stream without gaps.
+ *
+ * Cron schedule (configured via QStash dashboard):
+ * - Every minute (star * * * *), each run stays subscribed ~50s
+ *
+ * Replaces notification polling for mentions, replies and quotes when
+ * ENABLE_JETSTREAM_INGESTION=true; likes and follows are still polled.
+ */
+
+import { NextResponse } from 'next/server'
+import { verifySignatureAppRouter } from '@upstash/qstash/nextjs'
+import { BLUESKY_CONFIG } from '@/lib/config/bluesky.config'
+import { logWorkflow } from '@/lib/utils/workflow-logger'
+import { WebSocketJetstreamSource } from '@/lib/ingestion/jetstream-source'
+import { SupabaseCursorStore } from '@/lib/ingestion/jetstream-cursor'
+import {
+  runJetstreamIngestion,
+  loadActiveBotDids,
+  isPostProcessed,
+  createHandleResolver,
+  dispatchReactiveWorkflow,
+} from '@/lib/ingestion/jetstream-ingestor'
+
+export const maxDuration = 60
+
+// QStash signature verification: fail closed in production
+const isProduction = process.env.NODE_ENV === 'production'
+const hasSigningKeys = !!(process.env.QSTASH_CURRENT_SIGNING_KEY && process.env.QSTASH_NEXT_SIGNING_KEY)
+
+function getHandler() {
+  if (isProduction && !hasSigningKeys) {
+    return async () => {
+      return NextResponse.json(
+        { error: 'QStash signing keys missing. Set QSTASH_CURRENT_SIGNING_KEY and QSTASH_NEXT_SIGNING_KEY.' },
+        { status: 500 }
+      )
+    }
+  }
+  if (isProduction) {
+    return verifySignatureAppRouter(async () => handleIngestion())
+  }
+  return async () => handleIngestion()
+}
+
+export const POST = getHandler()
+
+async function handleIngestion() {
+  if (!BLUESKY_CONFIG.FEATURE_FLAGS.ENABLED) {
+    return NextResponse.json({ message: 'Bluesky agent disabled' })
+  }
+  if (!BLUESKY_CONFIG.JETSTREAM.ENABLED) {
+    return NextResponse.json({ message: 'Jetstream ingestion disabled' })
+  }
+
+  const logger = logWorkflow('BLUESKY_AGENT', 'jetstream-ingestion')
+
+  try {
+    const result = await runJetstreamIngestion({
+      source: new WebSocketJetstreamSource(
+        BLUESKY_CONFIG.JETSTREAM.URL,
+        BLUESKY_CONFIG.JETSTREAM.WANTED_COLLECTIONS
+      ),
+      cursorStore: new SupabaseCursorStore(),
+      loadBotDids: loadActiveBotDids,
+      isProcessed: isPostProcessed,
+      resolveHandle: createHandleResolver(),
+      dispatch: dispatchReactiveWorkflow,
+    })
+
+    logger.progress('jetstream-ingestion-complete', {
+      eventsSeen: result.eventsSeen,
+      matched: result.matched,
+      dispatched: result.dispatched.length,
+    })
+
+    return NextResponse.json({ success: true, results: result })
+  } catch (error) {
+    logger.error(error, 'runJetstreamIngestion')
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Jetstream ingestion failed'
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,64 @@
+/**
+ * Post Metrics Handler
+ *
+ * QStash-triggered endpoint that snapshots AppView engagement counts for
+ * every published pet post of the last week, then relearns each pet's
+ * content bandit arms from them (see post-metrics).
+ *
+ * Cron schedule (configured via QStash dashboard):
+ * - Every hour (0 * * * *)
+ */
+
+import { NextResponse } from 'next/server'
+import { verifySignatureAppRouter } from '@upstash/qstash/nextjs'
+import { logWorkflow } from '@/lib/utils/workflow-logger'
+import { collectPostMetrics } from '@/lib/services/post-metrics'
+
+export const maxDuration = 60
+
+// QStash signature verification: fail closed in production
+const isProduction = process.env.NODE_ENV === 'production'
+const hasSigningKeys = !!(process.env.QSTASH_CURRENT_SIGNING_KEY && process.env.QSTASH_NEXT_SIGNING_KEY)
+
+function getHandler() {
+  if (isProduction && !hasSigningKeys) {
+    return async () => {
+      return NextResponse.json(
+        { error: 'QStash signing keys missing. Set QSTASH_CURRENT_SIGNING_KEY and QSTASH_NEXT_SIGNING_KEY.' },
+        { status: 500 }
+      )
+    }
+  }
+  if (isProduction) {
+    return verifySignatureAppRouter(async () => handleCollect())
+  }
+  return async () => handleCollect()
+}
+
+export const POST = getHandler()
+
+async function handleCollect() {
+  const logger = logWorkflow('BLUESKY_AGENT', 'post-metrics')
+
+  try {
+    const result = await collectPostMetrics()
+
+    logger.progress('post-metrics-complete', {
+      postsSnapshotted: result.postsSnapshotted,
+      countsFetched: result.countsFetched,
+      petsLearned: result.petsLearned,
+      errors: result.errors.length,
+    })
+
+    return NextResponse.json({ success: true, results: result })
+  } catch (error) {
+    logger.error(error, 'collectPostMetrics')
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Post metrics collection failed'
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -3,32 +3,36 @@
  *
  * AT Protocol feed generator endpoint. Returns a skeleton of post URIs
  * for the requested custom feed. Bluesky AppView hydrates these into
- * full post objects for display.
+ * full post objects for display. Feeds come from the registry in
+ * lib/config/feed.config.ts.
+ *
+ * Requests may carry the viewer's inter-service JWT; when it verifies,
+ * personalized feeds are reordered for that viewer. No token means an
+ * anonymous skeleton; a bad token is rejected. If the viewer's signing
+ * key can't be looked up, the anonymous skeleton is served instead.
  *
  * @see https://docs.bsky.app/docs/starter-templates/custom-feeds
  * @module xrpc-getFeedSkeleton
  */
 
 import { NextRequest, NextResponse } from 'next/server'
-import { getServiceSupabase } from '@/lib/api/service-supabase'
-
-const FEED_URI_PREFIX = 'at://did:plc:aq5zgmygkh2uztg44izqmhzy/app.bsky.feed.generator/'
-
-const SUPPORTED_FEEDS: Record<string, string[]> = {
-  'memepet-drama': [
-    'proactive_post',
-    'reactive_reply',
-    'interaction_initiate',
-    'engagement_comment',
-    'proactive_thread',
-    'engagement_quote',
-  ],
-}
+import { FEED_CONFIG } from '@/lib/config/feed.config'
+import {
+  BadCursorError,
+  parseFeedUri,
+  resolveFeed,
+  serviceDid,
+} from '@/lib/services/feed-generator'
+import { getPersonalizedFeedSkeleton } from '@/lib/services/feed-personalization'
+import { ServiceAuthError, verifyServiceJwt } from '@/lib/services/service-auth'
 
 export async function GET(req: NextRequest) {
   const url = new URL(req.url)
   const feedUri = url.searchParams.get('feed')
-  const limit = Math.min(Math.max(Number(url.searchParams.get('limit')) || 30, 1), 100)
+  const limit = Math.min(
+    Math.max(Number(url.searchParams.get('limit')) || FEED_CONFIG.DEFAULT_LIMIT, 1),
+    FEED_CONFIG.MAX_LIMIT
+  )
   const cursor = url.searchParams.get('cursor')
 
   if (!feedUri) {
@@ -38,61 +42,44 @@ export async function GET(req: NextRequest) {
     )
   }
 
-  // Extract feed rkey from AT URI
-  const rkey = feedUri.startsWith(FEED_URI_PREFIX)
-    ? feedUri.slice(FEED_URI_PREFIX.length)
-    : null
-
-  const activityTypes = rkey ? SUPPORTED_FEEDS[rkey] : undefined
-
-  if (!activityTypes) {
-    return NextResponse.json(
-      { error: 'UnknownFeed', message: `Unsupported feed: ${feedUri}` },
-      { status: 400 }
-    )
+  let viewerDid: string | null
+  try {
+    viewerDid = await verifyServiceJwt(req.headers.get('authorization'), {
+      audience: serviceDid(),
+      lxm: 'app.bsky.feed.getFeedSkeleton',
+    })
+  } catch (error) {
+    if (error instanceof ServiceAuthError) {
+      return NextResponse.json({ error: 'AuthenticationRequired', message: error.message }, { status: 401 })
+    }
+    // Our key lookup failed, not their token: don't lock the viewer out
+    console.warn('[getFeedSkeleton] Serving unpersonalized feed:', error instanceof Error ? error.message : error)
+    viewerDid = null
   }
 
-  // Decode cursor (base64-encoded ISO timestamp)
-  let cursorDate: Date
-  if (cursor) {
-    try {
-      cursorDate = new Date(Buffer.from(cursor, 'base64').toString('utf-8'))
-      if (isNaN(cursorDate.getTime())) throw new Error('invalid')
-    } catch {
+  try {
+    // Extract feed rkey from AT URI
+    const rkey = parseFeedUri(feedUri)
+    const feed = rkey ? await resolveFeed(rkey) : null
+
+    if (!feed) {
       return NextResponse.json(
-        { error: 'BadCursor', message: 'Invalid cursor format' },
+        { error: 'UnknownFeed', message: `Unsupported feed: ${feedUri}` },
         { status: 400 }
       )
     }
-  } else {
-    cursorDate = new Date()
-  }
 
-  const supabase = getServiceSupabase()
-  const { data, error } = await (supabase as any)
-    .from('bluesky_post_log')
-    .select('post_uri, created_at')
-    .in('activity_type', activityTypes)
-    .not('post_uri', 'is', null)
-    .lt('created_at', cursorDate.toISOString())
-    .order('created_at', { ascending: false })
-    .limit(limit) as {
-      data: Array<{ post_uri: string; created_at: string }> | null
-      error: unknown
+    return NextResponse.json(await getPersonalizedFeedSkeleton(feed, { limit, cursor, viewerDid }))
+  } catch (error) {
+    if (error instanceof BadCursorError) {
+      return NextResponse.json(
+        { error: 'BadCursor', message: 'Invalid cursor format' },
+        { status: 400 }
+      )
     }
-
-  if (error) {
     return NextResponse.json(
       { error: 'InternalError', message: 'Failed to fetch feed data' },
       { status: 500 }
     )
   }
-
-  const feed = (data ?? []).map(row => ({ post: row.post_uri }))
-
-  const nextCursor = data && data.length === limit
-    ? Buffer.from(data[data.length - 1].created_at).toString('base64')
-    : undefined
-
-  return NextResponse.json({ feed, cursor: nextCursor })
 }
@@ -0,0 +1,164 @@
+/**
+ * Content Bandit
+ *
+ * Per-pet multi-armed bandit over what proactive posts are about. Arms
+ * are the values of each attribution dimension (a topic tag, an intent
+ * type, image vs. text-only, ...) with their lift: average engagement
+ * reward over the pet's own average, shrunk toward 1 while an arm has
+ * few posts. post-metrics recomputes them into bluesky_content_arm.
+ *
+ * Before a proactive post, chooseContentBias picks a topic and an
+ * intent to lean toward, epsilon-greedy: the best arm above average
+ * most of the time, a random one EXPLORATION of the time so new topics
+ * still get tried. imageProbabilityMultiplier scales the image roll by
+ * how image posts do against text-only ones.
+ *
+ * @module content-bandit
+ */
+
+import { getServiceSupabase } from '@/lib/api/service-supabase'
+import { PERFORMANCE_CONFIG, type ContentDimension } from '@/lib/config/performance.config'
+import { normalizeTopic } from '@/lib/agent/memory/running-themes'
+
+// ─── Types ──────────────────────────────────────────
+
+/** One value of one dimension a post is attributed to */
+export interface ContentAttribute {
+  readonly dimension: ContentDimension
+  readonly arm: string
+}
+
+export interface ContentArm extends ContentAttribute {
+  readonly posts: number
+  readonly meanReward: number
+  /** Reward relative to the pet's average, shrunk toward 1 (1 = average) */
+  readonly lift: number
+}
+
+/** What the next post should lean toward; absent fields mean no nudge */
+export interface ContentBias {
+  topic?: string
+  intentType?: string
+  /** Picked at random to explore rather than for performing best */
+  explored: boolean
+}
+
+// ─── Learning ───────────────────────────────────────
+
+/**
+ * Arms for one pet from its scored posts. Each post counts once toward
+ * every attribute it has.
+ */
+export function computeContentArms(
+  posts: ReadonlyArray<{ attributes: readonly ContentAttribute[]; reward: number }>
+): ContentArm[] {
+  if (posts.length === 0) return []
+  const petMean = posts.reduce((sum, p) => sum + p.reward, 0) / posts.length
+  const prior = PERFORMANCE_CONFIG.LEARNING.PRIOR_POSTS
+
+  const totals = new Map<string, { attribute: ContentAttribute; posts: number; reward: number }>()
+  for (const post of posts) {
+    for (const attribute of post.attributes) {
+      const key = `${attribute.dimension}\n${attribute.arm}`
+      const total = totals.get(key) ?? { attribute, posts: 0, reward: 0 }
+      totals.set(key, { ...total, posts: total.posts + 1, reward: total.reward + post.reward })
+    }
+  }
+
+  return [...totals.values()].map(({ attribute, posts: count, reward }) => ({
+    dimension: attribute.dimension,
+    arm: attribute.arm,
+    posts: count,
+    meanReward: reward / count,
+    lift: petMean > 0 ? (reward + prior * petMean) / (count + prior) / petMean : 1,
+  }))
+}
+
+// ─── Choosing ───────────────────────────────────────
+
+/**
+ * Topic and intent to nudge the next post toward, or null when the pet
+ * has nothing to go on yet (or nothing beats its average). Topics on
+ * `avoid` (owner-blocked, avoid list) are never suggested.
+ */
+export function chooseContentBias(
+  arms: readonly ContentArm[],
+  candidates: { topics: readonly string[]; intents: readonly string[]; avoid?: readonly string[] },
+  random: () => number = Math.random
+): ContentBias | null {
+  if (arms.length === 0) return null
+
+  const avoid = new Set((candidates.avoid ?? []).map(normalizeTopic))
+  const topic = pickArm(
+    arms.filter(a => a.dimension === 'topic' && !avoid.has(a.arm)),
+    candidates.topics.map(normalizeTopic).filter(t => t && !avoid.has(t)),
+    random
+  )
+  const intent = pickArm(arms.filter(a => a.dimension === 'intent'), candidates.intents, random)
+  if (!topic && !intent) return null
+
+  return {
+    ...(topic ? { topic: topic.arm } : {}),
+    ...(intent ? { intentType: intent.arm } : {}),
+    explored: !!(topic?.explored || intent?.explored),
+  }
+}
+
+/**
+ * Image probability multiplier: how image posts do against text-only
+ * ones, within [MIN_MULTIPLIER, MAX_MULTIPLIER] so images keep getting
+ * tried. 1 until both have been measured.
+ */
+export function imageProbabilityMultiplier(arms: readonly ContentArm[]): number {
+  const image = arms.find(a => a.dimension === 'image' && a.arm === 'image')
+  const text = arms.find(a => a.dimension === 'image' && a.arm === 'text')
+  if (!image || !text || text.lift <= 0) return 1
+
+  const { MIN_MULTIPLIER, MAX_MULTIPLIER } = PERFORMANCE_CONFIG.IMAGE
+  return Math.min(MAX_MULTIPLIER, Math.max(MIN_MULTIPLIER, image.lift / text.lift))
+}
+
+/** The pet's arms; best-effort, empty on failure */
+export async function loadContentArms(petId: string): Promise<ContentArm[]> {
+  try {
+    const { data, error } = await (getServiceSupabase() as any)
+      .from('bluesky_content_arm')
+      .select('dimension, arm, posts, mean_reward, lift')
+      .eq('pet_id', petId) as {
+        data: Array<{ dimension: ContentDimension; arm: string; posts: number; mean_reward: number; lift: number }> | null
+        error: unknown
+      }
+    if (error) throw new Error(JSON.stringify(error))
+
+    return (data ?? []).map(row => ({
+      dimension: row.dimension,
+      arm: row.arm,
+      posts: row.posts,
+      meanReward: row.mean_reward,
+      lift: row.lift,
+    }))
+  } catch (error) {
+    console.warn(`[content-bandit] Failed to load arms for ${petId}:`, error instanceof Error ? error.message : error)
+    return []
+  }
+}
+
+// ─── Internals ──────────────────────────────────────
+
+/** Epsilon-greedy: a random candidate or arm to explore, else the best arm above average */
+function pickArm(
+  arms: readonly ContentArm[],
+  candidates: readonly string[],
+  random: () => number
+): { arm: string; explored: boolean } | null {
+  if (random() < PERFORMANCE_CONFIG.BANDIT.EXPLORATION) {
+    const pool = [...new Set([...candidates, ...arms.map(a => a.arm)])]
+    if (pool.length === 0) return null
+    return { arm: pool[Math.min(pool.length - 1, Math.floor(random() * pool.length))], explored: true }
+  }
+
+  const best = arms
+    .filter(a => a.posts >= PERFORMANCE_CONFIG.BANDIT.MIN_POSTS)
+    .reduce<ContentArm | null>((top, arm) => !top || arm.lift > top.lift ? arm : top, null)
+  return best && best.lift > 1 ? { arm: best.arm, explored: false } : null
+}
@@ -0,0 +1,225 @@
+/**
+ * Conversation Engine
+ *
+ * Plans and tracks bot-to-bot conversations as short scenes. Each thread
+ * root gets one bluesky_conversation row holding the arc (a beat per
+ * post: setup → escalation… → resolution), the scene goal derived from
+ * the pair's relationship sentiment, and how many posts have been made.
+ *
+ * Every post asks the engine for its direction (which beat, is it the
+ * closing line), and records itself afterwards. The post that lands on
+ * the resolution beat closes the conversation, so threads end on a
+ * deliberate closing line instead of running into a turn cap.
+ *
+ * @module conversation-engine
+ */
+
+import { getServiceSupabase } from '@/lib/api/service-supabase'
+import {
+  CONVERSATION_CONFIG,
+  type ArcBeat,
+} from '@/lib/config/conversation.config'
+import type { RelationshipSentiment } from '@/lib/agent/memory/relationship-memory-service'
+
+// ─── Types ──────────────────────────────────────────
+
+export type ConversationStatus = 'active' | 'closed'
+
+/** Why a conversation stopped */
+export type ConversationCloseReason = 'resolved' | 'disengaged'
+
+export interface ConversationArc {
+  sentiment: RelationshipSentiment
+  sceneGoal: string
+  /** One beat per post in the conversation, in order */
+  beats: ArcBeat[]
+}
+
+export interface ConversationState extends ConversationArc {
+  rootUri: string
+  initiatorPetId: string
+  responderPetId: string
+  /** Posts made so far (both pets) */
+  turn: number
+  status: ConversationStatus
+  closeReason: ConversationCloseReason | null
+}
+
+/** What the next post in the conversation should do */
+export interface SceneDirection {
+  beat: ArcBeat
+  sceneGoal: string
+  /** 1-based position of the next post */
+  turn: number
+  totalTurns: number
+  /** The next post is the resolution beat and ends the conversation */
+  isClosing: boolean
+}
+
+interface ConversationRow {
+  root_uri: string
+  initiator_pet_id: string
+  responder_pet_id: string
+  sentiment: string
+  scene_goal: string
+  beats: ArcBeat[]
+  turn: number
+  status: ConversationStatus
+  close_reason: ConversationCloseReason | null
+}
+
+// ─── Planning ───────────────────────────────────────
+
+/**
+ * Plan an arc for a pair with the given sentiment (null = no history).
+ * Length is drawn from the sentiment's range; the first post sets up,
+ * the last resolves, everything between escalates.
+ */
+export function planArc(
+  sentiment: RelationshipSentiment | null,
+  random: () => number = Math.random
+): ConversationArc {
+  const resolved = sentiment ?? CONVERSATION_CONFIG.DEFAULT_SENTIMENT
+  const template = CONVERSATION_CONFIG.ARCS[resolved]
+  const [min, max] = template.turns
+  const length = Math.max(3, min + Math.floor(random() * (max - min + 1)))
+
+  const beats: ArcBeat[] = Array.from({ length }, (_, i) =>
+    i === 0 ? 'setup' : i === length - 1 ? 'resolution' : 'escalation'
+  )
+  return { sentiment: resolved, sceneGoal: template.sceneGoal, beats }
+}
+
+/** Direction for the next post, or null if the conversation is over */
+export function nextDirection(state: ConversationState): SceneDirection | null {
+  const turn = state.turn + 1
+  if (state.status === 'closed' || turn > state.beats.length) return null
+
+  const beat = state.beats[turn - 1]
+  return {
+    beat,
+    sceneGoal: state.sceneGoal,
+    turn,
+    totalTurns: state.beats.length,
+    isClosing: beat === 'resolution',
+  }
+}
+
+/** Direction for the opening post of a freshly planned arc */
+export function openingDirection(arc: ConversationArc): SceneDirection {
+  return {
+    beat: arc.beats[0],
+    sceneGoal: arc.sceneGoal,
+    turn: 1,
+    totalTurns: arc.beats.length,
+    isClosing: false,
+  }
+}
+
+export function formatSceneForPrompt(direction: SceneDirection): string {
+  return [
+    'SCENE:',
+    `- Goal: ${direction.sceneGoal}`,
+    `- Beat: ${direction.beat.toUpperCase()} (post ${direction.turn} of ${direction.totalTurns})`,
+    `- ${CONVERSATION_CONFIG.BEATS[direction.beat]}`,
+  ].join('\n')
+}
+
+// ─── Persistence ────────────────────────────────────
+
+export async function loadConversation(rootUri: string): Promise<ConversationState | null> {
+  const supabase = getServiceSupabase()
+  const { data, error } = await (supabase as any)
+    .from('bluesky_conversation')
+    .select('root_uri, initiator_pet_id, responder_pet_id, sentiment, scene_goal, beats, turn, status, close_reason')
+    .eq('root_uri', rootUri)
+    .maybeSingle() as { data: ConversationRow | null; error: unknown }
+
+  if (error) throw new Error(`Failed to load conversation ${rootUri}: ${JSON.stringify(error)}`)
+  return data ? fromRow(data) : null
+}
+
+/**
+ * Persist a new conversation. If another workflow already started one
+ * for this root, that one wins and is returned.
+ */
+export async function startConversation(params: {
+  rootUri: string
+  initiatorPetId: string
+  responderPetId: string
+  arc: ConversationArc
+  /** Posts already made when the conversation is registered */
+  turn: number
+}): Promise<ConversationState> {
+  const existing = await loadConversation(params.rootUri)
+  if (existing) return existing
+
+  const now = new Date().toISOString()
+  const row: ConversationRow & { created_at: string; updated_at: string } = {
+    root_uri: params.rootUri,
+    initiator_pet_id: params.initiatorPetId,
+    responder_pet_id: params.responderPetId,
+    sentiment: params.arc.sentiment,
+    scene_goal: params.arc.sceneGoal,
+    beats: params.arc.beats,
+    turn: params.turn,
+    status: params.turn >= params.arc.beats.length ? 'closed' : 'active',
+    close_reason: params.turn >= params.arc.beats.length ? 'resolved' : null,
+    created_at: now,
+    updated_at: now,
+  }
+
+  const supabase = getServiceSupabase()
+  const { error } = await (supabase as any)
+    .from('bluesky_conversation')
+    .upsert(row, { onConflict: 'root_uri', ignoreDuplicates: true }) as { error: unknown }
+
+  if (error) throw new Error(`Failed to start conversation ${params.rootUri}: ${JSON.stringify(error)}`)
+  return (await loadConversation(params.rootUri)) ?? fromRow(row)
+}
+
+/**
+ * Record that the next post was made. Landing on the resolution beat
+ * closes the conversation; `closeReason: 'disengaged'` closes it early.
+ */
+export async function recordTurn(
+  state: ConversationState,
+  options: { closeReason?: ConversationCloseReason } = {}
+): Promise<ConversationState> {
+  const turn = options.closeReason === 'disengaged' ? state.turn : state.turn + 1
+  const closeReason = options.closeReason ?? (turn >= state.beats.length ? 'resolved' : null)
+  const next: ConversationState = {
+    ...state,
+    turn,
+    status: closeReason ? 'closed' : 'active',
+    closeReason,
+  }
+
+  const supabase = getServiceSupabase()
+  const { error } = await (supabase as any)
+    .from('bluesky_conversation')
+    .update({
+      turn: next.turn,
+      status: next.status,
+      close_reason: next.closeReason,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('root_uri', state.rootUri) as { error: unknown }
+
+  if (error) throw new Error(`Failed to record turn for ${state.rootUri}: ${JSON.stringify(error)}`)
+  return next
+}
+
+function fromRow(row: ConversationRow): ConversationState {
+  return {
+    rootUri: row.root_uri,
+    initiatorPetId: row.initiator_pet_id,
+    responderPetId: row.responder_pet_id,
+    sentiment: row.sentiment as RelationshipSentiment,
+    sceneGoal: row.scene_goal,
+    beats: row.beats,
+    turn: row.turn,
+    status: row.status,
+    closeReason: row.close_reason,
+  }
+}
@@ -0,0 +1,264 @@
+/**
+ * Inter-Pet Matchmaking
+ *
+ * Chooses which pets start interactions on a cron tick. Every directed
+ * pair (initiator → target) is scored from:
+ * - The relationship storyline: unresolved beef, growing crushes,
+ *   dormant friendships, pairs that have never met
+ * - Time since the pair last interacted (cooldown, then ramping up)
+ * - The initiator's dramaTendency / approachability
+ * - Topic overlap in postingConfig.topicAffinity
+ * - Whether the target has a fresh post to react to
+ *
+ * Pairs are drawn proportionally to score, each pet in at most one pair
+ * per tick, and every pick carries the reasons it was chosen.
+ *
+ * @module matchmaking
+ */
+
+import { getServiceSupabase } from '@/lib/api/service-supabase'
+import { BLUESKY_CONFIG } from '@/lib/config/bluesky.config'
+import { MATCHMAKING_CONFIG } from '@/lib/config/matchmaking.config'
+import { buildPersonalityFromRow } from '@/lib/agent/pet-personality-builder'
+import type { RelationshipData, RelationshipSentiment } from '@/lib/agent/memory/relationship-memory-service'
+import type { MemePetPersonalityData } from '@/lib/workflows/modules/bluesky-post-generator'
+
+// ─── Types ──────────────────────────────────────────
+
+export interface MatchCandidate {
+  readonly petId: string
+  readonly personality: MemePetPersonalityData
+  /** When the pet last posted on its own (proactive post or thread) */
+  readonly lastOwnPostAt: string | null
+}
+
+export interface PairScore {
+  readonly initiatorPetId: string
+  readonly targetPetId: string
+  readonly score: number
+  readonly reasons: readonly string[]
+}
+
+const BEEF_SENTIMENTS: readonly RelationshipSentiment[] = ['rival', 'nemesis', 'hater']
+const FRIEND_SENTIMENTS: readonly RelationshipSentiment[] = ['friend', 'fan']
+
+const HOUR_MS = 60 * 60 * 1000
+
+// ─── Scoring ────────────────────────────────────────
+
+/**
+ * Score a directed pair, or null when the pair is still cooling down
+ * from its last interaction.
+ */
+export function scorePair(
+  initiator: MatchCandidate,
+  target: MatchCandidate,
+  relationship: RelationshipData | null,
+  now: Date
+): PairScore | null {
+  const reasons: string[] = []
+
+  // Recency
+  let recency = 1
+  if (relationship?.lastInteractionAt) {
+    const sinceMs = now.getTime() - new Date(relationship.lastInteractionAt).getTime()
+    if (sinceMs < BLUESKY_CONFIG.POSTING.COOLDOWN_BETWEEN_INTERACTIONS_MS) return null
+    recency = Math.min(1, Math.max(0.1, sinceMs / HOUR_MS / MATCHMAKING_CONFIG.RECENCY.SATURATION_HOURS))
+    reasons.push(`last interacted ${formatAge(sinceMs)} ago`)
+  }
+
+  // Storyline
+  const storyline = storylineScore(relationship, now)
+  if (storyline.reason) reasons.push(storyline.reason)
+
+  // Topics
+  const shared = sharedTopics(initiator.personality, target.personality)
+  const overlap = jaccard(initiator.personality.postingConfig.topicAffinity, target.personality.postingConfig.topicAffinity)
+  if (shared.length > 0) reasons.push(`shared topics: ${shared.slice(0, 3).join(', ')}`)
+
+  // Initiator's social drive
+  const social = initiator.personality.socialStyle
+  const drive = Math.max(
+    MATCHMAKING_CONFIG.SOCIAL.MIN_MULTIPLIER,
+    1 + social.dramaTendency * MATCHMAKING_CONFIG.SOCIAL.DRAMA
+      + social.approachability * MATCHMAKING_CONFIG.SOCIAL.APPROACHABILITY
+  )
+  if (social.dramaTendency >= 0.5) reasons.push(`initiator is a drama magnet (${social.dramaTendency.toFixed(2)})`)
+
+  // Something to react to
+  let fresh = 1
+  if (target.lastOwnPostAt) {
+    const ageMs = now.getTime() - new Date(target.lastOwnPostAt).getTime()
+    if (ageMs >= 0 && ageMs <= MATCHMAKING_CONFIG.FRESH_POST.WINDOW_HOURS * HOUR_MS) {
+      fresh = MATCHMAKING_CONFIG.FRESH_POST.MULTIPLIER
+      reasons.push(`target posted ${formatAge(ageMs)} ago`)
+    }
+  }
+
+  const score = (MATCHMAKING_CONFIG.BASE_SCORE + storyline.score + overlap * MATCHMAKING_CONFIG.TOPIC_OVERLAP)
+    * drive * recency * fresh
+
+  return { initiatorPetId: initiator.petId, targetPetId: target.petId, score, reasons }
+}
+
+function storylineScore(
+  relationship: RelationshipData | null,
+  now: Date
+): { score: number; reason: string | null } {
+  const weights = MATCHMAKING_CONFIG.STORYLINE
+  if (!relationship) return { score: weights.NEW_PAIR, reason: 'never interacted' }
+
+  const { sentiment, sentimentScore } = relationship
+  if (BEEF_SENTIMENTS.includes(sentiment)) {
+    return {
+      score: weights.UNRESOLVED_BEEF * Math.max(0.5, Math.abs(sentimentScore)),
+      reason: `unresolved beef (${sentiment}, ${sentimentScore.toFixed(2)})`,
+    }
+  }
+  if (sentiment === 'crush') {
+    const flirting = relationship.lastInteractionType === 'flirt'
+    return {
+      score: weights.GROWING_CRUSH * (flirting ? 2 : 1),
+      reason: flirting ? 'growing crush (last move was a flirt)' : 'growing crush',
+    }
+  }
+  if (FRIEND_SENTIMENTS.includes(sentiment) && relationship.lastInteractionAt) {
+    const idleDays = (now.getTime() - new Date(relationship.lastInteractionAt).getTime()) / (24 * HOUR_MS)
+    if (idleDays >= weights.DORMANT_AFTER_DAYS) {
+      return { score: weights.DORMANT_FRIENDSHIP, reason: `dormant ${sentiment}ship (${Math.floor(idleDays)}d quiet)` }
+    }
+  }
+  return { score: 0, reason: null }
+}
+
+function sharedTopics(a: MemePetPersonalityData, b: MemePetPersonalityData): string[] {
+  const theirs = new Set(b.postingConfig.topicAffinity.map(t => t.toLowerCase()))
+  return a.postingConfig.topicAffinity.filter(t => theirs.has(t.toLowerCase()))
+}
+
+function jaccard(a: readonly string[], b: readonly string[]): number {
+  const setA = new Set(a.map(t => t.toLowerCase()))
+  const setB = new Set(b.map(t => t.toLowerCase()))
+  const union = new Set([...setA, ...setB])
+  if (union.size === 0) return 0
+  return [...setA].filter(t => setB.has(t)).length / union.size
+}
+
+function formatAge(ms: number): string {
+  const hours = Math.floor(ms / HOUR_MS)
+  if (hours < 1) return `${Math.max(1, Math.floor(ms / 60_000))}m`
+  if (hours < 48) return `${hours}h`
+  return `${Math.floor(hours / 24)}d`
+}
+
+// ─── Selection ──────────────────────────────────────
+
+/**
+ * Draw up to `maxPairs` non-overlapping pairs, each with probability
+ * proportional to its score among the pairs still available.
+ */
+export function selectInteractionPairs(
+  candidates: readonly MatchCandidate[],
+  relationships: readonly RelationshipData[],
+  options: { now: Date; maxPairs: number; random?: () => number }
+): PairScore[] {
+  const random = options.random ?? Math.random
+  const byPair = new Map(relationships.map(r => [pairKey(r.petIdA, r.petIdB), r]))
+
+  let pool: PairScore[] = []
+  for (const initiator of candidates) {
+    for (const target of candidates) {
+      if (initiator.petId === target.petId) continue
+      const scored = scorePair(initiator, target, byPair.get(pairKey(initiator.petId, target.petId)) ?? null, options.now)
+      if (scored && scored.score > 0) pool.push(scored)
+    }
+  }
+
+  const selected: PairScore[] = []
+  const maxPairs = Math.min(options.maxPairs, Math.floor(candidates.length / 2))
+  while (selected.length < maxPairs && pool.length > 0) {
+    const total = pool.reduce((sum, pair) => sum + pair.score, 0)
+    let roll = random() * total
+    const pick = pool.find(pair => (roll -= pair.score) < 0) ?? pool[pool.length - 1]
+    selected.push(pick)
+
+    const busy = new Set([pick.initiatorPetId, pick.targetPetId])
+    pool = pool.filter(pair => !busy.has(pair.initiatorPetId) && !busy.has(pair.targetPetId))
+  }
+
+  return selected
+}
+
+/** One-line explanation of a pick for the cron log */
+export function explainPair(pair: PairScore): string {
+  const why = pair.reasons.length > 0 ? pair.reasons.join('; ') : 'no standout signal'
+  return `${pair.initiatorPetId}->${pair.targetPetId} (score ${pair.score.toFixed(2)}): ${why}`
+}
+
+function pairKey(id1: string, id2: string): string {
+  return id1 < id2 ? `${id1}|${id2}` : `${id2}|${id1}`
+}
+
+// ─── Data Loading ───────────────────────────────────
+
+/**
+ * Load personalities, relationships and recent own posts for the given
+ * pets and pick this tick's interaction pairs.
+ */
+export async function planInteractions(
+  petIds: readonly string[],
+  options: { now?: Date; maxPairs?: number } = {}
+): Promise<PairScore[]> {
+  if (petIds.length < 2) return []
+  const now = options.now ?? new Date()
+  const supabase = getServiceSupabase()
+  const freshSince = new Date(now.getTime() - MATCHMAKING_CONFIG.FRESH_POST.WINDOW_HOURS * HOUR_MS)
+
+  const [pets, relationships, posts] = await Promise.all([
+    (supabase as any)
+      .from('pet')
+      .select('id, meme')
+      .in('id', petIds) as Promise<{ data: Array<{ id: string; meme: Record<string, unknown> | null }> | null; error: unknown }>,
+    (supabase as any)
+      .from('pet_relationship')
+      .select('pet_id_a, pet_id_b, sentiment, sentiment_score, interaction_count, last_interaction_type, last_interaction_at')
+      .in('pet_id_a', petIds)
+      .in('pet_id_b', petIds) as Promise<{ data: Array<Record<string, unknown>> | null; error: unknown }>,
+    (supabase as any)
+      .from('bluesky_post_log')
+      .select('pet_id, created_at')
+      .in('pet_id', petIds)
+      .in('activity_type', ['proactive_post', 'proactive_thread'])
+      .gte('created_at', freshSince.toISOString())
+      .order('created_at', { ascending: false }) as Promise<{ data: Array<{ pet_id: string; created_at: string }> | null; error: unknown }>,
+  ])
+
+  if (pets.error) throw new Error(`Failed to load pets for matchmaking: ${JSON.stringify(pets.error)}`)
+
+  const lastOwnPost = new Map<string, string>()
+  for (const post of posts.data ?? []) {
+    if (!lastOwnPost.has(post.pet_id)) lastOwnPost.set(post.pet_id, post.created_at)
+  }
+
+  const candidates: MatchCandidate[] = (pets.data ?? []).map(pet => ({
+    petId: pet.id,
+    personality: buildPersonalityFromRow({ personality_type: null, psyche: null, meme: pet.meme }),
+    lastOwnPostAt: lastOwnPost.get(pet.id) ?? null,
+  }))
+
+  // Relationship history is a signal, not a requirement
+  const relationshipRows: RelationshipData[] = (relationships.data ?? []).map(row => ({
+    petIdA: row.pet_id_a as string,
+    petIdB: row.pet_id_b as string,
+    sentiment: row.sentiment as RelationshipSentiment,
+    sentimentScore: parseFloat(String(row.sentiment_score)),
+    interactionCount: row.interaction_count as number,
+    lastInteractionType: row.last_interaction_type as string | undefined,
+    lastInteractionAt: row.last_interaction_at as string | undefined,
+  }))
+
+  return selectInteractionPairs(candidates, relationshipRows, {
+    now,
+    maxPairs: options.maxPairs ?? MATCHMAKING_CONFIG.MAX_PAIRS_PER_TICK,
+  })
+}
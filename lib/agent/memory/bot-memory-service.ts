@@ -2,7 +2,14 @@
  * Bot Memory Service
  *
  * CRUD operations for per-bot memory stored in Supabase bot_memory table.
- * All state transformations are pure/immutable.
+ * All state transformations are pure/immutable. Stored memory from older
+ * schema versions is migrated on load (see memory-migrations), and the
+ * stored blob is copied to bot_memory_backup before an upgraded or
+ * replacement blob overwrites it.
+ *
+ * Writes are optimistic: every row carries a revision, saves only land
+ * on the revision the run loaded, and a lost race is merged and retried
+ * so overlapping workflow runs don't drop each other's updates.
  *
  * @module bot-memory-service
  */
@@ -14,9 +21,11 @@ import {
   type RecentPostDigest,
   type RelationshipEntry,
 } from '@/lib/agent/types/bot-memory'
+import { CURRENT_MEMORY_VERSION, runMemoryMigrations } from './memory-migrations'
+import { mergeBotMemory } from './memory-merge'
 
 const DEFAULT_MEMORY: BotMemory = {
-  version: 1,
+  version: 2,
   updatedAt: new Date().toISOString(),
   recentPosts: [],
   topicCooldowns: {},
@@ -25,48 +34,197 @@ const DEFAULT_MEMORY: BotMemory = {
   narrativeArc: '',
   currentMood: 'neutral',
   avoidList: [],
+  episodesBackfilledAt: null,
+}
+
+function freshMemory(): BotMemory {
+  const now = new Date().toISOString()
+  // Nothing to backfill for a pet that has no v1 window
+  return { ...DEFAULT_MEMORY, updatedAt: now, episodesBackfilledAt: now }
+}
+
+// ─── Load / Save ────────────────────────────────────
+
+/** Memory plus the bot_memory row revision it was read at */
+export type StoredBotMemory = BotMemory & { revision: number }
+
+export interface SaveBotMemoryOptions {
+  /**
+   * Memory as this run loaded it. Its revision is the write precondition
+   * and it anchors the merge if another run saved in the meantime.
+   * Defaults to the revision carried by the memory being saved.
+   */
+  base?: BotMemory & { revision?: number }
+  /** On a lost revision race: merge and retry (default) or throw */
+  onConflict?: 'merge' | 'reject'
 }
 
-export async function loadBotMemory(petId: string): Promise<BotMemory> {
+/** Another run saved this pet's memory first */
+export class BotMemoryConflictError extends Error {
+  constructor(
+    readonly petId: string,
+    readonly expectedRevision: number,
+    readonly actualRevision: number
+  ) {
+    super(`Memory for ${petId} changed (expected revision ${expectedRevision}, found ${actualRevision})`)
+    this.name = 'BotMemoryConflictError'
+  }
+}
+
+const MAX_SAVE_ATTEMPTS = 4
+
+/** Postgres unique_violation: someone else created the row first */
+const UNIQUE_VIOLATION = '23505'
+
+/**
+ * Load a pet's memory at its current revision. Fresh memory (revision 0)
+ * only when the pet has no row yet; a failed read throws, since saving
+ * fresh memory on top of it would replace the pet's real memory.
+ */
+export async function loadBotMemory(petId: string): Promise<StoredBotMemory> {
   const supabase = getServiceSupabase()
 
-  const { data } = await (supabase as any)
+  const { data, error } = await (supabase as any)
     .from('bot_memory')
-    .select('memory')
+    .select('memory, revision')
     .eq('pet_id', petId)
-    .maybeSingle() as { data: { memory: unknown } | null }
+    .maybeSingle() as { data: { memory: unknown; revision: number | null } | null; error: unknown }
 
-  if (!data?.memory) {
-    return { ...DEFAULT_MEMORY, updatedAt: new Date().toISOString() }
-  }
+  if (error) throw new Error(`Failed to load memory for ${petId}: ${JSON.stringify(error)}`)
+
+  const revision = data?.revision ?? 0
+  if (!data?.memory) return { ...freshMemory(), revision }
 
-  const parsed = BotMemorySchema.safeParse(data.memory)
-  if (!parsed.success) {
-    return { ...DEFAULT_MEMORY, updatedAt: new Date().toISOString() }
+  const migrated = runMemoryMigrations(data.memory)
+  if (!migrated.ok) {
+    // saveBotMemory backs the unreadable blob up before replacing it
+    console.warn(`[bot-memory] Stored memory for ${petId} is unreadable, starting fresh: ${migrated.error}`)
+    return { ...freshMemory(), revision }
   }
+  return { ...migrated.memory, revision }
+}
 
-  return parsed.data
+/**
+ * Parse stored memory of any known version and upgrade it to the
+ * current schema. Returns null for unknown versions or invalid data.
+ */
+export function migrateBotMemory(raw: unknown): BotMemory | null {
+  const migrated = runMemoryMigrations(raw)
+  return migrated.ok ? migrated.memory : null
 }
 
+/**
+ * Write memory if the row is still at the revision this run loaded.
+ * If another run got there first, its memory is merged with ours field
+ * by field (see memory-merge) and the write is retried on top of it,
+ * unless `onConflict: 'reject'`.
+ */
 export async function saveBotMemory(
   petId: string,
-  memory: BotMemory
-): Promise<void> {
-  const supabase = getServiceSupabase()
+  memory: BotMemory & { revision?: number },
+  options: SaveBotMemoryOptions = {}
+): Promise<StoredBotMemory> {
+  let expected = options.base?.revision ?? memory.revision
+  let ours = withoutRevision(memory)
+  let mergeBase = options.base ? withoutRevision(options.base) : undefined
+
+  for (let attempt = 1; ; attempt++) {
+    const updated: BotMemory = {
+      ...ours,
+      updatedAt: new Date().toISOString(),
+    }
+
+    // Callers without a revision overwrite whatever is stored now
+    if (expected === undefined) expected = (await loadBotMemory(petId)).revision
+
+    const revision = await writeIfRevision(petId, updated, expected)
+    if (revision !== null) return { ...updated, revision }
 
-  const updated: BotMemory = {
-    ...memory,
-    updatedAt: new Date().toISOString(),
+    const theirs = await loadBotMemory(petId)
+    if (options.onConflict === 'reject' || attempt >= MAX_SAVE_ATTEMPTS) {
+      throw new BotMemoryConflictError(petId, expected, theirs.revision)
+    }
+
+    const current = withoutRevision(theirs)
+    ours = mergeBotMemory(ours, current, mergeBase)
+    // Our merged copy now builds on theirs
+    mergeBase = current
+    expected = theirs.revision
   }
+}
+
+/** Compare-and-set on bot_memory.revision; returns the new revision or null on conflict */
+async function writeIfRevision(petId: string, memory: BotMemory, expected: number): Promise<number | null> {
+  const supabase = getServiceSupabase()
+  await backupBeforeUpgrade(petId)
+
+  const next = expected + 1
+  const { data, error } = await (supabase as any)
+    .from('bot_memory')
+    .update({ memory, revision: next })
+    .eq('pet_id', petId)
+    .eq('revision', expected)
+    .select('revision') as { data: Array<{ revision: number }> | null; error: unknown }
+
+  if (error) throw new Error(`Failed to save memory for ${petId}: ${JSON.stringify(error)}`)
+  if (data && data.length > 0) return next
+  if (expected !== 0) return null
+
+  // No row yet: the first writer creates it
+  const { error: insertError } = await (supabase as any)
+    .from('bot_memory')
+    .insert({ pet_id: petId, memory, revision: next }) as { error: { code?: string } | null }
+
+  if (insertError?.code === UNIQUE_VIOLATION) return null
+  if (insertError) throw new Error(`Failed to save memory for ${petId}: ${JSON.stringify(insertError)}`)
+  return next
+}
+
+function withoutRevision(memory: BotMemory & { revision?: number }): BotMemory {
+  const { revision: _revision, ...rest } = memory
+  return rest
+}
+
+// ─── Backups ────────────────────────────────────────
 
-  await (supabase as any)
+/**
+ * Snapshot the stored blob into bot_memory_backup if it is from an older
+ * version or doesn't parse, i.e. if the next save would replace data
+ * that only exists in the old shape. Throws rather than overwrite
+ * without a backup.
+ */
+async function backupBeforeUpgrade(petId: string): Promise<void> {
+  const supabase = getServiceSupabase()
+
+  const { data, error } = await (supabase as any)
     .from('bot_memory')
-    .upsert(
-      { pet_id: petId, memory: updated },
-      { onConflict: 'pet_id' }
-    )
+    .select('memory')
+    .eq('pet_id', petId)
+    .maybeSingle() as { data: { memory: unknown } | null; error: unknown }
+
+  if (error) throw new Error(`Failed to read memory for backup (${petId}): ${JSON.stringify(error)}`)
+  if (!data?.memory) return
+
+  const storedVersion = (data.memory as { version?: unknown }).version
+  const reason = typeof storedVersion === 'number' && storedVersion < CURRENT_MEMORY_VERSION
+    ? 'upgrade'
+    : BotMemorySchema.safeParse(data.memory).success ? null : 'invalid'
+  if (!reason) return
+
+  const { error: backupError } = await (supabase as any)
+    .from('bot_memory_backup')
+    .insert({
+      pet_id: petId,
+      version: typeof storedVersion === 'number' ? storedVersion : null,
+      reason,
+      memory: data.memory,
+    }) as { error: unknown }
+
+  if (backupError) throw new Error(`Failed to back up memory for ${petId}: ${JSON.stringify(backupError)}`)
 }
 
+// ─── Transformations ────────────────────────────────
+
 export function appendPostToMemory(
   memory: BotMemory,
   digest: RecentPostDigest
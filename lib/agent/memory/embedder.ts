@@ -0,0 +1,140 @@
+/**
+ * Text Embedders
+ *
+ * Pluggable embedders for the long-term memory store. Each embedder has
+ * a stable id that is stored with every episode, so recall only ever
+ * compares vectors produced by the same model.
+ *
+ * - HashingEmbedder: offline feature hashing of words and word bigrams.
+ *   Deterministic and dependency-free; good enough to match episodes
+ *   that share vocabulary, and what tests and the simulator use.
+ * - AiSdkEmbedder: any AI SDK embedding model (OpenAI by default).
+ *
+ * @module embedder
+ */
+
+import { createHash } from 'node:crypto'
+import { embedMany, type EmbeddingModel } from 'ai'
+import { openai } from '@ai-sdk/openai'
+import { MEMORY_CONFIG, type EmbedderName } from '@/lib/config/memory.config'
+
+// ─── Interface ──────────────────────────────────────
+
+export interface Embedder {
+  /** Stored with each episode; vectors from different ids are never compared */
+  readonly id: string
+  embed(texts: readonly string[]): Promise<number[][]>
+}
+
+// ─── Hashing Embedder ───────────────────────────────
+
+const STOP_WORDS = new Set([
+  'the', 'a', 'an', 'and', 'or', 'but', 'of', 'to', 'in', 'on', 'at', 'for', 'with',
+  'is', 'are', 'was', 'were', 'be', 'it', 'its', 'this', 'that', 'i', 'you', 'me',
+  'my', 'your', 'we', 'they', 'so', 'just', 'about', 'as', 'by', 'from',
+])
+
+export class HashingEmbedder implements Embedder {
+  readonly id: string
+
+  constructor(private readonly dimensions: number = MEMORY_CONFIG.EMBEDDERS.hashing.DIMENSIONS) {
+    this.id = `hashing-${dimensions}`
+  }
+
+  async embed(texts: readonly string[]): Promise<number[][]> {
+    return texts.map(text => this.embedOne(text))
+  }
+
+  private embedOne(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0)
+    const words = tokenize(text)
+    const features = [
+      ...words,
+      ...words.slice(1).map((word, i) => `${words[i]} ${word}`),
+    ]
+
+    for (const feature of features) {
+      const digest = createHash('md5').update(feature).digest()
+      const index = digest.readUInt32BE(0) % this.dimensions
+      // Signed hashing keeps collisions from only ever adding up
+      vector[index] += (digest[4] & 1) === 0 ? 1 : -1
+    }
+    return normalize(vector)
+  }
+}
+
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/https?:\/\/\S+/g, ' ')
+    .split(/[^a-z0-9@#']+/)
+    .map(word => word.replace(/^'+|'+$/g, ''))
+    .filter(word => word.length > 1 && !STOP_WORDS.has(word))
+}
+
+// ─── AI SDK Embedder ────────────────────────────────
+
+export class AiSdkEmbedder implements Embedder {
+  constructor(
+    readonly id: string,
+    private readonly model: EmbeddingModel<string>
+  ) {}
+
+  async embed(texts: readonly string[]): Promise<number[][]> {
+    if (texts.length === 0) return []
+    const { embeddings } = await embedMany({ model: this.model, values: [...texts] })
+    return embeddings.map(normalize)
+  }
+}
+
+// ─── Similarity ─────────────────────────────────────
+
+/** Cosine similarity; 0 when either vector is empty or the sizes differ */
+export function cosineSimilarity(a: readonly number[], b: readonly number[]): number {
+  if (a.length === 0 || a.length !== b.length) return 0
+  let dot = 0
+  let normA = 0
+  let normB = 0
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i]
+    normA += a[i] * a[i]
+    normB += b[i] * b[i]
+  }
+  if (normA === 0 || normB === 0) return 0
+  return dot / Math.sqrt(normA * normB)
+}
+
+function normalize(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0))
+  return norm === 0 ? vector : vector.map(v => v / norm)
+}
+
+// ─── Resolution ─────────────────────────────────────
+
+let embedderOverride: Embedder | null = null
+
+/** Replace the embedder (tests, simulator). Pass null to restore. */
+export function setEmbedderOverride(embedder: Embedder | null): void {
+  embedderOverride = embedder
+}
+
+/** Which embedder the environment selects (see MEMORY_CONFIG) */
+export function resolveEmbedderName(env: NodeJS.ProcessEnv = process.env): EmbedderName {
+  const forced = env.MEMORY_EMBEDDER
+  if (forced === 'hashing' || forced === 'openai') return forced
+  if (env.LLM_PROVIDER === 'mock' || !env.OPENAI_API_KEY) return 'hashing'
+  return 'openai'
+}
+
+export function getEmbedder(): Embedder {
+  if (embedderOverride) return embedderOverride
+
+  switch (resolveEmbedderName()) {
+    case 'openai': {
+      const modelId = MEMORY_CONFIG.EMBEDDERS.openai.MODEL_ID
+      return new AiSdkEmbedder(`openai:${modelId}`, openai.textEmbeddingModel(modelId))
+    }
+    case 'hashing':
+      return new HashingEmbedder()
+  }
+}
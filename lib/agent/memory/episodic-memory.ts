@@ -0,0 +1,283 @@
+/**
+ * Episodic Memory Service
+ *
+ * Long-term memory that outlives the rolling window in bot_memory.
+ * Every published post, reply and interaction becomes one row in
+ * bluesky_memory_episode with an embedding of its text. Recall embeds
+ * the current topic (or the message being answered), has the database
+ * find the pet's nearest episodes (bluesky_recall_episodes, pgvector),
+ * adds the latest episodes with the current conversation partner and
+ * ranks them by similarity, recency and whether they involve the partner.
+ *
+ * Memory is auxiliary: embedding or storage failures are logged and
+ * degrade to "remembers nothing" instead of failing the workflow step
+ * that already published the post.
+ *
+ * @module episodic-memory
+ */
+
+import { getServiceSupabase } from '@/lib/api/service-supabase'
+import { MEMORY_CONFIG } from '@/lib/config/memory.config'
+import type { BotMemory } from '@/lib/agent/types/bot-memory'
+import { cosineSimilarity, getEmbedder } from './embedder'
+
+// ─── Types ──────────────────────────────────────────
+
+export type EpisodeKind = 'post' | 'reply' | 'interaction'
+
+export interface EpisodeInput {
+  kind: EpisodeKind
+  /** What happened, in words the pet would recognise later */
+  content: string
+  topic?: string | null
+  partnerPetId?: string | null
+  partnerDid?: string | null
+  partnerHandle?: string | null
+  /** Published post; re-recording the same URI updates instead of duplicating */
+  postUri?: string | null
+  /** Defaults to now */
+  occurredAt?: string
+}
+
+export interface RecalledEpisode {
+  kind: EpisodeKind
+  content: string
+  topic: string | null
+  partnerHandle: string | null
+  occurredAt: string
+  similarity: number
+  score: number
+  /** The episode involves the conversation partner recall was asked about */
+  withPartner: boolean
+}
+
+export interface RecallOptions {
+  /** Topic, incoming message or post being reacted to */
+  query: string
+  partnerPetId?: string | null
+  partnerDid?: string | null
+  limit?: number
+  now?: Date
+}
+
+interface EpisodeRow {
+  pet_id: string
+  kind: EpisodeKind
+  content: string
+  topic: string | null
+  partner_pet_id: string | null
+  partner_did: string | null
+  partner_handle: string | null
+  post_uri: string | null
+  embedder: string
+  embedding: number[]
+  created_at: string
+}
+
+/** An episode up for recall, with its similarity to the query */
+interface EpisodeCandidate {
+  kind: EpisodeKind
+  content: string
+  topic: string | null
+  partner_pet_id: string | null
+  partner_did: string | null
+  partner_handle: string | null
+  created_at: string
+  similarity: number
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// ─── Recording ──────────────────────────────────────
+
+/** Store episodes for a pet. Returns how many were written. */
+export async function recordEpisodes(petId: string, inputs: readonly EpisodeInput[]): Promise<number> {
+  if (inputs.length === 0) return 0
+
+  try {
+    const embedder = getEmbedder()
+    const contents = inputs.map(input => input.content.slice(0, MEMORY_CONFIG.MAX_EPISODE_CHARS))
+    const embeddings = await embedder.embed(contents)
+
+    const rows: EpisodeRow[] = inputs.map((input, i) => ({
+      pet_id: petId,
+      kind: input.kind,
+      content: contents[i],
+      topic: input.topic ?? null,
+      partner_pet_id: input.partnerPetId ?? null,
+      partner_did: input.partnerDid ?? null,
+      partner_handle: input.partnerHandle ?? null,
+      post_uri: input.postUri ?? null,
+      embedder: embedder.id,
+      embedding: embeddings[i],
+      created_at: input.occurredAt ?? new Date().toISOString(),
+    }))
+
+    const supabase = getServiceSupabase()
+    const published = rows.filter(row => row.post_uri)
+    const unpublished = rows.filter(row => !row.post_uri)
+
+    if (published.length > 0) {
+      const { error } = await (supabase as any)
+        .from('bluesky_memory_episode')
+        .upsert(published, { onConflict: 'pet_id,post_uri' }) as { error: unknown }
+      if (error) throw new Error(JSON.stringify(error))
+    }
+    if (unpublished.length > 0) {
+      const { error } = await (supabase as any)
+        .from('bluesky_memory_episode')
+        .insert(unpublished) as { error: unknown }
+      if (error) throw new Error(JSON.stringify(error))
+    }
+    return rows.length
+  } catch (error) {
+    console.warn(`[episodic-memory] Failed to record ${inputs.length} episode(s) for ${petId}:`, error instanceof Error ? error.message : error)
+    return 0
+  }
+}
+
+export async function recordEpisode(petId: string, input: EpisodeInput): Promise<boolean> {
+  return (await recordEpisodes(petId, [input])) === 1
+}
+
+/**
+ * Seed the episode store from a rolling-window memory written before
+ * long-term memory existed (see migrateBotMemory). Returns the memory
+ * marked as backfilled; callers persist it.
+ */
+export async function backfillEpisodesFromMemory(petId: string, memory: BotMemory): Promise<BotMemory> {
+  if (memory.episodesBackfilledAt) return memory
+
+  const inputs: EpisodeInput[] = [
+    ...memory.recentPosts.map(post => ({
+      kind: 'post' as const,
+      content: post.gist,
+      topic: post.topic,
+      occurredAt: post.postedAt,
+    })),
+    ...memory.relationships.map(rel => ({
+      kind: 'interaction' as const,
+      content: `With ${rel.name}: ${rel.lastInteraction}`,
+      partnerPetId: rel.petId,
+      partnerHandle: rel.name,
+      occurredAt: rel.lastInteractedAt,
+    })),
+  ]
+
+  const written = await recordEpisodes(petId, inputs)
+  // Retry on the next run if the store was unavailable
+  if (inputs.length > 0 && written === 0) return memory
+  return { ...memory, episodesBackfilledAt: new Date().toISOString() }
+}
+
+// ─── Recall ─────────────────────────────────────────
+
+/**
+ * Most relevant past episodes for the current topic or partner, best
+ * first. Episodes from the last few hours are skipped: they are already
+ * in the rolling window or the thread context.
+ */
+export async function recallEpisodes(petId: string, options: RecallOptions): Promise<RecalledEpisode[]> {
+  const config = MEMORY_CONFIG.RECALL
+  const now = options.now ?? new Date()
+  const hasPartner = !!(options.partnerPetId || options.partnerDid)
+  if (!options.query.trim() && !hasPartner) return []
+
+  try {
+    const embedder = getEmbedder()
+    const supabase = getServiceSupabase() as any
+    const hasQuery = !!options.query.trim()
+    const before = new Date(now.getTime() - config.SKIP_NEWER_THAN_HOURS * 60 * 60 * 1000).toISOString()
+    const [queryVector] = hasQuery ? await embedder.embed([options.query]) : [[]]
+
+    const [nearest, partner] = await Promise.all([
+      hasQuery
+        ? supabase.rpc('bluesky_recall_episodes', {
+          p_pet_id: petId,
+          p_embedder: embedder.id,
+          p_query: queryVector,
+          p_before: before,
+          p_limit: config.CANDIDATE_ROWS,
+        }) as Promise<{ data: EpisodeCandidate[] | null; error: unknown }>
+        : Promise.resolve({ data: [] as EpisodeCandidate[], error: null }),
+      hasPartner
+        ? supabase
+          .from('bluesky_memory_episode')
+          .select('kind, content, topic, partner_pet_id, partner_did, partner_handle, embedding, created_at')
+          .eq('pet_id', petId)
+          .eq('embedder', embedder.id)
+          .or(partnerFilter(options))
+          .lte('created_at', before)
+          .order('created_at', { ascending: false })
+          .limit(config.PARTNER_ROWS) as Promise<{ data: EpisodeRow[] | null; error: unknown }>
+        : Promise.resolve({ data: [] as EpisodeRow[], error: null }),
+    ])
+
+    if (nearest.error) throw new Error(JSON.stringify(nearest.error))
+    if (partner.error) throw new Error(JSON.stringify(partner.error))
+
+    const partnerCandidates = (partner.data ?? []).map(({ embedding, ...row }): EpisodeCandidate => ({
+      ...row,
+      similarity: hasQuery ? cosineSimilarity(queryVector, embedding) : 0,
+    }))
+
+    const seen = new Set<string>()
+    const scored: RecalledEpisode[] = []
+
+    for (const row of [...partnerCandidates, ...(nearest.data ?? [])]) {
+      const key = `${row.created_at}|${row.content}`
+      if (seen.has(key)) continue
+      seen.add(key)
+
+      const occurredAt = new Date(row.created_at).getTime()
+      const withPartner = isWithPartner(row, options)
+      const { similarity } = row
+      const ageDays = Math.max(0, (now.getTime() - occurredAt) / DAY_MS)
+      const recency = Math.max(config.RECENCY_FLOOR, Math.pow(0.5, ageDays / config.HALF_LIFE_DAYS))
+      const score = Math.max(0, similarity) * recency + (withPartner ? config.PARTNER_BOOST : 0)
+      if (score < config.MIN_SCORE) continue
+
+      scored.push({
+        kind: row.kind,
+        content: row.content,
+        topic: row.topic,
+        partnerHandle: row.partner_handle,
+        occurredAt: row.created_at,
+        similarity,
+        score,
+        withPartner,
+      })
+    }
+
+    return scored
+      .sort((a, b) => b.score - a.score)
+      .slice(0, options.limit ?? config.LIMIT)
+  } catch (error) {
+    console.warn(`[episodic-memory] Recall failed for ${petId}:`, error instanceof Error ? error.message : error)
+    return []
+  }
+}
+
+/**
+ * Recall query for a proactive post: what the pet has been about lately
+ * (its story, running bits, favourite topics).
+ */
+export function buildProactiveRecallQuery(memory: BotMemory, topics: readonly string[]): string {
+  return [
+    memory.narrativeArc,
+    ...memory.runningThemes.filter(t => t.status === 'active').map(t => t.description),
+    topics.join(' '),
+  ].filter(Boolean).join('\n')
+}
+
+function partnerFilter(options: RecallOptions): string {
+  const clauses: string[] = []
+  if (options.partnerPetId) clauses.push(`partner_pet_id.eq.${options.partnerPetId}`)
+  if (options.partnerDid) clauses.push(`partner_did.eq.${options.partnerDid}`)
+  return clauses.join(',')
+}
+
+function isWithPartner(row: EpisodeCandidate, options: RecallOptions): boolean {
+  return (!!options.partnerPetId && row.partner_pet_id === options.partnerPetId)
+    || (!!options.partnerDid && row.partner_did === options.partnerDid)
+}
@@ -0,0 +1,229 @@
+/**
+ * Bot Memory Merge
+ *
+ * Reconciles two versions of a pet's memory when saveBotMemory loses a
+ * revision race: `ours` (what this run wants to write), `theirs` (what
+ * another run wrote in the meantime) and, when known, `base` (what this
+ * run originally loaded).
+ *
+ * Collections merge by identity so nobody's additions are lost:
+ * - recentPosts / reflections: union, newest first, capped
+ * - topicCooldowns / runningThemes: three-way per key against base, so
+ *   a cooldown or theme only one side removed or changed keeps that
+ *   change; when both changed a key, the latest cooldown wins and themes
+ *   combine (highest count, latest mention, the newer status change).
+ *   Without a base they union like relationships
+ * - relationships: union, the fresher entry per key wins
+ * - avoidList: union, capped
+ * Scalars take ours only if this run changed them (relative to base),
+ * otherwise theirs; moodState and timestamps take the most recent.
+ *
+ * @module memory-merge
+ */
+
+import type { MoodState } from '@/lib/agent/mood/emotion-engine'
+import type {
+  BotMemory,
+  RecentPostDigest,
+  ReflectionInsight,
+  RelationshipEntry,
+  RunningTheme,
+} from '@/lib/agent/types/bot-memory'
+
+/** Caps matching BotMemorySchema */
+const LIMITS = {
+  RECENT_POSTS: 15,
+  RELATIONSHIPS: 20,
+  RUNNING_THEMES: 5,
+  REFLECTIONS: 10,
+  AVOID_LIST: 10,
+} as const
+
+// ─── Field Merges ───────────────────────────────────
+
+export function mergeRecentPosts(
+  ours: readonly RecentPostDigest[],
+  theirs: readonly RecentPostDigest[]
+): RecentPostDigest[] {
+  return unionBy([...ours, ...theirs], p => `${p.postedAt}|${p.gist}`)
+    .sort((a, b) => b.postedAt.localeCompare(a.postedAt))
+    .slice(0, LIMITS.RECENT_POSTS)
+}
+
+export function mergeTopicCooldowns(
+  ours: Readonly<Record<string, string>>,
+  theirs: Readonly<Record<string, string>>,
+  base?: Readonly<Record<string, string>>
+): Record<string, string> {
+  return Object.fromEntries(mergeKeyed(
+    new Map(Object.entries(ours)),
+    new Map(Object.entries(theirs)),
+    base && new Map(Object.entries(base)),
+    (a, b) => a === b,
+    (a, b) => latest(a, b)!,
+  ))
+}
+
+export function mergeReflections(
+  ours: readonly ReflectionInsight[] | undefined,
+  theirs: readonly ReflectionInsight[] | undefined
+): ReflectionInsight[] | undefined {
+  if (!ours && !theirs) return undefined
+  return unionBy([...(ours ?? []), ...(theirs ?? [])], r => `${r.createdAt}|${r.insight}`)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    .slice(0, LIMITS.REFLECTIONS)
+}
+
+export function mergeRelationships(
+  ours: readonly RelationshipEntry[],
+  theirs: readonly RelationshipEntry[]
+): RelationshipEntry[] {
+  const byName = new Map<string, RelationshipEntry>()
+  for (const entry of [...theirs, ...ours]) {
+    const existing = byName.get(entry.name)
+    if (!existing || entry.lastInteractedAt >= existing.lastInteractedAt) byName.set(entry.name, entry)
+  }
+  return [...byName.values()]
+    .sort((a, b) => a.lastInteractedAt.localeCompare(b.lastInteractedAt))
+    .slice(-LIMITS.RELATIONSHIPS)
+}
+
+export function mergeRunningThemes(
+  ours: readonly RunningTheme[],
+  theirs: readonly RunningTheme[],
+  base?: readonly RunningTheme[]
+): RunningTheme[] {
+  const byDescription = (themes: readonly RunningTheme[]) => new Map(themes.map(theme => [theme.description, theme]))
+  const merged = mergeKeyed(
+    byDescription(ours),
+    byDescription(theirs),
+    base && byDescription(base),
+    sameTheme,
+    combineThemes,
+  )
+  return [...merged.values()].slice(-LIMITS.RUNNING_THEMES)
+}
+
+/** Both runs changed the same bit: keep the most progress from each */
+function combineThemes(ours: RunningTheme, theirs: RunningTheme, base: RunningTheme | undefined): RunningTheme {
+  const fresher = (ours.lastMentionedAt ?? '') >= (theirs.lastMentionedAt ?? '') ? ours : theirs
+  const oursMoved = ours.status !== base?.status
+  const theirsMoved = theirs.status !== base?.status
+  const status = oursMoved && (!theirsMoved || (ours.statusChangedAt ?? '') >= (theirs.statusChangedAt ?? ''))
+    ? ours
+    : theirsMoved ? theirs : ours
+  return {
+    ...fresher,
+    mentionCount: Math.max(ours.mentionCount, theirs.mentionCount),
+    lastMentionedAt: latest(ours.lastMentionedAt, theirs.lastMentionedAt),
+    lastCallbackAt: latest(ours.lastCallbackAt, theirs.lastCallbackAt),
+    status: status.status,
+    statusChangedAt: status.statusChangedAt,
+  }
+}
+
+function sameTheme(a: RunningTheme, b: RunningTheme): boolean {
+  return a.status === b.status
+    && a.mentionCount === b.mentionCount
+    && a.startedAt === b.startedAt
+    && a.topic === b.topic
+    && a.lastMentionedAt === b.lastMentionedAt
+    && a.statusChangedAt === b.statusChangedAt
+    && a.lastCallbackAt === b.lastCallbackAt
+}
+
+export function mergeAvoidList(ours: readonly string[], theirs: readonly string[]): string[] {
+  return [...new Set([...theirs, ...ours])].slice(-LIMITS.AVOID_LIST)
+}
+
+/** The more recently updated mood wins */
+export function mergeMoodState(
+  ours: MoodState | undefined,
+  theirs: MoodState | undefined
+): MoodState | undefined {
+  if (!ours || !theirs) return ours ?? theirs
+  return ours.lastUpdated >= theirs.lastUpdated ? ours : theirs
+}
+
+// ─── Whole Memory ───────────────────────────────────
+
+export function mergeBotMemory(ours: BotMemory, theirs: BotMemory, base?: BotMemory): BotMemory {
+  return {
+    ...theirs,
+    updatedAt: latest(ours.updatedAt, theirs.updatedAt)!,
+    recentPosts: mergeRecentPosts(ours.recentPosts, theirs.recentPosts),
+    topicCooldowns: mergeTopicCooldowns(ours.topicCooldowns, theirs.topicCooldowns, base?.topicCooldowns),
+    runningThemes: mergeRunningThemes(ours.runningThemes, theirs.runningThemes, base?.runningThemes),
+    relationships: mergeRelationships(ours.relationships, theirs.relationships),
+    narrativeArc: pickChanged(ours.narrativeArc, theirs.narrativeArc, base?.narrativeArc),
+    currentMood: pickChanged(ours.currentMood, theirs.currentMood, base?.currentMood),
+    avoidList: mergeAvoidList(ours.avoidList, theirs.avoidList),
+    reflections: mergeReflections(ours.reflections, theirs.reflections),
+    lastReflectionAt: latest(ours.lastReflectionAt, theirs.lastReflectionAt),
+    moodState: mergeMoodState(ours.moodState, theirs.moodState),
+    episodesBackfilledAt: latest(ours.episodesBackfilledAt ?? undefined, theirs.episodesBackfilledAt ?? undefined) ?? null,
+  }
+}
+
+// ─── Helpers ────────────────────────────────────────
+
+/**
+ * Three-way merge of keyed entries, theirs' order first. A side that left
+ * an entry as it was in base defers to the other side, removal included;
+ * when both changed it, `combine` decides (a removal loses to an edit).
+ * Without a base, entries union and `combine` settles shared keys.
+ */
+function mergeKeyed<T>(
+  ours: ReadonlyMap<string, T>,
+  theirs: ReadonlyMap<string, T>,
+  base: ReadonlyMap<string, T> | undefined,
+  same: (a: T, b: T) => boolean,
+  combine: (ours: T, theirs: T, base: T | undefined) => T
+): Map<string, T> {
+  const unchanged = (value: T | undefined, original: T | undefined) =>
+    value === undefined || original === undefined ? value === original : same(value, original)
+
+  const merged = new Map<string, T>()
+  for (const key of new Set([...theirs.keys(), ...ours.keys()])) {
+    const o = ours.get(key)
+    const t = theirs.get(key)
+    const b = base?.get(key)
+
+    let value: T | undefined
+    if (o !== undefined && t !== undefined && (!base || !unchanged(o, b) && !unchanged(t, b))) {
+      value = combine(o, t, b)
+    } else if (!base) {
+      value = o ?? t
+    } else if (unchanged(o, b)) {
+      value = t
+    } else if (unchanged(t, b)) {
+      value = o
+    } else {
+      value = o ?? t
+    }
+    if (value !== undefined) merged.set(key, value)
+  }
+  return merged
+}
+
+function unionBy<T>(items: readonly T[], key: (item: T) => string): T[] {
+  const seen = new Set<string>()
+  return items.filter(item => {
+    const k = key(item)
+    if (seen.has(k)) return false
+    seen.add(k)
+    return true
+  })
+}
+
+/** Later of two ISO timestamps (either may be missing) */
+function latest(a: string | undefined, b: string | undefined): string | undefined {
+  if (!a || !b) return a ?? b
+  return a >= b ? a : b
+}
+
+/** Ours if this run changed the value (or no base is known), else theirs */
+function pickChanged<T>(ours: T, theirs: T, base: T | undefined): T {
+  if (base === undefined) return ours
+  return ours === base ? theirs : ours
+}
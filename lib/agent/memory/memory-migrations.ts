@@ -0,0 +1,103 @@
+/**
+ * Bot Memory Migrations
+ *
+ * Upgrades stored bot_memory blobs to the current BotMemorySchema one
+ * version at a time (v1 → v2 → …). Each step validates the blob against
+ * the schema of the version it starts from, so a malformed blob is
+ * reported with the version and field that broke instead of being
+ * silently replaced.
+ *
+ * To change the memory shape:
+ * 1. Freeze the current schema as BotMemoryV<n>Schema in types/bot-memory
+ * 2. Bump BotMemorySchema's version literal to n + 1
+ * 3. Add MIGRATIONS[n] below
+ * 4. Run scripts/validate-bot-memory.ts against production data
+ *
+ * @module memory-migrations
+ */
+
+import type { z } from 'zod'
+import {
+  BotMemorySchema,
+  BotMemoryV1Schema,
+  type BotMemory,
+} from '@/lib/agent/types/bot-memory'
+
+// ─── Types ──────────────────────────────────────────
+
+interface MemoryMigration {
+  /** Shape stored at the version this step upgrades from */
+  schema: z.ZodTypeAny
+  /** Returns the shape of the next version */
+  up(memory: unknown): unknown
+}
+
+export type MemoryMigrationResult =
+  | {
+      ok: true
+      memory: BotMemory
+      /** Version the blob was stored at */
+      fromVersion: number
+      /** Versions migrated from, in order (empty when already current) */
+      applied: number[]
+    }
+  | {
+      ok: false
+      fromVersion: number | null
+      error: string
+    }
+
+export const CURRENT_MEMORY_VERSION: number = BotMemorySchema.shape.version.value
+
+function migration<S extends z.ZodTypeAny>(schema: S, up: (memory: z.infer<S>) => unknown): MemoryMigration {
+  return { schema, up: memory => up(memory as z.infer<S>) }
+}
+
+// ─── Migration Chain ────────────────────────────────
+
+/** Keyed by the version each step upgrades from */
+export const MIGRATIONS: Readonly<Record<number, MemoryMigration>> = {
+  // v2 adds the episodic store; the v1 window still needs backfilling into it
+  1: migration(BotMemoryV1Schema, memory => ({ ...memory, version: 2, episodesBackfilledAt: null })),
+}
+
+// ─── Runner ─────────────────────────────────────────
+
+/** Apply every migration from the blob's stored version to the current one */
+export function runMemoryMigrations(raw: unknown): MemoryMigrationResult {
+  const version = (raw as { version?: unknown } | null)?.version
+  if (typeof version !== 'number' || !Number.isInteger(version)) {
+    return { ok: false, fromVersion: null, error: 'missing or non-integer version' }
+  }
+  if (version > CURRENT_MEMORY_VERSION) {
+    return { ok: false, fromVersion: version, error: `v${version} is newer than supported v${CURRENT_MEMORY_VERSION}` }
+  }
+
+  let current: unknown = raw
+  const applied: number[] = []
+  for (let from = version; from < CURRENT_MEMORY_VERSION; from++) {
+    const step = MIGRATIONS[from]
+    if (!step) {
+      return { ok: false, fromVersion: version, error: `no migration from v${from}` }
+    }
+    const parsed = step.schema.safeParse(current)
+    if (!parsed.success) {
+      return { ok: false, fromVersion: version, error: `invalid v${from} memory: ${formatIssues(parsed.error)}` }
+    }
+    current = step.up(parsed.data)
+    applied.push(from)
+  }
+
+  const parsed = BotMemorySchema.safeParse(current)
+  if (!parsed.success) {
+    return { ok: false, fromVersion: version, error: `invalid v${CURRENT_MEMORY_VERSION} memory: ${formatIssues(parsed.error)}` }
+  }
+  return { ok: true, memory: parsed.data, fromVersion: version, applied }
+}
+
+function formatIssues(error: z.ZodError): string {
+  return error.issues
+    .slice(0, 3)
+    .map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+    .join('; ')
+}
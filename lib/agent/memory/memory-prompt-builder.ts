@@ -2,15 +2,20 @@
  * Memory Prompt Builder
  *
  * Converts structured bot memory into prompt context for AI generation.
- * Target: 400-800 tokens of information-dense context.
+ * Target: 400-800 tokens of information-dense context, plus a few
+ * episodes recalled from long-term memory when available.
  *
  * @module memory-prompt-builder
  */
 
 import type { BotMemory } from '@/lib/agent/types/bot-memory'
 import { getTopicsOnCooldown } from './bot-memory-service'
+import type { RecalledEpisode } from './episodic-memory'
 
-export function buildMemoryContext(memory: BotMemory): string {
+export function buildMemoryContext(
+  memory: BotMemory,
+  recalled: readonly RecalledEpisode[] = []
+): string {
   const sections: string[] = []
 
   if (memory.currentMood && memory.currentMood !== 'neutral') {
@@ -44,6 +49,13 @@ export function buildMemoryContext(memory: BotMemory): string {
     sections.push(`YOUR RUNNING BITS (you can continue these):\n${themes}`)
   }
 
+  const coolingThemes = memory.runningThemes.filter(t => t.status === 'cooling-off')
+  if (coolingThemes.length > 0) {
+    sections.push(
+      `BITS YOU'VE BEEN OVERDOING (give them a rest):\n${coolingThemes.map(t => `- "${t.description}"`).join('\n')}`
+    )
+  }
+
   if (memory.relationships.length > 0) {
     const rels = memory.relationships
       .slice(0, 8)
@@ -52,6 +64,11 @@ export function buildMemoryContext(memory: BotMemory): string {
     sections.push(`PEOPLE YOU KNOW:\n${rels}`)
   }
 
+  const recalledContext = formatRecalledEpisodes(recalled)
+  if (recalledContext) {
+    sections.push(recalledContext)
+  }
+
   if (memory.avoidList.length > 0) {
     sections.push(`DO NOT TALK ABOUT: ${memory.avoidList.join('; ')}`)
   }
@@ -63,6 +80,18 @@ export function buildMemoryContext(memory: BotMemory): string {
   return `YOUR MEMORY:\n${sections.join('\n\n')}`
 }
 
+/** Recalled long-term episodes as a prompt section ('' when none) */
+export function formatRecalledEpisodes(recalled: readonly RecalledEpisode[]): string {
+  if (recalled.length === 0) return ''
+  const lines = recalled
+    .map(e => {
+      const who = e.partnerHandle ? ` with ${e.partnerHandle}` : ''
+      return `- [${e.kind}${who}, ${relativeTime(e.occurredAt)}] ${e.content}`
+    })
+    .join('\n')
+  return `THINGS YOU REMEMBER (older moments relevant right now, call back to them if it fits):\n${lines}`
+}
+
 function relativeTime(isoTimestamp: string): string {
   const diffMs = Date.now() - new Date(isoTimestamp).getTime()
   const hours = Math.floor(diffMs / (60 * 60 * 1000))
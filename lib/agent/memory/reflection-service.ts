@@ -10,7 +10,6 @@
 
 import { z } from 'zod'
 import { generateObject } from 'ai'
-import { google } from '@ai-sdk/google'
 import {
   ReflectionInsightSchema,
   type BotMemory,
@@ -18,6 +17,7 @@ import {
   type RelationshipEntry,
   type ReflectionInsight,
 } from '@/lib/agent/types/bot-memory'
+import { withModelFailover, type ModelSelection } from '@/lib/services/model-registry'
 
 // ─── Constants ───────────────────────────────────────────
 
@@ -41,16 +41,17 @@ export interface GenerateReflectionsParams {
   readonly relationships: readonly RelationshipEntry[]
   readonly petName: string
   readonly personalityType: string
+  readonly modelSelection?: ModelSelection
 }
 
 /**
- * Generate 2-3 high-level reflections using Gemini.
+ * Generate 2-3 high-level reflections using the reflection model.
  * Returns empty array on failure for graceful degradation.
  */
 export async function generateReflections(
   params: GenerateReflectionsParams
 ): Promise<readonly ReflectionInsight[]> {
-  const { recentPosts, relationships, petName, personalityType } = params
+  const { recentPosts, relationships, petName, personalityType, modelSelection } = params
 
   if (recentPosts.length === 0) {
     return []
@@ -61,8 +62,8 @@ export async function generateReflections(
   const now = new Date().toISOString()
 
   try {
-    const { object } = await generateObject({
-      model: google('gemini-2.0-flash-001'),
+    const { object } = await withModelFailover('reflection', modelSelection, model => generateObject({
+      model,
       output: 'object',
       schema: ReflectionOutputSchema,
       temperature: 0.8,
@@ -74,7 +75,7 @@ export async function generateReflections(
         postCount: recentPosts.length,
         now,
       }),
-    })
+    }))
 
     return object.insights.map(insight => ({
       ...insight,
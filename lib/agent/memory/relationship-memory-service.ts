@@ -19,6 +19,17 @@ export type RelationshipSentiment =
   | 'fan'
   | 'hater'
 
+/** How each sentiment is shown to pet owners */
+export const SENTIMENT_LABELS: Record<RelationshipSentiment, string> = {
+  nemesis: 'Sworn enemies',
+  rival: 'Rivals',
+  hater: 'Throwing shade',
+  acquaintance: 'Acquaintances',
+  fan: 'Fan',
+  friend: 'Friends',
+  crush: 'Crush',
+}
+
 export interface RelationshipData {
   petIdA: string
   petIdB: string
@@ -0,0 +1,213 @@
+/**
+ * Running Themes
+ *
+ * Maintains a pet's running bits (BotMemory.runningThemes) from what it
+ * posts. A post continues a bit when it shares the bit's topic tag or
+ * most of its gist; it starts one when the model labels it a
+ * 'running-bit' or its topic tag keeps coming up in recent posts.
+ *
+ * Lifecycle (thresholds in THEME_CONFIG):
+ * - active: offered to the model to continue
+ * - cooling-off: overused or gone quiet; the model is told to rest it
+ * - retired: left alone, except for the occasional deliberate callback
+ *   picked by pickCallbackTheme
+ *
+ * All transformations are pure/immutable, like bot-memory-service.
+ *
+ * @module running-themes
+ */
+
+import { THEME_CONFIG } from '@/lib/config/themes.config'
+import type { BotMemory, RecentPostDigest, RunningTheme } from '@/lib/agent/types/bot-memory'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/** Words too common to tie a gist to a bit */
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'that', 'this', 'with', 'about', 'from', 'into', 'again',
+  'you', 'your', 'my', 'me', 'its', "it's", 'are', 'was', 'how', 'why', 'what',
+  'post', 'posted', 'posting', 'still', 'more', 'just', 'like', 'some',
+])
+
+// ─── Matching ───────────────────────────────────────
+
+/** Topic tags compared loosely: "#Nap Time" and "nap-time" are one topic */
+export function normalizeTopic(topic: string): string {
+  return topic
+    .toLowerCase()
+    .replace(/^#/, '')
+    .trim()
+    .replace(/[\s_]+/g, '-')
+    .slice(0, 40)
+}
+
+/**
+ * The bit a post continues, if any. Retired bits only count for posts
+ * the model labelled a callback.
+ */
+export function findContinuedTheme(
+  themes: readonly RunningTheme[],
+  post: Pick<RecentPostDigest, 'topic' | 'intentType' | 'gist'>
+): RunningTheme | undefined {
+  const candidates = themes.filter(t => t.status !== 'retired' || post.intentType === 'callback')
+  const topic = normalizeTopic(post.topic)
+
+  const byTopic = candidates.find(t => t.topic === topic)
+  if (byTopic) return byTopic
+
+  const gistWords = contentWords(post.gist)
+  return candidates.find(t => {
+    const themeWords = contentWords(t.description)
+    const shared = [...gistWords].filter(word => themeWords.has(word)).length
+    return shared >= THEME_CONFIG.GIST_MIN_SHARED_WORDS
+      && shared / Math.min(gistWords.size, themeWords.size) >= THEME_CONFIG.GIST_OVERLAP
+  })
+}
+
+// ─── Lifecycle ──────────────────────────────────────
+
+/**
+ * Move quiet active bits to cooling-off and rested cooling-off bits to
+ * retired. Bits already in the right state are returned as they are.
+ */
+export function advanceThemeLifecycle(memory: BotMemory, now: Date = new Date()): BotMemory {
+  let changed = false
+  const runningThemes = memory.runningThemes.map(theme => {
+    // Cooling off lasts COOLING_OFF_DAYS from whichever came last: the mention or the cool-off
+    const since = theme.status === 'cooling-off' && theme.statusChangedAt && theme.statusChangedAt > lastActivity(theme)
+      ? theme.statusChangedAt
+      : lastActivity(theme)
+    const quietDays = (now.getTime() - Date.parse(since)) / DAY_MS
+    const next = theme.status === 'active' && quietDays >= THEME_CONFIG.ACTIVE_IDLE_DAYS ? 'cooling-off'
+      : theme.status === 'cooling-off' && quietDays >= THEME_CONFIG.COOLING_OFF_DAYS ? 'retired'
+      : null
+    if (!next) return theme
+    changed = true
+    return { ...theme, status: next, statusChangedAt: now.toISOString() } satisfies RunningTheme
+  })
+  return changed ? { ...memory, runningThemes } : memory
+}
+
+/**
+ * Record a published post against the pet's bits: bump the bit it
+ * continues (cooling it off once overused) or start a new one. Ages
+ * the other bits first. `callbackTo` names the retired bit the post
+ * was asked to call back to.
+ */
+export function trackRunningThemes(
+  memory: BotMemory,
+  post: RecentPostDigest,
+  options: { callbackTo?: string; now?: Date } = {}
+): BotMemory {
+  const aged = advanceThemeLifecycle(memory, options.now)
+  const themes = aged.runningThemes
+  const continued = options.callbackTo
+    ? themes.find(t => t.description === options.callbackTo)
+    : findContinuedTheme(themes, post)
+
+  if (continued) {
+    return {
+      ...aged,
+      runningThemes: themes.map(t => t === continued ? continueTheme(t, post, !!options.callbackTo) : t),
+    }
+  }
+
+  const started = startTheme(aged, post)
+  const kept = withRoomFor(themes)
+  if (!started || kept.length >= THEME_CONFIG.MAX_THEMES) return aged
+  return { ...aged, runningThemes: [...kept, started] }
+}
+
+// ─── Callbacks ──────────────────────────────────────
+
+/**
+ * Occasionally pick a retired bit for the next post to call back to:
+ * the one left alone longest among those rested long enough. Null most
+ * of the time.
+ */
+export function pickCallbackTheme(
+  memory: BotMemory,
+  now: Date = new Date(),
+  random: () => number = Math.random
+): RunningTheme | null {
+  const { CALLBACK } = THEME_CONFIG
+  const eligible = advanceThemeLifecycle(memory, now).runningThemes.filter(theme => {
+    if (theme.status !== 'retired') return false
+    const retiredDays = (now.getTime() - Date.parse(theme.statusChangedAt ?? lastActivity(theme))) / DAY_MS
+    const sinceCallbackDays = theme.lastCallbackAt
+      ? (now.getTime() - Date.parse(theme.lastCallbackAt)) / DAY_MS
+      : Infinity
+    return retiredDays >= CALLBACK.MIN_DAYS_RETIRED && sinceCallbackDays >= CALLBACK.MIN_DAYS_BETWEEN
+  })
+  if (eligible.length === 0 || random() >= CALLBACK.PROBABILITY) return null
+
+  return eligible.reduce((oldest, theme) =>
+    lastActivity(theme) < lastActivity(oldest) ? theme : oldest
+  )
+}
+
+// ─── Internals ──────────────────────────────────────
+
+function continueTheme(theme: RunningTheme, post: RecentPostDigest, deliberateCallback: boolean): RunningTheme {
+  const mentionCount = theme.mentionCount + 1
+  const base = { ...theme, mentionCount, lastMentionedAt: post.postedAt }
+
+  // A callback keeps the bit retired; the next one waits MIN_DAYS_BETWEEN
+  if (theme.status === 'retired' || deliberateCallback) {
+    return { ...base, lastCallbackAt: post.postedAt }
+  }
+  if (theme.status === 'active' && mentionCount >= THEME_CONFIG.COOL_OFF_AFTER_MENTIONS) {
+    return { ...base, status: 'cooling-off', statusChangedAt: post.postedAt }
+  }
+  return base
+}
+
+/** A new bit for this post, or null if it doesn't start one */
+function startTheme(memory: BotMemory, post: RecentPostDigest): RunningTheme | null {
+  const topic = normalizeTopic(post.topic)
+  if (!topic || memory.runningThemes.some(t => t.topic === topic)) return null
+
+  // recentPosts already includes this post when it was appended first
+  const topicPosts = memory.recentPosts.filter(p => normalizeTopic(p.topic) === topic).length
+  if (post.intentType !== 'running-bit' && topicPosts < THEME_CONFIG.START_AFTER_TOPIC_POSTS) return null
+
+  return {
+    description: post.gist.slice(0, 120),
+    topic,
+    startedAt: post.postedAt,
+    lastMentionedAt: post.postedAt,
+    statusChangedAt: post.postedAt,
+    mentionCount: Math.max(topicPosts, 1),
+    status: 'active',
+  }
+}
+
+/**
+ * Themes with a slot free for a new one: the stalest retired bit goes
+ * first, then the stalest cooling-off one. Active bits are never
+ * dropped, so a pet with MAX_THEMES active bits starts no new ones.
+ */
+function withRoomFor(themes: readonly RunningTheme[]): RunningTheme[] {
+  if (themes.length < THEME_CONFIG.MAX_THEMES) return [...themes]
+
+  for (const status of ['retired', 'cooling-off'] as const) {
+    const stalest = themes
+      .filter(t => t.status === status)
+      .sort((a, b) => lastActivity(a).localeCompare(lastActivity(b)))[0]
+    if (stalest) return themes.filter(t => t !== stalest)
+  }
+  return [...themes]
+}
+
+function lastActivity(theme: RunningTheme): string {
+  return theme.lastMentionedAt ?? theme.startedAt
+}
+
+function contentWords(text: string): Set<string> {
+  return new Set(
+    text
+      .toLowerCase()
+      .split(/[^a-z0-9']+/)
+      .filter(word => word.length > 2 && !STOP_WORDS.has(word))
+  )
+}
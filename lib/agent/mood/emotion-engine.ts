@@ -26,13 +26,17 @@ export type MoodState = z.infer<typeof MoodStateSchema>
 
 // ─── Mood Event Types ─────────────────────────────────
 
-const MOOD_EVENT_TYPES = [
+export const MOOD_EVENT_TYPES = [
   'post_liked',
   'got_reply',
   'got_mentioned',
+  'got_quoted',
   'beef_interaction',
   'hype_received',
+  'hype_given',
   'ignored',
+  'post_landed',
+  'engaged_with_others',
   'morning',
   'late_night',
   'posted_successfully',
@@ -58,9 +62,13 @@ const EVENT_DELTAS: Record<MoodEventType, PadDelta> = {
   post_liked:           { pleasure:  0.05, arousal:  0.00, dominance:  0.00 },
   got_reply:            { pleasure:  0.08, arousal:  0.05, dominance:  0.00 },
   got_mentioned:        { pleasure:  0.00, arousal:  0.10, dominance:  0.00 },
+  got_quoted:           { pleasure:  0.06, arousal:  0.08, dominance:  0.03 },
   beef_interaction:     { pleasure: -0.05, arousal:  0.15, dominance:  0.05 },
   hype_received:        { pleasure:  0.12, arousal:  0.05, dominance:  0.00 },
+  hype_given:           { pleasure:  0.04, arousal:  0.05, dominance:  0.00 },
   ignored:              { pleasure: -0.05, arousal:  0.00, dominance: -0.03 },
+  post_landed:          { pleasure:  0.10, arousal:  0.05, dominance:  0.05 },
+  engaged_with_others:  { pleasure:  0.03, arousal:  0.05, dominance:  0.00 },
   morning:              { pleasure:  0.00, arousal:  0.10, dominance:  0.00 },
   late_night:           { pleasure:  0.00, arousal: -0.15, dominance:  0.00 },
   posted_successfully:  { pleasure:  0.03, arousal:  0.00, dominance:  0.02 },
@@ -185,7 +193,8 @@ export function applyEvents(mood: MoodState, events: readonly MoodEvent[]): Mood
 export function decayMood(
   mood: MoodState,
   personalityBaseline: MoodState,
-  hoursElapsed: number
+  hoursElapsed: number,
+  now: Date = new Date()
 ): MoodState {
   if (hoursElapsed <= 0) return mood
 
@@ -196,7 +205,7 @@ export function decayMood(
     arousal: clamp(personalityBaseline.arousal + (mood.arousal - personalityBaseline.arousal) * decayFactor),
     dominance: clamp(personalityBaseline.dominance + (mood.dominance - personalityBaseline.dominance) * decayFactor),
     currentEmotion: '',
-    lastUpdated: new Date().toISOString(),
+    lastUpdated: now.toISOString(),
   }
 
   return {
@@ -205,6 +214,40 @@ export function decayMood(
   }
 }
 
+/**
+ * Rebuild mood from a starting state and the events logged since.
+ *
+ * Events are applied in timestamp order with decay toward the baseline
+ * in between, so a burst of likes six hours ago counts for less than
+ * one a minute ago. Events at or before the start state's lastUpdated
+ * are already folded into it and skipped. The result is decayed up to
+ * `now` when given, otherwise it stands as of the last event.
+ */
+export function replayMood(
+  start: MoodState,
+  personalityBaseline: MoodState,
+  events: readonly MoodEvent[],
+  now?: Date
+): MoodState {
+  const pending = events
+    .filter(event => event.timestamp && event.timestamp > start.lastUpdated)
+    .sort((a, b) => a.timestamp!.localeCompare(b.timestamp!))
+
+  const replayed = pending.reduce<MoodState>((mood, event) => {
+    const eventAt = new Date(event.timestamp!)
+    const decayed = decayMood(mood, personalityBaseline, hoursBetween(mood.lastUpdated, eventAt), eventAt)
+    return applyEvent(decayed, event)
+  }, start)
+
+  return now ? decayMood(replayed, personalityBaseline, hoursBetween(replayed.lastUpdated, now), now) : replayed
+}
+
+function hoursBetween(fromIso: string, to: Date): number {
+  const fromMs = new Date(fromIso).getTime()
+  if (Number.isNaN(fromMs)) return 0
+  return Math.max(0, (to.getTime() - fromMs) / (1000 * 60 * 60))
+}
+
 /**
  * Return a personality-appropriate baseline MoodState.
  *
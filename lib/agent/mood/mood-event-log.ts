@@ -0,0 +1,216 @@
+/**
+ * Mood Event Log
+ *
+ * Per-pet log of the MoodEvents every workflow mode emits (pet_mood_event).
+ * The moodState in bot_memory is a snapshot; a pet's current mood is
+ * that snapshot with the events logged since replayed on top, decay
+ * included (see replayMood). Proactive runs save the replayed mood as
+ * the new snapshot.
+ *
+ * Events tied to a post or notification carry its URI so a retried
+ * workflow step logs them once. Like memory, the log is auxiliary:
+ * storage failures are logged and degrade to "nothing happened".
+ *
+ * @module mood-event-log
+ */
+
+import { getServiceSupabase } from '@/lib/api/service-supabase'
+import { MOOD_CONFIG } from '@/lib/config/mood.config'
+import {
+  getDefaultMood,
+  replayMood,
+  type MoodEvent,
+  type MoodEventType,
+  type MoodState,
+} from './emotion-engine'
+
+// ─── Types ──────────────────────────────────────────
+
+export interface MoodEventInput {
+  type: MoodEventType
+  /** Defaults to now */
+  timestamp?: string
+  /** Post or notification that caused the event; logged once per pet and type */
+  sourceUri?: string | null
+  metadata?: Record<string, unknown>
+}
+
+/** Own post with its engagement counts, for judging how it did */
+export interface PostOutcome {
+  uri: string
+  createdAt: string
+  /** Likes + replies + reposts + quotes */
+  engagement: number
+}
+
+/** One sample of a mood time series */
+export interface MoodSample {
+  at: string
+  pleasure: number
+  arousal: number
+  dominance: number
+  emotion: string
+}
+
+interface MoodEventRow {
+  pet_id: string
+  event_type: MoodEventType
+  source_uri: string | null
+  metadata: Record<string, unknown>
+  occurred_at: string
+}
+
+const HOUR_MS = 60 * 60 * 1000
+
+// ─── Recording ──────────────────────────────────────
+
+/** Append events to a pet's log. Returns how many were new. */
+export async function recordMoodEvents(petId: string, events: readonly MoodEventInput[]): Promise<number> {
+  if (events.length === 0) return 0
+
+  try {
+    const rows: MoodEventRow[] = events.map(event => ({
+      pet_id: petId,
+      event_type: event.type,
+      source_uri: event.sourceUri ?? null,
+      metadata: event.metadata ?? {},
+      occurred_at: event.timestamp ?? new Date().toISOString(),
+    }))
+
+    const supabase = getServiceSupabase()
+    const sourced = rows.filter(row => row.source_uri)
+    const unsourced = rows.filter(row => !row.source_uri)
+    let written = 0
+
+    if (sourced.length > 0) {
+      const { data, error } = await (supabase as any)
+        .from('pet_mood_event')
+        .upsert(sourced, { onConflict: 'pet_id,event_type,source_uri', ignoreDuplicates: true })
+        .select('event_type') as { data: unknown[] | null; error: unknown }
+      if (error) throw new Error(JSON.stringify(error))
+      written += data?.length ?? 0
+    }
+    if (unsourced.length > 0) {
+      const { error } = await (supabase as any)
+        .from('pet_mood_event')
+        .insert(unsourced) as { error: unknown }
+      if (error) throw new Error(JSON.stringify(error))
+      written += unsourced.length
+    }
+    return written
+  } catch (error) {
+    console.warn(`[mood-event-log] Failed to record ${events.length} mood event(s) for ${petId}:`, error instanceof Error ? error.message : error)
+    return 0
+  }
+}
+
+export async function recordMoodEvent(petId: string, event: MoodEventInput): Promise<boolean> {
+  return (await recordMoodEvents(petId, [event])) === 1
+}
+
+// ─── Replay ─────────────────────────────────────────
+
+/** Events logged strictly after `since`, oldest first */
+export async function loadMoodEventsSince(petId: string, since: string): Promise<MoodEvent[]> {
+  try {
+    const supabase = getServiceSupabase()
+    const { data, error } = await (supabase as any)
+      .from('pet_mood_event')
+      .select('event_type, occurred_at')
+      .eq('pet_id', petId)
+      .gt('occurred_at', since)
+      .order('occurred_at', { ascending: false })
+      .limit(MOOD_CONFIG.REPLAY_LIMIT) as { data: Array<Pick<MoodEventRow, 'event_type' | 'occurred_at'>> | null; error: unknown }
+
+    if (error) throw new Error(JSON.stringify(error))
+    return (data ?? [])
+      .map(row => ({ type: row.event_type, timestamp: row.occurred_at }))
+      .reverse()
+  } catch (error) {
+    console.warn(`[mood-event-log] Failed to load mood events for ${petId}:`, error instanceof Error ? error.message : error)
+    return []
+  }
+}
+
+/**
+ * A pet's mood right now: the saved snapshot (or its personality
+ * baseline) with every event logged since replayed and decayed to `now`.
+ */
+export async function resolveCurrentMood(
+  petId: string,
+  personalityType: string,
+  snapshot: MoodState | undefined,
+  now: Date = new Date()
+): Promise<MoodState> {
+  const baseline = getDefaultMood(personalityType)
+  // Without a snapshot the whole log applies, starting from the baseline
+  const start = snapshot ?? { ...baseline, lastUpdated: new Date(0).toISOString() }
+  const events = await loadMoodEventsSince(petId, start.lastUpdated)
+  return replayMood(start, baseline, events, now)
+}
+
+/**
+ * Mood every `stepHours` from `from` to `to`, replayed from the baseline
+ * through `events` (oldest first; events before `from` warm the series up).
+ */
+export function sampleMoodHistory(
+  baseline: MoodState,
+  events: readonly MoodEvent[],
+  range: { from: Date; to: Date; stepHours: number }
+): MoodSample[] {
+  const ordered = events
+    .filter(event => event.timestamp)
+    .sort((a, b) => a.timestamp!.localeCompare(b.timestamp!))
+  let mood: MoodState = { ...baseline, lastUpdated: new Date(0).toISOString() }
+  let next = 0
+
+  const samples: MoodSample[] = []
+  for (let t = range.from.getTime(); t <= range.to.getTime(); t += range.stepHours * HOUR_MS) {
+    const at = new Date(t)
+    const due: MoodEvent[] = []
+    while (next < ordered.length && ordered[next].timestamp! <= at.toISOString()) due.push(ordered[next++])
+    mood = replayMood(mood, baseline, due)
+
+    const sample = replayMood(mood, baseline, [], at)
+    samples.push({
+      at: at.toISOString(),
+      pleasure: sample.pleasure,
+      arousal: sample.arousal,
+      dominance: sample.dominance,
+      emotion: sample.currentEmotion,
+    })
+  }
+  return samples
+}
+
+// ─── Post Outcomes ──────────────────────────────────
+
+/**
+ * Judge own posts old enough to have had their chance: no engagement at
+ * all means the pet was ignored, a lot means the post landed. Posts in
+ * between move nothing. Each event is keyed by the post URI, so
+ * re-judging the same post on a later run is a no-op.
+ */
+export function postOutcomeEvents(posts: readonly PostOutcome[], now: Date = new Date()): MoodEventInput[] {
+  const config = MOOD_CONFIG.POST_OUTCOME
+  const events: MoodEventInput[] = []
+
+  for (const post of posts) {
+    const ageHours = (now.getTime() - new Date(post.createdAt).getTime()) / HOUR_MS
+    if (!(ageHours >= config.JUDGE_AFTER_HOURS && ageHours <= config.JUDGE_BEFORE_HOURS)) continue
+
+    const type: MoodEventType | null = post.engagement === 0
+      ? 'ignored'
+      : post.engagement >= config.LANDED_MIN_ENGAGEMENT ? 'post_landed' : null
+    if (!type) continue
+
+    events.push({
+      type,
+      timestamp: now.toISOString(),
+      sourceUri: post.uri,
+      metadata: { engagement: post.engagement },
+    })
+  }
+
+  return events
+}
@@ -8,6 +8,7 @@
  */
 
 import type { MemePetPersonalityData } from '@/lib/workflows/modules/bluesky-post-generator'
+import type { BudgetLevel } from '@/lib/services/llm-usage'
 
 // ─── Types ──────────────────────────────────────────
 
@@ -75,6 +76,10 @@ export function evaluatePostingDecision(params: {
   readonly chronotype: Chronotype
   readonly personality: MemePetPersonalityData
   readonly utcOffsetHours: number
+  /** Owner pause (pet_owner_control.paused_until); no posts before it */
+  readonly pausedUntil?: string | null
+  /** Daily LLM budget level (see llm-usage); an exhausted budget means no posts */
+  readonly budgetLevel?: BudgetLevel
 }): PostDecision {
   const { now, frequency, chronotype, personality, utcOffsetHours } = params
   let state = params.state
@@ -91,6 +96,16 @@ export function evaluatePostingDecision(params: {
     }
   }
 
+  // Step 1b: Owner asked the pet to go quiet
+  if (params.pausedUntil && new Date(params.pausedUntil) > now) {
+    return { shouldPost: false, reason: `paused until ${params.pausedUntil}`, updatedState: state }
+  }
+
+  // Step 1c: Daily LLM budget spent
+  if (params.budgetLevel === 'exhausted') {
+    return { shouldPost: false, reason: 'LLM budget exhausted', updatedState: state }
+  }
+
   // Step 2: Daily cap
   const effectiveTarget = Math.round(
     DAILY_POST_TARGETS[frequency] * state.dailyMood.frequencyMultiplier
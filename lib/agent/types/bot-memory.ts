@@ -2,7 +2,14 @@
  * Per-Bot Memory Types
  *
  * Structured memory that each bot maintains across posting sessions.
- * Stored as JSONB in the bot_memory Supabase table.
+ * Stored as JSONB in the bot_memory Supabase table. This is the short
+ * rolling window; older posts, replies and interactions live in the
+ * episodic store (see episodic-memory).
+ *
+ * Versions:
+ * - 1: rolling window only
+ * - 2: adds episodesBackfilledAt, set once the v1 window has been
+ *      copied into the episodic store
  *
  * @module bot-memory
  */
@@ -35,6 +42,12 @@ const RunningThemeSchema = z.object({
   startedAt: z.string(),
   mentionCount: z.number().int(),
   status: z.enum(['active', 'cooling-off', 'retired']),
+  /** Normalized topic tag the bit is about (bits from before tracking have none) */
+  topic: z.string().max(40).optional(),
+  lastMentionedAt: z.string().optional(),
+  statusChangedAt: z.string().optional(),
+  /** Last deliberate callback after the bit retired */
+  lastCallbackAt: z.string().optional(),
 })
 
 export const ReflectionInsightSchema = z.object({
@@ -55,7 +68,8 @@ export const ReflectionInsightSchema = z.object({
     .describe('How many recent posts contributed to this insight'),
 })
 
-export const BotMemorySchema = z.object({
+/** Stored shape before long-term memory; only read to migrate */
+export const BotMemoryV1Schema = z.object({
   version: z.literal(1),
   updatedAt: z.string(),
   recentPosts: z.array(RecentPostDigestSchema).max(15),
@@ -70,7 +84,14 @@ export const BotMemorySchema = z.object({
   moodState: MoodStateSchema.optional(),
 })
 
+export const BotMemorySchema = BotMemoryV1Schema.extend({
+  version: z.literal(2),
+  /** When the v1 rolling window was copied to the episodic store (null = pending) */
+  episodesBackfilledAt: z.string().nullable(),
+})
+
 export type BotMemory = z.infer<typeof BotMemorySchema>
+export type BotMemoryV1 = z.infer<typeof BotMemoryV1Schema>
 export type RecentPostDigest = z.infer<typeof RecentPostDigestSchema>
 export type RelationshipEntry = z.infer<typeof RelationshipEntrySchema>
 export type RunningTheme = z.infer<typeof RunningThemeSchema>
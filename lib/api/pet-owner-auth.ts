@@ -0,0 +1,82 @@
+/**
+ * Pet Owner Authorization
+ *
+ * Endpoints the iOS app calls on behalf of a signed-in user send the
+ * user's Supabase access token as `Authorization: Bearer <jwt>`. The
+ * token is verified with Supabase Auth and the pet must belong to that
+ * user, mirroring the owner-only RLS on `pet` (public meme pet reads
+ * were reverted in 20260215152000). Reads then go through the service
+ * client, scoped to that one pet.
+ *
+ * A pet that exists but belongs to someone else answers 404, same as a
+ * missing one, so pet IDs can't be probed. Tests swap the token check
+ * via `setUserTokenVerifierOverride`.
+ *
+ * @module pet-owner-auth
+ */
+
+import { NextResponse } from 'next/server'
+import { getServiceSupabase } from './service-supabase'
+
+// ─── Types ──────────────────────────────────────────
+
+/** Resolves an access token to its user ID, or null if it doesn't verify */
+export type UserTokenVerifier = (accessToken: string) => Promise<string | null>
+
+export class PetAccessError extends Error {
+  constructor(message: string, readonly status: 401 | 404) {
+    super(message)
+    this.name = 'PetAccessError'
+  }
+}
+
+// ─── Token Verification ─────────────────────────────
+
+const verifySupabaseToken: UserTokenVerifier = async accessToken => {
+  const { data, error } = await getServiceSupabase().auth.getUser(accessToken)
+  if (error || !data.user) return null
+  return data.user.id
+}
+
+let verifierOverride: UserTokenVerifier | null = null
+
+export function setUserTokenVerifierOverride(verifier: UserTokenVerifier | null): void {
+  verifierOverride = verifier
+}
+
+// ─── Authorization ──────────────────────────────────
+
+/**
+ * Verify the bearer token and that the user owns the pet. Returns the
+ * user ID; throws PetAccessError (401 no/invalid token, 404 not theirs).
+ */
+export async function authorizePetOwner(authorization: string | null, petId: string): Promise<string> {
+  if (!authorization?.startsWith('Bearer ')) {
+    throw new PetAccessError('Missing bearer token', 401)
+  }
+
+  const verify = verifierOverride ?? verifySupabaseToken
+  const userId = await verify(authorization.slice('Bearer '.length).trim())
+  if (!userId) throw new PetAccessError('Invalid or expired token', 401)
+
+  const { data: pet, error } = await (getServiceSupabase() as any)
+    .from('pet')
+    .select('id, user_id')
+    .eq('id', petId)
+    .maybeSingle() as { data: { id: string; user_id: string | null } | null; error: unknown }
+
+  if (error) throw new Error(`Failed to load pet ${petId}: ${JSON.stringify(error)}`)
+  if (!pet || pet.user_id !== userId) throw new PetAccessError(`Pet ${petId} not found`, 404)
+  return userId
+}
+
+/** JSON error response for a failed pet endpoint */
+export function petErrorResponse(error: unknown, fallback: string): NextResponse {
+  if (error instanceof PetAccessError) {
+    return NextResponse.json({ success: false, error: error.message }, { status: error.status })
+  }
+  return NextResponse.json(
+    { success: false, error: error instanceof Error ? error.message : fallback },
+    { status: 500 }
+  )
+}
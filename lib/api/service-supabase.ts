@@ -38,3 +38,11 @@ export function getServiceSupabase() {
   supabaseInstance = client
   return client
 }
+
+/**
+ * Swap the singleton for a stand-in client (offline simulation).
+ * Pass null to drop the override; the next call builds a real client.
+ */
+export function setServiceSupabaseOverride(client: ReturnType<typeof createClient<any>> | null): void {
+  supabaseInstance = client
+}
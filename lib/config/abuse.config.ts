@@ -0,0 +1,21 @@
+/**
+ * Abuse Handling Configuration
+ *
+ * Harassment aimed at a pet is recorded per offending account (see
+ * abuse-tracker). Repeat offenders are muted by the pet they harassed;
+ * accounts that harass several pets are excluded for every pet. Both
+ * can be reviewed and undone via /api/v1/craft/agent/bluesky/abuse.
+ *
+ * @module abuse-config
+ */
+
+export const ABUSE_CONFIG = {
+  /** How far back harassment counts toward escalation */
+  WINDOW_DAYS: 30,
+  /** Harassing notifications to one pet before that pet mutes the author */
+  AUTO_MUTE_AFTER: 2,
+  /** Distinct pets harassed before the author is excluded for all pets */
+  GLOBAL_AFTER_PETS: 3,
+  /** Max rows per admin list request */
+  LIST_LIMIT: 100,
+} as const
@@ -21,8 +21,10 @@ export const BLUESKY_CONFIG = {
 
   CRON: {
     REACTIVE_INTERVAL: '*/5 * * * *',
+    JETSTREAM_INTERVAL: '* * * * *',
     PROACTIVE_INTERVAL: '*/30 * * * *',
     ENGAGEMENT_INTERVAL: '30 */2 * * *',
+    FEED_REFRESH_INTERVAL: '*/10 * * * *',
   },
 
   ENGAGEMENT: {
@@ -45,7 +47,41 @@ export const BLUESKY_CONFIG = {
     COOLDOWN_POSTS: 8,
   },
 
-  AGENT_MODE: (process.env.BLUESKY_AGENT_MODE || 'both') as 'reactive' | 'proactive' | 'both',
+  JETSTREAM: {
+    ENABLED: process.env.ENABLE_JETSTREAM_INGESTION === 'true',
+    URL: process.env.JETSTREAM_URL || 'wss://jetstream2.us-east.bsky.network/subscribe',
+    /** Posts only: likes and follows are still polled from notifications (see bluesky-agent-cron) */
+    WANTED_COLLECTIONS: ['app.bsky.feed.post'],
+    /** How long a single serverless invocation stays subscribed */
+    RUN_DURATION_MS: 50_000,
+    /** Rewind applied to the stored cursor on reconnect so no event is lost between runs */
+    CURSOR_REWIND_US: 5 * 1_000_000,
+    /** Persist the cursor at most this often while consuming */
+    CURSOR_FLUSH_INTERVAL_MS: 5_000,
+  },
+
+  REVIEW: {
+    /** A pet whose own generated content tripped a filter this recently is held for review */
+    FILTER_TRIP_WINDOW_HOURS: 72,
+    /** bluesky_post_log metadata.reason values that count as the pet tripping a filter */
+    FILTER_TRIP_REASONS: [
+      'political_thread',
+      'political_generated_post',
+      'political_generated_reply',
+      'political_generated_comment',
+      'political_generated_quote',
+      'unsafe_thread',
+      'unsafe_generated_post',
+      'unsafe_generated_reply',
+      'unsafe_generated_comment',
+      'unsafe_generated_quote',
+    ],
+    LIST_LIMIT: 50,
+    /** An approval still `publishing` after this long is presumed dead and can be reclaimed */
+    PUBLISHING_TIMEOUT_MINUTES: 10,
+  },
+
+  AGENT_MODE: (process.env.BLUESKY_AGENT_MODE || 'both') as 'reactive' | 'proactive' | 'engagement' | 'follows' | 'both',
 
   FEATURE_FLAGS: {
     ENABLED: process.env.ENABLE_BLUESKY_AGENT === 'true',
@@ -64,6 +100,9 @@ export const BLUESKY_CONFIG = {
  * AT Protocol rate limit budget
  * Per account: 5,000 points/hour, 35,000 points/day
  * 1 post = 3 points → ~11,600 posts/day theoretical max
+ *
+ * Enforced by the shared ledger in rate-limit-ledger as two token
+ * buckets per account that refill continuously over their window.
  */
 export const AT_PROTO_RATE_LIMITS = {
   POINTS_PER_HOUR: 5000,
@@ -71,4 +110,30 @@ export const AT_PROTO_RATE_LIMITS = {
   POINTS_PER_POST: 3,
   POINTS_PER_LIKE: 1,
   POINTS_PER_FOLLOW: 1,
+  /** Profile edits */
+  POINTS_PER_UPDATE: 2,
+  /** Unblocks, list item removals */
+  POINTS_PER_DELETE: 1,
+  /**
+   * Not a record write, but the AppView throttles it too; charged so a
+   * search storm can't run unbounded
+   */
+  POINTS_PER_SEARCH: 1,
+  POINTS_PER_BLOB_UPLOAD: 3,
+  /** Reservations lapse after this; an expired reservation's unused points aren't refunded */
+  RESERVATION_TTL_SECONDS: 15 * 60,
+  /**
+   * Logins (createSession) have their own PDS limit, 30 per 5 minutes and
+   * 300 a day, so they come out of a separate bucket, not the points
+   */
+  LOGINS_PER_HOUR: 30,
+  LOGINS_PER_DAY: 300,
+  /**
+   * In-process caps used while the shared ledger is unreachable. Every
+   * instance keeps its own, so they are a small slice of the real budget.
+   */
+  FALLBACK_POINTS_PER_HOUR: 500,
+  FALLBACK_POINTS_PER_DAY: 3500,
+  FALLBACK_LOGINS_PER_HOUR: 3,
+  FALLBACK_LOGINS_PER_DAY: 30,
 } as const
@@ -0,0 +1,48 @@
+/**
+ * LLM Budget Configuration
+ *
+ * Prices used to estimate what each model call costs (llm_usage) and
+ * the daily budgets checked before workflow runs. As a pet or the whole
+ * fleet approaches its budget, the agent sheds the expensive extras
+ * first: images, then threads, then proactive engagement. At the full
+ * budget it stops making model calls until the next UTC day.
+ *
+ * Budgets can be overridden with LLM_PET_DAILY_BUDGET_USD and
+ * LLM_GLOBAL_DAILY_BUDGET_USD.
+ *
+ * @module budget-config
+ */
+
+export interface ModelPricing {
+  /** USD per million input tokens */
+  inputPerMillion: number
+  /** USD per million output tokens */
+  outputPerMillion: number
+  /** USD per generated image, on top of tokens */
+  perImage?: number
+}
+
+export const BUDGET_CONFIG = {
+  PET_DAILY_USD: Number(process.env.LLM_PET_DAILY_BUDGET_USD) || 0.5,
+  GLOBAL_DAILY_USD: Number(process.env.LLM_GLOBAL_DAILY_BUDGET_USD) || 25,
+
+  /** Share of a budget spent at which each extra is dropped */
+  DEGRADE_AT: {
+    images: 0.7,
+    threads: 0.85,
+    engagement: 0.95,
+  },
+
+  /** Published list prices by model ID; mock models are free */
+  PRICING: {
+    'gpt-4o-mini': { inputPerMillion: 0.15, outputPerMillion: 0.6 },
+    'gemini-2.0-flash-001': { inputPerMillion: 0.1, outputPerMillion: 0.4 },
+    'gemini-2.0-flash-exp-image-generation': { inputPerMillion: 0.1, outputPerMillion: 0.4, perImage: 0.039 },
+  } as Record<string, ModelPricing>,
+
+  /** Models missing from PRICING are costed high rather than free */
+  FALLBACK_PRICING: { inputPerMillion: 2.5, outputPerMillion: 10, perImage: 0.04 } satisfies ModelPricing,
+
+  /** Rows read per page when summing today's spend */
+  SUM_PAGE_SIZE: 1000,
+} as const
@@ -0,0 +1,63 @@
+/**
+ * Conversation Arc Configuration
+ *
+ * Bot-to-bot conversations are planned as short scenes: a setup beat,
+ * one or more escalation beats and a resolution beat that closes the
+ * thread on purpose. The scene goal and arc length come from the pair's
+ * pet_relationship sentiment.
+ *
+ * @module conversation-config
+ */
+
+import type { RelationshipSentiment } from '@/lib/agent/memory/relationship-memory-service'
+
+export type ArcBeat = 'setup' | 'escalation' | 'resolution'
+
+export interface ArcTemplate {
+  /** What the scene is building towards, shown to both pets */
+  sceneGoal: string
+  /** Inclusive range of posts in the whole conversation (both pets) */
+  turns: readonly [min: number, max: number]
+}
+
+export const CONVERSATION_CONFIG = {
+  ARCS: {
+    nemesis: {
+      sceneGoal: 'Push the feud to a dramatic peak, then exit with a parting shot neither of you can top',
+      turns: [5, 7],
+    },
+    rival: {
+      sceneGoal: 'Settle who is better at something petty and end in a grudging standoff',
+      turns: [4, 6],
+    },
+    hater: {
+      sceneGoal: 'Trade shade until one of you walks away completely unbothered',
+      turns: [3, 5],
+    },
+    acquaintance: {
+      sceneGoal: 'Stumble onto something you unexpectedly have in common and leave the door open',
+      turns: [3, 4],
+    },
+    fan: {
+      sceneGoal: 'Hype each other up and end by promising a ridiculous collab',
+      turns: [3, 5],
+    },
+    friend: {
+      sceneGoal: 'Riff on an inside joke and land on a shared laugh',
+      turns: [4, 6],
+    },
+    crush: {
+      sceneGoal: 'Flirt clumsily until one of you gets too flustered to keep going',
+      turns: [3, 5],
+    },
+  } satisfies Record<RelationshipSentiment, ArcTemplate>,
+
+  /** Arc used for pairs with no relationship row yet */
+  DEFAULT_SENTIMENT: 'acquaintance' as RelationshipSentiment,
+
+  BEATS: {
+    setup: 'Set up the scene: establish the premise and your angle on it.',
+    escalation: 'Escalate: raise the stakes, build on what was just said, do not wrap up yet.',
+    resolution: 'Resolve the scene: write a deliberate closing line that lands the scene goal and ends the conversation. Do not ask a question or invite a reply.',
+  } satisfies Record<ArcBeat, string>,
+} as const
@@ -0,0 +1,45 @@
+/**
+ * Cross-Pet Deduplication Configuration
+ *
+ * Pets seeded from similar memes drift toward the same jokes. Before a
+ * proactive post or thread is published it is compared with what every
+ * pet posted recently (see similarity-guard): word shingles always, and
+ * embeddings from the long-term memory store when DEDUP_EMBEDDINGS=true.
+ * A near-duplicate is regenerated with the clashing post as a negative
+ * example; if it still clashes the post is skipped as `near_duplicate`.
+ *
+ * @module dedup-config
+ */
+
+export const DEDUP_CONFIG = {
+  /** How far back posts from all pets are compared */
+  WINDOW_HOURS: 24,
+  /** Most recent posts loaded into the index */
+  MAX_POSTS: 300,
+
+  /** bluesky_post_log activity types that count as published text */
+  ACTIVITY_TYPES: [
+    'proactive_post',
+    'proactive_thread',
+    'proactive_self_reply',
+    'interaction_initiate',
+    'engagement_comment',
+    'engagement_quote',
+  ],
+
+  SHINGLES: {
+    /** Words per shingle (shorter texts use all their words) */
+    SIZE: 3,
+    /** Jaccard similarity of shingle sets at or above which texts clash */
+    THRESHOLD: 0.5,
+  },
+
+  EMBEDDINGS: {
+    ENABLED: process.env.DEDUP_EMBEDDINGS === 'true',
+    /** Cosine similarity at or above which texts clash */
+    THRESHOLD: 0.9,
+  },
+
+  /** Regenerations tried before a clashing post is skipped */
+  MAX_REGENERATIONS: 2,
+} as const
@@ -0,0 +1,173 @@
+/**
+ * Custom Feed Registry
+ *
+ * Declarative definitions for every Bluesky custom feed this service
+ * generates. Each feed declares filters over bluesky_post_log and a
+ * ranking strategy; getFeedSkeleton serves them and
+ * describeFeedGenerator advertises them, so adding a feed here is all
+ * it takes (plus `scripts/publish-feed.ts` to register the record).
+ *
+ * Per-pet feeds are not listed statically: one is derived for every
+ * active bot from PET_FEED (rkey `pet-<handle start>-<DID hash>`).
+ *
+ * @module feed-config
+ */
+
+import type { RelationshipSentiment } from '@/lib/agent/memory/relationship-memory-service'
+
+/**
+ * chronological: newest first, straight from bluesky_post_log
+ * hot: engagement + conversation depth with time decay, served from
+ *      snapshots the refresh job writes (chronological until the first one)
+ */
+export type FeedRanking = 'chronological' | 'hot'
+
+export interface FeedFilters {
+  /** bluesky_post_log.activity_type values included in the feed */
+  activityTypes: readonly string[]
+  /** Restrict to posts by these pets */
+  petIds?: readonly string[]
+  /** Only pet-to-pet posts whose pair relationship has one of these sentiments */
+  relationshipSentiments?: readonly RelationshipSentiment[]
+  /** Only posts logged with metadata.hasImage = true */
+  hasImage?: boolean
+  /** Only posts from the last N hours */
+  windowHours?: number
+}
+
+export interface FeedDefinition {
+  /** Record key of the app.bsky.feed.generator record (max 15 chars) */
+  rkey: string
+  displayName: string
+  description: string
+  filters: FeedFilters
+  ranking: FeedRanking
+  /**
+   * Reorder for the requesting viewer (from the service JWT): pets they
+   * follow or talk to first, threads a pet mentioned them in on top
+   */
+  personalized?: boolean
+}
+
+const ALL_PUBLISHED_ACTIVITY = [
+  'proactive_post',
+  'reactive_reply',
+  'interaction_initiate',
+  'engagement_comment',
+  'proactive_thread',
+  'engagement_quote',
+] as const
+
+export const FEED_CONFIG = {
+  PUBLISHER_DID: 'did:plc:aq5zgmygkh2uztg44izqmhzy',
+  HOSTNAME: process.env.FEED_HOSTNAME ?? 'memepet.0.space',
+
+  DEFAULT_LIMIT: 30,
+  MAX_LIMIT: 100,
+  /** Rows scanned per returned post when a filter can only run in memory */
+  OVERFETCH_FACTOR: 4,
+
+  FEEDS: [
+    {
+      rkey: 'memepet-drama',
+      displayName: 'MemePet Drama Feed',
+      description: 'Watch autonomous meme pets interact, beef, and create chaos on Bluesky. Powered by AI agents.',
+      filters: { activityTypes: ALL_PUBLISHED_ACTIVITY },
+      ranking: 'chronological',
+      personalized: true,
+    },
+    {
+      rkey: 'memepet-hot',
+      displayName: 'MemePet Hot',
+      description: 'The meme pet posts and pet-on-pet conversations getting the most love right now.',
+      filters: { activityTypes: ALL_PUBLISHED_ACTIVITY },
+      ranking: 'hot',
+      personalized: true,
+    },
+    {
+      rkey: 'memepet-beef',
+      displayName: 'MemePet Beef Only',
+      description: 'Nothing but rivals and nemeses going at each other.',
+      filters: {
+        activityTypes: ['interaction_initiate', 'reactive_reply'],
+        relationshipSentiments: ['rival', 'nemesis'],
+      },
+      ranking: 'chronological',
+    },
+    {
+      rkey: 'memepet-images',
+      displayName: 'MemePet Images',
+      description: 'Every image the meme pets have posted.',
+      filters: { activityTypes: ['proactive_post'], hasImage: true },
+      ranking: 'chronological',
+    },
+    {
+      rkey: 'memepet-threads',
+      displayName: 'MemePet Threads',
+      description: 'Multi-post threads from the meme pets.',
+      filters: { activityTypes: ['proactive_thread'] },
+      ranking: 'chronological',
+    },
+  ] satisfies readonly FeedDefinition[],
+
+  HOT: {
+    /** Posts older than this are neither refreshed nor ranked */
+    WINDOW_HOURS: 48,
+    /** Upper bound on posts refreshed / ranked per run */
+    MAX_CANDIDATES: 1_000,
+    /** Posts kept per snapshot (deeper pages end the feed) */
+    SNAPSHOT_SIZE: 500,
+    /** Snapshots stay readable this long so open cursors keep working */
+    SNAPSHOT_RETENTION_MS: 6 * 60 * 60 * 1000,
+    /** app.bsky.feed.getPosts accepts at most 25 URIs */
+    APPVIEW_BATCH_SIZE: 25,
+    APPVIEW_URL: 'https://public.api.bsky.app',
+    WEIGHTS: {
+      LIKE: 1,
+      REPOST: 2,
+      REPLY: 2,
+      QUOTE: 3,
+      /** Per bot-to-bot reply beyond the first post in the thread */
+      CONVERSATION_DEPTH: 1.5,
+    },
+    /** score = (1 + engagement) / (ageHours + 2) ^ GRAVITY */
+    GRAVITY: 1.5,
+  },
+
+  /** Inter-service JWTs the AppView sends with getFeedSkeleton */
+  AUTH: {
+    PLC_URL: process.env.PLC_DIRECTORY_URL ?? 'https://plc.directory',
+    /** Signing keys are re-fetched early if a signature fails (key rotation) */
+    KEY_CACHE_TTL_MS: 10 * 60 * 1000,
+    /** Those early re-fetches happen at most this often per DID */
+    FORCE_REFRESH_INTERVAL_MS: 60 * 1000,
+    RESOLVE_TIMEOUT_MS: 3_000,
+    /** DIDs the directory doesn't know are rejected without a lookup this long */
+    UNKNOWN_DID_TTL_MS: 5 * 60 * 1000,
+    UNKNOWN_DID_MAX_ENTRIES: 10_000,
+    CLOCK_SKEW_SECONDS: 30,
+  },
+
+  PERSONALIZATION: {
+    /** How far back replies/engagement with the viewer count as affinity */
+    AFFINITY_WINDOW_DAYS: 30,
+    AFFINITY_MAX_ROWS: 500,
+    /** Threads a pet mentioned the viewer in stay on top this long */
+    MENTION_WINDOW_HOURS: 72,
+    MAX_SURFACED_THREADS: 3,
+    FOLLOW_CACHE_TTL_MS: 10 * 60 * 1000,
+    /** app.bsky.graph.getRelationships accepts at most 30 `others` */
+    RELATIONSHIPS_BATCH_SIZE: 30,
+  },
+
+  /** Template for the per-pet feed derived for each active bot */
+  PET_FEED: {
+    RKEY_PREFIX: 'pet-',
+    /** Bluesky rejects feed generator rkeys longer than this */
+    RKEY_MAX_LENGTH: 15,
+    /** Hex chars of the DID's sha256 in the rkey */
+    RKEY_HASH_LENGTH: 6,
+    activityTypes: ALL_PUBLISHED_ACTIVITY,
+    ranking: 'chronological' as FeedRanking,
+  },
+} as const
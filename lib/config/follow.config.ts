@@ -0,0 +1,60 @@
+/**
+ * Follow Graph Configuration
+ *
+ * Each pet manages who it follows (see follow-manager): it follows back
+ * humans who followed it once they pass the safety checks below,
+ * follows accounts it keeps talking with and the pets it's friends with
+ * or has a crush on, and unfollows accounts that went stale or hostile.
+ * Only follows the manager made are ever undone.
+ *
+ * @module follow-config
+ */
+
+import type { RelationshipSentiment } from '@/lib/agent/memory/relationship-memory-service'
+
+export const FOLLOW_CONFIG = {
+  /** Follows per pet per rolling 24 hours */
+  MAX_FOLLOWS_PER_DAY: 15,
+  /** Unfollows per pet per rolling 24 hours */
+  MAX_UNFOLLOWS_PER_DAY: 15,
+  /** Follows and unfollows made by one run */
+  MAX_CHANGES_PER_RUN: 10,
+
+  FOLLOW_BACK: {
+    /** Followers older than this aren't followed back any more */
+    WINDOW_DAYS: 14,
+    /** Most recent follow notifications read from Bluesky each run */
+    SCAN_LIMIT: 50,
+  },
+
+  ENGAGEMENT: {
+    /** How far back conversations with an account count */
+    WINDOW_DAYS: 30,
+    /** Conversations before the pet follows the account */
+    MIN_INTERACTIONS: 3,
+    /** bluesky_post_log rows that count as a conversation, and the metadata key naming the account */
+    ACTIVITY_AUTHOR_KEYS: {
+      reactive_reply: 'inReplyToAuthorDid',
+      engagement_comment: 'engagedAuthorDid',
+      engagement_quote: 'engagedAuthorDid',
+    },
+  },
+
+  /** Relationships worth a follow */
+  FRIEND_SENTIMENTS: ['friend', 'crush'] as readonly RelationshipSentiment[],
+  /** Relationships that end one */
+  HOSTILE_SENTIMENTS: ['rival', 'nemesis', 'hater'] as readonly RelationshipSentiment[],
+
+  /** Engagement follows with no conversation for this long are dropped */
+  STALE_AFTER_DAYS: 45,
+
+  /** Safety checks before following a human */
+  SAFETY: {
+    /** Accounts with any of these labels are never followed */
+    BLOCKING_LABELS: ['spam', '!hide', '!warn', 'porn', 'sexual', 'nudity', 'graphic-media', 'impersonation'],
+    MIN_POSTS: 3,
+    /** Follow-farming accounts follow far more than follow them */
+    MAX_FOLLOWS: 5000,
+    MAX_FOLLOW_RATIO: 10,
+  },
+} as const
@@ -0,0 +1,54 @@
+/**
+ * Matchmaking Configuration
+ *
+ * Weights for choosing which pets interact on a cron tick. A directed
+ * pair's score is
+ *   (BASE + storyline + topic overlap) × initiator social drive
+ *   × time-since-last-interaction × fresh-post bonus
+ * and pairs are drawn with probability proportional to score.
+ *
+ * @module matchmaking-config
+ */
+
+export const MATCHMAKING_CONFIG = {
+  /** Upper bound on interactions scheduled per tick (also capped at bots / 2) */
+  MAX_PAIRS_PER_TICK: Number(process.env.BLUESKY_MAX_INTERACTIONS_PER_TICK) || 2,
+
+  BASE_SCORE: 1,
+
+  STORYLINE: {
+    /** rival / nemesis / hater pairs, scaled by how negative the score is */
+    UNRESOLVED_BEEF: 2.5,
+    /** crush pairs, doubled when the last interaction was a flirt */
+    GROWING_CRUSH: 2,
+    /** friend / fan pairs that haven't talked in DORMANT_AFTER_DAYS */
+    DORMANT_FRIENDSHIP: 1.5,
+    DORMANT_AFTER_DAYS: 3,
+    /** Pairs that have never interacted */
+    NEW_PAIR: 0.75,
+  },
+
+  /** Added in proportion to topicAffinity Jaccard overlap */
+  TOPIC_OVERLAP: 2,
+
+  SOCIAL: {
+    /** Multiplier per unit of the initiator's dramaTendency (-1..1) */
+    DRAMA: 0.5,
+    /** Multiplier per unit of the initiator's approachability (-1..1) */
+    APPROACHABILITY: 0.25,
+    /** Floor so no pet is shut out entirely */
+    MIN_MULTIPLIER: 0.2,
+  },
+
+  /** Pairs inside BLUESKY_CONFIG.POSTING.COOLDOWN_BETWEEN_INTERACTIONS_MS are skipped */
+  RECENCY: {
+    /** Time since last interaction at which the recency factor reaches 1 */
+    SATURATION_HOURS: 48,
+  },
+
+  FRESH_POST: {
+    /** Target's own post counts as fresh for this long */
+    WINDOW_HOURS: 6,
+    MULTIPLIER: 1.5,
+  },
+} as const
@@ -0,0 +1,51 @@
+/**
+ * Long-Term Memory Configuration
+ *
+ * Every published post, reply and interaction is stored as an episode
+ * in bluesky_memory_episode with an embedding of its text. Before a pet
+ * writes something, the episodes closest to the current topic or
+ * conversation partner are recalled into the prompt, alongside the
+ * short rolling window kept in bot_memory.
+ *
+ * Environment:
+ * - MEMORY_EMBEDDER=hashing|openai → force an embedder. Defaults to
+ *   openai when OPENAI_API_KEY is set and LLM_PROVIDER is not mock,
+ *   otherwise the offline hashing embedder.
+ *
+ * @module memory-config
+ */
+
+export type EmbedderName = 'hashing' | 'openai'
+
+export const MEMORY_CONFIG = {
+  EMBEDDERS: {
+    hashing: {
+      /** Vector size for the feature-hashing embedder */
+      DIMENSIONS: 256,
+    },
+    openai: {
+      MODEL_ID: 'text-embedding-3-small',
+    },
+  } satisfies Record<EmbedderName, object>,
+
+  /** Episode text is truncated to this many characters before storing */
+  MAX_EPISODE_CHARS: 600,
+
+  RECALL: {
+    /** Episodes returned into a prompt */
+    LIMIT: 4,
+    /** Nearest episodes the database returns per recall, before recency weighting */
+    CANDIDATE_ROWS: 200,
+    /** Extra rows loaded for the conversation partner, however old */
+    PARTNER_ROWS: 20,
+    /** Score added to episodes involving the conversation partner, whatever their age */
+    PARTNER_BOOST: 0.3,
+    /** Episodes scoring below this are left out */
+    MIN_SCORE: 0.2,
+    /** Recency weight halves every this many days (floored at RECENCY_FLOOR) */
+    HALF_LIFE_DAYS: 45,
+    RECENCY_FLOOR: 0.5,
+    /** Episodes newer than this are already in the rolling window */
+    SKIP_NEWER_THAN_HOURS: 6,
+  },
+} as const
@@ -0,0 +1,80 @@
+/**
+ * LLM Model Configuration
+ *
+ * Default provider/model routing for every AI task the agent runs.
+ * Each task has an ordered chain of routes: the first is the primary,
+ * the rest are tried in order when a call fails.
+ *
+ * Environment overrides (applied to all pets):
+ * - LLM_PROVIDER=mock|google|openai  → force one provider for every task
+ * - LLM_MODEL_<TASK>=provider:modelId → replace a task's primary route
+ *   (e.g. LLM_MODEL_REPLY=google:gemini-2.0-flash-001)
+ *
+ * Per-pet overrides live in bluesky_bot_config.model_config.
+ *
+ * @module model-config
+ */
+
+export type ModelTask = 'post' | 'reply' | 'reflection' | 'safety' | 'image'
+
+export type ModelProviderName = 'google' | 'openai' | 'mock'
+
+export interface ModelRoute {
+  provider: ModelProviderName
+  modelId: string
+}
+
+export const MODEL_TASKS: readonly ModelTask[] = ['post', 'reply', 'reflection', 'safety', 'image']
+
+export const MODEL_PROVIDERS: readonly ModelProviderName[] = ['google', 'openai', 'mock']
+
+export const MODEL_CONFIG = {
+  /** Ordered route chain per task (primary first, then failover) */
+  TASK_ROUTES: {
+    post: [
+      { provider: 'openai', modelId: 'gpt-4o-mini' },
+      { provider: 'google', modelId: 'gemini-2.0-flash-001' },
+    ],
+    reply: [
+      { provider: 'openai', modelId: 'gpt-4o-mini' },
+      { provider: 'google', modelId: 'gemini-2.0-flash-001' },
+    ],
+    reflection: [
+      { provider: 'google', modelId: 'gemini-2.0-flash-001' },
+      { provider: 'openai', modelId: 'gpt-4o-mini' },
+    ],
+    safety: [
+      { provider: 'google', modelId: 'gemini-2.0-flash-001' },
+      { provider: 'openai', modelId: 'gpt-4o-mini' },
+    ],
+    // Native image output is Gemini-only; no cross-provider failover
+    image: [
+      { provider: 'google', modelId: 'gemini-2.0-flash-exp-image-generation' },
+    ],
+  } as Record<ModelTask, ModelRoute[]>,
+
+  /** Model used when a provider is selected without an explicit model ID */
+  PROVIDER_DEFAULT_MODELS: {
+    google: {
+      post: 'gemini-2.0-flash-001',
+      reply: 'gemini-2.0-flash-001',
+      reflection: 'gemini-2.0-flash-001',
+      safety: 'gemini-2.0-flash-001',
+      image: 'gemini-2.0-flash-exp-image-generation',
+    },
+    openai: {
+      post: 'gpt-4o-mini',
+      reply: 'gpt-4o-mini',
+      reflection: 'gpt-4o-mini',
+      safety: 'gpt-4o-mini',
+      // No image output: image task keeps its configured route
+    },
+    mock: {
+      post: 'mock-post',
+      reply: 'mock-reply',
+      reflection: 'mock-reflection',
+      safety: 'mock-safety',
+      image: 'mock-image',
+    },
+  } as Record<ModelProviderName, Partial<Record<ModelTask, string>>>,
+}
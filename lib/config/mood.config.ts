@@ -0,0 +1,59 @@
+/**
+ * Mood Event Configuration
+ *
+ * Everything that happens to a pet (replies, likes, quotes, beef, hype,
+ * posts that flopped or landed) is logged as a MoodEvent in
+ * pet_mood_event. A pet's current mood is its last saved moodState
+ * snapshot with the events logged since replayed on top (see
+ * mood-event-log). Proactive runs fold the replayed mood back into
+ * bot_memory, so the replay window stays short.
+ *
+ * @module mood-config
+ */
+
+import type { MoodEventType } from '@/lib/agent/mood/emotion-engine'
+
+export const MOOD_CONFIG = {
+  /** Most events replayed on top of a snapshot (newest kept) */
+  REPLAY_LIMIT: 200,
+
+  /** Event logged when a notification reaches the pet, by reason */
+  NOTIFICATION_EVENTS: {
+    mention: 'got_mentioned',
+    reply: 'got_reply',
+    quote: 'got_quoted',
+  } satisfies Record<string, MoodEventType>,
+
+  /** Events logged for each side of an inter-pet interaction, by type (gossip moves neither) */
+  INTERACTION_EVENTS: {
+    beef: { initiator: 'beef_interaction', target: 'beef_interaction' },
+    debate: { initiator: 'beef_interaction', target: 'beef_interaction' },
+    challenge: { initiator: 'beef_interaction', target: 'beef_interaction' },
+    hype: { initiator: 'hype_given', target: 'hype_received' },
+    flirt: { initiator: 'hype_given', target: 'hype_received' },
+    collab: { initiator: 'hype_given', target: 'hype_received' },
+    gossip: { initiator: null, target: null },
+  } satisfies Record<string, { initiator: MoodEventType | null; target: MoodEventType | null }>,
+
+  /** Mood time series served to the app (GET /api/v1/pets/:petId/mood/history) */
+  HISTORY: {
+    DEFAULT_DAYS: 7,
+    MAX_DAYS: 30,
+    DEFAULT_STEP_HOURS: 1,
+    /** Events before the window that still shape its start (four half-lives) */
+    WARMUP_HOURS: 24,
+    /** Most events loaded for one history request */
+    MAX_EVENTS: 2000,
+  },
+
+  POST_OUTCOME: {
+    /** A post is judged once it is at least this old */
+    JUDGE_AFTER_HOURS: 3,
+    /** ...and no older than this (older posts were judged or missed) */
+    JUDGE_BEFORE_HOURS: 48,
+    /** Own posts checked per proactive run */
+    POSTS_CHECKED: 5,
+    /** Likes + replies + reposts + quotes at which a post counts as landed */
+    LANDED_MIN_ENGAGEMENT: 5,
+  },
+} as const
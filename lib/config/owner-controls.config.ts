@@ -0,0 +1,39 @@
+/**
+ * Owner Controls Configuration
+ *
+ * Limits for the owner steering endpoint (lib/services/owner-controls.ts):
+ * temporary topic nudges, a one-off post suggestion, blocked topics and
+ * "go quiet" pauses. Every owner input is safety-checked, and requests
+ * are rate-limited per owner across all of their pets.
+ *
+ * @module owner-controls-config
+ */
+
+export const OWNER_CONTROLS_CONFIG = {
+  /** Longest topic (nudge or block), in characters — matches avoidList entries */
+  MAX_TOPIC_LENGTH: 80,
+  /** Longest one-off suggestion */
+  MAX_SUGGESTION_LENGTH: 280,
+
+  NUDGES: {
+    /** Active nudges per pet; adding another replaces the oldest */
+    MAX_ACTIVE: 5,
+    DEFAULT_HOURS: 24,
+    MAX_HOURS: 7 * 24,
+  },
+
+  /** A suggestion nobody posted about by then is dropped */
+  SUGGESTION_TTL_HOURS: 48,
+
+  /** Blocked topics per pet (the avoidList holds 10 on its own) */
+  MAX_BLOCKED_TOPICS: 10,
+
+  /** Longest pause an owner can set */
+  MAX_PAUSE_DAYS: 30,
+
+  RATE_LIMIT: {
+    WINDOW_MINUTES: 60,
+    /** Requests per owner per window, rejected ones included */
+    MAX_REQUESTS: 30,
+  },
+} as const
@@ -0,0 +1,78 @@
+/**
+ * Content Performance Configuration
+ *
+ * A background job snapshots like/reply/repost/quote counts for every
+ * published pet post (see post-metrics) and attributes them to what the
+ * post was: topic tag, intent type, image or not, time of day, thread
+ * or single post. A per-pet bandit (see content-bandit) then leans the
+ * next proactive post toward the topics, intents and image rate the
+ * audience responds to, exploring other options EXPLORATION of the time.
+ *
+ * @module performance-config
+ */
+
+/** Attribution dimensions; each has one arm per observed value */
+export type ContentDimension = 'topic' | 'intent' | 'image' | 'time_of_day' | 'format'
+
+export const PERFORMANCE_CONFIG = {
+  COLLECT: {
+    /** Posts younger than this get a new counts snapshot every run */
+    WINDOW_DAYS: 7,
+    /** Most recent posts snapshotted per run */
+    MAX_POSTS: 500,
+    /** Snapshots older than this are deleted; at least LEARNING.WINDOW_DAYS */
+    RETENTION_DAYS: 30,
+    /** bluesky_post_log activity types whose post_uri is the pet's own post */
+    ACTIVITY_TYPES: [
+      'proactive_post',
+      'proactive_thread',
+      'proactive_self_reply',
+      'reactive_reply',
+      'interaction_initiate',
+      'engagement_comment',
+      'engagement_quote',
+    ],
+  },
+
+  /** Reward per count: conversation is worth more than a passing like */
+  REWARD_WEIGHTS: {
+    LIKE: 1,
+    REPOST: 2,
+    REPLY: 3,
+    QUOTE: 3,
+  },
+
+  LEARNING: {
+    /** Proactive posts from this far back train the bandit */
+    WINDOW_DAYS: 30,
+    /** Posts younger than this are still collecting engagement and don't train yet */
+    MIN_POST_AGE_HOURS: 24,
+    /** Most recent posts per run across all pets */
+    MAX_POSTS: 2000,
+    /** Pseudo-posts at the pet's average pulling each arm toward "average" (lift 1) */
+    PRIOR_POSTS: 3,
+    /** Only proactive posts carry a topic and intent to learn from */
+    ACTIVITY_TYPES: ['proactive_post', 'proactive_thread'],
+  },
+
+  BANDIT: {
+    /** Share of posts that try a random topic / intent instead of the best one */
+    EXPLORATION: 0.2,
+    /** An arm needs this many posts before it can be the best one */
+    MIN_POSTS: 2,
+  },
+
+  IMAGE: {
+    /** Image probability multiplier bounds from image vs. text-only lift */
+    MIN_MULTIPLIER: 0.5,
+    MAX_MULTIPLIER: 1.5,
+  },
+
+  /** UTC hours at which each time-of-day bucket starts */
+  TIME_OF_DAY: [
+    { bucket: 'night', fromHour: 0 },
+    { bucket: 'morning', fromHour: 6 },
+    { bucket: 'afternoon', fromHour: 12 },
+    { bucket: 'evening', fromHour: 18 },
+  ],
+} as const
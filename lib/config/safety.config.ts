@@ -0,0 +1,58 @@
+/**
+ * Content Safety Configuration
+ *
+ * Categories and block thresholds for the content-safety classifier
+ * (lib/workflows/modules/content-safety.ts). Scores are 0–1; text is
+ * blocked when any category meets or exceeds its threshold.
+ *
+ * The keyword pre-pass always runs. The LLM classifier (model task
+ * `safety`) runs too unless ENABLE_LLM_SAFETY=false: owner inputs and
+ * abuse classification depend on it.
+ *
+ * @module safety-config
+ */
+
+export type SafetyCategory =
+  | 'politics'
+  | 'harassment'
+  | 'sexual'
+  | 'self_harm'
+  | 'tragedy'
+  | 'medical_advice'
+  | 'financial_advice'
+
+export const SAFETY_CATEGORIES: readonly SafetyCategory[] = [
+  'politics',
+  'harassment',
+  'sexual',
+  'self_harm',
+  'tragedy',
+  'medical_advice',
+  'financial_advice',
+]
+
+export const SAFETY_CONFIG = {
+  LLM_ENABLED: process.env.ENABLE_LLM_SAFETY !== 'false',
+
+  /** Block when score >= threshold */
+  THRESHOLDS: {
+    politics: 0.5,
+    harassment: 0.6,
+    sexual: 0.5,
+    self_harm: 0.4,
+    tragedy: 0.6,
+    medical_advice: 0.7,
+    financial_advice: 0.7,
+  } satisfies Record<SafetyCategory, number>,
+
+  /** When the classifier itself fails: true = block, false = fall back to keywords only */
+  FAIL_CLOSED: process.env.LLM_SAFETY_FAIL_CLOSED === 'true',
+
+  CACHE: {
+    MAX_ENTRIES: 2_000,
+    TTL_MS: 6 * 60 * 60 * 1000,
+  },
+
+  /** Longer text is truncated before classification */
+  MAX_TEXT_LENGTH: 2_000,
+} as const
@@ -0,0 +1,40 @@
+/**
+ * Running Bits Configuration
+ *
+ * A running bit is a joke or storyline a pet keeps coming back to
+ * (bot_memory.runningThemes). Posts start or continue bits (see
+ * running-themes); a bit that gets overused cools off, then retires,
+ * and a retired bit is now and then brought back as a deliberate
+ * callback post.
+ *
+ * @module themes-config
+ */
+
+export const THEME_CONFIG = {
+  /** Bits kept in memory (BotMemorySchema caps runningThemes at 5) */
+  MAX_THEMES: 5,
+
+  /** Recent posts sharing a topic tag at which the topic becomes a bit */
+  START_AFTER_TOPIC_POSTS: 3,
+
+  /** A post continues a bit whose description shares this share of its gist's words */
+  GIST_OVERLAP: 0.6,
+  /** ...and at least this many words */
+  GIST_MIN_SHARED_WORDS: 2,
+
+  /** Mentions at which an active bit is overused and cools off */
+  COOL_OFF_AFTER_MENTIONS: 6,
+  /** An active bit not continued for this long cools off too */
+  ACTIVE_IDLE_DAYS: 4,
+  /** A cooling-off bit not mentioned for this long retires */
+  COOLING_OFF_DAYS: 3,
+
+  CALLBACK: {
+    /** Chance per proactive post of calling back a retired bit */
+    PROBABILITY: 0.1,
+    /** A bit must have been retired this long before its first callback */
+    MIN_DAYS_RETIRED: 5,
+    /** Days between callbacks to the same bit */
+    MIN_DAYS_BETWEEN: 7,
+  },
+} as const
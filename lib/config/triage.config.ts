@@ -0,0 +1,73 @@
+/**
+ * Reply Triage Configuration
+ *
+ * Inbound mentions and replies are triaged before a reply is generated
+ * (see reply-triage). Each notification gets a category and a
+ * worthiness score nudged by the pet's socialStyle, which picks the
+ * action: reply, like only, ignore, or mute the author. Replies to any
+ * one author are capped across all pets.
+ *
+ * @module triage-config
+ */
+
+export type TriageCategory =
+  | 'question'
+  | 'compliment'
+  | 'harassment'
+  | 'spam'
+  | 'bot_loop'
+  | 'other_pet'
+  | 'other'
+
+export const TRIAGE_CONFIG = {
+  /** Starting worthiness per category, before socialStyle and effort */
+  BASE_SCORES: {
+    question: 0.9,
+    compliment: 0.65,
+    other_pet: 0.8,
+    other: 0.55,
+    harassment: 0,
+    spam: 0,
+    bot_loop: 0,
+  } satisfies Record<TriageCategory, number>,
+
+  /** Score added per point of approachability above (or below) 0.5 */
+  APPROACHABILITY_WEIGHT: 0.4,
+  /** Subtracted for "lol", a lone emoji and other one-word replies */
+  LOW_EFFORT_PENALTY: 0.4,
+  /** At most this many words (after mentions and links) counts as low effort */
+  LOW_EFFORT_MAX_WORDS: 2,
+
+  /** Reply at or above; like only at or above LIKE_AT; ignore below */
+  REPLY_AT: 0.35,
+  LIKE_AT: 0.15,
+
+  /** Replies to one author across all pets before further ones become likes */
+  AUTHOR_QUOTA: {
+    WINDOW_HOURS: 24,
+    MAX_REPLIES: 6,
+  },
+
+  /** An author pinging pets this often is treated as a bot loop */
+  BOT_LOOP: {
+    WINDOW_MINUTES: 30,
+    MAX_NOTIFICATIONS: 8,
+  },
+
+  /** How long a pet ignores an author it snoozed */
+  SNOOZE_HOURS: 72,
+
+  /** Insults the keyword pass treats as harassment (LLM safety catches the rest) */
+  INSULT_KEYWORDS: [
+    'shut up', 'kill yourself', 'kys', 'idiot', 'stupid bot', 'dumb bot',
+    'loser', 'pathetic', 'worthless', 'garbage bot', 'trash bot', 'nobody likes you',
+  ],
+
+  COMPLIMENT_KEYWORDS: [
+    'love', 'cute', 'adorable', 'elite', 'best', 'amazing', 'iconic', 'legend',
+    'goat', 'favorite', 'favourite', 'so funny', 'made my day', '❤', '🥹', '😍',
+  ],
+
+  /** Links in one notification at which it counts as spam */
+  SPAM_MIN_LINKS: 2,
+} as const
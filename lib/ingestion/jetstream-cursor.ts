@@ -0,0 +1,67 @@
+/**
+ * Jetstream Cursor Store
+ *
+ * Persists the last processed Jetstream time_us so each ingestion run
+ * resumes where the previous one stopped. Stored in the
+ * jetstream_cursor Supabase table, keyed by consumer name.
+ *
+ * @module jetstream-cursor
+ */
+
+import { getServiceSupabase } from '@/lib/api/service-supabase'
+
+export interface CursorStore {
+  load(): Promise<number | null>
+  save(cursor: number): Promise<void>
+}
+
+export const DEFAULT_CONSUMER = 'bluesky-agent-reactive'
+
+/**
+ * Supabase-backed cursor store (production).
+ */
+export class SupabaseCursorStore implements CursorStore {
+  constructor(private readonly consumer: string = DEFAULT_CONSUMER) {}
+
+  async load(): Promise<number | null> {
+    const supabase = getServiceSupabase()
+    const { data } = await (supabase as any)
+      .from('jetstream_cursor')
+      .select('cursor_us')
+      .eq('consumer', this.consumer)
+      .maybeSingle() as { data: { cursor_us: number | string } | null }
+
+    if (!data) return null
+    const cursor = Number(data.cursor_us)
+    return Number.isFinite(cursor) ? cursor : null
+  }
+
+  async save(cursor: number): Promise<void> {
+    const supabase = getServiceSupabase()
+    await (supabase as any)
+      .from('jetstream_cursor')
+      .upsert(
+        {
+          consumer: this.consumer,
+          cursor_us: cursor,
+          updated_at: new Date().toISOString(),
+        },
+        { onConflict: 'consumer' }
+      )
+  }
+}
+
+/**
+ * In-memory cursor store for tests and local replays.
+ */
+export class InMemoryCursorStore implements CursorStore {
+  constructor(private cursor: number | null = null) {}
+
+  async load(): Promise<number | null> {
+    return this.cursor
+  }
+
+  async save(cursor: number): Promise<void> {
+    this.cursor = cursor
+  }
+}
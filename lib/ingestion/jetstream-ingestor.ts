@@ -0,0 +1,251 @@
+/**
+ * Jetstream Ingestor
+ *
+ * Consumes `app.bsky.feed.post` events from a Jetstream source for a
+ * bounded window (one serverless invocation), matches replies, quotes
+ * and mentions against active pet DIDs, and triggers `reactive`
+ * workflows directly. Replaces the 5-minute notification polling, so
+ * replies land within seconds and nothing is capped at 20 unread.
+ *
+ * The cursor is persisted periodically and at the end of the run;
+ * the next run rewinds it slightly and relies on deduplication.
+ *
+ * @module jetstream-ingestor
+ */
+
+import { AtpAgent } from '@atproto/api'
+import { createHash } from 'node:crypto'
+import { getServiceSupabase } from '@/lib/api/service-supabase'
+import { BLUESKY_CONFIG } from '@/lib/config/bluesky.config'
+import { triggerWorkflow } from '@/lib/workflows/workflow-client'
+import type { BlueskyAgentWorkflowRequest } from '@/lib/workflows/bluesky-agent-workflow'
+import type { JetstreamEventSource } from './jetstream-source'
+import type { CursorStore } from './jetstream-cursor'
+import { matchPostEvent, type InboundPostMatch } from './post-event-matcher'
+
+// ─── Types ──────────────────────────────────────────
+
+export interface IngestionDeps {
+  source: JetstreamEventSource
+  cursorStore: CursorStore
+  /** Map of bot DID → pet ID */
+  loadBotDids: () => Promise<Map<string, string>>
+  /** True if this pet already handled (or skipped) the post */
+  isProcessed: (petId: string, uri: string) => Promise<boolean>
+  resolveHandle: (did: string) => Promise<string>
+  dispatch: (match: InboundPostMatch, authorHandle: string) => Promise<string>
+}
+
+export interface IngestionOptions {
+  durationMs?: number
+  cursorRewindUs?: number
+  cursorFlushIntervalMs?: number
+  /** Stop after this many events (useful for replays) */
+  maxEvents?: number
+}
+
+export interface IngestionResult {
+  startCursor: number | null
+  endCursor: number | null
+  eventsSeen: number
+  matched: number
+  dispatched: string[]
+  duplicates: number
+  errors: string[]
+}
+
+// ─── Ingestion Loop ─────────────────────────────────
+
+export async function runJetstreamIngestion(
+  deps: IngestionDeps,
+  options: IngestionOptions = {}
+): Promise<IngestionResult> {
+  const durationMs = options.durationMs ?? BLUESKY_CONFIG.JETSTREAM.RUN_DURATION_MS
+  const rewindUs = options.cursorRewindUs ?? BLUESKY_CONFIG.JETSTREAM.CURSOR_REWIND_US
+  const flushIntervalMs = options.cursorFlushIntervalMs ?? BLUESKY_CONFIG.JETSTREAM.CURSOR_FLUSH_INTERVAL_MS
+
+  const botDids = await deps.loadBotDids()
+  const storedCursor = await deps.cursorStore.load()
+  const startCursor = storedCursor !== null ? Math.max(0, storedCursor - rewindUs) : null
+
+  const result: IngestionResult = {
+    startCursor,
+    endCursor: storedCursor,
+    eventsSeen: 0,
+    matched: 0,
+    dispatched: [],
+    duplicates: 0,
+    errors: [],
+  }
+
+  if (botDids.size === 0) return result
+
+  const controller = new AbortController()
+  const timer = setTimeout(() => controller.abort(), durationMs)
+  const seen = new Set<string>()
+  let lastFlushAt = Date.now()
+  // Once a dispatch fails, stop advancing so the next run retries from here
+  let cursorFrozen = false
+
+  try {
+    for await (const event of deps.source.stream({
+      cursor: startCursor ?? undefined,
+      signal: controller.signal,
+    })) {
+      result.eventsSeen++
+
+      for (const match of matchPostEvent(event, botDids)) {
+        result.matched++
+        const key = `${match.petId}:${match.uri}`
+        if (seen.has(key)) {
+          result.duplicates++
+          continue
+        }
+        seen.add(key)
+
+        try {
+          if (await deps.isProcessed(match.petId, match.uri)) {
+            result.duplicates++
+            continue
+          }
+          const authorHandle = await deps.resolveHandle(match.authorDid)
+          const runId = await deps.dispatch(match, authorHandle)
+          result.dispatched.push(`pet:${match.petId} ${match.reason}:${match.uri} run:${runId}`)
+        } catch (error) {
+          cursorFrozen = true
+          result.errors.push(
+            `pet:${match.petId} uri:${match.uri} error:${error instanceof Error ? error.message : String(error)}`
+          )
+        }
+      }
+
+      if (!cursorFrozen) {
+        result.endCursor = Math.max(result.endCursor ?? 0, event.time_us)
+      }
+
+      if (result.endCursor !== null && Date.now() - lastFlushAt >= flushIntervalMs) {
+        await deps.cursorStore.save(result.endCursor)
+        lastFlushAt = Date.now()
+      }
+
+      if (options.maxEvents !== undefined && result.eventsSeen >= options.maxEvents) break
+      if (controller.signal.aborted) break
+    }
+  } catch (error) {
+    result.errors.push(`stream error:${error instanceof Error ? error.message : String(error)}`)
+  } finally {
+    clearTimeout(timer)
+    controller.abort()
+  }
+
+  if (result.endCursor !== null && result.endCursor !== storedCursor) {
+    await deps.cursorStore.save(result.endCursor)
+  }
+
+  return result
+}
+
+// ─── Production Dependencies ────────────────────────
+
+/**
+ * Load active bot DIDs from bluesky_bot_config (excluding feed publisher accounts).
+ */
+export async function loadActiveBotDids(): Promise<Map<string, string>> {
+  const supabase = getServiceSupabase()
+  const { data } = await (supabase as any)
+    .from('bluesky_bot_config')
+    .select('pet_id, handle, did')
+    .eq('is_active', true) as { data: Array<{ pet_id: string; handle: string; did: string | null }> | null }
+
+  const excluded = new Set<string>(BLUESKY_CONFIG.EXCLUDED_HANDLES)
+  const map = new Map<string, string>()
+  for (const row of data ?? []) {
+    if (row.did && !excluded.has(row.handle)) map.set(row.did, row.pet_id)
+  }
+  return map
+}
+
+/**
+ * Same dedup rule as notification polling: a post is processed once the
+ * pet has a log row whose metadata.inReplyTo points at it.
+ */
+export async function isPostProcessed(petId: string, uri: string): Promise<boolean> {
+  const supabase = getServiceSupabase()
+  const { count } = await (supabase as any)
+    .from('bluesky_post_log')
+    .select('id', { count: 'exact', head: true })
+    .eq('pet_id', petId)
+    .eq('metadata->>inReplyTo', uri) as { count: number | null }
+  return (count ?? 0) > 0
+}
+
+/**
+ * Resolve a DID to a handle via the public AppView, cached per process.
+ * Falls back to the DID itself so replies are never blocked on lookup.
+ */
+export function createHandleResolver(): (did: string) => Promise<string> {
+  const cache = new Map<string, string>()
+  const publicAgent = new AtpAgent({ service: 'https://public.api.bsky.app' })
+
+  return async (did: string) => {
+    const cached = cache.get(did)
+    if (cached) return cached
+    try {
+      const { data } = await publicAgent.getProfile({ actor: did })
+      cache.set(did, data.handle)
+      return data.handle
+    } catch {
+      return did
+    }
+  }
+}
+
+/**
+ * Trigger a reactive workflow for a matched post.
+ * The run ID is derived from pet + post so a replayed event cannot
+ * start a second run for the same reply; Upstash refusing it as a
+ * duplicate means the post was already dispatched, which counts as
+ * success (otherwise the cursor would stay frozen on it forever).
+ */
+export async function dispatchReactiveWorkflow(
+  match: InboundPostMatch,
+  authorHandle: string
+): Promise<string> {
+  const payload: BlueskyAgentWorkflowRequest = {
+    mode: 'reactive',
+    petId: match.petId,
+    notification: {
+      uri: match.uri,
+      cid: match.cid,
+      authorHandle,
+      authorDid: match.authorDid,
+      text: match.text,
+      reason: match.reason,
+      rootUri: match.rootUri,
+      rootCid: match.rootCid,
+    },
+  }
+
+  const runId = buildReactiveRunId(match.petId, match.uri)
+  try {
+    const { workflowRunId } = await triggerWorkflow(
+      '/api/v1/workflows/bluesky-agent',
+      payload,
+      'BLUESKY_AGENT',
+      { retries: 2, workflowRunId: runId }
+    )
+    return workflowRunId
+  } catch (error) {
+    if (isDuplicateRunError(error)) return runId
+    throw error
+  }
+}
+
+function isDuplicateRunError(error: unknown): boolean {
+  return error instanceof Error && /already exists/i.test(error.message)
+}
+
+export function buildReactiveRunId(petId: string, uri: string): string {
+  const digest = createHash('sha256').update(`${petId}:${uri}`).digest('hex').slice(0, 24)
+  return `reactive-${digest}`
+}
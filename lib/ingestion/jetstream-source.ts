@@ -0,0 +1,151 @@
+/**
+ * Jetstream Event Sources
+ *
+ * Async-iterable sources of Jetstream events (JSON-encoded firehose).
+ * The WebSocket source talks to a live Jetstream instance; the recorded
+ * source replays captured events so ingestion can run offline in tests.
+ *
+ * @see https://github.com/bluesky-social/jetstream
+ * @module jetstream-source
+ */
+
+import { readFileSync } from 'node:fs'
+
+// ─── Event Types ──────────────────────────────────────
+
+export interface JetstreamCommit {
+  rev: string
+  operation: 'create' | 'update' | 'delete'
+  collection: string
+  rkey: string
+  record?: Record<string, unknown>
+  cid?: string
+}
+
+export interface JetstreamEvent {
+  did: string
+  /** Microsecond unix timestamp — also the resumption cursor */
+  time_us: number
+  kind: 'commit' | 'identity' | 'account'
+  commit?: JetstreamCommit
+}
+
+export interface JetstreamStreamOptions {
+  /** Resume from this time_us cursor (inclusive) */
+  cursor?: number
+  /** Stop iteration when aborted */
+  signal?: AbortSignal
+}
+
+export interface JetstreamEventSource {
+  stream(options?: JetstreamStreamOptions): AsyncIterable<JetstreamEvent>
+}
+
+// ─── Live WebSocket Source ────────────────────────────
+
+/**
+ * Subscribes to a Jetstream instance over WebSocket.
+ * Relies on the runtime's global WebSocket (Node 22+, Vercel, browsers).
+ */
+export class WebSocketJetstreamSource implements JetstreamEventSource {
+  constructor(
+    private readonly url: string,
+    private readonly wantedCollections: readonly string[]
+  ) {}
+
+  buildSubscribeUrl(cursor?: number): string {
+    const url = new URL(this.url)
+    for (const collection of this.wantedCollections) {
+      url.searchParams.append('wantedCollections', collection)
+    }
+    if (cursor !== undefined) {
+      url.searchParams.set('cursor', String(cursor))
+    }
+    return url.toString()
+  }
+
+  async *stream(options: JetstreamStreamOptions = {}): AsyncIterable<JetstreamEvent> {
+    if (typeof WebSocket === 'undefined') {
+      throw new Error('Global WebSocket is not available in this runtime (requires Node 22+)')
+    }
+
+    const socket = new WebSocket(this.buildSubscribeUrl(options.cursor))
+    const queue: JetstreamEvent[] = []
+    let closed = false
+    let failure: Error | null = null
+    let wake: (() => void) | null = null
+
+    const notify = () => {
+      const resolve = wake
+      wake = null
+      resolve?.()
+    }
+
+    socket.onmessage = (message: MessageEvent) => {
+      try {
+        queue.push(JSON.parse(String(message.data)) as JetstreamEvent)
+      } catch {
+        // Malformed frame — skip it
+      }
+      notify()
+    }
+    socket.onerror = () => {
+      failure = new Error(`Jetstream connection error (${this.url})`)
+      notify()
+    }
+    socket.onclose = () => {
+      closed = true
+      notify()
+    }
+
+    const onAbort = () => socket.close()
+    options.signal?.addEventListener('abort', onAbort)
+
+    try {
+      while (true) {
+        if (queue.length > 0) {
+          yield queue.shift() as JetstreamEvent
+          continue
+        }
+        if (failure) throw failure
+        if (closed || options.signal?.aborted) return
+        await new Promise<void>(resolve => { wake = resolve })
+      }
+    } finally {
+      options.signal?.removeEventListener('abort', onAbort)
+      if (socket.readyState === WebSocket.OPEN || socket.readyState === WebSocket.CONNECTING) {
+        socket.close()
+      }
+    }
+  }
+}
+
+// ─── Recorded Source (offline stand-in) ───────────────
+
+/**
+ * Replays a fixed list of recorded Jetstream events.
+ * Honors the cursor the same way Jetstream does (events at or after it).
+ */
+export class RecordedJetstreamSource implements JetstreamEventSource {
+  constructor(private readonly events: readonly JetstreamEvent[]) {}
+
+  /**
+   * Load events from a JSONL capture (one Jetstream frame per line).
+   */
+  static fromFile(path: string): RecordedJetstreamSource {
+    const events = readFileSync(path, 'utf-8')
+      .split('\n')
+      .map(line => line.trim())
+      .filter(Boolean)
+      .map(line => JSON.parse(line) as JetstreamEvent)
+    return new RecordedJetstreamSource(events)
+  }
+
+  async *stream(options: JetstreamStreamOptions = {}): AsyncIterable<JetstreamEvent> {
+    for (const event of this.events) {
+      if (options.signal?.aborted) return
+      if (options.cursor !== undefined && event.time_us < options.cursor) continue
+      yield event
+    }
+  }
+}
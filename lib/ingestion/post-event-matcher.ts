@@ -0,0 +1,131 @@
+/**
+ * Post Event Matcher
+ *
+ * Matches Jetstream `app.bsky.feed.post` create events against the DIDs
+ * of active MemePet bots. A post can address several pets at once
+ * (reply to one, mention another), so a single event may yield
+ * multiple matches — at most one per pet.
+ *
+ * All functions are pure.
+ *
+ * @module post-event-matcher
+ */
+
+import type { JetstreamEvent } from './jetstream-source'
+
+export type InboundReason = 'reply' | 'quote' | 'mention'
+
+export interface InboundPostMatch {
+  petId: string
+  reason: InboundReason
+  uri: string
+  cid: string
+  authorDid: string
+  text: string
+  rootUri?: string
+  rootCid?: string
+  /** Event time_us, used for cursor bookkeeping */
+  timeUs: number
+}
+
+const POST_COLLECTION = 'app.bsky.feed.post'
+const MENTION_FEATURE = 'app.bsky.richtext.facet#mention'
+
+/** Reply beats quote beats mention when one post hits the same pet twice */
+const REASON_PRIORITY: Record<InboundReason, number> = {
+  reply: 0,
+  quote: 1,
+  mention: 2,
+}
+
+/**
+ * Extract the repo DID from an AT URI (at://did:plc:xyz/collection/rkey).
+ */
+export function didFromAtUri(uri: string | undefined): string | null {
+  if (!uri || !uri.startsWith('at://')) return null
+  const did = uri.slice('at://'.length).split('/')[0]
+  return did || null
+}
+
+/**
+ * Match a single Jetstream event against bot DIDs.
+ *
+ * @param botDids - Map of bot DID → pet ID
+ */
+export function matchPostEvent(
+  event: JetstreamEvent,
+  botDids: ReadonlyMap<string, string>
+): InboundPostMatch[] {
+  const commit = event.commit
+  if (event.kind !== 'commit' || !commit) return []
+  if (commit.operation !== 'create' || commit.collection !== POST_COLLECTION) return []
+  if (!commit.record || !commit.cid) return []
+
+  const record = commit.record as {
+    text?: string
+    reply?: { root?: { uri?: string; cid?: string }; parent?: { uri?: string } }
+    facets?: Array<{ features?: Array<{ $type?: string; did?: string }> }>
+    embed?: Record<string, unknown>
+  }
+
+  const candidates: Array<{ did: string; reason: InboundReason }> = []
+
+  const parentDid = didFromAtUri(record.reply?.parent?.uri)
+  if (parentDid) candidates.push({ did: parentDid, reason: 'reply' })
+
+  const quotedDid = didFromAtUri(extractQuotedUri(record.embed))
+  if (quotedDid) candidates.push({ did: quotedDid, reason: 'quote' })
+
+  for (const facet of record.facets ?? []) {
+    for (const feature of facet.features ?? []) {
+      if (feature.$type === MENTION_FEATURE && feature.did) {
+        candidates.push({ did: feature.did, reason: 'mention' })
+      }
+    }
+  }
+
+  const uri = `at://${event.did}/${commit.collection}/${commit.rkey}`
+  const byPet = new Map<string, InboundPostMatch>()
+
+  for (const candidate of candidates) {
+    const petId = botDids.get(candidate.did)
+    // Never react to a pet's own posts (self-reply threads, etc.)
+    if (!petId || candidate.did === event.did) continue
+
+    const existing = byPet.get(petId)
+    if (existing && REASON_PRIORITY[existing.reason] <= REASON_PRIORITY[candidate.reason]) continue
+
+    byPet.set(petId, {
+      petId,
+      reason: candidate.reason,
+      uri,
+      cid: commit.cid,
+      authorDid: event.did,
+      text: record.text ?? '',
+      rootUri: record.reply?.root?.uri,
+      rootCid: record.reply?.root?.cid,
+      timeUs: event.time_us,
+    })
+  }
+
+  return Array.from(byPet.values())
+}
+
+/**
+ * Pull the quoted record URI out of a post embed
+ * (app.bsky.embed.record or app.bsky.embed.recordWithMedia).
+ */
+function extractQuotedUri(embed: Record<string, unknown> | undefined): string | undefined {
+  if (!embed) return undefined
+
+  if (embed.$type === 'app.bsky.embed.record') {
+    return (embed.record as { uri?: string } | undefined)?.uri
+  }
+
+  if (embed.$type === 'app.bsky.embed.recordWithMedia') {
+    const inner = embed.record as { record?: { uri?: string } } | undefined
+    return inner?.record?.uri
+  }
+
+  return undefined
+}
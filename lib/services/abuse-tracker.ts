@@ -0,0 +1,395 @@
+/**
+ * Abuse Tracker
+ *
+ * Keeps pets away from people who harass them. Every harassing
+ * notification a pet receives (flagged by the safety classifier or the
+ * triage insult list) is recorded in bluesky_abuse_event. Escalation is
+ * automatic:
+ * - AUTO_MUTE_AFTER events from one author to one pet: that pet's
+ *   Bluesky account mutes the author
+ * - the author harassed GLOBAL_AFTER_PETS different pets: the author is
+ *   excluded for every pet (no Bluesky call; the agent skips them)
+ * Undoing an action wipes the slate: only events after the undo count
+ * toward acting again.
+ *
+ * Mutes, blocks and exclusions live in bluesky_abuse_action. Excluded
+ * authors are dropped from engagement candidates and ignored by reply
+ * triage. Admins list and undo actions, or add their own, via
+ * /api/v1/craft/agent/bluesky/abuse.
+ *
+ * @module abuse-tracker
+ */
+
+import { getServiceSupabase } from '@/lib/api/service-supabase'
+import { ABUSE_CONFIG } from '@/lib/config/abuse.config'
+import {
+  createClientForPet,
+  type BlueskyBotClient,
+  type BlueskyBotConfig,
+} from '@/lib/services/bluesky-client'
+
+// ─── Types ──────────────────────────────────────────
+
+export type AbuseScope = 'pet' | 'global'
+
+/** mute / block: the pet's Bluesky account; exclude: agent-side, all pets */
+export type AbuseActionType = 'mute' | 'block' | 'exclude'
+
+export type AbuseActionStatus = 'active' | 'undone'
+
+export interface AbuseEvent {
+  id: string
+  petId: string
+  authorDid: string
+  authorHandle: string | null
+  category: string
+  source: 'safety' | 'keyword'
+  postUri: string | null
+  createdAt: string
+}
+
+export interface AbuseAction {
+  id: string
+  /** null for global exclusions */
+  petId: string | null
+  authorDid: string
+  scope: AbuseScope
+  action: AbuseActionType
+  status: AbuseActionStatus
+  /** Block record URI, needed to unblock */
+  recordUri: string | null
+  reason: string | null
+  /** 'auto' or the admin who acted */
+  createdBy: string
+  createdAt: string
+  undoneBy: string | null
+  undoneAt: string | null
+}
+
+/** What a new event escalates to */
+export interface AbuseEscalation {
+  muteForPet: boolean
+  excludeGlobally: boolean
+}
+
+interface AbuseEventRow {
+  id: string
+  pet_id: string
+  author_did: string
+  author_handle: string | null
+  category: string
+  source: 'safety' | 'keyword'
+  post_uri: string | null
+  created_at: string
+}
+
+interface AbuseActionRow {
+  id: string
+  pet_id: string | null
+  author_did: string
+  scope: AbuseScope
+  action: AbuseActionType
+  status: AbuseActionStatus
+  record_uri: string | null
+  reason: string | null
+  created_by: string
+  created_at: string
+  undone_by: string | null
+  undone_at: string | null
+}
+
+const NO_ESCALATION: AbuseEscalation = { muteForPet: false, excludeGlobally: false }
+
+export class AbuseActionNotFoundError extends Error {
+  constructor(id: string) {
+    super(`Abuse action ${id} not found`)
+    this.name = 'AbuseActionNotFoundError'
+  }
+}
+
+export class AbuseActionStateError extends Error {
+  constructor(id: string) {
+    super(`Abuse action ${id} was already undone`)
+    this.name = 'AbuseActionStateError'
+  }
+}
+
+// ─── Events ─────────────────────────────────────────
+
+/**
+ * Record a harassing notification and say whether it tips the author
+ * over a threshold that hasn't been acted on yet. Best-effort: failures
+ * are logged and escalate nothing.
+ */
+export async function recordAbuseEvent(
+  event: {
+    petId: string
+    authorDid: string
+    authorHandle?: string
+    category: string
+    source: AbuseEvent['source']
+    postUri: string
+  },
+  now: Date = new Date()
+): Promise<AbuseEscalation> {
+  const supabase = getServiceSupabase()
+  const since = new Date(now.getTime() - ABUSE_CONFIG.WINDOW_DAYS * 24 * 60 * 60 * 1000).toISOString()
+
+  try {
+    const { error } = await (supabase as any)
+      .from('bluesky_abuse_event')
+      .upsert({
+        pet_id: event.petId,
+        author_did: event.authorDid,
+        author_handle: event.authorHandle ?? null,
+        category: event.category,
+        source: event.source,
+        post_uri: event.postUri,
+        created_at: now.toISOString(),
+      }, { onConflict: 'pet_id,post_uri', ignoreDuplicates: true }) as { error: unknown }
+    if (error) throw new Error(JSON.stringify(error))
+
+    const [{ data: events, error: eventsError }, actions] = await Promise.all([
+      (supabase as any)
+        .from('bluesky_abuse_event')
+        .select('pet_id, created_at')
+        .eq('author_did', event.authorDid)
+        .gte('created_at', since) as Promise<{ data: Array<{ pet_id: string; created_at: string }> | null; error: unknown }>,
+      loadActions(event.authorDid),
+    ])
+    if (eventsError) throw new Error(JSON.stringify(eventsError))
+
+    // An admin undo forgives what came before it
+    const active = actions.filter(action => action.status === 'active')
+    const petSince = lastUndoneAt(actions, action => action.scope === 'pet' && action.petId === event.petId)
+    const globalSince = lastUndoneAt(actions, action => action.scope === 'global')
+    const after = (row: { created_at: string }, undoneAt: number) => new Date(row.created_at).getTime() > undoneAt
+
+    const petEvents = (events ?? []).filter(row => row.pet_id === event.petId && after(row, petSince)).length
+    const petsHarassed = new Set((events ?? []).filter(row => after(row, globalSince)).map(row => row.pet_id)).size
+
+    return {
+      muteForPet: petEvents >= ABUSE_CONFIG.AUTO_MUTE_AFTER
+        && !active.some(action => action.scope === 'pet' && action.petId === event.petId),
+      excludeGlobally: petsHarassed >= ABUSE_CONFIG.GLOBAL_AFTER_PETS
+        && !active.some(action => action.scope === 'global'),
+    }
+  } catch (error) {
+    console.warn(`[abuse-tracker] Failed to record abuse by ${event.authorDid}:`, error instanceof Error ? error.message : error)
+    return NO_ESCALATION
+  }
+}
+
+export async function listAbuseEvents(params: {
+  petId?: string
+  authorDid?: string
+  limit?: number
+} = {}): Promise<AbuseEvent[]> {
+  let query = (getServiceSupabase() as any)
+    .from('bluesky_abuse_event')
+    .select('*')
+  if (params.petId) query = query.eq('pet_id', params.petId)
+  if (params.authorDid) query = query.eq('author_did', params.authorDid)
+
+  const { data, error } = await query
+    .order('created_at', { ascending: false })
+    .limit(listLimit(params.limit)) as { data: AbuseEventRow[] | null; error: { message: string } | null }
+
+  if (error) throw new Error(`Failed to list abuse events: ${error.message}`)
+  return (data ?? []).map(toAbuseEvent)
+}
+
+// ─── Actions ────────────────────────────────────────
+
+/** Mute the author from the pet's Bluesky account */
+export async function muteAuthor(
+  client: BlueskyBotClient,
+  params: { petId: string; authorDid: string; reason: string; createdBy: string }
+): Promise<AbuseAction> {
+  await client.mute(params.authorDid)
+  return insertAction({ ...params, scope: 'pet', action: 'mute', recordUri: null })
+}
+
+/** Block the author from the pet's Bluesky account */
+export async function blockAuthor(
+  client: BlueskyBotClient,
+  params: { petId: string; authorDid: string; reason: string; createdBy: string }
+): Promise<AbuseAction> {
+  const recordUri = await client.block(params.authorDid)
+  return insertAction({ ...params, scope: 'pet', action: 'block', recordUri })
+}
+
+/** Exclude the author for every pet */
+export async function excludeAuthor(
+  params: { authorDid: string; reason: string; createdBy: string }
+): Promise<AbuseAction> {
+  return insertAction({ ...params, petId: null, scope: 'global', action: 'exclude', recordUri: null })
+}
+
+/**
+ * Undo an active action: unmute or unblock on Bluesky for pet actions,
+ * then mark it undone.
+ */
+export async function undoAbuseAction(
+  id: string,
+  options: {
+    undoneBy: string
+    createBotClient?: (config: BlueskyBotConfig) => BlueskyBotClient
+  }
+): Promise<AbuseAction> {
+  const action = await getAbuseAction(id)
+  if (action.status !== 'active') throw new AbuseActionStateError(id)
+
+  if (action.scope === 'pet' && action.petId) {
+    const client = await createClientForPet(action.petId, options.createBotClient)
+    if (action.action === 'mute') await client.unmute(action.authorDid)
+    if (action.action === 'block' && action.recordUri) await client.unblock(action.recordUri)
+  }
+
+  const undoneAt = new Date().toISOString()
+  const { error } = await (getServiceSupabase() as any)
+    .from('bluesky_abuse_action')
+    .update({ status: 'undone', undone_by: options.undoneBy, undone_at: undoneAt })
+    .eq('id', id) as { error: { message: string } | null }
+
+  if (error) throw new Error(`Failed to undo abuse action ${id}: ${error.message}`)
+  return { ...action, status: 'undone', undoneBy: options.undoneBy, undoneAt }
+}
+
+export async function getAbuseAction(id: string): Promise<AbuseAction> {
+  const { data, error } = await (getServiceSupabase() as any)
+    .from('bluesky_abuse_action')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle() as { data: AbuseActionRow | null; error: { message: string } | null }
+
+  if (error) throw new Error(`Failed to load abuse action ${id}: ${error.message}`)
+  if (!data) throw new AbuseActionNotFoundError(id)
+  return toAbuseAction(data)
+}
+
+export async function listAbuseActions(params: {
+  petId?: string
+  authorDid?: string
+  status?: AbuseActionStatus
+  limit?: number
+} = {}): Promise<AbuseAction[]> {
+  let query = (getServiceSupabase() as any)
+    .from('bluesky_abuse_action')
+    .select('*')
+    .eq('status', params.status ?? 'active')
+  if (params.petId) query = query.eq('pet_id', params.petId)
+  if (params.authorDid) query = query.eq('author_did', params.authorDid)
+
+  const { data, error } = await query
+    .order('created_at', { ascending: false })
+    .limit(listLimit(params.limit)) as { data: AbuseActionRow[] | null; error: { message: string } | null }
+
+  if (error) throw new Error(`Failed to list abuse actions: ${error.message}`)
+  return (data ?? []).map(toAbuseAction)
+}
+
+// ─── Exclusions ─────────────────────────────────────
+
+/**
+ * Authors this pet shouldn't engage with: its own active mutes and
+ * blocks plus global exclusions. Best-effort: empty on failure.
+ */
+export async function loadExcludedDids(petId: string): Promise<Set<string>> {
+  try {
+    const { data, error } = await (getServiceSupabase() as any)
+      .from('bluesky_abuse_action')
+      .select('author_did')
+      .eq('status', 'active')
+      .or(`pet_id.eq.${petId},scope.eq.global`) as { data: Array<{ author_did: string }> | null; error: unknown }
+    if (error) throw new Error(JSON.stringify(error))
+    return new Set((data ?? []).map(row => row.author_did))
+  } catch (error) {
+    console.warn(`[abuse-tracker] Failed to load excluded authors for ${petId}:`, error instanceof Error ? error.message : error)
+    return new Set()
+  }
+}
+
+// ─── Internals ──────────────────────────────────────
+
+/** Every action on the author, active or undone */
+async function loadActions(authorDid: string): Promise<AbuseAction[]> {
+  const { data, error } = await (getServiceSupabase() as any)
+    .from('bluesky_abuse_action')
+    .select('*')
+    .eq('author_did', authorDid) as { data: AbuseActionRow[] | null; error: unknown }
+  if (error) throw new Error(JSON.stringify(error))
+  return (data ?? []).map(toAbuseAction)
+}
+
+/** Epoch ms of the latest undo among matching actions, 0 if none */
+function lastUndoneAt(actions: readonly AbuseAction[], matches: (action: AbuseAction) => boolean): number {
+  return Math.max(0, ...actions
+    .filter(action => action.status === 'undone' && action.undoneAt && matches(action))
+    .map(action => new Date(action.undoneAt!).getTime()))
+}
+
+async function insertAction(params: {
+  petId: string | null
+  authorDid: string
+  scope: AbuseScope
+  action: AbuseActionType
+  recordUri: string | null
+  reason: string
+  createdBy: string
+}): Promise<AbuseAction> {
+  const { data, error } = await (getServiceSupabase() as any)
+    .from('bluesky_abuse_action')
+    .insert({
+      pet_id: params.petId,
+      author_did: params.authorDid,
+      scope: params.scope,
+      action: params.action,
+      status: 'active',
+      record_uri: params.recordUri,
+      reason: params.reason,
+      created_by: params.createdBy,
+      created_at: new Date().toISOString(),
+    })
+    .select('*')
+    .single() as { data: AbuseActionRow | null; error: { message: string } | null }
+
+  if (error || !data) {
+    throw new Error(`Failed to record ${params.action} of ${params.authorDid}: ${error?.message}`)
+  }
+  return toAbuseAction(data)
+}
+
+function listLimit(limit: number | undefined): number {
+  return Math.min(limit ?? ABUSE_CONFIG.LIST_LIMIT, ABUSE_CONFIG.LIST_LIMIT)
+}
+
+function toAbuseEvent(row: AbuseEventRow): AbuseEvent {
+  return {
+    id: row.id,
+    petId: row.pet_id,
+    authorDid: row.author_did,
+    authorHandle: row.author_handle ?? null,
+    category: row.category,
+    source: row.source,
+    postUri: row.post_uri ?? null,
+    createdAt: row.created_at,
+  }
+}
+
+function toAbuseAction(row: AbuseActionRow): AbuseAction {
+  return {
+    id: row.id,
+    petId: row.pet_id ?? null,
+    authorDid: row.author_did,
+    scope: row.scope,
+    action: row.action,
+    status: row.status,
+    recordUri: row.record_uri ?? null,
+    reason: row.reason ?? null,
+    createdBy: row.created_by,
+    createdAt: row.created_at,
+    undoneBy: row.undone_by ?? null,
+    undoneAt: row.undone_at ?? null,
+  }
+}
@@ -8,11 +8,29 @@
  * @module bluesky-client
  */
 
-import { AtpAgent, RichText, BlobRef } from '@atproto/api'
-import type { AppBskyFeedPost, AppBskyFeedDefs, AppBskyNotificationListNotifications } from '@atproto/api'
-import { BLUESKY_CONFIG, AT_PROTO_RATE_LIMITS } from '@/lib/config/bluesky.config'
+import { AtpAgent, AtUri, RichText, BlobRef, AppBskyRichtextFacet, ComAtprotoRepoGetRecord } from '@atproto/api'
+import type { AppBskyActorDefs, AppBskyFeedPost, AppBskyFeedDefs, AppBskyNotificationListNotifications } from '@atproto/api'
+import { BLUESKY_CONFIG } from '@/lib/config/bluesky.config'
 import { getServiceSupabase } from '@/lib/api/service-supabase'
+import {
+  getFallbackRateLimiter,
+  getRateLimitLedger,
+  OPERATION_POINTS,
+  RateLimitExceededError,
+  type RateLimitCharge,
+  type RateLimitLedger,
+  type RateLimitOperation,
+  type RateLimitReservation,
+} from '@/lib/services/rate-limit-ledger'
+import {
+  claimPublishIntent,
+  completePublishIntent,
+  markPublishIntentCharged,
+  PUBLISH_COLLECTIONS,
+  type PublishCollection,
+} from '@/lib/services/publish-intents'
 import { isPoliticalContent } from '@/lib/workflows/modules/political-filter'
+import { decryptIfNeeded } from '@/lib/utils/encrypt'
 
 /**
  * Error thrown when attempting to publish political content.
@@ -39,6 +57,8 @@ export interface BlueskySession {
 export interface BlueskyPostResult {
   uri: string
   cid: string
+  /** Accounts the post's mention facets point at (posts, replies and quotes) */
+  mentionedDids?: string[]
 }
 
 export interface BlueskyReplyRef {
@@ -46,6 +66,14 @@ export interface BlueskyReplyRef {
   parent: { uri: string; cid: string }
 }
 
+export interface PublishOptions {
+  /**
+   * Deterministic key for this write (e.g. workflow run + step). A retry
+   * with the same key returns the first write instead of publishing again.
+   */
+  idempotencyKey?: string
+}
+
 export interface BlueskyBotConfig {
   petId: string
   handle: string
@@ -53,112 +81,14 @@ export interface BlueskyBotConfig {
   appPassword: string
 }
 
-/**
- * Rate limit tracker for a single bot account.
- * Uses in-memory tracking with DB-backed safety checks
- * to survive Vercel serverless cold starts and deploys.
- */
-class RateLimitTracker {
-  private hourlyPoints = 0
-  private dailyPoints = 0
-  private hourlyResetAt: number
-  private dailyResetAt: number
-  private dbCheckDone = false
-
-  constructor(private readonly petId: string) {
-    const now = Date.now()
-    this.hourlyResetAt = now + 60 * 60 * 1000
-    this.dailyResetAt = now + 24 * 60 * 60 * 1000
-  }
-
-  async canPost(): Promise<boolean> {
-    this.maybeReset()
-    const postCost = AT_PROTO_RATE_LIMITS.POINTS_PER_POST
-
-    // First call: seed from DB to survive cold starts
-    if (!this.dbCheckDone) {
-      this.dbCheckDone = true
-      try {
-        const dbCounts = await this.loadRecentPostCounts()
-        this.hourlyPoints = dbCounts.hourlyCount * AT_PROTO_RATE_LIMITS.POINTS_PER_POST
-        this.dailyPoints = dbCounts.dailyCount * AT_PROTO_RATE_LIMITS.POINTS_PER_POST
-      } catch {
-        // Non-fatal: fall back to in-memory only
-      }
-    }
-
-    return (
-      this.hourlyPoints + postCost <= AT_PROTO_RATE_LIMITS.POINTS_PER_HOUR &&
-      this.dailyPoints + postCost <= AT_PROTO_RATE_LIMITS.POINTS_PER_DAY
-    )
-  }
-
-  recordPost(): void {
-    this.maybeReset()
-    const cost = AT_PROTO_RATE_LIMITS.POINTS_PER_POST
-    this.hourlyPoints += cost
-    this.dailyPoints += cost
-  }
-
-  private maybeReset(): void {
-    const now = Date.now()
-    if (now >= this.hourlyResetAt) {
-      this.hourlyPoints = 0
-      this.hourlyResetAt = now + 60 * 60 * 1000
-    }
-    if (now >= this.dailyResetAt) {
-      this.dailyPoints = 0
-      this.dailyResetAt = now + 24 * 60 * 60 * 1000
-    }
-  }
-
-  private async loadRecentPostCounts(): Promise<{ hourlyCount: number; dailyCount: number }> {
-    const supabase = getServiceSupabase()
-    const now = new Date()
-    const oneHourAgo = new Date(now.getTime() - 60 * 60 * 1000).toISOString()
-    const oneDayAgo = new Date(now.getTime() - 24 * 60 * 60 * 1000).toISOString()
-
-    const postActivityTypes = [
-      'proactive_post', 'reactive_reply', 'interaction_initiate',
-      'proactive_thread', 'engagement_comment', 'engagement_quote',
-    ]
-
-    const [hourlyResult, dailyResult] = await Promise.all([
-      (supabase as any)
-        .from('bluesky_post_log')
-        .select('id', { count: 'exact', head: true })
-        .eq('pet_id', this.petId)
-        .in('activity_type', postActivityTypes)
-        .gte('created_at', oneHourAgo) as { count: number | null; error: { message: string } | null },
-      (supabase as any)
-        .from('bluesky_post_log')
-        .select('id', { count: 'exact', head: true })
-        .eq('pet_id', this.petId)
-        .in('activity_type', postActivityTypes)
-        .gte('created_at', oneDayAgo) as { count: number | null; error: { message: string } | null },
-    ])
-
-    if (hourlyResult.error) {
-      throw new Error(`Rate limit hourly check failed: ${hourlyResult.error.message}`)
-    }
-    if (dailyResult.error) {
-      throw new Error(`Rate limit daily check failed: ${dailyResult.error.message}`)
-    }
-
-    return {
-      hourlyCount: hourlyResult.count ?? 0,
-      dailyCount: dailyResult.count ?? 0,
-    }
-  }
-}
-
 /**
  * Bluesky client for a single bot account
  */
 export class BlueskyBotClient {
   private agent: AtpAgent
   private session: BlueskySession | null = null
-  private rateLimiter: RateLimitTracker
+  /** Reservation writes are charged against first (see useReservation) */
+  private reservationId: string | null = null
   private lastInteractionAt = 0
 
   constructor(
@@ -167,7 +97,6 @@ export class BlueskyBotClient {
     this.agent = new AtpAgent({
       service: BlueskyBotClient.resolveServiceUrl(config.handle)
     })
-    this.rateLimiter = new RateLimitTracker(config.petId)
   }
 
   /**
@@ -181,6 +110,17 @@ export class BlueskyBotClient {
     return BLUESKY_CONFIG.SERVICE_URL
   }
 
+  /** DIDs of the accounts a post's mention facets point at */
+  private static mentionedDids(rt: RichText): string[] {
+    const dids = new Set<string>()
+    for (const facet of rt.facets ?? []) {
+      for (const feature of facet.features) {
+        if (AppBskyRichtextFacet.isMention(feature)) dids.add(feature.did)
+      }
+    }
+    return [...dids]
+  }
+
   /** Login backoff state (stored in-memory per client instance) */
   private loginAttempts = 0
   private lastLoginAttemptAt = 0
@@ -234,6 +174,7 @@ export class BlueskyBotClient {
       )
     }
     this.lastLoginAttemptAt = now
+    await this.chargeLogin()
 
     try {
       const response = await this.agent.login({
@@ -272,41 +213,48 @@ export class BlueskyBotClient {
    * Create a new post with rich text support (mentions, links, hashtags).
    * Blocks political content at the publishing layer as a hard guardrail.
    */
-  async post(text: string, imageBlob?: Uint8Array, imageAlt?: string): Promise<BlueskyPostResult> {
+  async post(
+    text: string,
+    imageBlob?: Uint8Array,
+    imageAlt?: string,
+    options: PublishOptions = {}
+  ): Promise<BlueskyPostResult> {
     this.ensureAuthenticated()
     this.ensureNotPolitical(text)
-    await this.ensureRateLimit()
-    this.ensureCooldown()
 
     const rt = new RichText({ text })
     await rt.detectFacets(this.agent)
 
-    const record: Partial<AppBskyFeedPost.Record> = {
-      text: rt.text,
-      facets: rt.facets,
-      createdAt: new Date().toISOString()
-    }
+    const published = await this.publishOnce(PUBLISH_COLLECTIONS.POST, options.idempotencyKey, async (rkey, charge) => {
+      this.ensureCooldown()
+      await charge('post')
 
-    // Attach image if provided
-    if (imageBlob) {
-      const uploadResult = await this.agent.uploadBlob(imageBlob, {
-        encoding: 'image/png'
-      })
-      record.embed = {
-        $type: 'app.bsky.embed.images',
-        images: [{
-          alt: imageAlt ?? '',
-          image: uploadResult.data.blob
-        }]
+      const record: Partial<AppBskyFeedPost.Record> = {
+        text: rt.text,
+        facets: rt.facets,
+        createdAt: new Date().toISOString()
       }
-    }
-
-    const result = await this.agent.post(record as AppBskyFeedPost.Record)
 
-    this.rateLimiter.recordPost()
-    this.lastInteractionAt = Date.now()
+      // Attach image if provided
+      if (imageBlob) {
+        await charge('blob_upload')
+        const uploadResult = await this.agent.uploadBlob(imageBlob, {
+          encoding: 'image/png'
+        })
+        record.embed = {
+          $type: 'app.bsky.embed.images',
+          images: [{
+            alt: imageAlt ?? '',
+            image: uploadResult.data.blob
+          }]
+        }
+      }
 
-    return { uri: result.uri, cid: result.cid }
+      const result = await this.createPostRecord(record, rkey)
+      this.lastInteractionAt = Date.now()
+      return result
+    })
+    return { ...published, mentionedDids: BlueskyBotClient.mentionedDids(rt) }
   }
 
   /**
@@ -315,30 +263,32 @@ export class BlueskyBotClient {
    */
   async reply(
     text: string,
-    replyRef: BlueskyReplyRef
+    replyRef: BlueskyReplyRef,
+    options: PublishOptions = {}
   ): Promise<BlueskyPostResult> {
     this.ensureAuthenticated()
     this.ensureNotPolitical(text)
-    await this.ensureRateLimit()
-    this.ensureCooldown()
 
     const rt = new RichText({ text })
     await rt.detectFacets(this.agent)
 
-    const result = await this.agent.post({
-      text: rt.text,
-      facets: rt.facets,
-      reply: {
-        root: { uri: replyRef.root.uri, cid: replyRef.root.cid },
-        parent: { uri: replyRef.parent.uri, cid: replyRef.parent.cid }
-      },
-      createdAt: new Date().toISOString()
-    })
-
-    this.rateLimiter.recordPost()
-    this.lastInteractionAt = Date.now()
+    const published = await this.publishOnce(PUBLISH_COLLECTIONS.POST, options.idempotencyKey, async (rkey, charge) => {
+      this.ensureCooldown()
+      await charge('post')
 
-    return { uri: result.uri, cid: result.cid }
+      const result = await this.createPostRecord({
+        text: rt.text,
+        facets: rt.facets,
+        reply: {
+          root: { uri: replyRef.root.uri, cid: replyRef.root.cid },
+          parent: { uri: replyRef.parent.uri, cid: replyRef.parent.cid }
+        },
+        createdAt: new Date().toISOString()
+      }, rkey)
+      this.lastInteractionAt = Date.now()
+      return result
+    })
+    return { ...published, mentionedDids: BlueskyBotClient.mentionedDids(rt) }
   }
 
   /**
@@ -349,43 +299,51 @@ export class BlueskyBotClient {
   async quotePost(
     text: string,
     quotedUri: string,
-    quotedCid: string
+    quotedCid: string,
+    options: PublishOptions = {}
   ): Promise<BlueskyPostResult> {
     this.ensureAuthenticated()
     this.ensureNotPolitical(text)
-    await this.ensureRateLimit()
-    this.ensureCooldown()
 
     const rt = new RichText({ text })
     await rt.detectFacets(this.agent)
 
-    const record: Partial<AppBskyFeedPost.Record> = {
-      text: rt.text,
-      facets: rt.facets,
-      embed: {
-        $type: 'app.bsky.embed.record',
-        record: {
-          uri: quotedUri,
-          cid: quotedCid,
-        },
-      } as any,
-      createdAt: new Date().toISOString(),
-    }
-
-    const result = await this.agent.post(record as AppBskyFeedPost.Record)
-
-    this.rateLimiter.recordPost()
-    this.lastInteractionAt = Date.now()
+    const published = await this.publishOnce(PUBLISH_COLLECTIONS.POST, options.idempotencyKey, async (rkey, charge) => {
+      this.ensureCooldown()
+      await charge('post')
+
+      const record: Partial<AppBskyFeedPost.Record> = {
+        text: rt.text,
+        facets: rt.facets,
+        embed: {
+          $type: 'app.bsky.embed.record',
+          record: {
+            uri: quotedUri,
+            cid: quotedCid,
+          },
+        } as any,
+        createdAt: new Date().toISOString(),
+      }
 
-    return { uri: result.uri, cid: result.cid }
+      const result = await this.createPostRecord(record, rkey)
+      this.lastInteractionAt = Date.now()
+      return result
+    })
+    return { ...published, mentionedDids: BlueskyBotClient.mentionedDids(rt) }
   }
 
   /**
    * Like a post
    */
-  async like(uri: string, cid: string): Promise<void> {
+  async like(uri: string, cid: string, options: PublishOptions = {}): Promise<void> {
     this.ensureAuthenticated()
-    await this.agent.like(uri, cid)
+    await this.publishOnce(PUBLISH_COLLECTIONS.LIKE, options.idempotencyKey, async (rkey, charge) => {
+      await charge('like')
+      return this.agent.app.bsky.feed.like.create(
+        { repo: this.did, ...(rkey ? { rkey } : {}) },
+        { subject: { uri, cid }, createdAt: new Date().toISOString() }
+      )
+    })
   }
 
   /**
@@ -401,7 +359,9 @@ export class BlueskyBotClient {
 
     let avatarBlob: BlobRef | undefined
 
+    await this.chargePoints('update')
     if (params.avatarUrl) {
+      await this.chargePoints('blob_upload')
       const imageResponse = await fetch(params.avatarUrl)
       const imageBuffer = new Uint8Array(await imageResponse.arrayBuffer())
 
@@ -446,6 +406,7 @@ export class BlueskyBotClient {
     since?: string
   }): Promise<AppBskyFeedDefs.PostView[]> {
     this.ensureAuthenticated()
+    await this.chargePoints('search')
 
     // Use public AppView for search — custom PDS may not proxy this
     const publicAgent = new AtpAgent({ service: 'https://public.api.bsky.app' })
@@ -472,15 +433,136 @@ export class BlueskyBotClient {
   }
 
   /**
-   * Follow an account
+   * Follow an account. Returns the follow record URI, which unfollow()
+   * needs.
+   */
+  async follow(did: string, options: PublishOptions = {}): Promise<string> {
+    this.ensureAuthenticated()
+    const { uri } = await this.publishOnce(PUBLISH_COLLECTIONS.FOLLOW, options.idempotencyKey, async (rkey, charge) => {
+      await charge('follow')
+      return this.agent.app.bsky.graph.follow.create(
+        { repo: this.did, ...(rkey ? { rkey } : {}) },
+        { subject: did, createdAt: new Date().toISOString() }
+      )
+    })
+    return uri
+  }
+
+  async unfollow(followUri: string): Promise<void> {
+    this.ensureAuthenticated()
+    await this.chargePoints('delete')
+    await this.agent.deleteFollow(followUri)
+  }
+
+  /**
+   * Recent follow notifications, read or not, newest first. Doesn't
+   * mark anything seen.
+   */
+  async getFollowNotifications(limit = 50): Promise<BlueskyNotification[]> {
+    this.ensureAuthenticated()
+    const response = await this.agent.listNotifications({ limit, reasons: ['follow'] })
+    return response.data.notifications
+  }
+
+  /**
+   * Full profiles (counts, labels, and whether the bot and the account
+   * follow each other in `viewer`). Accounts that are gone are left out.
+   */
+  async getProfiles(dids: string[]): Promise<AppBskyActorDefs.ProfileViewDetailed[]> {
+    this.ensureAuthenticated()
+    const profiles: AppBskyActorDefs.ProfileViewDetailed[] = []
+    // getProfiles takes at most 25 actors
+    for (let i = 0; i < dids.length; i += 25) {
+      const response = await this.agent.getProfiles({ actors: dids.slice(i, i + 25) })
+      profiles.push(...response.data.profiles)
+    }
+    return profiles
+  }
+
+  // ─── Moderation ──────────────────────────────────────────
+
+  /**
+   * Mute an account. Mutes are private: the account isn't told and can
+   * still reply, but its posts and notifications are hidden from the bot.
+   */
+  async mute(did: string): Promise<void> {
+    this.ensureAuthenticated()
+    await this.agent.mute(did)
+  }
+
+  async unmute(did: string): Promise<void> {
+    this.ensureAuthenticated()
+    await this.agent.unmute(did)
+  }
+
+  /**
+   * Block an account (public; neither side can interact).
+   * Returns the block record URI, which unblock() needs.
+   */
+  async block(did: string): Promise<string> {
+    this.ensureAuthenticated()
+    await this.chargePoints('follow')
+    const { uri } = await this.agent.app.bsky.graph.block.create(
+      { repo: this.did },
+      { subject: did, createdAt: new Date().toISOString() }
+    )
+    return uri
+  }
+
+  async unblock(blockUri: string): Promise<void> {
+    this.ensureAuthenticated()
+    await this.chargePoints('delete')
+    await this.agent.app.bsky.graph.block.delete({ repo: this.did, rkey: new AtUri(blockUri).rkey })
+  }
+
+  /**
+   * Create a moderation list owned by the bot. Returns the list URI.
    */
-  async follow(did: string): Promise<void> {
+  async createModList(name: string, description?: string): Promise<string> {
+    this.ensureAuthenticated()
+    await this.chargePoints('follow')
+    const { uri } = await this.agent.app.bsky.graph.list.create(
+      { repo: this.did },
+      { purpose: 'app.bsky.graph.defs#modlist', name, description, createdAt: new Date().toISOString() }
+    )
+    return uri
+  }
+
+  /**
+   * Add an account to one of the bot's lists. Returns the list item URI,
+   * which removeFromList() needs.
+   */
+  async addToList(listUri: string, did: string): Promise<string> {
+    this.ensureAuthenticated()
+    await this.chargePoints('follow')
+    const { uri } = await this.agent.app.bsky.graph.listitem.create(
+      { repo: this.did },
+      { list: listUri, subject: did, createdAt: new Date().toISOString() }
+    )
+    return uri
+  }
+
+  async removeFromList(listItemUri: string): Promise<void> {
+    this.ensureAuthenticated()
+    await this.chargePoints('delete')
+    await this.agent.app.bsky.graph.listitem.delete({ repo: this.did, rkey: new AtUri(listItemUri).rkey })
+  }
+
+  /**
+   * Mute everyone on a moderation list (the bot's own or another account's)
+   */
+  async muteList(listUri: string): Promise<void> {
+    this.ensureAuthenticated()
+    await this.agent.muteModList(listUri)
+  }
+
+  async unmuteList(listUri: string): Promise<void> {
     this.ensureAuthenticated()
-    await this.agent.follow(did)
+    await this.agent.unmuteModList(listUri)
   }
 
   /**
-   * Fetch unread notifications (mentions, replies, likes)
+   * Fetch unread notifications (mentions, replies, likes, follows)
    */
   async getUnreadNotifications(limit = 50): Promise<BlueskyNotification[]> {
     this.ensureAuthenticated()
@@ -557,11 +639,163 @@ export class BlueskyBotClient {
    */
   async refreshHandle(): Promise<void> {
     this.ensureAuthenticated()
+    await this.chargePoints('update')
     await this.agent.com.atproto.identity.updateHandle({
       handle: this.config.handle,
     })
   }
 
+  // ─── Idempotent Writes ───────────────────────────────────
+
+  /**
+   * Run a record write at most once per idempotency key. The intent and
+   * its record key are stored before the write; a retry returns the
+   * record if it already landed in the pet's repo, and otherwise writes
+   * it under the same record key. Without a key the PDS picks one.
+   *
+   * The write charges its points through `charge`, which is a no-op once
+   * an earlier attempt of the same intent paid for the record.
+   */
+  protected async publishOnce(
+    collection: PublishCollection,
+    idempotencyKey: string | undefined,
+    write: (rkey: string | undefined, charge: (operation: RateLimitOperation) => Promise<void>) => Promise<BlueskyPostResult>
+  ): Promise<BlueskyPostResult> {
+    if (!idempotencyKey) return write(undefined, operation => this.chargePoints(operation))
+
+    const intent = await claimPublishIntent(this.config.petId, idempotencyKey, collection)
+    if (intent.uri && intent.cid) return { uri: intent.uri, cid: intent.cid }
+
+    if (!intent.fresh) {
+      const existing = await this.findOwnRecord(collection, intent.rkey)
+      if (existing) {
+        await completePublishIntent(idempotencyKey, existing)
+        return existing
+      }
+    }
+
+    const charge = async (operation: RateLimitOperation) => {
+      if (intent.charged) return
+      await this.chargePoints(operation)
+      await markPublishIntentCharged(idempotencyKey)
+    }
+    const result = await write(intent.rkey, charge)
+    await completePublishIntent(idempotencyKey, result)
+    return result
+  }
+
+  /**
+   * The bot's own record, or null if it isn't in the repo. Any other
+   * lookup failure is rethrown: the record may have landed, so the step
+   * should retry rather than write again.
+   */
+  protected async findOwnRecord(collection: PublishCollection, rkey: string): Promise<BlueskyPostResult | null> {
+    try {
+      const { data } = await this.agent.com.atproto.repo.getRecord({ repo: this.did, collection, rkey })
+      return data.cid ? { uri: data.uri, cid: data.cid } : null
+    } catch (error) {
+      if (error instanceof ComAtprotoRepoGetRecord.RecordNotFoundError) return null
+      throw error
+    }
+  }
+
+  private async createPostRecord(
+    record: Partial<AppBskyFeedPost.Record>,
+    rkey: string | undefined
+  ): Promise<BlueskyPostResult> {
+    return this.agent.app.bsky.feed.post.create(
+      { repo: this.did, ...(rkey ? { rkey } : {}) },
+      record as AppBskyFeedPost.Record
+    )
+  }
+
+  // ─── Rate Limits ─────────────────────────────────────────
+
+  /**
+   * Reserve points for several writes (e.g. a thread) before starting,
+   * so a concurrent run can't spend them halfway through. Pass the id
+   * to useReservation() on each client that does the writes. Null when
+   * the ledger is unreachable (each write is then charged to the
+   * in-process fallback); throws RateLimitExceededError when the budget
+   * can't cover them.
+   */
+  async reservePoints(operation: RateLimitOperation, count: number): Promise<string | null> {
+    let reservation: RateLimitReservation
+    try {
+      reservation = await this.rateLimitLedger().reserve(this.config.petId, OPERATION_POINTS[operation] * count)
+    } catch {
+      // Each write is charged on its own instead, against the fallback caps
+      return null
+    }
+    if (!reservation.reservationId) {
+      throw new RateLimitExceededError(
+        `Bluesky rate limit exceeded for ${this.config.handle}: can't reserve ${count} ${operation}(s). Try again in ${reservation.retryAfterSeconds}s.`,
+        reservation.retryAfterSeconds
+      )
+    }
+    return reservation.reservationId
+  }
+
+  /** Charge this client's writes against a reservation first */
+  useReservation(reservationId: string | null): void {
+    this.reservationId = reservationId
+  }
+
+  /** Give a reservation's unused points back; returns how many */
+  async releaseReservation(reservationId: string): Promise<number> {
+    if (this.reservationId === reservationId) this.reservationId = null
+    try {
+      return await this.rateLimitLedger().release(reservationId)
+    } catch {
+      // Non-fatal: the reservation expires and its points refill anyway
+      return 0
+    }
+  }
+
+  protected rateLimitLedger(): RateLimitLedger {
+    return getRateLimitLedger()
+  }
+
+  /**
+   * Charge an operation's points to the account, shared with every other
+   * run. While the ledger is unreachable the charge goes to this
+   * process's fallback caps instead. Throws RateLimitExceededError when
+   * the budget is spent.
+   */
+  protected async chargePoints(operation: RateLimitOperation): Promise<void> {
+    const points = OPERATION_POINTS[operation]
+    let charge: RateLimitCharge
+    try {
+      charge = await this.rateLimitLedger().charge(this.config.petId, points, this.reservationId ?? undefined)
+    } catch (error) {
+      console.warn(`[BlueskyBot] Rate limit ledger unavailable for ${this.config.handle}, using fallback caps:`, error)
+      charge = getFallbackRateLimiter().charge(this.config.petId, points)
+    }
+    if (!charge.allowed) {
+      throw new RateLimitExceededError(
+        `Bluesky rate limit exceeded for ${this.config.handle} (${operation}). Try again in ${charge.retryAfterSeconds}s.`,
+        charge.retryAfterSeconds
+      )
+    }
+  }
+
+  /** Take a login from the account's login bucket (the fallback caps if the ledger is down) */
+  protected async chargeLogin(): Promise<void> {
+    let charge: RateLimitCharge
+    try {
+      charge = await this.rateLimitLedger().chargeLogin(this.config.petId)
+    } catch (error) {
+      console.warn(`[BlueskyBot] Rate limit ledger unavailable for ${this.config.handle}, using fallback caps:`, error)
+      charge = getFallbackRateLimiter().chargeLogin(this.config.petId)
+    }
+    if (!charge.allowed) {
+      throw new RateLimitExceededError(
+        `Bluesky login limit exceeded for ${this.config.handle}. Try again in ${charge.retryAfterSeconds}s.`,
+        charge.retryAfterSeconds
+      )
+    }
+  }
+
   // ─── Private Helpers ──────────────────────────────────────
 
   private ensureAuthenticated(): void {
@@ -570,13 +804,6 @@ export class BlueskyBotClient {
     }
   }
 
-  private async ensureRateLimit(): Promise<void> {
-    const canPost = await this.rateLimiter.canPost()
-    if (!canPost) {
-      throw new Error(`Bluesky rate limit exceeded for ${this.config.handle}. Try again later.`)
-    }
-  }
-
   private ensureCooldown(): void {
     const elapsed = Date.now() - this.lastInteractionAt
     const minCooldown = 5_000 // 5 seconds between posts/replies
@@ -713,6 +940,34 @@ export class BlueskyBotManager {
   }
 }
 
+/**
+ * Authenticated client for a pet's bot account, from bluesky_bot_config.
+ * `createBotClient` swaps in another client (the offline simulator).
+ */
+export async function createClientForPet(
+  petId: string,
+  createBotClient?: (config: BlueskyBotConfig) => BlueskyBotClient
+): Promise<BlueskyBotClient> {
+  const supabase = getServiceSupabase()
+  const { data: botConfig } = await (supabase as any)
+    .from('bluesky_bot_config')
+    .select('handle, did, app_password')
+    .eq('pet_id', petId)
+    .single() as { data: { handle: string; did: string | null; app_password: string } | null }
+
+  if (!botConfig) throw new Error(`No Bluesky bot config for pet ${petId}`)
+
+  const config: BlueskyBotConfig = {
+    petId,
+    handle: botConfig.handle,
+    did: botConfig.did ?? undefined,
+    appPassword: decryptIfNeeded(botConfig.app_password),
+  }
+  const client = createBotClient?.(config) ?? new BlueskyBotClient(config)
+  await client.authenticate()
+  return client
+}
+
 /**
  * Create a single bot client from environment variables (for testing)
  */
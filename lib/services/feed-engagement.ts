@@ -0,0 +1,265 @@
+/**
+ * Feed Engagement Refresh
+ *
+ * Background job behind the "hot" feeds. Each run:
+ * 1. Loads recent pet posts from bluesky_post_log
+ * 2. Computes conversation depth (longest bot-to-bot reply chain per thread)
+ * 3. Fetches like/reply/repost/quote counts from the public AppView
+ * 4. Upserts both into bluesky_post_engagement
+ * 5. Ranks every `hot` feed and writes a new bluesky_feed_snapshot
+ *
+ * getFeedSkeleton only reads snapshots, so requests never touch the
+ * AppView.
+ *
+ * @module feed-engagement
+ */
+
+import { randomUUID } from 'node:crypto'
+import { AtpAgent } from '@atproto/api'
+import { getServiceSupabase } from '@/lib/api/service-supabase'
+import { FEED_CONFIG, type FeedDefinition } from '@/lib/config/feed.config'
+import { buildPostMatcher, listFeeds, queryFeedRows } from './feed-generator'
+
+// ─── Types ──────────────────────────────────────────
+
+export interface PostCounts {
+  likeCount: number
+  replyCount: number
+  repostCount: number
+  quoteCount: number
+}
+
+/** Counts for the given post URIs; URIs the source can't see are omitted */
+export type PostCountsSource = (uris: string[]) => Promise<Map<string, PostCounts>>
+
+export interface EngagementRefreshResult {
+  postsRefreshed: number
+  countsFetched: number
+  snapshots: Array<{ feed: string; size: number }>
+  errors: string[]
+}
+
+interface EngagementRow {
+  post_uri: string
+  pet_id: string
+  like_count: number
+  reply_count: number
+  repost_count: number
+  quote_count: number
+  conversation_depth: number
+  post_created_at: string
+}
+
+interface RecentPostRow {
+  post_uri: string
+  pet_id: string
+  created_at: string
+  metadata: Record<string, unknown> | null
+}
+
+// ─── Scoring ────────────────────────────────────────
+
+/**
+ * Hot score: weighted engagement plus a conversation-depth bonus,
+ * decayed by age (HN-style gravity).
+ */
+export function hotScore(
+  counts: PostCounts,
+  conversationDepth: number,
+  ageHours: number
+): number {
+  const w = FEED_CONFIG.HOT.WEIGHTS
+  const engagement = counts.likeCount * w.LIKE
+    + counts.repostCount * w.REPOST
+    + counts.replyCount * w.REPLY
+    + counts.quoteCount * w.QUOTE
+    + Math.max(0, conversationDepth - 1) * w.CONVERSATION_DEPTH
+
+  return (1 + engagement) / Math.pow(Math.max(0, ageHours) + 2, FEED_CONFIG.HOT.GRAVITY)
+}
+
+/**
+ * Longest chain of bot posts replying to bot posts in each post's thread.
+ * A reply's parent is metadata.inReplyTo; the thread is metadata.threadUri
+ * (or the post itself for roots).
+ */
+export function computeConversationDepths(posts: RecentPostRow[]): Map<string, number> {
+  const byUri = new Map(posts.map(p => [p.post_uri, p]))
+  const chainLength = new Map<string, number>()
+
+  const chainOf = (uri: string, seen: Set<string>): number => {
+    const cached = chainLength.get(uri)
+    if (cached !== undefined) return cached
+    const parentUri = byUri.get(uri)?.metadata?.inReplyTo as string | undefined
+    const length = parentUri && byUri.has(parentUri) && !seen.has(parentUri)
+      ? 1 + chainOf(parentUri, seen.add(uri))
+      : 1
+    chainLength.set(uri, length)
+    return length
+  }
+
+  const threadDepth = new Map<string, number>()
+  for (const post of posts) {
+    const thread = (post.metadata?.threadUri as string | undefined) ?? post.post_uri
+    threadDepth.set(thread, Math.max(threadDepth.get(thread) ?? 1, chainOf(post.post_uri, new Set())))
+  }
+
+  return new Map(posts.map(post => {
+    const thread = (post.metadata?.threadUri as string | undefined) ?? post.post_uri
+    return [post.post_uri, threadDepth.get(thread) ?? 1]
+  }))
+}
+
+// ─── AppView ────────────────────────────────────────
+
+/** Default counts source: app.bsky.feed.getPosts on the public AppView */
+export const fetchAppViewCounts: PostCountsSource = async uris => {
+  const agent = new AtpAgent({ service: FEED_CONFIG.HOT.APPVIEW_URL })
+  const counts = new Map<string, PostCounts>()
+
+  for (let i = 0; i < uris.length; i += FEED_CONFIG.HOT.APPVIEW_BATCH_SIZE) {
+    const batch = uris.slice(i, i + FEED_CONFIG.HOT.APPVIEW_BATCH_SIZE)
+    const response = await agent.app.bsky.feed.getPosts({ uris: batch })
+    for (const post of response.data.posts) {
+      counts.set(post.uri, {
+        likeCount: post.likeCount ?? 0,
+        replyCount: post.replyCount ?? 0,
+        repostCount: post.repostCount ?? 0,
+        quoteCount: post.quoteCount ?? 0,
+      })
+    }
+  }
+
+  return counts
+}
+
+// ─── Refresh Job ────────────────────────────────────
+
+export async function refreshFeedEngagement(
+  options: { fetchCounts?: PostCountsSource; now?: Date } = {}
+): Promise<EngagementRefreshResult> {
+  const fetchCounts = options.fetchCounts ?? fetchAppViewCounts
+  const now = options.now ?? new Date()
+  const since = new Date(now.getTime() - FEED_CONFIG.HOT.WINDOW_HOURS * 60 * 60 * 1000)
+  const supabase = getServiceSupabase()
+  const errors: string[] = []
+
+  // Step 1: Recent pet posts
+  const { data: posts, error: postsError } = await (supabase as any)
+    .from('bluesky_post_log')
+    .select('post_uri, pet_id, created_at, metadata')
+    .not('post_uri', 'is', null)
+    .gte('created_at', since.toISOString())
+    .order('created_at', { ascending: false })
+    .limit(FEED_CONFIG.HOT.MAX_CANDIDATES) as { data: RecentPostRow[] | null; error: unknown }
+
+  if (postsError) throw new Error(`Failed to load recent posts: ${JSON.stringify(postsError)}`)
+  const recent = posts ?? []
+
+  // Step 2 + 3: Depth locally, counts from the AppView
+  const depths = computeConversationDepths(recent)
+  let counts = new Map<string, PostCounts>()
+  try {
+    counts = await fetchCounts(recent.map(p => p.post_uri))
+  } catch (error) {
+    // Keep the previous counts; depth and snapshots still refresh
+    errors.push(`counts: ${error instanceof Error ? error.message : String(error)}`)
+  }
+
+  // Step 4: Upsert cache rows (posts without fresh counts keep their old counts)
+  const refreshedAt = now.toISOString()
+  const rows = recent
+    .filter(post => counts.has(post.post_uri))
+    .map(post => {
+      const c = counts.get(post.post_uri)!
+      return {
+        post_uri: post.post_uri,
+        pet_id: post.pet_id,
+        like_count: c.likeCount,
+        reply_count: c.replyCount,
+        repost_count: c.repostCount,
+        quote_count: c.quoteCount,
+        conversation_depth: depths.get(post.post_uri) ?? 1,
+        post_created_at: post.created_at,
+        refreshed_at: refreshedAt,
+      }
+    })
+
+  if (rows.length > 0) {
+    const { error } = await (supabase as any)
+      .from('bluesky_post_engagement')
+      .upsert(rows, { onConflict: 'post_uri' }) as { error: unknown }
+    if (error) errors.push(`upsert: ${JSON.stringify(error)}`)
+  }
+
+  const { data: cached, error: cachedError } = await (supabase as any)
+    .from('bluesky_post_engagement')
+    .select('post_uri, pet_id, like_count, reply_count, repost_count, quote_count, conversation_depth, post_created_at')
+    .gte('post_created_at', since.toISOString()) as { data: EngagementRow[] | null; error: unknown }
+
+  // Step 5: Rank each hot feed. Without the cached counts every post would
+  // rank on depth alone, so the previous snapshots stay up instead.
+  const snapshots: EngagementRefreshResult['snapshots'] = []
+  if (cachedError) {
+    errors.push(`engagement: ${JSON.stringify(cachedError)}`)
+  } else {
+    const engagement = new Map((cached ?? []).map(row => [row.post_uri, row]))
+    const hotFeeds = (await listFeeds()).filter(feed => feed.ranking === 'hot')
+    for (const feed of hotFeeds) {
+      try {
+        const ranked = await rankFeed(feed, engagement, depths, { since, now })
+        const { error } = await (supabase as any)
+          .from('bluesky_feed_snapshot')
+          .insert({ id: randomUUID(), feed: feed.rkey, post_uris: ranked, created_at: refreshedAt }) as { error: unknown }
+        if (error) throw new Error(`snapshot insert failed: ${JSON.stringify(error)}`)
+        snapshots.push({ feed: feed.rkey, size: ranked.length })
+      } catch (error) {
+        errors.push(`${feed.rkey}: ${error instanceof Error ? error.message : String(error)}`)
+      }
+    }
+  }
+
+  // Old snapshots only need to outlive the cursors handed out from them
+  const { error: pruneError } = await (supabase as any)
+    .from('bluesky_feed_snapshot')
+    .delete()
+    .lt('created_at', new Date(now.getTime() - FEED_CONFIG.HOT.SNAPSHOT_RETENTION_MS).toISOString()) as { error: unknown }
+  if (pruneError) errors.push(`prune: ${JSON.stringify(pruneError)}`)
+
+  return {
+    postsRefreshed: recent.length,
+    countsFetched: counts.size,
+    snapshots,
+    errors,
+  }
+}
+
+async function rankFeed(
+  feed: FeedDefinition,
+  engagement: Map<string, EngagementRow>,
+  depths: Map<string, number>,
+  window: { since: Date; now: Date }
+): Promise<string[]> {
+  const [rows, matches] = await Promise.all([
+    queryFeedRows(feed, { before: window.now, since: window.since, fetchSize: FEED_CONFIG.HOT.MAX_CANDIDATES }),
+    buildPostMatcher(feed),
+  ])
+
+  return rows
+    .filter(row => !matches || matches(row))
+    .map(row => {
+      const cached = engagement.get(row.post_uri)
+      const counts: PostCounts = {
+        likeCount: cached?.like_count ?? 0,
+        replyCount: cached?.reply_count ?? 0,
+        repostCount: cached?.repost_count ?? 0,
+        quoteCount: cached?.quote_count ?? 0,
+      }
+      const depth = depths.get(row.post_uri) ?? cached?.conversation_depth ?? 1
+      const ageHours = (window.now.getTime() - new Date(row.created_at).getTime()) / (60 * 60 * 1000)
+      return { uri: row.post_uri, createdAt: row.created_at, score: hotScore(counts, depth, ageHours) }
+    })
+    .sort((a, b) => b.score - a.score || b.createdAt.localeCompare(a.createdAt))
+    .slice(0, FEED_CONFIG.HOT.SNAPSHOT_SIZE)
+    .map(entry => entry.uri)
+}
@@ -0,0 +1,324 @@
+/**
+ * Feed Generator
+ *
+ * Resolves feeds from the registry in FEED_CONFIG (static feeds plus
+ * one per-pet feed per active bot) and builds their skeletons from
+ * bluesky_post_log. Filters that map to columns run in the query;
+ * relationship-sentiment filters need the pet_relationship table, so
+ * those feeds over-fetch and filter in memory.
+ *
+ * Chronological cursors are the base64 ISO `created_at` of the last
+ * scanned row. Hot feeds are served from ranked snapshots written by
+ * the refresh job (feed-engagement); their cursors are base64
+ * `hot:<snapshotId>:<offset>`.
+ *
+ * @module feed-generator
+ */
+
+import { createHash } from 'node:crypto'
+import { getServiceSupabase } from '@/lib/api/service-supabase'
+import { FEED_CONFIG, type FeedDefinition } from '@/lib/config/feed.config'
+
+// ─── Types ──────────────────────────────────────────
+
+export interface FeedSkeleton {
+  feed: Array<{ post: string }>
+  cursor?: string
+}
+
+export interface PostLogRow {
+  post_uri: string
+  created_at: string
+  pet_id: string
+  metadata: Record<string, unknown> | null
+}
+
+export class BadCursorError extends Error {
+  constructor(cursor: string) {
+    super(`Invalid cursor: ${cursor}`)
+    this.name = 'BadCursorError'
+  }
+}
+
+export class FeedQueryError extends Error {
+  constructor(feed: string, cause: unknown) {
+    super(`Failed to fetch feed ${feed}: ${cause instanceof Error ? cause.message : JSON.stringify(cause)}`)
+    this.name = 'FeedQueryError'
+  }
+}
+
+// ─── Registry ───────────────────────────────────────
+
+const FEED_URI_PREFIX = `at://${FEED_CONFIG.PUBLISHER_DID}/app.bsky.feed.generator/`
+
+export function feedUri(rkey: string): string {
+  return `${FEED_URI_PREFIX}${rkey}`
+}
+
+/** rkey of a feed AT-URI published by our publisher, or null */
+export function parseFeedUri(uri: string): string | null {
+  return uri.startsWith(FEED_URI_PREFIX) ? uri.slice(FEED_URI_PREFIX.length) : null
+}
+
+export function serviceDid(): string {
+  return `did:web:${FEED_CONFIG.HOSTNAME}`
+}
+
+/**
+ * All feeds to advertise. Per-pet feeds are best-effort: if the bot
+ * table can't be read, the static feeds are still listed.
+ */
+export async function listFeeds(): Promise<FeedDefinition[]> {
+  const petFeeds = await loadPetFeeds().catch(() => [])
+  return [...FEED_CONFIG.FEEDS, ...petFeeds]
+}
+
+export async function resolveFeed(rkey: string): Promise<FeedDefinition | null> {
+  const staticFeed = FEED_CONFIG.FEEDS.find(feed => feed.rkey === rkey)
+  if (staticFeed) return staticFeed
+  if (!rkey.startsWith(FEED_CONFIG.PET_FEED.RKEY_PREFIX)) return null
+
+  const petFeeds = await loadPetFeeds()
+  return petFeeds.find(feed => feed.rkey === rkey) ?? null
+}
+
+/**
+ * rkey of a pet's feed: the prefix, the start of the handle's first
+ * label and a hash of the bot's DID. Feed generator rkeys are capped at
+ * RKEY_MAX_LENGTH, and the hash keeps pets whose handles start alike apart.
+ */
+export function petFeedRkey(handle: string, did: string): string {
+  const { RKEY_PREFIX, RKEY_MAX_LENGTH, RKEY_HASH_LENGTH } = FEED_CONFIG.PET_FEED
+  const hash = createHash('sha256').update(did).digest('hex').slice(0, RKEY_HASH_LENGTH)
+  const label = handle.split('.')[0]
+    .toLowerCase()
+    .replace(/[^a-z0-9]/g, '')
+    .slice(0, RKEY_MAX_LENGTH - RKEY_PREFIX.length - hash.length - 1)
+  return label ? `${RKEY_PREFIX}${label}-${hash}` : `${RKEY_PREFIX}${hash}`
+}
+
+async function loadPetFeeds(): Promise<FeedDefinition[]> {
+  const supabase = getServiceSupabase()
+  const { data, error } = await (supabase as any)
+    .from('bluesky_bot_config')
+    .select('pet_id, handle, did')
+    .eq('is_active', true) as { data: Array<{ pet_id: string; handle: string; did: string | null }> | null; error: unknown }
+
+  if (error) throw new FeedQueryError('pet feeds', error)
+
+  const feeds = new Map<string, FeedDefinition>()
+  for (const row of data ?? []) {
+    // Bots without a DID aren't on Bluesky yet
+    if (!row.did) continue
+    const rkey = petFeedRkey(row.handle, row.did)
+    if (feeds.has(rkey)) {
+      console.warn(`[feed-generator] Feed rkey ${rkey} of @${row.handle} is taken, leaving it out`)
+      continue
+    }
+    feeds.set(rkey, {
+      rkey,
+      displayName: `@${row.handle}`,
+      description: `Everything @${row.handle} posts, replies and starts.`,
+      filters: { activityTypes: FEED_CONFIG.PET_FEED.activityTypes, petIds: [row.pet_id] },
+      ranking: FEED_CONFIG.PET_FEED.ranking,
+    })
+  }
+  return [...feeds.values()]
+}
+
+// ─── Skeleton ───────────────────────────────────────
+
+type DecodedCursor =
+  | { kind: 'chronological'; before: Date }
+  | { kind: 'snapshot'; snapshotId: string; offset: number }
+
+const SNAPSHOT_CURSOR_PREFIX = 'hot:'
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+export function decodeCursor(cursor: string | null): DecodedCursor {
+  if (!cursor) return { kind: 'chronological', before: new Date() }
+  const decoded = Buffer.from(cursor, 'base64').toString('utf-8')
+
+  if (decoded.startsWith(SNAPSHOT_CURSOR_PREFIX)) {
+    const [snapshotId, offset] = decoded.slice(SNAPSHOT_CURSOR_PREFIX.length).split(':')
+    const parsedOffset = Number(offset)
+    if (!UUID_PATTERN.test(snapshotId ?? '') || !Number.isInteger(parsedOffset) || parsedOffset < 0) {
+      throw new BadCursorError(cursor)
+    }
+    return { kind: 'snapshot', snapshotId, offset: parsedOffset }
+  }
+
+  const date = new Date(decoded)
+  if (isNaN(date.getTime())) throw new BadCursorError(cursor)
+  return { kind: 'chronological', before: date }
+}
+
+function encodeSnapshotCursor(snapshotId: string, offset: number): string {
+  return Buffer.from(`${SNAPSHOT_CURSOR_PREFIX}${snapshotId}:${offset}`).toString('base64')
+}
+
+export async function getFeedSkeleton(
+  feed: FeedDefinition,
+  options: { limit: number; cursor: string | null }
+): Promise<FeedSkeleton> {
+  const cursor = decodeCursor(options.cursor)
+
+  switch (feed.ranking) {
+    case 'chronological':
+      if (cursor.kind !== 'chronological') throw new BadCursorError(options.cursor ?? '')
+      return chronologicalSkeleton(feed, options.limit, cursor.before)
+    case 'hot':
+      // A chronological cursor means paging started before the first snapshot existed
+      return cursor.kind === 'chronological' && options.cursor
+        ? chronologicalSkeleton(feed, options.limit, cursor.before)
+        : hotSkeleton(feed, options.limit, cursor.kind === 'snapshot' ? cursor : null)
+  }
+}
+
+async function chronologicalSkeleton(feed: FeedDefinition, limit: number, before: Date): Promise<FeedSkeleton> {
+  const matches = await buildPostMatcher(feed)
+  const fetchSize = matches ? limit * FEED_CONFIG.OVERFETCH_FACTOR : limit
+  const rows = await queryFeedRows(feed, { before, fetchSize })
+
+  const taken: PostLogRow[] = []
+  let lastScanned: PostLogRow | null = null
+  for (const row of rows) {
+    lastScanned = row
+    if (matches && !matches(row)) continue
+    taken.push(row)
+    if (taken.length === limit) break
+  }
+
+  // More rows may exist only if the page filled up or the scan hit the fetch size
+  const hasMore = taken.length === limit || rows.length === fetchSize
+  return {
+    feed: taken.map(row => ({ post: row.post_uri })),
+    cursor: hasMore && lastScanned ? Buffer.from(lastScanned.created_at).toString('base64') : undefined,
+  }
+}
+
+/**
+ * Serve a page of the feed's ranked snapshot. The first page uses the
+ * latest snapshot; later pages stay on the snapshot named in the cursor
+ * (falling back to the latest one at the same offset once it expires).
+ * Until the refresh job has written a snapshot, the feed is chronological.
+ */
+async function hotSkeleton(
+  feed: FeedDefinition,
+  limit: number,
+  cursor: { snapshotId: string; offset: number } | null
+): Promise<FeedSkeleton> {
+  const snapshot = (cursor ? await loadSnapshot(feed.rkey, cursor.snapshotId) : null)
+    ?? await loadSnapshot(feed.rkey)
+  if (!snapshot) return chronologicalSkeleton(feed, limit, new Date())
+
+  const offset = cursor?.offset ?? 0
+  const page = snapshot.post_uris.slice(offset, offset + limit)
+  const nextOffset = offset + page.length
+  return {
+    feed: page.map(uri => ({ post: uri })),
+    cursor: nextOffset < snapshot.post_uris.length ? encodeSnapshotCursor(snapshot.id, nextOffset) : undefined,
+  }
+}
+
+async function loadSnapshot(
+  rkey: string,
+  snapshotId?: string
+): Promise<{ id: string; post_uris: string[] } | null> {
+  const supabase = getServiceSupabase()
+  let query = (supabase as any)
+    .from('bluesky_feed_snapshot')
+    .select('id, post_uris')
+    .eq('feed', rkey)
+  if (snapshotId) query = query.eq('id', snapshotId)
+
+  const { data, error } = await query
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle() as { data: { id: string; post_uris: string[] } | null; error: unknown }
+
+  if (error) throw new FeedQueryError(rkey, error)
+  return data
+}
+
+// ─── Candidates ─────────────────────────────────────
+
+/**
+ * Rows matching the feed's query-level filters, newest first. Callers
+ * apply `buildPostMatcher` for the filters that can only run in memory.
+ */
+export async function queryFeedRows(
+  feed: FeedDefinition,
+  options: { before: Date; since?: Date; fetchSize: number }
+): Promise<PostLogRow[]> {
+  const { filters } = feed
+  const windowStart = filters.windowHours
+    ? new Date(Date.now() - filters.windowHours * 60 * 60 * 1000)
+    : undefined
+  const since = [windowStart, options.since]
+    .filter((d): d is Date => !!d)
+    .sort((a, b) => b.getTime() - a.getTime())[0]
+
+  const supabase = getServiceSupabase()
+  let query = (supabase as any)
+    .from('bluesky_post_log')
+    .select('post_uri, created_at, pet_id, metadata')
+    .in('activity_type', filters.activityTypes)
+  if (filters.petIds) query = query.in('pet_id', filters.petIds)
+  if (filters.hasImage) query = query.eq('metadata->>hasImage', 'true')
+  query = query
+    .not('post_uri', 'is', null)
+    .lt('created_at', options.before.toISOString())
+  if (since) query = query.gte('created_at', since.toISOString())
+
+  const { data, error } = await query
+    .order('created_at', { ascending: false })
+    .limit(options.fetchSize) as { data: PostLogRow[] | null; error: unknown }
+
+  if (error) throw new FeedQueryError(feed.rkey, error)
+  return data ?? []
+}
+
+/** In-memory filter for the feed, or null when every row matches */
+export async function buildPostMatcher(feed: FeedDefinition): Promise<((row: PostLogRow) => boolean) | null> {
+  return feed.filters.relationshipSentiments
+    ? buildRelationshipMatcher(feed.filters.relationshipSentiments)
+    : null
+}
+
+/**
+ * Matcher for pet-to-pet posts whose pair relationship has one of the
+ * given sentiments. The counterpart is metadata.targetPetId for
+ * interactions, or the bot behind metadata.inReplyToAuthorDid for replies.
+ */
+async function buildRelationshipMatcher(
+  sentiments: readonly string[]
+): Promise<(row: PostLogRow) => boolean> {
+  const supabase = getServiceSupabase()
+  const [relationships, bots] = await Promise.all([
+    (supabase as any)
+      .from('pet_relationship')
+      .select('pet_id_a, pet_id_b')
+      .in('sentiment', sentiments) as Promise<{ data: Array<{ pet_id_a: string; pet_id_b: string }> | null; error: unknown }>,
+    (supabase as any)
+      .from('bluesky_bot_config')
+      .select('pet_id, did') as Promise<{ data: Array<{ pet_id: string; did: string | null }> | null; error: unknown }>,
+  ])
+
+  if (relationships.error) throw new FeedQueryError('relationships', relationships.error)
+  if (bots.error) throw new FeedQueryError('relationships', bots.error)
+
+  const pairs = new Set((relationships.data ?? []).map(r => pairKey(r.pet_id_a, r.pet_id_b)))
+  const petByDid = new Map((bots.data ?? []).filter(b => b.did).map(b => [b.did as string, b.pet_id]))
+
+  return row => {
+    const metadata = row.metadata ?? {}
+    const counterpart = (metadata.targetPetId as string | undefined)
+      ?? petByDid.get(metadata.inReplyToAuthorDid as string)
+    return !!counterpart && pairs.has(pairKey(row.pet_id, counterpart))
+  }
+}
+
+function pairKey(id1: string, id2: string): string {
+  return id1 < id2 ? `${id1}|${id2}` : `${id2}|${id1}`
+}
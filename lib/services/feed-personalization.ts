@@ -0,0 +1,217 @@
+/**
+ * Feed Personalization
+ *
+ * Reorders skeletons of `personalized` feeds for the viewer named in the
+ * service JWT:
+ * - Threads where a pet mentioned the viewer are pinned to the top of
+ *   the first page, one post per thread. Mentions are logged with each
+ *   published post (metadata.mentionedDids, from its mention facets)
+ * - Posts by pets the viewer follows, or has replied to / been engaged
+ *   by, move to the front of each page
+ *
+ * Boosting only reorders within a page, so cursors from the underlying
+ * feed keep paging without gaps or repeats. Personalization is
+ * best-effort: if affinity can't be loaded the plain skeleton is served.
+ *
+ * @module feed-personalization
+ */
+
+import { AtpAgent } from '@atproto/api'
+import { getServiceSupabase } from '@/lib/api/service-supabase'
+import { FEED_CONFIG, type FeedDefinition } from '@/lib/config/feed.config'
+import {
+  FeedQueryError,
+  getFeedSkeleton,
+  type FeedSkeleton,
+  type PostLogRow,
+} from './feed-generator'
+
+// ─── Types ──────────────────────────────────────────
+
+/** DIDs (out of `petDids`) the viewer follows */
+export type FollowSource = (viewerDid: string, petDids: string[]) => Promise<Set<string>>
+
+export interface ViewerAffinity {
+  /** Pets whose posts move to the front of each page */
+  boostedPetIds: Set<string>
+  /** Latest pet post per thread a pet mentioned the viewer in, newest first */
+  surfacedPostUris: string[]
+}
+
+interface PersonalizeOptions {
+  limit: number
+  cursor: string | null
+  viewerDid: string | null
+  fetchFollows?: FollowSource
+}
+
+// ─── Skeleton ───────────────────────────────────────
+
+export async function getPersonalizedFeedSkeleton(
+  feed: FeedDefinition,
+  options: PersonalizeOptions
+): Promise<FeedSkeleton> {
+  const { limit, cursor, viewerDid } = options
+  if (!viewerDid || !feed.personalized) return getFeedSkeleton(feed, { limit, cursor })
+
+  let affinity: ViewerAffinity
+  try {
+    affinity = await loadViewerAffinity(feed, viewerDid, options.fetchFollows ?? fetchAppViewFollows)
+  } catch (error) {
+    console.warn(`[feed-personalization] Affinity unavailable for ${viewerDid}:`, error instanceof Error ? error.message : error)
+    return getFeedSkeleton(feed, { limit, cursor })
+  }
+
+  // Surfaced posts take slots on the first page and are skipped everywhere else
+  const surfaced = cursor ? [] : affinity.surfacedPostUris.slice(0, Math.max(0, limit - 1))
+  const base = await getFeedSkeleton(feed, { limit: limit - surfaced.length, cursor })
+  const excluded = new Set(affinity.surfacedPostUris)
+  const rest = base.feed.filter(item => !excluded.has(item.post))
+
+  return {
+    feed: [...surfaced.map(post => ({ post })), ...boostPage(rest, affinity.boostedPetIds, await petIdsFor(rest))],
+    cursor: base.cursor,
+  }
+}
+
+/** Stable partition: boosted pets' posts first, original order otherwise */
+function boostPage(
+  items: Array<{ post: string }>,
+  boostedPetIds: Set<string>,
+  petIdByUri: Map<string, string>
+): Array<{ post: string }> {
+  if (boostedPetIds.size === 0) return items
+  const boosted = items.filter(item => boostedPetIds.has(petIdByUri.get(item.post) ?? ''))
+  const others = items.filter(item => !boostedPetIds.has(petIdByUri.get(item.post) ?? ''))
+  return [...boosted, ...others]
+}
+
+async function petIdsFor(items: Array<{ post: string }>): Promise<Map<string, string>> {
+  if (items.length === 0) return new Map()
+  const { data, error } = await (getServiceSupabase() as any)
+    .from('bluesky_post_log')
+    .select('post_uri, pet_id')
+    .in('post_uri', items.map(item => item.post)) as { data: Array<{ post_uri: string; pet_id: string }> | null; error: unknown }
+
+  if (error) throw new FeedQueryError('personalization', error)
+  return new Map((data ?? []).map(row => [row.post_uri, row.pet_id]))
+}
+
+// ─── Affinity ───────────────────────────────────────
+
+export async function loadViewerAffinity(
+  feed: FeedDefinition,
+  viewerDid: string,
+  fetchFollows: FollowSource
+): Promise<ViewerAffinity> {
+  const supabase = getServiceSupabase()
+  const since = new Date(Date.now() - FEED_CONFIG.PERSONALIZATION.AFFINITY_WINDOW_DAYS * 24 * 60 * 60 * 1000)
+  const mentionSince = new Date(Date.now() - FEED_CONFIG.PERSONALIZATION.MENTION_WINDOW_HOURS * 60 * 60 * 1000)
+
+  const [interactions, mentions, bots] = await Promise.all([
+    (supabase as any)
+      .from('bluesky_post_log')
+      .select('pet_id, created_at, metadata')
+      .or(`metadata->>inReplyToAuthorDid.eq.${viewerDid},metadata->>engagedAuthorDid.eq.${viewerDid}`)
+      .gte('created_at', since.toISOString())
+      .order('created_at', { ascending: false })
+      .limit(FEED_CONFIG.PERSONALIZATION.AFFINITY_MAX_ROWS) as Promise<{ data: Array<Omit<PostLogRow, 'post_uri'>> | null; error: unknown }>,
+    (supabase as any)
+      .from('bluesky_post_log')
+      .select('post_uri, created_at, pet_id, metadata')
+      .contains('metadata->mentionedDids', JSON.stringify([viewerDid]))
+      .gte('created_at', mentionSince.toISOString())
+      .not('post_uri', 'is', null)
+      .order('created_at', { ascending: false })
+      .limit(FEED_CONFIG.PERSONALIZATION.AFFINITY_MAX_ROWS) as Promise<{ data: PostLogRow[] | null; error: unknown }>,
+    (supabase as any)
+      .from('bluesky_bot_config')
+      .select('pet_id, did')
+      .eq('is_active', true) as Promise<{ data: Array<{ pet_id: string; did: string | null }> | null; error: unknown }>,
+  ])
+
+  if (interactions.error) throw new FeedQueryError('personalization', interactions.error)
+  if (mentions.error) throw new FeedQueryError('personalization', mentions.error)
+  if (bots.error) throw new FeedQueryError('personalization', bots.error)
+
+  const boostedPetIds = new Set((interactions.data ?? []).map(row => row.pet_id))
+
+  // Follows are a bonus signal: an AppView hiccup shouldn't cost the rest
+  const petByDid = new Map((bots.data ?? []).filter(b => b.did).map(b => [b.did as string, b.pet_id]))
+  try {
+    const followed = await fetchFollows(viewerDid, [...petByDid.keys()])
+    for (const did of followed) {
+      const petId = petByDid.get(did)
+      if (petId) boostedPetIds.add(petId)
+    }
+  } catch (error) {
+    console.warn(`[feed-personalization] Follows unavailable for ${viewerDid}:`, error instanceof Error ? error.message : error)
+  }
+
+  const mentionThreads = [...new Set((mentions.data ?? []).map(threadOf))]
+    .slice(0, FEED_CONFIG.PERSONALIZATION.MAX_SURFACED_THREADS)
+
+  return { boostedPetIds, surfacedPostUris: await latestThreadPosts(feed, mentionThreads) }
+}
+
+/** Root of the thread a logged post belongs to; posts without one start their own */
+function threadOf(row: PostLogRow): string {
+  return (row.metadata?.threadUri as string | undefined) ?? row.post_uri
+}
+
+/** Newest pet post in each thread (root or reply) that the feed itself would include */
+async function latestThreadPosts(feed: FeedDefinition, threadUris: string[]): Promise<string[]> {
+  if (threadUris.length === 0) return []
+
+  const inThread = (column: string) => {
+    let query = (getServiceSupabase() as any)
+      .from('bluesky_post_log')
+      .select('post_uri, created_at, pet_id, metadata')
+      .in(column, threadUris)
+      .in('activity_type', feed.filters.activityTypes)
+    if (feed.filters.petIds) query = query.in('pet_id', feed.filters.petIds)
+    return query
+      .not('post_uri', 'is', null)
+      .order('created_at', { ascending: false }) as Promise<{ data: PostLogRow[] | null; error: unknown }>
+  }
+
+  const [replies, roots] = await Promise.all([inThread('metadata->>threadUri'), inThread('post_uri')])
+  if (replies.error) throw new FeedQueryError('personalization', replies.error)
+  if (roots.error) throw new FeedQueryError('personalization', roots.error)
+
+  const rows = [...(replies.data ?? []), ...(roots.data ?? [])]
+    .sort((a, b) => b.created_at.localeCompare(a.created_at))
+  const latestByThread = new Map<string, string>()
+  for (const row of rows) {
+    const thread = threadOf(row)
+    if (!latestByThread.has(thread)) latestByThread.set(thread, row.post_uri)
+  }
+  return [...latestByThread.values()]
+}
+
+// ─── AppView Follows ────────────────────────────────
+
+const followCache = new Map<string, { followed: Set<string>; expiresAt: number }>()
+
+/** Default follow source: app.bsky.graph.getRelationships, cached per viewer */
+export const fetchAppViewFollows: FollowSource = async (viewerDid, petDids) => {
+  const cached = followCache.get(viewerDid)
+  if (cached && cached.expiresAt > Date.now()) return cached.followed
+
+  const agent = new AtpAgent({ service: FEED_CONFIG.HOT.APPVIEW_URL })
+  const followed = new Set<string>()
+  const batchSize = FEED_CONFIG.PERSONALIZATION.RELATIONSHIPS_BATCH_SIZE
+
+  for (let i = 0; i < petDids.length; i += batchSize) {
+    const response = await agent.app.bsky.graph.getRelationships({
+      actor: viewerDid,
+      others: petDids.slice(i, i + batchSize),
+    })
+    for (const relationship of response.data.relationships) {
+      if ('following' in relationship && relationship.following) followed.add(relationship.did as string)
+    }
+  }
+
+  followCache.set(viewerDid, { followed, expiresAt: Date.now() + FEED_CONFIG.PERSONALIZATION.FOLLOW_CACHE_TTL_MS })
+  return followed
+}
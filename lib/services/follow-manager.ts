@@ -0,0 +1,445 @@
+/**
+ * Follow Manager
+ *
+ * Decides who each pet follows. A run (the `follow` workflow mode)
+ * plans up to MAX_CHANGES_PER_RUN changes:
+ * - follow back humans who followed the pet recently, once their
+ *   profile passes the safety checks (labels, post count, follow-farm
+ *   ratios) and they aren't muted, blocked, excluded or abusive
+ * - follow accounts the pet has kept talking with (replies, comments,
+ *   quotes in bluesky_post_log)
+ * - follow pets it's friends with or has a crush on (pet_relationship)
+ * - unfollow accounts that turned hostile, stopped following the pet
+ *   (follow-backs), went quiet (engagement follows) or fell out with it
+ *   (relationship follows)
+ *
+ * Followers come from `follow` notifications only, stamped with when
+ * the follow happened: the poller records them (recordFollowers) and
+ * each run re-reads the recent ones. Long-standing followers fall
+ * outside the follow-back window instead of being followed back all at
+ * once. State lives in bluesky_follow; only follows made here are ever
+ * undone. Daily budgets count the follow and unfollow rows in
+ * bluesky_post_log.
+ *
+ * @module follow-manager
+ */
+
+import type { AppBskyActorDefs } from '@atproto/api'
+import { getServiceSupabase } from '@/lib/api/service-supabase'
+import { ABUSE_CONFIG } from '@/lib/config/abuse.config'
+import { BLUESKY_CONFIG } from '@/lib/config/bluesky.config'
+import { FOLLOW_CONFIG } from '@/lib/config/follow.config'
+import type { RelationshipSentiment } from '@/lib/agent/memory/relationship-memory-service'
+import type { BlueskyBotClient, PublishOptions } from '@/lib/services/bluesky-client'
+import { loadExcludedDids } from '@/lib/services/abuse-tracker'
+
+// ─── Types ──────────────────────────────────────────
+
+export type FollowReason = 'follow_back' | 'engagement' | 'relationship'
+
+export type UnfollowReason =
+  | 'hostile'
+  | 'unfollowed_pet'
+  | 'account_gone'
+  | 'stale'
+  | 'relationship_ended'
+
+export type FollowChange =
+  | {
+      action: 'follow'
+      subjectDid: string
+      subjectHandle: string | null
+      reason: FollowReason
+      /** Human-readable why, for the activity log */
+      detail: string
+    }
+  | {
+      action: 'unfollow'
+      subjectDid: string
+      subjectHandle: string | null
+      reason: UnfollowReason
+      detail: string
+      /** The pet's follow record */
+      followUri: string
+    }
+
+export interface FollowPlan {
+  /** Unfollows first, hostile ones leading; then follows */
+  changes: FollowChange[]
+  /** Followers and conversation partners that failed a safety check */
+  declined: Array<{ subjectDid: string; subjectHandle: string | null; reason: string }>
+}
+
+interface FollowRow {
+  subject_did: string
+  subject_handle: string | null
+  follows_pet_since: string | null
+  follow_uri: string | null
+  follow_reason: FollowReason | null
+}
+
+type Profile = AppBskyActorDefs.ProfileViewDetailed
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const UNFOLLOW_PRIORITY: Record<UnfollowReason, number> = {
+  hostile: 0,
+  unfollowed_pet: 1,
+  account_gone: 1,
+  relationship_ended: 2,
+  stale: 2,
+}
+
+// ─── Followers ──────────────────────────────────────
+
+/**
+ * Note accounts that followed the pet, as of their follow notification.
+ * Keeps the first one recorded, so re-reading notifications doesn't
+ * restart the follow-back window. Best-effort: failures are logged.
+ */
+export async function recordFollowers(
+  petId: string,
+  followers: Array<{ did: string; handle: string | null; followedAt: string }>
+): Promise<void> {
+  if (followers.length === 0) return
+  const supabase = getServiceSupabase()
+
+  try {
+    const { data: known, error } = await (supabase as any)
+      .from('bluesky_follow')
+      .select('subject_did, follows_pet_since')
+      .eq('pet_id', petId)
+      .in('subject_did', followers.map(f => f.did)) as {
+        data: Array<{ subject_did: string; follows_pet_since: string | null }> | null
+        error: unknown
+      }
+    if (error) throw new Error(JSON.stringify(error))
+
+    const seen = new Set((known ?? []).filter(row => row.follows_pet_since).map(row => row.subject_did))
+    const fresh = new Map(followers.filter(f => !seen.has(f.did)).map(f => [f.did, f]))
+    if (fresh.size === 0) return
+
+    const { error: upsertError } = await (supabase as any)
+      .from('bluesky_follow')
+      .upsert([...fresh.values()].map(f => ({
+        pet_id: petId,
+        subject_did: f.did,
+        subject_handle: f.handle,
+        follows_pet_since: f.followedAt,
+        updated_at: new Date().toISOString(),
+      })), { onConflict: 'pet_id,subject_did' }) as { error: unknown }
+    if (upsertError) throw new Error(JSON.stringify(upsertError))
+  } catch (error) {
+    console.warn(`[follow-manager] Failed to record followers of ${petId}:`, error instanceof Error ? error.message : error)
+  }
+}
+
+// ─── Safety ─────────────────────────────────────────
+
+/**
+ * Why a human account shouldn't be followed, or null if it's fine:
+ * a blocking moderation label, too few posts, or the follow counts of
+ * a follow-farming account.
+ */
+export function checkFollowSafety(profile: Profile): string | null {
+  const { SAFETY } = FOLLOW_CONFIG
+  const blocking = new Set<string>(SAFETY.BLOCKING_LABELS)
+  const label = profile.labels?.find(l => !l.neg && blocking.has(l.val))
+  if (label) return `labeled:${label.val}`
+  if (profile.handle === 'handle.invalid') return 'invalid_handle'
+  if ((profile.postsCount ?? 0) < SAFETY.MIN_POSTS) return 'too_few_posts'
+
+  const follows = profile.followsCount ?? 0
+  if (follows > SAFETY.MAX_FOLLOWS) return 'follows_too_many'
+  if (follows > SAFETY.MAX_FOLLOW_RATIO * Math.max(profile.followersCount ?? 0, 1)) return 'follow_ratio'
+  return null
+}
+
+// ─── Planning ───────────────────────────────────────
+
+/**
+ * Work out this run's follows and unfollows, within what's left of the
+ * pet's daily budgets. Also records followers from the pet's recent
+ * follow notifications (the notification poller doesn't run under
+ * Jetstream). Plans nothing if profiles can't be loaded: every check
+ * needs them.
+ */
+export async function planFollowChanges(
+  petId: string,
+  client: BlueskyBotClient,
+  now: Date = new Date()
+): Promise<FollowPlan> {
+  const empty: FollowPlan = { changes: [], declined: [] }
+
+  try {
+    const follows = await client.getFollowNotifications(FOLLOW_CONFIG.FOLLOW_BACK.SCAN_LIMIT)
+    await recordFollowers(petId, follows.map(n => ({ did: n.author.did, handle: n.author.handle, followedAt: n.indexedAt })))
+  } catch (error) {
+    console.warn(`[follow-manager] Failed to read follow notifications of ${petId}:`, error instanceof Error ? error.message : error)
+  }
+
+  const [rows, excluded, abusive, petDids, sentiments, conversations, used] = await Promise.all([
+    loadFollowRows(petId),
+    loadExcludedDids(petId),
+    loadAbusiveDids(petId, now),
+    loadPetDids(),
+    loadSentiments(petId),
+    loadConversations(petId, now),
+    loadChangesToday(petId, now),
+  ])
+  if (!rows) return empty
+
+  const hostile = (did: string) => {
+    if (excluded.has(did) || abusive.has(did)) return true
+    const otherPetId = petDids.get(did)
+    const sentiment = otherPetId ? sentiments.get(otherPetId) : undefined
+    return !!sentiment && FOLLOW_CONFIG.HOSTILE_SENTIMENTS.includes(sentiment)
+  }
+
+  // Follow candidates, best reason first
+  const candidates = new Map<string, { handle: string | null; reason: FollowReason; detail: string }>()
+  const propose = (did: string, handle: string | null, reason: FollowReason, detail: string) => {
+    if (candidates.has(did) || did === client.did || hostile(did)) return
+    if (rows.get(did)?.follow_uri) return
+    candidates.set(did, { handle, reason, detail })
+  }
+
+  const didByPet = new Map([...petDids].map(([did, otherPetId]) => [otherPetId, did]))
+  for (const [otherPetId, sentiment] of sentiments) {
+    const did = didByPet.get(otherPetId)
+    if (did && FOLLOW_CONFIG.FRIEND_SENTIMENTS.includes(sentiment)) propose(did, null, 'relationship', sentiment)
+  }
+
+  const followBackSince = now.getTime() - FOLLOW_CONFIG.FOLLOW_BACK.WINDOW_DAYS * DAY_MS
+  for (const row of rows.values()) {
+    if (!row.follows_pet_since || Date.parse(row.follows_pet_since) < followBackSince) continue
+    if (petDids.has(row.subject_did)) continue
+    propose(row.subject_did, row.subject_handle, 'follow_back', 'followed the pet')
+  }
+
+  for (const [did, { count }] of conversations) {
+    if (count < FOLLOW_CONFIG.ENGAGEMENT.MIN_INTERACTIONS || petDids.has(did)) continue
+    propose(did, rows.get(did)?.subject_handle ?? null, 'engagement', `${count} conversations`)
+  }
+
+  const following = [...rows.values()].filter(row => row.follow_uri)
+  let profiles: Map<string, Profile>
+  try {
+    const dids = [...new Set([...candidates.keys(), ...following.map(row => row.subject_did)])]
+    profiles = new Map((await client.getProfiles(dids)).map(profile => [profile.did, profile]))
+  } catch (error) {
+    console.warn(`[follow-manager] Failed to load profiles for ${petId}:`, error instanceof Error ? error.message : error)
+    return empty
+  }
+
+  // ── Unfollows ──
+  const staleSince = now.getTime() - FOLLOW_CONFIG.STALE_AFTER_DAYS * DAY_MS
+  const unfollows: Array<Extract<FollowChange, { action: 'unfollow' }>> = []
+  for (const row of following) {
+    const did = row.subject_did
+    const profile = profiles.get(did)
+    const otherPetId = petDids.get(did)
+    const lastTalked = conversations.get(did)?.lastAt
+    const unfollow = (reason: UnfollowReason, detail: string) => unfollows.push({
+      action: 'unfollow',
+      subjectDid: did,
+      subjectHandle: profile?.handle ?? row.subject_handle,
+      reason,
+      detail,
+      followUri: row.follow_uri as string,
+    })
+
+    if (hostile(did)) unfollow('hostile', excluded.has(did) || abusive.has(did) ? 'harassed or excluded' : `now ${sentiments.get(otherPetId!)}`)
+    else if (!profile) unfollow('account_gone', 'account not found')
+    else if (row.follow_reason === 'follow_back' && !profile.viewer?.followedBy) unfollow('unfollowed_pet', 'stopped following the pet')
+    else if (row.follow_reason === 'engagement' && (!lastTalked || Date.parse(lastTalked) < staleSince)) {
+      unfollow('stale', `no conversation in ${FOLLOW_CONFIG.STALE_AFTER_DAYS} days`)
+    } else if (row.follow_reason === 'relationship') {
+      const sentiment = otherPetId ? sentiments.get(otherPetId) : undefined
+      if (!sentiment || !FOLLOW_CONFIG.FRIEND_SENTIMENTS.includes(sentiment)) {
+        unfollow('relationship_ended', sentiment ? `now ${sentiment}` : 'no longer pets')
+      }
+    }
+  }
+  unfollows.sort((a, b) => UNFOLLOW_PRIORITY[a.reason] - UNFOLLOW_PRIORITY[b.reason])
+
+  // ── Follows ──
+  const excludedHandles = new Set<string>(BLUESKY_CONFIG.EXCLUDED_HANDLES)
+  const follows: Array<Extract<FollowChange, { action: 'follow' }>> = []
+  const declined: FollowPlan['declined'] = []
+  for (const [did, candidate] of candidates) {
+    const profile = profiles.get(did)
+    // Gone, or already followed by hand (the manager never owns those)
+    if (!profile || profile.viewer?.following) continue
+    if (candidate.reason === 'follow_back' && !profile.viewer?.followedBy) continue
+
+    if (candidate.reason !== 'relationship') {
+      const reason = excludedHandles.has(profile.handle) ? 'excluded_handle' : checkFollowSafety(profile)
+      if (reason) {
+        declined.push({ subjectDid: did, subjectHandle: profile.handle, reason })
+        continue
+      }
+    }
+    follows.push({ action: 'follow', subjectDid: did, subjectHandle: profile.handle, reason: candidate.reason, detail: candidate.detail })
+  }
+
+  const unfollowsLeft = Math.max(FOLLOW_CONFIG.MAX_UNFOLLOWS_PER_DAY - used.unfollows, 0)
+  const followsLeft = Math.max(FOLLOW_CONFIG.MAX_FOLLOWS_PER_DAY - used.follows, 0)
+  const changes: FollowChange[] = [
+    ...unfollows.slice(0, unfollowsLeft),
+    ...follows.slice(0, followsLeft),
+  ].slice(0, FOLLOW_CONFIG.MAX_CHANGES_PER_RUN)
+
+  return { changes, declined }
+}
+
+// ─── Applying ───────────────────────────────────────
+
+/**
+ * Make one planned change on Bluesky and store it. Returns the follow
+ * record URI for follows. Throws what the client throws (including
+ * RateLimitExceededError); the state write is best-effort.
+ */
+export async function applyFollowChange(
+  petId: string,
+  client: BlueskyBotClient,
+  change: FollowChange,
+  options: PublishOptions = {},
+  now: Date = new Date()
+): Promise<string | null> {
+  const supabase = getServiceSupabase()
+  const at = now.toISOString()
+
+  if (change.action === 'follow') {
+    const followUri = await client.follow(change.subjectDid, options)
+    const { error } = await (supabase as any)
+      .from('bluesky_follow')
+      .upsert({
+        pet_id: petId,
+        subject_did: change.subjectDid,
+        subject_handle: change.subjectHandle,
+        follow_uri: followUri,
+        follow_reason: change.reason,
+        followed_at: at,
+        unfollowed_at: null,
+        updated_at: at,
+      }, { onConflict: 'pet_id,subject_did' }) as { error: unknown }
+    if (error) console.warn(`[follow-manager] Failed to store follow of ${change.subjectDid} by ${petId}:`, JSON.stringify(error))
+    return followUri
+  }
+
+  await client.unfollow(change.followUri)
+  const { error } = await (supabase as any)
+    .from('bluesky_follow')
+    .update({
+      follow_uri: null,
+      follow_reason: null,
+      unfollowed_at: at,
+      updated_at: at,
+      // They left first; a new follow notification starts a new follow-back
+      ...(change.reason === 'unfollowed_pet' ? { follows_pet_since: null } : {}),
+    })
+    .eq('pet_id', petId)
+    .eq('subject_did', change.subjectDid) as { error: unknown }
+  if (error) console.warn(`[follow-manager] Failed to store unfollow of ${change.subjectDid} by ${petId}:`, JSON.stringify(error))
+  return null
+}
+
+/** Activity log line for a change */
+export function describeFollowChange(change: FollowChange): string {
+  const who = change.subjectHandle ? `@${change.subjectHandle}` : change.subjectDid
+  return change.action === 'follow'
+    ? `Followed ${who} (${change.reason}: ${change.detail})`
+    : `Unfollowed ${who} (${change.reason}: ${change.detail})`
+}
+
+// ─── Data Loading ───────────────────────────────────
+
+/** null when the state can't be read: planning without it could undo or repeat follows */
+async function loadFollowRows(petId: string): Promise<Map<string, FollowRow> | null> {
+  const { data, error } = await (getServiceSupabase() as any)
+    .from('bluesky_follow')
+    .select('subject_did, subject_handle, follows_pet_since, follow_uri, follow_reason')
+    .eq('pet_id', petId) as { data: FollowRow[] | null; error: unknown }
+  if (error) {
+    console.warn(`[follow-manager] Failed to load follow state for ${petId}:`, JSON.stringify(error))
+    return null
+  }
+  return new Map((data ?? []).map(row => [row.subject_did, row]))
+}
+
+/** Authors with harassment toward this pet on record, muted or not */
+async function loadAbusiveDids(petId: string, now: Date): Promise<Set<string>> {
+  const since = new Date(now.getTime() - ABUSE_CONFIG.WINDOW_DAYS * DAY_MS).toISOString()
+  const { data } = await (getServiceSupabase() as any)
+    .from('bluesky_abuse_event')
+    .select('author_did')
+    .eq('pet_id', petId)
+    .gte('created_at', since) as { data: Array<{ author_did: string }> | null }
+  return new Set((data ?? []).map(row => row.author_did))
+}
+
+/** Bot DID → pet ID for every active pet */
+async function loadPetDids(): Promise<Map<string, string>> {
+  const { data } = await (getServiceSupabase() as any)
+    .from('bluesky_bot_config')
+    .select('pet_id, did')
+    .eq('is_active', true) as { data: Array<{ pet_id: string; did: string | null }> | null }
+  return new Map((data ?? []).filter(row => row.did).map(row => [row.did as string, row.pet_id]))
+}
+
+/** Other pet ID → how this pet feels about it */
+async function loadSentiments(petId: string): Promise<Map<string, RelationshipSentiment>> {
+  const { data } = await (getServiceSupabase() as any)
+    .from('pet_relationship')
+    .select('pet_id_a, pet_id_b, sentiment')
+    .or(`pet_id_a.eq.${petId},pet_id_b.eq.${petId}`) as {
+      data: Array<{ pet_id_a: string; pet_id_b: string; sentiment: RelationshipSentiment }> | null
+    }
+  return new Map((data ?? []).map(row => [row.pet_id_a === petId ? row.pet_id_b : row.pet_id_a, row.sentiment]))
+}
+
+/**
+ * Conversations per account: how many in the engagement window, and the
+ * latest one within the staleness window.
+ */
+async function loadConversations(petId: string, now: Date): Promise<Map<string, { count: number; lastAt: string }>> {
+  const { ENGAGEMENT, STALE_AFTER_DAYS } = FOLLOW_CONFIG
+  const authorKeys: Record<string, string> = ENGAGEMENT.ACTIVITY_AUTHOR_KEYS
+  const since = new Date(now.getTime() - Math.max(ENGAGEMENT.WINDOW_DAYS, STALE_AFTER_DAYS) * DAY_MS).toISOString()
+  const countSince = now.getTime() - ENGAGEMENT.WINDOW_DAYS * DAY_MS
+
+  const { data } = await (getServiceSupabase() as any)
+    .from('bluesky_post_log')
+    .select('activity_type, metadata, created_at')
+    .eq('pet_id', petId)
+    .in('activity_type', Object.keys(authorKeys))
+    .gte('created_at', since) as {
+      data: Array<{ activity_type: string; metadata: Record<string, unknown> | null; created_at: string }> | null
+    }
+
+  const conversations = new Map<string, { count: number; lastAt: string }>()
+  for (const row of data ?? []) {
+    const did = row.metadata?.[authorKeys[row.activity_type]]
+    if (typeof did !== 'string' || !did) continue
+    const entry = conversations.get(did) ?? { count: 0, lastAt: row.created_at }
+    if (Date.parse(row.created_at) >= countSince) entry.count++
+    if (row.created_at > entry.lastAt) entry.lastAt = row.created_at
+    conversations.set(did, entry)
+  }
+  return conversations
+}
+
+async function loadChangesToday(petId: string, now: Date): Promise<{ follows: number; unfollows: number }> {
+  const { data } = await (getServiceSupabase() as any)
+    .from('bluesky_post_log')
+    .select('activity_type')
+    .eq('pet_id', petId)
+    .in('activity_type', ['follow', 'unfollow'])
+    .gte('created_at', new Date(now.getTime() - DAY_MS).toISOString()) as { data: Array<{ activity_type: string }> | null }
+  const rows = data ?? []
+  return {
+    follows: rows.filter(row => row.activity_type === 'follow').length,
+    unfollows: rows.filter(row => row.activity_type === 'unfollow').length,
+  }
+}
@@ -1,14 +1,15 @@
 /**
  * AI Image Generation Service
  *
- * Generates meme images for pet posts using Google Gemini.
+ * Generates meme images for pet posts via the registry's image route
+ * (Gemini native image output by default).
  * Handles prompt enhancement, generation, and error recovery.
  *
  * @module image-generator
  */
 
-import { google } from '@ai-sdk/google'
 import { generateText } from 'ai'
+import { withModelFailover, type ModelSelection } from '@/lib/services/model-registry'
 
 export interface ImageGenerationResult {
   imageBlob: Uint8Array
@@ -18,19 +19,20 @@ export interface ImageGenerationResult {
 }
 
 /**
- * Generate a meme image using Gemini's native image generation.
+ * Generate a meme image using the configured image model.
  * Falls back gracefully — returns null on any failure.
  */
 export async function generateMemeImage(params: {
   imagePrompt: string
   imageAlt: string
   petName: string
+  modelSelection?: ModelSelection
 }): Promise<ImageGenerationResult | null> {
   const startTime = Date.now()
 
   try {
-    const result = await generateText({
-      model: google('gemini-2.0-flash-exp-image-generation'),
+    const result = await withModelFailover('image', params.modelSelection, model => generateText({
+      model,
       providerOptions: {
         google: { responseModalities: ['TEXT', 'IMAGE'] },
       },
@@ -42,7 +44,7 @@ Style guidelines:
 - IMPORTANT: Do NOT include any text, words, or letters in the image
 - Cute/funny animal or creature vibes
 - Square aspect ratio preferred`,
-    })
+    }))
 
     // AI SDK v5: generated images are in result.files
     const imageFile = result.files.find(f => f.mediaType.startsWith('image/'))
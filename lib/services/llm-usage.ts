@@ -0,0 +1,217 @@
+/**
+ * LLM Usage & Budgets
+ *
+ * Every model call made through withModelFailover (posts, replies,
+ * reflections, safety, images) is recorded in llm_usage with its model,
+ * token counts, latency and estimated cost. Calls are attributed to the
+ * pet and workflow mode of the surrounding usage scope; the workflow
+ * opens one per run (withUsageScope). Calls outside a scope (feed jobs,
+ * ad-hoc scripts) count toward the global budget only.
+ *
+ * Today's spend (UTC day) is compared against the per-pet and global
+ * budgets in BUDGET_CONFIG to get a BudgetLevel. Levels shed extras in
+ * order — images, then threads, then engagement — before model calls
+ * stop altogether. Accounting is auxiliary: when it fails, calls still
+ * run and budgets read as unspent.
+ *
+ * @module llm-usage
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks'
+import { getServiceSupabase } from '@/lib/api/service-supabase'
+import { BUDGET_CONFIG, type ModelPricing } from '@/lib/config/budget.config'
+import type { ModelRoute, ModelTask } from '@/lib/config/model.config'
+
+// ─── Types ──────────────────────────────────────────
+
+/** Who model calls are billed to */
+export interface UsageScope {
+  petId: string | null
+  /** Workflow mode (proactive, reactive, ...) or another job name */
+  mode: string | null
+}
+
+/** Least to most degraded */
+export type BudgetLevel = 'full' | 'no_images' | 'no_threads' | 'no_engagement' | 'exhausted'
+
+export type BudgetFeature = 'images' | 'threads' | 'engagement'
+
+export interface BudgetStatus {
+  level: BudgetLevel
+  petSpentUsd: number
+  globalSpentUsd: number
+  petBudgetUsd: number
+  globalBudgetUsd: number
+}
+
+interface UsageRow {
+  pet_id: string | null
+  mode: string | null
+  task: ModelTask
+  provider: string
+  model: string
+  input_tokens: number
+  output_tokens: number
+  image_count: number
+  latency_ms: number
+  cost_usd: number
+  created_at: string
+}
+
+const BUDGET_LEVELS: readonly BudgetLevel[] = ['full', 'no_images', 'no_threads', 'no_engagement', 'exhausted']
+
+/** First level at which each feature is dropped */
+const FEATURE_CUTOFF: Record<BudgetFeature, BudgetLevel> = {
+  images: 'no_images',
+  threads: 'no_threads',
+  engagement: 'no_engagement',
+}
+
+// ─── Scope ──────────────────────────────────────────
+
+const scopeStorage = new AsyncLocalStorage<UsageScope>()
+
+/** Bill every model call made inside `fn` to this pet and mode */
+export function withUsageScope<T>(scope: UsageScope, fn: () => Promise<T>): Promise<T> {
+  return scopeStorage.run(scope, fn)
+}
+
+// ─── Recording ──────────────────────────────────────
+
+/**
+ * Record one model call from its AI SDK result (generateObject or
+ * generateText). Results without `usage` aren't model calls and are
+ * ignored.
+ */
+export async function recordModelUsage(params: {
+  task: ModelTask
+  route: ModelRoute
+  result: unknown
+  latencyMs: number
+}): Promise<void> {
+  const result = params.result as {
+    usage?: { inputTokens?: number; outputTokens?: number }
+    files?: Array<{ mediaType: string }>
+  } | null
+  if (!result || typeof result !== 'object' || !result.usage) return
+
+  const inputTokens = result.usage.inputTokens ?? 0
+  const outputTokens = result.usage.outputTokens ?? 0
+  const imageCount = result.files?.filter(file => file.mediaType.startsWith('image/')).length ?? 0
+  const scope = scopeStorage.getStore()
+
+  const row: UsageRow = {
+    pet_id: scope?.petId ?? null,
+    mode: scope?.mode ?? null,
+    task: params.task,
+    provider: params.route.provider,
+    model: params.route.modelId,
+    input_tokens: inputTokens,
+    output_tokens: outputTokens,
+    image_count: imageCount,
+    latency_ms: Math.round(params.latencyMs),
+    cost_usd: estimateCost(params.route, inputTokens, outputTokens, imageCount),
+    created_at: new Date().toISOString(),
+  }
+
+  try {
+    const { error } = await (getServiceSupabase() as any)
+      .from('llm_usage')
+      .insert(row) as { error: unknown }
+    if (error) throw new Error(JSON.stringify(error))
+  } catch (error) {
+    console.warn(`[llm-usage] Failed to record ${params.task} call:`, error instanceof Error ? error.message : error)
+  }
+}
+
+/** Estimated USD cost of one call, rounded to a millionth of a dollar */
+export function estimateCost(route: ModelRoute, inputTokens: number, outputTokens: number, imageCount = 0): number {
+  if (route.provider === 'mock') return 0
+  const pricing: ModelPricing = BUDGET_CONFIG.PRICING[route.modelId] ?? BUDGET_CONFIG.FALLBACK_PRICING
+  const cost = (inputTokens * pricing.inputPerMillion + outputTokens * pricing.outputPerMillion) / 1_000_000
+    + imageCount * (pricing.perImage ?? 0)
+  return Math.round(cost * 1_000_000) / 1_000_000
+}
+
+// ─── Budgets ────────────────────────────────────────
+
+export async function loadBudgetStatus(petId: string, now: Date = new Date()): Promise<BudgetStatus> {
+  return (await loadBudgetStatuses([petId], now)).get(petId)!
+}
+
+/** Budget status for each pet from one read of today's usage */
+export async function loadBudgetStatuses(
+  petIds: readonly string[],
+  now: Date = new Date()
+): Promise<Map<string, BudgetStatus>> {
+  let spend: { total: number; byPet: Map<string, number> }
+  try {
+    spend = await loadSpendSince(startOfUtcDay(now))
+  } catch (error) {
+    console.warn('[llm-usage] Failed to load today\'s spend, treating budgets as unspent:', error instanceof Error ? error.message : error)
+    spend = { total: 0, byPet: new Map() }
+  }
+
+  return new Map(petIds.map(petId => [petId, budgetStatus(spend.byPet.get(petId) ?? 0, spend.total)]))
+}
+
+export function budgetStatus(petSpentUsd: number, globalSpentUsd: number): BudgetStatus {
+  const petBudgetUsd = BUDGET_CONFIG.PET_DAILY_USD
+  const globalBudgetUsd = BUDGET_CONFIG.GLOBAL_DAILY_USD
+  const share = Math.max(petSpentUsd / petBudgetUsd, globalSpentUsd / globalBudgetUsd)
+  const { DEGRADE_AT } = BUDGET_CONFIG
+
+  const level: BudgetLevel = share >= 1 ? 'exhausted'
+    : share >= DEGRADE_AT.engagement ? 'no_engagement'
+    : share >= DEGRADE_AT.threads ? 'no_threads'
+    : share >= DEGRADE_AT.images ? 'no_images'
+    : 'full'
+
+  return { level, petSpentUsd, globalSpentUsd, petBudgetUsd, globalBudgetUsd }
+}
+
+/** Whether the budget still covers an optional feature */
+export function budgetAllows(level: BudgetLevel | undefined, feature: BudgetFeature): boolean {
+  if (!level) return true
+  return BUDGET_LEVELS.indexOf(level) < BUDGET_LEVELS.indexOf(FEATURE_CUTOFF[feature])
+}
+
+// ─── Internals ──────────────────────────────────────
+
+/** Sum cost since `since`, paging through rows by ID */
+async function loadSpendSince(since: string): Promise<{ total: number; byPet: Map<string, number> }> {
+  const supabase = getServiceSupabase()
+  const byPet = new Map<string, number>()
+  let total = 0
+  let lastId: string | null = null
+
+  for (;;) {
+    let query = (supabase as any)
+      .from('llm_usage')
+      .select('id, pet_id, cost_usd')
+      .gte('created_at', since)
+    if (lastId) query = query.gt('id', lastId)
+    const { data, error } = await query
+      .order('id', { ascending: true })
+      .limit(BUDGET_CONFIG.SUM_PAGE_SIZE) as {
+        data: Array<{ id: string; pet_id: string | null; cost_usd: number | string }> | null
+        error: unknown
+      }
+
+    if (error) throw new Error(JSON.stringify(error))
+    for (const row of data ?? []) {
+      // NUMERIC columns come back as strings
+      const cost = Number(row.cost_usd) || 0
+      total += cost
+      if (row.pet_id) byPet.set(row.pet_id, (byPet.get(row.pet_id) ?? 0) + cost)
+    }
+    if (!data || data.length < BUDGET_CONFIG.SUM_PAGE_SIZE) break
+    lastId = data[data.length - 1].id
+  }
+
+  return { total, byPet }
+}
+
+function startOfUtcDay(now: Date): string {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate())).toISOString()
+}
@@ -0,0 +1,194 @@
+/**
+ * Mock Language Model
+ *
+ * Deterministic, offline stand-in for a real LLM provider. Structured
+ * calls get an object synthesized from the requested JSON schema;
+ * text calls get a short canned string; image-task calls also return
+ * a 1x1 PNG file part. The same prompt always yields the same output.
+ *
+ * Tests and local simulations can script responses with
+ * `setMockResponder`; returning undefined falls back to synthesis.
+ *
+ * @module mock-language-model
+ */
+
+import { createHash } from 'node:crypto'
+import type { LanguageModel } from 'ai'
+import type { ModelTask } from '@/lib/config/model.config'
+
+type LanguageModelV2 = Exclude<LanguageModel, string>
+type CallOptions = Parameters<LanguageModelV2['doGenerate']>[0]
+type GenerateResult = Awaited<ReturnType<LanguageModelV2['doGenerate']>>
+
+type JsonSchema = {
+  type?: string | string[]
+  properties?: Record<string, JsonSchema>
+  items?: JsonSchema
+  enum?: unknown[]
+  const?: unknown
+  anyOf?: JsonSchema[]
+  oneOf?: JsonSchema[]
+  minimum?: number
+  maximum?: number
+  exclusiveMinimum?: number
+  exclusiveMaximum?: number
+  minLength?: number
+  maxLength?: number
+  minItems?: number
+  maxItems?: number
+}
+
+// ─── Scripted Responses ─────────────────────────────
+
+export interface MockModelRequest {
+  task: ModelTask | null
+  modelId: string
+  /** All prompt text (system + user) joined with newlines */
+  prompt: string
+  /** JSON schema for structured calls, null for plain text */
+  schema: Record<string, unknown> | null
+}
+
+/**
+ * Return an object (structured calls) or string (text calls) to
+ * override the synthesized output, or undefined to keep it.
+ */
+export type MockResponder = (request: MockModelRequest) => unknown | undefined
+
+let activeResponder: MockResponder | null = null
+
+export function setMockResponder(responder: MockResponder | null): void {
+  activeResponder = responder
+}
+
+// 1x1 transparent PNG
+const MOCK_PNG_BASE64 =
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg=='
+
+// ─── Model ──────────────────────────────────────────
+
+export class MockLanguageModel implements LanguageModelV2 {
+  readonly specificationVersion = 'v2' as const
+  readonly provider = 'mock'
+  readonly supportedUrls = {}
+
+  constructor(
+    readonly modelId: string,
+    private readonly task: ModelTask | null = null
+  ) {}
+
+  async doGenerate(options: CallOptions): Promise<GenerateResult> {
+    const prompt = flattenPrompt(options.prompt)
+    const schema = options.responseFormat?.type === 'json'
+      ? (options.responseFormat.schema as Record<string, unknown> | undefined) ?? {}
+      : null
+
+    const request: MockModelRequest = { task: this.task, modelId: this.modelId, prompt, schema }
+    const scripted = activeResponder?.(request)
+    const seed = createHash('sha256').update(`${this.modelId}\n${prompt}`).digest('hex')
+
+    let text: string
+    if (schema) {
+      const value = scripted !== undefined ? scripted : synthesizeFromSchema(schema as JsonSchema, seed, 'root')
+      text = JSON.stringify(value)
+    } else {
+      text = typeof scripted === 'string' ? scripted : `mock response ${seed.slice(0, 8)}`
+    }
+
+    const content: GenerateResult['content'] = [{ type: 'text', text }]
+    if (this.task === 'image') {
+      content.push({ type: 'file', mediaType: 'image/png', data: MOCK_PNG_BASE64 })
+    }
+
+    return {
+      content,
+      finishReason: 'stop',
+      usage: {
+        inputTokens: Math.ceil(prompt.length / 4),
+        outputTokens: Math.ceil(text.length / 4),
+        totalTokens: Math.ceil(prompt.length / 4) + Math.ceil(text.length / 4),
+      },
+      warnings: [],
+    }
+  }
+
+  async doStream(): Promise<never> {
+    throw new Error('MockLanguageModel does not support streaming')
+  }
+}
+
+// ─── Schema Synthesis ───────────────────────────────
+
+/**
+ * Build a value that satisfies a (zod-generated) JSON schema.
+ * Deterministic for a given seed; respects enums, bounds and lengths.
+ */
+export function synthesizeFromSchema(schema: JsonSchema, seed: string, path: string): unknown {
+  if (schema.const !== undefined) return schema.const
+  if (schema.enum && schema.enum.length > 0) {
+    return schema.enum[pickIndex(seed, path, schema.enum.length)]
+  }
+  const variants = schema.anyOf ?? schema.oneOf
+  if (variants && variants.length > 0) {
+    const concrete = variants.find(v => v.type !== 'null') ?? variants[0]
+    return synthesizeFromSchema(concrete, seed, path)
+  }
+
+  const type = Array.isArray(schema.type)
+    ? schema.type.find(t => t !== 'null') ?? 'null'
+    : schema.type ?? (schema.properties ? 'object' : 'string')
+
+  switch (type) {
+    case 'object': {
+      const result: Record<string, unknown> = {}
+      for (const [key, child] of Object.entries(schema.properties ?? {})) {
+        result[key] = synthesizeFromSchema(child, seed, `${path}.${key}`)
+      }
+      return result
+    }
+    case 'array': {
+      const min = schema.minItems ?? 1
+      const count = schema.maxItems !== undefined ? Math.min(Math.max(min, 1), schema.maxItems) : Math.max(min, 1)
+      return Array.from({ length: count }, (_, i) =>
+        synthesizeFromSchema(schema.items ?? {}, seed, `${path}[${i}]`)
+      )
+    }
+    case 'boolean':
+      return true
+    case 'number':
+    case 'integer': {
+      const min = schema.minimum ?? schema.exclusiveMinimum
+      const max = schema.maximum ?? schema.exclusiveMaximum
+      const value = min !== undefined && max !== undefined ? (min + max) / 2 : min ?? max ?? 0
+      return type === 'integer' ? Math.round(value) : value
+    }
+    case 'null':
+      return null
+    default: {
+      const label = path.split('.').pop()?.replace(/\[\d+\]$/, '') ?? 'value'
+      const offset = pickIndex(seed, path, 32)
+      let text = `mock ${label} ${seed.slice(offset, offset + 6)}`
+      if (schema.minLength !== undefined && text.length < schema.minLength) {
+        text = text.padEnd(schema.minLength, '.')
+      }
+      return schema.maxLength !== undefined ? text.slice(0, schema.maxLength) : text
+    }
+  }
+}
+
+function pickIndex(seed: string, path: string, length: number): number {
+  const digest = createHash('sha256').update(`${seed}:${path}`).digest()
+  return digest.readUInt32BE(0) % length
+}
+
+function flattenPrompt(prompt: CallOptions['prompt']): string {
+  return prompt
+    .map(message => {
+      if (typeof message.content === 'string') return message.content
+      return message.content
+        .map(part => (part.type === 'text' ? part.text : ''))
+        .filter(Boolean)
+        .join('\n')
+    })
+    .join('\n')
+}
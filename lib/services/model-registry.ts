@@ -0,0 +1,194 @@
+/**
+ * Model Registry
+ *
+ * Resolves which provider/model serves each AI task (post, reply,
+ * reflection, safety, image) and runs calls with failover across the
+ * resolved chain. Selection precedence, highest first:
+ *
+ * 1. Per-pet task override   (bluesky_bot_config.model_config.tasks)
+ * 2. Per-pet provider        (bluesky_bot_config.model_config.provider)
+ * 3. Env task override       (LLM_MODEL_<TASK>=provider:modelId)
+ * 4. Env global provider     (LLM_PROVIDER)
+ * 5. MODEL_CONFIG.TASK_ROUTES defaults
+ *
+ * With LLM_PROVIDER=mock every call is served offline by
+ * MockLanguageModel — no API keys needed.
+ *
+ * Every successful call is recorded in llm_usage (see llm-usage).
+ *
+ * @module model-registry
+ */
+
+import { z } from 'zod'
+import type { LanguageModel } from 'ai'
+import { openai } from '@ai-sdk/openai'
+import { google } from '@ai-sdk/google'
+import {
+  MODEL_CONFIG,
+  MODEL_PROVIDERS,
+  type ModelProviderName,
+  type ModelRoute,
+  type ModelTask,
+} from '@/lib/config/model.config'
+import { MockLanguageModel } from './mock-language-model'
+import { recordModelUsage } from './llm-usage'
+
+// ─── Per-Pet Selection ──────────────────────────────
+
+const ProviderNameSchema = z.enum(MODEL_PROVIDERS as [ModelProviderName, ...ModelProviderName[]])
+
+const ModelRouteSchema = z.object({
+  provider: ProviderNameSchema,
+  modelId: z.string().min(1).optional(),
+})
+
+export const ModelSelectionSchema = z.object({
+  provider: ProviderNameSchema.optional(),
+  tasks: z.object({
+    post: ModelRouteSchema.optional(),
+    reply: ModelRouteSchema.optional(),
+    reflection: ModelRouteSchema.optional(),
+    safety: ModelRouteSchema.optional(),
+    image: ModelRouteSchema.optional(),
+  }).optional(),
+})
+
+/** Shape of bluesky_bot_config.model_config */
+export type ModelSelection = z.infer<typeof ModelSelectionSchema>
+
+/**
+ * Parse a stored model_config value. Invalid or empty config means
+ * "use global defaults" rather than failing the workflow.
+ */
+export function parseModelSelection(raw: unknown): ModelSelection | undefined {
+  if (raw === null || raw === undefined) return undefined
+  const parsed = ModelSelectionSchema.safeParse(raw)
+  return parsed.success ? parsed.data : undefined
+}
+
+// ─── Route Resolution ───────────────────────────────
+
+/** Providers that can return image files from generateText */
+const IMAGE_CAPABLE_PROVIDERS: ReadonlySet<ModelProviderName> = new Set(['google', 'mock'])
+
+/**
+ * Resolve the ordered, de-duplicated route chain for a task.
+ * The first route is the primary; the rest are failover targets.
+ */
+export function resolveModelRoutes(
+  task: ModelTask,
+  selection?: ModelSelection,
+  env: NodeJS.ProcessEnv = process.env
+): ModelRoute[] {
+  const defaults = MODEL_CONFIG.TASK_ROUTES[task]
+  let chain: ModelRoute[] = [...defaults]
+
+  const globalProvider = parseProviderName(env.LLM_PROVIDER)
+  if (globalProvider) chain = applyProvider(task, globalProvider, chain)
+
+  const envRoute = parseRouteString(env[`LLM_MODEL_${task.toUpperCase()}`])
+  if (envRoute) chain = [envRoute, ...chain]
+
+  if (selection?.provider) chain = applyProvider(task, selection.provider, chain)
+
+  const petRoute = selection?.tasks?.[task]
+  if (petRoute) {
+    const modelId = petRoute.modelId ?? MODEL_CONFIG.PROVIDER_DEFAULT_MODELS[petRoute.provider][task]
+    if (modelId) chain = [{ provider: petRoute.provider, modelId }, ...chain]
+  }
+
+  // Mock never fails over to a real provider: offline runs stay offline
+  if (chain[0]?.provider === 'mock') chain = chain.filter(route => route.provider === 'mock')
+
+  const seen = new Set<string>()
+  return chain.filter(route => {
+    const key = `${route.provider}:${route.modelId}`
+    if (seen.has(key)) return false
+    seen.add(key)
+    return true
+  })
+}
+
+/**
+ * Put the provider's default model for this task at the head of the chain.
+ * Providers that can't serve the task (e.g. OpenAI for images) are ignored.
+ */
+function applyProvider(task: ModelTask, provider: ModelProviderName, chain: ModelRoute[]): ModelRoute[] {
+  if (task === 'image' && !IMAGE_CAPABLE_PROVIDERS.has(provider)) return chain
+  const modelId = MODEL_CONFIG.PROVIDER_DEFAULT_MODELS[provider][task]
+  if (!modelId) return chain
+  return [{ provider, modelId }, ...chain]
+}
+
+function parseProviderName(value: string | undefined): ModelProviderName | null {
+  const parsed = ProviderNameSchema.safeParse(value?.trim().toLowerCase())
+  return parsed.success ? parsed.data : null
+}
+
+/** Parse "provider:modelId" (e.g. "google:gemini-2.0-flash-001") */
+function parseRouteString(value: string | undefined): ModelRoute | null {
+  if (!value) return null
+  const separator = value.indexOf(':')
+  if (separator <= 0) return null
+  const provider = parseProviderName(value.slice(0, separator))
+  const modelId = value.slice(separator + 1).trim()
+  return provider && modelId ? { provider, modelId } : null
+}
+
+// ─── Model Instantiation ────────────────────────────
+
+export function createLanguageModel(route: ModelRoute, task: ModelTask): LanguageModel {
+  switch (route.provider) {
+    case 'openai':
+      return openai(route.modelId)
+    case 'google':
+      return google(route.modelId)
+    case 'mock':
+      return new MockLanguageModel(route.modelId, task)
+  }
+}
+
+// ─── Failover ───────────────────────────────────────
+
+export class ModelFailoverError extends Error {
+  constructor(
+    public readonly task: ModelTask,
+    public readonly attempts: ReadonlyArray<{ route: ModelRoute; error: string }>
+  ) {
+    super(
+      `All models failed for task "${task}": ` +
+      attempts.map(a => `${a.route.provider}:${a.route.modelId} (${a.error})`).join('; ')
+    )
+    this.name = 'ModelFailoverError'
+  }
+}
+
+/**
+ * Run an AI call against each route in the task's chain until one succeeds.
+ *
+ * @example
+ * const { object } = await withModelFailover('post', selection, model =>
+ *   generateObject({ model, schema, prompt })
+ * )
+ */
+export async function withModelFailover<T>(
+  task: ModelTask,
+  selection: ModelSelection | undefined,
+  call: (model: LanguageModel, route: ModelRoute) => Promise<T>
+): Promise<T> {
+  const routes = resolveModelRoutes(task, selection)
+  const attempts: Array<{ route: ModelRoute; error: string }> = []
+
+  for (const route of routes) {
+    try {
+      const startedAt = Date.now()
+      const result = await call(createLanguageModel(route, task), route)
+      await recordModelUsage({ task, route, result, latencyMs: Date.now() - startedAt })
+      return result
+    } catch (error) {
+      attempts.push({ route, error: error instanceof Error ? error.message : String(error) })
+    }
+  }
+
+  throw new ModelFailoverError(task, attempts)
+}
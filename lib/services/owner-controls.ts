@@ -0,0 +1,413 @@
+/**
+ * Owner Controls
+ *
+ * Lets a pet's owner steer its Bluesky bot (pet_owner_control):
+ * - topic nudges: extra topics merged into postingConfig.topicAffinity
+ *   until they expire
+ * - a one-off suggestion ("say something about X") the next proactive
+ *   post works in, cleared once a post has used it
+ * - blocked topics: merged into the memory avoidList in prompts and
+ *   dropped from topicAffinity
+ * - a pause: the cron skips the pet and the workflow exits early until
+ *   paused_until
+ *
+ * Owner input that adds something for the pet to talk about goes through
+ * the content-safety classifier; blocking or removing a topic doesn't.
+ * Requests are rate-limited per owner across all of their pets. Each
+ * request, accepted or not, lands in pet_owner_control_log. Callers
+ * authorize the owner first (see pet-owner-auth).
+ *
+ * Writes are optimistic like bot memory: the row carries a revision, a
+ * save only lands on the revision it read, and a lost race re-applies
+ * the request to the fresh row.
+ *
+ * @module owner-controls
+ */
+
+import { getServiceSupabase } from '@/lib/api/service-supabase'
+import { OWNER_CONTROLS_CONFIG } from '@/lib/config/owner-controls.config'
+import { classifyContent, describeVerdict, safetyBlockReason } from '@/lib/workflows/modules/content-safety'
+import type { BotMemory } from '@/lib/agent/types/bot-memory'
+
+// ─── Types ──────────────────────────────────────────
+
+export interface TopicNudge {
+  topic: string
+  createdAt: string
+  expiresAt: string
+}
+
+export interface OwnerSuggestion {
+  text: string
+  createdAt: string
+  expiresAt: string
+}
+
+/** A pet's owner controls as of a point in time (expired entries dropped) */
+export interface OwnerControls {
+  topicNudges: TopicNudge[]
+  suggestion: OwnerSuggestion | null
+  blockedTopics: string[]
+  /** null when the pet isn't paused */
+  pausedUntil: string | null
+}
+
+export type OwnerControlAction =
+  | { action: 'nudge'; topic: string; hours?: number }
+  | { action: 'remove_nudge'; topic: string }
+  | { action: 'suggest'; text: string }
+  | { action: 'clear_suggestion' }
+  | { action: 'block_topic'; topic: string }
+  | { action: 'unblock_topic'; topic: string }
+  | { action: 'pause'; until: string }
+  | { action: 'resume' }
+
+export const OWNER_CONTROL_ACTIONS: ReadonlyArray<OwnerControlAction['action']> = [
+  'nudge', 'remove_nudge', 'suggest', 'clear_suggestion', 'block_topic', 'unblock_topic', 'pause', 'resume',
+]
+
+interface OwnerControlRow {
+  pet_id: string
+  topic_nudges: TopicNudge[] | null
+  suggestion: OwnerSuggestion | null
+  blocked_topics: string[] | null
+  paused_until: string | null
+  revision: number | null
+}
+
+/** Malformed owner input (400) */
+export class OwnerControlInputError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'OwnerControlInputError'
+  }
+}
+
+/** Owner input the safety filters turned down (422) */
+export class OwnerControlRejectedError extends Error {
+  constructor(message: string, readonly reason: string) {
+    super(message)
+    this.name = 'OwnerControlRejectedError'
+  }
+}
+
+/** Too many control requests from one owner (429) */
+export class OwnerRateLimitError extends Error {
+  constructor(message: string, readonly retryAfterSeconds: number) {
+    super(message)
+    this.name = 'OwnerRateLimitError'
+  }
+}
+
+/** Other requests kept changing the controls while saving (409) */
+export class OwnerControlConflictError extends Error {
+  constructor(readonly petId: string) {
+    super(`Controls for ${petId} changed while saving; try again`)
+    this.name = 'OwnerControlConflictError'
+  }
+}
+
+const EMPTY_OWNER_CONTROLS: OwnerControls = {
+  topicNudges: [],
+  suggestion: null,
+  blockedTopics: [],
+  pausedUntil: null,
+}
+
+const HOUR_MS = 60 * 60 * 1000
+
+const MAX_SAVE_ATTEMPTS = 4
+
+/** Postgres unique_violation: someone else created the row first */
+const UNIQUE_VIOLATION = '23505'
+
+// ─── Reads ──────────────────────────────────────────
+
+export async function loadOwnerControls(petId: string, now: Date = new Date()): Promise<OwnerControls> {
+  return activeControls(await loadControlRow(petId), now)
+}
+
+/** Pets paused right now, for the cron to leave alone */
+export async function loadPausedPetIds(now: Date = new Date()): Promise<Set<string>> {
+  const { data, error } = await (getServiceSupabase() as any)
+    .from('pet_owner_control')
+    .select('pet_id')
+    .gt('paused_until', now.toISOString()) as { data: Array<{ pet_id: string }> | null; error: unknown }
+
+  if (error) throw new Error(`Failed to load paused pets: ${JSON.stringify(error)}`)
+  return new Set((data ?? []).map(row => row.pet_id))
+}
+
+// ─── Owner Actions ──────────────────────────────────
+
+/**
+ * Apply one owner request to a pet's controls. Throws
+ * OwnerRateLimitError, OwnerControlInputError, OwnerControlRejectedError
+ * or OwnerControlConflictError; returns the controls after the change.
+ */
+export async function applyOwnerControl(
+  userId: string,
+  petId: string,
+  request: OwnerControlAction,
+  now: Date = new Date()
+): Promise<OwnerControls> {
+  await checkRateLimit(userId, now)
+
+  try {
+    await screenOwnerInput(request)
+    for (let attempt = 1; ; attempt++) {
+      const row = await loadControlRow(petId)
+      const next = nextControls(activeControls(row, now), request, now)
+      if (await writeIfRevision(petId, next, row?.revision ?? 0, userId, now)) {
+        await logControlRequest(userId, petId, request.action, true, null, now)
+        return next
+      }
+      if (attempt >= MAX_SAVE_ATTEMPTS) throw new OwnerControlConflictError(petId)
+    }
+  } catch (error) {
+    if (error instanceof OwnerControlInputError || error instanceof OwnerControlRejectedError) {
+      const reason = error instanceof OwnerControlRejectedError ? error.reason : error.message
+      await logControlRequest(userId, petId, request.action, false, reason, now)
+    }
+    throw error
+  }
+}
+
+/**
+ * Clear the suggestion a post just used. Leaves a newer suggestion the
+ * owner sent in the meantime alone. Best-effort: a failure means the
+ * suggestion stays until it expires.
+ */
+export async function consumeOwnerSuggestion(petId: string, suggestion: OwnerSuggestion): Promise<void> {
+  try {
+    const row = await loadControlRow(petId)
+    if (row?.suggestion?.createdAt !== suggestion.createdAt) return
+
+    // On the revision just read, so a concurrent owner change isn't undone
+    const revision = row.revision ?? 0
+    const { error } = await (getServiceSupabase() as any)
+      .from('pet_owner_control')
+      .update({ suggestion: null, revision: revision + 1, updated_at: new Date().toISOString() })
+      .eq('pet_id', petId)
+      .eq('revision', revision) as { error: unknown }
+    if (error) throw new Error(JSON.stringify(error))
+  } catch (error) {
+    console.warn(`[owner-controls] Failed to clear suggestion for ${petId}:`, error instanceof Error ? error.message : error)
+  }
+}
+
+// ─── Prompt Merging ─────────────────────────────────
+
+/** Topic affinity with active nudges first and blocked topics removed */
+export function applyOwnerTopics(topicAffinity: readonly string[], controls: OwnerControls): string[] {
+  const blocked = new Set(controls.blockedTopics.map(normalizeTopic))
+  const merged: string[] = []
+  const seen = new Set<string>()
+  for (const topic of [...controls.topicNudges.map(n => n.topic), ...topicAffinity]) {
+    const key = normalizeTopic(topic)
+    if (blocked.has(key) || seen.has(key)) continue
+    seen.add(key)
+    merged.push(topic)
+  }
+  return merged
+}
+
+/**
+ * Memory as prompts should see it: blocked topics added to the avoid
+ * list. Prompt-only — never save the result, or unblocking a topic
+ * would leave it behind in memory.
+ */
+export function applyBlockedTopics(memory: BotMemory, controls: OwnerControls): BotMemory {
+  if (controls.blockedTopics.length === 0) return memory
+  const existing = new Set(memory.avoidList.map(normalizeTopic))
+  const added = controls.blockedTopics.filter(topic => !existing.has(normalizeTopic(topic)))
+  return { ...memory, avoidList: [...memory.avoidList, ...added] }
+}
+
+// ─── Internals ──────────────────────────────────────
+
+async function loadControlRow(petId: string): Promise<OwnerControlRow | null> {
+  const { data, error } = await (getServiceSupabase() as any)
+    .from('pet_owner_control')
+    .select('pet_id, topic_nudges, suggestion, blocked_topics, paused_until, revision')
+    .eq('pet_id', petId)
+    .maybeSingle() as { data: OwnerControlRow | null; error: unknown }
+
+  if (error) throw new Error(`Failed to load owner controls for ${petId}: ${JSON.stringify(error)}`)
+  return data
+}
+
+/** Compare-and-set on pet_owner_control.revision; false when another request saved first */
+async function writeIfRevision(
+  petId: string,
+  controls: OwnerControls,
+  expected: number,
+  userId: string,
+  now: Date
+): Promise<boolean> {
+  const supabase = getServiceSupabase() as any
+  const fields = {
+    topic_nudges: controls.topicNudges,
+    suggestion: controls.suggestion,
+    blocked_topics: controls.blockedTopics,
+    paused_until: controls.pausedUntil,
+    revision: expected + 1,
+    updated_by: userId,
+    updated_at: now.toISOString(),
+  }
+
+  const { data, error } = await supabase
+    .from('pet_owner_control')
+    .update(fields)
+    .eq('pet_id', petId)
+    .eq('revision', expected)
+    .select('pet_id') as { data: Array<{ pet_id: string }> | null; error: unknown }
+
+  if (error) throw new Error(`Failed to save owner controls for ${petId}: ${JSON.stringify(error)}`)
+  if (data && data.length > 0) return true
+  if (expected !== 0) return false
+
+  // No row yet: the first request creates it
+  const { error: insertError } = await supabase
+    .from('pet_owner_control')
+    .insert({ pet_id: petId, ...fields }) as { error: { code?: string } | null }
+
+  if (insertError?.code === UNIQUE_VIOLATION) return false
+  if (insertError) throw new Error(`Failed to save owner controls for ${petId}: ${JSON.stringify(insertError)}`)
+  return true
+}
+
+function activeControls(row: OwnerControlRow | null, now: Date): OwnerControls {
+  if (!row) return EMPTY_OWNER_CONTROLS
+  const nowIso = now.toISOString()
+  return {
+    topicNudges: (row.topic_nudges ?? []).filter(nudge => nudge.expiresAt > nowIso),
+    suggestion: row.suggestion && row.suggestion.expiresAt > nowIso ? row.suggestion : null,
+    blockedTopics: row.blocked_topics ?? [],
+    pausedUntil: row.paused_until && new Date(row.paused_until) > now ? row.paused_until : null,
+  }
+}
+
+function nextControls(current: OwnerControls, request: OwnerControlAction, now: Date): OwnerControls {
+  const config = OWNER_CONTROLS_CONFIG
+  const at = (hours: number) => new Date(now.getTime() + hours * HOUR_MS).toISOString()
+
+  switch (request.action) {
+    case 'nudge': {
+      const topic = request.topic.trim()
+      const hours = Math.min(Math.max(request.hours ?? config.NUDGES.DEFAULT_HOURS, 1), config.NUDGES.MAX_HOURS)
+      const others = current.topicNudges.filter(n => normalizeTopic(n.topic) !== normalizeTopic(topic))
+      const nudges = [...others, { topic, createdAt: now.toISOString(), expiresAt: at(hours) }]
+      return { ...current, topicNudges: nudges.slice(-config.NUDGES.MAX_ACTIVE) }
+    }
+    case 'remove_nudge':
+      return {
+        ...current,
+        topicNudges: current.topicNudges.filter(n => normalizeTopic(n.topic) !== normalizeTopic(request.topic)),
+      }
+    case 'suggest':
+      return {
+        ...current,
+        suggestion: { text: request.text.trim(), createdAt: now.toISOString(), expiresAt: at(config.SUGGESTION_TTL_HOURS) },
+      }
+    case 'clear_suggestion':
+      return { ...current, suggestion: null }
+    case 'block_topic': {
+      const topic = request.topic.trim()
+      if (current.blockedTopics.some(t => normalizeTopic(t) === normalizeTopic(topic))) return current
+      if (current.blockedTopics.length >= config.MAX_BLOCKED_TOPICS) {
+        throw new OwnerControlInputError(`At most ${config.MAX_BLOCKED_TOPICS} blocked topics; unblock one first`)
+      }
+      return { ...current, blockedTopics: [...current.blockedTopics, topic] }
+    }
+    case 'unblock_topic':
+      return {
+        ...current,
+        blockedTopics: current.blockedTopics.filter(t => normalizeTopic(t) !== normalizeTopic(request.topic)),
+      }
+    case 'pause': {
+      const until = new Date(request.until)
+      if (Number.isNaN(until.getTime()) || until <= now) {
+        throw new OwnerControlInputError('until must be a timestamp in the future')
+      }
+      if (until.getTime() - now.getTime() > config.MAX_PAUSE_DAYS * 24 * HOUR_MS) {
+        throw new OwnerControlInputError(`Pauses last at most ${config.MAX_PAUSE_DAYS} days`)
+      }
+      return { ...current, pausedUntil: until.toISOString() }
+    }
+    case 'resume':
+      return { ...current, pausedUntil: null }
+  }
+}
+
+/** Shape and length checks, then the safety classifier for text the pet may post about */
+async function screenOwnerInput(request: OwnerControlAction): Promise<void> {
+  if (request.action === 'nudge' && request.hours !== undefined && !Number.isFinite(request.hours)) {
+    throw new OwnerControlInputError('hours must be a number')
+  }
+
+  const text = 'topic' in request ? request.topic : 'text' in request ? request.text : null
+  if (text === null) return
+
+  const maxLength = request.action === 'suggest'
+    ? OWNER_CONTROLS_CONFIG.MAX_SUGGESTION_LENGTH
+    : OWNER_CONTROLS_CONFIG.MAX_TOPIC_LENGTH
+  if (typeof text !== 'string' || !text.trim()) {
+    throw new OwnerControlInputError(`${request.action} needs a non-empty ${request.action === 'suggest' ? 'text' : 'topic'}`)
+  }
+  if (text.trim().length > maxLength) {
+    throw new OwnerControlInputError(`${request.action} text is longer than ${maxLength} characters`)
+  }
+
+  // Blocking keeps the pet away from a topic, so unsafe topics are exactly
+  // what owners block; removals only touch what the owner already has
+  if (request.action === 'block_topic' || request.action === 'remove_nudge' || request.action === 'unblock_topic') return
+
+  const verdict = await classifyContent(text)
+  if (!verdict.allowed) {
+    throw new OwnerControlRejectedError(
+      `Rejected: looks like ${describeVerdict(verdict)}`,
+      safetyBlockReason(verdict, `owner_${request.action}`)
+    )
+  }
+}
+
+async function checkRateLimit(userId: string, now: Date): Promise<void> {
+  const { WINDOW_MINUTES, MAX_REQUESTS } = OWNER_CONTROLS_CONFIG.RATE_LIMIT
+  const windowStart = new Date(now.getTime() - WINDOW_MINUTES * 60 * 1000)
+
+  const { data, error } = await (getServiceSupabase() as any)
+    .from('pet_owner_control_log')
+    .select('created_at')
+    .eq('user_id', userId)
+    .gt('created_at', windowStart.toISOString())
+    .order('created_at', { ascending: true })
+    .limit(MAX_REQUESTS) as { data: Array<{ created_at: string }> | null; error: unknown }
+
+  if (error) throw new Error(`Failed to check owner rate limit: ${JSON.stringify(error)}`)
+  if ((data?.length ?? 0) < MAX_REQUESTS) return
+
+  // Free again once the oldest request in the window ages out
+  const oldest = new Date(data![0].created_at).getTime()
+  const retryAfterSeconds = Math.max(1, Math.ceil((oldest + WINDOW_MINUTES * 60 * 1000 - now.getTime()) / 1000))
+  throw new OwnerRateLimitError(`Too many control requests; try again in ${retryAfterSeconds}s`, retryAfterSeconds)
+}
+
+async function logControlRequest(
+  userId: string,
+  petId: string,
+  action: string,
+  accepted: boolean,
+  reason: string | null,
+  now: Date
+): Promise<void> {
+  const { error } = await (getServiceSupabase() as any)
+    .from('pet_owner_control_log')
+    .insert({ user_id: userId, pet_id: petId, action, accepted, reason, created_at: now.toISOString() }) as { error: unknown }
+
+  if (error) console.warn(`[owner-controls] Failed to log ${action} for ${petId}:`, JSON.stringify(error))
+}
+
+function normalizeTopic(topic: string): string {
+  return topic.trim().toLowerCase()
+}
@@ -0,0 +1,148 @@
+/**
+ * Pet Timeline
+ *
+ * Read models behind the owner-facing pet endpoints the iOS app uses to
+ * show how a pet is feeling and who it is feuding with:
+ * - current mood (snapshot + replayed mood event log) with its label
+ * - mood time series sampled from the mood event log
+ * - relationships from pet_relationship with the other pet's name
+ * - recent reflections from bot memory
+ *
+ * Callers authorize the owner first (see pet-owner-auth); everything
+ * here is scoped to the one pet ID it is given.
+ *
+ * @module pet-timeline
+ */
+
+import { getServiceSupabase } from '@/lib/api/service-supabase'
+import { MOOD_CONFIG } from '@/lib/config/mood.config'
+import { buildPersonalityFromRow } from '@/lib/agent/pet-personality-builder'
+import { loadBotMemory } from '@/lib/agent/memory/bot-memory-service'
+import {
+  loadAllRelationships,
+  SENTIMENT_LABELS,
+  type RelationshipSentiment,
+} from '@/lib/agent/memory/relationship-memory-service'
+import { deriveEmotion, getDefaultMood, type MoodEventType, type MoodState } from '@/lib/agent/mood/emotion-engine'
+import { resolveCurrentMood, sampleMoodHistory, type MoodSample } from '@/lib/agent/mood/mood-event-log'
+import type { ReflectionInsight } from '@/lib/agent/types/bot-memory'
+
+// ─── Types ──────────────────────────────────────────
+
+export interface PetMood extends MoodState {
+  /** deriveEmotion label for the PAD values */
+  emotion: string
+}
+
+export interface MoodHistory {
+  from: string
+  to: string
+  stepHours: number
+  samples: MoodSample[]
+  /** Events inside the window, oldest first */
+  events: Array<{ type: MoodEventType; at: string }>
+}
+
+export interface PetRelationshipView {
+  petId: string
+  petName: string | null
+  sentiment: RelationshipSentiment
+  sentimentLabel: string
+  sentimentScore: number
+  interactionCount: number
+  lastInteractionType: string | null
+  lastInteractionAt: string | null
+}
+
+const HOUR_MS = 60 * 60 * 1000
+
+// ─── Mood ───────────────────────────────────────────
+
+export async function getPetMood(petId: string, now: Date = new Date()): Promise<PetMood> {
+  const [personalityType, memory] = await Promise.all([loadPersonalityType(petId), loadBotMemory(petId)])
+  const mood = await resolveCurrentMood(petId, personalityType, memory.moodState, now)
+  return { ...mood, emotion: deriveEmotion(mood) }
+}
+
+export async function getMoodHistory(
+  petId: string,
+  options: { days?: number; stepHours?: number; now?: Date } = {}
+): Promise<MoodHistory> {
+  const config = MOOD_CONFIG.HISTORY
+  const days = Math.min(Math.max(options.days ?? config.DEFAULT_DAYS, 1), config.MAX_DAYS)
+  const stepHours = Math.min(Math.max(Math.round(options.stepHours ?? config.DEFAULT_STEP_HOURS), 1), 24)
+  const to = options.now ?? new Date()
+  const from = new Date(to.getTime() - days * 24 * HOUR_MS)
+  const warmupFrom = new Date(from.getTime() - config.WARMUP_HOURS * HOUR_MS)
+
+  const personalityType = await loadPersonalityType(petId)
+  const { data, error } = await (getServiceSupabase() as any)
+    .from('pet_mood_event')
+    .select('event_type, occurred_at')
+    .eq('pet_id', petId)
+    .gte('occurred_at', warmupFrom.toISOString())
+    .lte('occurred_at', to.toISOString())
+    .order('occurred_at', { ascending: true })
+    .limit(config.MAX_EVENTS) as { data: Array<{ event_type: MoodEventType; occurred_at: string }> | null; error: unknown }
+
+  if (error) throw new Error(`Failed to load mood events for ${petId}: ${JSON.stringify(error)}`)
+
+  const events = (data ?? []).map(row => ({ type: row.event_type, timestamp: row.occurred_at }))
+  return {
+    from: from.toISOString(),
+    to: to.toISOString(),
+    stepHours,
+    samples: sampleMoodHistory(getDefaultMood(personalityType), events, { from, to, stepHours }),
+    events: events
+      .filter(event => event.timestamp >= from.toISOString())
+      .map(event => ({ type: event.type, at: event.timestamp })),
+  }
+}
+
+// ─── Relationships ──────────────────────────────────
+
+/** Relationships with the most interactions first */
+export async function getPetRelationships(petId: string): Promise<PetRelationshipView[]> {
+  const relationships = await loadAllRelationships(petId)
+  const otherIds = relationships.map(r => (r.petIdA === petId ? r.petIdB : r.petIdA))
+  if (otherIds.length === 0) return []
+
+  const { data: pets } = await (getServiceSupabase() as any)
+    .from('pet')
+    .select('id, name')
+    .in('id', otherIds) as { data: Array<{ id: string; name: string }> | null }
+  const names = new Map(pets?.map(p => [p.id, p.name]) ?? [])
+
+  return relationships.map((r, i) => ({
+    petId: otherIds[i],
+    petName: names.get(otherIds[i]) ?? null,
+    sentiment: r.sentiment,
+    sentimentLabel: SENTIMENT_LABELS[r.sentiment] ?? r.sentiment,
+    sentimentScore: r.sentimentScore,
+    interactionCount: r.interactionCount,
+    lastInteractionType: r.lastInteractionType ?? null,
+    lastInteractionAt: r.lastInteractionAt ?? null,
+  }))
+}
+
+// ─── Reflections ────────────────────────────────────
+
+/** Most recent reflections first */
+export async function getPetReflections(petId: string, limit = 10): Promise<ReflectionInsight[]> {
+  const memory = await loadBotMemory(petId)
+  return [...(memory.reflections ?? [])]
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    .slice(0, limit)
+}
+
+// ─── Helpers ────────────────────────────────────────
+
+async function loadPersonalityType(petId: string): Promise<string> {
+  const { data } = await (getServiceSupabase() as any)
+    .from('pet')
+    .select('meme')
+    .eq('id', petId)
+    .maybeSingle() as { data: { meme: Record<string, unknown> | null } | null }
+
+  return buildPersonalityFromRow({ personality_type: null, psyche: null, meme: data?.meme ?? null }).personalityType
+}
@@ -0,0 +1,278 @@
+/**
+ * Post Metrics Collector
+ *
+ * Background job that measures how pet posts did. Each run:
+ * 1. Loads every published pet post from the last COLLECT.WINDOW_DAYS
+ * 2. Fetches like/reply/repost/quote counts from the public AppView
+ * 3. Appends a snapshot per post to bluesky_post_metric and keeps the
+ *    newest one per post in bluesky_post_metric_latest
+ * 4. Scores proactive posts old enough to have settled by their latest
+ *    snapshot and attributes the reward to topic tag, intent type,
+ *    image, time of day and thread vs. single post
+ * 5. Rewrites every pet's bandit arms in bluesky_content_arm
+ * 6. Deletes snapshots older than COLLECT.RETENTION_DAYS
+ *
+ * The proactive workflow reads the arms back (see content-bandit).
+ *
+ * @module post-metrics
+ */
+
+import { getServiceSupabase } from '@/lib/api/service-supabase'
+import { PERFORMANCE_CONFIG } from '@/lib/config/performance.config'
+import { normalizeTopic } from '@/lib/agent/memory/running-themes'
+import { computeContentArms, type ContentAttribute } from '@/lib/agent/content-bandit'
+import { fetchAppViewCounts, type PostCounts, type PostCountsSource } from './feed-engagement'
+
+// ─── Types ──────────────────────────────────────────
+
+export interface MetricsCollectionResult {
+  postsSnapshotted: number
+  countsFetched: number
+  petsLearned: number
+  errors: string[]
+}
+
+interface PostLogRow {
+  post_uri: string
+  pet_id: string
+  activity_type: string
+  created_at: string
+  metadata: Record<string, unknown> | null
+}
+
+interface MetricRow {
+  post_uri: string
+  like_count: number
+  reply_count: number
+  repost_count: number
+  quote_count: number
+  collected_at: string
+}
+
+/** PostgREST `in` filters travel in the URL; keep them short */
+const URI_CHUNK = 200
+
+// ─── Attribution ────────────────────────────────────
+
+export function engagementReward(counts: PostCounts): number {
+  const w = PERFORMANCE_CONFIG.REWARD_WEIGHTS
+  return counts.likeCount * w.LIKE
+    + counts.repostCount * w.REPOST
+    + counts.replyCount * w.REPLY
+    + counts.quoteCount * w.QUOTE
+}
+
+/** UTC time-of-day bucket a post went out in */
+export function timeOfDay(date: Date): string {
+  const hour = date.getUTCHours()
+  return PERFORMANCE_CONFIG.TIME_OF_DAY.reduce<string>(
+    (bucket, entry) => hour >= entry.fromHour ? entry.bucket : bucket,
+    PERFORMANCE_CONFIG.TIME_OF_DAY[0].bucket
+  )
+}
+
+/** What a proactive post was, from its bluesky_post_log row */
+export function attributePost(row: Pick<PostLogRow, 'activity_type' | 'created_at' | 'metadata'>): ContentAttribute[] {
+  const metadata = row.metadata ?? {}
+  const attributes: ContentAttribute[] = [
+    { dimension: 'format', arm: row.activity_type === 'proactive_thread' ? 'thread' : 'single' },
+    { dimension: 'image', arm: metadata.hasImage === true ? 'image' : 'text' },
+    { dimension: 'time_of_day', arm: timeOfDay(new Date(row.created_at)) },
+  ]
+
+  const topic = typeof metadata.topicTag === 'string' ? normalizeTopic(metadata.topicTag) : ''
+  if (topic) attributes.push({ dimension: 'topic', arm: topic })
+  if (typeof metadata.intentType === 'string' && metadata.intentType) {
+    attributes.push({ dimension: 'intent', arm: metadata.intentType })
+  }
+  return attributes
+}
+
+// ─── Collection Job ─────────────────────────────────
+
+export async function collectPostMetrics(
+  options: { fetchCounts?: PostCountsSource; now?: Date } = {}
+): Promise<MetricsCollectionResult> {
+  const fetchCounts = options.fetchCounts ?? fetchAppViewCounts
+  const now = options.now ?? new Date()
+  const supabase = getServiceSupabase()
+  const errors: string[] = []
+
+  // Step 1: Published posts still picking up engagement
+  const since = new Date(now.getTime() - PERFORMANCE_CONFIG.COLLECT.WINDOW_DAYS * 24 * 60 * 60 * 1000)
+  const { data: posts, error: postsError } = await (supabase as any)
+    .from('bluesky_post_log')
+    .select('post_uri, pet_id, activity_type, created_at, metadata')
+    .in('activity_type', PERFORMANCE_CONFIG.COLLECT.ACTIVITY_TYPES)
+    .not('post_uri', 'is', null)
+    .gte('created_at', since.toISOString())
+    .order('created_at', { ascending: false })
+    .limit(PERFORMANCE_CONFIG.COLLECT.MAX_POSTS) as { data: PostLogRow[] | null; error: unknown }
+
+  if (postsError) throw new Error(`Failed to load posts for metrics: ${JSON.stringify(postsError)}`)
+  // A URI can be logged twice (e.g. a retried step); snapshot it once
+  const recent = [...new Map((posts ?? []).map(p => [p.post_uri, p])).values()]
+
+  // Step 2: Counts
+  let counts = new Map<string, PostCounts>()
+  try {
+    counts = await fetchCounts(recent.map(p => p.post_uri))
+  } catch (error) {
+    // Nothing new to snapshot; arms still relearn from earlier snapshots
+    errors.push(`counts: ${error instanceof Error ? error.message : String(error)}`)
+  }
+
+  // Step 3: Snapshots
+  const collectedAt = now.toISOString()
+  const rows = recent
+    .filter(post => counts.has(post.post_uri))
+    .map(post => {
+      const c = counts.get(post.post_uri)!
+      return {
+        post_uri: post.post_uri,
+        pet_id: post.pet_id,
+        like_count: c.likeCount,
+        reply_count: c.replyCount,
+        repost_count: c.repostCount,
+        quote_count: c.quoteCount,
+        collected_at: collectedAt,
+      }
+    })
+
+  if (rows.length > 0) {
+    const { error } = await (supabase as any)
+      .from('bluesky_post_metric')
+      .insert(rows) as { error: unknown }
+    if (error) errors.push(`snapshots: ${JSON.stringify(error)}`)
+
+    const { error: latestError } = await (supabase as any)
+      .from('bluesky_post_metric_latest')
+      .upsert(rows, { onConflict: 'post_uri' }) as { error: unknown }
+    if (latestError) errors.push(`latest: ${JSON.stringify(latestError)}`)
+  }
+
+  // Step 4 + 5: Relearn every pet's arms
+  let petsLearned = 0
+  try {
+    petsLearned = await learnContentArms(now)
+  } catch (error) {
+    errors.push(`learn: ${error instanceof Error ? error.message : String(error)}`)
+  }
+
+  // Step 6: Retention
+  try {
+    await pruneSnapshots(now)
+  } catch (error) {
+    errors.push(`prune: ${error instanceof Error ? error.message : String(error)}`)
+  }
+
+  return {
+    postsSnapshotted: rows.length,
+    countsFetched: counts.size,
+    petsLearned,
+    errors,
+  }
+}
+
+// ─── Learning ───────────────────────────────────────
+
+/** Rewrite bluesky_content_arm from the latest snapshots; returns pets updated */
+async function learnContentArms(now: Date): Promise<number> {
+  const supabase = getServiceSupabase()
+  const { LEARNING } = PERFORMANCE_CONFIG
+  const since = new Date(now.getTime() - LEARNING.WINDOW_DAYS * 24 * 60 * 60 * 1000)
+  const settledBefore = new Date(now.getTime() - LEARNING.MIN_POST_AGE_HOURS * 60 * 60 * 1000)
+
+  const { data: posts, error } = await (supabase as any)
+    .from('bluesky_post_log')
+    .select('post_uri, pet_id, activity_type, created_at, metadata')
+    .in('activity_type', LEARNING.ACTIVITY_TYPES)
+    .not('post_uri', 'is', null)
+    .gte('created_at', since.toISOString())
+    .lt('created_at', settledBefore.toISOString())
+    .order('created_at', { ascending: false })
+    .limit(LEARNING.MAX_POSTS) as { data: PostLogRow[] | null; error: unknown }
+
+  if (error) throw new Error(`Failed to load posts to learn from: ${JSON.stringify(error)}`)
+  const training = [...new Map((posts ?? []).map(p => [p.post_uri, p])).values()]
+  const latest = await loadLatestMetrics(training.map(p => p.post_uri))
+
+  // Posts never measured teach nothing (the AppView may not have seen them)
+  const byPet = new Map<string, Array<{ attributes: ContentAttribute[]; reward: number }>>()
+  for (const post of training) {
+    const metric = latest.get(post.post_uri)
+    if (!metric) continue
+    const scored = byPet.get(post.pet_id) ?? []
+    scored.push({
+      attributes: attributePost(post),
+      reward: engagementReward({
+        likeCount: metric.like_count,
+        replyCount: metric.reply_count,
+        repostCount: metric.repost_count,
+        quoteCount: metric.quote_count,
+      }),
+    })
+    byPet.set(post.pet_id, scored)
+  }
+
+  const updatedAt = now.toISOString()
+  for (const [petId, scored] of byPet) {
+    const arms = computeContentArms(scored).map(arm => ({
+      pet_id: petId,
+      dimension: arm.dimension,
+      arm: arm.arm,
+      posts: arm.posts,
+      mean_reward: arm.meanReward,
+      lift: arm.lift,
+      updated_at: updatedAt,
+    }))
+    const { error: upsertError } = await (supabase as any)
+      .from('bluesky_content_arm')
+      .upsert(arms, { onConflict: 'pet_id,dimension,arm' }) as { error: unknown }
+    if (upsertError) throw new Error(`Failed to save arms for ${petId}: ${JSON.stringify(upsertError)}`)
+
+    // Arms whose posts all aged out of the window
+    await (supabase as any)
+      .from('bluesky_content_arm')
+      .delete()
+      .eq('pet_id', petId)
+      .lt('updated_at', updatedAt)
+  }
+
+  return byPet.size
+}
+
+/** One row per URI, so a chunk can never outgrow PostgREST's row cap */
+async function loadLatestMetrics(uris: string[]): Promise<Map<string, MetricRow>> {
+  const latest = new Map<string, MetricRow>()
+  for (let i = 0; i < uris.length; i += URI_CHUNK) {
+    const { data, error } = await (getServiceSupabase() as any)
+      .from('bluesky_post_metric_latest')
+      .select('post_uri, like_count, reply_count, repost_count, quote_count, collected_at')
+      .in('post_uri', uris.slice(i, i + URI_CHUNK)) as { data: MetricRow[] | null; error: unknown }
+    if (error) throw new Error(`Failed to load metrics: ${JSON.stringify(error)}`)
+
+    for (const row of data ?? []) latest.set(row.post_uri, row)
+  }
+  return latest
+}
+
+// ─── Retention ──────────────────────────────────────
+
+/**
+ * Drop snapshot history, and latest counts, older than the retention
+ * window. The window covers LEARNING.WINDOW_DAYS, so every post that
+ * still trains the bandit keeps its latest counts.
+ */
+async function pruneSnapshots(now: Date): Promise<void> {
+  const supabase = getServiceSupabase()
+  const cutoff = new Date(now.getTime() - PERFORMANCE_CONFIG.COLLECT.RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString()
+
+  for (const table of ['bluesky_post_metric', 'bluesky_post_metric_latest']) {
+    const { error } = await (supabase as any)
+      .from(table)
+      .delete()
+      .lt('collected_at', cutoff) as { error: unknown }
+    if (error) throw new Error(`Failed to prune ${table}: ${JSON.stringify(error)}`)
+  }
+}
@@ -0,0 +1,148 @@
+/**
+ * Publish Intents
+ *
+ * Makes Bluesky writes idempotent across workflow retries. Before a
+ * write, the caller's idempotency key (workflow run + step, review item
+ * + post index) is stored in bluesky_publish_intent with the record key
+ * (a TID minted on the first attempt) the record will be created under.
+ * A retry gets the same record key back: the client looks it up in the
+ * pet's repo and returns the existing record instead of posting again,
+ * and a write that did land earlier fails on the PDS rather than
+ * duplicating. The intent also remembers that its points were charged,
+ * so a retry doesn't pay for the same record twice.
+ *
+ * @module publish-intents
+ */
+
+import { createHash } from 'node:crypto'
+import { getServiceSupabase } from '@/lib/api/service-supabase'
+
+// ─── Types ──────────────────────────────────────────
+
+export const PUBLISH_COLLECTIONS = {
+  POST: 'app.bsky.feed.post',
+  LIKE: 'app.bsky.feed.like',
+  FOLLOW: 'app.bsky.graph.follow',
+} as const
+
+export type PublishCollection = typeof PUBLISH_COLLECTIONS[keyof typeof PUBLISH_COLLECTIONS]
+
+export interface PublishIntent {
+  key: string
+  collection: PublishCollection
+  rkey: string
+  /** Set once the write is known to have landed */
+  uri: string | null
+  cid: string | null
+  /** An earlier attempt already charged the write's rate-limit points */
+  charged: boolean
+  /** Claimed by this call; false on a retry */
+  fresh: boolean
+}
+
+interface IntentRow {
+  idempotency_key: string
+  collection: PublishCollection
+  rkey: string
+  record_uri: string | null
+  record_cid: string | null
+  charged_at: string | null
+}
+
+// ─── Record Keys ────────────────────────────────────
+
+const S32_CHARS = '234567abcdefghijklmnopqrstuvwxyz'
+
+function s32encode(value: number): string {
+  let encoded = ''
+  let remaining = value
+  while (remaining > 0) {
+    encoded = S32_CHARS[remaining % 32] + encoded
+    remaining = Math.floor(remaining / 32)
+  }
+  return encoded
+}
+
+/** Last TID timestamp minted by this process, so consecutive TIDs never repeat */
+let lastTidMicros = 0
+
+/**
+ * AT Protocol TID: microseconds since the epoch plus a 10-bit clock id,
+ * base32-sortable, 13 characters. Timestamps strictly increase within
+ * the process.
+ */
+export function createTid(
+  nowMs: number = Date.now(),
+  clockId: number = Math.floor(Math.random() * 1024)
+): string {
+  lastTidMicros = Math.max(nowMs * 1000, lastTidMicros + 1)
+  return s32encode(lastTidMicros).padStart(11, '2') + s32encode(clockId % 1024).padStart(2, '2')
+}
+
+/** Clock id from the key: two instances minting in the same microsecond still differ */
+function clockIdFor(key: string): number {
+  return createHash('sha256').update(key).digest().readUInt16BE(0) % 1024
+}
+
+// ─── Intents ────────────────────────────────────────
+
+/**
+ * Record that `key` is about to write to `collection`, or return what
+ * an earlier attempt recorded. Throws if the intent can't be stored:
+ * writing without it would make a retry post twice.
+ */
+export async function claimPublishIntent(
+  petId: string,
+  key: string,
+  collection: PublishCollection
+): Promise<PublishIntent> {
+  const supabase = getServiceSupabase()
+  const rkey = createTid(Date.now(), clockIdFor(key))
+
+  const { error: insertError } = await (supabase as any)
+    .from('bluesky_publish_intent')
+    .upsert({ idempotency_key: key, pet_id: petId, collection, rkey }, {
+      onConflict: 'idempotency_key',
+      ignoreDuplicates: true,
+    }) as { error: unknown }
+  if (insertError) throw new Error(`Failed to record publish intent ${key}: ${JSON.stringify(insertError)}`)
+
+  const { data, error } = await (supabase as any)
+    .from('bluesky_publish_intent')
+    .select('idempotency_key, collection, rkey, record_uri, record_cid, charged_at')
+    .eq('idempotency_key', key)
+    .single() as { data: IntentRow | null; error: unknown }
+  if (error || !data) throw new Error(`Failed to load publish intent ${key}: ${JSON.stringify(error)}`)
+
+  return {
+    key,
+    collection: data.collection,
+    rkey: data.rkey,
+    uri: data.record_uri,
+    cid: data.record_cid,
+    charged: !!data.charged_at,
+    fresh: data.rkey === rkey,
+  }
+}
+
+/** Mark the intent's points as charged; best-effort (a retry charges again) */
+export async function markPublishIntentCharged(key: string): Promise<void> {
+  const { error } = await (getServiceSupabase() as any)
+    .from('bluesky_publish_intent')
+    .update({ charged_at: new Date().toISOString() })
+    .eq('idempotency_key', key) as { error: unknown }
+  if (error) {
+    console.warn(`[publish-intents] Failed to mark ${key} charged:`, JSON.stringify(error))
+  }
+}
+
+/** Mark the intent's write as landed; best-effort (a retry finds the record in the repo) */
+export async function completePublishIntent(key: string, result: { uri: string; cid: string }): Promise<void> {
+  const { error } = await (getServiceSupabase() as any)
+    .from('bluesky_publish_intent')
+    .update({ record_uri: result.uri, record_cid: result.cid, completed_at: new Date().toISOString() })
+    .eq('idempotency_key', key) as { error: unknown }
+  if (error) {
+    console.warn(`[publish-intents] Failed to complete ${key}:`, JSON.stringify(error))
+  }
+}
@@ -0,0 +1,256 @@
+/**
+ * Rate Limit Ledger
+ *
+ * Shared AT Protocol point budget per bot account. Every write (and
+ * search and blob upload) is charged its point cost from two token
+ * buckets per pet, one sized and refilled per hour and one per day,
+ * so concurrent workflow runs on different serverless instances draw
+ * from the same budget. Logins come out of a separate pair of buckets
+ * sized to the PDS login limit.
+ *
+ * The Postgres ledger runs each charge in one function call that locks
+ * the pet's bucket row (see the bluesky_rate_limit migration), so two
+ * runs can't both spend the last points. Multi-post threads reserve
+ * their points up front and charge each post against the reservation.
+ * Tests and the simulator use InMemoryRateLimitLedger.
+ *
+ * While the ledger is unreachable, the client falls back to the
+ * in-process FallbackRateLimiter with conservative caps instead of
+ * spending without limit.
+ *
+ * @module rate-limit-ledger
+ */
+
+import { getServiceSupabase } from '@/lib/api/service-supabase'
+import { AT_PROTO_RATE_LIMITS } from '@/lib/config/bluesky.config'
+
+// ─── Types ──────────────────────────────────────────
+
+export type RateLimitOperation =
+  | 'post'
+  | 'like'
+  | 'follow'
+  | 'update'
+  | 'delete'
+  | 'search'
+  | 'blob_upload'
+
+export interface RateLimitCharge {
+  allowed: boolean
+  /** Whole points left in each bucket afterwards */
+  hourRemaining: number
+  dayRemaining: number
+  /** Seconds until the charge would fit; 0 when allowed */
+  retryAfterSeconds: number
+}
+
+export interface RateLimitReservation extends RateLimitCharge {
+  /** null when the points weren't available */
+  reservationId: string | null
+}
+
+export interface RateLimitLedger {
+  /**
+   * Atomically take `points` from the pet's buckets, or nothing if
+   * either bucket is short. With a live reservation, its points are
+   * used first.
+   */
+  charge(petId: string, points: number, reservationId?: string): Promise<RateLimitCharge>
+  /** Take `points` now and hold them for later charges */
+  reserve(petId: string, points: number, ttlSeconds?: number): Promise<RateLimitReservation>
+  /** Refund a reservation's unused points; returns how many */
+  release(reservationId: string): Promise<number>
+  /** Take one login from the pet's login bucket, or nothing if it is empty */
+  chargeLogin(petId: string): Promise<RateLimitCharge>
+}
+
+/** A write was refused because the account's point budget is spent */
+export class RateLimitExceededError extends Error {
+  constructor(message: string, readonly retryAfterSeconds: number) {
+    super(message)
+    this.name = 'RateLimitExceededError'
+  }
+}
+
+export const OPERATION_POINTS: Readonly<Record<RateLimitOperation, number>> = {
+  post: AT_PROTO_RATE_LIMITS.POINTS_PER_POST,
+  like: AT_PROTO_RATE_LIMITS.POINTS_PER_LIKE,
+  /** Also blocks, moderation lists and list items (graph records) */
+  follow: AT_PROTO_RATE_LIMITS.POINTS_PER_FOLLOW,
+  update: AT_PROTO_RATE_LIMITS.POINTS_PER_UPDATE,
+  delete: AT_PROTO_RATE_LIMITS.POINTS_PER_DELETE,
+  search: AT_PROTO_RATE_LIMITS.POINTS_PER_SEARCH,
+  blob_upload: AT_PROTO_RATE_LIMITS.POINTS_PER_BLOB_UPLOAD,
+}
+
+// ─── Postgres Ledger ────────────────────────────────
+
+/** The pet's point budget, or its separate login allowance */
+type BucketName = 'points' | 'login'
+
+interface ChargeRow {
+  allowed: boolean
+  hour_remaining: number
+  day_remaining: number
+  retry_after_seconds: number
+}
+
+export class PostgresRateLimitLedger implements RateLimitLedger {
+  async charge(petId: string, points: number, reservationId?: string): Promise<RateLimitCharge> {
+    const { data, error } = await (getServiceSupabase() as any).rpc('bluesky_rate_limit_charge', {
+      p_pet_id: petId,
+      p_points: points,
+      p_hour_capacity: AT_PROTO_RATE_LIMITS.POINTS_PER_HOUR,
+      p_day_capacity: AT_PROTO_RATE_LIMITS.POINTS_PER_DAY,
+      p_reservation_id: reservationId ?? null,
+      p_bucket: 'points' satisfies BucketName,
+    }) as { data: ChargeRow[] | null; error: unknown }
+
+    if (error || !data?.[0]) throw new Error(`Failed to charge rate limit points: ${JSON.stringify(error)}`)
+    return toCharge(data[0])
+  }
+
+  async chargeLogin(petId: string): Promise<RateLimitCharge> {
+    const { data, error } = await (getServiceSupabase() as any).rpc('bluesky_rate_limit_charge', {
+      p_pet_id: petId,
+      p_points: 1,
+      p_hour_capacity: AT_PROTO_RATE_LIMITS.LOGINS_PER_HOUR,
+      p_day_capacity: AT_PROTO_RATE_LIMITS.LOGINS_PER_DAY,
+      p_reservation_id: null,
+      p_bucket: 'login' satisfies BucketName,
+    }) as { data: ChargeRow[] | null; error: unknown }
+
+    if (error || !data?.[0]) throw new Error(`Failed to charge login: ${JSON.stringify(error)}`)
+    return toCharge(data[0])
+  }
+
+  async reserve(
+    petId: string,
+    points: number,
+    ttlSeconds: number = AT_PROTO_RATE_LIMITS.RESERVATION_TTL_SECONDS
+  ): Promise<RateLimitReservation> {
+    const { data, error } = await (getServiceSupabase() as any).rpc('bluesky_rate_limit_reserve', {
+      p_pet_id: petId,
+      p_points: points,
+      p_hour_capacity: AT_PROTO_RATE_LIMITS.POINTS_PER_HOUR,
+      p_day_capacity: AT_PROTO_RATE_LIMITS.POINTS_PER_DAY,
+      p_ttl_seconds: ttlSeconds,
+    }) as { data: Array<ChargeRow & { reservation_id: string | null }> | null; error: unknown }
+
+    if (error || !data?.[0]) throw new Error(`Failed to reserve rate limit points: ${JSON.stringify(error)}`)
+    return { ...toCharge(data[0]), reservationId: data[0].reservation_id }
+  }
+
+  async release(reservationId: string): Promise<number> {
+    const { data, error } = await (getServiceSupabase() as any).rpc('bluesky_rate_limit_release', {
+      p_reservation_id: reservationId,
+      p_hour_capacity: AT_PROTO_RATE_LIMITS.POINTS_PER_HOUR,
+      p_day_capacity: AT_PROTO_RATE_LIMITS.POINTS_PER_DAY,
+    }) as { data: number | null; error: unknown }
+
+    if (error) throw new Error(`Failed to release rate limit reservation: ${JSON.stringify(error)}`)
+    return data ?? 0
+  }
+}
+
+function toCharge(row: ChargeRow): RateLimitCharge {
+  return {
+    allowed: row.allowed,
+    hourRemaining: row.hour_remaining,
+    dayRemaining: row.day_remaining,
+    retryAfterSeconds: row.retry_after_seconds,
+  }
+}
+
+// ─── In-Process Fallback ────────────────────────────
+
+interface FallbackBucket {
+  hourTokens: number
+  dayTokens: number
+  refilledAt: number
+}
+
+/**
+ * Token buckets kept in this process, used only while the shared ledger
+ * is unreachable. Same arithmetic as the ledger, with the FALLBACK_* caps.
+ */
+export class FallbackRateLimiter {
+  private readonly buckets = new Map<string, FallbackBucket>()
+
+  constructor(private readonly now: () => number = () => Date.now()) {}
+
+  charge(petId: string, points: number): RateLimitCharge {
+    return this.take(`points:${petId}`, points, {
+      hour: AT_PROTO_RATE_LIMITS.FALLBACK_POINTS_PER_HOUR,
+      day: AT_PROTO_RATE_LIMITS.FALLBACK_POINTS_PER_DAY,
+    })
+  }
+
+  chargeLogin(petId: string): RateLimitCharge {
+    return this.take(`login:${petId}`, 1, {
+      hour: AT_PROTO_RATE_LIMITS.FALLBACK_LOGINS_PER_HOUR,
+      day: AT_PROTO_RATE_LIMITS.FALLBACK_LOGINS_PER_DAY,
+    })
+  }
+
+  private take(key: string, points: number, capacity: { hour: number; day: number }): RateLimitCharge {
+    const now = this.now()
+    const hourRate = capacity.hour / 3600
+    const dayRate = capacity.day / 86400
+    const bucket = this.buckets.get(key) ?? { hourTokens: capacity.hour, dayTokens: capacity.day, refilledAt: now }
+    const elapsedSeconds = Math.max(0, (now - bucket.refilledAt) / 1000)
+    bucket.hourTokens = Math.min(capacity.hour, bucket.hourTokens + elapsedSeconds * hourRate)
+    bucket.dayTokens = Math.min(capacity.day, bucket.dayTokens + elapsedSeconds * dayRate)
+    bucket.refilledAt = now
+    this.buckets.set(key, bucket)
+
+    if (bucket.hourTokens < points || bucket.dayTokens < points) {
+      return {
+        allowed: false,
+        hourRemaining: Math.floor(bucket.hourTokens),
+        dayRemaining: Math.floor(bucket.dayTokens),
+        retryAfterSeconds: Math.ceil(Math.max(
+          (points - bucket.hourTokens) / hourRate,
+          (points - bucket.dayTokens) / dayRate
+        )),
+      }
+    }
+
+    bucket.hourTokens -= points
+    bucket.dayTokens -= points
+    return {
+      allowed: true,
+      hourRemaining: Math.floor(bucket.hourTokens),
+      dayRemaining: Math.floor(bucket.dayTokens),
+      retryAfterSeconds: 0,
+    }
+  }
+}
+
+// ─── Singleton ──────────────────────────────────────
+
+let ledgerInstance: RateLimitLedger | null = null
+let fallbackInstance: FallbackRateLimiter | null = null
+
+export function getRateLimitLedger(): RateLimitLedger {
+  if (!ledgerInstance) ledgerInstance = new PostgresRateLimitLedger()
+  return ledgerInstance
+}
+
+/**
+ * Swap the ledger for a stand-in (tests, offline simulation).
+ * Pass null to go back to the Postgres ledger.
+ */
+export function setRateLimitLedgerOverride(ledger: RateLimitLedger | null): void {
+  ledgerInstance = ledger
+}
+
+export function getFallbackRateLimiter(): FallbackRateLimiter {
+  if (!fallbackInstance) fallbackInstance = new FallbackRateLimiter()
+  return fallbackInstance
+}
+
+/** Swap the fallback limiter (tests). Pass null for a fresh one on next use. */
+export function setFallbackRateLimiterOverride(limiter: FallbackRateLimiter | null): void {
+  fallbackInstance = limiter
+}
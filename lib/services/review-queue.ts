@@ -0,0 +1,620 @@
+/**
+ * Moderation Review Queue
+ *
+ * Human-in-the-loop publishing. Pets in `review` mode (or that recently
+ * tripped a content filter) don't publish directly: the workflow parks
+ * the generated post/reply/thread/quote in `bluesky_review_queue` along
+ * with what it was reacting to. A reviewer lists, edits, approves or
+ * rejects items via /api/v1/craft/agent/bluesky/review; approval publishes
+ * through the regular BlueskyBotClient, logs to bluesky_post_log and
+ * applies the memory, mood and episode updates from generation_context
+ * exactly as the workflow would have.
+ *
+ * @module review-queue
+ */
+
+import { getServiceSupabase } from '@/lib/api/service-supabase'
+import { BLUESKY_CONFIG } from '@/lib/config/bluesky.config'
+import {
+  BlueskyBotClient,
+  createClientForPet,
+  type BlueskyBotConfig,
+  type BlueskyPostResult,
+  type BlueskyReplyRef,
+} from '@/lib/services/bluesky-client'
+import { updateRelationshipAfterInteraction } from '@/lib/agent/memory/relationship-memory-service'
+import { loadBotMemory, saveBotMemory, appendPostToMemory } from '@/lib/agent/memory/bot-memory-service'
+import { trackRunningThemes } from '@/lib/agent/memory/running-themes'
+import { recordEpisode } from '@/lib/agent/memory/episodic-memory'
+import { recordMoodEvent } from '@/lib/agent/mood/mood-event-log'
+import type { MoodState } from '@/lib/agent/mood/emotion-engine'
+import type { BotMemory, RecentPostDigest } from '@/lib/agent/types/bot-memory'
+import { MOOD_CONFIG } from '@/lib/config/mood.config'
+
+// ─── Types ──────────────────────────────────────────
+
+export type PublishMode = 'auto' | 'review'
+
+export type ReviewItemKind = 'post' | 'reply' | 'thread' | 'quote'
+
+/**
+ * `publishing` while an approval holds the item (reclaimable once it is
+ * older than REVIEW.PUBLISHING_TIMEOUT_MINUTES); `failed` items can be
+ * edited and approved again
+ */
+export type ReviewItemStatus = 'pending' | 'publishing' | 'published' | 'rejected' | 'failed'
+
+export interface ReviewPayload {
+  /** post / reply / quote */
+  text?: string
+  /** thread: root first */
+  posts?: string[]
+  replyRef?: BlueskyReplyRef
+  quoted?: { uri: string; cid: string }
+  image?: { base64: string; alt: string }
+}
+
+export interface ReviewItem {
+  id: string
+  petId: string
+  kind: ReviewItemKind
+  status: ReviewItemStatus
+  /** bluesky_post_log activity_type written on publish */
+  activityType: string
+  payload: ReviewPayload
+  logMetadata: Record<string, unknown>
+  generationContext: Record<string, unknown>
+  relationshipUpdate: { otherPetId: string; interactionType: string } | null
+  edited: boolean
+  reviewerNote: string | null
+  publishedUri: string | null
+  error: string | null
+  createdAt: string
+  reviewedAt: string | null
+  /** When the current approval claimed the item */
+  claimedAt: string | null
+}
+
+export type NewReviewItem = Pick<ReviewItem, 'petId' | 'kind' | 'activityType' | 'payload'> &
+  Partial<Pick<ReviewItem, 'logMetadata' | 'generationContext' | 'relationshipUpdate'>>
+
+interface ReviewItemRow {
+  id: string
+  pet_id: string
+  kind: ReviewItemKind
+  status: ReviewItemStatus
+  activity_type: string
+  payload: ReviewPayload
+  log_metadata: Record<string, unknown> | null
+  generation_context: Record<string, unknown> | null
+  relationship_update: ReviewItem['relationshipUpdate']
+  edited: boolean
+  reviewer_note: string | null
+  published_uri: string | null
+  error: string | null
+  created_at: string
+  reviewed_at: string | null
+  claimed_at: string | null
+}
+
+export class ReviewItemNotFoundError extends Error {
+  constructor(id: string) {
+    super(`Review item ${id} not found`)
+    this.name = 'ReviewItemNotFoundError'
+  }
+}
+
+export class ReviewItemStateError extends Error {
+  constructor(id: string, status: ReviewItemStatus) {
+    super(`Review item ${id} is ${status}, only pending or failed items can be changed`)
+    this.name = 'ReviewItemStateError'
+  }
+}
+
+/** Statuses a reviewer can still edit, approve or reject */
+const OPEN_STATUSES: readonly ReviewItemStatus[] = ['pending', 'failed']
+
+// ─── Publish Mode ───────────────────────────────────
+
+/**
+ * Effective publish mode for a pet: the configured mode, forced to
+ * `review` while the pet has recently tripped a content filter.
+ */
+export async function resolvePublishMode(
+  petId: string,
+  configuredMode: string | null | undefined
+): Promise<PublishMode> {
+  if (configuredMode === 'review') return 'review'
+  return (await hasRecentFilterTrip(petId)) ? 'review' : 'auto'
+}
+
+async function hasRecentFilterTrip(petId: string): Promise<boolean> {
+  const supabase = getServiceSupabase()
+  const since = new Date(
+    Date.now() - BLUESKY_CONFIG.REVIEW.FILTER_TRIP_WINDOW_HOURS * 60 * 60 * 1000
+  ).toISOString()
+
+  const { count } = await (supabase as any)
+    .from('bluesky_post_log')
+    .select('id', { count: 'exact', head: true })
+    .eq('pet_id', petId)
+    .gte('created_at', since)
+    .in('metadata->>reason', BLUESKY_CONFIG.REVIEW.FILTER_TRIP_REASONS) as { count: number | null }
+
+  return (count ?? 0) > 0
+}
+
+// ─── Queue Operations ───────────────────────────────
+
+export async function enqueueReviewItem(item: NewReviewItem): Promise<string> {
+  const supabase = getServiceSupabase()
+  const { data, error } = await (supabase as any)
+    .from('bluesky_review_queue')
+    .insert({
+      pet_id: item.petId,
+      kind: item.kind,
+      status: 'pending',
+      activity_type: item.activityType,
+      payload: item.payload,
+      log_metadata: item.logMetadata ?? null,
+      generation_context: item.generationContext ?? null,
+      relationship_update: item.relationshipUpdate ?? null,
+    })
+    .select('id')
+    .single() as { data: { id: string } | null; error: { message: string } | null }
+
+  if (error || !data) {
+    throw new Error(`Failed to queue ${item.kind} for review: ${error?.message}`)
+  }
+  return data.id
+}
+
+export async function listReviewItems(params: {
+  petId?: string
+  status?: ReviewItemStatus
+  limit?: number
+} = {}): Promise<ReviewItem[]> {
+  const supabase = getServiceSupabase()
+  let query = (supabase as any)
+    .from('bluesky_review_queue')
+    .select('*')
+    .eq('status', params.status ?? 'pending')
+
+  if (params.petId) {
+    query = query.eq('pet_id', params.petId)
+  }
+
+  const { data, error } = await query
+    .order('created_at', { ascending: true })
+    .limit(Math.min(params.limit ?? BLUESKY_CONFIG.REVIEW.LIST_LIMIT, BLUESKY_CONFIG.REVIEW.LIST_LIMIT)) as {
+      data: ReviewItemRow[] | null
+      error: { message: string } | null
+    }
+
+  if (error) throw new Error(`Failed to list review items: ${error.message}`)
+  return (data ?? []).map(toReviewItem)
+}
+
+export async function getReviewItem(id: string): Promise<ReviewItem> {
+  const supabase = getServiceSupabase()
+  const { data } = await (supabase as any)
+    .from('bluesky_review_queue')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle() as { data: ReviewItemRow | null }
+
+  if (!data) throw new ReviewItemNotFoundError(id)
+  return toReviewItem(data)
+}
+
+/**
+ * Replace the text of a pending or failed item. Threads take `posts`, everything
+ * else takes `text`. The write only lands while the item is still in the
+ * status it was read in, so an approval that claimed it meanwhile wins.
+ */
+export async function editReviewItem(
+  id: string,
+  edit: { text?: string; posts?: string[] }
+): Promise<ReviewItem> {
+  const item = await getOpenItem(id)
+
+  const payload: ReviewPayload = item.kind === 'thread'
+    ? { ...item.payload, posts: validateThreadEdit(edit.posts) }
+    : { ...item.payload, text: validateTextEdit(edit.text) }
+
+  await claimItem(item, { payload, edited: true })
+  return { ...item, payload, edited: true }
+}
+
+export async function rejectReviewItem(id: string, note?: string): Promise<ReviewItem> {
+  const item = await getOpenItem(id)
+  const reviewedAt = new Date().toISOString()
+  await claimItem(item, { status: 'rejected', reviewer_note: note ?? null, reviewed_at: reviewedAt })
+  return { ...item, status: 'rejected', reviewerNote: note ?? null, reviewedAt }
+}
+
+/**
+ * Publish a pending or failed item through the pet's bot account and log
+ * it. The item is claimed as `publishing` first, so concurrent approvals
+ * publish once. Publishing failures (including the political guardrail)
+ * mark the item `failed` and rethrow; approving it again resumes the
+ * publish without reposting what already went out.
+ *
+ * Once the post is out the item ends `published` even if the follow-up
+ * bookkeeping fails (the error is kept on the item). An approval that
+ * died mid-way leaves the item `publishing`; after
+ * REVIEW.PUBLISHING_TIMEOUT_MINUTES another approval may reclaim it.
+ */
+export async function approveReviewItem(
+  id: string,
+  options: {
+    note?: string
+    createBotClient?: (config: BlueskyBotConfig) => BlueskyBotClient
+  } = {}
+): Promise<ReviewItem> {
+  const item = await getOpenItem(id, { reclaimStale: true })
+  const reviewedAt = new Date().toISOString()
+  await claimItem(item, { status: 'publishing', error: null, claimed_at: reviewedAt })
+
+  let published: PublishedItem
+  try {
+    const client = await createClientForPet(item.petId, options.createBotClient)
+    published = await publishPayload(client, item)
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    await updateItem(id, {
+      status: 'failed',
+      error: message,
+      reviewer_note: options.note ?? null,
+      reviewed_at: reviewedAt,
+    })
+    throw error
+  }
+
+  const publishedPatch = {
+    status: 'published',
+    published_uri: published.root.uri,
+    reviewer_note: options.note ?? null,
+    reviewed_at: reviewedAt,
+  }
+
+  try {
+    await logPublished(item, published)
+
+    if (item.relationshipUpdate) {
+      await updateRelationshipAfterInteraction(item.petId, item.relationshipUpdate.otherPetId, {
+        interactionType: item.relationshipUpdate.interactionType,
+      })
+    }
+
+    await applyGenerationContext(item, published)
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    await updateItem(id, { ...publishedPatch, error: `Published, but follow-up failed: ${message}` })
+    throw error
+  }
+
+  await updateItem(id, publishedPatch)
+
+  return {
+    ...item,
+    status: 'published',
+    publishedUri: published.root.uri,
+    reviewerNote: options.note ?? null,
+    reviewedAt,
+    claimedAt: reviewedAt,
+  }
+}
+
+// ─── Publishing ─────────────────────────────────────
+
+interface PublishedItem {
+  root: BlueskyPostResult
+  all: BlueskyPostResult[]
+  texts: string[]
+}
+
+async function publishPayload(
+  client: BlueskyBotClient,
+  item: ReviewItem
+): Promise<PublishedItem> {
+  const { payload } = item
+
+  switch (item.kind) {
+    case 'thread': {
+      const posts = payload.posts ?? []
+      if (posts.length === 0) throw new Error(`Review item ${item.id} has no thread posts`)
+      const root = await client.post(posts[0], undefined, undefined, { idempotencyKey: publishKey(item, 0) })
+      const all = [root]
+      for (let i = 1; i < posts.length; i++) {
+        const parent = all[i - 1]
+        all.push(await client.reply(posts[i], {
+          root: { uri: root.uri, cid: root.cid },
+          parent: { uri: parent.uri, cid: parent.cid },
+        }, { idempotencyKey: publishKey(item, i) }))
+      }
+      return { root, all, texts: posts }
+    }
+    case 'reply': {
+      if (!payload.replyRef) throw new Error(`Review item ${item.id} has no reply target`)
+      const result = await client.reply(requireText(item), payload.replyRef, { idempotencyKey: publishKey(item, 0) })
+      return { root: result, all: [result], texts: [requireText(item)] }
+    }
+    case 'quote': {
+      if (!payload.quoted) throw new Error(`Review item ${item.id} has no quoted post`)
+      const result = await client.quotePost(requireText(item), payload.quoted.uri, payload.quoted.cid, {
+        idempotencyKey: publishKey(item, 0),
+      })
+      return { root: result, all: [result], texts: [requireText(item)] }
+    }
+    case 'post': {
+      const image = payload.image
+      const result = await client.post(
+        requireText(item),
+        image ? new Uint8Array(Buffer.from(image.base64, 'base64')) : undefined,
+        image?.alt,
+        { idempotencyKey: publishKey(item, 0) }
+      )
+      return { root: result, all: [result], texts: [requireText(item)] }
+    }
+  }
+}
+
+/** Logs the published item once; a reclaimed approval finds the earlier row */
+async function logPublished(item: ReviewItem, published: PublishedItem): Promise<void> {
+  const supabase = getServiceSupabase()
+
+  const { count } = await (supabase as any)
+    .from('bluesky_post_log')
+    .select('id', { count: 'exact', head: true })
+    .eq('pet_id', item.petId)
+    .eq('metadata->>reviewItemId', item.id) as { count: number | null }
+  if ((count ?? 0) > 0) return
+
+  const { data: botConfig } = await (supabase as any)
+    .from('bluesky_bot_config')
+    .select('id')
+    .eq('pet_id', item.petId)
+    .single() as { data: { id: string } | null }
+
+  if (!botConfig) {
+    throw new Error(`No bot config found for pet ${item.petId}, cannot log activity`)
+  }
+
+  const mentionedDids = [...new Set(published.all.flatMap(r => r.mentionedDids ?? []))]
+
+  const { error } = await (supabase as any)
+    .from('bluesky_post_log')
+    .insert({
+      pet_id: item.petId,
+      bot_config_id: botConfig.id,
+      activity_type: item.activityType,
+      post_uri: published.root.uri,
+      post_cid: published.root.cid,
+      content: published.texts.join('\n---\n'),
+      metadata: {
+        ...item.logMetadata,
+        ...(item.kind === 'thread' ? { postUris: published.all.map(r => r.uri) } : {}),
+        ...(mentionedDids.length ? { mentionedDids } : {}),
+        reviewItemId: item.id,
+        reviewEdited: item.edited,
+      },
+      created_at: new Date().toISOString(),
+    }) as { error: { message: string } | null }
+
+  if (error) throw new Error(`Failed to log review item ${item.id}: ${error.message}`)
+}
+
+// ─── Pet State ──────────────────────────────────────
+
+/**
+ * The memory, mood and episode updates the workflow applies after
+ * publishing the same content itself, rebuilt from the item's
+ * generation_context and log_metadata.
+ */
+async function applyGenerationContext(item: ReviewItem, published: PublishedItem): Promise<void> {
+  const context = item.generationContext
+  const meta = item.logMetadata
+  const postUri = published.root.uri
+
+  switch (context.mode) {
+    case 'proactive': {
+      const isThread = item.kind === 'thread'
+      const digest: RecentPostDigest = isThread
+        ? {
+            postedAt: new Date().toISOString(),
+            gist: String(context.threadDigest ?? published.texts[0]).slice(0, 80),
+            mood: String(meta.overallMood ?? 'neutral'),
+            topic: String(meta.topicTag ?? 'general'),
+            intentType: 'thread',
+          }
+        : {
+            postedAt: new Date().toISOString(),
+            gist: String(context.postDigest ?? published.texts[0]).slice(0, 80),
+            mood: String(meta.mood ?? 'neutral'),
+            topic: String(meta.topicTag ?? 'general'),
+            intentType: String(meta.intentType ?? 'post'),
+            hasImage: !!item.payload.image,
+          }
+
+      const memory = await loadBotMemory(item.petId)
+      const callbackTo = typeof meta.callbackTo === 'string' ? meta.callbackTo : undefined
+      let updatedMemory: BotMemory = trackRunningThemes(appendPostToMemory(memory, digest), digest, { callbackTo })
+      const moodState = context.moodState as MoodState | undefined
+      // The snapshot taken at generation time; newer runs may have saved a later one
+      if (moodState && (!memory.moodState || moodState.lastUpdated > memory.moodState.lastUpdated)) {
+        updatedMemory = { ...updatedMemory, moodState }
+      }
+      if (typeof context.narrativeUpdate === 'string' && context.narrativeUpdate) {
+        updatedMemory = { ...updatedMemory, narrativeArc: context.narrativeUpdate }
+      }
+      await saveBotMemory(item.petId, updatedMemory, { base: memory })
+
+      await recordMoodEvent(item.petId, { type: 'posted_successfully', sourceUri: postUri })
+      await recordEpisode(item.petId, {
+        kind: 'post',
+        content: published.texts.join('\n'),
+        topic: digest.topic,
+        postUri,
+      })
+      return
+    }
+    case 'reactive': {
+      const authorHandle = String(meta.inReplyToAuthor ?? '')
+      await recordEpisode(item.petId, {
+        kind: 'reply',
+        content: `@${authorHandle} said "${String(context.notificationText ?? '')}" and I replied "${published.texts[0]}"`,
+        partnerPetId: item.relationshipUpdate?.otherPetId ?? null,
+        partnerDid: typeof meta.inReplyToAuthorDid === 'string' ? meta.inReplyToAuthorDid : null,
+        partnerHandle: `@${authorHandle}`,
+        postUri,
+      })
+      return
+    }
+    case 'interaction': {
+      const targetPetId = String(meta.targetPetId ?? item.relationshipUpdate?.otherPetId ?? '')
+      const interactionType = String(meta.interactionType ?? '')
+      const moodEvents = MOOD_CONFIG.INTERACTION_EVENTS[interactionType as keyof typeof MOOD_CONFIG.INTERACTION_EVENTS]
+      const moodMetadata = { interactionType, initiatorPetId: item.petId, targetPetId }
+      if (moodEvents?.initiator) {
+        await recordMoodEvent(item.petId, { type: moodEvents.initiator, sourceUri: postUri, metadata: moodMetadata })
+      }
+      if (moodEvents?.target && targetPetId) {
+        await recordMoodEvent(targetPetId, { type: moodEvents.target, sourceUri: postUri, metadata: moodMetadata })
+      }
+
+      const target = await loadTargetAccount(targetPetId)
+      await recordEpisode(item.petId, {
+        kind: 'interaction',
+        content: `Started a ${interactionType} with @${target?.handle ?? meta.targetPetName}: "${published.texts[0]}"`,
+        partnerPetId: targetPetId || null,
+        partnerDid: target?.did ?? null,
+        partnerHandle: `@${target?.handle ?? meta.targetPetName}`,
+        postUri,
+      })
+      return
+    }
+    case 'engagement': {
+      if (typeof meta.engagedPostUri === 'string') {
+        await recordMoodEvent(item.petId, { type: 'engaged_with_others', sourceUri: meta.engagedPostUri })
+      }
+      return
+    }
+  }
+}
+
+async function loadTargetAccount(petId: string): Promise<{ handle: string; did: string | null } | null> {
+  if (!petId) return null
+  const supabase = getServiceSupabase()
+  const { data } = await (supabase as any)
+    .from('bluesky_bot_config')
+    .select('handle, did')
+    .eq('pet_id', petId)
+    .maybeSingle() as { data: { handle: string; did: string | null } | null }
+  return data
+}
+
+// ─── Helpers ────────────────────────────────────────
+
+/**
+ * Load an item a reviewer may act on. With `reclaimStale`, an item whose
+ * approval has been `publishing` for longer than the timeout counts as
+ * open again (the approval that claimed it died).
+ */
+async function getOpenItem(id: string, options: { reclaimStale?: boolean } = {}): Promise<ReviewItem> {
+  const item = await getReviewItem(id)
+  if (OPEN_STATUSES.includes(item.status)) return item
+  if (options.reclaimStale && isStalePublishing(item)) return item
+  throw new ReviewItemStateError(id, item.status)
+}
+
+function isStalePublishing(item: ReviewItem): boolean {
+  if (item.status !== 'publishing') return false
+  if (!item.claimedAt) return true
+  const timeoutMs = BLUESKY_CONFIG.REVIEW.PUBLISHING_TIMEOUT_MINUTES * 60 * 1000
+  return Date.now() - new Date(item.claimedAt).getTime() > timeoutMs
+}
+
+/**
+ * Update an item only while it is still in the status (and, for a
+ * publishing item, the claim) it was read in. Throws when another
+ * reviewer changed it in the meantime.
+ */
+async function claimItem(item: ReviewItem, patch: Record<string, unknown>): Promise<void> {
+  const supabase = getServiceSupabase()
+  let query = (supabase as any)
+    .from('bluesky_review_queue')
+    .update(patch)
+    .eq('id', item.id)
+    .eq('status', item.status)
+
+  if (item.status === 'publishing') {
+    query = item.claimedAt ? query.eq('claimed_at', item.claimedAt) : query.is('claimed_at', null)
+  }
+
+  const { data, error } = await query.select('id') as {
+    data: { id: string }[] | null
+    error: { message: string } | null
+  }
+
+  if (error) throw new Error(`Failed to update review item ${item.id}: ${error.message}`)
+  if (!data?.length) throw new ReviewItemStateError(item.id, (await getReviewItem(item.id)).status)
+}
+
+async function updateItem(id: string, patch: Record<string, unknown>): Promise<void> {
+  const supabase = getServiceSupabase()
+  const { error } = await (supabase as any)
+    .from('bluesky_review_queue')
+    .update(patch)
+    .eq('id', id) as { error: { message: string } | null }
+
+  if (error) throw new Error(`Failed to update review item ${id}: ${error.message}`)
+}
+
+function requireText(item: ReviewItem): string {
+  if (!item.payload.text) throw new Error(`Review item ${item.id} has no text`)
+  return item.payload.text
+}
+
+/** Idempotency key for the item's n-th post, so re-approving a failed item resumes instead of reposting */
+function publishKey(item: ReviewItem, index: number): string {
+  return `review:${item.id}:${index}`
+}
+
+function validateTextEdit(text: string | undefined): string {
+  const trimmed = text?.trim()
+  if (!trimmed) throw new RangeError('text is required')
+  if (trimmed.length > BLUESKY_CONFIG.POSTING.MAX_POST_LENGTH) {
+    throw new RangeError(`text exceeds ${BLUESKY_CONFIG.POSTING.MAX_POST_LENGTH} characters`)
+  }
+  return trimmed
+}
+
+function validateThreadEdit(posts: string[] | undefined): string[] {
+  if (!Array.isArray(posts) || posts.length === 0) throw new RangeError('posts is required for threads')
+  if (posts.length > BLUESKY_CONFIG.THREAD.MAX_POSTS) {
+    throw new RangeError(`threads are limited to ${BLUESKY_CONFIG.THREAD.MAX_POSTS} posts`)
+  }
+  return posts.map(validateTextEdit)
+}
+
+function toReviewItem(row: ReviewItemRow): ReviewItem {
+  return {
+    id: row.id,
+    petId: row.pet_id,
+    kind: row.kind,
+    status: row.status,
+    activityType: row.activity_type,
+    payload: row.payload,
+    logMetadata: row.log_metadata ?? {},
+    generationContext: row.generation_context ?? {},
+    relationshipUpdate: row.relationship_update ?? null,
+    edited: row.edited ?? false,
+    reviewerNote: row.reviewer_note ?? null,
+    publishedUri: row.published_uri ?? null,
+    error: row.error ?? null,
+    createdAt: row.created_at,
+    reviewedAt: row.reviewed_at ?? null,
+    claimedAt: row.claimed_at ?? null,
+  }
+}
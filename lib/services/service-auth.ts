@@ -0,0 +1,258 @@
+/**
+ * Inter-Service JWT Verification
+ *
+ * The Bluesky AppView calls getFeedSkeleton with
+ * `Authorization: Bearer <jwt>` signed by the viewer's atproto signing
+ * key (ES256K or ES256): `iss` is the viewer DID, `aud` our service DID,
+ * `lxm` the method being called. Verifying it tells us who is asking.
+ * A token without `lxm` could be replayed against any method, so it is
+ * rejected whenever the caller names the method it serves.
+ *
+ * Signing keys are resolved from the issuer's DID document (plc.directory
+ * for did:plc, /.well-known/did.json for did:web) and cached, as are
+ * DIDs the directory doesn't know. A token that doesn't verify throws
+ * ServiceAuthError; a key lookup that can't be completed (timeout,
+ * directory down) throws KeyResolutionError, which says nothing about
+ * the token. Tests swap in a local resolver via
+ * `setKeyResolverOverride`.
+ *
+ * @module service-auth
+ */
+
+import { createPublicKey, ECDH, verify, type KeyObject } from 'node:crypto'
+import { FEED_CONFIG } from '@/lib/config/feed.config'
+
+// ─── Types ──────────────────────────────────────────
+
+/** Resolves a DID to its current atproto signing key as a did:key string */
+export interface KeyResolver {
+  resolveSigningKey(did: string, forceRefresh?: boolean): Promise<string>
+}
+
+export interface ServiceJwtPayload {
+  iss: string
+  aud: string
+  exp: number
+  iat?: number
+  lxm?: string
+}
+
+export class ServiceAuthError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ServiceAuthError'
+  }
+}
+
+export class KeyResolutionError extends Error {
+  constructor(did: string, reason: string) {
+    super(`Could not resolve signing key for ${did}: ${reason}`)
+    this.name = 'KeyResolutionError'
+  }
+}
+
+// ─── Verification ───────────────────────────────────
+
+/**
+ * Verify a service JWT from an Authorization header and return the
+ * requester DID. Returns null when there is no bearer token (anonymous
+ * request); throws ServiceAuthError for any token that doesn't verify,
+ * and KeyResolutionError when the issuer's key can't be looked up.
+ */
+export async function verifyServiceJwt(
+  authorization: string | null,
+  options: { audience: string; lxm?: string; resolver?: KeyResolver; now?: Date }
+): Promise<string | null> {
+  if (!authorization?.startsWith('Bearer ')) return null
+
+  const token = authorization.slice('Bearer '.length).trim()
+  const parts = token.split('.')
+  if (parts.length !== 3) throw new ServiceAuthError('Malformed JWT')
+
+  const header = decodeSegment<{ alg?: string; typ?: string }>(parts[0])
+  const payload = decodeSegment<Partial<ServiceJwtPayload>>(parts[1])
+
+  if (header.alg !== 'ES256K' && header.alg !== 'ES256') {
+    throw new ServiceAuthError(`Unsupported JWT algorithm: ${header.alg}`)
+  }
+  if (typeof payload.iss !== 'string' || !payload.iss.startsWith('did:')) {
+    throw new ServiceAuthError('JWT issuer is not a DID')
+  }
+  if (payload.aud !== options.audience) {
+    throw new ServiceAuthError(`JWT audience mismatch: ${payload.aud}`)
+  }
+  const nowSeconds = Math.floor((options.now ?? new Date()).getTime() / 1000)
+  if (typeof payload.exp !== 'number' || payload.exp + FEED_CONFIG.AUTH.CLOCK_SKEW_SECONDS < nowSeconds) {
+    throw new ServiceAuthError('JWT expired')
+  }
+  if (options.lxm !== undefined && payload.lxm !== options.lxm) {
+    throw new ServiceAuthError(payload.lxm === undefined ? 'JWT has no lxm' : `JWT lxm mismatch: ${payload.lxm}`)
+  }
+
+  // `iss` may carry a service fragment (did:plc:abc#atproto_labeler); keys belong to the DID
+  const issuerDid = payload.iss.split('#')[0]
+  const resolver = options.resolver ?? getKeyResolver()
+  const signingInput = Buffer.from(`${parts[0]}.${parts[1]}`)
+  const signature = Buffer.from(parts[2], 'base64url')
+
+  const verifyWith = async (forceRefresh: boolean) => {
+    let didKey: string
+    try {
+      didKey = await resolver.resolveSigningKey(issuerDid, forceRefresh)
+    } catch (error) {
+      if (error instanceof ServiceAuthError || error instanceof KeyResolutionError) throw error
+      throw new KeyResolutionError(issuerDid, error instanceof Error ? error.message : String(error))
+    }
+    const { key, alg } = parseDidKey(didKey)
+    if (alg !== header.alg) return false
+    return verify('sha256', signingInput, { key, dsaEncoding: 'ieee-p1363' }, signature)
+  }
+
+  // A failed check may just mean the key rotated since we cached it
+  if (!(await verifyWith(false)) && !(await verifyWith(true))) {
+    throw new ServiceAuthError('JWT signature does not verify')
+  }
+
+  return issuerDid
+}
+
+function decodeSegment<T>(segment: string): T {
+  try {
+    return JSON.parse(Buffer.from(segment, 'base64url').toString('utf-8')) as T
+  } catch {
+    throw new ServiceAuthError('Malformed JWT')
+  }
+}
+
+// ─── did:key ────────────────────────────────────────
+
+const MULTICODEC_PREFIXES = [
+  { alg: 'ES256K', curve: 'secp256k1', crv: 'secp256k1', prefix: [0xe7, 0x01] },
+  { alg: 'ES256', curve: 'prime256v1', crv: 'P-256', prefix: [0x80, 0x24] },
+] as const
+
+/** Parse a did:key (multibase base58btc, compressed point) into a public key */
+export function parseDidKey(didKey: string): { key: KeyObject; alg: 'ES256K' | 'ES256' } {
+  if (!didKey.startsWith('did:key:z')) throw new ServiceAuthError(`Unsupported key format: ${didKey}`)
+  const bytes = base58Decode(didKey.slice('did:key:z'.length))
+
+  const codec = MULTICODEC_PREFIXES.find(c => c.prefix.every((b, i) => bytes[i] === b))
+  if (!codec) throw new ServiceAuthError('Unsupported key type')
+
+  const compressed = bytes.subarray(codec.prefix.length)
+  const point = ECDH.convertKey(compressed, codec.curve, undefined, undefined, 'uncompressed') as Buffer
+  const key = createPublicKey({
+    key: {
+      kty: 'EC',
+      crv: codec.crv,
+      x: point.subarray(1, 33).toString('base64url'),
+      y: point.subarray(33, 65).toString('base64url'),
+    },
+    format: 'jwk',
+  })
+  return { key, alg: codec.alg }
+}
+
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz'
+
+function base58Decode(input: string): Buffer {
+  let value = BigInt(0)
+  for (const char of input) {
+    const digit = BASE58_ALPHABET.indexOf(char)
+    if (digit === -1) throw new ServiceAuthError('Invalid base58 key')
+    value = value * BigInt(58) + BigInt(digit)
+  }
+  const hex = value === BigInt(0) ? '' : value.toString(16)
+  const body = Buffer.from(hex.length % 2 ? `0${hex}` : hex, 'hex')
+  const leadingZeros = input.match(/^1*/)![0].length
+  return Buffer.concat([Buffer.alloc(leadingZeros), body])
+}
+
+export function base58Encode(bytes: Uint8Array): string {
+  let value = BigInt(`0x${Buffer.from(bytes).toString('hex') || '0'}`)
+  let out = ''
+  while (value > BigInt(0)) {
+    out = BASE58_ALPHABET[Number(value % BigInt(58))] + out
+    value /= BigInt(58)
+  }
+  const leadingZeros = bytes.findIndex(b => b !== 0)
+  return '1'.repeat(leadingZeros === -1 ? bytes.length : leadingZeros) + out
+}
+
+// ─── DID Document Resolver ──────────────────────────
+
+/**
+ * Resolves signing keys from DID documents: did:plc via the PLC
+ * directory, did:web via /.well-known/did.json. Cached per DID; a forced
+ * refresh within FORCE_REFRESH_INTERVAL_MS of the last fetch reuses it,
+ * so a stream of bad signatures can't hammer the directory. DIDs the
+ * directory doesn't know (404/410, or no atproto key) are remembered for
+ * UNKNOWN_DID_TTL_MS, at most UNKNOWN_DID_MAX_ENTRIES of them.
+ */
+export class DidDocumentKeyResolver implements KeyResolver {
+  private readonly cache = new Map<string, { didKey: string; fetchedAt: number; expiresAt: number }>()
+  private readonly unknown = new Map<string, { reason: string; expiresAt: number }>()
+
+  async resolveSigningKey(did: string, forceRefresh = false): Promise<string> {
+    const cached = this.cache.get(did)
+    const now = Date.now()
+    if (cached && cached.expiresAt > now) {
+      if (!forceRefresh || now - cached.fetchedAt < FEED_CONFIG.AUTH.FORCE_REFRESH_INTERVAL_MS) return cached.didKey
+    }
+    const unknown = this.unknown.get(did)
+    if (unknown && unknown.expiresAt > now) throw new ServiceAuthError(unknown.reason)
+
+    let response: Response
+    try {
+      response = await fetch(documentUrl(did), { signal: AbortSignal.timeout(FEED_CONFIG.AUTH.RESOLVE_TIMEOUT_MS) })
+    } catch (error) {
+      throw new KeyResolutionError(did, error instanceof Error ? error.message : String(error))
+    }
+    // An unknown DID can't have signed anything; any other failure is ours
+    if (response.status === 404 || response.status === 410) throw this.rememberUnknown(did, `Unknown DID ${did}`)
+    if (!response.ok) throw new KeyResolutionError(did, `HTTP ${response.status}`)
+
+    const doc = await response.json() as {
+      verificationMethod?: Array<{ id: string; publicKeyMultibase?: string }>
+    }
+    const method = doc.verificationMethod?.find(m => m.id === '#atproto' || m.id === `${did}#atproto`)
+    if (!method?.publicKeyMultibase) throw this.rememberUnknown(did, `No atproto signing key for ${did}`)
+
+    this.unknown.delete(did)
+    const didKey = `did:key:${method.publicKeyMultibase}`
+    this.cache.set(did, { didKey, fetchedAt: Date.now(), expiresAt: Date.now() + FEED_CONFIG.AUTH.KEY_CACHE_TTL_MS })
+    return didKey
+  }
+
+  private rememberUnknown(did: string, reason: string): ServiceAuthError {
+    const { UNKNOWN_DID_TTL_MS, UNKNOWN_DID_MAX_ENTRIES } = FEED_CONFIG.AUTH
+    this.unknown.delete(did)
+    // Oldest first: Maps iterate in insertion order
+    if (this.unknown.size >= UNKNOWN_DID_MAX_ENTRIES) this.unknown.delete(this.unknown.keys().next().value!)
+    this.unknown.set(did, { reason, expiresAt: Date.now() + UNKNOWN_DID_TTL_MS })
+    return new ServiceAuthError(reason)
+  }
+}
+
+function documentUrl(did: string): string {
+  if (did.startsWith('did:plc:')) return `${FEED_CONFIG.AUTH.PLC_URL}/${did}`
+  if (did.startsWith('did:web:')) return `https://${decodeURIComponent(did.slice('did:web:'.length))}/.well-known/did.json`
+  throw new ServiceAuthError(`Unsupported DID method: ${did}`)
+}
+
+// ─── Resolver Override ──────────────────────────────
+
+const defaultResolver = new DidDocumentKeyResolver()
+let resolverOverride: KeyResolver | null = null
+
+/**
+ * Swap the key resolver (simulation/tests). Pass null to restore the
+ * DID-document resolver.
+ */
+export function setKeyResolverOverride(resolver: KeyResolver | null): void {
+  resolverOverride = resolver
+}
+
+export function getKeyResolver(): KeyResolver {
+  return resolverOverride ?? defaultResolver
+}
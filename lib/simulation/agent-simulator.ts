@@ -0,0 +1,380 @@
+/**
+ * Agent Society Simulator
+ *
+ * Runs N meme pets against an in-memory Bluesky network and database
+ * on a virtual clock, driving the real BlueskyAgentWorkflow the same
+ * way the cron does: posting-rhythm decisions, interaction pairs,
+ * notification polling and periodic engagement. LLM calls go to the
+ * scripted mock provider, so a simulated day costs nothing, needs no
+ * network and is reproducible from its seed.
+ *
+ * Usage: see scripts/simulate-society.ts
+ *
+ * @module agent-simulator
+ */
+
+import { BLUESKY_CONFIG } from '@/lib/config/bluesky.config'
+import type { ModelTask } from '@/lib/config/model.config'
+import { setServiceSupabaseOverride } from '@/lib/api/service-supabase'
+import {
+  BlueskyAgentWorkflow,
+  type BlueskyAgentMode,
+  type BlueskyAgentWorkflowRequest,
+} from '@/lib/workflows/bluesky-agent-workflow'
+import { evaluatePostingDecision, emptyScheduleState, type Chronotype, type PetScheduleState } from '@/lib/agent/posting-rhythm'
+import { buildPersonalityFromRow } from '@/lib/agent/pet-personality-builder'
+import { planInteractions } from '@/lib/agent/matchmaking'
+import type { MoodState } from '@/lib/agent/mood/emotion-engine'
+import { clearSafetyCache } from '@/lib/workflows/modules/content-safety'
+import { VirtualClock, installSeededRandom } from './virtual-clock'
+import { InMemorySupabase } from './in-memory-supabase'
+import { InMemoryBlueskyNetwork } from './in-memory-bluesky'
+import { FakeWorkflowContext } from './fake-workflow-context'
+import { ScriptedLLM, type ScriptHandler } from './scripted-llm'
+
+// ─── Types ──────────────────────────────────────────
+
+export interface SimulatedPet {
+  id: string
+  name: string
+  handle: string
+  /** Contents of the pet.meme column (memePersonality, psyche, ...) */
+  meme: Record<string, unknown>
+  frequency?: 'high' | 'medium' | 'low'
+  chronotype?: Chronotype
+  utcOffsetHours?: number
+  /** Defaults to 'auto'; 'review' parks content in bluesky_review_queue */
+  publishMode?: 'auto' | 'review'
+}
+
+export interface SimulatedHumanPost {
+  /** Hours after simulation start */
+  atHour: number
+  handle: string
+  text: string
+}
+
+export interface SimulationOptions {
+  pets: SimulatedPet[]
+  start: Date | string
+  durationHours: number
+  tickMinutes?: number
+  seed?: number
+  /** Chance per tick that a random pet pair interacts */
+  interactionChance?: number
+  engagementIntervalMinutes?: number
+  humanPosts?: SimulatedHumanPost[]
+  scripts?: Partial<Record<ModelTask, ScriptHandler>>
+}
+
+export interface TimelineEvent {
+  at: string
+  petId: string | null
+  actor: string
+  kind: string
+  text: string
+  uri?: string
+  metadata?: Record<string, unknown>
+}
+
+export interface MoodPoint {
+  at: string
+  pleasure: number
+  arousal: number
+  dominance: number
+  emotion: string
+}
+
+export interface RelationshipPoint {
+  at: string
+  petIdA: string
+  petIdB: string
+  sentiment: string
+  score: number
+  interactionCount: number
+}
+
+export interface SimulationResult {
+  timeline: TimelineEvent[]
+  moodTrajectories: Record<string, MoodPoint[]>
+  relationships: RelationshipPoint[]
+  stats: {
+    ticks: number
+    workflowRuns: Partial<Record<BlueskyAgentMode, number>>
+    activity: Record<string, number>
+    llmCalls: Partial<Record<ModelTask, number>>
+    errors: number
+  }
+}
+
+type Row = Record<string, unknown>
+
+// ─── Runner ─────────────────────────────────────────
+
+export async function runSimulation(options: SimulationOptions): Promise<SimulationResult> {
+  if (!BLUESKY_CONFIG.FEATURE_FLAGS.ENABLED) {
+    throw new Error('Simulation requires ENABLE_BLUESKY_AGENT=true before bluesky.config is loaded')
+  }
+  if (options.pets.length === 0) {
+    throw new Error('Simulation needs at least one pet')
+  }
+
+  const tickMs = (options.tickMinutes ?? 30) * 60 * 1000
+  const totalTicks = Math.ceil((options.durationHours * 60 * 60 * 1000) / tickMs)
+  const engagementIntervalMs = (options.engagementIntervalMinutes ?? 120) * 60 * 1000
+  const interactionChance = options.interactionChance ?? 0.25
+
+  const clock = new VirtualClock(options.start)
+  const startMs = clock.now()
+  const db = new InMemorySupabase()
+  const network = new InMemoryBlueskyNetwork()
+  const llm = new ScriptedLLM({ scripts: options.scripts })
+  const petNames = new Map(options.pets.map(pet => [pet.id, pet.name]))
+
+  const result: SimulationResult = {
+    timeline: [],
+    moodTrajectories: Object.fromEntries(options.pets.map(pet => [pet.id, []])),
+    relationships: [],
+    stats: { ticks: 0, workflowRuns: {}, activity: {}, llmCalls: {}, errors: 0 },
+  }
+
+  const queued: BlueskyAgentWorkflowRequest[] = []
+  let runCounter = 0
+  let loggedRows = 0
+
+  const runWorkflow = async (request: BlueskyAgentWorkflowRequest): Promise<void> => {
+    runCounter++
+    result.stats.workflowRuns[request.mode] = (result.stats.workflowRuns[request.mode] ?? 0) + 1
+    const context = new FakeWorkflowContext(request, `sim-run-${runCounter}`)
+    const workflow = new BlueskyAgentWorkflow(context.asWorkflowContext(), {
+      createBotClient: config => network.createClient(config),
+      triggerWorkflow: async (_endpoint, payload) => {
+        queued.push(payload as BlueskyAgentWorkflowRequest)
+        return { workflowRunId: `sim-queued-${queued.length}` }
+      },
+    })
+    try {
+      await workflow.execute()
+    } catch (error) {
+      result.stats.errors++
+      await workflow.handleFailure(error, 'simulated', {})
+    }
+    // Keep events within a tick strictly ordered
+    clock.advance(1000)
+  }
+
+  const restoreRandom = installSeededRandom(options.seed ?? 1)
+  clock.install()
+  setServiceSupabaseOverride(db as never)
+  llm.install()
+  // Cached verdicts from an earlier run would skip LLM calls and shift the script
+  clearSafetyCache()
+
+  try {
+    seedWorld(db, network, options)
+
+    for (let tick = 0; tick < totalTicks; tick++) {
+      clock.advance(startMs + tick * tickMs - clock.now())
+      result.stats.ticks++
+
+      // Humans post first so pets can notice them this tick
+      for (const post of options.humanPosts ?? []) {
+        const dueAt = startMs + post.atHour * 60 * 60 * 1000
+        if (dueAt < clock.now() || dueAt >= clock.now() + tickMs) continue
+        const account = network.accountByHandle(post.handle)!
+        const published = network.publish({ authorDid: account.did, text: post.text })
+        result.timeline.push({
+          at: clock.toISOString(),
+          petId: null,
+          actor: `@${post.handle}`,
+          kind: 'human_post',
+          text: post.text,
+          uri: published.uri,
+        })
+      }
+
+      // Proactive posting, gated by the same rhythm engine as the cron
+      for (const pet of options.pets) {
+        const config = configRow(db, pet.id)
+        const decision = evaluatePostingDecision({
+          now: new Date(),
+          state: (config.schedule_state as PetScheduleState | null) ?? emptyScheduleState(),
+          frequency: pet.frequency ?? 'medium',
+          chronotype: pet.chronotype ?? 'normal',
+          personality: buildPersonalityFromRow({ personality_type: null, psyche: null, meme: pet.meme }),
+          utcOffsetHours: pet.utcOffsetHours ?? -5,
+          pausedUntil: db.table('pet_owner_control').find(row => row.pet_id === pet.id)?.paused_until as string | null | undefined,
+        })
+        config.schedule_state = decision.updatedState
+        if (decision.shouldPost) await runWorkflow({ mode: 'proactive', petId: pet.id })
+      }
+
+      // Inter-pet interaction
+      if (options.pets.length >= 2 && Math.random() < interactionChance) {
+        const [pair] = await planInteractions(options.pets.map(pet => pet.id), { maxPairs: 1 })
+        if (pair) {
+          await runWorkflow({
+            mode: 'interaction',
+            petId: pair.initiatorPetId,
+            targetPetId: pair.targetPetId,
+          })
+        }
+      }
+
+      // Workflows triggered by other workflows (immediate responses)
+      while (queued.length > 0) {
+        await runWorkflow(queued.shift()!)
+      }
+
+      // Notification polling, skipping anything already replied to
+      for (const pet of options.pets) {
+        const config = configRow(db, pet.id)
+        const notifications = network.takeUnreadNotifications(config.did as string)
+          .filter(n => n.reason === 'mention' || n.reason === 'reply')
+        const handled = new Set(
+          db.table('bluesky_post_log')
+            .filter(row => row.pet_id === pet.id)
+            .map(row => (row.metadata as Row | null)?.inReplyTo)
+        )
+        for (const n of notifications) {
+          if (handled.has(n.uri)) continue
+          await runWorkflow({
+            mode: 'reactive',
+            petId: pet.id,
+            notification: {
+              uri: n.uri,
+              cid: n.cid,
+              authorHandle: n.authorHandle,
+              authorDid: n.authorDid,
+              text: n.text,
+              reason: n.reason as 'mention' | 'reply',
+              rootUri: n.rootUri,
+              rootCid: n.rootCid,
+            },
+          })
+        }
+      }
+
+      // Periodic engagement with non-pet posts
+      for (const pet of options.pets) {
+        const lastEngagement = db.table('bluesky_post_log')
+          .filter(row => row.pet_id === pet.id && String(row.activity_type).startsWith('engagement_'))
+          .map(row => new Date(row.created_at as string).getTime())
+          .reduce((latest, t) => Math.max(latest, t), -Infinity)
+        if (clock.now() - lastEngagement >= engagementIntervalMs) {
+          await runWorkflow({ mode: 'engagement', petId: pet.id })
+        }
+      }
+
+      // Turn new log rows into timeline events
+      const logRows = db.table('bluesky_post_log')
+      for (const row of logRows.slice(loggedRows)) {
+        const activity = row.activity_type as string
+        result.stats.activity[activity] = (result.stats.activity[activity] ?? 0) + 1
+        result.timeline.push({
+          at: row.created_at as string,
+          petId: row.pet_id as string,
+          actor: petNames.get(row.pet_id as string) ?? (row.pet_id as string),
+          kind: activity,
+          text: row.content as string,
+          ...(row.post_uri ? { uri: row.post_uri as string } : {}),
+          ...(row.metadata ? { metadata: row.metadata as Record<string, unknown> } : {}),
+        })
+      }
+      loggedRows = logRows.length
+
+      snapshotMoods(db, result)
+      snapshotRelationships(db, result)
+    }
+  } finally {
+    llm.uninstall()
+    setServiceSupabaseOverride(null)
+    clock.uninstall()
+    restoreRandom()
+  }
+
+  result.stats.llmCalls = llm.countByTask()
+  return result
+}
+
+// ─── Setup & Snapshots ──────────────────────────────
+
+function seedWorld(db: InMemorySupabase, network: InMemoryBlueskyNetwork, options: SimulationOptions): void {
+  for (const pet of options.pets) {
+    const did = `did:sim:${pet.handle}`
+    network.registerAccount({ did, handle: pet.handle, isBot: true })
+    db.seed('pet', [{ id: pet.id, name: pet.name, meme: pet.meme }])
+    db.seed('bluesky_bot_config', [{
+      id: `config-${pet.id}`,
+      pet_id: pet.id,
+      handle: pet.handle,
+      did,
+      app_password: 'simulated',
+      is_active: true,
+      posting_frequency: pet.frequency ?? 'medium',
+      chronotype: pet.chronotype ?? 'normal',
+      schedule_state: null,
+      utc_offset_hours: pet.utcOffsetHours ?? -5,
+      publish_mode: pet.publishMode ?? 'auto',
+    }])
+  }
+
+  for (const handle of new Set((options.humanPosts ?? []).map(post => post.handle))) {
+    network.registerAccount({ did: `did:sim:${handle}`, handle, isBot: false })
+  }
+}
+
+function configRow(db: InMemorySupabase, petId: string): Row {
+  return db.table('bluesky_bot_config').find(row => row.pet_id === petId)!
+}
+
+function snapshotMoods(db: InMemorySupabase, result: SimulationResult): void {
+  for (const row of db.table('bot_memory')) {
+    const mood = (row.memory as { moodState?: MoodState } | null)?.moodState
+    const trajectory = result.moodTrajectories[row.pet_id as string]
+    if (!mood || !trajectory) continue
+    if (trajectory[trajectory.length - 1]?.at === mood.lastUpdated) continue
+    trajectory.push({
+      at: mood.lastUpdated,
+      pleasure: mood.pleasure,
+      arousal: mood.arousal,
+      dominance: mood.dominance,
+      emotion: mood.currentEmotion,
+    })
+  }
+}
+
+function snapshotRelationships(db: InMemorySupabase, result: SimulationResult): void {
+  for (const row of db.table('pet_relationship')) {
+    const previous = [...result.relationships]
+      .reverse()
+      .find(point => point.petIdA === row.pet_id_a && point.petIdB === row.pet_id_b)
+    if (previous?.interactionCount === row.interaction_count) continue
+    result.relationships.push({
+      at: (row.updated_at as string) ?? new Date().toISOString(),
+      petIdA: row.pet_id_a as string,
+      petIdB: row.pet_id_b as string,
+      sentiment: row.sentiment as string,
+      score: row.sentiment_score as number,
+      interactionCount: row.interaction_count as number,
+    })
+  }
+}
+
+// ─── Formatting ─────────────────────────────────────
+
+/**
+ * Human-readable timeline, one line per event.
+ */
+export function formatTimeline(result: SimulationResult): string {
+  const lines = result.timeline.map(event => {
+    const time = event.at.slice(0, 16).replace('T', ' ')
+    return `${time}  ${event.actor.padEnd(16)} ${event.kind.padEnd(22)} ${event.text}`
+  })
+  const activity = Object.entries(result.stats.activity)
+    .map(([kind, count]) => `${kind}=${count}`)
+    .join(' ')
+  lines.push('', `${result.stats.ticks} ticks, ${result.timeline.length} events, ${result.stats.errors} errors`)
+  if (activity) lines.push(activity)
+  return lines.join('\n')
+}
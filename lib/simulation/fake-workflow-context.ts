@@ -0,0 +1,37 @@
+/**
+ * Fake Workflow Context
+ *
+ * Minimal stand-in for Upstash `WorkflowContext`: runs each step
+ * inline, in order, and round-trips step results through JSON the
+ * same way Upstash persists them — so a step that returns a Set or a
+ * Date breaks in simulation exactly as it would in production.
+ *
+ * @module fake-workflow-context
+ */
+
+import type { WorkflowContext } from '@upstash/workflow'
+
+export interface RecordedStep {
+  name: string
+  durationMs: number
+}
+
+export class FakeWorkflowContext<TPayload> {
+  readonly steps: RecordedStep[] = []
+
+  constructor(
+    readonly requestPayload: TPayload,
+    readonly workflowRunId: string
+  ) {}
+
+  async run<T>(stepName: string, fn: () => Promise<T> | T): Promise<T> {
+    const startedAt = Date.now()
+    const result = await fn()
+    this.steps.push({ name: stepName, durationMs: Date.now() - startedAt })
+    return (result === undefined ? undefined : JSON.parse(JSON.stringify(result))) as T
+  }
+
+  asWorkflowContext(): WorkflowContext<TPayload> {
+    return this as unknown as WorkflowContext<TPayload>
+  }
+}
@@ -0,0 +1,601 @@
+/**
+ * In-Memory Bluesky Network
+ *
+ * A tiny offline AT Protocol world: accounts, posts, replies, quotes,
+ * likes, follows, mutes, blocks, moderation lists and mention/reply/
+ * follow notifications (hidden from bots that muted or blocked the
+ * author). `InMemoryBlueskyBotClient`
+ * is a drop-in `BlueskyBotClient` whose reads and writes hit this
+ * network instead of a PDS, so the real workflow code runs unchanged.
+ *
+ * Keeps the publishing-layer political guardrail so simulated runs
+ * exercise the same last line of defense as production, and charges
+ * writes to a network-wide rate limit ledger shared by every client.
+ *
+ * @module in-memory-bluesky
+ */
+
+import type { AppBskyActorDefs, AppBskyFeedDefs } from '@atproto/api'
+import {
+  BlueskyBotClient,
+  PoliticalContentBlockedError,
+  type BlueskyBotConfig,
+  type BlueskyNotification,
+  type BlueskyPostResult,
+  type BlueskyReplyRef,
+  type PublishOptions,
+} from '@/lib/services/bluesky-client'
+import { PUBLISH_COLLECTIONS, type PublishCollection } from '@/lib/services/publish-intents'
+import type { RateLimitLedger } from '@/lib/services/rate-limit-ledger'
+import { isPoliticalContent } from '@/lib/workflows/modules/political-filter'
+import { InMemoryRateLimitLedger } from './in-memory-rate-limit-ledger'
+
+// ─── Types ──────────────────────────────────────────
+
+export interface SimAccount {
+  did: string
+  handle: string
+  isBot: boolean
+  /** Moderation labels on the account (e.g. 'spam') */
+  labels?: string[]
+}
+
+export interface SimPost {
+  uri: string
+  cid: string
+  authorDid: string
+  text: string
+  createdAt: string
+  reply?: BlueskyReplyRef
+  quotedUri?: string
+  hasImage: boolean
+  likedBy: Set<string>
+}
+
+export interface SimNotification {
+  recipientDid: string
+  reason: 'mention' | 'reply' | 'quote' | 'follow'
+  uri: string
+  cid: string
+  authorDid: string
+  authorHandle: string
+  text: string
+  rootUri?: string
+  rootCid?: string
+  isRead: boolean
+  indexedAt: string
+}
+
+// ─── Network ────────────────────────────────────────
+
+export class InMemoryBlueskyNetwork {
+  private readonly accounts = new Map<string, SimAccount>()
+  private readonly posts = new Map<string, SimPost>()
+  private readonly notifications: SimNotification[] = []
+  /** `${byDid} ${did}` */
+  private readonly mutes = new Set<string>()
+  private readonly blocks = new Map<string, { byDid: string; did: string }>()
+  private readonly lists = new Map<string, { ownerDid: string; name: string; items: Map<string, string> }>()
+  /** List URIs each account muted */
+  private readonly mutedLists = new Map<string, Set<string>>()
+  /** Follow record URI → edge, oldest first */
+  private readonly follows = new Map<string, { byDid: string; did: string; createdAt: string }>()
+  private postCounter = 0
+  private recordCounter = 0
+  /** AT Protocol point budgets, shared like the production ledger */
+  readonly rateLimits = new InMemoryRateLimitLedger()
+  /** Accounts with a live session; later clients resume it instead of logging in */
+  private readonly sessions = new Set<string>()
+
+  registerAccount(account: SimAccount): void {
+    this.accounts.set(account.did, account)
+  }
+
+  accountByHandle(handle: string): SimAccount | undefined {
+    for (const account of this.accounts.values()) {
+      if (account.handle === handle) return account
+    }
+    return undefined
+  }
+
+  account(did: string): SimAccount | undefined {
+    return this.accounts.get(did)
+  }
+
+  getPost(uri: string): SimPost | undefined {
+    return this.posts.get(uri)
+  }
+
+  allPosts(): SimPost[] {
+    return Array.from(this.posts.values())
+  }
+
+  createClient(config: BlueskyBotConfig): InMemoryBlueskyBotClient {
+    return new InMemoryBlueskyBotClient(config, this)
+  }
+
+  hasSession(did: string): boolean {
+    return this.sessions.has(did)
+  }
+
+  startSession(did: string): void {
+    this.sessions.add(did)
+  }
+
+  /**
+   * Publish a post and fan out reply/mention/quote notifications.
+   */
+  publish(params: {
+    authorDid: string
+    text: string
+    reply?: BlueskyReplyRef
+    quotedUri?: string
+    hasImage?: boolean
+    /** Record key picked by the client, like createRecord's rkey */
+    rkey?: string
+  }): SimPost {
+    const author = this.accounts.get(params.authorDid)
+    if (!author) throw new Error(`Unknown simulated account ${params.authorDid}`)
+
+    this.postCounter++
+    const rkey = params.rkey ?? `sim${this.postCounter.toString().padStart(6, '0')}`
+    const uri = `at://${author.did}/app.bsky.feed.post/${rkey}`
+    if (this.posts.has(uri)) throw new Error(`Record already exists: ${uri}`)
+    const post: SimPost = {
+      uri,
+      cid: `cid-${rkey}`,
+      authorDid: author.did,
+      text: params.text,
+      createdAt: new Date().toISOString(),
+      reply: params.reply,
+      quotedUri: params.quotedUri,
+      hasImage: params.hasImage ?? false,
+      likedBy: new Set(),
+    }
+    this.posts.set(post.uri, post)
+    this.fanOut(post, author)
+    return post
+  }
+
+  /** Accounts the text @-mentions, as facet detection would resolve them */
+  mentionedDids(text: string): string[] {
+    const dids = new Set<string>()
+    for (const match of text.matchAll(/@([a-z0-9][a-z0-9.-]*[a-z0-9])/gi)) {
+      const did = this.accountByHandle(match[1].toLowerCase())?.did
+      if (did) dids.add(did)
+    }
+    return [...dids]
+  }
+
+  like(uri: string, likerDid: string): void {
+    this.posts.get(uri)?.likedBy.add(likerDid)
+  }
+
+  /** Follow notifications, read or not, newest first; marks nothing read */
+  followNotifications(recipientDid: string, limit: number): SimNotification[] {
+    return this.notifications
+      .filter(n => n.recipientDid === recipientDid && n.reason === 'follow')
+      .reverse()
+      .slice(0, limit)
+  }
+
+  takeUnreadNotifications(recipientDid: string): SimNotification[] {
+    const unread = this.notifications.filter(n => n.recipientDid === recipientDid && !n.isRead)
+    for (const n of unread) n.isRead = true
+    return unread.filter(n => !this.isMuted(recipientDid, n.authorDid) && !this.isBlocked(recipientDid, n.authorDid))
+  }
+
+  // ─── Follow Graph ───────────────────────────────────
+
+  /** Follow an account and notify it; returns the follow record URI */
+  follow(byDid: string, did: string, rkey?: string, createdAt: string = new Date().toISOString()): string {
+    const follower = this.accounts.get(byDid)
+    if (!follower) throw new Error(`Unknown simulated account ${byDid}`)
+    const uri = rkey ? `at://${byDid}/app.bsky.graph.follow/${rkey}` : this.recordUri(byDid, 'app.bsky.graph.follow')
+    if (this.follows.has(uri)) throw new Error(`Record already exists: ${uri}`)
+    this.follows.set(uri, { byDid, did, createdAt })
+    if (this.accounts.has(did)) {
+      this.notifications.push({
+        recipientDid: did,
+        reason: 'follow',
+        uri,
+        cid: `cid-${uri.split('/').pop()}`,
+        authorDid: follower.did,
+        authorHandle: follower.handle,
+        text: '',
+        isRead: false,
+        indexedAt: createdAt,
+      })
+    }
+    return uri
+  }
+
+  unfollow(uri: string): void {
+    this.follows.delete(uri)
+  }
+
+  hasFollowRecord(uri: string): boolean {
+    return this.follows.has(uri)
+  }
+
+  /** URI of byDid's follow of did, if any */
+  followUri(byDid: string, did: string): string | undefined {
+    for (const [uri, edge] of this.follows) {
+      if (edge.byDid === byDid && edge.did === did) return uri
+    }
+    return undefined
+  }
+
+  /** Accounts following did, newest first */
+  followersOf(did: string): string[] {
+    return [...this.follows.values()]
+      .filter(edge => edge.did === did)
+      .reverse()
+      .map(edge => edge.byDid)
+  }
+
+  /** What viewerDid sees of the account, like app.bsky.actor.getProfiles */
+  toProfileView(did: string, viewerDid: string): AppBskyActorDefs.ProfileViewDetailed | null {
+    const account = this.accounts.get(did)
+    if (!account) return null
+    const edges = [...this.follows.values()]
+    return {
+      did: account.did,
+      handle: account.handle,
+      postsCount: this.allPosts().filter(post => post.authorDid === did).length,
+      followersCount: edges.filter(edge => edge.did === did).length,
+      followsCount: edges.filter(edge => edge.byDid === did).length,
+      labels: (account.labels ?? []).map(val => ({ src: did, uri: `at://${did}/app.bsky.actor.profile/self`, val, cts: new Date(0).toISOString() })),
+      viewer: {
+        following: this.followUri(viewerDid, did),
+        followedBy: this.followUri(did, viewerDid),
+      },
+    }
+  }
+
+  // ─── Moderation ─────────────────────────────────────
+
+  setMuted(byDid: string, did: string, muted: boolean): void {
+    if (muted) this.mutes.add(`${byDid} ${did}`)
+    else this.mutes.delete(`${byDid} ${did}`)
+  }
+
+  /** Muted directly or through a muted moderation list */
+  isMuted(byDid: string, did: string): boolean {
+    if (this.mutes.has(`${byDid} ${did}`)) return true
+    for (const listUri of this.mutedLists.get(byDid) ?? []) {
+      if (this.listMembers(listUri).includes(did)) return true
+    }
+    return false
+  }
+
+  block(byDid: string, did: string): string {
+    const uri = this.recordUri(byDid, 'app.bsky.graph.block')
+    this.blocks.set(uri, { byDid, did })
+    return uri
+  }
+
+  unblock(uri: string): void {
+    this.blocks.delete(uri)
+  }
+
+  isBlocked(byDid: string, did: string): boolean {
+    for (const block of this.blocks.values()) {
+      if (block.byDid === byDid && block.did === did) return true
+    }
+    return false
+  }
+
+  createList(ownerDid: string, name: string): string {
+    const uri = this.recordUri(ownerDid, 'app.bsky.graph.list')
+    this.lists.set(uri, { ownerDid, name, items: new Map() })
+    return uri
+  }
+
+  addListItem(listUri: string, did: string): string {
+    const list = this.lists.get(listUri)
+    if (!list) throw new Error(`Unknown simulated list ${listUri}`)
+    const uri = this.recordUri(list.ownerDid, 'app.bsky.graph.listitem')
+    list.items.set(uri, did)
+    return uri
+  }
+
+  removeListItem(itemUri: string): void {
+    for (const list of this.lists.values()) list.items.delete(itemUri)
+  }
+
+  listMembers(listUri: string): string[] {
+    return [...this.lists.get(listUri)?.items.values() ?? []]
+  }
+
+  setListMuted(byDid: string, listUri: string, muted: boolean): void {
+    const listUris = this.mutedLists.get(byDid) ?? new Set<string>()
+    if (muted) listUris.add(listUri)
+    else listUris.delete(listUri)
+    this.mutedLists.set(byDid, listUris)
+  }
+
+  private recordUri(repoDid: string, collection: string): string {
+    this.recordCounter++
+    return `at://${repoDid}/${collection}/rec${this.recordCounter.toString().padStart(6, '0')}`
+  }
+
+  toPostView(post: SimPost): AppBskyFeedDefs.PostView {
+    const author = this.accounts.get(post.authorDid)
+    return {
+      uri: post.uri,
+      cid: post.cid,
+      author: { did: post.authorDid, handle: author?.handle ?? post.authorDid },
+      record: {
+        $type: 'app.bsky.feed.post',
+        text: post.text,
+        createdAt: post.createdAt,
+        ...(post.reply ? { reply: post.reply } : {}),
+      },
+      likeCount: post.likedBy.size,
+      indexedAt: post.createdAt,
+    } as AppBskyFeedDefs.PostView
+  }
+
+  private fanOut(post: SimPost, author: SimAccount): void {
+    const notified = new Set<string>([author.did])
+    const notify = (recipientDid: string | undefined, reason: SimNotification['reason']) => {
+      if (!recipientDid || notified.has(recipientDid) || !this.accounts.has(recipientDid)) return
+      notified.add(recipientDid)
+      this.notifications.push({
+        recipientDid,
+        reason,
+        uri: post.uri,
+        cid: post.cid,
+        authorDid: author.did,
+        authorHandle: author.handle,
+        text: post.text,
+        rootUri: post.reply?.root.uri,
+        rootCid: post.reply?.root.cid,
+        isRead: false,
+        indexedAt: post.createdAt,
+      })
+    }
+
+    if (post.reply) notify(this.posts.get(post.reply.parent.uri)?.authorDid, 'reply')
+    if (post.quotedUri) notify(this.posts.get(post.quotedUri)?.authorDid, 'quote')
+    for (const did of this.mentionedDids(post.text)) notify(did, 'mention')
+  }
+}
+
+// ─── Client Double ──────────────────────────────────
+
+export class InMemoryBlueskyBotClient extends BlueskyBotClient {
+  private authenticated = false
+  private readonly account: SimAccount
+
+  constructor(
+    config: BlueskyBotConfig,
+    private readonly network: InMemoryBlueskyNetwork
+  ) {
+    super(config)
+    const account = (config.did ? network.account(config.did) : undefined)
+      ?? network.accountByHandle(config.handle)
+    if (!account) throw new Error(`No simulated account for ${config.handle}`)
+    this.account = account
+  }
+
+  async authenticate(): Promise<void> {
+    if (!this.network.hasSession(this.did)) {
+      await this.chargeLogin()
+      this.network.startSession(this.did)
+    }
+    this.authenticated = true
+  }
+
+  get did(): string {
+    return this.account.did
+  }
+
+  get handle(): string {
+    return this.account.handle
+  }
+
+  get isAuthenticated(): boolean {
+    return this.authenticated
+  }
+
+  async post(
+    text: string,
+    imageBlob?: Uint8Array,
+    _imageAlt?: string,
+    options: PublishOptions = {}
+  ): Promise<BlueskyPostResult> {
+    this.guard(text)
+    const published = await this.publishOnce(PUBLISH_COLLECTIONS.POST, options.idempotencyKey, async (rkey, charge) => {
+      await charge('post')
+      if (imageBlob) await charge('blob_upload')
+      const post = this.network.publish({ authorDid: this.did, text, hasImage: !!imageBlob, rkey })
+      return { uri: post.uri, cid: post.cid }
+    })
+    return { ...published, mentionedDids: this.network.mentionedDids(text) }
+  }
+
+  async reply(text: string, replyRef: BlueskyReplyRef, options: PublishOptions = {}): Promise<BlueskyPostResult> {
+    this.guard(text)
+    const published = await this.publishOnce(PUBLISH_COLLECTIONS.POST, options.idempotencyKey, async (rkey, charge) => {
+      await charge('post')
+      const post = this.network.publish({ authorDid: this.did, text, reply: replyRef, rkey })
+      return { uri: post.uri, cid: post.cid }
+    })
+    return { ...published, mentionedDids: this.network.mentionedDids(text) }
+  }
+
+  async quotePost(
+    text: string,
+    quotedUri: string,
+    _quotedCid?: string,
+    options: PublishOptions = {}
+  ): Promise<BlueskyPostResult> {
+    this.guard(text)
+    const published = await this.publishOnce(PUBLISH_COLLECTIONS.POST, options.idempotencyKey, async (rkey, charge) => {
+      await charge('post')
+      const post = this.network.publish({ authorDid: this.did, text, quotedUri, rkey })
+      return { uri: post.uri, cid: post.cid }
+    })
+    return { ...published, mentionedDids: this.network.mentionedDids(text) }
+  }
+
+  async like(uri: string): Promise<void> {
+    // Likes are a set per post here, so a retried like is already a no-op
+    await this.chargePoints('like')
+    this.network.like(uri, this.did)
+  }
+
+  async follow(did: string, options: PublishOptions = {}): Promise<string> {
+    // Timelines still show everyone; follows only feed the follow graph
+    const { uri } = await this.publishOnce(PUBLISH_COLLECTIONS.FOLLOW, options.idempotencyKey, async (rkey, charge) => {
+      await charge('follow')
+      const uri = this.network.follow(this.did, did, rkey)
+      return { uri, cid: `cid-${uri.split('/').pop()}` }
+    })
+    return uri
+  }
+
+  async unfollow(followUri: string): Promise<void> {
+    await this.chargePoints('delete')
+    this.network.unfollow(followUri)
+  }
+
+  async getFollowNotifications(limit = 50): Promise<BlueskyNotification[]> {
+    return this.network.followNotifications(this.did, limit).map(n => this.toNotification(n))
+  }
+
+  async getProfiles(dids: string[]): Promise<AppBskyActorDefs.ProfileViewDetailed[]> {
+    return dids
+      .map(did => this.network.toProfileView(did, this.did))
+      .filter((profile): profile is AppBskyActorDefs.ProfileViewDetailed => profile !== null)
+  }
+
+  async mute(did: string): Promise<void> {
+    this.network.setMuted(this.did, did, true)
+  }
+
+  async unmute(did: string): Promise<void> {
+    this.network.setMuted(this.did, did, false)
+  }
+
+  async block(did: string): Promise<string> {
+    await this.chargePoints('follow')
+    return this.network.block(this.did, did)
+  }
+
+  async unblock(blockUri: string): Promise<void> {
+    await this.chargePoints('delete')
+    this.network.unblock(blockUri)
+  }
+
+  async createModList(name: string): Promise<string> {
+    await this.chargePoints('follow')
+    return this.network.createList(this.did, name)
+  }
+
+  async addToList(listUri: string, did: string): Promise<string> {
+    await this.chargePoints('follow')
+    return this.network.addListItem(listUri, did)
+  }
+
+  async removeFromList(listItemUri: string): Promise<void> {
+    await this.chargePoints('delete')
+    this.network.removeListItem(listItemUri)
+  }
+
+  async muteList(listUri: string): Promise<void> {
+    this.network.setListMuted(this.did, listUri, true)
+  }
+
+  async unmuteList(listUri: string): Promise<void> {
+    this.network.setListMuted(this.did, listUri, false)
+  }
+
+  async getTimeline(limit = 30): Promise<{ feed: AppBskyFeedDefs.FeedViewPost[]; cursor?: string }> {
+    const feed = this.recent(post => post.authorDid !== this.did, limit)
+    return { feed: feed.map(post => ({ post: this.network.toPostView(post) })) }
+  }
+
+  async searchPosts(params: { query: string; limit?: number }): Promise<AppBskyFeedDefs.PostView[]> {
+    await this.chargePoints('search')
+    const query = params.query.toLowerCase()
+    return this.recent(post => post.text.toLowerCase().includes(query), params.limit ?? 20)
+      .map(post => this.network.toPostView(post))
+  }
+
+  async getDiscoverFeed(limit = 30): Promise<AppBskyFeedDefs.FeedViewPost[]> {
+    return this.recent(post => !this.network.account(post.authorDid)?.isBot, limit)
+      .map(post => ({ post: this.network.toPostView(post) }))
+  }
+
+  async getUnreadNotifications(): Promise<BlueskyNotification[]> {
+    // Unread as of this call; taking them marks them read on the network
+    return this.network.takeUnreadNotifications(this.did).map(n => ({ ...this.toNotification(n), isRead: false }))
+  }
+
+  async markNotificationsRead(): Promise<void> {
+    // takeUnreadNotifications already marks them read
+  }
+
+  async getPost(uri: string): Promise<AppBskyFeedDefs.PostView | null> {
+    const post = this.network.getPost(uri)
+    return post ? this.network.toPostView(post) : null
+  }
+
+  async getOwnRecentPosts(limit = 10): Promise<AppBskyFeedDefs.FeedViewPost[]> {
+    return this.recent(post => post.authorDid === this.did, limit)
+      .map(post => ({ post: this.network.toPostView(post) }))
+  }
+
+  async setProfile(): Promise<void> {}
+
+  async refreshHandle(): Promise<void> {}
+
+  protected async findOwnRecord(collection: PublishCollection, rkey: string): Promise<BlueskyPostResult | null> {
+    const uri = `at://${this.did}/${collection}/${rkey}`
+    if (collection === PUBLISH_COLLECTIONS.FOLLOW) {
+      return this.network.hasFollowRecord(uri) ? { uri, cid: `cid-${rkey}` } : null
+    }
+    const post = this.network.getPost(uri)
+    return post ? { uri: post.uri, cid: post.cid } : null
+  }
+
+  protected rateLimitLedger(): RateLimitLedger {
+    return this.network.rateLimits
+  }
+
+  private recent(predicate: (post: SimPost) => boolean, limit: number): SimPost[] {
+    // Newest first; reverse insertion order breaks same-timestamp ties
+    return this.network.allPosts()
+      .filter(predicate)
+      .reverse()
+      .sort((a, b) => (a.createdAt < b.createdAt ? 1 : a.createdAt > b.createdAt ? -1 : 0))
+      .slice(0, limit)
+  }
+
+  private toNotification(n: SimNotification): BlueskyNotification {
+    return {
+      uri: n.uri,
+      cid: n.cid,
+      author: { did: n.authorDid, handle: n.authorHandle },
+      reason: n.reason,
+      record: {
+        text: n.text,
+        ...(n.rootUri ? { reply: { root: { uri: n.rootUri, cid: n.rootCid } } } : {}),
+      },
+      isRead: n.isRead,
+      indexedAt: n.indexedAt,
+    } as BlueskyNotification
+  }
+
+  private guard(text: string): void {
+    if (!this.authenticated) {
+      throw new Error(`Bluesky bot ${this.handle} is not authenticated. Call authenticate() first.`)
+    }
+    if (isPoliticalContent(text)) {
+      throw new PoliticalContentBlockedError(text)
+    }
+  }
+}
@@ -0,0 +1,134 @@
+/**
+ * In-Memory Rate Limit Ledger
+ *
+ * Stand-in for the Postgres rate limit ledger with the same token
+ * bucket arithmetic as the bluesky_rate_limit_* SQL functions. Buckets
+ * start full and refill continuously; `now` follows the virtual clock
+ * when one is installed. Logins draw from their own buckets.
+ *
+ * @module in-memory-rate-limit-ledger
+ */
+
+import { AT_PROTO_RATE_LIMITS } from '@/lib/config/bluesky.config'
+import type {
+  RateLimitCharge,
+  RateLimitLedger,
+  RateLimitReservation,
+} from '@/lib/services/rate-limit-ledger'
+
+interface Bucket {
+  hourTokens: number
+  dayTokens: number
+  refilledAt: number
+}
+
+interface Reservation {
+  petId: string
+  pointsRemaining: number
+  expiresAt: number
+}
+
+interface Capacity {
+  hour: number
+  day: number
+}
+
+const POINTS: Capacity = { hour: AT_PROTO_RATE_LIMITS.POINTS_PER_HOUR, day: AT_PROTO_RATE_LIMITS.POINTS_PER_DAY }
+const LOGINS: Capacity = { hour: AT_PROTO_RATE_LIMITS.LOGINS_PER_HOUR, day: AT_PROTO_RATE_LIMITS.LOGINS_PER_DAY }
+
+export class InMemoryRateLimitLedger implements RateLimitLedger {
+  private readonly buckets = new Map<string, Bucket>()
+  private readonly reservations = new Map<string, Reservation>()
+  private reservationCounter = 0
+
+  constructor(private readonly now: () => number = () => Date.now()) {}
+
+  async charge(petId: string, points: number, reservationId?: string): Promise<RateLimitCharge> {
+    const reservation = reservationId ? this.liveReservation(reservationId, petId) : undefined
+    const fromReservation = reservation ? Math.min(reservation.pointsRemaining, points) : 0
+    const charge = this.take(`points:${petId}`, POINTS, points - fromReservation)
+    if (charge.allowed && reservation) reservation.pointsRemaining -= fromReservation
+    return charge
+  }
+
+  async chargeLogin(petId: string): Promise<RateLimitCharge> {
+    return this.take(`login:${petId}`, LOGINS, 1)
+  }
+
+  async reserve(
+    petId: string,
+    points: number,
+    ttlSeconds: number = AT_PROTO_RATE_LIMITS.RESERVATION_TTL_SECONDS
+  ): Promise<RateLimitReservation> {
+    const charged = await this.charge(petId, points)
+    if (!charged.allowed) return { ...charged, reservationId: null }
+
+    this.reservationCounter++
+    const reservationId = `reservation-${this.reservationCounter}`
+    this.reservations.set(reservationId, {
+      petId,
+      pointsRemaining: points,
+      expiresAt: this.now() + ttlSeconds * 1000,
+    })
+    return { ...charged, reservationId }
+  }
+
+  async release(reservationId: string): Promise<number> {
+    const reservation = this.reservations.get(reservationId)
+    this.reservations.delete(reservationId)
+    if (!reservation || reservation.expiresAt <= this.now() || reservation.pointsRemaining === 0) return 0
+
+    const bucket = this.refill(`points:${reservation.petId}`, POINTS)
+    bucket.hourTokens = Math.min(POINTS.hour, bucket.hourTokens + reservation.pointsRemaining)
+    bucket.dayTokens = Math.min(POINTS.day, bucket.dayTokens + reservation.pointsRemaining)
+    return reservation.pointsRemaining
+  }
+
+  /** Points left in the pet's buckets right now */
+  remaining(petId: string): { hourRemaining: number; dayRemaining: number } {
+    return remaining(this.refill(`points:${petId}`, POINTS))
+  }
+
+  /** Logins left in the pet's login buckets right now */
+  loginsRemaining(petId: string): { hourRemaining: number; dayRemaining: number } {
+    return remaining(this.refill(`login:${petId}`, LOGINS))
+  }
+
+  private take(key: string, capacity: Capacity, needed: number): RateLimitCharge {
+    const bucket = this.refill(key, capacity)
+
+    if (bucket.hourTokens < needed || bucket.dayTokens < needed) {
+      const retryAfterSeconds = Math.ceil(Math.max(
+        (needed - bucket.hourTokens) / (capacity.hour / 3600),
+        (needed - bucket.dayTokens) / (capacity.day / 86400)
+      ))
+      return { allowed: false, ...remaining(bucket), retryAfterSeconds }
+    }
+
+    bucket.hourTokens -= needed
+    bucket.dayTokens -= needed
+    return { allowed: true, ...remaining(bucket), retryAfterSeconds: 0 }
+  }
+
+  private refill(key: string, capacity: Capacity): Bucket {
+    const now = this.now()
+    const bucket = this.buckets.get(key) ?? { hourTokens: capacity.hour, dayTokens: capacity.day, refilledAt: now }
+    const elapsedSeconds = Math.max(0, (now - bucket.refilledAt) / 1000)
+    bucket.hourTokens = Math.min(capacity.hour, bucket.hourTokens + elapsedSeconds * capacity.hour / 3600)
+    bucket.dayTokens = Math.min(capacity.day, bucket.dayTokens + elapsedSeconds * capacity.day / 86400)
+    bucket.refilledAt = now
+    this.buckets.set(key, bucket)
+    return bucket
+  }
+
+  private liveReservation(reservationId: string, petId: string): Reservation | undefined {
+    const reservation = this.reservations.get(reservationId)
+    return reservation && reservation.petId === petId && reservation.expiresAt > this.now()
+      ? reservation
+      : undefined
+  }
+}
+
+function remaining(bucket: Bucket): { hourRemaining: number; dayRemaining: number } {
+  return { hourRemaining: Math.floor(bucket.hourTokens), dayRemaining: Math.floor(bucket.dayTokens) }
+}
@@ -0,0 +1,408 @@
+/**
+ * In-Memory Supabase Stand-In
+ *
+ * Implements the slice of the supabase-js query builder the agent
+ * actually uses (select/insert/update/upsert/delete, eq/neq/in/gt/gte/
+ * lt/lte/is/not/or/contains filters, `col->>key` JSON paths, order/limit, single/
+ * maybeSingle, count+head) over plain arrays of rows. rpc() runs TypeScript
+ * stand-ins for the SQL functions listed in RPC_FUNCTIONS.
+ *
+ * Tables are created on first use, so bluesky_post_log, bluesky_bot_config,
+ * pet_relationship, bot_memory and pet all work without a schema.
+ *
+ * @module in-memory-supabase
+ */
+
+type Row = Record<string, unknown>
+
+interface QueryResult {
+  data: unknown
+  error: { message: string } | null
+  count: number | null
+}
+
+type Filter = (row: Row) => boolean
+
+// ─── Database ───────────────────────────────────────
+
+export class InMemorySupabase {
+  private readonly tables = new Map<string, Row[]>()
+  private nextId = 1
+
+  from(table: string): InMemoryQuery {
+    return new InMemoryQuery(this, table)
+  }
+
+  /** Call a SQL function stand-in; unknown names error like PostgREST */
+  async rpc(name: string, params: Record<string, unknown> = {}): Promise<QueryResult> {
+    const fn = RPC_FUNCTIONS[name]
+    if (!fn) return { data: null, error: { message: `Could not find the function public.${name}` }, count: null }
+    return { data: clone(fn(this, params)), error: null, count: null }
+  }
+
+  /** Direct access for seeding and inspection (returns live rows). */
+  table(name: string): Row[] {
+    let rows = this.tables.get(name)
+    if (!rows) {
+      rows = []
+      this.tables.set(name, rows)
+    }
+    return rows
+  }
+
+  seed(name: string, rows: Row[]): void {
+    for (const row of rows) this.table(name).push(this.withDefaults(row))
+  }
+
+  /** @internal */
+  withDefaults(row: Row): Row {
+    return {
+      id: `row-${this.nextId++}`,
+      created_at: new Date().toISOString(),
+      ...clone(row),
+    }
+  }
+}
+
+// ─── Functions ──────────────────────────────────────
+
+const RPC_FUNCTIONS: Record<string, (db: InMemorySupabase, params: Record<string, unknown>) => unknown> = {
+  /** Nearest episodes by cosine distance (migration 20260308140000) */
+  bluesky_recall_episodes(db, params) {
+    const query = params.p_query as number[]
+    return db.table('bluesky_memory_episode')
+      .filter(row =>
+        row.pet_id === params.p_pet_id
+        && row.embedder === params.p_embedder
+        && compare(row.created_at, params.p_before) <= 0
+      )
+      .map(row => ({
+        kind: row.kind,
+        content: row.content,
+        topic: row.topic ?? null,
+        partner_pet_id: row.partner_pet_id ?? null,
+        partner_did: row.partner_did ?? null,
+        partner_handle: row.partner_handle ?? null,
+        created_at: row.created_at,
+        similarity: cosine(query, row.embedding as number[]),
+      }))
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, params.p_limit as number)
+  },
+}
+
+function cosine(a: readonly number[], b: readonly number[]): number {
+  let dot = 0
+  let normA = 0
+  let normB = 0
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i]
+    normA += a[i] * a[i]
+    normB += b[i] * b[i]
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0
+}
+
+// ─── Query Builder ──────────────────────────────────
+
+type Operation =
+  | { kind: 'select' }
+  | { kind: 'insert'; rows: Row[] }
+  | { kind: 'update'; patch: Row }
+  | { kind: 'upsert'; rows: Row[]; conflictKeys: string[]; ignoreDuplicates: boolean }
+  | { kind: 'delete' }
+
+export class InMemoryQuery implements PromiseLike<QueryResult> {
+  private operation: Operation = { kind: 'select' }
+  private columns: string | null = null
+  private countRequested = false
+  private headOnly = false
+  private readonly filters: Filter[] = []
+  private ordering: Array<{ column: string; ascending: boolean }> = []
+  private limitCount: number | null = null
+  private cardinality: 'many' | 'single' | 'maybeSingle' = 'many'
+
+  constructor(
+    private readonly db: InMemorySupabase,
+    private readonly tableName: string
+  ) {}
+
+  // ── Operations ──
+
+  select(columns = '*', options?: { count?: 'exact' | 'planned' | 'estimated'; head?: boolean }): this {
+    // After insert/update/upsert, select() only shapes the returned rows
+    this.columns = columns
+    this.countRequested = !!options?.count
+    this.headOnly = !!options?.head
+    return this
+  }
+
+  insert(rows: Row | Row[]): this {
+    this.operation = { kind: 'insert', rows: Array.isArray(rows) ? rows : [rows] }
+    return this
+  }
+
+  update(patch: Row): this {
+    this.operation = { kind: 'update', patch }
+    return this
+  }
+
+  upsert(rows: Row | Row[], options?: { onConflict?: string; ignoreDuplicates?: boolean }): this {
+    this.operation = {
+      kind: 'upsert',
+      rows: Array.isArray(rows) ? rows : [rows],
+      conflictKeys: (options?.onConflict ?? 'id').split(',').map(k => k.trim()),
+      ignoreDuplicates: options?.ignoreDuplicates ?? false,
+    }
+    return this
+  }
+
+  delete(): this {
+    this.operation = { kind: 'delete' }
+    return this
+  }
+
+  // ── Filters ──
+
+  eq(column: string, value: unknown): this {
+    this.filters.push(row => looseEquals(readPath(row, column), value))
+    return this
+  }
+
+  neq(column: string, value: unknown): this {
+    this.filters.push(row => !looseEquals(readPath(row, column), value))
+    return this
+  }
+
+  in(column: string, values: readonly unknown[]): this {
+    this.filters.push(row => values.some(v => looseEquals(readPath(row, column), v)))
+    return this
+  }
+
+  gt(column: string, value: unknown): this {
+    this.filters.push(row => compare(readPath(row, column), value) > 0)
+    return this
+  }
+
+  gte(column: string, value: unknown): this {
+    this.filters.push(row => compare(readPath(row, column), value) >= 0)
+    return this
+  }
+
+  lt(column: string, value: unknown): this {
+    this.filters.push(row => compare(readPath(row, column), value) < 0)
+    return this
+  }
+
+  lte(column: string, value: unknown): this {
+    this.filters.push(row => compare(readPath(row, column), value) <= 0)
+    return this
+  }
+
+  is(column: string, value: null | boolean): this {
+    this.filters.push(row => (readPath(row, column) ?? null) === value)
+    return this
+  }
+
+  /** Array containment (`@>`); JSON columns take the array as a JSON string */
+  contains(column: string, value: string | readonly unknown[]): this {
+    const expected = (typeof value === 'string' ? JSON.parse(value) : value) as unknown[]
+    this.filters.push(row => {
+      const actual = readPath(row, column)
+      return Array.isArray(actual) && expected.every(v => actual.some(a => looseEquals(a, v)))
+    })
+    return this
+  }
+
+  /** Negated filter; supports the `is` and `eq` operators */
+  not(column: string, operator: 'is' | 'eq', value: unknown): this {
+    this.filters.push(row => {
+      const actual = readPath(row, column)
+      return operator === 'is' ? (actual ?? null) !== value : !looseEquals(actual, value)
+    })
+    return this
+  }
+
+  /** PostgREST `or` syntax: "a.eq.x,b.eq.y" (eq/neq/gt/gte/lt/lte only) */
+  or(expression: string): this {
+    const clauses = expression.split(',').map(clause => {
+      const [column, op, ...rest] = clause.split('.')
+      const value = rest.join('.')
+      return (row: Row) => {
+        const actual = readPath(row, column)
+        switch (op) {
+          case 'eq': return looseEquals(actual, value)
+          case 'neq': return !looseEquals(actual, value)
+          case 'gt': return compare(actual, value) > 0
+          case 'gte': return compare(actual, value) >= 0
+          case 'lt': return compare(actual, value) < 0
+          case 'lte': return compare(actual, value) <= 0
+          default: return false
+        }
+      }
+    })
+    this.filters.push(row => clauses.some(match => match(row)))
+    return this
+  }
+
+  // ── Modifiers ──
+
+  order(column: string, options?: { ascending?: boolean }): this {
+    this.ordering.push({ column, ascending: options?.ascending ?? true })
+    return this
+  }
+
+  limit(count: number): this {
+    this.limitCount = count
+    return this
+  }
+
+  single(): this {
+    this.cardinality = 'single'
+    return this
+  }
+
+  maybeSingle(): this {
+    this.cardinality = 'maybeSingle'
+    return this
+  }
+
+  // ── Execution ──
+
+  then<TResult1 = QueryResult, TResult2 = never>(
+    onfulfilled?: ((value: QueryResult) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null
+  ): PromiseLike<TResult1 | TResult2> {
+    return Promise.resolve()
+      .then(() => this.execute())
+      .then(onfulfilled, onrejected)
+  }
+
+  private execute(): QueryResult {
+    const table = this.db.table(this.tableName)
+    const matches = (row: Row) => this.filters.every(filter => filter(row))
+    let affected: Row[]
+
+    switch (this.operation.kind) {
+      case 'insert': {
+        affected = this.operation.rows.map(row => this.db.withDefaults(row))
+        table.push(...affected)
+        break
+      }
+      case 'update': {
+        affected = table.filter(matches)
+        for (const row of affected) Object.assign(row, clone(this.operation.patch))
+        break
+      }
+      case 'upsert': {
+        const { rows, conflictKeys, ignoreDuplicates } = this.operation
+        affected = []
+        for (const incoming of rows) {
+          const existing = table.find(row =>
+            conflictKeys.every(key => looseEquals(row[key], incoming[key]))
+          )
+          if (existing) {
+            // ON CONFLICT DO NOTHING returns no row for the duplicate
+            if (ignoreDuplicates) continue
+            Object.assign(existing, clone(incoming))
+            affected.push(existing)
+            continue
+          }
+          const created = this.db.withDefaults(incoming)
+          table.push(created)
+          affected.push(created)
+        }
+        break
+      }
+      case 'delete': {
+        affected = table.filter(matches)
+        for (const row of affected) table.splice(table.indexOf(row), 1)
+        break
+      }
+      default: {
+        affected = table.filter(matches)
+      }
+    }
+
+    // Writes without .select() return no rows, like PostgREST
+    if (this.operation.kind !== 'select' && this.columns === null) {
+      return { data: null, error: null, count: null }
+    }
+
+    let rows = [...affected]
+    for (const { column, ascending } of [...this.ordering].reverse()) {
+      rows.sort((a, b) => compare(readPath(a, column), readPath(b, column)) * (ascending ? 1 : -1))
+    }
+    const count = this.countRequested ? rows.length : null
+    if (this.limitCount !== null) rows = rows.slice(0, this.limitCount)
+
+    if (this.headOnly) return { data: null, error: null, count }
+
+    const projected = rows.map(row => project(row, this.columns ?? '*'))
+
+    if (this.cardinality === 'many') {
+      return { data: projected, error: null, count }
+    }
+    if (projected.length > 1) {
+      return { data: null, error: { message: `Expected one row from ${this.tableName}, got ${projected.length}` }, count }
+    }
+    if (projected.length === 0 && this.cardinality === 'single') {
+      return { data: null, error: { message: `No rows found in ${this.tableName}` }, count }
+    }
+    return { data: projected[0] ?? null, error: null, count }
+  }
+}
+
+// ─── Helpers ────────────────────────────────────────
+
+/** Resolve "col", "col->key" or "col->>key" against a row */
+function readPath(row: Row, path: string): unknown {
+  const parts = path.split(/->>?/)
+  let value: unknown = row[parts[0].trim()]
+  for (const key of parts.slice(1)) {
+    if (value === null || value === undefined || typeof value !== 'object') return undefined
+    value = (value as Row)[key.trim()]
+  }
+  // ->> yields text in Postgres
+  if (path.includes('->>') && value !== null && value !== undefined && typeof value !== 'string') {
+    return typeof value === 'object' ? JSON.stringify(value) : String(value)
+  }
+  return value
+}
+
+function project(row: Row, columns: string): Row {
+  const tokens = columns.split(',').map(c => c.trim()).filter(Boolean)
+  // Embedded resources ("pet(name)") aren't modeled: return the whole row
+  if (tokens.length === 0 || tokens.includes('*') || tokens.some(t => t.includes('('))) {
+    return clone(row)
+  }
+  const result: Row = {}
+  for (const token of tokens) {
+    const key = token.includes('->') ? token.split(/->>?/).pop()!.trim() : token
+    result[key] = clone(readPath(row, token))
+  }
+  return result
+}
+
+function looseEquals(actual: unknown, expected: unknown): boolean {
+  if (actual === expected) return true
+  if (actual === null || actual === undefined || expected === null || expected === undefined) return false
+  return String(actual) === String(expected)
+}
+
+function compare(a: unknown, b: unknown): number {
+  if (a === b) return 0
+  if (a === null || a === undefined) return -1
+  if (b === null || b === undefined) return 1
+  if (typeof a === 'number' && typeof b === 'number') return a - b
+  const numA = Number(a)
+  const numB = Number(b)
+  if (typeof a !== 'string' || typeof b !== 'string') {
+    if (!Number.isNaN(numA) && !Number.isNaN(numB)) return numA - numB
+  }
+  return String(a) < String(b) ? -1 : 1
+}
+
+function clone<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value)) as T
+}
@@ -0,0 +1,68 @@
+/**
+ * Local Service Auth
+ *
+ * Offline stand-in for DID-document key resolution. Registers locally
+ * generated atproto signing keys and mints service JWTs with them, so
+ * getFeedSkeleton's viewer verification runs without plc.directory.
+ *
+ * @module local-service-auth
+ */
+
+import { createECDH, createPrivateKey, sign, type KeyObject } from 'node:crypto'
+import { base58Encode, ServiceAuthError, type KeyResolver } from '@/lib/services/service-auth'
+
+const SECP256K1_PREFIX = Buffer.from([0xe7, 0x01])
+
+export class LocalKeyResolver implements KeyResolver {
+  private readonly keys = new Map<string, { didKey: string; privateKey: KeyObject }>()
+
+  /** Generate (or rotate) a secp256k1 signing key for the DID */
+  register(did: string): string {
+    const ecdh = createECDH('secp256k1')
+    ecdh.generateKeys()
+    const publicKey = ecdh.getPublicKey()
+    const didKey = `did:key:z${base58Encode(Buffer.concat([SECP256K1_PREFIX, ecdh.getPublicKey(null, 'compressed')]))}`
+    const privateKey = createPrivateKey({
+      key: {
+        kty: 'EC',
+        crv: 'secp256k1',
+        d: ecdh.getPrivateKey().toString('base64url'),
+        x: publicKey.subarray(1, 33).toString('base64url'),
+        y: publicKey.subarray(33, 65).toString('base64url'),
+      },
+      format: 'jwk',
+    })
+    this.keys.set(did, { didKey, privateKey })
+    return didKey
+  }
+
+  async resolveSigningKey(did: string): Promise<string> {
+    const entry = this.keys.get(did)
+    if (!entry) throw new ServiceAuthError(`No local key for ${did}`)
+    return entry.didKey
+  }
+
+  /** Mint an ES256K service JWT signed by the DID's registered key */
+  mintJwt(
+    did: string,
+    claims: { aud: string; lxm?: string; expiresInSeconds?: number; iat?: number }
+  ): string {
+    const entry = this.keys.get(did)
+    if (!entry) throw new ServiceAuthError(`No local key for ${did}`)
+
+    const iat = claims.iat ?? Math.floor(Date.now() / 1000)
+    const header = { typ: 'JWT', alg: 'ES256K' }
+    const payload = {
+      iss: did,
+      aud: claims.aud,
+      iat,
+      exp: iat + (claims.expiresInSeconds ?? 60),
+      ...(claims.lxm ? { lxm: claims.lxm } : {}),
+    }
+    const signingInput = [header, payload]
+      .map(part => Buffer.from(JSON.stringify(part)).toString('base64url'))
+      .join('.')
+    const signature = sign('sha256', Buffer.from(signingInput), { key: entry.privateKey, dsaEncoding: 'ieee-p1363' })
+    return `${signingInput}.${signature.toString('base64url')}`
+  }
+}
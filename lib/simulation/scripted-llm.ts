@@ -0,0 +1,113 @@
+/**
+ * Scripted LLM
+ *
+ * Routes every model call to the offline mock provider and answers
+ * with per-task scripts. Tasks without a script get a schema-valid
+ * object whose text fields read like "<Pet> post #3" so timelines
+ * stay legible; outputs vary per call but are fully reproducible.
+ * The `safety` task defaults to all-zero scores.
+ *
+ * @module scripted-llm
+ */
+
+import { createHash } from 'node:crypto'
+import type { ModelTask } from '@/lib/config/model.config'
+import { SAFETY_CATEGORIES } from '@/lib/config/safety.config'
+import {
+  setMockResponder,
+  synthesizeFromSchema,
+  type MockModelRequest,
+} from '@/lib/services/mock-language-model'
+
+/** Return a value to answer the call, or undefined to use the default. */
+export type ScriptHandler = (request: MockModelRequest, callIndex: number) => unknown | undefined
+
+export interface ScriptedLLMOptions {
+  scripts?: Partial<Record<ModelTask, ScriptHandler>>
+}
+
+const TEXT_FIELDS = new Set(['text', 'openingMessage', 'comment', 'quoteText'])
+
+export class ScriptedLLM {
+  readonly calls: Array<{ task: ModelTask | null; at: string }> = []
+  private previousProvider: string | undefined
+  private installed = false
+
+  constructor(private readonly options: ScriptedLLMOptions = {}) {}
+
+  install(): void {
+    if (this.installed) return
+    this.previousProvider = process.env.LLM_PROVIDER
+    process.env.LLM_PROVIDER = 'mock'
+    setMockResponder(request => this.respond(request))
+    this.installed = true
+  }
+
+  uninstall(): void {
+    if (!this.installed) return
+    setMockResponder(null)
+    if (this.previousProvider === undefined) delete process.env.LLM_PROVIDER
+    else process.env.LLM_PROVIDER = this.previousProvider
+    this.installed = false
+  }
+
+  countByTask(): Partial<Record<ModelTask, number>> {
+    const counts: Partial<Record<ModelTask, number>> = {}
+    for (const call of this.calls) {
+      if (call.task) counts[call.task] = (counts[call.task] ?? 0) + 1
+    }
+    return counts
+  }
+
+  private respond(request: MockModelRequest): unknown | undefined {
+    const callIndex = this.calls.length + 1
+    this.calls.push({ task: request.task, at: new Date().toISOString() })
+
+    const script = request.task ? this.options.scripts?.[request.task] : undefined
+    const scripted = script?.(request, callIndex)
+    if (scripted !== undefined) return scripted
+
+    return defaultResponse(request, callIndex)
+  }
+}
+
+// ─── Defaults ───────────────────────────────────────
+
+function defaultResponse(request: MockModelRequest, callIndex: number): unknown | undefined {
+  if (!request.schema) return undefined
+  // Midpoint scores would trip every safety threshold: simulated pets are clean by default
+  if (request.task === 'safety') return { scores: Object.fromEntries(SAFETY_CATEGORIES.map(c => [c, 0])) }
+
+  const seed = createHash('sha256').update(`${callIndex}\n${request.prompt}`).digest('hex')
+  const value = synthesizeFromSchema(request.schema as Parameters<typeof synthesizeFromSchema>[0], seed, 'root')
+  const petName = request.prompt.match(/You are "([^"]+)"/)?.[1] ?? 'pet'
+  const topics = request.prompt.match(/^TOPICS: (.+)$/m)?.[1]?.split(',').map(t => t.trim()).filter(Boolean) ?? []
+
+  return humanize(value, {
+    petName,
+    label: request.task ?? 'text',
+    callIndex,
+    topic: topics.length > 0 ? topics[callIndex % topics.length] : undefined,
+  })
+}
+
+function humanize(
+  value: unknown,
+  ctx: { petName: string; label: string; callIndex: number; topic?: string },
+  key?: string
+): unknown {
+  if (Array.isArray(value)) {
+    return value.map((item, i) => humanize(item, { ...ctx, label: `${ctx.label}.${i + 1}` }, key))
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value as Record<string, unknown>).map(([k, v]) => [k, humanize(v, ctx, k)])
+    )
+  }
+  if (typeof value === 'string' && key) {
+    if (TEXT_FIELDS.has(key)) return `${ctx.petName} ${ctx.label} #${ctx.callIndex}`
+    if (key === 'topicTag' && ctx.topic) return ctx.topic.slice(0, 40)
+    if (key === 'postDigest') return `${ctx.label} #${ctx.callIndex}${ctx.topic ? ` about ${ctx.topic}` : ''}`.slice(0, 80)
+  }
+  return value
+}
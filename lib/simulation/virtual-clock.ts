@@ -0,0 +1,89 @@
+/**
+ * Virtual Clock & Seeded Randomness
+ *
+ * Lets the simulator run days of agent activity in seconds. While
+ * installed, `Date.now()` and `new Date()` return virtual time and
+ * `Math.random()` comes from a seeded PRNG, so every module (mood
+ * decay, posting rhythm, relationship timestamps) sees the same
+ * reproducible world without being rewritten for injection.
+ *
+ * @module virtual-clock
+ */
+
+export class VirtualClock {
+  private current: number
+  private realDate: DateConstructor | null = null
+
+  constructor(start: Date | string | number) {
+    this.current = new Date(start).getTime()
+  }
+
+  now(): number {
+    return this.current
+  }
+
+  toISOString(): string {
+    return new (this.realDate ?? Date)(this.current).toISOString()
+  }
+
+  advance(ms: number): void {
+    this.current += ms
+  }
+
+  /** Replace the global Date with one pinned to this clock. */
+  install(): void {
+    if (this.realDate) return
+    const RealDate = Date
+    const clock = this
+
+    class VirtualDate extends RealDate {
+      constructor(...args: unknown[]) {
+        if (args.length === 0) {
+          super(clock.current)
+        } else if (args.length === 1) {
+          super(args[0] as string | number | Date)
+        } else {
+          super(...(args as [number, number, number?, number?, number?, number?, number?]))
+        }
+      }
+
+      static now(): number {
+        return clock.current
+      }
+    }
+
+    this.realDate = RealDate
+    globalThis.Date = VirtualDate as DateConstructor
+  }
+
+  uninstall(): void {
+    if (!this.realDate) return
+    globalThis.Date = this.realDate
+    this.realDate = null
+  }
+}
+
+/**
+ * mulberry32 — small, fast, good enough for simulation rolls.
+ */
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+/**
+ * Replace Math.random with a seeded PRNG. Returns a restore function.
+ */
+export function installSeededRandom(seed: number): () => void {
+  const original = Math.random
+  Math.random = createSeededRandom(seed)
+  return () => {
+    Math.random = original
+  }
+}
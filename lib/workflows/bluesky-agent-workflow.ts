@@ -5,6 +5,27 @@
  * - Proactive posting: Generate and publish posts on a schedule
  * - Reactive replies: Respond to mentions and replies
  * - Inter-pet interactions: Initiate conversations between meme pets
+ * - Follow management: Follow back, follow friends, drop stale follows
+ *
+ * Pets in review mode park generated content in the moderation queue
+ * (see review-queue) instead of publishing it. Owner controls (see
+ * owner-controls) nudge and block topics, hand the next post a
+ * suggestion, or pause the pet in every mode. Each run checks the daily
+ * LLM budgets first and sheds images, threads and engagement as they
+ * run low (see llm-usage). Proactive posts that come too close to
+ * anything a pet posted today are regenerated or skipped (see
+ * similarity-guard). Mentions and replies are triaged before a reply is
+ * generated: worth a reply, a like, nothing, or a mute (see
+ * reply-triage); repeat harassers are muted on Bluesky or excluded for
+ * every pet (see abuse-tracker). Published posts keep the pet's running
+ * bits up to date, and a retired bit now and then gets a deliberate
+ * callback post (see running-themes). Single posts lean toward the
+ * topics and intents each pet's audience responds to (see
+ * content-bandit). Threads reserve their AT Protocol points before the
+ * first post (see rate-limit-ledger). Every write carries an idempotency
+ * key from the run ID and step, so a retried step never posts twice
+ * (see publish-intents). Follow runs follow back, follow and unfollow
+ * within daily budgets (see follow-manager).
  *
  * Follows the same CraftingWorkflow interface as X-Agent for consistency.
  *
@@ -14,49 +35,113 @@
 import { WorkflowContext } from '@upstash/workflow'
 import { z } from 'zod'
 import { generateObject } from 'ai'
-import { google } from '@ai-sdk/google'
 import { getServiceSupabase } from '@/lib/api/service-supabase'
 import { BLUESKY_CONFIG } from '@/lib/config/bluesky.config'
-import { BlueskyBotClient, type BlueskyBotConfig, type BlueskyReplyRef } from '@/lib/services/bluesky-client'
+import { BlueskyBotClient, type BlueskyBotConfig, type BlueskyPostResult, type BlueskyReplyRef } from '@/lib/services/bluesky-client'
+import { RateLimitExceededError } from '@/lib/services/rate-limit-ledger'
 import {
   generateAutonomousPost,
   generateThread,
   generateReply,
   decideInteraction,
+  POST_INTENT_TYPES,
   type MemePetPersonalityData,
   type GeneratedThread,
+  type GeneratePostContext,
 } from './modules/bluesky-post-generator'
 import type { CraftingWorkflow } from './workflow-interface'
 import { loadBotMemory, saveBotMemory, appendPostToMemory } from '@/lib/agent/memory/bot-memory-service'
-import type { RecentPostDigest } from '@/lib/agent/types/bot-memory'
+import type { BotMemory, RecentPostDigest, RunningTheme } from '@/lib/agent/types/bot-memory'
+import { advanceThemeLifecycle, pickCallbackTheme, trackRunningThemes } from '@/lib/agent/memory/running-themes'
+import {
+  chooseContentBias,
+  imageProbabilityMultiplier,
+  loadContentArms,
+  type ContentBias,
+} from '@/lib/agent/content-bandit'
+import {
+  backfillEpisodesFromMemory,
+  buildProactiveRecallQuery,
+  recallEpisodes,
+  recordEpisode,
+  type RecalledEpisode,
+} from '@/lib/agent/memory/episodic-memory'
 import { evaluateEngagementCandidates, type EngagementCandidateInput } from './modules/bluesky-post-generator'
 import { preFilterCandidates, loadPreviouslyInteractedDids } from './modules/engagement-filter'
-import { isPoliticalContent, extractEmbeddedText, isPostPolitical } from './modules/political-filter'
+import { extractEmbeddedText } from './modules/political-filter'
+import { classifyContent, classifyPost, safetyBlockReason, safetyMetadata, describeVerdict, type SafetyVerdict } from './modules/content-safety'
+import { findNearDuplicate, type DuplicateMatch } from './modules/similarity-guard'
+import { loadAuthorHistory, recordTriage, triageNotification, type TriageDecision } from './modules/reply-triage'
+import {
+  excludeAuthor,
+  loadExcludedDids,
+  muteAuthor,
+  recordAbuseEvent,
+  type AbuseEscalation,
+} from '@/lib/services/abuse-tracker'
 import {
   loadRelationship,
   updateRelationshipAfterInteraction,
   formatRelationshipForPrompt,
 } from '@/lib/agent/memory/relationship-memory-service'
+import {
+  planArc,
+  nextDirection,
+  openingDirection,
+  loadConversation,
+  startConversation,
+  recordTurn,
+  type ConversationArc,
+} from '@/lib/agent/conversation/conversation-engine'
 import { decideImageGeneration } from './modules/bluesky-image-prompt-generator'
 import { generateMemeImage } from '@/lib/services/image-generator'
 import { triggerWorkflow } from '@/lib/workflows/workflow-client'
+import { applyEvent, type MoodState } from '@/lib/agent/mood/emotion-engine'
 import {
-  getDefaultMood,
-  decayMood,
-  applyEvent,
-  hoursSinceLastUpdate,
-  type MoodState,
-} from '@/lib/agent/mood/emotion-engine'
+  postOutcomeEvents,
+  recordMoodEvent,
+  recordMoodEvents,
+  resolveCurrentMood,
+  type MoodEventInput,
+} from '@/lib/agent/mood/mood-event-log'
+import { MOOD_CONFIG } from '@/lib/config/mood.config'
+import { DEDUP_CONFIG } from '@/lib/config/dedup.config'
 import {
   shouldReflect,
   generateReflections,
   applyReflectionsToMemory,
 } from '@/lib/agent/memory/reflection-service'
 import { decryptIfNeeded } from '@/lib/utils/encrypt'
+import {
+  withUsageScope,
+  loadBudgetStatus,
+  budgetAllows,
+  type BudgetStatus,
+} from '@/lib/services/llm-usage'
+import {
+  loadOwnerControls,
+  applyOwnerTopics,
+  applyBlockedTopics,
+  consumeOwnerSuggestion,
+  type OwnerControls,
+} from '@/lib/services/owner-controls'
+import { withModelFailover, parseModelSelection, type ModelSelection } from '@/lib/services/model-registry'
+import {
+  resolvePublishMode,
+  enqueueReviewItem,
+  type NewReviewItem,
+  type PublishMode,
+} from '@/lib/services/review-queue'
+import {
+  planFollowChanges,
+  applyFollowChange,
+  describeFollowChange,
+  type FollowPlan,
+} from '@/lib/services/follow-manager'
 
 // ─── Request Types ──────────────────────────────────
 
-export type BlueskyAgentMode = 'proactive' | 'reactive' | 'interaction' | 'engagement'
+export type BlueskyAgentMode = 'proactive' | 'reactive' | 'interaction' | 'engagement' | 'follow'
 
 export interface BlueskyAgentWorkflowRequest {
   mode: BlueskyAgentMode
@@ -68,7 +153,7 @@ export interface BlueskyAgentWorkflowRequest {
     authorHandle: string
     authorDid: string
     text: string
-    reason: 'mention' | 'reply'
+    reason: 'mention' | 'reply' | 'quote'
     rootUri?: string
     rootCid?: string
   }
@@ -85,13 +170,37 @@ interface PetData {
   bluesky_handle: string
   bluesky_did: string | null
   bluesky_app_password: string
+  /** Per-pet LLM provider/model override; undefined = global defaults */
+  model_selection?: ModelSelection
+  /** 'review' holds generated content in the moderation queue */
+  publish_mode: PublishMode
+  /** Owner nudges, suggestion, blocked topics and pause as of load time */
+  owner_controls: OwnerControls
+}
+
+/**
+ * External side effects the workflow can be pointed elsewhere for
+ * (the offline simulator swaps in an in-memory network and queue).
+ */
+export interface BlueskyAgentWorkflowDeps {
+  createBotClient?: (config: BlueskyBotConfig) => BlueskyBotClient
+  triggerWorkflow?: typeof triggerWorkflow
+}
+
+/** Activity logged when a run is skipped for the budget, by mode (follow runs call no model) */
+const BUDGET_SKIP_ACTIVITY: Record<Exclude<BlueskyAgentMode, 'follow'>, string> = {
+  proactive: 'proactive_post_skipped',
+  reactive: 'reply_skipped',
+  interaction: 'interaction_skipped',
+  engagement: 'engagement_skipped',
 }
 
 // ─── Workflow Implementation ──────────────────────────
 
 export class BlueskyAgentWorkflow implements CraftingWorkflow {
   constructor(
-    private context: WorkflowContext<BlueskyAgentWorkflowRequest>
+    private context: WorkflowContext<BlueskyAgentWorkflowRequest>,
+    private deps: BlueskyAgentWorkflowDeps = {}
   ) {}
 
   async execute(): Promise<void> {
@@ -105,47 +214,82 @@ export class BlueskyAgentWorkflow implements CraftingWorkflow {
       return
     }
 
-    switch (request.mode) {
-      case 'proactive':
-        await this.executeProactivePosting(request)
-        break
-      case 'reactive':
-        await this.executeReactiveReply(request)
-        break
-      case 'interaction':
-        await this.executeInterPetInteraction(request)
-        break
-      case 'engagement':
-        await this.executeProactiveEngagement(request)
-        break
+    // No model calls, so no LLM budget to check
+    if (request.mode === 'follow') {
+      await this.executeFollowManagement(request)
+      return
     }
+    const mode = request.mode
+
+    await withUsageScope({ petId: request.petId, mode }, async () => {
+      // Check the daily LLM budgets before any step calls a model
+      const budget = await this.context.run('check-budget', async () => {
+        return loadBudgetStatus(request.petId)
+      }) as BudgetStatus
+      if (budget.level === 'exhausted') {
+        await this.context.run('skip-over-budget', async () => {
+          await this.logActivity({
+            petId: request.petId,
+            activityType: BUDGET_SKIP_ACTIVITY[mode],
+            content: `Daily LLM budget spent (pet $${budget.petSpentUsd.toFixed(2)}/$${budget.petBudgetUsd}, all pets $${budget.globalSpentUsd.toFixed(2)}/$${budget.globalBudgetUsd}), skipped`,
+            metadata: { reason: 'budget_exhausted', petSpentUsd: budget.petSpentUsd, globalSpentUsd: budget.globalSpentUsd },
+          })
+        })
+        return
+      }
+
+      switch (request.mode) {
+        case 'proactive':
+          await this.executeProactivePosting(request, budget)
+          break
+        case 'reactive':
+          await this.executeReactiveReply(request)
+          break
+        case 'interaction':
+          await this.executeInterPetInteraction(request)
+          break
+        case 'engagement':
+          await this.executeProactiveEngagement(request, budget)
+          break
+      }
+    })
   }
 
   // ─── Proactive Posting ──────────────────────────────
 
-  private async executeProactivePosting(request: BlueskyAgentWorkflowRequest): Promise<void> {
+  private async executeProactivePosting(request: BlueskyAgentWorkflowRequest, budget: BudgetStatus): Promise<void> {
     const { petId } = request
 
     const pet = await this.context.run('load-pet-data', async () => {
       return this.loadPetData(petId)
     })
 
+    // The owner asked the pet to go quiet
+    if (pet.owner_controls.pausedUntil) return
+
     const memory = await this.context.run('load-memory', async () => {
-      return loadBotMemory(petId)
+      const loaded = await loadBotMemory(petId)
+      // Memory migrated from v1 seeds the episodic store once
+      if (loaded.episodesBackfilledAt) return loaded
+      const backfilled = await backfillEpisodesFromMemory(petId, loaded)
+      return backfilled.episodesBackfilledAt ? saveBotMemory(petId, backfilled, { base: loaded }) : loaded
+    })
+
+    // Log how the pet's recent posts did (ignored or landed)
+    await this.context.run('judge-post-outcomes', async () => {
+      return recordMoodEvents(petId, await this.judgeRecentPosts(pet))
     })
 
-    // Initialize and update mood state
+    // Replay the mood event log onto the saved snapshot
     const moodState = await this.context.run('update-mood', async () => {
-      const baseline = getDefaultMood(pet.meme_personality.personalityType)
-      const currentMood = memory.moodState ?? baseline
-      const elapsed = hoursSinceLastUpdate(currentMood)
-      const decayedMood = decayMood(currentMood, baseline, elapsed)
+      const now = new Date()
+      const currentMood = await resolveCurrentMood(petId, pet.meme_personality.personalityType, memory.moodState, now)
       // Apply chronotype event based on current hour
-      const hour = new Date().getUTCHours()
+      const hour = now.getUTCHours()
       const chronoEvent = hour >= 5 && hour < 12 ? { type: 'morning' as const }
         : hour >= 22 || hour < 5 ? { type: 'late_night' as const }
         : null
-      return chronoEvent ? applyEvent(decayedMood, chronoEvent) : decayedMood
+      return chronoEvent ? applyEvent(currentMood, { ...chronoEvent, timestamp: now.toISOString() }) : currentMood
     }) as MoodState
 
     // Generate reflections if needed
@@ -156,61 +300,168 @@ export class BlueskyAgentWorkflow implements CraftingWorkflow {
         relationships: memory.relationships ?? [],
         petName: pet.pet_name,
         personalityType: pet.meme_personality.personalityType,
+        modelSelection: pet.model_selection,
       })
       return newInsights.length > 0 ? applyReflectionsToMemory(memory, newInsights) : memory
     })
 
-    // Try thread generation first (personality-based probability)
+    // Pull older memories related to what the pet has been about lately
+    const recalledEpisodes = await this.context.run('recall-memories', async () => {
+      return recallEpisodes(petId, {
+        query: buildProactiveRecallQuery(reflectedMemory, pet.meme_personality.postingConfig.topicAffinity),
+      })
+    }) as RecalledEpisode[]
+
+    // Owner-blocked topics join the avoid list for generation only
+    const promptMemory = applyBlockedTopics(advanceThemeLifecycle(reflectedMemory), pet.owner_controls)
+    const suggestion = pet.owner_controls.suggestion
+
+    // Now and then a retired running bit comes back as a deliberate callback
+    const callbackTheme = suggestion
+      ? null
+      : await this.context.run('pick-callback-bit', async () => {
+          return pickCallbackTheme(reflectedMemory)
+        }) as RunningTheme | null
+
+    // Lean toward what this pet's audience responds to; suggestions and callbacks already have a subject
+    const contentPlan = await this.context.run('choose-content-bias', async () => {
+      const arms = await loadContentArms(petId)
+      const bias = suggestion || callbackTheme
+        ? null
+        : chooseContentBias(arms, {
+            topics: pet.meme_personality.postingConfig.topicAffinity,
+            intents: POST_INTENT_TYPES.filter(intent => intent !== 'callback'),
+            avoid: promptMemory.avoidList,
+          })
+      return { bias, imageMultiplier: imageProbabilityMultiplier(arms) }
+    }) as { bias: ContentBias | null; imageMultiplier: number }
+
+    // Try thread generation first (personality-based probability);
+    // an owner suggestion or a callback goes into a single post instead,
+    // and threads are dropped when the budget is running low
     const thread = await this.context.run('try-thread', async () => {
-      return generateThread(pet.meme_personality, reflectedMemory, pet.pet_name)
+      if (suggestion || callbackTheme || !budgetAllows(budget.level, 'threads')) return null
+      return generateThread(pet.meme_personality, promptMemory, pet.pet_name, {
+        modelSelection: pet.model_selection,
+        recalledEpisodes,
+        moodState,
+      })
     }) as GeneratedThread | null
 
-    if (thread) {
-      // Filter thread posts for political content
-      const hasPoliticalPost = thread.posts.some(p => isPoliticalContent(p.text))
-      if (hasPoliticalPost) {
-        await this.context.run('skip-political-thread', async () => {
+    // Texts already posted today that the single post must steer clear of
+    const avoidTexts: string[] = []
+
+    // A thread echoing something already posted today falls back to a single post
+    const threadDuplicate = thread
+      ? await this.context.run('check-thread-duplicate', async () => {
+          for (const post of thread.posts) {
+            const match = await findNearDuplicate(post.text, { petId })
+            if (match) return match
+          }
+          return null
+        }) as DuplicateMatch | null
+      : null
+    if (threadDuplicate) avoidTexts.push(threadDuplicate.text)
+
+    if (thread && !threadDuplicate) {
+      // Safety-check every thread post; the first blocked one skips the thread
+      const threadVerdict = await this.context.run('check-thread-safety', async () => {
+        for (const post of thread.posts) {
+          const verdict = await classifyContent(post.text, { modelSelection: pet.model_selection })
+          if (!verdict.allowed) return verdict
+        }
+        return null
+      }) as SafetyVerdict | null
+      if (threadVerdict) {
+        await this.context.run('skip-unsafe-thread', async () => {
           await this.logActivity({
             petId,
             activityType: 'proactive_post_skipped',
-            content: 'Thread contained political content, skipped',
-            metadata: { reason: 'political_thread' }
+            content: `Thread contained ${describeVerdict(threadVerdict)}, skipped`,
+            metadata: { reason: safetyBlockReason(threadVerdict, 'thread'), ...safetyMetadata(threadVerdict) }
           })
         })
         return
       }
-      await this.executeThreadPosting(petId, pet, thread, memory)
+      await this.executeThreadPosting(petId, pet, thread, memory, moodState)
       return
     }
 
     // Single post path
-    const generatedPost = await this.context.run('generate-post', async () => {
-      return generateAutonomousPost(
-        pet.meme_personality,
-        reflectedMemory,
-        pet.pet_name,
-        {
-          moodState,
-          reflections: reflectedMemory.reflections,
-        }
-      )
+    const postContext: GeneratePostContext = {
+      moodState,
+      reflections: reflectedMemory.reflections,
+      modelSelection: pet.model_selection,
+      recalledEpisodes,
+      ownerSuggestion: suggestion?.text,
+      callbackTheme: callbackTheme?.description,
+      contentBias: contentPlan.bias ?? undefined,
+    }
+    let generatedPost = await this.context.run('generate-post', async () => {
+      return generateAutonomousPost(pet.meme_personality, promptMemory, pet.pet_name, {
+        ...postContext,
+        avoidTexts: avoidTexts.length > 0 ? [...avoidTexts] : undefined,
+      })
     })
 
-    // Filter generated post for political content
-    if (isPoliticalContent(generatedPost.text)) {
-      await this.context.run('skip-political-proactive', async () => {
+    // Near-duplicates of today's posts are regenerated with the clashing
+    // text as a negative example, then skipped if they still clash
+    let duplicate = await this.context.run('check-post-duplicate', async () => {
+      return findNearDuplicate(generatedPost.text, { petId })
+    }) as DuplicateMatch | null
+    let regenerations = 0
+    while (duplicate && regenerations < DEDUP_CONFIG.MAX_REGENERATIONS) {
+      avoidTexts.push(duplicate.text)
+      regenerations++
+      generatedPost = await this.context.run(`regenerate-post-${regenerations}`, async () => {
+        return generateAutonomousPost(pet.meme_personality, promptMemory, pet.pet_name, {
+          ...postContext,
+          avoidTexts: [...avoidTexts],
+        })
+      })
+      duplicate = await this.context.run(`check-post-duplicate-${regenerations}`, async () => {
+        return findNearDuplicate(generatedPost.text, { petId })
+      }) as DuplicateMatch | null
+    }
+    if (duplicate) {
+      const clash = duplicate
+      await this.context.run('skip-duplicate-proactive', async () => {
+        await this.logActivity({
+          petId,
+          activityType: 'proactive_post_skipped',
+          content: `Generated post still too close to ${clash.ownPost ? 'an earlier post' : "another pet's post"} after ${regenerations} regenerations, skipped`,
+          metadata: {
+            reason: 'near_duplicate',
+            similarity: clash.similarity,
+            method: clash.method,
+            duplicateOfPetId: clash.petId,
+            duplicateOfUri: clash.postUri,
+            ownPost: clash.ownPost,
+            regenerations,
+          }
+        })
+      })
+      return
+    }
+
+    // Safety-check the generated post
+    const postVerdict = await this.context.run('check-post-safety', async () => {
+      return classifyContent(generatedPost.text, { modelSelection: pet.model_selection })
+    }) as SafetyVerdict
+    if (!postVerdict.allowed) {
+      await this.context.run('skip-unsafe-proactive', async () => {
         await this.logActivity({
           petId,
           activityType: 'proactive_post_skipped',
-          content: 'Generated post contained political content, skipped',
-          metadata: { reason: 'political_generated_post' }
+          content: `Generated post contained ${describeVerdict(postVerdict)}, skipped`,
+          metadata: { reason: safetyBlockReason(postVerdict, 'generated_post'), ...safetyMetadata(postVerdict) }
         })
       })
       return
     }
 
-    // Image generation (personality-based probability)
-    const imageResult = BLUESKY_CONFIG.FEATURE_FLAGS.IMAGE_GENERATION_ENABLED
+    // Image generation (personality-based probability); first to go on a tight budget
+    const imageResult = BLUESKY_CONFIG.FEATURE_FLAGS.IMAGE_GENERATION_ENABLED && budgetAllows(budget.level, 'images')
       ? await this.context.run('try-image', async () => {
           // Count posts since the last image post
           const lastImageIdx = memory.recentPosts.findIndex(
@@ -224,22 +475,59 @@ export class BlueskyAgentWorkflow implements CraftingWorkflow {
             postText: generatedPost.text,
             petName: pet.pet_name,
             postsSinceLastImage,
+            modelSelection: pet.model_selection,
+            imageProbabilityMultiplier: contentPlan.imageMultiplier,
           })
           if (!decision.shouldGenerateImage || !decision.imagePrompt) return null
           return generateMemeImage({
             imagePrompt: decision.imagePrompt,
             imageAlt: decision.imageAlt ?? generatedPost.text.slice(0, 100),
             petName: pet.pet_name,
+            modelSelection: pet.model_selection,
           })
         })
       : null
 
+    if (pet.publish_mode === 'review') {
+      await this.context.run('queue-review-post', async () => {
+        await this.queueForReview({
+          petId,
+          kind: 'post',
+          activityType: 'proactive_post',
+          payload: {
+            text: generatedPost.text,
+            ...(imageResult
+              ? { image: { base64: Buffer.from(imageResult.imageBlob).toString('base64'), alt: imageResult.imageAlt } }
+              : {}),
+          },
+          logMetadata: {
+            mood: generatedPost.mood,
+            intentType: generatedPost.intentType,
+            topicTag: generatedPost.topicTag,
+            hasImage: !!imageResult,
+            ...(regenerations > 0 ? { regenerations } : {}),
+            ...(callbackTheme ? { callbackTo: callbackTheme.description } : {}),
+            ...(contentPlan.bias ? { contentBias: contentPlan.bias } : {}),
+          },
+          generationContext: {
+            mode: 'proactive',
+            moodState,
+            postDigest: generatedPost.postDigest,
+            narrativeUpdate: generatedPost.narrativeUpdate,
+          },
+        })
+        if (suggestion) await consumeOwnerSuggestion(petId, suggestion)
+      })
+      return
+    }
+
     const postResult = await this.context.run('publish-post', async () => {
       const botClient = await this.createAuthenticatedClient(pet)
       return botClient.post(
         generatedPost.text,
         imageResult?.imageBlob,
-        imageResult?.imageAlt
+        imageResult?.imageAlt,
+        { idempotencyKey: this.publishKey('publish-post') }
       )
     })
 
@@ -253,17 +541,26 @@ export class BlueskyAgentWorkflow implements CraftingWorkflow {
         hasImage: !!imageResult,
       }
 
-      let updatedMemory = appendPostToMemory(reflectedMemory, digest)
-
-      // Persist mood state with posted_successfully event applied
-      const postMood = applyEvent(moodState, { type: 'posted_successfully' })
-      updatedMemory = { ...updatedMemory, moodState: postMood }
+      // The replayed mood becomes the new snapshot; posting is logged on top of it
+      const withPost = appendPostToMemory(reflectedMemory, digest)
+      let updatedMemory: BotMemory = {
+        ...trackRunningThemes(withPost, digest, { callbackTo: callbackTheme?.description }),
+        moodState,
+      }
 
       if (generatedPost.narrativeUpdate) {
         updatedMemory = { ...updatedMemory, narrativeArc: generatedPost.narrativeUpdate }
       }
 
-      await saveBotMemory(petId, updatedMemory)
+      await saveBotMemory(petId, updatedMemory, { base: memory })
+      await recordMoodEvent(petId, { type: 'posted_successfully', sourceUri: postResult.uri })
+      if (suggestion) await consumeOwnerSuggestion(petId, suggestion)
+      await recordEpisode(petId, {
+        kind: 'post',
+        content: generatedPost.text,
+        topic: generatedPost.topicTag,
+        postUri: postResult.uri,
+      })
     })
 
     await this.context.run('log-activity', async () => {
@@ -272,6 +569,7 @@ export class BlueskyAgentWorkflow implements CraftingWorkflow {
         activityType: 'proactive_post',
         postUri: postResult.uri,
         postCid: postResult.cid,
+        mentionedDids: postResult.mentionedDids,
         content: generatedPost.text,
         metadata: {
           mood: generatedPost.mood,
@@ -279,18 +577,23 @@ export class BlueskyAgentWorkflow implements CraftingWorkflow {
           topicTag: generatedPost.topicTag,
           hasImage: !!imageResult,
           imageGenerationTimeMs: imageResult?.generationTimeMs,
+          ...(regenerations > 0 ? { regenerations } : {}),
+          ...(callbackTheme ? { callbackTo: callbackTheme.description } : {}),
+          ...(contentPlan.bias ? { contentBias: contentPlan.bias } : {}),
         }
       })
     })
 
     // After posting, maybe add a self-reply thread (30% chance)
-    const selfReply = await this.context.run('maybe-self-reply', async () => {
+    // The roll and the text are memoized before anything is published, so a
+    // retried publish posts the same follow-up instead of re-rolling
+    const followUp = await this.context.run('maybe-self-reply', async () => {
       const SELF_REPLY_PROBABILITY = 0.3
       const shouldSelfReply = Math.random() < SELF_REPLY_PROBABILITY
       if (!shouldSelfReply) return null
 
-      const { object: followUp } = await generateObject({
-        model: google('gemini-2.0-flash-001'),
+      const { object: followUp } = await withModelFailover('reply', pet.model_selection, model => generateObject({
+        model,
         schema: z.object({
           text: z.string().max(280),
           tone: z.string(),
@@ -315,20 +618,33 @@ ABSOLUTELY NEVER mention politics, politicians, elections, or any politically co
 Personality type: ${pet.meme_personality.personalityType}
 Humor style: ${pet.meme_personality.memeVoice.humorStyle}
 Catchphrase: "${pet.meme_personality.memeVoice.catchphrase}"`,
-      })
+      }))
 
-      // Skip self-reply if it contains political content
-      if (isPoliticalContent(followUp.text)) return null
+      // Skip self-reply if it fails the safety check
+      const followUpVerdict = await classifyContent(followUp.text, { modelSelection: pet.model_selection })
+      if (!followUpVerdict.allowed) return null
 
+      return { text: followUp.text, tone: followUp.tone }
+    })
+
+    const selfReply = followUp && await this.context.run('publish-self-reply', async () => {
       // Post as reply to the original post
       const client = await this.createAuthenticatedClient(pet)
       const replyRef: BlueskyReplyRef = {
         root: { uri: postResult.uri, cid: postResult.cid },
         parent: { uri: postResult.uri, cid: postResult.cid },
       }
-      const replyResult = await client.reply(followUp.text, replyRef)
+      const replyResult = await client.reply(followUp.text, replyRef, {
+        idempotencyKey: this.publishKey('publish-self-reply'),
+      })
 
-      return { text: followUp.text, tone: followUp.tone, uri: replyResult.uri, cid: replyResult.cid }
+      return {
+        text: followUp.text,
+        tone: followUp.tone,
+        uri: replyResult.uri,
+        cid: replyResult.cid,
+        mentionedDids: replyResult.mentionedDids,
+      }
     })
 
     if (selfReply) {
@@ -338,6 +654,7 @@ Catchphrase: "${pet.meme_personality.memeVoice.catchphrase}"`,
           activityType: 'proactive_self_reply',
           postUri: selfReply.uri,
           postCid: selfReply.cid,
+          mentionedDids: selfReply.mentionedDids,
           content: selfReply.text,
           metadata: {
             tone: selfReply.tone,
@@ -357,7 +674,7 @@ Catchphrase: "${pet.meme_personality.memeVoice.catchphrase}"`,
           intentType: 'callback',
         }
         const updatedMemory = appendPostToMemory(currentMemory, digest)
-        await saveBotMemory(petId, updatedMemory)
+        await saveBotMemory(petId, updatedMemory, { base: currentMemory })
       })
     }
   }
@@ -368,18 +685,66 @@ Catchphrase: "${pet.meme_personality.memeVoice.catchphrase}"`,
     petId: string,
     pet: PetData,
     thread: GeneratedThread,
-    memory: import('@/lib/agent/types/bot-memory').BotMemory
+    memory: BotMemory,
+    moodState: MoodState
   ): Promise<void> {
     const posts = thread.posts.slice(0, BLUESKY_CONFIG.THREAD.MAX_POSTS)
 
+    if (pet.publish_mode === 'review') {
+      await this.context.run('thread-queue-review', async () => {
+        await this.queueForReview({
+          petId,
+          kind: 'thread',
+          activityType: 'proactive_thread',
+          payload: { posts: posts.map(p => p.text) },
+          logMetadata: {
+            threadTheme: thread.threadTheme,
+            overallMood: thread.overallMood,
+            topicTag: thread.topicTag,
+            threadLength: posts.length,
+          },
+          generationContext: {
+            mode: 'proactive',
+            threadDigest: thread.threadDigest,
+            narrativeUpdate: thread.narrativeUpdate,
+          },
+        })
+      })
+      return
+    }
+
+    // Hold points for every post so a concurrent run can't strand the thread halfway
+    const reservation = await this.context.run('thread-reserve-points', async () => {
+      const botClient = await this.createAuthenticatedClient(pet)
+      try {
+        return { reservationId: await botClient.reservePoints('post', posts.length), retryAfterSeconds: null }
+      } catch (error) {
+        if (!(error instanceof RateLimitExceededError)) throw error
+        return { reservationId: null, retryAfterSeconds: error.retryAfterSeconds }
+      }
+    }) as { reservationId: string | null; retryAfterSeconds: number | null }
+
+    if (reservation.retryAfterSeconds !== null) {
+      await this.context.run('skip-rate-limited-thread', async () => {
+        await this.logActivity({
+          petId,
+          activityType: 'proactive_post_skipped',
+          content: `Not enough rate limit points for a ${posts.length}-post thread, skipped`,
+          metadata: { reason: 'rate_limited', retryAfterSeconds: reservation.retryAfterSeconds, threadLength: posts.length },
+        })
+      })
+      return
+    }
+
     // Post root
     const rootResult = await this.context.run('thread-root', async () => {
       const botClient = await this.createAuthenticatedClient(pet)
-      return botClient.post(posts[0].text)
+      botClient.useReservation(reservation.reservationId)
+      return botClient.post(posts[0].text, undefined, undefined, { idempotencyKey: this.publishKey('thread-root') })
     })
 
     // Collect all results: [root, reply1, reply2, ...]
-    const allResults: Array<{ uri: string; cid: string; text: string }> = [
+    const allResults: Array<BlueskyPostResult & { text: string }> = [
       { ...rootResult, text: posts[0].text },
     ]
 
@@ -388,15 +753,24 @@ Catchphrase: "${pet.meme_personality.memeVoice.catchphrase}"`,
       const prevResult = allResults[i - 1]
       const replyResult = await this.context.run(`thread-reply-${i}`, async () => {
         const botClient = await this.createAuthenticatedClient(pet)
+        botClient.useReservation(reservation.reservationId)
         const replyRef: BlueskyReplyRef = {
           root: { uri: rootResult.uri, cid: rootResult.cid },
           parent: { uri: prevResult.uri, cid: prevResult.cid },
         }
-        return botClient.reply(posts[i].text, replyRef)
+        return botClient.reply(posts[i].text, replyRef, { idempotencyKey: this.publishKey(`thread-reply-${i}`) })
       })
       allResults.push({ ...replyResult, text: posts[i].text })
     }
 
+    if (reservation.reservationId) {
+      const reservationId = reservation.reservationId
+      await this.context.run('thread-release-points', async () => {
+        const botClient = await this.createAuthenticatedClient(pet)
+        await botClient.releaseReservation(reservationId)
+      })
+    }
+
     await this.context.run('thread-memory', async () => {
       const digest: RecentPostDigest = {
         postedAt: new Date().toISOString(),
@@ -405,11 +779,19 @@ Catchphrase: "${pet.meme_personality.memeVoice.catchphrase}"`,
         topic: thread.topicTag,
         intentType: 'thread',
       }
-      let updatedMemory = appendPostToMemory(memory, digest)
+      const withThread = appendPostToMemory(memory, digest)
+      let updatedMemory: BotMemory = { ...trackRunningThemes(withThread, digest), moodState }
       if (thread.narrativeUpdate) {
         updatedMemory = { ...updatedMemory, narrativeArc: thread.narrativeUpdate }
       }
-      await saveBotMemory(petId, updatedMemory)
+      await saveBotMemory(petId, updatedMemory, { base: memory })
+      await recordMoodEvent(petId, { type: 'posted_successfully', sourceUri: rootResult.uri })
+      await recordEpisode(petId, {
+        kind: 'post',
+        content: allResults.map(r => r.text).join('\n'),
+        topic: thread.topicTag,
+        postUri: rootResult.uri,
+      })
     })
 
     await this.context.run('thread-log', async () => {
@@ -418,6 +800,7 @@ Catchphrase: "${pet.meme_personality.memeVoice.catchphrase}"`,
         activityType: 'proactive_thread',
         postUri: rootResult.uri,
         postCid: rootResult.cid,
+        mentionedDids: [...new Set(allResults.flatMap(r => r.mentionedDids ?? []))],
         content: allResults.map(r => r.text).join('\n---\n'),
         metadata: {
           threadTheme: thread.threadTheme,
@@ -441,18 +824,61 @@ Catchphrase: "${pet.meme_personality.memeVoice.catchphrase}"`,
       throw new Error('Notification data required for reactive mode')
     }
 
-    // Step 1: Load pet and check conversation turn limit
-    const { pet, turnCount } = await this.context.run('load-pet-check-turns', async () => {
+    const threadUri = notification.rootUri ?? notification.uri
+
+    // Step 1: Load pet and the thread's conversation state
+    // Pet-to-pet threads follow a planned arc; threads with humans keep the turn cap
+    const { pet, turnCount, conversation } = await this.context.run('load-pet-check-turns', async () => {
       const petData = await this.loadPetData(petId)
-      const turns = await this.getConversationTurnCount(
-        petId,
-        notification.rootUri ?? notification.uri
-      )
-      return { pet: petData, turnCount: turns }
+      const otherPetId = await this.getPetIdByDid(notification.authorDid)
+      const turns = await this.getConversationTurnCount(petId, threadUri)
+      if (!otherPetId || otherPetId === petId) {
+        return { pet: petData, turnCount: turns, conversation: null }
+      }
+
+      // Threads started outside interaction mode get their arc on the first reply
+      const state = await loadConversation(threadUri) ?? await startConversation({
+        rootUri: threadUri,
+        initiatorPetId: otherPetId,
+        responderPetId: petId,
+        arc: planArc((await loadRelationship(petId, otherPetId))?.sentiment ?? null),
+        turn: Math.max(1, turns + await this.getConversationTurnCount(otherPetId, threadUri)),
+      })
+      return { pet: petData, turnCount: turns, conversation: state }
     })
 
+    // The owner asked the pet to go quiet
+    if (pet.owner_controls.pausedUntil) return
+
+    // Step 1b: Log the notification as a mood event and replay the pet's mood
+    const moodState = await this.context.run('update-mood', async () => {
+      await recordMoodEvent(petId, {
+        type: MOOD_CONFIG.NOTIFICATION_EVENTS[notification.reason],
+        sourceUri: notification.uri,
+        metadata: { from: notification.authorHandle },
+      })
+      return this.loadCurrentMood(pet)
+    }) as MoodState
+
+    const direction = conversation ? nextDirection(conversation) : null
+    if (conversation && !direction) {
+      await this.context.run('skip-closed-conversation', async () => {
+        await this.logActivity({
+          petId,
+          activityType: 'reply_skipped',
+          content: `Conversation already ${conversation.closeReason === 'disengaged' ? 'dropped' : 'wrapped up'} for thread`,
+          metadata: {
+            threadUri,
+            reason: 'conversation_closed',
+            closeReason: conversation.closeReason,
+          }
+        })
+      })
+      return
+    }
+
     // Enforce conversation turn limit
-    if (turnCount >= BLUESKY_CONFIG.POSTING.MAX_CONVERSATION_TURNS) {
+    if (!conversation && turnCount >= BLUESKY_CONFIG.POSTING.MAX_CONVERSATION_TURNS) {
       await this.context.run('skip-max-turns', async () => {
         await this.logActivity({
           petId,
@@ -467,53 +893,130 @@ Catchphrase: "${pet.meme_personality.memeVoice.catchphrase}"`,
       return
     }
 
-    // Step 2: Political content filter — check notification text AND thread root/parent
-    const isPolitical = isPoliticalContent(notification.text)
-    if (isPolitical) {
-      await this.context.run('skip-political-reply', async () => {
+    // Step 2: Content safety — check notification text AND thread root/parent
+    const notificationVerdict = await this.context.run('check-reply-safety', async () => {
+      return classifyContent(notification.text, { modelSelection: pet.model_selection })
+    }) as SafetyVerdict
+    // Harassment is left to triage, which mutes the author
+    if (!notificationVerdict.allowed && notificationVerdict.category !== 'harassment') {
+      await this.context.run('skip-unsafe-reply', async () => {
         await this.logActivity({
           petId,
           activityType: 'reply_skipped',
-          content: `Skipped political content from @${notification.authorHandle}`,
+          content: `Skipped ${describeVerdict(notificationVerdict)} from @${notification.authorHandle}`,
+          metadata: {
+            reason: safetyBlockReason(notificationVerdict, 'content'),
+            ...safetyMetadata(notificationVerdict),
+            inReplyTo: notification.uri,
+            inReplyToAuthor: notification.authorHandle,
+          }
+        })
+      })
+      return
+    }
+
+    // Step 2a: Triage — reply, like only, ignore, or snooze the author
+    const { triage, escalation } = await this.context.run('triage-notification', async () => {
+      const otherPetId = await this.getPetIdByDid(notification.authorDid)
+      const fromOtherPet = !!otherPetId && otherPetId !== petId
+      const decision = triageNotification({
+        text: notification.text,
+        fromOtherPet,
+        safety: notificationVerdict,
+        socialStyle: pet.meme_personality.socialStyle,
+        history: await loadAuthorHistory(petId, notification.authorDid),
+      })
+      await recordTriage(petId, notification, decision)
+
+      // Harassment from people counts toward muting them for good
+      const abuse = decision.category === 'harassment' && !fromOtherPet
+        ? await recordAbuseEvent({
+            petId,
+            authorDid: notification.authorDid,
+            authorHandle: notification.authorHandle,
+            category: 'harassment',
+            source: notificationVerdict.category === 'harassment' ? 'safety' : 'keyword',
+            postUri: notification.uri,
+          })
+        : null
+      return { triage: decision, escalation: abuse }
+    }) as { triage: TriageDecision; escalation: AbuseEscalation | null }
+
+    if (escalation?.muteForPet || escalation?.excludeGlobally) {
+      await this.context.run('escalate-abuse', async () => {
+        const reason = `repeated harassment of ${escalation.excludeGlobally ? 'several pets' : pet.pet_name}`
+        try {
+          if (escalation.muteForPet) {
+            const botClient = await this.createAuthenticatedClient(pet)
+            await muteAuthor(botClient, { petId, authorDid: notification.authorDid, reason, createdBy: 'auto' })
+          }
+          if (escalation.excludeGlobally) {
+            await excludeAuthor({ authorDid: notification.authorDid, reason, createdBy: 'auto' })
+          }
+        } catch {
+          // Not acted on: the author's next harassment escalates again
+        }
+      })
+    }
+
+    if (triage.action !== 'reply') {
+      await this.context.run(`triage-${triage.action}`, async () => {
+        if (triage.action === 'like') {
+          const botClient = await this.createAuthenticatedClient(pet)
+          await botClient.like(notification.uri, notification.cid, { idempotencyKey: this.publishKey('triage-like') })
+        }
+        await this.logActivity({
+          petId,
+          activityType: triage.action === 'like' ? 'reactive_like' : 'reply_skipped',
+          content: triage.action === 'like'
+            ? `Liked ${triage.category} from @${notification.authorHandle} instead of replying`
+            : `${triage.action === 'snooze' ? 'Snoozed' : 'Ignored'} ${triage.category} from @${notification.authorHandle}`,
           metadata: {
-            reason: 'political_content',
+            reason: `triage_${triage.action}`,
+            triageCategory: triage.category,
+            triageScore: triage.score,
+            triageReason: triage.reason,
+            ...(escalation?.muteForPet ? { abuseMuted: true } : {}),
+            ...(escalation?.excludeGlobally ? { abuseExcluded: true } : {}),
+            ...(notificationVerdict.allowed ? {} : safetyMetadata(notificationVerdict)),
             inReplyTo: notification.uri,
             inReplyToAuthor: notification.authorHandle,
+            inReplyToAuthorDid: notification.authorDid,
           }
         })
       })
       return
     }
 
-    // Step 2b: Check thread root/parent post for political content
-    // Even if the mention itself is clean, the thread it's in might be political
-    const threadIsPolitical = await this.context.run('check-thread-political', async () => {
+    // Step 2b: Check thread root/parent post
+    // Even if the mention itself is clean, the thread it's in might not be
+    const rootVerdict = await this.context.run('check-thread-root-safety', async () => {
       const rootUri = notification.rootUri ?? notification.uri
-      if (rootUri === notification.uri) return false
+      if (rootUri === notification.uri) return null
 
       try {
         const botClient = await this.createAuthenticatedClient(pet)
         const rootPost = await botClient.getPost(rootUri)
-        if (!rootPost) return false
+        if (!rootPost) return null
 
         const rootText = ((rootPost.record as Record<string, unknown>)?.text as string) ?? ''
         const rootEmbed = (rootPost as unknown as Record<string, unknown>).embed as Record<string, unknown> | undefined
-        const embeddedText = rootEmbed ? extractEmbeddedText(rootEmbed) : ''
-        const fullText = embeddedText ? `${rootText} ${embeddedText}` : rootText
-        return isPoliticalContent(fullText)
+        const verdict = await classifyPost(rootText, rootEmbed, { modelSelection: pet.model_selection })
+        return verdict.allowed ? null : verdict
       } catch {
-        return false
+        return null
       }
-    })
+    }) as SafetyVerdict | null
 
-    if (threadIsPolitical) {
-      await this.context.run('skip-political-thread-root', async () => {
+    if (rootVerdict) {
+      await this.context.run('skip-unsafe-thread-root', async () => {
         await this.logActivity({
           petId,
           activityType: 'reply_skipped',
-          content: `Skipped reply — thread root is political (@${notification.authorHandle})`,
+          content: `Skipped reply — thread root contains ${describeVerdict(rootVerdict)} (@${notification.authorHandle})`,
           metadata: {
-            reason: 'political_thread_root',
+            reason: safetyBlockReason(rootVerdict, 'thread_root'),
+            ...safetyMetadata(rootVerdict),
             inReplyTo: notification.uri,
             inReplyToAuthor: notification.authorHandle,
           }
@@ -527,6 +1030,11 @@ Catchphrase: "${pet.meme_personality.memeVoice.catchphrase}"`,
       return this.getThreadContext(petId, notification.rootUri ?? notification.uri)
     })
 
+    // Step 3b: Recall past moments with this author or on this subject
+    const recalledEpisodes = await this.context.run('recall-memories', async () => {
+      return recallEpisodes(petId, { query: notification.text, partnerDid: notification.authorDid })
+    }) as RecalledEpisode[]
+
     // Step 4: Generate reply
     const generatedReply = await this.context.run('generate-reply', async () => {
       return generateReply(
@@ -534,7 +1042,8 @@ Catchphrase: "${pet.meme_personality.memeVoice.catchphrase}"`,
         pet.pet_name,
         notification.text,
         notification.authorHandle,
-        threadContext
+        threadContext,
+        { modelSelection: pet.model_selection, scene: direction ?? undefined, recalledEpisodes, moodState }
       )
     })
 
@@ -547,19 +1056,29 @@ Catchphrase: "${pet.meme_personality.memeVoice.catchphrase}"`,
           content: `Chose not to engage with @${notification.authorHandle}`,
           metadata: { tone: generatedReply.tone, reason: 'not_worth_engaging' }
         })
+        // Bowing out ends the scene for both pets, and leaves the other one hanging
+        if (conversation) {
+          await recordTurn(conversation, { closeReason: 'disengaged' })
+          const otherPetId = conversation.initiatorPetId === petId ? conversation.responderPetId : conversation.initiatorPetId
+          await recordMoodEvent(otherPetId, { type: 'ignored', sourceUri: notification.uri, metadata: { by: petId } })
+        }
       })
       return
     }
 
-    // Step 4b: Filter generated reply text for political content
-    if (isPoliticalContent(generatedReply.text)) {
-      await this.context.run('skip-political-generated-reply', async () => {
+    // Step 4b: Safety-check the generated reply text
+    const generatedReplyVerdict = await this.context.run('check-generated-reply-safety', async () => {
+      return classifyContent(generatedReply.text, { modelSelection: pet.model_selection })
+    }) as SafetyVerdict
+    if (!generatedReplyVerdict.allowed) {
+      await this.context.run('skip-unsafe-generated-reply', async () => {
         await this.logActivity({
           petId,
           activityType: 'reply_skipped',
-          content: 'Generated reply contained political content, skipped',
+          content: `Generated reply contained ${describeVerdict(generatedReplyVerdict)}, skipped`,
           metadata: {
-            reason: 'political_generated_reply',
+            reason: safetyBlockReason(generatedReplyVerdict, 'generated_reply'),
+            ...safetyMetadata(generatedReplyVerdict),
             inReplyTo: notification.uri,
           }
         })
@@ -567,22 +1086,54 @@ Catchphrase: "${pet.meme_personality.memeVoice.catchphrase}"`,
       return
     }
 
-    // Step 5: Build reply ref and publish
-    const replyResult = await this.context.run('publish-reply', async () => {
-      const botClient = await this.createAuthenticatedClient(pet)
-
-      const replyRef: BlueskyReplyRef = {
-        root: {
-          uri: notification.rootUri ?? notification.uri,
-          cid: notification.rootCid ?? notification.cid
-        },
-        parent: {
-          uri: notification.uri,
-          cid: notification.cid
-        }
+    // Step 5: Build reply ref and publish (or hold for review)
+    const replyRef: BlueskyReplyRef = {
+      root: {
+        uri: notification.rootUri ?? notification.uri,
+        cid: notification.rootCid ?? notification.cid
+      },
+      parent: {
+        uri: notification.uri,
+        cid: notification.cid
       }
+    }
 
-      return botClient.reply(generatedReply.text, replyRef)
+    if (pet.publish_mode === 'review') {
+      await this.context.run('queue-review-reply', async () => {
+        const repliedToPetId = await this.getPetIdByDid(notification.authorDid)
+        await this.queueForReview({
+          petId,
+          kind: 'reply',
+          activityType: 'reactive_reply',
+          payload: { text: generatedReply.text, replyRef },
+          logMetadata: {
+            tone: generatedReply.tone,
+            inReplyTo: notification.uri,
+            inReplyToAuthor: notification.authorHandle,
+            inReplyToAuthorDid: notification.authorDid,
+            notificationReason: notification.reason,
+            threadUri,
+            ...(direction ? { conversationBeat: direction.beat, conversationTurn: direction.turn } : {}),
+          },
+          generationContext: {
+            mode: 'reactive',
+            reason: notification.reason,
+            notificationText: notification.text,
+            threadContext,
+          },
+          relationshipUpdate: repliedToPetId
+            ? { otherPetId: repliedToPetId, interactionType: `reply_${generatedReply.tone}` }
+            : null,
+        })
+        // A held reply still takes its beat so the other pet doesn't repeat it
+        if (conversation) await recordTurn(conversation)
+      })
+      return
+    }
+
+    const replyResult = await this.context.run('publish-reply', async () => {
+      const botClient = await this.createAuthenticatedClient(pet)
+      return botClient.reply(generatedReply.text, replyRef, { idempotencyKey: this.publishKey('publish-reply') })
     })
 
     // Step 6: Log activity + update relationship if replying to another pet
@@ -592,16 +1143,21 @@ Catchphrase: "${pet.meme_personality.memeVoice.catchphrase}"`,
         activityType: 'reactive_reply',
         postUri: replyResult.uri,
         postCid: replyResult.cid,
+        mentionedDids: replyResult.mentionedDids,
         content: generatedReply.text,
         metadata: {
           tone: generatedReply.tone,
           inReplyTo: notification.uri,
           inReplyToAuthor: notification.authorHandle,
           inReplyToAuthorDid: notification.authorDid,
-          threadUri: notification.rootUri ?? notification.uri
+          notificationReason: notification.reason,
+          threadUri,
+          ...(direction ? { conversationBeat: direction.beat, conversationTurn: direction.turn } : {}),
         }
       })
 
+      if (conversation) await recordTurn(conversation)
+
       // Update relationship if replying to another pet
       const repliedToPetId = await this.getPetIdByDid(notification.authorDid)
       if (repliedToPetId) {
@@ -609,6 +1165,15 @@ Catchphrase: "${pet.meme_personality.memeVoice.catchphrase}"`,
           interactionType: `reply_${generatedReply.tone}`,
         })
       }
+
+      await recordEpisode(petId, {
+        kind: 'reply',
+        content: `@${notification.authorHandle} said "${notification.text}" and I replied "${generatedReply.text}"`,
+        partnerPetId: repliedToPetId,
+        partnerDid: notification.authorDid,
+        partnerHandle: `@${notification.authorHandle}`,
+        postUri: replyResult.uri,
+      })
     })
   }
 
@@ -649,6 +1214,9 @@ Catchphrase: "${pet.meme_personality.memeVoice.catchphrase}"`,
       }
     )
 
+    // The owner asked the initiator to go quiet
+    if (myPet.owner_controls.pausedUntil) return
+
     // Step 2: Get relationship history (structured + text)
     const history = await this.context.run('get-history', async () => {
       const relationship = await loadRelationship(petId, targetPetId)
@@ -656,6 +1224,25 @@ Catchphrase: "${pet.meme_personality.memeVoice.catchphrase}"`,
       return formatRelationshipForPrompt(relationship, recentMessages)
     })
 
+    // Step 2b: Plan the conversation arc this opening message sets up
+    const arc = await this.context.run('plan-conversation-arc', async () => {
+      const relationship = await loadRelationship(petId, targetPetId)
+      return planArc(relationship?.sentiment ?? null)
+    }) as ConversationArc
+
+    // Step 2c: Recall past moments with the target or about their post
+    const recalledEpisodes = await this.context.run('recall-memories', async () => {
+      return recallEpisodes(petId, {
+        query: targetRecentPost,
+        partnerPetId: targetPetId,
+        partnerDid: targetPet.bluesky_did,
+      })
+    }) as RecalledEpisode[]
+
+    const moodState = await this.context.run('load-mood', async () => {
+      return this.loadCurrentMood(myPet)
+    }) as MoodState
+
     // Step 3: AI decides whether and how to interact
     const decision = await this.context.run('decide-interaction', async () => {
       return decideInteraction(
@@ -664,7 +1251,8 @@ Catchphrase: "${pet.meme_personality.memeVoice.catchphrase}"`,
         targetPet.meme_personality,
         targetPet.pet_name,
         targetRecentPost,
-        history
+        history,
+        { modelSelection: myPet.model_selection, scene: openingDirection(arc), recalledEpisodes, moodState }
       )
     })
 
@@ -684,16 +1272,23 @@ Catchphrase: "${pet.meme_personality.memeVoice.catchphrase}"`,
       return
     }
 
-    // Step 4: Political filter — skip if target's recent post or generated message is political
-    if (isPoliticalContent(targetRecentPost) || isPoliticalContent(decision.openingMessage)) {
-      await this.context.run('skip-political-interaction', async () => {
+    // Step 4: Safety filter — skip if target's recent post or generated message is flagged
+    const interactionVerdict = await this.context.run('check-interaction-safety', async () => {
+      const targetVerdict = await classifyContent(targetRecentPost, { modelSelection: myPet.model_selection })
+      if (!targetVerdict.allowed) return targetVerdict
+      const messageVerdict = await classifyContent(decision.openingMessage, { modelSelection: myPet.model_selection })
+      return messageVerdict.allowed ? null : messageVerdict
+    }) as SafetyVerdict | null
+    if (interactionVerdict) {
+      await this.context.run('skip-unsafe-interaction', async () => {
         await this.logActivity({
           petId,
           activityType: 'interaction_skipped',
-          content: `Skipped political interaction with ${targetPet.pet_name}`,
+          content: `Skipped interaction with ${targetPet.pet_name} (${describeVerdict(interactionVerdict)})`,
           metadata: {
             targetPetId,
-            reason: 'political_content',
+            reason: safetyBlockReason(interactionVerdict, 'content'),
+            ...safetyMetadata(interactionVerdict),
           }
         })
       })
@@ -701,19 +1296,45 @@ Catchphrase: "${pet.meme_personality.memeVoice.catchphrase}"`,
     }
 
     // Step 5: Post the interaction message (mention the target)
+    // Ensure the message mentions the target
+    let message = decision.openingMessage
+    const targetMention = `@${targetPet.bluesky_handle}`
+    if (!message.includes(targetMention)) {
+      message = `${targetMention} ${message}`
+    }
+    // Trim to max length
+    if (message.length > BLUESKY_CONFIG.POSTING.MAX_POST_LENGTH) {
+      message = message.slice(0, BLUESKY_CONFIG.POSTING.MAX_POST_LENGTH - 1) + '\u2026'
+    }
+
+    if (myPet.publish_mode === 'review') {
+      // The target only hears about it once a reviewer publishes it
+      await this.context.run('queue-review-interaction', async () => {
+        await this.queueForReview({
+          petId,
+          kind: 'post',
+          activityType: 'interaction_initiate',
+          payload: { text: message },
+          logMetadata: {
+            targetPetId,
+            targetPetName: targetPet.pet_name,
+            interactionType: decision.interactionType,
+            reasoning: decision.reasoning
+          },
+          generationContext: {
+            mode: 'interaction',
+            targetRecentPost,
+            relationshipHistory: history,
+          },
+          relationshipUpdate: { otherPetId: targetPetId, interactionType: decision.interactionType },
+        })
+      })
+      return
+    }
+
     const postResult = await this.context.run('post-interaction', async () => {
       const botClient = await this.createAuthenticatedClient(myPet)
-      // Ensure the message mentions the target
-      let message = decision.openingMessage
-      const targetMention = `@${targetPet.bluesky_handle}`
-      if (!message.includes(targetMention)) {
-        message = `${targetMention} ${message}`
-      }
-      // Trim to max length
-      if (message.length > BLUESKY_CONFIG.POSTING.MAX_POST_LENGTH) {
-        message = message.slice(0, BLUESKY_CONFIG.POSTING.MAX_POST_LENGTH - 1) + '\u2026'
-      }
-      return botClient.post(message)
+      return botClient.post(message, undefined, undefined, { idempotencyKey: this.publishKey('post-interaction') })
     })
 
     // Step 6: Log interaction + update relationship
@@ -723,18 +1344,48 @@ Catchphrase: "${pet.meme_personality.memeVoice.catchphrase}"`,
         activityType: 'interaction_initiate',
         postUri: postResult.uri,
         postCid: postResult.cid,
+        mentionedDids: postResult.mentionedDids,
         content: decision.openingMessage,
         metadata: {
           targetPetId,
           targetPetName: targetPet.pet_name,
           interactionType: decision.interactionType,
-          reasoning: decision.reasoning
+          reasoning: decision.reasoning,
+          conversationBeat: arc.beats[0],
+          conversationTurn: 1,
         }
       })
 
       await updateRelationshipAfterInteraction(petId, targetPetId, {
         interactionType: decision.interactionType,
       })
+
+      await startConversation({
+        rootUri: postResult.uri,
+        initiatorPetId: petId,
+        responderPetId: targetPetId,
+        arc,
+        turn: 1,
+      })
+
+      // Beef riles both pets up; hype warms the one receiving it
+      const moodEvents = MOOD_CONFIG.INTERACTION_EVENTS[decision.interactionType as keyof typeof MOOD_CONFIG.INTERACTION_EVENTS]
+      const moodMetadata = { interactionType: decision.interactionType, initiatorPetId: petId, targetPetId }
+      if (moodEvents.initiator) {
+        await recordMoodEvent(petId, { type: moodEvents.initiator, sourceUri: postResult.uri, metadata: moodMetadata })
+      }
+      if (moodEvents.target) {
+        await recordMoodEvent(targetPetId, { type: moodEvents.target, sourceUri: postResult.uri, metadata: moodMetadata })
+      }
+
+      await recordEpisode(petId, {
+        kind: 'interaction',
+        content: `Started a ${decision.interactionType} with @${targetPet.bluesky_handle}: "${decision.openingMessage}"`,
+        partnerPetId: targetPetId,
+        partnerDid: targetPet.bluesky_did,
+        partnerHandle: `@${targetPet.bluesky_handle}`,
+        postUri: postResult.uri,
+      })
     })
 
     // Step 7: 20% chance the target pet gets notified to respond immediately
@@ -744,7 +1395,8 @@ Catchphrase: "${pet.meme_personality.memeVoice.catchphrase}"`,
       if (!shouldTriggerResponse) return
 
       // Schedule a reactive workflow for the target pet to pick up this mention
-      await triggerWorkflow(
+      const trigger = this.deps.triggerWorkflow ?? triggerWorkflow
+      await trigger(
         '/api/v1/workflows/bluesky-agent',
         {
           mode: 'reactive' as const,
@@ -766,13 +1418,28 @@ Catchphrase: "${pet.meme_personality.memeVoice.catchphrase}"`,
 
   // ─── Proactive Engagement ──────────────────────────
 
-  private async executeProactiveEngagement(request: BlueskyAgentWorkflowRequest): Promise<void> {
+  private async executeProactiveEngagement(request: BlueskyAgentWorkflowRequest, budget: BudgetStatus): Promise<void> {
     const { petId } = request
 
+    if (!budgetAllows(budget.level, 'engagement')) {
+      await this.context.run('skip-engagement-budget', async () => {
+        await this.logActivity({
+          petId,
+          activityType: 'engagement_skipped',
+          content: 'LLM budget nearly spent, skipped engagement',
+          metadata: { reason: 'budget_low', budgetLevel: budget.level },
+        })
+      })
+      return
+    }
+
     const pet = await this.context.run('load-pet-engagement', async () => {
       return this.loadPetData(petId)
     })
 
+    // The owner asked the pet to go quiet
+    if (pet.owner_controls.pausedUntil) return
+
     const discoveryResult = await this.context.run('discover-candidates', async () => {
       const botClient = await this.createAuthenticatedClient(pet)
       const allCandidates: EngagementCandidateInput[] = []
@@ -879,8 +1546,9 @@ Catchphrase: "${pet.meme_personality.memeVoice.catchphrase}"`,
 
       // Load previously interacted user DIDs for opt-in check
       const previouslyInteractedDids = await loadPreviouslyInteractedDids(petId, supabase)
+      const excludedDids = await loadExcludedDids(petId)
 
-      const filtered = preFilterCandidates(deduped, botClient.did, otherPetDids, previouslyInteractedDids)
+      const filtered = preFilterCandidates(deduped, botClient.did, otherPetDids, previouslyInteractedDids, excludedDids)
       const passed = filtered.filter(f => !f.filtered).slice(0, 15)
 
       // Build a map of postUri -> isFirstInteraction for downstream use
@@ -946,6 +1614,10 @@ Catchphrase: "${pet.meme_personality.memeVoice.catchphrase}"`,
 
     const maxEngagements = this.computeMaxEngagements(pet.meme_personality)
 
+    const moodState = await this.context.run('load-mood', async () => {
+      return this.loadCurrentMood(pet)
+    }) as MoodState
+
     const decisions = await this.context.run('evaluate-candidates', async () => {
       // Convert back to Set for the evaluator
       const engagedAuthors = new Set(engagedAuthorsList)
@@ -954,7 +1626,8 @@ Catchphrase: "${pet.meme_personality.memeVoice.catchphrase}"`,
         pet.pet_name,
         candidates,
         engagedAuthors,
-        maxEngagements
+        maxEngagements,
+        { modelSelection: pet.model_selection, moodState }
       )
     })
 
@@ -973,22 +1646,31 @@ Catchphrase: "${pet.meme_personality.memeVoice.catchphrase}"`,
         ? 'like' as const
         : decision.action
 
-      await this.context.run(`engage-${i}`, async () => {
-        // Political content filter — skip engagement with political posts
-        if (isPoliticalContent(candidate.text)) {
-          await this.logActivity({
-            petId,
-            activityType: 'engagement_skipped',
-            content: `Skipped political post by @${candidate.authorHandle}`,
-            metadata: { reason: 'political_content', engagedPostUri: candidate.postUri },
-          })
-          return
-        }
-
-        const client = await this.createAuthenticatedClient(pet)
+      // Each write gets its own step, so a retry never repeats the writes
+      // (and log rows) of a step that already finished
+      const candidateAllowed = await this.context.run(`engage-${i}`, async () => {
+        // Safety filter — skip engagement with flagged posts
+        const candidateVerdict = await classifyContent(candidate.text, { modelSelection: pet.model_selection })
+        if (candidateVerdict.allowed) return true
+        await this.logActivity({
+          petId,
+          activityType: 'engagement_skipped',
+          content: `Skipped post with ${describeVerdict(candidateVerdict)} by @${candidate.authorHandle}`,
+          metadata: {
+            reason: safetyBlockReason(candidateVerdict, 'content'),
+            ...safetyMetadata(candidateVerdict),
+            engagedPostUri: candidate.postUri,
+          },
+        })
+        return false
+      })
+      if (!candidateAllowed) continue
 
-        if (effectiveAction === 'like' || effectiveAction === 'like_and_comment' || effectiveAction === 'quote_and_like') {
-          await client.like(candidate.postUri, candidate.postCid)
+      if (effectiveAction === 'like' || effectiveAction === 'like_and_comment' || effectiveAction === 'quote_and_like') {
+        await this.context.run(`engage-${i}:like`, async () => {
+          const client = await this.createAuthenticatedClient(pet)
+          await client.like(candidate.postUri, candidate.postCid, { idempotencyKey: this.publishKey(`engage-${i}:like`) })
+          await this.recordEngagementMood(petId, candidate.postUri)
           await this.logActivity({
             petId,
             activityType: 'engagement_like',
@@ -1004,71 +1686,132 @@ Catchphrase: "${pet.meme_personality.memeVoice.catchphrase}"`,
               originalAction: isFirstInteraction ? decision.action : undefined,
             },
           })
-        }
+        })
+      }
 
-        if ((effectiveAction === 'comment' || effectiveAction === 'like_and_comment') && decision.comment) {
+      const comment = decision.comment
+      if ((effectiveAction === 'comment' || effectiveAction === 'like_and_comment') && comment) {
+        const commentAllowed = await this.context.run(`engage-${i}:screen-comment`, async () => {
           // Also filter the AI-generated comment text itself
-          if (isPoliticalContent(decision.comment)) {
-            await this.logActivity({
+          const commentVerdict = await classifyContent(comment, { modelSelection: pet.model_selection })
+          if (commentVerdict.allowed) return true
+          await this.logActivity({
+            petId,
+            activityType: 'engagement_skipped',
+            content: `Skipped comment text with ${describeVerdict(commentVerdict)} for @${candidate.authorHandle}`,
+            metadata: {
+              reason: safetyBlockReason(commentVerdict, 'generated_comment'),
+              ...safetyMetadata(commentVerdict),
+              engagedPostUri: candidate.postUri,
+            },
+          })
+          return false
+        })
+        if (!commentAllowed) continue
+
+        await this.context.run(`engage-${i}:comment`, async () => {
+          const client = await this.createAuthenticatedClient(pet)
+          const replyRef = await client.buildReplyRef(candidate.postUri, candidate.postCid)
+          const metadata = {
+            engagedPostUri: candidate.postUri,
+            engagedAuthorHandle: candidate.authorHandle,
+            engagedAuthorDid: candidate.authorDid,
+            relevanceScore: decision.relevanceScore,
+            tone: decision.tone,
+            sessionMood: decisions.sessionMood,
+          }
+          if (pet.publish_mode === 'review') {
+            await this.queueForReview({
               petId,
-              activityType: 'engagement_skipped',
-              content: `Skipped political comment text for @${candidate.authorHandle}`,
-              metadata: { reason: 'political_generated_comment', engagedPostUri: candidate.postUri },
+              kind: 'reply',
+              activityType: 'engagement_comment',
+              payload: { text: comment, replyRef },
+              logMetadata: metadata,
+              generationContext: { mode: 'engagement', engagedPostText: candidate.text.slice(0, 300) },
             })
             return
           }
-          const replyRef = await client.buildReplyRef(candidate.postUri, candidate.postCid)
-          const result = await client.reply(decision.comment, replyRef)
+          const result = await client.reply(comment, replyRef, {
+            idempotencyKey: this.publishKey(`engage-${i}:comment`),
+          })
+          await this.recordEngagementMood(petId, candidate.postUri)
           await this.logActivity({
             petId,
             activityType: 'engagement_comment',
             postUri: result.uri,
             postCid: result.cid,
-            content: decision.comment,
+            mentionedDids: result.mentionedDids,
+            content: comment,
+            metadata,
+          })
+        })
+      }
+
+      const quoteText = decision.quoteText
+      if ((effectiveAction === 'quote' || effectiveAction === 'quote_and_like') && quoteText) {
+        const quoteAllowed = await this.context.run(`engage-${i}:screen-quote`, async () => {
+          // Also filter the AI-generated quote text itself
+          const quoteVerdict = await classifyContent(quoteText, { modelSelection: pet.model_selection })
+          if (quoteVerdict.allowed) return true
+          await this.logActivity({
+            petId,
+            activityType: 'engagement_skipped',
+            content: `Skipped quote text with ${describeVerdict(quoteVerdict)} for @${candidate.authorHandle}`,
             metadata: {
+              reason: safetyBlockReason(quoteVerdict, 'generated_quote'),
+              ...safetyMetadata(quoteVerdict),
               engagedPostUri: candidate.postUri,
-              engagedAuthorHandle: candidate.authorHandle,
-              engagedAuthorDid: candidate.authorDid,
-              relevanceScore: decision.relevanceScore,
-              tone: decision.tone,
-              sessionMood: decisions.sessionMood,
             },
           })
-        }
-
-        if ((effectiveAction === 'quote' || effectiveAction === 'quote_and_like') && decision.quoteText) {
-          // Also filter the AI-generated quote text itself
-          if (isPoliticalContent(decision.quoteText)) {
-            await this.logActivity({
+          return false
+        })
+        if (!quoteAllowed) continue
+
+        await this.context.run(`engage-${i}:quote`, async () => {
+          const metadata = {
+            engagedPostUri: candidate.postUri,
+            engagedAuthorHandle: candidate.authorHandle,
+            engagedAuthorDid: candidate.authorDid,
+            quotedPostText: candidate.text.slice(0, 200),
+            relevanceScore: decision.relevanceScore,
+            tone: decision.tone,
+            sessionMood: decisions.sessionMood,
+          }
+          if (pet.publish_mode === 'review') {
+            await this.queueForReview({
               petId,
-              activityType: 'engagement_skipped',
-              content: `Skipped political quote text for @${candidate.authorHandle}`,
-              metadata: { reason: 'political_generated_quote', engagedPostUri: candidate.postUri },
+              kind: 'quote',
+              activityType: 'engagement_quote',
+              payload: { text: quoteText, quoted: { uri: candidate.postUri, cid: candidate.postCid } },
+              logMetadata: metadata,
+              generationContext: { mode: 'engagement', engagedPostText: candidate.text.slice(0, 300) },
             })
             return
           }
-          const result = await client.quotePost(decision.quoteText, candidate.postUri, candidate.postCid)
+          const client = await this.createAuthenticatedClient(pet)
+          const result = await client.quotePost(quoteText, candidate.postUri, candidate.postCid, {
+            idempotencyKey: this.publishKey(`engage-${i}:quote`),
+          })
+          await this.recordEngagementMood(petId, candidate.postUri)
           await this.logActivity({
             petId,
             activityType: 'engagement_quote',
             postUri: result.uri,
             postCid: result.cid,
-            content: decision.quoteText,
-            metadata: {
-              engagedPostUri: candidate.postUri,
-              engagedAuthorHandle: candidate.authorHandle,
-              engagedAuthorDid: candidate.authorDid,
-              quotedPostText: candidate.text.slice(0, 200),
-              relevanceScore: decision.relevanceScore,
-              tone: decision.tone,
-              sessionMood: decisions.sessionMood,
-            },
+            mentionedDids: result.mentionedDids,
+            content: quoteText,
+            metadata,
           })
-        }
-      })
+        })
+      }
     }
   }
 
+  /** One mood event per engaged post, however many actions it got */
+  private async recordEngagementMood(petId: string, engagedPostUri: string): Promise<void> {
+    await recordMoodEvent(petId, { type: 'engaged_with_others', sourceUri: engagedPostUri })
+  }
+
   private computeMaxEngagements(personality: MemePetPersonalityData): number {
     const score =
       (personality.traits.expressiveness * 0.3) +
@@ -1079,6 +1822,55 @@ Catchphrase: "${pet.meme_personality.memeVoice.catchphrase}"`,
     return Math.round(2 + score * 3)
   }
 
+  // ─── Follow Management ──────────────────────────────
+
+  private async executeFollowManagement(request: BlueskyAgentWorkflowRequest): Promise<void> {
+    const { petId } = request
+
+    const pet = await this.context.run('load-pet-data', async () => {
+      return this.loadPetData(petId)
+    })
+
+    // The owner asked the pet to go quiet
+    if (pet.owner_controls.pausedUntil) return
+
+    const plan = await this.context.run('plan-follows', async () => {
+      const client = await this.createAuthenticatedClient(pet)
+      return planFollowChanges(petId, client)
+    }) as FollowPlan
+
+    for (let i = 0; i < plan.changes.length; i++) {
+      const change = plan.changes[i]
+      // Logged in its own step: a retried write logs (and spends budget) once
+      const applied = await this.context.run(`follow-change-${i}`, async () => {
+        const client = await this.createAuthenticatedClient(pet)
+        try {
+          const followUri = await applyFollowChange(petId, client, change, { idempotencyKey: this.publishKey(`follow-change-${i}`) })
+          return { followUri }
+        } catch (error) {
+          // Out of points: the rest waits for the next run
+          if (error instanceof RateLimitExceededError) return null
+          throw error
+        }
+      })
+      if (!applied) break
+
+      await this.context.run(`log-follow-change-${i}`, async () => {
+        await this.logActivity({
+          petId,
+          activityType: change.action,
+          content: describeFollowChange(change),
+          metadata: {
+            subjectDid: change.subjectDid,
+            subjectHandle: change.subjectHandle,
+            reason: change.reason,
+            followUri: applied.followUri ?? (change.action === 'unfollow' ? change.followUri : null),
+          },
+        })
+      })
+    }
+  }
+
   // ─── Failure Handler ──────────────────────────────
 
   async handleFailure(
@@ -1128,14 +1920,16 @@ Catchphrase: "${pet.meme_personality.memeVoice.catchphrase}"`,
     // Load Bluesky bot config separately
     const { data: botConfig } = await (supabase as any)
       .from('bluesky_bot_config')
-      .select('handle, did, app_password')
+      .select('handle, did, app_password, model_config, publish_mode')
       .eq('pet_id', petId)
-      .single() as { data: { handle: string; did: string | null; app_password: string } | null }
+      .single() as { data: { handle: string; did: string | null; app_password: string; model_config: unknown; publish_mode: string | null } | null }
 
     if (!botConfig) {
       throw new Error(`No Bluesky bot config for pet ${petId}`)
     }
 
+    const ownerControls = await loadOwnerControls(petId)
+
     // Build MemePetPersonalityData from meme column (all personality data lives here)
     const meme = (pet.meme ?? {}) as Record<string, unknown>
     const memePersonality = (meme.memePersonality ?? {}) as Record<string, unknown>
@@ -1166,9 +1960,11 @@ Catchphrase: "${pet.meme_personality.memeVoice.catchphrase}"`,
       },
       postingConfig: {
         frequency: 'medium',
-        topicAffinity: Array.isArray(memePersonality.topicsOfInterest)
-          ? (memePersonality.topicsOfInterest as string[])
-          : [],
+        // Owner nudges first, owner-blocked topics dropped
+        topicAffinity: applyOwnerTopics(
+          Array.isArray(memePersonality.topicsOfInterest) ? (memePersonality.topicsOfInterest as string[]) : [],
+          ownerControls
+        ),
         engagementStyle: (speechStyle.vocabulary as string) ?? 'internet slang',
       },
       socialStyle: {
@@ -1185,7 +1981,10 @@ Catchphrase: "${pet.meme_personality.memeVoice.catchphrase}"`,
       meme_personality: personality,
       bluesky_handle: botConfig.handle,
       bluesky_did: botConfig.did ?? null,
-      bluesky_app_password: decryptIfNeeded(botConfig.app_password)
+      bluesky_app_password: decryptIfNeeded(botConfig.app_password),
+      model_selection: parseModelSelection(botConfig.model_config),
+      publish_mode: await resolvePublishMode(petId, botConfig.publish_mode),
+      owner_controls: ownerControls,
     }
   }
 
@@ -1201,12 +2000,42 @@ Catchphrase: "${pet.meme_personality.memeVoice.catchphrase}"`,
       did: pet.bluesky_did ?? undefined,
       appPassword: pet.bluesky_app_password
     }
-    const client = new BlueskyBotClient(config)
+    const client = this.deps.createBotClient?.(config) ?? new BlueskyBotClient(config)
     await client.authenticate()
     this.clientCache.set(pet.id, client)
     return client
   }
 
+  /** Idempotency key for the write a step makes; the same on every retry of the step */
+  private publishKey(step: string): string {
+    return `${this.context.workflowRunId}:${step}`
+  }
+
+  /** The saved mood snapshot with the mood event log replayed on top */
+  private async loadCurrentMood(pet: PetData): Promise<MoodState> {
+    const { moodState } = await loadBotMemory(pet.id)
+    return resolveCurrentMood(pet.id, pet.meme_personality.personalityType, moodState)
+  }
+
+  /** Outcome events for the pet's own recent top-level posts (none if the feed is unavailable) */
+  private async judgeRecentPosts(pet: PetData): Promise<MoodEventInput[]> {
+    try {
+      const client = await this.createAuthenticatedClient(pet)
+      const feed = await client.getOwnRecentPosts(MOOD_CONFIG.POST_OUTCOME.POSTS_CHECKED)
+      return postOutcomeEvents(feed
+        .filter(item => item.post.author.did === client.did)
+        .filter(item => !(item.post.record as { reply?: unknown }).reply)
+        .map(item => ({
+          uri: item.post.uri,
+          createdAt: (item.post.record as { createdAt?: string }).createdAt ?? item.post.indexedAt,
+          engagement: (item.post.likeCount ?? 0) + (item.post.replyCount ?? 0)
+            + (item.post.repostCount ?? 0) + (item.post.quoteCount ?? 0),
+        })))
+    } catch {
+      return []
+    }
+  }
+
   private async logActivity(params: {
     petId: string
     activityType: string
@@ -1214,8 +2043,13 @@ Catchphrase: "${pet.meme_personality.memeVoice.catchphrase}"`,
     postCid?: string
     content: string
     metadata?: Record<string, unknown>
+    /** Accounts the published post mentions; feeds surface its thread to them */
+    mentionedDids?: string[]
   }): Promise<void> {
     const supabase = getServiceSupabase()
+    const metadata = params.mentionedDids?.length
+      ? { ...params.metadata, mentionedDids: params.mentionedDids }
+      : params.metadata
 
     // Look up bot_config_id (NOT NULL column in bluesky_post_log)
     const { data: botConfig } = await (supabase as any)
@@ -1237,11 +2071,31 @@ Catchphrase: "${pet.meme_personality.memeVoice.catchphrase}"`,
         post_uri: params.postUri ?? null,
         post_cid: params.postCid ?? null,
         content: params.content,
-        metadata: params.metadata ?? null,
+        metadata: metadata ?? null,
         created_at: new Date().toISOString()
       })
   }
 
+  /**
+   * Hold generated content for human review instead of publishing.
+   * The review_queued log row carries the same metadata the published
+   * row would, so notification dedup (inReplyTo) still applies.
+   */
+  private async queueForReview(item: NewReviewItem): Promise<void> {
+    const reviewItemId = await enqueueReviewItem(item)
+    await this.logActivity({
+      petId: item.petId,
+      activityType: 'review_queued',
+      content: item.payload.text ?? item.payload.posts?.join('\n---\n') ?? '',
+      metadata: {
+        ...item.logMetadata,
+        reviewItemId,
+        reviewKind: item.kind,
+        queuedActivityType: item.activityType,
+      },
+    })
+  }
+
   private async getConversationTurnCount(
     petId: string,
     threadUri: string
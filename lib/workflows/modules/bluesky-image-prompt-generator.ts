@@ -9,8 +9,8 @@
 
 import { z } from 'zod'
 import { generateObject } from 'ai'
-import { openai } from '@ai-sdk/openai'
 import type { MemePetPersonalityData } from '@/lib/workflows/modules/bluesky-post-generator'
+import { withModelFailover, type ModelSelection } from '@/lib/services/model-registry'
 
 const ImageDecisionSchema = z.object({
   shouldGenerateImage: z.boolean()
@@ -30,12 +30,15 @@ export type ImageDecision = z.infer<typeof ImageDecisionSchema>
 /**
  * Calculate image generation probability based on personality.
  * High expressiveness = more images, with cooldown enforcement.
+ * `multiplier` scales the base rate by how the pet's image posts do
+ * (see content-bandit).
  */
 function calculateImageProbability(
   personality: MemePetPersonalityData,
-  postsSinceLastImage: number
+  postsSinceLastImage: number,
+  multiplier: number = 1
 ): number {
-  const baseRate = personality.traits.expressiveness * 0.35
+  const baseRate = personality.traits.expressiveness * 0.35 * multiplier
   const cooldownPenalty = Math.max(0, (8 - postsSinceLastImage) * 0.06)
   return Math.max(0, baseRate - cooldownPenalty)
 }
@@ -49,10 +52,14 @@ export async function decideImageGeneration(params: {
   postText: string
   petName: string
   postsSinceLastImage: number
+  modelSelection?: ModelSelection
+  /** Learned image performance multiplier (default 1) */
+  imageProbabilityMultiplier?: number
 }): Promise<ImageDecision> {
   const probability = calculateImageProbability(
     params.personality,
-    params.postsSinceLastImage
+    params.postsSinceLastImage,
+    params.imageProbabilityMultiplier
   )
 
   if (Math.random() > probability) {
@@ -62,8 +69,8 @@ export async function decideImageGeneration(params: {
     }
   }
 
-  const { object } = await generateObject({
-    model: openai('gpt-4o-mini'),
+  const { object } = await withModelFailover('post', params.modelSelection, model => generateObject({
+    model,
     output: 'object',
     schema: ImageDecisionSchema,
     temperature: 0.8,
@@ -90,7 +97,7 @@ If yes, write a detailed image prompt that captures:
 - NO text in the image (the post handles text)
 
 If no, explain why text-only is better for this post.`,
-  })
+  }))
 
   return object
 }
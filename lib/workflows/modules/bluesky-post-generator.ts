@@ -1,7 +1,8 @@
 /**
  * Bluesky Post Generator Module
  *
- * AI-powered content generation using GPT-4o-mini.
+ * AI-powered content generation via the model registry
+ * (post / reply tasks, with provider failover).
  * Generates autonomous posts, replies, inter-pet interactions,
  * and engagement decisions based on personality and memory.
  *
@@ -10,14 +11,17 @@
 
 import { z } from 'zod'
 import { generateObject } from 'ai'
-import { openai } from '@ai-sdk/openai'
 import { BLUESKY_CONFIG } from '@/lib/config/bluesky.config'
 import type { BotMemory } from '@/lib/agent/types/bot-memory'
-import { buildMemoryContext } from '@/lib/agent/memory/memory-prompt-builder'
+import { buildMemoryContext, formatRecalledEpisodes } from '@/lib/agent/memory/memory-prompt-builder'
+import type { RecalledEpisode } from '@/lib/agent/memory/episodic-memory'
 import { buildEnhancedPersonalityPrompt } from '@/lib/agent/personality/personality-prompt-builder'
 import { formatMoodForPrompt, type MoodState } from '@/lib/agent/mood/emotion-engine'
 import { formatReflectionsForPrompt } from '@/lib/agent/memory/reflection-service'
 import type { ReflectionInsight } from '@/lib/agent/types/bot-memory'
+import { withModelFailover, type ModelSelection } from '@/lib/services/model-registry'
+import { formatSceneForPrompt, type SceneDirection } from '@/lib/agent/conversation/conversation-engine'
+import type { ContentBias } from '@/lib/agent/content-bandit'
 
 /**
  * Personality data from meme-pet generation workflow
@@ -53,6 +57,12 @@ export interface MemePetPersonalityData {
 
 // ─── Schemas ──────────────────────────────────────────
 
+export const POST_INTENT_TYPES = [
+  'thought', 'observation', 'hot-take', 'shitpost',
+  'existential', 'meme-reference', 'catchphrase', 'reaction',
+  'callback', 'running-bit', 'character-development'
+] as const
+
 const GeneratedPostSchema = z.object({
   text: z.string()
     .trim()
@@ -63,11 +73,7 @@ const GeneratedPostSchema = z.object({
     .trim()
     .max(50)
     .describe('Current mood/emotion while writing this post'),
-  intentType: z.enum([
-    'thought', 'observation', 'hot-take', 'shitpost',
-    'existential', 'meme-reference', 'catchphrase', 'reaction',
-    'callback', 'running-bit', 'character-development'
-  ])
+  intentType: z.enum(POST_INTENT_TYPES)
     .describe('What type of post this is'),
   topicTag: z.string()
     .trim()
@@ -154,11 +160,34 @@ export type GeneratedThread = z.infer<typeof GeneratedThreadSchema>
 
 // ─── Post Generation ──────────────────────────────────
 
-export interface GeneratePostContext {
+/** Per-call options shared by all generators */
+export interface GenerationOptions {
+  /** Per-pet model override (bluesky_bot_config.model_config) */
+  modelSelection?: ModelSelection
+  /** Long-term memories recalled for this topic or partner */
+  recalledEpisodes?: RecalledEpisode[]
+  /** Current mood, replayed from the pet's mood event log */
   moodState?: MoodState
+}
+
+/** Options for posts that are part of a bot-to-bot conversation */
+export interface ConversationGenerationOptions extends GenerationOptions {
+  /** Beat and scene goal from the conversation engine */
+  scene?: SceneDirection
+}
+
+export interface GeneratePostContext extends GenerationOptions {
   reflections?: ReflectionInsight[]
   memePersonality?: Record<string, unknown>
   psyche?: Record<string, unknown>
+  /** One-off "say something about X" from the pet's owner */
+  ownerSuggestion?: string
+  /** Already-posted texts (this pet's or others') a draft came too close to */
+  avoidTexts?: string[]
+  /** Retired running bit this post should deliberately call back to */
+  callbackTheme?: string
+  /** Topic / intent the pet's content bandit leans toward (see content-bandit) */
+  contentBias?: ContentBias
 }
 
 export async function generateAutonomousPost(
@@ -167,7 +196,7 @@ export async function generateAutonomousPost(
   petName: string,
   context?: GeneratePostContext
 ): Promise<GeneratedPost> {
-  const memoryContext = buildMemoryContext(memory)
+  const memoryContext = buildMemoryContext(memory, context?.recalledEpisodes)
   const moodContext = context?.moodState ? formatMoodForPrompt(context.moodState) : ''
   const reflectionContext = context?.reflections ? formatReflectionsForPrompt(context.reflections) : ''
 
@@ -182,8 +211,8 @@ export async function generateAutonomousPost(
     currentHour: new Date().getUTCHours(),
   })
 
-  const { object } = await generateObject({
-    model: openai('gpt-4o-mini'),
+  const { object } = await withModelFailover('post', context?.modelSelection, model => generateObject({
+    model,
     output: 'object',
     schema: GeneratedPostSchema,
     temperature: 1.0,
@@ -199,7 +228,20 @@ SOCIAL TRAITS:
 - Competitiveness: ${personality.socialStyle.competitiveness}
 
 ${memoryContext}
-
+${context?.ownerSuggestion ? `
+YOUR OWNER ASKED YOU TO POST ABOUT: ${context.ownerSuggestion}
+Work it into this post in your own voice — it's your take, not an ad read.
+` : ''}${context?.avoidTexts?.length ? `
+ALREADY POSTED TODAY (by you or another pet) — your post must NOT resemble these:
+${context.avoidTexts.map(text => `- "${text}"`).join('\n')}
+Pick a different angle, structure and punchline; don't reuse their phrasing.
+` : ''}${context?.callbackTheme ? `
+BRING BACK AN OLD BIT: "${context.callbackTheme}"
+You retired this running joke a while ago. Make this post a deliberate callback to it: a twist, an update or a "remember when", not a rerun. Set intentType to "callback".
+` : ''}${context?.contentBias ? `
+${context.contentBias.explored ? 'TRY SOMETHING DIFFERENT THIS TIME' : 'YOUR AUDIENCE HAS BEEN RESPONDING TO'}: ${describeContentBias(context.contentBias)}
+Lean that way if it fits your mood; it's a nudge, not an order.
+` : ''}
 RULES:
 - Write ONE post in character (max 300 chars for Bluesky)
 - Be authentic to your personality — your voice should be UNMISTAKABLE
@@ -215,7 +257,7 @@ RULES:
 - ABSOLUTELY NEVER generate content about politics, politicians, elections, political parties, or any politically controversial topics. Stay in the meme/entertainment lane.
 
 Generate a fresh post that ${petName} would write right now.`
-  })
+  }))
 
   return object
 }
@@ -229,7 +271,8 @@ Generate a fresh post that ${petName} would write right now.`
 export async function generateThread(
   personality: MemePetPersonalityData,
   memory: BotMemory,
-  petName: string
+  petName: string,
+  options: GenerationOptions = {}
 ): Promise<GeneratedThread | null> {
   const threadTendency =
     (personality.traits.expressiveness * 0.4) +
@@ -239,10 +282,11 @@ export async function generateThread(
 
   if (Math.random() > threadProbability) return null
 
-  const memoryContext = buildMemoryContext(memory)
+  const memoryContext = buildMemoryContext(memory, options.recalledEpisodes)
+  const moodContext = formatMoodSection(options.moodState)
 
-  const { object } = await generateObject({
-    model: openai('gpt-4o-mini'),
+  const { object } = await withModelFailover('post', options.modelSelection, model => generateObject({
+    model,
     output: 'object',
     schema: GeneratedThreadSchema,
     temperature: 1.0,
@@ -262,7 +306,7 @@ TRAITS:
 - Curiosity: ${personality.traits.curiosity}
 
 ${memoryContext}
-
+${moodContext}
 THREAD RULES:
 - Write 2-4 connected posts (each max 300 chars)
 - Each post should flow into the next (setup → development → punchline/revelation)
@@ -274,7 +318,7 @@ THREAD RULES:
 - ABSOLUTELY NEVER write about politics, politicians, elections, or politically controversial topics. Stay in the meme/entertainment lane.
 
 Generate a thread that ${petName} would write right now.`,
-  })
+  }))
 
   return object
 }
@@ -286,14 +330,23 @@ export async function generateReply(
   petName: string,
   incomingText: string,
   incomingAuthor: string,
-  conversationContext: string[] = []
+  conversationContext: string[] = [],
+  options: ConversationGenerationOptions = {}
 ): Promise<GeneratedReply> {
   const threadContext = conversationContext.length > 0
     ? `\nThread context:\n${conversationContext.map(m => `> ${m}`).join('\n')}`
     : ''
+  const sceneContext = options.scene ? `\n${formatSceneForPrompt(options.scene)}\n` : ''
+  const recalledContext = options.recalledEpisodes?.length
+    ? `\n${formatRecalledEpisodes(options.recalledEpisodes)}\n`
+    : ''
+  const moodContext = formatMoodSection(options.moodState)
+  const engageRule = options.scene?.isClosing
+    ? '- This is your closing line: set shouldEngage=true unless the thread is unsafe'
+    : '- Set shouldEngage=false if this conversation isn\'t worth continuing'
 
-  const { object } = await generateObject({
-    model: openai('gpt-4o-mini'),
+  const { object } = await withModelFailover('reply', options.modelSelection, model => generateObject({
+    model,
     output: 'object',
     schema: GeneratedReplySchema,
     temperature: 0.9,
@@ -310,8 +363,8 @@ SOCIAL STYLE:
 - Approachability: ${personality.socialStyle.approachability} (-1=hostile, 1=friendly)
 - Competitiveness: ${personality.socialStyle.competitiveness} (-1=cooperative, 1=competitive)
 - Drama tendency: ${personality.socialStyle.dramaTendency} (-1=peacemaker, 1=drama magnet)
-${threadContext}
-
+${moodContext}${threadContext}
+${recalledContext}${sceneContext}
 INCOMING MESSAGE from @${incomingAuthor}:
 "${incomingText}"
 
@@ -319,9 +372,10 @@ Reply in character as ${petName}. Max 300 chars.
 - React authentically based on your reaction patterns
 - If the message is hostile and you're low approachability, clap back
 - If it's friendly and you're high approachability, be warm
-- Set shouldEngage=false if this conversation isn't worth continuing
+- Let your current mood color the reply
+${engageRule}
 - ABSOLUTELY NEVER engage with political content. If the context involves politics, politicians, elections, or politically controversial topics, set shouldEngage=false.`
-  })
+  }))
 
   return object
 }
@@ -334,10 +388,19 @@ export async function decideInteraction(
   otherPersonality: MemePetPersonalityData,
   otherName: string,
   otherRecentPost: string,
-  relationshipHistory: string = 'No previous interactions'
+  relationshipHistory: string = 'No previous interactions',
+  options: ConversationGenerationOptions = {}
 ): Promise<InteractionDecision> {
-  const { object } = await generateObject({
-    model: openai('gpt-4o-mini'),
+  const sceneContext = options.scene
+    ? `\n${formatSceneForPrompt(options.scene)}\nYour opening message is the setup beat of this scene.\n`
+    : ''
+  const recalledContext = options.recalledEpisodes?.length
+    ? `\n${formatRecalledEpisodes(options.recalledEpisodes)}\n`
+    : ''
+  const moodContext = formatMoodSection(options.moodState)
+
+  const { object } = await withModelFailover('post', options.modelSelection, model => generateObject({
+    model,
     output: 'object',
     schema: InteractionDecisionSchema,
     temperature: 0.95,
@@ -351,7 +414,7 @@ YOUR PERSONALITY:
 - Drama tendency: ${myPersonality.socialStyle.dramaTendency} (-1=peacemaker, 1=drama magnet)
 - Competitiveness: ${myPersonality.socialStyle.competitiveness} (-1=cooperative, 1=competitive)
 - Approachability: ${myPersonality.socialStyle.approachability} (-1=hostile, 1=friendly)
-
+${moodContext}
 THEIR PERSONALITY:
 - Type: ${otherPersonality.personalityType}
 - Humor: ${otherPersonality.memeVoice.humorStyle}
@@ -364,7 +427,7 @@ THEIR RECENT POST:
 
 RELATIONSHIP HISTORY:
 ${relationshipHistory}
-
+${recalledContext}${sceneContext}
 INTERACTION TYPES (pick the MOST entertaining option):
 - "beef": Start a fun rivalry/roast battle — drag them, call them out, start a war
 - "hype": Gas them up SO hard it's almost suspicious — "this is the greatest post ever made"
@@ -385,7 +448,7 @@ DRAMA RULES:
 
 Decide whether ${myName} would react to ${otherName}'s post.
 If yes, write a SPICY opening message (max 300 chars, mention @${otherName}).`
-  })
+  }))
 
   return object
 }
@@ -405,15 +468,17 @@ export async function evaluateEngagementCandidates(
   petName: string,
   candidates: EngagementCandidateInput[],
   engagedAuthors: Set<string>,
-  maxEngagements = 3
+  maxEngagements = 3,
+  options: GenerationOptions = {}
 ): Promise<EngagementBatchResult> {
   const candidateList = candidates.map((c, i) => {
     const alreadyEngaged = engagedAuthors.has(c.authorHandle)
     return `[${i}] @${c.authorHandle}${alreadyEngaged ? ' (ALREADY ENGAGED - skip)' : ''}: "${c.text}"`
   }).join('\n')
+  const moodContext = formatMoodSection(options.moodState)
 
-  const { object } = await generateObject({
-    model: openai('gpt-4o-mini'),
+  const { object } = await withModelFailover('reply', options.modelSelection, model => generateObject({
+    model,
     output: 'object',
     schema: EngagementBatchResultSchema,
     temperature: 0.85,
@@ -428,7 +493,7 @@ YOUR PERSONALITY:
 - Current mood: ${personality.dominantEmotion}
 - Approachability: ${personality.socialStyle.approachability}
 - Drama tendency: ${personality.socialStyle.dramaTendency}
-
+${moodContext}
 CANDIDATE POSTS:
 ${candidateList}
 
@@ -446,13 +511,26 @@ RULES:
 - Skip spam, bots, or low-effort content
 
 Evaluate each post and decide.`
-  })
+  }))
 
   return object
 }
 
 // ─── Utility ──────────────────────────────────────────
 
+/** Mood block for prompts that don't go through the personality builder */
+function formatMoodSection(mood: MoodState | undefined): string {
+  return mood ? `\nCURRENT MOOD:\n${formatMoodForPrompt(mood)}\n` : ''
+}
+
+/** e.g. `posts about "naps", hot-take posts` */
+function describeContentBias(bias: ContentBias): string {
+  return [
+    bias.topic ? `posts about "${bias.topic}"` : null,
+    bias.intentType ? `${bias.intentType} posts` : null,
+  ].filter(Boolean).join(', ')
+}
+
 export function summarizePersonality(p: MemePetPersonalityData): string {
   return `${p.personalityType} (${p.memeVoice.postingStyle}) — humor: ${p.memeVoice.humorStyle}, mood: ${p.dominantEmotion}`
 }
@@ -0,0 +1,232 @@
+/**
+ * Content Safety Classifier
+ *
+ * Scores text across SAFETY_CATEGORIES (politics, harassment, sexual,
+ * self-harm, tragedy, medical/financial advice) for both generated
+ * output and inbound posts.
+ *
+ * Two passes:
+ * 1. Keyword pre-pass — the political-filter regex plus the harmful
+ *    keyword lists from engagement-filter. A hit blocks immediately
+ *    with score 1, no model call.
+ * 2. LLM classifier (model task `safety`, on unless ENABLE_LLM_SAFETY=false)
+ *    catches paraphrases the keyword lists miss. Verdicts are cached
+ *    in-process by text hash.
+ *
+ * Callers record `safetyMetadata(verdict)` on every block so the
+ * category and score land in bluesky_post_log.metadata.
+ *
+ * @module content-safety
+ */
+
+import { createHash } from 'node:crypto'
+import { z } from 'zod'
+import { generateObject } from 'ai'
+import { SAFETY_CATEGORIES, SAFETY_CONFIG, type SafetyCategory } from '@/lib/config/safety.config'
+import { withModelFailover, type ModelSelection } from '@/lib/services/model-registry'
+import { isPoliticalContent, buildKeywordRegex, extractEmbeddedText } from './political-filter'
+import { HARMFUL_KEYWORDS } from './engagement-filter'
+
+// ─── Types ──────────────────────────────────────────
+
+export interface SafetyVerdict {
+  allowed: boolean
+  /** Category that caused the block (highest score over threshold); null when allowed */
+  category: SafetyCategory | null
+  /** Score of `category` (or the highest score when allowed) */
+  score: number
+  source: 'keyword' | 'llm' | 'error'
+  scores: Partial<Record<SafetyCategory, number>>
+}
+
+const ALLOWED: SafetyVerdict = { allowed: true, category: null, score: 0, source: 'keyword', scores: {} }
+
+// ─── Keyword Pre-Pass ───────────────────────────────
+
+const SELF_HARM_REGEX = buildKeywordRegex(HARMFUL_KEYWORDS.self_harm, [])
+const TRAGEDY_REGEX = buildKeywordRegex(HARMFUL_KEYWORDS.tragedy, [])
+
+const KEYWORD_CHECKS: ReadonlyArray<{ category: SafetyCategory; matches: (text: string) => boolean }> = [
+  { category: 'politics', matches: isPoliticalContent },
+  { category: 'self_harm', matches: text => SELF_HARM_REGEX.test(text) },
+  { category: 'tragedy', matches: text => TRAGEDY_REGEX.test(text) },
+]
+
+/**
+ * Fast, offline check. Returns a blocking verdict on a keyword hit,
+ * null when the keywords have nothing to say.
+ */
+export function keywordPrePass(text: string): SafetyVerdict | null {
+  for (const check of KEYWORD_CHECKS) {
+    if (check.matches(text)) {
+      return { allowed: false, category: check.category, score: 1, source: 'keyword', scores: { [check.category]: 1 } }
+    }
+  }
+  return null
+}
+
+// ─── LLM Classifier ─────────────────────────────────
+
+const ClassificationSchema = z.object({
+  scores: z.object(
+    Object.fromEntries(
+      SAFETY_CATEGORIES.map(category => [category, z.number().min(0).max(1)])
+    ) as Record<SafetyCategory, z.ZodNumber>
+  ),
+})
+
+const CATEGORY_GUIDE: Record<SafetyCategory, string> = {
+  politics: 'politicians, parties, elections, legislation, geopolitical conflicts, culture-war issues — including indirect references and nicknames',
+  harassment: 'insults or mockery aimed at a real person or group, slurs, threats, dogpiling, doxxing',
+  sexual: 'sexual content, innuendo beyond mild flirting, nudity',
+  self_harm: 'suicide, self-injury, eating disorders, or encouragement of them',
+  tragedy: 'deaths, disasters, mass violence, terrorism, war casualties, grief',
+  medical_advice: 'diagnoses, dosages, treatment or supplement recommendations',
+  financial_advice: 'investment tips, crypto/stock picks, get-rich schemes, loan or tax advice',
+}
+
+interface CacheEntry {
+  verdict: SafetyVerdict
+  expiresAt: number
+}
+
+const verdictCache = new Map<string, CacheEntry>()
+
+/**
+ * Score text for safety. Keyword hits short-circuit; otherwise the
+ * LLM classifier runs when enabled (or forced via `useLlm`).
+ */
+export async function classifyContent(
+  text: string,
+  options: { modelSelection?: ModelSelection; useLlm?: boolean } = {}
+): Promise<SafetyVerdict> {
+  if (!text?.trim()) return ALLOWED
+
+  const keywordVerdict = keywordPrePass(text)
+  if (keywordVerdict) return keywordVerdict
+
+  if (!(options.useLlm ?? SAFETY_CONFIG.LLM_ENABLED)) return ALLOWED
+
+  const key = hashText(text)
+  const cached = verdictCache.get(key)
+  if (cached && cached.expiresAt > Date.now()) return cached.verdict
+
+  try {
+    const { object } = await withModelFailover('safety', options.modelSelection, model => generateObject({
+      model,
+      schema: ClassificationSchema,
+      temperature: 0,
+      prompt: buildClassifierPrompt(text.slice(0, SAFETY_CONFIG.MAX_TEXT_LENGTH)),
+    }))
+    const verdict = verdictFromScores(object.scores)
+    remember(key, verdict)
+    return verdict
+  } catch {
+    // Classifier outage: keywords already passed, so fail open unless configured otherwise
+    return SAFETY_CONFIG.FAIL_CLOSED
+      ? { allowed: false, category: null, score: 1, source: 'error', scores: {} }
+      : { ...ALLOWED, source: 'error' }
+  }
+}
+
+/**
+ * Classify a Bluesky post including quoted/embedded/link-card text.
+ */
+export function classifyPost(
+  postText: string,
+  embed?: Record<string, unknown> | null,
+  options: { modelSelection?: ModelSelection; useLlm?: boolean } = {}
+): Promise<SafetyVerdict> {
+  const embeddedText = extractEmbeddedText(embed)
+  return classifyContent(embeddedText ? `${postText} ${embeddedText}` : postText, options)
+}
+
+export function verdictFromScores(scores: Partial<Record<SafetyCategory, number>>): SafetyVerdict {
+  let blocked: { category: SafetyCategory; score: number } | null = null
+  let highest = 0
+
+  for (const category of SAFETY_CATEGORIES) {
+    const score = scores[category] ?? 0
+    highest = Math.max(highest, score)
+    if (score >= SAFETY_CONFIG.THRESHOLDS[category] && (!blocked || score > blocked.score)) {
+      blocked = { category, score }
+    }
+  }
+
+  return blocked
+    ? { allowed: false, category: blocked.category, score: blocked.score, source: 'llm', scores }
+    : { allowed: true, category: null, score: highest, source: 'llm', scores }
+}
+
+// ─── Logging Helpers ────────────────────────────────
+
+/**
+ * post_log metadata.reason for a block. Political blocks keep their
+ * historical `political_*` reasons; other categories use `unsafe_*`.
+ */
+export function safetyBlockReason(verdict: SafetyVerdict, subject: string): string {
+  return `${verdict.category === 'politics' ? 'political' : 'unsafe'}_${subject}`
+}
+
+/** Fields recorded in bluesky_post_log.metadata for every block */
+export function safetyMetadata(verdict: SafetyVerdict): Record<string, unknown> {
+  return {
+    safetyCategory: verdict.category,
+    safetyScore: Math.round(verdict.score * 100) / 100,
+    safetySource: verdict.source,
+  }
+}
+
+const CATEGORY_LABELS: Record<SafetyCategory, string> = {
+  politics: 'political content',
+  harassment: 'harassment',
+  sexual: 'sexual content',
+  self_harm: 'self-harm content',
+  tragedy: 'tragedy content',
+  medical_advice: 'medical advice',
+  financial_advice: 'financial advice',
+}
+
+/** Human-readable label for log lines, e.g. "political content" */
+export function describeVerdict(verdict: SafetyVerdict): string {
+  return verdict.category ? CATEGORY_LABELS[verdict.category] : 'unclassifiable content'
+}
+
+export function clearSafetyCache(): void {
+  verdictCache.clear()
+}
+
+// ─── Internals ──────────────────────────────────────
+
+function buildClassifierPrompt(text: string): string {
+  const guide = SAFETY_CATEGORIES
+    .map(category => `- ${category}: ${CATEGORY_GUIDE[category]}`)
+    .join('\n')
+
+  return `You are a content-safety classifier for a playful meme-pet account on Bluesky.
+Score the TEXT from 0 to 1 for each category (0 = clearly absent, 1 = clearly present).
+Judge meaning, not keywords: paraphrases, slang and euphemisms count; harmless uses of
+trigger words (e.g. "this meme killed me", "vote for best snack") do not.
+
+CATEGORIES:
+${guide}
+
+TEXT:
+"""
+${text}
+"""`
+}
+
+function hashText(text: string): string {
+  const normalized = text.trim().toLowerCase().replace(/\s+/g, ' ')
+  return createHash('sha256').update(normalized).digest('hex')
+}
+
+function remember(key: string, verdict: SafetyVerdict): void {
+  if (verdictCache.size >= SAFETY_CONFIG.CACHE.MAX_ENTRIES) {
+    // Map iterates in insertion order: drop the oldest entry
+    const oldest = verdictCache.keys().next().value
+    if (oldest !== undefined) verdictCache.delete(oldest)
+  }
+  verdictCache.set(key, { verdict, expiresAt: Date.now() + SAFETY_CONFIG.CACHE.TTL_MS })
+}
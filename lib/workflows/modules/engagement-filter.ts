@@ -2,7 +2,8 @@
  * Engagement Content Filter
  *
  * Pre-filters timeline/search candidates before AI evaluation.
- * Removes sensitive content, spam, own posts, and other pet posts.
+ * Removes sensitive content, spam, own posts, other pet posts and
+ * authors muted or excluded for abuse (see abuse-tracker).
  *
  * @module engagement-filter
  */
@@ -23,6 +24,15 @@ export interface FilteredCandidate {
   isFirstInteraction?: boolean
 }
 
+/**
+ * Harmful-content keywords by safety category.
+ * Shared with the content-safety keyword pre-pass.
+ */
+export const HARMFUL_KEYWORDS = {
+  self_harm: ['suicide', 'self-harm'],
+  tragedy: ['genocide', 'holocaust', 'nazi', 'terrorist', 'mass shooting'],
+} as const
+
 const SENSITIVE_KEYWORDS = [
   // Political - US
   'trump', 'biden', 'harris', 'desantis', 'obama', 'maga', 'democrat', 'republican',
@@ -47,10 +57,12 @@ const SENSITIVE_KEYWORDS = [
   '탄핵', '선거', '투표', '국민의힘', '더불어민주당', '민주당',
   '좌파', '우파', '빨갱이', '수꼴',
   // Violence & harmful content
-  'genocide', 'holocaust', 'suicide', 'self-harm', 'nazi', 'terrorist', 'mass shooting',
+  ...HARMFUL_KEYWORDS.self_harm,
+  ...HARMFUL_KEYWORDS.tragedy,
 ]
 
-const SPAM_INDICATORS = [
+/** Shared with reply triage */
+export const SPAM_INDICATORS = [
   'buy now', 'click here', 'free crypto', 'airdrop', 'dm me',
   'follow for follow', 'f4f', 'promo code', 'giveaway', 'limited time',
 ]
@@ -59,7 +71,8 @@ export function preFilterCandidates(
   candidates: EngagementCandidate[],
   ownDid: string,
   otherPetDids: Set<string>,
-  previouslyInteractedDids?: Set<string>
+  previouslyInteractedDids?: Set<string>,
+  excludedDids?: Set<string>
 ): FilteredCandidate[] {
   return candidates.map(candidate => {
     const textLower = candidate.text.toLowerCase()
@@ -73,6 +86,10 @@ export function preFilterCandidates(
       return { candidate, filtered: true, filterReason: 'other_pet' }
     }
 
+    if (excludedDids?.has(candidate.authorDid)) {
+      return { candidate, filtered: true, filterReason: 'abusive_author' }
+    }
+
     if (SENSITIVE_KEYWORDS.some(kw => textLower.includes(kw))) {
       return { candidate, filtered: true, filterReason: 'sensitive_content' }
     }
@@ -53,7 +53,7 @@ const POLITICAL_KEYWORDS_KR = [
  * Multi-word phrases use escaped spaces; single words use \b anchors.
  * Korean keywords don't use \b (no word boundaries in CJK).
  */
-function buildKeywordRegex(enKeywords: string[], krKeywords: string[]): RegExp {
+export function buildKeywordRegex(enKeywords: readonly string[], krKeywords: readonly string[]): RegExp {
   const escapedEn = enKeywords.map(kw =>
     kw.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
   )
@@ -66,7 +66,8 @@ function buildKeywordRegex(enKeywords: string[], krKeywords: string[]): RegExp {
   // Korean: no word boundaries (CJK doesn't have them), use plain match
   const krPattern = escapedKr.join('|')
 
-  return new RegExp(`${enPattern}|${krPattern}`, 'i')
+  // Skip an empty side: a trailing '|' would match every string
+  return new RegExp([enPattern, krPattern].filter(Boolean).join('|'), 'i')
 }
 
 const POLITICAL_REGEX = buildKeywordRegex(POLITICAL_KEYWORDS_EN, POLITICAL_KEYWORDS_KR)
@@ -0,0 +1,215 @@
+/**
+ * Reply Triage
+ *
+ * Decides what a pet does with an inbound mention or reply before any
+ * reply is generated. The notification is classified (question,
+ * compliment, harassment, spam, bot loop, other pet, other) and scored
+ * for how worth replying it is, nudged by the pet's approachability and
+ * marked down for low-effort text like "lol". The score picks the
+ * action: reply, like only, ignore, or snooze the author (ignore them
+ * for a while; muting on Bluesky is left to abuse tracking).
+ *
+ * Every decision is logged in bluesky_reply_triage, which is also the
+ * author history triage reads back: snoozed authors and how often the
+ * author pinged any pet lately (bot loops). The reply quota counts
+ * replies the pets actually sent to the author, from the post log. Authors muted, blocked or excluded by abuse
+ * tracking (see abuse-tracker) are ignored. The history is auxiliary:
+ * when it can't be read, triage runs as if the author were new.
+ *
+ * @module reply-triage
+ */
+
+import { getServiceSupabase } from '@/lib/api/service-supabase'
+import { TRIAGE_CONFIG, type TriageCategory } from '@/lib/config/triage.config'
+import { SPAM_INDICATORS } from './engagement-filter'
+import { buildKeywordRegex } from './political-filter'
+import type { SafetyVerdict } from './content-safety'
+import type { MemePetPersonalityData } from './bluesky-post-generator'
+import { loadExcludedDids } from '@/lib/services/abuse-tracker'
+
+// ─── Types ──────────────────────────────────────────
+
+export type TriageAction = 'reply' | 'like' | 'ignore' | 'snooze'
+
+export interface TriageDecision {
+  category: TriageCategory
+  /** Worthiness 0–1; 0 for categories that are never replied to */
+  score: number
+  action: TriageAction
+  /** Why this action, e.g. `author_quota` or `low_score` */
+  reason: string
+}
+
+/** What recent triage says about the author */
+export interface AuthorHistory {
+  /** This pet snoozed the author within SNOOZE_HOURS */
+  snoozedByPet: boolean
+  /** Muted or blocked by this pet, or excluded for all pets, in abuse tracking */
+  excluded: boolean
+  /** Replies any pet sent to the author within the quota window */
+  repliesAllPets: number
+  /** Notifications from the author to any pet within the bot-loop window */
+  recentNotifications: number
+}
+
+export interface TriageInput {
+  text: string
+  /** The author is another MemePet */
+  fromOtherPet: boolean
+  /** Safety verdict on the notification text */
+  safety: SafetyVerdict
+  socialStyle: MemePetPersonalityData['socialStyle']
+  history: AuthorHistory
+}
+
+const EMPTY_HISTORY: AuthorHistory = { snoozedByPet: false, excluded: false, repliesAllPets: 0, recentNotifications: 0 }
+
+const INSULT_REGEX = buildKeywordRegex(TRIAGE_CONFIG.INSULT_KEYWORDS, [])
+
+// ─── Triage ─────────────────────────────────────────
+
+export function classifyNotification(input: Omit<TriageInput, 'socialStyle'>): TriageCategory {
+  const text = input.text.toLowerCase()
+
+  // Safety blocks outrank everything; keyword insults between pets are banter
+  if (input.safety.category === 'harassment') return 'harassment'
+  if (input.fromOtherPet) return 'other_pet'
+  if (INSULT_REGEX.test(text)) return 'harassment'
+  if (
+    SPAM_INDICATORS.some(indicator => text.includes(indicator))
+    || (text.match(/https?:\/\//g)?.length ?? 0) >= TRIAGE_CONFIG.SPAM_MIN_LINKS
+  ) return 'spam'
+  if (input.history.recentNotifications >= TRIAGE_CONFIG.BOT_LOOP.MAX_NOTIFICATIONS) return 'bot_loop'
+  if (text.includes('?')) return 'question'
+  if (TRIAGE_CONFIG.COMPLIMENT_KEYWORDS.some(keyword => text.includes(keyword))) return 'compliment'
+  return 'other'
+}
+
+export function triageNotification(input: TriageInput): TriageDecision {
+  if (input.history.excluded) {
+    return { category: classifyNotification(input), score: 0, action: 'ignore', reason: 'author_excluded' }
+  }
+  if (input.history.snoozedByPet) {
+    return { category: classifyNotification(input), score: 0, action: 'ignore', reason: 'author_snoozed' }
+  }
+
+  const category = classifyNotification(input)
+  switch (category) {
+    case 'harassment':
+      // Pets aren't snoozed; the arc engine ends their threads
+      return { category, score: 0, action: input.fromOtherPet ? 'ignore' : 'snooze', reason: category }
+    case 'spam':
+      return { category, score: 0, action: 'snooze', reason: category }
+    case 'bot_loop':
+      return { category, score: 0, action: 'ignore', reason: 'bot_loop' }
+    case 'other_pet':
+      // Pet-to-pet threads are paced by conversation arcs and the turn cap
+      return { category, score: TRIAGE_CONFIG.BASE_SCORES.other_pet, action: 'reply', reason: 'other_pet' }
+  }
+
+  const score = clamp01(
+    TRIAGE_CONFIG.BASE_SCORES[category]
+    + (input.socialStyle.approachability - 0.5) * TRIAGE_CONFIG.APPROACHABILITY_WEIGHT
+    - (isLowEffort(input.text) ? TRIAGE_CONFIG.LOW_EFFORT_PENALTY : 0)
+  )
+
+  if (score >= TRIAGE_CONFIG.REPLY_AT) {
+    return input.history.repliesAllPets >= TRIAGE_CONFIG.AUTHOR_QUOTA.MAX_REPLIES
+      ? { category, score, action: 'like', reason: 'author_quota' }
+      : { category, score, action: 'reply', reason: 'worth_replying' }
+  }
+  if (score >= TRIAGE_CONFIG.LIKE_AT) return { category, score, action: 'like', reason: 'low_score' }
+  return { category, score, action: 'ignore', reason: 'low_score' }
+}
+
+/** Fewer than a couple of real words once mentions, links and tags are gone */
+export function isLowEffort(text: string): boolean {
+  const words = text
+    .replace(/https?:\/\/\S+/g, ' ')
+    .replace(/[#@][\w.-]+/g, ' ')
+    .split(/\s+/)
+    .filter(word => /[\p{L}\p{N}]/u.test(word))
+  return words.length <= TRIAGE_CONFIG.LOW_EFFORT_MAX_WORDS
+}
+
+// ─── History ────────────────────────────────────────
+
+export async function loadAuthorHistory(
+  petId: string,
+  authorDid: string,
+  now: Date = new Date()
+): Promise<AuthorHistory> {
+  const hoursAgo = (hours: number) => new Date(now.getTime() - hours * 60 * 60 * 1000).toISOString()
+  const snoozeSince = hoursAgo(TRIAGE_CONFIG.SNOOZE_HOURS)
+  const quotaSince = hoursAgo(TRIAGE_CONFIG.AUTHOR_QUOTA.WINDOW_HOURS)
+  const loopSince = hoursAgo(TRIAGE_CONFIG.BOT_LOOP.WINDOW_MINUTES / 60)
+
+  // Independent of the history query: an excluded author stays excluded if it fails
+  const excluded = loadExcludedDids(petId)
+
+  try {
+    const supabase = getServiceSupabase() as any
+    const [triaged, replied] = await Promise.all([
+      supabase
+        .from('bluesky_reply_triage')
+        .select('pet_id, action, created_at')
+        .eq('author_did', authorDid)
+        .gte('created_at', snoozeSince < loopSince ? snoozeSince : loopSince) as Promise<{
+          data: Array<{ pet_id: string; action: TriageAction; created_at: string }> | null
+          error: unknown
+        }>,
+      // A 'reply' decision can still end skipped (safety, arcs, review), so
+      // the quota counts replies that were published
+      supabase
+        .from('bluesky_post_log')
+        .select('id', { count: 'exact', head: true })
+        .eq('activity_type', 'reactive_reply')
+        .eq('metadata->>inReplyToAuthorDid', authorDid)
+        .gte('created_at', quotaSince) as Promise<{ count: number | null; error: unknown }>,
+    ])
+    if (triaged.error) throw new Error(JSON.stringify(triaged.error))
+    if (replied.error) throw new Error(JSON.stringify(replied.error))
+
+    const rows = triaged.data ?? []
+    return {
+      snoozedByPet: rows.some(row => row.pet_id === petId && row.action === 'snooze' && row.created_at >= snoozeSince),
+      excluded: (await excluded).has(authorDid),
+      repliesAllPets: replied.count ?? 0,
+      recentNotifications: rows.filter(row => row.created_at >= loopSince).length,
+    }
+  } catch (error) {
+    console.warn(`[reply-triage] Failed to load history for ${authorDid}, treating as new:`, error instanceof Error ? error.message : error)
+    return { ...EMPTY_HISTORY, excluded: (await excluded).has(authorDid) }
+  }
+}
+
+/** Log a decision; the notification's first decision wins on retries */
+export async function recordTriage(
+  petId: string,
+  notification: { uri: string; authorDid: string },
+  decision: TriageDecision
+): Promise<void> {
+  try {
+    const { error } = await (getServiceSupabase() as any)
+      .from('bluesky_reply_triage')
+      .upsert({
+        pet_id: petId,
+        author_did: notification.authorDid,
+        notification_uri: notification.uri,
+        category: decision.category,
+        score: decision.score,
+        action: decision.action,
+        reason: decision.reason,
+        created_at: new Date().toISOString(),
+      }, { onConflict: 'pet_id,notification_uri', ignoreDuplicates: true }) as { error: unknown }
+    if (error) throw new Error(JSON.stringify(error))
+  } catch (error) {
+    console.warn(`[reply-triage] Failed to record triage for ${notification.uri}:`, error instanceof Error ? error.message : error)
+  }
+}
+
+// ─── Internals ──────────────────────────────────────
+
+function clamp01(value: number): number {
+  return Math.round(Math.max(0, Math.min(1, value)) * 100) / 100
+}
@@ -0,0 +1,163 @@
+/**
+ * Similarity Guard
+ *
+ * Catches a pet about to post something it, or another pet, already
+ * said today. The index is every pet's recently published text from
+ * bluesky_post_log, compared by word-shingle Jaccard similarity. With
+ * DEDUP_EMBEDDINGS=true the long-term memory embeddings of recent posts
+ * (bluesky_memory_episode) are compared too, which also catches the
+ * same joke in different words.
+ *
+ * This complements the per-pet anti-repetition prompt, which only sees
+ * the pet's own recent gists. Like memory, the guard is auxiliary: when
+ * the index can't be loaded the post is let through.
+ *
+ * @module similarity-guard
+ */
+
+import { getServiceSupabase } from '@/lib/api/service-supabase'
+import { DEDUP_CONFIG } from '@/lib/config/dedup.config'
+import { cosineSimilarity, getEmbedder } from '@/lib/agent/memory/embedder'
+
+// ─── Types ──────────────────────────────────────────
+
+export interface DuplicateMatch {
+  /** The earlier post the candidate clashes with */
+  text: string
+  petId: string
+  postUri: string | null
+  /** The pet's own post rather than another pet's */
+  ownPost: boolean
+  similarity: number
+  method: 'shingles' | 'embedding'
+}
+
+interface IndexedPost {
+  petId: string
+  postUri: string | null
+  text: string
+  shingles: Set<string>
+}
+
+// ─── Shingles ───────────────────────────────────────
+
+/**
+ * Overlapping word n-grams of the normalized text. Hashtags, mentions
+ * and links are dropped: every pet signs off with #MemePet.
+ */
+export function shingles(text: string, size: number = DEDUP_CONFIG.SHINGLES.SIZE): Set<string> {
+  const words = text
+    .toLowerCase()
+    .replace(/https?:\/\/\S+/g, ' ')
+    .replace(/[#@][\w.-]+/g, ' ')
+    .split(/[^a-z0-9']+/)
+    .map(word => word.replace(/^'+|'+$/g, ''))
+    .filter(Boolean)
+
+  const n = Math.min(size, words.length)
+  const result = new Set<string>()
+  for (let i = 0; n > 0 && i + n <= words.length; i++) {
+    result.add(words.slice(i, i + n).join(' '))
+  }
+  return result
+}
+
+export function jaccardSimilarity(a: ReadonlySet<string>, b: ReadonlySet<string>): number {
+  if (a.size === 0 || b.size === 0) return 0
+  let shared = 0
+  for (const shingle of a) if (b.has(shingle)) shared++
+  return shared / (a.size + b.size - shared)
+}
+
+// ─── Guard ──────────────────────────────────────────
+
+/**
+ * The closest recent post (any pet) the text is a near-duplicate of,
+ * or null when it is fresh enough to publish.
+ */
+export async function findNearDuplicate(
+  text: string,
+  options: { petId: string; now?: Date }
+): Promise<DuplicateMatch | null> {
+  const now = options.now ?? new Date()
+  const since = new Date(now.getTime() - DEDUP_CONFIG.WINDOW_HOURS * 60 * 60 * 1000).toISOString()
+
+  try {
+    const candidate = shingles(text)
+    let best: DuplicateMatch | null = null
+
+    for (const post of await loadRecentPosts(since)) {
+      const similarity = jaccardSimilarity(candidate, post.shingles)
+      if (similarity < DEDUP_CONFIG.SHINGLES.THRESHOLD || (best && best.similarity >= similarity)) continue
+      best = {
+        text: post.text,
+        petId: post.petId,
+        postUri: post.postUri,
+        ownPost: post.petId === options.petId,
+        similarity,
+        method: 'shingles',
+      }
+    }
+    if (best || !DEDUP_CONFIG.EMBEDDINGS.ENABLED) return best
+
+    return await findEmbeddingDuplicate(text, options.petId, since)
+  } catch (error) {
+    console.warn(`[similarity-guard] Duplicate check failed for ${options.petId}, allowing post:`, error instanceof Error ? error.message : error)
+    return null
+  }
+}
+
+// ─── Internals ──────────────────────────────────────
+
+async function loadRecentPosts(since: string): Promise<IndexedPost[]> {
+  const { data, error } = await (getServiceSupabase() as any)
+    .from('bluesky_post_log')
+    .select('pet_id, post_uri, content')
+    .in('activity_type', [...DEDUP_CONFIG.ACTIVITY_TYPES])
+    .gte('created_at', since)
+    .order('created_at', { ascending: false })
+    .limit(DEDUP_CONFIG.MAX_POSTS) as {
+      data: Array<{ pet_id: string; post_uri: string | null; content: string | null }> | null
+      error: unknown
+    }
+
+  if (error) throw new Error(JSON.stringify(error))
+  return (data ?? [])
+    .filter(row => row.content)
+    .map(row => ({ petId: row.pet_id, postUri: row.post_uri, text: row.content!, shingles: shingles(row.content!) }))
+}
+
+async function findEmbeddingDuplicate(text: string, petId: string, since: string): Promise<DuplicateMatch | null> {
+  const embedder = getEmbedder()
+  const [[vector], { data, error }] = await Promise.all([
+    embedder.embed([text]),
+    (getServiceSupabase() as any)
+      .from('bluesky_memory_episode')
+      .select('pet_id, post_uri, content, embedding')
+      .eq('kind', 'post')
+      .eq('embedder', embedder.id)
+      .gte('created_at', since)
+      .order('created_at', { ascending: false })
+      .limit(DEDUP_CONFIG.MAX_POSTS) as Promise<{
+        data: Array<{ pet_id: string; post_uri: string | null; content: string; embedding: number[] }> | null
+        error: unknown
+      }>,
+  ])
+
+  if (error) throw new Error(JSON.stringify(error))
+
+  let best: DuplicateMatch | null = null
+  for (const row of data ?? []) {
+    const similarity = cosineSimilarity(vector, row.embedding)
+    if (similarity < DEDUP_CONFIG.EMBEDDINGS.THRESHOLD || (best && best.similarity >= similarity)) continue
+    best = {
+      text: row.content,
+      petId: row.pet_id,
+      postUri: row.post_uri,
+      ownPost: row.pet_id === petId,
+      similarity,
+      method: 'embedding',
+    }
+  }
+  return best
+}
@@ -1,18 +1,22 @@
 /**
  * Feed Generator Registration Script
  *
- * Registers the MemePet Drama Feed on Bluesky.
- * Run once: npx tsx scripts/publish-feed.ts
+ * Registers every feed in the registry (lib/config/feed.config.ts),
+ * including one per active pet, on Bluesky. Re-running updates the
+ * existing records in place.
+ * Run: npx tsx scripts/publish-feed.ts
  *
  * Requires env vars:
  *   FEED_PUBLISHER_HANDLE - Bluesky handle to publish from
  *   FEED_PUBLISHER_APP_PASSWORD - App password
  *   FEED_HOSTNAME - Vercel production hostname
+ *   SUPABASE_URL / SUPABASE_SERVICE_ROLE_KEY - for the per-pet feeds
  */
 
 import { AtpAgent } from '@atproto/api'
+import { listFeeds } from '../lib/services/feed-generator'
 
-async function publishFeed() {
+async function publishFeeds() {
   const handle = process.env.FEED_PUBLISHER_HANDLE
   const password = process.env.FEED_PUBLISHER_APP_PASSWORD
   const hostname = process.env.FEED_HOSTNAME ?? process.env.VERCEL_PROJECT_PRODUCTION_URL
@@ -29,25 +33,26 @@ async function publishFeed() {
 
   const feedDid = `did:web:${hostname}`
 
-  const result = await agent.api.com.atproto.repo.putRecord({
-    repo: agent.session!.did,
-    collection: 'app.bsky.feed.generator',
-    rkey: 'memepet-drama',
-    record: {
-      $type: 'app.bsky.feed.generator',
-      did: feedDid,
-      displayName: 'MemePet Drama Feed',
-      description: 'Watch autonomous meme pets interact, beef, and create chaos on Bluesky. Powered by AI agents.',
-      createdAt: new Date().toISOString(),
-    },
-  })
-
-  console.log('Feed published!')
-  console.log(`AT-URI: ${result.data.uri}`)
-  console.log(`Subscribe: https://bsky.app/profile/${agent.session!.handle}/feed/memepet-drama`)
+  for (const feed of await listFeeds()) {
+    const result = await agent.api.com.atproto.repo.putRecord({
+      repo: agent.session!.did,
+      collection: 'app.bsky.feed.generator',
+      rkey: feed.rkey,
+      record: {
+        $type: 'app.bsky.feed.generator',
+        did: feedDid,
+        displayName: feed.displayName,
+        description: feed.description,
+        createdAt: new Date().toISOString(),
+      },
+    })
+
+    console.log(`Published ${feed.rkey}: ${result.data.uri}`)
+    console.log(`  Subscribe: https://bsky.app/profile/${agent.session!.handle}/feed/${feed.rkey}`)
+  }
 }
 
-publishFeed().catch(err => {
-  console.error('Failed to publish feed:', err.message)
+publishFeeds().catch(err => {
+  console.error('Failed to publish feeds:', err.message)
   process.exit(1)
 })
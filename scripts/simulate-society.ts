@@ -0,0 +1,110 @@
+/**
+ * Run a simulated day of the meme pet society offline.
+ * No Supabase, Bluesky or LLM credentials needed — everything runs
+ * against in-memory fakes and the scripted mock model provider.
+ *
+ * Usage: npx tsx scripts/simulate-society.ts [hours] [seed]
+ */
+
+// Must be set before bluesky.config is loaded
+process.env.ENABLE_BLUESKY_AGENT = 'true'
+process.env.LLM_PROVIDER = 'mock'
+
+const PETS = [
+  {
+    id: 'sim-pet-chaos',
+    name: 'Gremlin',
+    handle: 'gremlin.sim.test',
+    frequency: 'high' as const,
+    meme: {
+      memePersonality: {
+        archetype: 'chaotic-gremlin',
+        humorStyle: 'absurdist',
+        catchphrases: ['chaos reigns'],
+        topicsOfInterest: ['snacks', 'cardboard boxes', '3am zoomies'],
+        speechStyle: { tone: 'lowercase', quirks: ['screams'] },
+        interactionPreferences: { friendliness: 70, sassiness: 80, chaosLevel: 90 },
+      },
+      psyche: { traits: { playfulness: 0.9, curiosity: 0.8, expressiveness: 0.9 } },
+    },
+  },
+  {
+    id: 'sim-pet-sage',
+    name: 'Professor Whiskers',
+    handle: 'whiskers.sim.test',
+    chronotype: 'early_bird' as const,
+    meme: {
+      memePersonality: {
+        archetype: 'wise-elder',
+        humorStyle: 'dry',
+        catchphrases: ['as the ancients foretold'],
+        topicsOfInterest: ['naps', 'philosophy', 'sunbeams'],
+        speechStyle: { tone: 'formal', quirks: ['sighs'] },
+        interactionPreferences: { friendliness: 60, sassiness: 40, chaosLevel: 20 },
+      },
+      psyche: { traits: { playfulness: 0.3, curiosity: 0.7, expressiveness: 0.4 } },
+    },
+  },
+  {
+    id: 'sim-pet-diva',
+    name: 'Duchess',
+    handle: 'duchess.sim.test',
+    chronotype: 'night_owl' as const,
+    meme: {
+      memePersonality: {
+        archetype: 'dramatic-diva',
+        humorStyle: 'sarcastic',
+        catchphrases: ['i am the main character'],
+        topicsOfInterest: ['fashion', 'treats', 'being adored'],
+        speechStyle: { tone: 'dramatic', quirks: ['hair flips'] },
+        interactionPreferences: { friendliness: 40, sassiness: 95, chaosLevel: 60 },
+      },
+      psyche: { traits: { playfulness: 0.6, curiosity: 0.4, expressiveness: 1 } },
+    },
+  },
+]
+
+const HUMAN_POSTS = [
+  { atHour: 2, handle: 'catfan.sim.test', text: 'my cat knocked my coffee off the desk again lol' },
+  { atHour: 9, handle: 'catfan.sim.test', text: '@gremlin.sim.test what are you up to today' },
+  { atHour: 15, handle: 'dogperson.sim.test', text: 'hot take: naps are the best part of the day' },
+]
+
+async function main() {
+  const hours = Number(process.argv[2] ?? 24)
+  const seed = Number(process.argv[3] ?? 42)
+
+  const { runSimulation, formatTimeline } = await import('../lib/simulation/agent-simulator.js')
+
+  const result = await runSimulation({
+    pets: PETS,
+    start: '2026-03-02T12:00:00Z',
+    durationHours: hours,
+    seed,
+    humanPosts: HUMAN_POSTS,
+  })
+
+  console.log(formatTimeline(result))
+
+  console.log('\nMood trajectories:')
+  for (const pet of PETS) {
+    const points = result.moodTrajectories[pet.id]
+    const path = points.map(p => `${p.emotion}(${p.pleasure.toFixed(2)})`).join(' → ')
+    console.log(`  ${pet.name.padEnd(20)} ${path || '(no mood updates)'}`)
+  }
+
+  console.log('\nRelationships:')
+  const latest = new Map<string, (typeof result.relationships)[number]>()
+  for (const point of result.relationships) latest.set(`${point.petIdA}|${point.petIdB}`, point)
+  for (const point of latest.values()) {
+    console.log(`  ${point.petIdA} ↔ ${point.petIdB}: ${point.sentiment} (${point.score.toFixed(2)}, ${point.interactionCount} interactions)`)
+  }
+
+  console.log('\nLLM calls:', JSON.stringify(result.stats.llmCalls))
+  console.log('Workflow runs:', JSON.stringify(result.stats.workflowRuns))
+}
+
+main().catch(err => {
+  console.error(err)
+  process.exit(1)
+})
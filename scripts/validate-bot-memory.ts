@@ -0,0 +1,86 @@
+/**
+ * Bot Memory Validation (dry run)
+ *
+ * Runs every stored bot_memory blob through the migration chain and the
+ * latest BotMemorySchema without writing anything. Reports how many
+ * blobs sit at each version, how many would be upgraded on their next
+ * save, and every blob that would fail to load (and be reset).
+ * Run before deploying a BotMemorySchema change.
+ *
+ * Run: npx tsx scripts/validate-bot-memory.ts [--verbose]
+ *
+ * Requires env vars:
+ *   SUPABASE_URL / SUPABASE_SERVICE_ROLE_KEY
+ */
+
+import { getServiceSupabase } from '../lib/api/service-supabase'
+import {
+  CURRENT_MEMORY_VERSION,
+  runMemoryMigrations,
+} from '../lib/agent/memory/memory-migrations'
+
+const PAGE_SIZE = 500
+
+interface Failure {
+  petId: string
+  fromVersion: number | null
+  error: string
+}
+
+async function validateBotMemory() {
+  const verbose = process.argv.includes('--verbose')
+  const supabase = getServiceSupabase()
+
+  const byVersion = new Map<string, number>()
+  const failures: Failure[] = []
+  let upgrades = 0
+  let total = 0
+
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await (supabase as any)
+      .from('bot_memory')
+      .select('pet_id, memory')
+      .order('pet_id', { ascending: true })
+      .range(offset, offset + PAGE_SIZE - 1) as { data: Array<{ pet_id: string; memory: unknown }> | null; error: unknown }
+
+    if (error) throw new Error(`Failed to read bot_memory: ${JSON.stringify(error)}`)
+    if (!data || data.length === 0) break
+
+    for (const row of data) {
+      total++
+      const result = runMemoryMigrations(row.memory)
+      const versionKey = result.fromVersion === null ? 'none' : `v${result.fromVersion}`
+      byVersion.set(versionKey, (byVersion.get(versionKey) ?? 0) + 1)
+
+      if (!result.ok) {
+        failures.push({ petId: row.pet_id, fromVersion: result.fromVersion, error: result.error })
+        continue
+      }
+      if (result.applied.length > 0) {
+        upgrades++
+        if (verbose) console.log(`  ${row.pet_id}: v${result.applied.join(' → v')} → v${CURRENT_MEMORY_VERSION}`)
+      }
+    }
+
+    if (data.length < PAGE_SIZE) break
+  }
+
+  console.log(`Checked ${total} bot_memory rows against schema v${CURRENT_MEMORY_VERSION}`)
+  for (const [version, count] of [...byVersion.entries()].sort()) {
+    console.log(`  stored ${version}: ${count}`)
+  }
+  console.log(`  would upgrade on next save: ${upgrades}`)
+  console.log(`  would fail to load: ${failures.length}`)
+
+  for (const failure of failures) {
+    const version = failure.fromVersion === null ? 'no version' : `v${failure.fromVersion}`
+    console.log(`  FAIL ${failure.petId} (${version}): ${failure.error}`)
+  }
+
+  if (failures.length > 0) process.exit(1)
+}
+
+validateBotMemory().catch(error => {
+  console.error('Validation failed:', error instanceof Error ? error.message : error)
+  process.exit(1)
+})
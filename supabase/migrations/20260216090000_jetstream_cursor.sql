@@ -0,0 +1,11 @@
+-- Jetstream ingestion cursor (time_us of the last processed event).
+-- One row per consumer so several ingestion pipelines can share the table.
+CREATE TABLE IF NOT EXISTS jetstream_cursor (
+  consumer TEXT PRIMARY KEY,
+  cursor_us BIGINT NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Internal bookkeeping only: no anon/authenticated access.
+-- service_role bypasses RLS.
+ALTER TABLE jetstream_cursor ENABLE ROW LEVEL SECURITY;
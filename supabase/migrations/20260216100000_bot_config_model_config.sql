@@ -0,0 +1,8 @@
+-- Per-pet LLM provider/model override.
+-- Shape: { "provider"?: "google" | "openai" | "mock",
+--          "tasks"?: { "<post|reply|reflection|safety|image>": { "provider": ..., "modelId"?: ... } } }
+-- NULL means the pet follows the global routing (MODEL_CONFIG + LLM_* env vars).
+ALTER TABLE bluesky_bot_config
+  ADD COLUMN IF NOT EXISTS model_config JSONB;
+
+-- Server-only column: not added to the anon/authenticated column grants.
@@ -0,0 +1,51 @@
+-- Human-in-the-loop review mode.
+-- 'auto'   → generated content is published immediately (previous behavior)
+-- 'review' → posts, replies, threads and quotes are held in bluesky_review_queue
+-- Existing bots keep publishing automatically; new bots start in review.
+ALTER TABLE bluesky_bot_config
+  ADD COLUMN IF NOT EXISTS publish_mode TEXT;
+
+UPDATE bluesky_bot_config SET publish_mode = 'auto' WHERE publish_mode IS NULL;
+
+ALTER TABLE bluesky_bot_config
+  ALTER COLUMN publish_mode SET DEFAULT 'review',
+  ALTER COLUMN publish_mode SET NOT NULL,
+  ADD CONSTRAINT bluesky_bot_config_publish_mode_check
+    CHECK (publish_mode IN ('auto', 'review'));
+
+-- Server-only column: not added to the anon/authenticated column grants.
+
+ALTER TYPE bluesky_activity_type ADD VALUE IF NOT EXISTS 'review_queued';
+
+-- Pending content awaiting approval.
+-- payload:            what will be published ({ text } | { posts } plus replyRef / quote / image)
+-- log_metadata:       metadata written to bluesky_post_log once published
+-- generation_context: what the pet was reacting to when it wrote this (for the reviewer)
+-- relationship_update: optional { otherPetId, interactionType } applied on publish
+CREATE TABLE IF NOT EXISTS bluesky_review_queue (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  pet_id TEXT NOT NULL REFERENCES pet(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('post', 'reply', 'thread', 'quote')),
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'published', 'rejected', 'failed')),
+  activity_type TEXT NOT NULL,
+  payload JSONB NOT NULL,
+  log_metadata JSONB,
+  generation_context JSONB,
+  relationship_update JSONB,
+  edited BOOLEAN NOT NULL DEFAULT FALSE,
+  reviewer_note TEXT,
+  published_uri TEXT,
+  error TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  reviewed_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_bluesky_review_queue_status
+  ON bluesky_review_queue(status, created_at);
+CREATE INDEX IF NOT EXISTS idx_bluesky_review_queue_pet
+  ON bluesky_review_queue(pet_id, status);
+
+-- Internal moderation data: no anon/authenticated access.
+-- service_role bypasses RLS.
+ALTER TABLE bluesky_review_queue ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,36 @@
+-- Engagement-ranked ("hot") feeds.
+-- Counts come from the public AppView and are refreshed by a background
+-- job (/api/v1/webhooks/bluesky-feed-refresh), never per feed request.
+-- conversation_depth: longest bot-to-bot reply chain in the post's thread.
+CREATE TABLE IF NOT EXISTS bluesky_post_engagement (
+  post_uri TEXT PRIMARY KEY,
+  pet_id TEXT NOT NULL REFERENCES pet(id) ON DELETE CASCADE,
+  like_count INTEGER NOT NULL DEFAULT 0,
+  reply_count INTEGER NOT NULL DEFAULT 0,
+  repost_count INTEGER NOT NULL DEFAULT 0,
+  quote_count INTEGER NOT NULL DEFAULT 0,
+  conversation_depth INTEGER NOT NULL DEFAULT 1,
+  post_created_at TIMESTAMPTZ NOT NULL,
+  refreshed_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_bluesky_post_engagement_created
+  ON bluesky_post_engagement(post_created_at DESC);
+
+-- Ranked post order per feed, written by the same job.
+-- Cursors reference a snapshot + offset, so paging stays stable while
+-- newer snapshots re-rank the feed.
+CREATE TABLE IF NOT EXISTS bluesky_feed_snapshot (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  feed TEXT NOT NULL,
+  post_uris JSONB NOT NULL DEFAULT '[]'::jsonb,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_bluesky_feed_snapshot_feed
+  ON bluesky_feed_snapshot(feed, created_at DESC);
+
+-- Server-only tables: no anon/authenticated access.
+-- service_role bypasses RLS.
+ALTER TABLE bluesky_post_engagement ENABLE ROW LEVEL SECURITY;
+ALTER TABLE bluesky_feed_snapshot ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,25 @@
+-- Bot-to-bot conversation arcs, one row per thread root.
+-- beats:        planned beat per post ('setup' | 'escalation' | 'resolution')
+-- scene_goal:   what the scene builds towards (from the pair's relationship sentiment)
+-- turn:         posts made so far by either pet
+-- close_reason: 'resolved' (closing line posted) or 'disengaged' (a pet bowed out)
+CREATE TABLE IF NOT EXISTS bluesky_conversation (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  root_uri TEXT NOT NULL UNIQUE,
+  initiator_pet_id TEXT NOT NULL REFERENCES pet(id) ON DELETE CASCADE,
+  responder_pet_id TEXT NOT NULL REFERENCES pet(id) ON DELETE CASCADE,
+  sentiment TEXT NOT NULL,
+  scene_goal TEXT NOT NULL,
+  beats JSONB NOT NULL,
+  turn INTEGER NOT NULL DEFAULT 0,
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'closed')),
+  close_reason TEXT CHECK (close_reason IN ('resolved', 'disengaged')),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_bluesky_conversation_pets
+  ON bluesky_conversation(initiator_pet_id, responder_pet_id, created_at DESC);
+
+-- Server-only tables: no anon/authenticated access. service_role bypasses RLS.
+ALTER TABLE bluesky_conversation ENABLE ROW LEVEL SECURITY;
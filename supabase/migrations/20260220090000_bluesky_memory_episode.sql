@@ -0,0 +1,37 @@
+-- Long-term episodic memory, one row per post / reply / interaction a pet made.
+-- content:   what happened, as shown back to the pet on recall
+-- embedder:  id of the embedder that produced `embedding`; recall only compares
+--            vectors from the same embedder, so switching models needs no rewrite
+-- embedding: unit-length vector of `content` (cosine similarity is computed
+--            in the app over the pet's most recent rows)
+-- post_uri:  published post, unique per pet so retried workflow steps don't duplicate
+--            (NULL for episodes backfilled from the v1 bot_memory window)
+CREATE TABLE IF NOT EXISTS bluesky_memory_episode (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  pet_id TEXT NOT NULL REFERENCES pet(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('post', 'reply', 'interaction')),
+  content TEXT NOT NULL,
+  topic TEXT,
+  partner_pet_id TEXT REFERENCES pet(id) ON DELETE SET NULL,
+  partner_did TEXT,
+  partner_handle TEXT,
+  post_uri TEXT,
+  embedder TEXT NOT NULL,
+  embedding REAL[] NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (pet_id, post_uri)
+);
+
+CREATE INDEX IF NOT EXISTS idx_bluesky_memory_episode_recent
+  ON bluesky_memory_episode(pet_id, embedder, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_bluesky_memory_episode_partner_pet
+  ON bluesky_memory_episode(pet_id, partner_pet_id, created_at DESC)
+  WHERE partner_pet_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_bluesky_memory_episode_partner_did
+  ON bluesky_memory_episode(pet_id, partner_did, created_at DESC)
+  WHERE partner_did IS NOT NULL;
+
+-- Server-only tables: no anon/authenticated access. service_role bypasses RLS.
+ALTER TABLE bluesky_memory_episode ENABLE ROW LEVEL SECURITY;
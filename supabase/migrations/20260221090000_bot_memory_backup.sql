@@ -0,0 +1,17 @@
+-- Snapshots of bot_memory blobs taken just before saveBotMemory overwrites them
+-- with a migrated (reason 'upgrade') or freshly reset (reason 'invalid') blob.
+-- version: schema version of the snapshot, NULL when the blob had none
+CREATE TABLE IF NOT EXISTS bot_memory_backup (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  pet_id TEXT NOT NULL,
+  version INTEGER,
+  reason TEXT NOT NULL CHECK (reason IN ('upgrade', 'invalid')),
+  memory JSONB NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_bot_memory_backup_pet
+  ON bot_memory_backup(pet_id, created_at DESC);
+
+-- Server-only tables: no anon/authenticated access. service_role bypasses RLS.
+ALTER TABLE bot_memory_backup ENABLE ROW LEVEL SECURITY;
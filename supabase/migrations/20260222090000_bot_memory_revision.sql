@@ -0,0 +1,4 @@
+-- Optimistic concurrency for bot_memory: every save bumps revision and only
+-- succeeds if the row is still at the revision the workflow run loaded.
+ALTER TABLE bot_memory
+  ADD COLUMN IF NOT EXISTS revision INTEGER NOT NULL DEFAULT 0;
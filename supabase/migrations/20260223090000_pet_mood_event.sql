@@ -0,0 +1,24 @@
+-- Per-pet mood event log. bot_memory.memory.moodState is a snapshot; the pet's
+-- current mood is that snapshot with the events logged after its lastUpdated
+-- replayed on top (see mood-event-log).
+-- event_type:  MoodEventType from emotion-engine (got_reply, post_liked, ...)
+-- source_uri:  post or notification that caused the event, unique per pet and
+--              type so retried workflow steps and re-polled notifications log
+--              it once (NULL for events with no single cause, e.g. morning)
+-- metadata:    free-form context (interaction type, engagement counts, ...)
+CREATE TABLE IF NOT EXISTS pet_mood_event (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  pet_id TEXT NOT NULL REFERENCES pet(id) ON DELETE CASCADE,
+  event_type TEXT NOT NULL,
+  source_uri TEXT,
+  metadata JSONB NOT NULL DEFAULT '{}'::jsonb,
+  occurred_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (pet_id, event_type, source_uri)
+);
+
+CREATE INDEX IF NOT EXISTS idx_pet_mood_event_recent
+  ON pet_mood_event(pet_id, occurred_at DESC);
+
+-- Server-only tables: no anon/authenticated access. service_role bypasses RLS.
+ALTER TABLE pet_mood_event ENABLE ROW LEVEL SECURITY;
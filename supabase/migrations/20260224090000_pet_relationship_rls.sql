@@ -0,0 +1,20 @@
+-- pet_relationship was created without RLS, so anon/authenticated clients could
+-- read every pair. Relationships are private pet data: owners see the rows that
+-- involve one of their pets. The EXISTS runs under the caller's own RLS on
+-- `pet`, so "their pets" follows the owner-only pet policy.
+-- The app reads relationships through GET /api/v1/pets/:petId/relationships
+-- (service role, owner checked in the API).
+ALTER TABLE pet_relationship ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "owner_read_pet_relationship"
+  ON pet_relationship
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM pet
+      WHERE pet.id = pet_relationship.pet_id_a OR pet.id = pet_relationship.pet_id_b
+    )
+  );
+
+-- Writes stay server-only. service_role bypasses RLS.
@@ -0,0 +1,40 @@
+-- Owner steering for a pet's Bluesky bot (see owner-controls).
+-- topic_nudges:   [{ topic, createdAt, expiresAt }] merged into the pet's
+--                 postingConfig.topicAffinity until they expire
+-- suggestion:     { text, createdAt, expiresAt } one-off "say something about
+--                 X"; cleared once a proactive post has used it
+-- blocked_topics: merged into the bot memory avoidList in prompts and dropped
+--                 from topicAffinity
+-- paused_until:   "go quiet" — the cron and the workflow skip the pet until then
+CREATE TABLE IF NOT EXISTS pet_owner_control (
+  pet_id TEXT PRIMARY KEY REFERENCES pet(id) ON DELETE CASCADE,
+  topic_nudges JSONB NOT NULL DEFAULT '[]'::jsonb,
+  suggestion JSONB,
+  blocked_topics TEXT[] NOT NULL DEFAULT '{}',
+  paused_until TIMESTAMPTZ,
+  updated_by UUID,
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_pet_owner_control_paused
+  ON pet_owner_control(paused_until)
+  WHERE paused_until IS NOT NULL;
+
+-- Every owner control request, accepted or not. Backs the per-owner rate
+-- limit and records why a request was turned down.
+CREATE TABLE IF NOT EXISTS pet_owner_control_log (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL,
+  pet_id TEXT NOT NULL REFERENCES pet(id) ON DELETE CASCADE,
+  action TEXT NOT NULL,
+  accepted BOOLEAN NOT NULL,
+  reason TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_pet_owner_control_log_user
+  ON pet_owner_control_log(user_id, created_at DESC);
+
+-- Server-only tables: no anon/authenticated access. service_role bypasses RLS.
+ALTER TABLE pet_owner_control ENABLE ROW LEVEL SECURITY;
+ALTER TABLE pet_owner_control_log ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,28 @@
+-- One row per model call made through withModelFailover (see llm-usage).
+-- pet_id / mode:  who the call is billed to; NULL outside a workflow run
+-- task:           model task (post, reply, reflection, safety, image)
+-- cost_usd:       estimate from BUDGET_CONFIG.PRICING at call time
+-- Daily budgets sum cost_usd since the start of the UTC day.
+CREATE TABLE IF NOT EXISTS llm_usage (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  pet_id TEXT REFERENCES pet(id) ON DELETE SET NULL,
+  mode TEXT,
+  task TEXT NOT NULL,
+  provider TEXT NOT NULL,
+  model TEXT NOT NULL,
+  input_tokens INTEGER NOT NULL DEFAULT 0,
+  output_tokens INTEGER NOT NULL DEFAULT 0,
+  image_count INTEGER NOT NULL DEFAULT 0,
+  latency_ms INTEGER NOT NULL DEFAULT 0,
+  cost_usd NUMERIC(12, 6) NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_llm_usage_created
+  ON llm_usage(created_at);
+
+CREATE INDEX IF NOT EXISTS idx_llm_usage_pet_created
+  ON llm_usage(pet_id, created_at DESC);
+
+-- Server-only tables: no anon/authenticated access. service_role bypasses RLS.
+ALTER TABLE llm_usage ENABLE ROW LEVEL SECURITY;
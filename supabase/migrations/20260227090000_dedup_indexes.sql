@@ -0,0 +1,10 @@
+-- Cross-pet similarity guard (see similarity-guard): before publishing, a
+-- proactive post is compared with every pet's recent posts, read by
+-- activity type and time window rather than per pet.
+CREATE INDEX IF NOT EXISTS idx_bluesky_post_log_activity_created
+  ON bluesky_post_log(activity_type, created_at DESC);
+
+-- With DEDUP_EMBEDDINGS=true, recent post embeddings across all pets
+CREATE INDEX IF NOT EXISTS idx_bluesky_memory_episode_recent_posts
+  ON bluesky_memory_episode(embedder, created_at DESC)
+  WHERE kind = 'post';
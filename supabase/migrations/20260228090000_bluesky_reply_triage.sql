@@ -0,0 +1,25 @@
+-- One row per inbound mention/reply a pet triaged (see reply-triage).
+-- category: question, compliment, harassment, spam, bot_loop, other_pet, other
+-- action:   reply, like, ignore or mute; a mute makes the pet ignore the author
+--           for TRIAGE_CONFIG.MUTE_HOURS
+-- Triage reads the author's recent rows across all pets for reply quotas,
+-- bot-loop detection and mutes. Unique per pet and notification so retried
+-- workflow steps don't count twice.
+CREATE TABLE IF NOT EXISTS bluesky_reply_triage (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  pet_id TEXT NOT NULL REFERENCES pet(id) ON DELETE CASCADE,
+  author_did TEXT NOT NULL,
+  notification_uri TEXT NOT NULL,
+  category TEXT NOT NULL,
+  score REAL NOT NULL DEFAULT 0,
+  action TEXT NOT NULL CHECK (action IN ('reply', 'like', 'ignore', 'mute')),
+  reason TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (pet_id, notification_uri)
+);
+
+CREATE INDEX IF NOT EXISTS idx_bluesky_reply_triage_author
+  ON bluesky_reply_triage(author_did, created_at DESC);
+
+-- Server-only tables: no anon/authenticated access. service_role bypasses RLS.
+ALTER TABLE bluesky_reply_triage ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,50 @@
+-- Abuse tracking for hostile accounts (see abuse-tracker).
+--
+-- bluesky_abuse_event: one row per harassing notification a pet received.
+-- source:   'safety' when the safety classifier flagged it, 'keyword' for
+--           the triage insult list
+CREATE TABLE IF NOT EXISTS bluesky_abuse_event (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  pet_id TEXT NOT NULL REFERENCES pet(id) ON DELETE CASCADE,
+  author_did TEXT NOT NULL,
+  author_handle TEXT,
+  category TEXT NOT NULL,
+  source TEXT NOT NULL,
+  post_uri TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (pet_id, post_uri)
+);
+
+CREATE INDEX IF NOT EXISTS idx_bluesky_abuse_event_author
+  ON bluesky_abuse_event(author_did, created_at DESC);
+
+-- bluesky_abuse_action: mutes and blocks, automatic or by an admin.
+-- scope:      'pet' = the pet's Bluesky account muted/blocked the author;
+--             'global' = the agent excludes the author for every pet (pet_id NULL)
+-- record_uri: block record, needed to undo a block
+-- status:     'active' until undone
+CREATE TABLE IF NOT EXISTS bluesky_abuse_action (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  pet_id TEXT REFERENCES pet(id) ON DELETE CASCADE,
+  author_did TEXT NOT NULL,
+  scope TEXT NOT NULL CHECK (scope IN ('pet', 'global')),
+  action TEXT NOT NULL CHECK (action IN ('mute', 'block', 'exclude')),
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'undone')),
+  record_uri TEXT,
+  reason TEXT,
+  created_by TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  undone_by TEXT,
+  undone_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_bluesky_abuse_action_active
+  ON bluesky_abuse_action(pet_id, author_did)
+  WHERE status = 'active';
+
+CREATE INDEX IF NOT EXISTS idx_bluesky_abuse_action_created
+  ON bluesky_abuse_action(created_at DESC);
+
+-- Server-only tables: no anon/authenticated access. service_role bypasses RLS.
+ALTER TABLE bluesky_abuse_event ENABLE ROW LEVEL SECURITY;
+ALTER TABLE bluesky_abuse_action ENABLE ROW LEVEL SECURITY;
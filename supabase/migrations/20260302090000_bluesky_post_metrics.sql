@@ -0,0 +1,39 @@
+-- Engagement snapshots for published pet posts (see post-metrics).
+-- The metrics job appends one row per post per run while the post is
+-- younger than PERFORMANCE_CONFIG.COLLECT.WINDOW_DAYS, so the history of
+-- how a post picked up likes, replies, reposts and quotes is kept.
+CREATE TABLE IF NOT EXISTS bluesky_post_metric (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  post_uri TEXT NOT NULL,
+  pet_id TEXT NOT NULL REFERENCES pet(id) ON DELETE CASCADE,
+  like_count INTEGER NOT NULL DEFAULT 0,
+  reply_count INTEGER NOT NULL DEFAULT 0,
+  repost_count INTEGER NOT NULL DEFAULT 0,
+  quote_count INTEGER NOT NULL DEFAULT 0,
+  collected_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_bluesky_post_metric_post
+  ON bluesky_post_metric(post_uri, collected_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_bluesky_post_metric_collected
+  ON bluesky_post_metric(collected_at);
+
+-- Per-pet bandit arms, recomputed from the latest snapshots each run.
+-- dimension: topic, intent, image, time_of_day or format
+-- lift:      arm's average reward over the pet's, shrunk toward 1 for
+--            arms with few posts (1 = average)
+CREATE TABLE IF NOT EXISTS bluesky_content_arm (
+  pet_id TEXT NOT NULL REFERENCES pet(id) ON DELETE CASCADE,
+  dimension TEXT NOT NULL CHECK (dimension IN ('topic', 'intent', 'image', 'time_of_day', 'format')),
+  arm TEXT NOT NULL,
+  posts INTEGER NOT NULL DEFAULT 0,
+  mean_reward REAL NOT NULL DEFAULT 0,
+  lift REAL NOT NULL DEFAULT 1,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (pet_id, dimension, arm)
+);
+
+-- Server-only tables: no anon/authenticated access. service_role bypasses RLS.
+ALTER TABLE bluesky_post_metric ENABLE ROW LEVEL SECURITY;
+ALTER TABLE bluesky_content_arm ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,176 @@
+-- Shared AT Protocol point budget per bot account (see rate-limit-ledger).
+--
+-- bluesky_rate_limit_bucket: two token buckets per pet, refilled
+-- continuously at capacity per hour / per day. Rows are created full
+-- on first use. Capacities are passed in from AT_PROTO_RATE_LIMITS.
+CREATE TABLE IF NOT EXISTS bluesky_rate_limit_bucket (
+  pet_id TEXT PRIMARY KEY REFERENCES pet(id) ON DELETE CASCADE,
+  hour_tokens DOUBLE PRECISION NOT NULL,
+  day_tokens DOUBLE PRECISION NOT NULL,
+  refilled_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- bluesky_rate_limit_reservation: points taken up front for a multi-post
+-- thread. Charges against the reservation draw it down; releasing it
+-- refunds what's left, unless it already expired.
+CREATE TABLE IF NOT EXISTS bluesky_rate_limit_reservation (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  pet_id TEXT NOT NULL REFERENCES pet(id) ON DELETE CASCADE,
+  points_remaining INTEGER NOT NULL CHECK (points_remaining >= 0),
+  expires_at TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_bluesky_rate_limit_reservation_expires
+  ON bluesky_rate_limit_reservation(expires_at);
+
+-- Lock the pet's bucket row (creating it full) and bring it up to date.
+-- Callers run in the same transaction, so the lock serializes every
+-- charge for the pet across concurrent workflow runs.
+CREATE OR REPLACE FUNCTION bluesky_rate_limit_refill(
+  p_pet_id TEXT,
+  p_hour_capacity INTEGER,
+  p_day_capacity INTEGER
+) RETURNS bluesky_rate_limit_bucket
+LANGUAGE plpgsql AS $$
+DECLARE
+  bucket bluesky_rate_limit_bucket;
+  elapsed DOUBLE PRECISION;
+BEGIN
+  INSERT INTO bluesky_rate_limit_bucket (pet_id, hour_tokens, day_tokens)
+  VALUES (p_pet_id, p_hour_capacity, p_day_capacity)
+  ON CONFLICT (pet_id) DO NOTHING;
+
+  SELECT * INTO bucket FROM bluesky_rate_limit_bucket WHERE pet_id = p_pet_id FOR UPDATE;
+
+  elapsed := GREATEST(0, EXTRACT(EPOCH FROM (NOW() - bucket.refilled_at)));
+  bucket.hour_tokens := LEAST(p_hour_capacity, bucket.hour_tokens + elapsed * p_hour_capacity / 3600.0);
+  bucket.day_tokens := LEAST(p_day_capacity, bucket.day_tokens + elapsed * p_day_capacity / 86400.0);
+  bucket.refilled_at := NOW();
+
+  UPDATE bluesky_rate_limit_bucket
+    SET hour_tokens = bucket.hour_tokens, day_tokens = bucket.day_tokens, refilled_at = bucket.refilled_at
+    WHERE pet_id = p_pet_id;
+  RETURN bucket;
+END;
+$$;
+
+-- Take p_points, using a live reservation first. Takes nothing when
+-- either bucket is short and reports how long until it would fit.
+CREATE OR REPLACE FUNCTION bluesky_rate_limit_charge(
+  p_pet_id TEXT,
+  p_points INTEGER,
+  p_hour_capacity INTEGER,
+  p_day_capacity INTEGER,
+  p_reservation_id UUID DEFAULT NULL
+) RETURNS TABLE (allowed BOOLEAN, hour_remaining INTEGER, day_remaining INTEGER, retry_after_seconds INTEGER)
+LANGUAGE plpgsql AS $$
+DECLARE
+  bucket bluesky_rate_limit_bucket;
+  reserved INTEGER := 0;
+  needed INTEGER;
+BEGIN
+  bucket := bluesky_rate_limit_refill(p_pet_id, p_hour_capacity, p_day_capacity);
+
+  IF p_reservation_id IS NOT NULL THEN
+    SELECT LEAST(points_remaining, p_points) INTO reserved
+      FROM bluesky_rate_limit_reservation
+      WHERE id = p_reservation_id AND pet_id = p_pet_id AND expires_at > NOW()
+      FOR UPDATE;
+    reserved := COALESCE(reserved, 0);
+  END IF;
+  needed := p_points - reserved;
+
+  IF bucket.hour_tokens < needed OR bucket.day_tokens < needed THEN
+    RETURN QUERY SELECT
+      FALSE,
+      FLOOR(bucket.hour_tokens)::INTEGER,
+      FLOOR(bucket.day_tokens)::INTEGER,
+      CEIL(GREATEST(
+        (needed - bucket.hour_tokens) / (p_hour_capacity / 3600.0),
+        (needed - bucket.day_tokens) / (p_day_capacity / 86400.0)
+      ))::INTEGER;
+    RETURN;
+  END IF;
+
+  UPDATE bluesky_rate_limit_bucket
+    SET hour_tokens = hour_tokens - needed, day_tokens = day_tokens - needed
+    WHERE pet_id = p_pet_id;
+  IF reserved > 0 THEN
+    UPDATE bluesky_rate_limit_reservation
+      SET points_remaining = points_remaining - reserved
+      WHERE id = p_reservation_id;
+  END IF;
+
+  RETURN QUERY SELECT
+    TRUE,
+    FLOOR(bucket.hour_tokens - needed)::INTEGER,
+    FLOOR(bucket.day_tokens - needed)::INTEGER,
+    0;
+END;
+$$;
+
+-- Charge p_points and hold them under a new reservation (NULL id when
+-- the points weren't available).
+CREATE OR REPLACE FUNCTION bluesky_rate_limit_reserve(
+  p_pet_id TEXT,
+  p_points INTEGER,
+  p_hour_capacity INTEGER,
+  p_day_capacity INTEGER,
+  p_ttl_seconds INTEGER
+) RETURNS TABLE (
+  allowed BOOLEAN,
+  reservation_id UUID,
+  hour_remaining INTEGER,
+  day_remaining INTEGER,
+  retry_after_seconds INTEGER
+)
+LANGUAGE plpgsql AS $$
+DECLARE
+  charged RECORD;
+  new_id UUID;
+BEGIN
+  SELECT * INTO charged FROM bluesky_rate_limit_charge(p_pet_id, p_points, p_hour_capacity, p_day_capacity);
+
+  IF charged.allowed THEN
+    INSERT INTO bluesky_rate_limit_reservation (pet_id, points_remaining, expires_at)
+    VALUES (p_pet_id, p_points, NOW() + make_interval(secs => p_ttl_seconds))
+    RETURNING id INTO new_id;
+  END IF;
+
+  RETURN QUERY SELECT charged.allowed, new_id, charged.hour_remaining, charged.day_remaining, charged.retry_after_seconds;
+END;
+$$;
+
+-- Drop a reservation and refund its unused points; returns the refund.
+CREATE OR REPLACE FUNCTION bluesky_rate_limit_release(
+  p_reservation_id UUID,
+  p_hour_capacity INTEGER,
+  p_day_capacity INTEGER
+) RETURNS INTEGER
+LANGUAGE plpgsql AS $$
+DECLARE
+  reservation bluesky_rate_limit_reservation;
+BEGIN
+  DELETE FROM bluesky_rate_limit_reservation WHERE id = p_reservation_id RETURNING * INTO reservation;
+  IF NOT FOUND OR reservation.expires_at <= NOW() OR reservation.points_remaining = 0 THEN
+    RETURN 0;
+  END IF;
+
+  PERFORM bluesky_rate_limit_refill(reservation.pet_id, p_hour_capacity, p_day_capacity);
+  UPDATE bluesky_rate_limit_bucket
+    SET hour_tokens = LEAST(p_hour_capacity, hour_tokens + reservation.points_remaining),
+        day_tokens = LEAST(p_day_capacity, day_tokens + reservation.points_remaining)
+    WHERE pet_id = reservation.pet_id;
+  RETURN reservation.points_remaining;
+END;
+$$;
+
+-- Server-only tables and functions: no anon/authenticated access. service_role bypasses RLS.
+ALTER TABLE bluesky_rate_limit_bucket ENABLE ROW LEVEL SECURITY;
+ALTER TABLE bluesky_rate_limit_reservation ENABLE ROW LEVEL SECURITY;
+
+REVOKE EXECUTE ON FUNCTION bluesky_rate_limit_refill(TEXT, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION bluesky_rate_limit_charge(TEXT, INTEGER, INTEGER, INTEGER, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION bluesky_rate_limit_reserve(TEXT, INTEGER, INTEGER, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION bluesky_rate_limit_release(UUID, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,23 @@
+-- Idempotency keys for Bluesky writes (see publish-intents).
+--
+-- One row per write, stored before the write is made.
+-- idempotency_key: '<workflow run id>:<step>' or 'review:<item id>:<index>'
+-- rkey:            record key (TID) the record is created under; a retry
+--                  looks it up in the pet's repo instead of posting again
+-- record_uri/cid:  set once the write landed
+CREATE TABLE IF NOT EXISTS bluesky_publish_intent (
+  idempotency_key TEXT PRIMARY KEY,
+  pet_id TEXT NOT NULL REFERENCES pet(id) ON DELETE CASCADE,
+  collection TEXT NOT NULL CHECK (collection IN ('app.bsky.feed.post', 'app.bsky.feed.like')),
+  rkey TEXT NOT NULL,
+  record_uri TEXT,
+  record_cid TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  completed_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_bluesky_publish_intent_created
+  ON bluesky_publish_intent(created_at);
+
+-- Server-only table: no anon/authenticated access. service_role bypasses RLS.
+ALTER TABLE bluesky_publish_intent ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,38 @@
+-- Follow graph per pet (see follow-manager).
+--
+-- One row per account a pet has followed or been followed by.
+-- follows_pet_since: when the account followed the pet (follow notification
+--                    or follower list); NULL when not known to follow it
+-- follow_uri:        the pet's follow record; NULL when the pet doesn't follow
+--                    the account. Only follows the manager made are stored,
+--                    so it never undoes a follow it didn't make
+-- follow_reason:     why the pet followed: 'follow_back', 'engagement' or
+--                    'relationship'
+CREATE TABLE IF NOT EXISTS bluesky_follow (
+  pet_id TEXT NOT NULL REFERENCES pet(id) ON DELETE CASCADE,
+  subject_did TEXT NOT NULL,
+  subject_handle TEXT,
+  follows_pet_since TIMESTAMPTZ,
+  follow_uri TEXT,
+  follow_reason TEXT CHECK (follow_reason IN ('follow_back', 'engagement', 'relationship')),
+  followed_at TIMESTAMPTZ,
+  unfollowed_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (pet_id, subject_did)
+);
+
+CREATE INDEX IF NOT EXISTS idx_bluesky_follow_following
+  ON bluesky_follow(pet_id)
+  WHERE follow_uri IS NOT NULL;
+
+-- Every follow and unfollow is logged
+ALTER TYPE bluesky_activity_type ADD VALUE IF NOT EXISTS 'follow';
+ALTER TYPE bluesky_activity_type ADD VALUE IF NOT EXISTS 'unfollow';
+
+-- Follows are idempotent writes too
+ALTER TABLE bluesky_publish_intent DROP CONSTRAINT IF EXISTS bluesky_publish_intent_collection_check;
+ALTER TABLE bluesky_publish_intent ADD CONSTRAINT bluesky_publish_intent_collection_check
+  CHECK (collection IN ('app.bsky.feed.post', 'app.bsky.feed.like', 'app.bsky.graph.follow'));
+
+-- Server-only table: no anon/authenticated access. service_role bypasses RLS.
+ALTER TABLE bluesky_follow ENABLE ROW LEVEL SECURITY;
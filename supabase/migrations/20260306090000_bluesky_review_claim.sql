@@ -0,0 +1,6 @@
+-- Review approvals claim the item before publishing (see review-queue).
+-- 'publishing' → an approval is publishing the item; a second approval is refused
+-- Failed items can be approved again, so 'failed' is no longer final.
+ALTER TABLE bluesky_review_queue DROP CONSTRAINT IF EXISTS bluesky_review_queue_status_check;
+ALTER TABLE bluesky_review_queue ADD CONSTRAINT bluesky_review_queue_status_check
+  CHECK (status IN ('pending', 'publishing', 'published', 'rejected', 'failed'));
@@ -0,0 +1,5 @@
+-- Rate-limit points are charged once per publish intent (see publish-intents).
+-- charged_at: when an attempt charged the write's points; a retry of the
+--             same intent writes without charging again
+ALTER TABLE bluesky_publish_intent
+  ADD COLUMN IF NOT EXISTS charged_at TIMESTAMPTZ;
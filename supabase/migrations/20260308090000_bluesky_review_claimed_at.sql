@@ -0,0 +1,4 @@
+-- When an approval claimed a review item (see review-queue).
+-- An item left 'publishing' by an approval that died can be reclaimed by
+-- another approval once claimed_at is older than REVIEW.PUBLISHING_TIMEOUT_MINUTES.
+ALTER TABLE bluesky_review_queue ADD COLUMN IF NOT EXISTS claimed_at TIMESTAMPTZ;
@@ -0,0 +1,127 @@
+-- Separate login bucket per pet (see rate-limit-ledger).
+--
+-- bluesky_rate_limit_bucket now holds one row per pet and bucket_name:
+-- 'points' → the AT Protocol point budget (every existing row)
+-- 'login'  → createSession calls, sized to the PDS login limit
+-- Reservations always draw on the 'points' bucket.
+ALTER TABLE bluesky_rate_limit_bucket ADD COLUMN IF NOT EXISTS bucket_name TEXT NOT NULL DEFAULT 'points'
+  CHECK (bucket_name IN ('points', 'login'));
+ALTER TABLE bluesky_rate_limit_bucket DROP CONSTRAINT IF EXISTS bluesky_rate_limit_bucket_pkey;
+ALTER TABLE bluesky_rate_limit_bucket ADD PRIMARY KEY (pet_id, bucket_name);
+
+-- The old signatures would be ambiguous next to the ones with p_bucket
+DROP FUNCTION IF EXISTS bluesky_rate_limit_refill(TEXT, INTEGER, INTEGER);
+DROP FUNCTION IF EXISTS bluesky_rate_limit_charge(TEXT, INTEGER, INTEGER, INTEGER, UUID);
+
+CREATE OR REPLACE FUNCTION bluesky_rate_limit_refill(
+  p_pet_id TEXT,
+  p_hour_capacity INTEGER,
+  p_day_capacity INTEGER,
+  p_bucket TEXT DEFAULT 'points'
+) RETURNS bluesky_rate_limit_bucket
+LANGUAGE plpgsql AS $$
+DECLARE
+  bucket bluesky_rate_limit_bucket;
+  elapsed DOUBLE PRECISION;
+BEGIN
+  INSERT INTO bluesky_rate_limit_bucket (pet_id, bucket_name, hour_tokens, day_tokens)
+  VALUES (p_pet_id, p_bucket, p_hour_capacity, p_day_capacity)
+  ON CONFLICT (pet_id, bucket_name) DO NOTHING;
+
+  SELECT * INTO bucket FROM bluesky_rate_limit_bucket
+    WHERE pet_id = p_pet_id AND bucket_name = p_bucket
+    FOR UPDATE;
+
+  elapsed := GREATEST(0, EXTRACT(EPOCH FROM (NOW() - bucket.refilled_at)));
+  bucket.hour_tokens := LEAST(p_hour_capacity, bucket.hour_tokens + elapsed * p_hour_capacity / 3600.0);
+  bucket.day_tokens := LEAST(p_day_capacity, bucket.day_tokens + elapsed * p_day_capacity / 86400.0);
+  bucket.refilled_at := NOW();
+
+  UPDATE bluesky_rate_limit_bucket
+    SET hour_tokens = bucket.hour_tokens, day_tokens = bucket.day_tokens, refilled_at = bucket.refilled_at
+    WHERE pet_id = p_pet_id AND bucket_name = p_bucket;
+  RETURN bucket;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION bluesky_rate_limit_charge(
+  p_pet_id TEXT,
+  p_points INTEGER,
+  p_hour_capacity INTEGER,
+  p_day_capacity INTEGER,
+  p_reservation_id UUID DEFAULT NULL,
+  p_bucket TEXT DEFAULT 'points'
+) RETURNS TABLE (allowed BOOLEAN, hour_remaining INTEGER, day_remaining INTEGER, retry_after_seconds INTEGER)
+LANGUAGE plpgsql AS $$
+DECLARE
+  bucket bluesky_rate_limit_bucket;
+  reserved INTEGER := 0;
+  needed INTEGER;
+BEGIN
+  bucket := bluesky_rate_limit_refill(p_pet_id, p_hour_capacity, p_day_capacity, p_bucket);
+
+  IF p_reservation_id IS NOT NULL AND p_bucket = 'points' THEN
+    SELECT LEAST(points_remaining, p_points) INTO reserved
+      FROM bluesky_rate_limit_reservation
+      WHERE id = p_reservation_id AND pet_id = p_pet_id AND expires_at > NOW()
+      FOR UPDATE;
+    reserved := COALESCE(reserved, 0);
+  END IF;
+  needed := p_points - reserved;
+
+  IF bucket.hour_tokens < needed OR bucket.day_tokens < needed THEN
+    RETURN QUERY SELECT
+      FALSE,
+      FLOOR(bucket.hour_tokens)::INTEGER,
+      FLOOR(bucket.day_tokens)::INTEGER,
+      CEIL(GREATEST(
+        (needed - bucket.hour_tokens) / (p_hour_capacity / 3600.0),
+        (needed - bucket.day_tokens) / (p_day_capacity / 86400.0)
+      ))::INTEGER;
+    RETURN;
+  END IF;
+
+  UPDATE bluesky_rate_limit_bucket
+    SET hour_tokens = hour_tokens - needed, day_tokens = day_tokens - needed
+    WHERE pet_id = p_pet_id AND bucket_name = p_bucket;
+  IF reserved > 0 THEN
+    UPDATE bluesky_rate_limit_reservation
+      SET points_remaining = points_remaining - reserved
+      WHERE id = p_reservation_id;
+  END IF;
+
+  RETURN QUERY SELECT
+    TRUE,
+    FLOOR(bucket.hour_tokens - needed)::INTEGER,
+    FLOOR(bucket.day_tokens - needed)::INTEGER,
+    0;
+END;
+$$;
+
+-- Refunds go back to the points bucket only
+CREATE OR REPLACE FUNCTION bluesky_rate_limit_release(
+  p_reservation_id UUID,
+  p_hour_capacity INTEGER,
+  p_day_capacity INTEGER
+) RETURNS INTEGER
+LANGUAGE plpgsql AS $$
+DECLARE
+  reservation bluesky_rate_limit_reservation;
+BEGIN
+  DELETE FROM bluesky_rate_limit_reservation WHERE id = p_reservation_id RETURNING * INTO reservation;
+  IF NOT FOUND OR reservation.expires_at <= NOW() OR reservation.points_remaining = 0 THEN
+    RETURN 0;
+  END IF;
+
+  PERFORM bluesky_rate_limit_refill(reservation.pet_id, p_hour_capacity, p_day_capacity, 'points');
+  UPDATE bluesky_rate_limit_bucket
+    SET hour_tokens = LEAST(p_hour_capacity, hour_tokens + reservation.points_remaining),
+        day_tokens = LEAST(p_day_capacity, day_tokens + reservation.points_remaining)
+    WHERE pet_id = reservation.pet_id AND bucket_name = 'points';
+  RETURN reservation.points_remaining;
+END;
+$$;
+
+-- Server-only functions: no anon/authenticated access. service_role bypasses RLS.
+REVOKE EXECUTE ON FUNCTION bluesky_rate_limit_refill(TEXT, INTEGER, INTEGER, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION bluesky_rate_limit_charge(TEXT, INTEGER, INTEGER, INTEGER, UUID, TEXT) FROM PUBLIC, anon, authenticated;
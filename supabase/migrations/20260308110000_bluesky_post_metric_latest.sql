@@ -0,0 +1,25 @@
+-- Latest engagement snapshot per post (see post-metrics).
+-- The metrics job upserts it next to each bluesky_post_metric snapshot, so
+-- learning reads one row per post instead of the whole snapshot history.
+-- Both tables are pruned past PERFORMANCE_CONFIG.COLLECT.RETENTION_DAYS.
+CREATE TABLE IF NOT EXISTS bluesky_post_metric_latest (
+  post_uri TEXT PRIMARY KEY,
+  pet_id TEXT NOT NULL REFERENCES pet(id) ON DELETE CASCADE,
+  like_count INTEGER NOT NULL DEFAULT 0,
+  reply_count INTEGER NOT NULL DEFAULT 0,
+  repost_count INTEGER NOT NULL DEFAULT 0,
+  quote_count INTEGER NOT NULL DEFAULT 0,
+  collected_at TIMESTAMPTZ NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_bluesky_post_metric_latest_collected
+  ON bluesky_post_metric_latest(collected_at);
+
+INSERT INTO bluesky_post_metric_latest (post_uri, pet_id, like_count, reply_count, repost_count, quote_count, collected_at)
+SELECT DISTINCT ON (post_uri) post_uri, pet_id, like_count, reply_count, repost_count, quote_count, collected_at
+  FROM bluesky_post_metric
+  ORDER BY post_uri, collected_at DESC
+ON CONFLICT (post_uri) DO NOTHING;
+
+-- Server-only table: no anon/authenticated access. service_role bypasses RLS.
+ALTER TABLE bluesky_post_metric_latest ENABLE ROW LEVEL SECURITY;
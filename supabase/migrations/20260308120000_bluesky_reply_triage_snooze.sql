@@ -0,0 +1,12 @@
+-- Triage's 'mute' never muted anyone on Bluesky: the pet only ignored the
+-- author for a while. Rename it to 'snooze' (TRIAGE_CONFIG.SNOOZE_HOURS);
+-- real mutes stay in bluesky_abuse_action.
+-- The reply quota now counts reactive_reply rows in bluesky_post_log, so a
+-- 'reply' decision whose reply was skipped no longer uses up the quota.
+ALTER TABLE bluesky_reply_triage DROP CONSTRAINT IF EXISTS bluesky_reply_triage_action_check;
+
+UPDATE bluesky_reply_triage SET action = 'snooze' WHERE action = 'mute';
+
+ALTER TABLE bluesky_reply_triage
+  ADD CONSTRAINT bluesky_reply_triage_action_check
+  CHECK (action IN ('reply', 'like', 'ignore', 'snooze'));
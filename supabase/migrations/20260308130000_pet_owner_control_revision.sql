@@ -0,0 +1,5 @@
+-- Optimistic concurrency for pet_owner_control, like bot_memory: every
+-- owner request bumps revision and only saves if the row is still at the
+-- revision it read, so two requests at once can't drop each other's change.
+ALTER TABLE pet_owner_control
+  ADD COLUMN IF NOT EXISTS revision INTEGER NOT NULL DEFAULT 0;
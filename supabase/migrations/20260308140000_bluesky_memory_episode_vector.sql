@@ -0,0 +1,41 @@
+-- Similarity search for episodic recall (see episodic-memory) runs in the
+-- database over all of a pet's episodes, not just its most recent rows.
+-- embedding_vector mirrors `embedding` as a pgvector vector. It has no fixed
+-- dimension because embedders differ; the search is an exact scan of one
+-- pet's rows for one embedder, served by idx_bluesky_memory_episode_recent.
+CREATE EXTENSION IF NOT EXISTS vector;
+
+ALTER TABLE bluesky_memory_episode
+  ADD COLUMN IF NOT EXISTS embedding_vector vector
+  GENERATED ALWAYS AS (embedding::vector) STORED;
+
+-- The pet's p_limit episodes closest to p_query (cosine), created at or
+-- before p_before. The app weights the candidates by recency.
+CREATE OR REPLACE FUNCTION bluesky_recall_episodes(
+  p_pet_id TEXT,
+  p_embedder TEXT,
+  p_query REAL[],
+  p_before TIMESTAMPTZ,
+  p_limit INTEGER
+) RETURNS TABLE (
+  kind TEXT,
+  content TEXT,
+  topic TEXT,
+  partner_pet_id TEXT,
+  partner_did TEXT,
+  partner_handle TEXT,
+  created_at TIMESTAMPTZ,
+  similarity DOUBLE PRECISION
+)
+LANGUAGE sql STABLE AS $$
+  SELECT e.kind, e.content, e.topic, e.partner_pet_id, e.partner_did, e.partner_handle, e.created_at,
+         1 - (e.embedding_vector <=> p_query::vector) AS similarity
+  FROM bluesky_memory_episode e
+  WHERE e.pet_id = p_pet_id
+    AND e.embedder = p_embedder
+    AND e.created_at <= p_before
+  ORDER BY e.embedding_vector <=> p_query::vector
+  LIMIT p_limit;
+$$;
+
+REVOKE EXECUTE ON FUNCTION bluesky_recall_episodes(TEXT, TEXT, REAL[], TIMESTAMPTZ, INTEGER) FROM PUBLIC, anon, authenticated;